@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { ArrowLeft, Plus, Users, Key, Loader2, Search, RefreshCw } from 'lucide-react';
+import { ArrowLeft, Plus, Users, Key, Loader2, Search, RefreshCw, AlertTriangle, Activity } from 'lucide-react';
 import Link from 'next/link';
 import UserCard from './components/UserCard';
 import UserModal from './components/UserModal';
@@ -174,13 +174,29 @@ export default function AdminClient() {
                             <p className="text-gray-500 mt-2 text-lg font-light">Manage users and API keys</p>
                         </div>
                     </div>
-                    <button
-                        onClick={() => setShowAddModal(true)}
-                        className="flex items-center gap-2 px-6 py-3 bg-teal-600 text-white rounded-full hover:bg-black hover:shadow-lg transition-all font-medium text-sm tracking-wide active:scale-95"
-                    >
-                        <Plus size={18} />
-                        Add User
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <Link
+                            href="/admin/provider-health"
+                            className="flex items-center gap-2 px-6 py-3 bg-gray-50 text-gray-700 rounded-full hover:bg-gray-100 transition-all font-medium text-sm tracking-wide"
+                        >
+                            <Activity size={18} />
+                            Provider Health
+                        </Link>
+                        <Link
+                            href="/admin/webhook-events"
+                            className="flex items-center gap-2 px-6 py-3 bg-gray-50 text-gray-700 rounded-full hover:bg-gray-100 transition-all font-medium text-sm tracking-wide"
+                        >
+                            <AlertTriangle size={18} />
+                            Failed Events
+                        </Link>
+                        <button
+                            onClick={() => setShowAddModal(true)}
+                            className="flex items-center gap-2 px-6 py-3 bg-teal-600 text-white rounded-full hover:bg-black hover:shadow-lg transition-all font-medium text-sm tracking-wide active:scale-95"
+                        >
+                            <Plus size={18} />
+                            Add User
+                        </button>
+                    </div>
                 </div>
 
                 {/* Stats Cards */}
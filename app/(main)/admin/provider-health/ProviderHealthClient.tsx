@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Loader2, RefreshCw, RotateCcw, Activity, History } from 'lucide-react';
+import Link from 'next/link';
+import type { CircuitEvent, CircuitStatus } from '@/app/lib/circuitBreakerService';
+
+interface ProviderUsage {
+    current: {
+        requestsLastMinute: number;
+        errorsLastMinute: number;
+        rateLimitsLastMinute: number;
+        avgLatencyMs: number;
+    };
+    hourly: {
+        totalRequests: number;
+        totalErrors: number;
+        totalRateLimits: number;
+        avgLatencyMs: number;
+        successRate: number;
+    };
+}
+
+const STATE_STYLES: Record<string, string> = {
+    CLOSED: 'bg-green-50 text-green-700',
+    HALF_OPEN: 'bg-amber-50 text-amber-700',
+    OPEN: 'bg-red-50 text-red-700',
+};
+
+const STATE_LABELS: Record<string, string> = {
+    CLOSED: 'Healthy',
+    HALF_OPEN: 'Probing',
+    OPEN: 'Tripped',
+};
+
+export default function ProviderHealthClient() {
+    const [circuits, setCircuits] = useState<CircuitStatus[]>([]);
+    const [history, setHistory] = useState<CircuitEvent[]>([]);
+    const [usage, setUsage] = useState<Record<string, ProviderUsage>>({});
+    const [loading, setLoading] = useState(true);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [resetting, setResetting] = useState<string | null>(null);
+
+    const fetchHealth = useCallback(async () => {
+        try {
+            const res = await fetch('/api/admin/provider-health');
+            const data = await res.json();
+            if (res.ok) {
+                setCircuits(data.circuits || []);
+                setHistory(data.history || []);
+                setUsage(data.usage || {});
+            }
+        } catch (error) {
+            console.error('Failed to fetch provider health:', error);
+        } finally {
+            setLoading(false);
+            setIsRefreshing(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchHealth();
+        // Poll for updates every 15 seconds
+        const interval = setInterval(fetchHealth, 15000);
+        return () => clearInterval(interval);
+    }, [fetchHealth]);
+
+    const handleRefresh = () => {
+        setIsRefreshing(true);
+        fetchHealth();
+    };
+
+    const handleReset = async (provider: string) => {
+        if (!confirm(`Reset the ${provider} circuit? Requests will be sent to it again right away.`)) return;
+
+        setResetting(provider);
+        try {
+            const res = await fetch('/api/admin/provider-health', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ provider }),
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                alert(data.error || 'Failed to reset circuit');
+            }
+            await fetchHealth();
+        } catch (error) {
+            console.error('Failed to reset circuit:', error);
+            alert('Failed to reset circuit');
+        } finally {
+            setResetting(null);
+        }
+    };
+
+    // Providers with traffic but no breaker row yet are shown as healthy
+    const providers = Array.from(new Set([...circuits.map(c => c.provider), ...Object.keys(usage)]));
+
+    return (
+        <div className="min-h-screen bg-white font-sans">
+            <div className="max-w-6xl mx-auto p-8 lg:p-12 space-y-8">
+                {/* Header */}
+                <div className="flex items-center justify-between gap-6">
+                    <div className="flex items-center gap-6">
+                        <Link
+                            href="/admin"
+                            className="p-3 hover:bg-gray-50 rounded-full text-gray-400 hover:text-gray-900 transition-colors"
+                            aria-label="Go back"
+                        >
+                            <ArrowLeft size={24} />
+                        </Link>
+                        <div>
+                            <h1 className="text-4xl font-light text-gray-900 tracking-tight">Provider Health</h1>
+                            <p className="text-gray-500 mt-2 text-lg font-light">Circuit breakers and request rates shared by all instances</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={handleRefresh}
+                        disabled={isRefreshing}
+                        className="p-3 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-xl transition-colors disabled:opacity-50"
+                        title="Refresh"
+                    >
+                        <RefreshCw size={20} className={isRefreshing ? 'animate-spin' : ''} />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="flex flex-col items-center justify-center py-16 text-gray-400">
+                        <Loader2 className="animate-spin mb-3" size={32} />
+                        <span className="font-light">Loading provider health...</span>
+                    </div>
+                ) : (
+                    <>
+                        {/* Providers */}
+                        <div className="grid gap-4">
+                            {providers.map(provider => {
+                                const circuit = circuits.find(c => c.provider === provider);
+                                const state = circuit?.state || 'CLOSED';
+                                const providerUsage = usage[provider];
+
+                                return (
+                                    <div key={provider} className="p-6 bg-white border border-gray-100 rounded-[24px]">
+                                        <div className="flex items-start justify-between gap-4">
+                                            <div className="flex items-center gap-4">
+                                                <div className="p-3 bg-teal-50 text-teal-600 rounded-xl">
+                                                    <Activity size={22} />
+                                                </div>
+                                                <div>
+                                                    <div className="flex items-center gap-3">
+                                                        <h3 className="font-semibold text-gray-900 text-lg">{provider}</h3>
+                                                        <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${STATE_STYLES[state]}`}>
+                                                            {STATE_LABELS[state]} · {state}
+                                                        </span>
+                                                    </div>
+                                                    <p className="text-sm text-gray-500 mt-1">
+                                                        {circuit?.failures || 0} consecutive failures
+                                                        {circuit?.lastFailureAt && ` · last failure ${new Date(circuit.lastFailureAt).toLocaleString()}`}
+                                                        {circuit?.timeUntilHalfOpen !== null && circuit?.timeUntilHalfOpen !== undefined && ` · probe in ${Math.ceil(circuit.timeUntilHalfOpen / 1000)}s`}
+                                                    </p>
+                                                    {circuit?.lastTripReason && (
+                                                        <p className="text-sm text-red-600 mt-1">Last trip: {circuit.lastTripReason}</p>
+                                                    )}
+                                                </div>
+                                            </div>
+                                            <button
+                                                onClick={() => handleReset(provider)}
+                                                disabled={state === 'CLOSED' || resetting === provider}
+                                                className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-xl text-sm font-medium hover:bg-gray-200 disabled:opacity-50"
+                                            >
+                                                {resetting === provider ? <Loader2 size={16} className="animate-spin" /> : <RotateCcw size={16} />}
+                                                Reset
+                                            </button>
+                                        </div>
+
+                                        {providerUsage && (
+                                            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-6 text-sm">
+                                                <div>
+                                                    <p className="text-gray-500">Requests / min</p>
+                                                    <p className="text-xl font-semibold text-gray-900">{providerUsage.current.requestsLastMinute}</p>
+                                                </div>
+                                                <div>
+                                                    <p className="text-gray-500">Rate limits / min</p>
+                                                    <p className="text-xl font-semibold text-gray-900">{providerUsage.current.rateLimitsLastMinute}</p>
+                                                </div>
+                                                <div>
+                                                    <p className="text-gray-500">Requests (1h)</p>
+                                                    <p className="text-xl font-semibold text-gray-900">{providerUsage.hourly.totalRequests}</p>
+                                                </div>
+                                                <div>
+                                                    <p className="text-gray-500">Success rate (1h)</p>
+                                                    <p className="text-xl font-semibold text-gray-900">{providerUsage.hourly.successRate.toFixed(1)}%</p>
+                                                </div>
+                                                <div>
+                                                    <p className="text-gray-500">Avg latency (1h)</p>
+                                                    <p className="text-xl font-semibold text-gray-900">{(providerUsage.hourly.avgLatencyMs / 1000).toFixed(1)}s</p>
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+
+                        {/* State history */}
+                        <div>
+                            <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-4">
+                                <History size={18} className="text-gray-400" />
+                                State History
+                            </h2>
+                            {history.length === 0 ? (
+                                <p className="text-center py-8 text-sm text-gray-400 bg-gray-50/50 rounded-[24px] border border-dashed border-gray-200">
+                                    No circuit has tripped yet
+                                </p>
+                            ) : (
+                                <div className="border border-gray-100 rounded-[24px] divide-y divide-gray-100">
+                                    {history.map(event => (
+                                        <div key={event.id} className="flex items-center gap-4 px-6 py-3 text-sm">
+                                            <span className="w-44 text-gray-500">{new Date(event.created_at).toLocaleString()}</span>
+                                            <span className="w-24 font-medium text-gray-900">{event.provider}</span>
+                                            <span className="w-52">
+                                                <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${STATE_STYLES[event.from_state]}`}>{event.from_state}</span>
+                                                <span className="text-gray-400 mx-2">→</span>
+                                                <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${STATE_STYLES[event.to_state]}`}>{event.to_state}</span>
+                                            </span>
+                                            <span className="flex-1 text-gray-600 truncate">{event.reason}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Loader2, RefreshCw, RotateCcw, Trash2, Inbox, ChevronDown, ChevronUp } from 'lucide-react';
+import Link from 'next/link';
+import type { DeadLetterStatus, FailedWebhookEvent } from '@/app/lib/webhookDeadLetterService';
+
+const STATUS_FILTERS: { value: DeadLetterStatus | 'all'; label: string }[] = [
+    { value: 'all', label: 'All' },
+    { value: 'pending', label: 'Retrying' },
+    { value: 'failed', label: 'Failed' },
+    { value: 'success', label: 'Recovered' },
+    { value: 'discarded', label: 'Discarded' },
+];
+
+const STATUS_STYLES: Record<DeadLetterStatus, string> = {
+    pending: 'bg-amber-50 text-amber-700',
+    retrying: 'bg-blue-50 text-blue-700',
+    failed: 'bg-red-50 text-red-700',
+    success: 'bg-green-50 text-green-700',
+    discarded: 'bg-gray-100 text-gray-500',
+};
+
+function describeEvent(event: FailedWebhookEvent): string {
+    const payload = event.payload;
+    if (event.handler === 'message') return payload.message?.text || 'Message';
+    if (event.handler === 'image') return payload.message?.text ? `Image: ${payload.message.text}` : 'Image';
+    if (event.handler === 'postback') return `Button: ${payload.postback?.title || payload.postback?.payload || 'postback'}`;
+    if (event.handler === 'referral') return `Referral: ${payload.referral?.ref || 'link'}`;
+    return event.destination_url ? `Router forward to ${event.destination_url}` : 'Unknown event';
+}
+
+function canReplay(event: FailedWebhookEvent): boolean {
+    return !!event.handler && (event.status === 'pending' || event.status === 'failed');
+}
+
+export default function WebhookEventsClient() {
+    const [events, setEvents] = useState<FailedWebhookEvent[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [statusFilter, setStatusFilter] = useState<DeadLetterStatus | 'all'>('failed');
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [working, setWorking] = useState(false);
+
+    const fetchEvents = useCallback(async () => {
+        try {
+            const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+            const res = await fetch(`/api/admin/webhook-events${query}`);
+            const data = await res.json();
+            if (data.events) {
+                setEvents(data.events);
+                setSelected(new Set());
+            }
+        } catch (error) {
+            console.error('Failed to fetch webhook events:', error);
+        } finally {
+            setLoading(false);
+            setIsRefreshing(false);
+        }
+    }, [statusFilter]);
+
+    useEffect(() => {
+        fetchEvents();
+    }, [fetchEvents]);
+
+    const handleRefresh = () => {
+        setIsRefreshing(true);
+        fetchEvents();
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const runAction = async (action: 'replay' | 'discard', ids: string[]) => {
+        if (ids.length === 0) return;
+        if (action === 'discard' && !confirm(`Discard ${ids.length} event${ids.length === 1 ? '' : 's'}? The customer messages will not be answered.`)) {
+            return;
+        }
+
+        setWorking(true);
+        try {
+            const res = await fetch('/api/admin/webhook-events', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action, ids }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                alert(data.error || `Failed to ${action} events`);
+            } else if (action === 'replay') {
+                const failed = (data.results || []).filter((r: { outcome: string }) => r.outcome !== 'success').length;
+                if (failed > 0) alert(`${failed} of ${ids.length} events did not replay successfully`);
+            }
+            await fetchEvents();
+        } catch (error) {
+            console.error(`Failed to ${action} events:`, error);
+            alert(`Failed to ${action} events`);
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const replayable = events.filter(canReplay);
+    const selectedIds = Array.from(selected);
+
+    return (
+        <div className="min-h-screen bg-white font-sans">
+            <div className="max-w-6xl mx-auto p-8 lg:p-12 space-y-8">
+                {/* Header */}
+                <div className="flex items-center gap-6">
+                    <Link
+                        href="/admin"
+                        className="p-3 hover:bg-gray-50 rounded-full text-gray-400 hover:text-gray-900 transition-colors"
+                        aria-label="Go back"
+                    >
+                        <ArrowLeft size={24} />
+                    </Link>
+                    <div>
+                        <h1 className="text-4xl font-light text-gray-900 tracking-tight">Failed Webhook Events</h1>
+                        <p className="text-gray-500 mt-2 text-lg font-light">Messages whose handler failed. They are retried automatically, then wait here.</p>
+                    </div>
+                </div>
+
+                {/* Filters and actions */}
+                <div className="flex flex-wrap items-center gap-3">
+                    <div className="flex bg-gray-50 rounded-xl p-1">
+                        {STATUS_FILTERS.map(filter => (
+                            <button
+                                key={filter.value}
+                                onClick={() => { setLoading(true); setStatusFilter(filter.value); }}
+                                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${statusFilter === filter.value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+                            >
+                                {filter.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex-1" />
+                    <button
+                        onClick={() => runAction('replay', selectedIds)}
+                        disabled={working || selectedIds.length === 0}
+                        className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-xl text-sm font-medium hover:bg-teal-700 disabled:opacity-50"
+                    >
+                        {working ? <Loader2 size={16} className="animate-spin" /> : <RotateCcw size={16} />}
+                        Replay {selectedIds.length > 0 ? selectedIds.length : ''}
+                    </button>
+                    <button
+                        onClick={() => runAction('discard', selectedIds)}
+                        disabled={working || selectedIds.length === 0}
+                        className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-xl text-sm font-medium hover:bg-gray-200 disabled:opacity-50"
+                    >
+                        <Trash2 size={16} />
+                        Discard
+                    </button>
+                    <button
+                        onClick={handleRefresh}
+                        disabled={isRefreshing}
+                        className="p-3 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-xl transition-colors disabled:opacity-50"
+                        title="Refresh"
+                    >
+                        <RefreshCw size={20} className={isRefreshing ? 'animate-spin' : ''} />
+                    </button>
+                </div>
+
+                {/* Event List */}
+                {loading ? (
+                    <div className="flex flex-col items-center justify-center py-16 text-gray-400">
+                        <Loader2 className="animate-spin mb-3" size={32} />
+                        <span className="font-light">Loading events...</span>
+                    </div>
+                ) : events.length === 0 ? (
+                    <div className="text-center py-16 px-4 bg-gray-50/50 rounded-[32px] border border-dashed border-gray-200">
+                        <div className="bg-white p-4 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4 shadow-sm border border-gray-100">
+                            <Inbox size={24} className="text-gray-300" />
+                        </div>
+                        <h3 className="text-gray-900 font-medium mb-1">No events</h3>
+                        <p className="text-gray-500 text-sm max-w-sm mx-auto font-light">Nothing has failed with this status</p>
+                    </div>
+                ) : (
+                    <div className="border border-gray-100 rounded-[24px] overflow-hidden">
+                        <div className="flex items-center gap-4 px-6 py-3 bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wide">
+                            <input
+                                type="checkbox"
+                                checked={replayable.length > 0 && replayable.every(event => selected.has(event.id))}
+                                onChange={(e) => setSelected(e.target.checked ? new Set(replayable.map(event => event.id)) : new Set())}
+                                disabled={replayable.length === 0}
+                            />
+                            <span className="flex-1">Event</span>
+                            <span className="w-24">Attempts</span>
+                            <span className="w-24">Status</span>
+                            <span className="w-8" />
+                        </div>
+                        {events.map(event => (
+                            <div key={event.id} className="border-t border-gray-100">
+                                <div className="flex items-center gap-4 px-6 py-4">
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.has(event.id)}
+                                        onChange={() => toggleSelected(event.id)}
+                                        disabled={!canReplay(event)}
+                                    />
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 truncate">{describeEvent(event)}</p>
+                                        <p className="text-xs text-gray-500 truncate">
+                                            {new Date(event.created_at).toLocaleString()} · {event.handler || 'router'} · page {event.page_id}
+                                            {event.sender_id && ` · sender ${event.sender_id}`}
+                                        </p>
+                                        {event.error_message && (
+                                            <p className="text-xs text-red-600 truncate mt-1">{event.error_message}</p>
+                                        )}
+                                    </div>
+                                    <span className="w-24 text-sm text-gray-600">
+                                        {event.retry_count}/{event.max_retries}
+                                    </span>
+                                    <span className="w-24">
+                                        <span className={`inline-block px-2 py-0.5 rounded-md text-xs font-medium ${STATUS_STYLES[event.status]}`}>
+                                            {event.status}
+                                        </span>
+                                    </span>
+                                    <button
+                                        onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                                        className="w-8 text-gray-400 hover:text-gray-700"
+                                        aria-label="Show raw event"
+                                    >
+                                        {expandedId === event.id ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                                    </button>
+                                </div>
+                                {expandedId === event.id && (
+                                    <div className="px-6 pb-4 space-y-2">
+                                        {event.next_retry_at && (
+                                            <p className="text-xs text-gray-500">Next automatic retry: {new Date(event.next_retry_at).toLocaleString()}</p>
+                                        )}
+                                        <pre className="text-xs bg-gray-50 rounded-xl p-4 overflow-x-auto text-gray-700">
+                                            {JSON.stringify(event.payload, null, 2)}
+                                        </pre>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,8 +1,12 @@
 'use client';
 
 import { Handle, Position, NodeProps } from '@xyflow/react';
-import { Mail, MessageSquare, Zap, Clock, GitBranch, CircleOff, BrainCircuit } from 'lucide-react';
-import { memo } from 'react';
+import { Mail, MessageSquare, Zap, Clock, GitBranch, CircleOff, BrainCircuit, MessageCircleQuestion, Variable, ArrowRightLeft, Tag, UserCheck, ListTodo, Flag, BellOff, Globe, Split, AlertTriangle, AlertCircle } from 'lucide-react';
+import { memo, createContext, useContext } from 'react';
+import type { WorkflowIssue } from '@/app/lib/workflowValidation';
+
+// Validation issues keyed by node id, provided by the canvas
+export const NodeIssuesContext = createContext<Record<string, WorkflowIssue[]>>({});
 
 const icons = {
     trigger: Zap,
@@ -12,10 +16,22 @@ const icons = {
     condition: GitBranch,
     stop_bot: CircleOff,
     smart_condition: BrainCircuit,
+    question: MessageCircleQuestion,
+    set_variable: Variable,
+    move_stage: ArrowRightLeft,
+    tag_lead: Tag,
+    assign_owner: UserCheck,
+    create_task: ListTodo,
+    set_priority: Flag,
+    toggle_follow_ups: BellOff,
+    http_request: Globe,
+    split: Split,
 };
 
-const CustomNode = ({ data, selected }: NodeProps) => {
+const CustomNode = ({ id, data, selected }: NodeProps) => {
     const Icon = icons[data.type as keyof typeof icons] || MessageSquare;
+    const issues = useContext(NodeIssuesContext)[id] || [];
+    const hasError = issues.some(issue => issue.severity === 'error');
 
     const getColors = (type: string) => {
         switch (type) {
@@ -23,18 +39,67 @@ const CustomNode = ({ data, selected }: NodeProps) => {
             case 'wait': return 'bg-orange-100 text-orange-500';
             case 'stop_bot': return 'bg-red-100 text-red-500';
             case 'smart_condition': return 'bg-purple-100 text-purple-500';
+            case 'question': return 'bg-teal-100 text-teal-500';
+            case 'set_variable': return 'bg-indigo-100 text-indigo-500';
+            case 'http_request': return 'bg-cyan-100 text-cyan-600';
+            case 'split': return 'bg-violet-100 text-violet-600';
+            case 'move_stage':
+            case 'tag_lead':
+            case 'assign_owner':
+            case 'create_task':
+            case 'set_priority':
+            case 'toggle_follow_ups': return 'bg-emerald-100 text-emerald-600';
             default: return 'bg-blue-50 text-blue-500';
         }
     };
 
     const isSmartCondition = data.type === 'smart_condition';
+    const isQuestion = data.type === 'question';
+    const isHttpRequest = data.type === 'http_request';
+    const isSplit = data.type === 'split';
+
+    const variants = (data.variants as Array<{ id: string; label: string; weight: number }> | undefined) || [];
+    const totalWeight = variants.reduce((sum, v) => sum + (Number(v.weight) || 0), 0);
+
+    // Question nodes get one output per answer branch, plus "no match" and "timeout";
+    // split nodes get one output per variant
+    const branchHandles = isQuestion
+        ? [
+            ...((data.branches as Array<{ id: string; label: string }> | undefined) || [])
+                .map(b => ({ id: b.id, label: b.label || 'Answer', color: 'teal' })),
+            { id: 'no_match', label: 'Other', color: 'gray' },
+            { id: 'timeout', label: 'Timeout', color: 'orange' },
+        ]
+        : isSplit
+            ? variants.map(v => ({
+                id: v.id,
+                label: `${v.label || 'Variant'} ${totalWeight > 0 ? Math.round(((Number(v.weight) || 0) / totalWeight) * 100) : 0}%`,
+                color: 'violet',
+            }))
+            : [];
+
+    const handleColors: Record<string, { handle: string; text: string }> = {
+        teal: { handle: '!bg-teal-500', text: 'text-teal-600' },
+        orange: { handle: '!bg-orange-400', text: 'text-orange-500' },
+        violet: { handle: '!bg-violet-500', text: 'text-violet-600' },
+        gray: { handle: '!bg-gray-400', text: 'text-gray-500' },
+    };
 
     return (
         <div className={`
-      px-4 py-3 shadow-md rounded-xl bg-white border-2 w-64 ${isSmartCondition ? 'pb-8' : ''}
-      ${selected ? 'border-blue-500 ring-2 ring-blue-100' : 'border-gray-100'}
+      px-4 py-3 shadow-md rounded-xl bg-white border-2 w-64 ${isSmartCondition || isQuestion || isHttpRequest || isSplit ? 'pb-8' : ''}
+      ${selected ? 'border-blue-500 ring-2 ring-blue-100' : hasError ? 'border-red-300' : issues.length > 0 ? 'border-amber-300' : 'border-gray-100'}
       transition-all duration-200
     `}>
+            {issues.length > 0 && (
+                <div
+                    className={`absolute -top-2.5 -right-2.5 flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-bold text-white ${hasError ? 'bg-red-500' : 'bg-amber-500'}`}
+                    title={issues.map(issue => issue.message).join('\n')}
+                >
+                    {hasError ? <AlertCircle size={12} /> : <AlertTriangle size={12} />}
+                    {issues.length}
+                </div>
+            )}
             <div className="flex items-center">
                 <div className={`
           w-10 h-10 rounded-lg flex items-center justify-center mr-3
@@ -73,6 +138,52 @@ const CustomNode = ({ data, selected }: NodeProps) => {
                         False
                     </div>
                 </>
+            ) : isHttpRequest ? (
+                <>
+                    <Handle
+                        type="source"
+                        position={Position.Bottom}
+                        id="success"
+                        className="!bg-green-500 !w-3 !h-3"
+                        style={{ left: '30%' }}
+                    />
+                    <Handle
+                        type="source"
+                        position={Position.Bottom}
+                        id="error"
+                        className="!bg-red-500 !w-3 !h-3"
+                        style={{ left: '70%' }}
+                    />
+                    <div className="absolute -bottom-5 left-[30%] -translate-x-1/2 text-[10px] font-semibold text-green-600">
+                        Success
+                    </div>
+                    <div className="absolute -bottom-5 left-[70%] -translate-x-1/2 text-[10px] font-semibold text-red-600">
+                        Failed
+                    </div>
+                </>
+            ) : isQuestion || isSplit ? (
+                <>
+                    {branchHandles.map((handle, index) => {
+                        const left = `${((index + 1) / (branchHandles.length + 1)) * 100}%`;
+                        return (
+                            <div key={handle.id}>
+                                <Handle
+                                    type="source"
+                                    position={Position.Bottom}
+                                    id={handle.id}
+                                    className={`!w-3 !h-3 ${handleColors[handle.color].handle}`}
+                                    style={{ left }}
+                                />
+                                <div
+                                    className={`absolute -bottom-5 -translate-x-1/2 text-[10px] font-semibold max-w-[60px] truncate ${handleColors[handle.color].text}`}
+                                    style={{ left }}
+                                >
+                                    {handle.label}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </>
             ) : (
                 <Handle type="source" position={Position.Bottom} className="!bg-blue-400 !w-3 !h-3" />
             )}
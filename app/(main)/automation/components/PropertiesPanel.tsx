@@ -1,20 +1,52 @@
 'use client';
 
-import { X, Trash2, Upload, Image, Video, FileText, Loader2 } from 'lucide-react';
+import { X, Trash2, Upload, Image, Video, FileText, Loader2, Plus } from 'lucide-react';
 import { useEffect, useState, useRef } from 'react';
 import { Node } from '@xyflow/react';
+import VariablePicker from './VariablePicker';
+import { MAX_TRIGGER_PATTERN_LENGTH } from '@/app/lib/workflowValidation';
+
+const TRIGGER_DESCRIPTIONS: Record<string, string> = {
+    stage_change: 'Workflow triggers when a lead enters the selected stage',
+    appointment_booked: 'Workflow triggers when customer books an appointment',
+    digital_product_purchased: 'Workflow triggers when a digital product is purchased',
+    keyword: 'Workflow triggers when a customer message matches keywords, a pattern or an intent',
+    referral: 'Workflow triggers when someone opens an m.me link with a ref parameter',
+    postback: 'Workflow triggers when a customer taps a button with the given payload',
+    form_submitted: 'Workflow triggers when a lead submits a form',
+    order_status_changed: 'Workflow triggers when an order moves to a new status',
+    cart_abandoned: 'Workflow triggers when a cart is left without checkout',
+};
+
+const ORDER_STATUSES = ['confirmed', 'processing', 'shipped', 'delivered', 'cancelled'];
+
+// Triggers that can fire repeatedly for the same lead and so offer de-duplication
+const EVENT_TRIGGER_TYPES = ['keyword', 'referral', 'postback', 'form_submitted', 'order_status_changed', 'cart_abandoned'];
+
+// Message and question steps: what the message is about decides whether it may be sent
+// more than 24 hours after the customer's last message
+const MESSAGE_PURPOSES: Array<{ value: string; label: string }> = [
+    { value: '', label: 'Automatic (from the trigger)' },
+    { value: 'workflow', label: 'General message' },
+    { value: 'confirmed_event', label: 'Appointment update' },
+    { value: 'post_purchase', label: 'Order update' },
+    { value: 'account_update', label: 'Account update' },
+];
 
 interface PropertiesPanelProps {
     selectedNode: Node | null;
+    workflowVariables: string[];
     onClose: () => void;
     onUpdate: (id: string, data: any) => void;
     onDelete: (id: string) => void;
 }
 
-export default function PropertiesPanel({ selectedNode, onClose, onUpdate, onDelete }: PropertiesPanelProps) {
+export default function PropertiesPanel({ selectedNode, workflowVariables, onClose, onUpdate, onDelete }: PropertiesPanelProps) {
     const [stages, setStages] = useState<Array<{ id: string; name: string }>>([]);
+    const [forms, setForms] = useState<Array<{ id: string; title: string }>>([]);
     const [uploading, setUploading] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const templateFieldRefs = useRef<Record<string, HTMLTextAreaElement | HTMLInputElement | null>>({});
 
     useEffect(() => {
         // Fetch pipeline stages
@@ -35,6 +67,19 @@ export default function PropertiesPanel({ selectedNode, onClose, onUpdate, onDel
             });
     }, []);
 
+    // Forms are only needed to configure a form submission trigger
+    const selectedTriggerType = selectedNode?.data.type === 'trigger' ? String(selectedNode.data.triggerType || 'stage_change') : null;
+    useEffect(() => {
+        if (selectedTriggerType !== 'form_submitted') return;
+        fetch('/api/forms')
+            .then(res => res.json())
+            .then(data => setForms(Array.isArray(data) ? data : []))
+            .catch(err => {
+                console.error('Error fetching forms:', err);
+                setForms([]);
+            });
+    }, [selectedTriggerType]);
+
     if (!selectedNode) return null;
 
     // Helper to update a specific field immediately
@@ -52,6 +97,15 @@ export default function PropertiesPanel({ selectedNode, onClose, onUpdate, onDel
         return (selectedNode.data[field] as any) ?? defaultValue;
     };
 
+    // Insert a {{variable}} placeholder at the cursor position of a template field
+    const insertVariable = (field: string, placeholder: string) => {
+        const current: string = getValue(field);
+        const input = templateFieldRefs.current[field];
+        const start = input?.selectionStart ?? current.length;
+        const end = input?.selectionEnd ?? current.length;
+        updateField(field, current.slice(0, start) + placeholder + current.slice(end));
+    };
+
     // Handle file upload
     const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -92,6 +146,60 @@ export default function PropertiesPanel({ selectedNode, onClose, onUpdate, onDel
         }
     };
 
+    // Question node answer branches
+    const branches: Array<{ id: string; label: string; keywords?: string }> = getValue('branches', []);
+
+    const updateBranch = (branchId: string, field: 'label' | 'keywords', value: string) => {
+        updateField('branches', branches.map(b => b.id === branchId ? { ...b, [field]: value } : b));
+    };
+
+    const addBranch = () => {
+        updateField('branches', [
+            ...branches,
+            { id: `ans_${Math.random().toString(36).substr(2, 6)}`, label: '' },
+        ]);
+    };
+
+    const removeBranch = (branchId: string) => {
+        updateField('branches', branches.filter(b => b.id !== branchId));
+    };
+
+    // Split node variants; weights are relative, so they don't need to add up to 100
+    const variants: Array<{ id: string; label: string; weight: number }> = getValue('variants', []);
+    const totalWeight = variants.reduce((sum, v) => sum + (Number(v.weight) || 0), 0);
+
+    const updateVariant = (variantId: string, field: 'label' | 'weight', value: string | number) => {
+        updateField('variants', variants.map(v => v.id === variantId ? { ...v, [field]: value } : v));
+    };
+
+    const addVariant = () => {
+        updateField('variants', [
+            ...variants,
+            { id: `var_${Math.random().toString(36).substr(2, 6)}`, label: String.fromCharCode(65 + variants.length), weight: 50 },
+        ]);
+    };
+
+    const removeVariant = (variantId: string) => {
+        updateField('variants', variants.filter(v => v.id !== variantId));
+    };
+
+    // HTTP request node response mappings (JSON path -> workflow variable)
+    const responseMappings: Array<{ variable: string; path: string }> = getValue('responseMappings', []);
+
+    const updateResponseMapping = (index: number, field: 'variable' | 'path', value: string) => {
+        updateField('responseMappings', responseMappings.map((m, i) => i === index
+            ? { ...m, [field]: field === 'variable' ? value.replace(/[^a-zA-Z0-9_]/g, '_') : value }
+            : m));
+    };
+
+    const addResponseMapping = () => {
+        updateField('responseMappings', [...responseMappings, { variable: '', path: '' }]);
+    };
+
+    const removeResponseMapping = (index: number) => {
+        updateField('responseMappings', responseMappings.filter((_, i) => i !== index));
+    };
+
     // Get icon for attachment type
     const getAttachmentIcon = (type: string) => {
         switch (type) {
@@ -166,10 +274,32 @@ export default function PropertiesPanel({ selectedNode, onClose, onUpdate, onDel
                             </select>
                         </div>
                         <div>
-                            <label className="block text-xs font-medium text-gray-500 mb-1">
-                                {getValue('messageMode') === 'ai' ? 'Message Prompt' : 'Message Text'}
-                            </label>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Message Type</label>
+                            <select
+                                value={getValue('messagePurpose')}
+                                onChange={(e) => updateField('messagePurpose', e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                            >
+                                {MESSAGE_PURPOSES.map(purpose => (
+                                    <option key={purpose.value} value={purpose.value}>{purpose.label}</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-gray-400 mt-1">
+                                More than 24 hours after the customer&apos;s last message, only appointment, order and account updates are delivered
+                            </p>
+                        </div>
+                        <div>
+                            <div className="flex items-center justify-between mb-1">
+                                <label className="block text-xs font-medium text-gray-500">
+                                    {getValue('messageMode') === 'ai' ? 'Message Prompt' : 'Message Text'}
+                                </label>
+                                <VariablePicker
+                                    workflowVariables={workflowVariables}
+                                    onInsert={(placeholder) => insertVariable('messageText', placeholder)}
+                                />
+                            </div>
                             <textarea
+                                ref={(el) => { templateFieldRefs.current.messageText = el; }}
                                 value={getValue('messageText')}
                                 onChange={(e) => updateField('messageText', e.target.value)}
                                 rows={4}
@@ -295,13 +425,15 @@ export default function PropertiesPanel({ selectedNode, onClose, onUpdate, onDel
                                 <option value="stage_change">Pipeline Stage Changed</option>
                                 <option value="appointment_booked">Appointment Booked</option>
                                 <option value="digital_product_purchased">Digital Product Purchased</option>
+                                <option value="keyword">Message Keyword / Intent</option>
+                                <option value="referral">m.me Link Referral</option>
+                                <option value="postback">Button Postback</option>
+                                <option value="form_submitted">Form Submitted</option>
+                                <option value="order_status_changed">Order Status Changed</option>
+                                <option value="cart_abandoned">Cart Abandoned</option>
                             </select>
                             <p className="text-xs text-gray-400 mt-1">
-                                {getValue('triggerType', 'stage_change') === 'appointment_booked'
-                                    ? 'Workflow triggers when customer books an appointment'
-                                    : getValue('triggerType') === 'digital_product_purchased'
-                                        ? 'Workflow triggers when a digital product is purchased'
-                                        : 'Workflow triggers when a lead enters the selected stage'}
+                                {TRIGGER_DESCRIPTIONS[getValue('triggerType', 'stage_change')] || TRIGGER_DESCRIPTIONS.stage_change}
                             </p>
                         </div>
 
@@ -364,6 +496,172 @@ export default function PropertiesPanel({ selectedNode, onClose, onUpdate, onDel
                                 </p>
                             </div>
                         )}
+
+                        {getValue('triggerType') === 'keyword' && (
+                            <>
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-500 mb-1">Match</label>
+                                    <select
+                                        value={getValue('triggerMatchMode', 'keyword')}
+                                        onChange={(e) => updateField('triggerMatchMode', e.target.value)}
+                                        className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                                    >
+                                        <option value="keyword">Keywords</option>
+                                        <option value="regex">Regular expression</option>
+                                        <option value="ai_intent">AI intent</option>
+                                    </select>
+                                </div>
+
+                                {getValue('triggerMatchMode', 'keyword') === 'keyword' && (
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-500 mb-1">Keywords</label>
+                                        <input
+                                            type="text"
+                                            value={getValue('triggerKeywords')}
+                                            onChange={(e) => updateField('triggerKeywords', e.target.value)}
+                                            placeholder="e.g. price, how much, magkano"
+                                            className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                        />
+                                        <p className="text-xs text-gray-400 mt-1">Comma-separated. Matches whole words, ignoring case.</p>
+                                    </div>
+                                )}
+
+                                {getValue('triggerMatchMode') === 'regex' && (
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-500 mb-1">Pattern</label>
+                                        <input
+                                            type="text"
+                                            value={getValue('triggerPattern')}
+                                            onChange={(e) => updateField('triggerPattern', e.target.value)}
+                                            maxLength={MAX_TRIGGER_PATTERN_LENGTH}
+                                            placeholder="e.g. ^(order|track)\s*#?\d+"
+                                            className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                        />
+                                        <p className="text-xs text-gray-400 mt-1">JavaScript regular expression, case-insensitive. Nested repeats like (a+)+ are not allowed.</p>
+                                    </div>
+                                )}
+
+                                {getValue('triggerMatchMode') === 'ai_intent' && (
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-500 mb-1">Intent</label>
+                                        <textarea
+                                            value={getValue('triggerIntent')}
+                                            onChange={(e) => updateField('triggerIntent', e.target.value)}
+                                            placeholder="e.g. The customer wants to cancel their order"
+                                            className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 min-h-[70px]"
+                                        />
+                                        <p className="text-xs text-gray-400 mt-1">AI checks each incoming message against this description.</p>
+                                    </div>
+                                )}
+
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={getValue('triggerSkipAiReply', true)}
+                                        onChange={(e) => updateField('triggerSkipAiReply', e.target.checked)}
+                                        className="rounded border-gray-300"
+                                    />
+                                    Workflow replies instead of the AI
+                                </label>
+                            </>
+                        )}
+
+                        {getValue('triggerType') === 'referral' && (
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Ref Value</label>
+                                <input
+                                    type="text"
+                                    value={getValue('triggerRef')}
+                                    onChange={(e) => updateField('triggerRef', e.target.value)}
+                                    placeholder="e.g. summer_promo"
+                                    className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                />
+                                <p className="text-xs text-gray-400 mt-1">
+                                    Matches links like m.me/yourpage?ref=summer_promo. Leave empty for any referral.
+                                </p>
+                            </div>
+                        )}
+
+                        {getValue('triggerType') === 'postback' && (
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Payload</label>
+                                <input
+                                    type="text"
+                                    value={getValue('triggerPayload')}
+                                    onChange={(e) => updateField('triggerPayload', e.target.value)}
+                                    placeholder="e.g. GET_STARTED"
+                                    className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                />
+                                <p className="text-xs text-gray-400 mt-1">Exact button payload. Leave empty for any postback.</p>
+                            </div>
+                        )}
+
+                        {getValue('triggerType') === 'form_submitted' && (
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Form</label>
+                                <select
+                                    value={getValue('triggerFormId')}
+                                    onChange={(e) => updateField('triggerFormId', e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                                >
+                                    <option value="">Any form</option>
+                                    {forms.map((form) => (
+                                        <option key={form.id} value={form.id}>
+                                            {form.title}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        {getValue('triggerType') === 'order_status_changed' && (
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">New Status</label>
+                                <select
+                                    value={getValue('triggerOrderStatus')}
+                                    onChange={(e) => updateField('triggerOrderStatus', e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                                >
+                                    <option value="">Any status</option>
+                                    {ORDER_STATUSES.map((status) => (
+                                        <option key={status} value={status}>
+                                            {status.charAt(0).toUpperCase() + status.slice(1)}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        {getValue('triggerType') === 'cart_abandoned' && (
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Abandoned After (hours)</label>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={getValue('triggerAbandonAfterHours', '24')}
+                                    onChange={(e) => updateField('triggerAbandonAfterHours', e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                />
+                                <p className="text-xs text-gray-400 mt-1">
+                                    Hours a cart with items goes without checkout or changes. Each cart triggers once.
+                                </p>
+                            </div>
+                        )}
+
+                        {EVENT_TRIGGER_TYPES.includes(getValue('triggerType')) && (
+                            <div>
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Run</label>
+                                <select
+                                    value={getValue('triggerDedupe', 'none')}
+                                    onChange={(e) => updateField('triggerDedupe', e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                                >
+                                    <option value="none">Every time it triggers</option>
+                                    <option value="once_per_day">At most once per lead per day</option>
+                                    <option value="once_per_lead">Only once per lead</option>
+                                </select>
+                            </div>
+                        )}
                     </div>
                 )}
 
@@ -444,8 +742,15 @@ export default function PropertiesPanel({ selectedNode, onClose, onUpdate, onDel
                         </div>
                         {getValue('conditionType') === 'ai_rule' && (
                             <div>
-                                <label className="block text-xs font-medium text-gray-500 mb-1">Rule Detail</label>
+                                <div className="flex items-center justify-between mb-1">
+                                    <label className="block text-xs font-medium text-gray-500">Rule Detail</label>
+                                    <VariablePicker
+                                        workflowVariables={workflowVariables}
+                                        onInsert={(placeholder) => insertVariable('conditionRule', placeholder)}
+                                    />
+                                </div>
                                 <textarea
+                                    ref={(el) => { templateFieldRefs.current.conditionRule = el; }}
                                     value={getValue('conditionRule')}
                                     onChange={(e) => updateField('conditionRule', e.target.value)}
                                     rows={2}
@@ -456,6 +761,525 @@ export default function PropertiesPanel({ selectedNode, onClose, onUpdate, onDel
                         )}
                     </div>
                 )}
+
+                {selectedNode.data.type === 'question' && (
+                    <div className="space-y-3">
+                        <div>
+                            <div className="flex items-center justify-between mb-1">
+                                <label className="block text-xs font-medium text-gray-500">Question</label>
+                                <VariablePicker
+                                    workflowVariables={workflowVariables}
+                                    onInsert={(placeholder) => insertVariable('questionText', placeholder)}
+                                />
+                            </div>
+                            <textarea
+                                ref={(el) => { templateFieldRefs.current.questionText = el; }}
+                                value={getValue('questionText')}
+                                onChange={(e) => updateField('questionText', e.target.value)}
+                                rows={3}
+                                placeholder="e.g. Para saan po ang gagamitin ninyo?"
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 resize-none"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Save Answer As</label>
+                            <input
+                                type="text"
+                                value={getValue('answerVariable')}
+                                onChange={(e) => updateField('answerVariable', e.target.value.replace(/[^a-zA-Z0-9_]/g, '_'))}
+                                placeholder="e.g. budget"
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            />
+                            <p className="text-xs text-gray-400 mt-1">
+                                Workflow variable that stores the customer&apos;s reply
+                            </p>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Match Answers By</label>
+                            <select
+                                value={getValue('matchMode', 'exact')}
+                                onChange={(e) => updateField('matchMode', e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                            >
+                                <option value="exact">Exact Match</option>
+                                <option value="keyword">Contains Keyword</option>
+                                <option value="ai">AI Classification</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Message Type</label>
+                            <select
+                                value={getValue('messagePurpose')}
+                                onChange={(e) => updateField('messagePurpose', e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                            >
+                                {MESSAGE_PURPOSES.map(purpose => (
+                                    <option key={purpose.value} value={purpose.value}>{purpose.label}</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-gray-400 mt-1">
+                                More than 24 hours after the customer&apos;s last message, only appointment, order and account updates are delivered
+                            </p>
+                        </div>
+
+                        <div className="border-t border-gray-100 pt-3">
+                            <label className="block text-xs font-medium text-gray-500 mb-2">Answer Branches</label>
+                            <div className="space-y-2">
+                                {branches.map((branch) => (
+                                    <div key={branch.id} className="p-2 border border-gray-200 rounded-lg space-y-1.5">
+                                        <div className="flex items-center gap-1">
+                                            <input
+                                                type="text"
+                                                value={branch.label}
+                                                onChange={(e) => updateBranch(branch.id, 'label', e.target.value)}
+                                                placeholder="Answer label"
+                                                className="flex-1 px-2 py-1 border border-gray-200 text-black rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                            />
+                                            <button
+                                                type="button"
+                                                onClick={() => removeBranch(branch.id)}
+                                                className="p-1 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                                title="Remove branch"
+                                            >
+                                                <X size={14} />
+                                            </button>
+                                        </div>
+                                        <input
+                                            type="text"
+                                            value={branch.keywords || ''}
+                                            onChange={(e) => updateBranch(branch.id, 'keywords', e.target.value)}
+                                            placeholder="Other words, comma-separated"
+                                            className="w-full px-2 py-1 border border-gray-200 text-black rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            <button
+                                type="button"
+                                onClick={addBranch}
+                                className="mt-2 w-full px-3 py-1.5 border border-dashed border-gray-200 rounded-lg text-xs text-gray-500 hover:border-teal-400 hover:text-teal-600 transition-colors flex items-center justify-center gap-1"
+                            >
+                                <Plus size={14} />
+                                Add Branch
+                            </button>
+                            <p className="text-xs text-gray-400 mt-1.5">
+                                Replies that match no branch follow the &ldquo;Other&rdquo; output
+                            </p>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs font-medium text-gray-500">Show branches as quick replies</label>
+                            <input
+                                type="checkbox"
+                                checked={getValue('useQuickReplies', false)}
+                                onChange={(e) => updateField('useQuickReplies', e.target.checked)}
+                                className="h-4 w-4 rounded border-gray-300"
+                            />
+                        </div>
+
+                        <div className="flex gap-2">
+                            <div className="flex-1">
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Timeout After</label>
+                                <input
+                                    type="number"
+                                    value={getValue('timeoutDuration', '')}
+                                    onChange={(e) => updateField('timeoutDuration', e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                    placeholder="No timeout"
+                                    min="0"
+                                />
+                            </div>
+                            <div className="flex-1">
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Unit</label>
+                                <select
+                                    value={getValue('timeoutUnit', 'hours')}
+                                    onChange={(e) => updateField('timeoutUnit', e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                                >
+                                    <option value="minutes">Minutes</option>
+                                    <option value="hours">Hours</option>
+                                    <option value="days">Days</option>
+                                </select>
+                            </div>
+                        </div>
+                        <p className="text-xs text-gray-400">
+                            If the customer doesn&apos;t answer in time, the &ldquo;Timeout&rdquo; output is followed
+                        </p>
+                    </div>
+                )}
+
+                {selectedNode.data.type === 'move_stage' && (
+                    <div className="space-y-3">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Move Lead To</label>
+                            <select
+                                value={getValue('stageId')}
+                                onChange={(e) => updateField('stageId', e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                            >
+                                <option value="">Select a stage...</option>
+                                {Array.isArray(stages) && stages.map((stage) => (
+                                    <option key={stage.id} value={stage.id}>
+                                        {stage.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs font-medium text-gray-500">Allow moving backward</label>
+                            <input
+                                type="checkbox"
+                                checked={getValue('allowRegression', false)}
+                                onChange={(e) => updateField('allowRegression', e.target.checked)}
+                                className="h-4 w-4 rounded border-gray-300"
+                            />
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs font-medium text-gray-500">Run this stage&apos;s workflows</label>
+                            <input
+                                type="checkbox"
+                                checked={getValue('triggerWorkflows', true)}
+                                onChange={(e) => updateField('triggerWorkflows', e.target.checked)}
+                                className="h-4 w-4 rounded border-gray-300"
+                            />
+                        </div>
+                        <p className="text-xs text-gray-400">
+                            Chained workflows never re-run a workflow already in the chain
+                        </p>
+                    </div>
+                )}
+
+                {selectedNode.data.type === 'tag_lead' && (
+                    <div className="space-y-3">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Action</label>
+                            <select
+                                value={getValue('tagAction', 'add')}
+                                onChange={(e) => updateField('tagAction', e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                            >
+                                <option value="add">Add Tags</option>
+                                <option value="remove">Remove Tags</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Tags</label>
+                            <input
+                                type="text"
+                                value={getValue('tags')}
+                                onChange={(e) => updateField('tags', e.target.value)}
+                                placeholder="e.g. vip, wants-delivery"
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            />
+                            <p className="text-xs text-gray-400 mt-1">Comma-separated</p>
+                        </div>
+                    </div>
+                )}
+
+                {selectedNode.data.type === 'assign_owner' && (
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">Owner</label>
+                        <input
+                            type="text"
+                            value={getValue('ownerName')}
+                            onChange={(e) => updateField('ownerName', e.target.value)}
+                            placeholder="e.g. Maria or maria@shop.com"
+                            className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                        />
+                        <p className="text-xs text-gray-400 mt-1">Leave empty to clear the owner</p>
+                    </div>
+                )}
+
+                {selectedNode.data.type === 'create_task' && (
+                    <div className="space-y-3">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Task</label>
+                            <input
+                                type="text"
+                                value={getValue('taskTitle')}
+                                onChange={(e) => updateField('taskTitle', e.target.value)}
+                                placeholder="e.g. Call {{lead.name}} about the quote"
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Notes</label>
+                            <textarea
+                                value={getValue('taskNotes')}
+                                onChange={(e) => updateField('taskNotes', e.target.value)}
+                                rows={3}
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Due In</label>
+                            <div className="flex gap-2">
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={getValue('dueIn', '0')}
+                                    onChange={(e) => updateField('dueIn', e.target.value)}
+                                    className="w-24 px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                />
+                                <select
+                                    value={getValue('dueUnit', 'hours')}
+                                    onChange={(e) => updateField('dueUnit', e.target.value)}
+                                    className="flex-1 px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                                >
+                                    <option value="minutes">Minutes</option>
+                                    <option value="hours">Hours</option>
+                                    <option value="days">Days</option>
+                                </select>
+                            </div>
+                            <p className="text-xs text-gray-400 mt-1">0 for no due date. The task goes to the lead&apos;s owner.</p>
+                        </div>
+                    </div>
+                )}
+
+                {selectedNode.data.type === 'set_priority' && (
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">Priority</label>
+                        <select
+                            value={getValue('priority', 'medium')}
+                            onChange={(e) => updateField('priority', e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                        >
+                            <option value="low">Low</option>
+                            <option value="medium">Medium</option>
+                            <option value="high">High</option>
+                            <option value="critical">Critical</option>
+                        </select>
+                        <p className="text-xs text-gray-400 mt-1">
+                            High and Critical also flag the lead for human attention
+                        </p>
+                    </div>
+                )}
+
+                {selectedNode.data.type === 'toggle_follow_ups' && (
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500 mb-1">Automatic Follow-ups</label>
+                        <select
+                            value={getValue('followUpAction', 'disable')}
+                            onChange={(e) => updateField('followUpAction', e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                        >
+                            <option value="enable">Turn On</option>
+                            <option value="disable">Turn Off</option>
+                        </select>
+                    </div>
+                )}
+
+                {selectedNode.data.type === 'set_variable' && (
+                    <div className="space-y-3">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Variable Name</label>
+                            <input
+                                type="text"
+                                value={getValue('variableName')}
+                                onChange={(e) => updateField('variableName', e.target.value.replace(/[^a-zA-Z0-9_]/g, '_'))}
+                                placeholder="e.g. preferred_size"
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            />
+                            <p className="text-xs text-gray-400 mt-1">
+                                Use it later as {'{{'}var.{getValue('variableName') || 'name'}{'}}'}
+                            </p>
+                        </div>
+                        <div>
+                            <div className="flex items-center justify-between mb-1">
+                                <label className="block text-xs font-medium text-gray-500">Value</label>
+                                <VariablePicker
+                                    workflowVariables={workflowVariables}
+                                    onInsert={(placeholder) => insertVariable('variableValue', placeholder)}
+                                />
+                            </div>
+                            <textarea
+                                ref={(el) => { templateFieldRefs.current.variableValue = el; }}
+                                value={getValue('variableValue')}
+                                onChange={(e) => updateField('variableValue', e.target.value)}
+                                rows={2}
+                                placeholder="Text or {{lead.first_name}}"
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 resize-none"
+                            />
+                        </div>
+                    </div>
+                )}
+
+                {selectedNode.data.type === 'split' && (
+                    <div className="space-y-3">
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-2">Variants</label>
+                            <div className="space-y-2">
+                                {variants.map((variant) => (
+                                    <div key={variant.id} className="flex items-center gap-1">
+                                        <input
+                                            type="text"
+                                            value={variant.label}
+                                            onChange={(e) => updateVariant(variant.id, 'label', e.target.value)}
+                                            placeholder="Variant name"
+                                            className="flex-1 min-w-0 px-2 py-1 border border-gray-200 text-black rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                        />
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={variant.weight}
+                                            onChange={(e) => updateVariant(variant.id, 'weight', Math.max(0, parseInt(e.target.value) || 0))}
+                                            className="w-16 px-2 py-1 border border-gray-200 text-black rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                            title="Weight"
+                                        />
+                                        <span className="w-10 text-right text-xs text-gray-400">
+                                            {totalWeight > 0 ? Math.round(((Number(variant.weight) || 0) / totalWeight) * 100) : 0}%
+                                        </span>
+                                        <button
+                                            type="button"
+                                            onClick={() => removeVariant(variant.id)}
+                                            className="p-1 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                            title="Remove variant"
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            <button
+                                type="button"
+                                onClick={addVariant}
+                                className="mt-2 w-full px-3 py-1.5 border border-dashed border-gray-200 rounded-lg text-xs text-gray-500 hover:border-violet-400 hover:text-violet-600 transition-colors flex items-center justify-center gap-1"
+                            >
+                                <Plus size={14} />
+                                Add Variant
+                            </button>
+                            <p className="text-xs text-gray-400 mt-1.5">
+                                Each lead is routed at random by weight and keeps its variant if it reaches this step again
+                            </p>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Conversion Window (days)</label>
+                            <input
+                                type="number"
+                                min="1"
+                                value={getValue('conversionWindowDays', 7)}
+                                onChange={(e) => updateField('conversionWindowDays', Math.max(1, parseInt(e.target.value) || 1))}
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            />
+                            <p className="text-xs text-gray-400 mt-1">
+                                Replies, stage moves, orders and appointments within this many days count toward a variant
+                            </p>
+                        </div>
+                    </div>
+                )}
+
+                {selectedNode.data.type === 'http_request' && (
+                    <div className="space-y-3">
+                        <div className="flex gap-2">
+                            <div className="w-28">
+                                <label className="block text-xs font-medium text-gray-500 mb-1">Method</label>
+                                <select
+                                    value={getValue('httpMethod', 'POST')}
+                                    onChange={(e) => updateField('httpMethod', e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white"
+                                >
+                                    <option value="GET">GET</option>
+                                    <option value="POST">POST</option>
+                                    <option value="PUT">PUT</option>
+                                    <option value="PATCH">PATCH</option>
+                                    <option value="DELETE">DELETE</option>
+                                </select>
+                            </div>
+                            <div className="flex-1">
+                                <div className="flex items-center justify-between mb-1">
+                                    <label className="block text-xs font-medium text-gray-500">URL</label>
+                                    <VariablePicker
+                                        workflowVariables={workflowVariables}
+                                        onInsert={(placeholder) => insertVariable('requestUrl', placeholder)}
+                                    />
+                                </div>
+                                <input
+                                    ref={(el) => { templateFieldRefs.current.requestUrl = el; }}
+                                    type="text"
+                                    value={getValue('requestUrl')}
+                                    onChange={(e) => updateField('requestUrl', e.target.value)}
+                                    placeholder="https://api.example.com/leads"
+                                    className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Headers</label>
+                            <textarea
+                                ref={(el) => { templateFieldRefs.current.requestHeaders = el; }}
+                                value={getValue('requestHeaders')}
+                                onChange={(e) => updateField('requestHeaders', e.target.value)}
+                                rows={2}
+                                placeholder="Authorization: Bearer your-token"
+                                className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 resize-none"
+                            />
+                            <p className="text-xs text-gray-400 mt-1">One &ldquo;Name: value&rdquo; per line</p>
+                        </div>
+                        {getValue('httpMethod', 'POST') !== 'GET' && (
+                            <div>
+                                <div className="flex items-center justify-between mb-1">
+                                    <label className="block text-xs font-medium text-gray-500">JSON Body</label>
+                                    <VariablePicker
+                                        workflowVariables={workflowVariables}
+                                        onInsert={(placeholder) => insertVariable('requestBody', placeholder)}
+                                    />
+                                </div>
+                                <textarea
+                                    ref={(el) => { templateFieldRefs.current.requestBody = el; }}
+                                    value={getValue('requestBody')}
+                                    onChange={(e) => updateField('requestBody', e.target.value)}
+                                    rows={5}
+                                    placeholder={'{\n  "name": "{{lead.name}}",\n  "phone": "{{lead.phone}}"\n}'}
+                                    className="w-full px-3 py-2 border border-gray-200 text-black rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 resize-none"
+                                />
+                                <p className="text-xs text-gray-400 mt-1">Variable values are escaped for JSON strings</p>
+                            </div>
+                        )}
+                        <div>
+                            <label className="block text-xs font-medium text-gray-500 mb-1">Save Response Fields</label>
+                            <div className="space-y-2">
+                                {responseMappings.map((mapping, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <input
+                                            type="text"
+                                            value={mapping.path}
+                                            onChange={(e) => updateResponseMapping(index, 'path', e.target.value)}
+                                            placeholder="data.id"
+                                            className="flex-1 min-w-0 px-2 py-1 border border-gray-200 text-black rounded text-xs font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                        />
+                                        <span className="text-xs text-gray-400">&rarr;</span>
+                                        <input
+                                            type="text"
+                                            value={mapping.variable}
+                                            onChange={(e) => updateResponseMapping(index, 'variable', e.target.value)}
+                                            placeholder="variable"
+                                            className="flex-1 min-w-0 px-2 py-1 border border-gray-200 text-black rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => removeResponseMapping(index)}
+                                            className="p-1 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                            title="Remove field"
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            <button
+                                type="button"
+                                onClick={addResponseMapping}
+                                className="mt-2 w-full px-3 py-1.5 border border-dashed border-gray-200 rounded-lg text-xs text-gray-500 hover:border-cyan-400 hover:text-cyan-600 transition-colors flex items-center justify-center gap-1"
+                            >
+                                <Plus size={14} />
+                                Add Field
+                            </button>
+                            <p className="text-xs text-gray-400 mt-1.5">
+                                Saved fields are available as {'{{'}var.name{'}}'}. Failed requests follow the &ldquo;Failed&rdquo; output
+                            </p>
+                        </div>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,59 @@
+'use client';
+
+import { Braces } from 'lucide-react';
+import { useState } from 'react';
+import { BUILT_IN_VARIABLES, WorkflowVariableOption } from '@/app/lib/workflowVariables';
+
+interface VariablePickerProps {
+    workflowVariables: string[];
+    onInsert: (placeholder: string) => void;
+}
+
+export default function VariablePicker({ workflowVariables, onInsert }: VariablePickerProps) {
+    const [open, setOpen] = useState(false);
+
+    const options: WorkflowVariableOption[] = [
+        ...BUILT_IN_VARIABLES,
+        ...workflowVariables.map(name => ({ key: `var.${name}`, label: name, group: 'Workflow' as const })),
+    ];
+    const groups = [...new Set(options.map(o => o.group))];
+
+    return (
+        <div className="relative">
+            <button
+                type="button"
+                onClick={() => setOpen(!open)}
+                className="flex items-center gap-1 text-xs font-medium text-blue-500 hover:text-blue-600"
+            >
+                <Braces size={12} />
+                Insert variable
+            </button>
+
+            {open && (
+                <div className="absolute right-0 mt-1 w-56 max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg z-20">
+                    {groups.map(group => (
+                        <div key={group}>
+                            <div className="px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-gray-400 bg-gray-50">
+                                {group}
+                            </div>
+                            {options.filter(o => o.group === group).map(option => (
+                                <button
+                                    key={option.key}
+                                    type="button"
+                                    onClick={() => {
+                                        onInsert(`{{${option.key}}}`);
+                                        setOpen(false);
+                                    }}
+                                    className="w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-blue-50 flex justify-between gap-2"
+                                >
+                                    <span>{option.label}</span>
+                                    <span className="text-gray-400 font-mono truncate">{option.key}</span>
+                                </button>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
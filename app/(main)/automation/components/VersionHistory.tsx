@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Node, Edge } from '@xyflow/react';
+import { Loader2, RotateCcw, Plus, Minus, Pencil, ArrowRight } from 'lucide-react';
+import { diffWorkflows, isWorkflowDiffEmpty, type WorkflowDiff } from '@/app/lib/workflowDiff';
+import type { VersionDiffHighlight } from './WorkflowCanvas';
+
+interface VersionSummary {
+    id: string;
+    version_number: number;
+    note: string | null;
+    trigger_type: string | null;
+    created_at: string;
+}
+
+interface SelectedVersion extends VersionSummary {
+    workflow_data: { nodes: Node[]; edges: Edge[] };
+}
+
+interface VersionHistoryProps {
+    workflowId: string;
+    getDraftData: () => { nodes: Node[]; edges: Edge[] } | null;
+    refreshKey?: number;  // Bump to reload the list (e.g. after publishing)
+    onDiffChange?: (highlight: VersionDiffHighlight | null) => void;
+    onRolledBack?: (workflowData: { nodes: Node[]; edges: Edge[] }) => void;
+}
+
+export default function VersionHistory({ workflowId, getDraftData, refreshKey, onDiffChange, onRolledBack }: VersionHistoryProps) {
+    const [versions, setVersions] = useState<VersionSummary[]>([]);
+    const [liveVersionId, setLiveVersionId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [selected, setSelected] = useState<SelectedVersion | null>(null);
+    const [diff, setDiff] = useState<WorkflowDiff | null>(null);
+    const [rollingBack, setRollingBack] = useState(false);
+
+    const fetchVersions = useCallback(async () => {
+        setLoading(true);
+        try {
+            const res = await fetch(`/api/workflows/${workflowId}/versions`);
+            const data = await res.json();
+            if (res.ok) {
+                setVersions(data.versions);
+                setLiveVersionId(data.published_version_id);
+            }
+        } catch (error) {
+            console.error('Error fetching versions:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [workflowId]);
+
+    useEffect(() => {
+        fetchVersions();
+    }, [fetchVersions, refreshKey]);
+
+    const selectVersion = async (versionId: string | null) => {
+        if (!versionId) {
+            setSelected(null);
+            setDiff(null);
+            onDiffChange?.(null);
+            return;
+        }
+
+        try {
+            const res = await fetch(`/api/workflows/${workflowId}/versions/${versionId}`);
+            const data = await res.json();
+            if (!res.ok) return;
+
+            const draft = getDraftData() || { nodes: [], edges: [] };
+            const versionDiff = diffWorkflows(data.workflow_data, draft);
+            setSelected(data);
+            setDiff(versionDiff);
+            onDiffChange?.(Object.fromEntries([
+                ...versionDiff.addedNodes.map(n => [n.id, 'added'] as const),
+                ...versionDiff.changedNodes.map(n => [n.id, 'changed'] as const),
+            ]));
+        } catch (error) {
+            console.error('Error fetching version:', error);
+        }
+    };
+
+    const rollback = async () => {
+        if (!selected) return;
+        if (!confirm(`Roll back to v${selected.version_number}? It goes live for new executions and replaces your current draft.`)) {
+            return;
+        }
+
+        setRollingBack(true);
+        try {
+            const res = await fetch(`/api/workflows/${workflowId}/versions/${selected.id}/rollback`, { method: 'POST' });
+            const data = await res.json();
+            if (!res.ok) {
+                alert(`❌ ${data.error || 'Failed to roll back'}`);
+                return;
+            }
+            onRolledBack?.(data.workflow.workflow_data);
+            await selectVersion(null);
+            await fetchVersions();
+        } catch (error) {
+            console.error('Error rolling back version:', error);
+        } finally {
+            setRollingBack(false);
+        }
+    };
+
+    // Edges are shown by their node labels; removed nodes only exist in the selected version
+    const nodeLabel = (id: string) => {
+        const node = [...(getDraftData()?.nodes || []), ...(selected?.workflow_data.nodes || [])].find(n => n.id === id);
+        return String(node?.data?.label || id);
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-12 text-gray-400">
+                <Loader2 className="animate-spin" size={24} />
+            </div>
+        );
+    }
+
+    if (versions.length === 0) {
+        return (
+            <p className="text-sm text-gray-500 py-8 text-center">
+                No versions yet. Publishing the workflow creates version 1.
+            </p>
+        );
+    }
+
+    if (selected && diff) {
+        return (
+            <div className="flex-1 min-h-0 overflow-y-auto">
+                <button onClick={() => selectVersion(null)} className="text-sm text-blue-600 hover:text-blue-700 mb-3">
+                    &larr; All versions
+                </button>
+
+                <h3 className="font-semibold text-gray-900">
+                    Draft vs v{selected.version_number}
+                    {selected.id === liveVersionId && <span className="ml-2 text-xs text-green-600">(live)</span>}
+                </h3>
+                <p className="text-xs text-gray-500 mb-4">Changes the draft makes to this version. Highlighted on the canvas.</p>
+
+                {isWorkflowDiffEmpty(diff) ? (
+                    <p className="text-sm text-gray-500 mb-4">The draft is identical to this version.</p>
+                ) : (
+                    <div className="space-y-2 mb-4 text-sm">
+                        {diff.addedNodes.map(n => (
+                            <div key={`add-${n.id}`} className="flex items-center gap-2 text-green-700">
+                                <Plus size={14} className="shrink-0" /> {n.label} <span className="text-[11px] text-gray-400 font-mono">{n.type}</span>
+                            </div>
+                        ))}
+                        {diff.removedNodes.map(n => (
+                            <div key={`remove-${n.id}`} className="flex items-center gap-2 text-red-600">
+                                <Minus size={14} className="shrink-0" /> {n.label} <span className="text-[11px] text-gray-400 font-mono">{n.type}</span>
+                            </div>
+                        ))}
+                        {diff.changedNodes.map(n => (
+                            <div key={`change-${n.id}`} className="text-amber-700">
+                                <div className="flex items-center gap-2">
+                                    <Pencil size={14} className="shrink-0" /> {n.label}
+                                </div>
+                                <p className="ml-6 text-[11px] text-gray-500 font-mono">{n.fields.join(', ')}</p>
+                            </div>
+                        ))}
+                        {[...diff.addedEdges.map(e => ({ ...e, added: true })), ...diff.removedEdges.map(e => ({ ...e, added: false }))].map(e => (
+                            <div
+                                key={`${e.added ? 'add' : 'remove'}-${e.source}-${e.sourceHandle}-${e.target}`}
+                                className={`flex items-center gap-1.5 text-xs ${e.added ? 'text-green-700' : 'text-red-600 line-through'}`}
+                            >
+                                {nodeLabel(e.source)}
+                                {e.sourceHandle && <span className="text-gray-400">({e.sourceHandle})</span>}
+                                <ArrowRight size={12} className="shrink-0" />
+                                {nodeLabel(e.target)}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {selected.id !== liveVersionId && (
+                    <button
+                        onClick={rollback}
+                        disabled={rollingBack}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gray-900 hover:bg-gray-800 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+                    >
+                        {rollingBack ? <Loader2 size={16} className="animate-spin" /> : <RotateCcw size={16} />}
+                        Roll back to v{selected.version_number}
+                    </button>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex-1 min-h-0 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-xl bg-white">
+            {versions.map(version => (
+                <button
+                    key={version.id}
+                    onClick={() => selectVersion(version.id)}
+                    className="w-full text-left px-4 py-3 hover:bg-gray-50"
+                >
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-gray-900">v{version.version_number}</span>
+                        {version.id === liveVersionId && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-50 text-green-700">Live</span>
+                        )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                        {new Date(version.created_at).toLocaleString()}
+                        {version.note && ` · ${version.note}`}
+                    </div>
+                </button>
+            ))}
+        </div>
+    );
+}
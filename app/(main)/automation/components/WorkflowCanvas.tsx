@@ -16,10 +16,12 @@ import {
     ReactFlowProvider
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
-import { useCallback, useState, useEffect, useRef } from 'react';
-import CustomNode from './CustomNode';
+import { useCallback, useState, useEffect, useRef, useMemo } from 'react';
+import CustomNode, { NodeIssuesContext } from './CustomNode';
 import PropertiesPanel from './PropertiesPanel';
-import { Plus } from 'lucide-react';
+import { getDefinedWorkflowVariables } from '@/app/lib/workflowVariables';
+import { validateWorkflow, type WorkflowIssue } from '@/app/lib/workflowValidation';
+import { Plus, ChevronDown, AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
 
 const nodeTypes = {
     custom: CustomNode,
@@ -36,16 +38,39 @@ const initialNodes: Node[] = [
 
 const initialEdges: Edge[] = [];
 
+// Actions that change CRM state instead of messaging the lead
+const CRM_ACTIONS = [
+    { type: 'move_stage', label: 'Move to Stage' },
+    { type: 'tag_lead', label: 'Tag Lead' },
+    { type: 'assign_owner', label: 'Assign Owner' },
+    { type: 'create_task', label: 'Create Task' },
+    { type: 'set_priority', label: 'Set Priority' },
+    { type: 'toggle_follow_ups', label: 'Follow-ups On/Off' },
+];
+
+// Path of a recorded execution to overlay on the graph
+export interface ExecutionPathHighlight {
+    nodeIds: string[];         // Visited nodes, in order
+    failedNodeId?: string;
+}
+
+// Nodes that differ from a compared workflow version
+export type VersionDiffHighlight = Record<string, 'added' | 'changed'>;
+
 interface WorkflowCanvasContentProps {
     onSave?: (workflowData: { nodes: Node[]; edges: Edge[] }) => void;
     isSaving?: boolean;
     initialData?: { nodes: Node[]; edges: Edge[] } | null;
+    highlightedPath?: ExecutionPathHighlight | null;
+    diffHighlight?: VersionDiffHighlight | null;
 }
 
-function WorkflowCanvasContent({ onSave, isSaving, initialData }: WorkflowCanvasContentProps) {
+function WorkflowCanvasContent({ onSave, isSaving, initialData, highlightedPath, diffHighlight }: WorkflowCanvasContentProps) {
     const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
     const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
     const [selectedNode, setSelectedNode] = useState<Node | null>(null);
+    const [showCrmMenu, setShowCrmMenu] = useState(false);
+    const [showIssues, setShowIssues] = useState(false);
     const { screenToFlowPosition, setCenter } = useReactFlow();
 
     // Load initial data if provided
@@ -80,6 +105,56 @@ function WorkflowCanvasContent({ onSave, isSaving, initialData }: WorkflowCanvas
         setSelectedNode(null);
     }, []);
 
+    // Same checks the publish route runs (minus the attachment download check)
+    const issues = useMemo(() => validateWorkflow({ nodes, edges }), [nodes, edges]);
+    const issuesByNode = useMemo(() => {
+        const byNode: Record<string, WorkflowIssue[]> = {};
+        for (const issue of issues) {
+            for (const nodeId of issue.nodeIds) {
+                (byNode[nodeId] ||= []).push(issue);
+            }
+        }
+        return byNode;
+    }, [issues]);
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+    const focusNode = (nodeId: string) => {
+        const node = nodes.find(n => n.id === nodeId);
+        if (!node) return;
+        setCenter(node.position.x + 128, node.position.y + 40, { zoom: 1.2, duration: 400 });
+        setSelectedNode(node);
+    };
+
+    // Overlay the highlighted execution path without touching the saved nodes/edges
+    const displayNodes = highlightedPath
+        ? nodes.map((node) => ({
+            ...node,
+            className: node.id === highlightedPath.failedNodeId
+                ? 'ring-4 ring-red-300 rounded-xl'
+                : highlightedPath.nodeIds.includes(node.id)
+                    ? 'ring-4 ring-green-300 rounded-xl'
+                    : 'opacity-40',
+        }))
+        : diffHighlight
+            ? nodes.map((node) => ({
+                ...node,
+                className: diffHighlight[node.id] === 'added'
+                    ? 'ring-4 ring-green-300 rounded-xl'
+                    : diffHighlight[node.id] === 'changed'
+                        ? 'ring-4 ring-amber-300 rounded-xl'
+                        : undefined,
+            }))
+            : nodes;
+
+    const displayEdges = highlightedPath
+        ? edges.map((edge) => {
+            const taken = highlightedPath.nodeIds.some((id, i) => id === edge.source && highlightedPath.nodeIds[i + 1] === edge.target);
+            return taken
+                ? { ...edge, animated: true, style: { stroke: '#22c55e', strokeWidth: 3 } }
+                : { ...edge, animated: false, style: { ...edge.style, opacity: 0.3 } };
+        })
+        : edges;
+
     const updateNodeData = (id: string, newData: any) => {
         setNodes((nds) =>
             nds.map((node) => {
@@ -104,57 +179,172 @@ function WorkflowCanvasContent({ onSave, isSaving, initialData }: WorkflowCanvas
             id,
             type: 'custom',
             position: { x: 250, y: 100 },
-            data: {
-                label: type === 'condition' ? 'Condition' : 'New Action',
-                description: 'Configure this step',
-                type
-            },
+            data: type === 'question'
+                ? {
+                    label: 'Ask Question',
+                    description: 'Wait for the customer to answer',
+                    type,
+                    matchMode: 'exact',
+                    useQuickReplies: true,
+                    branches: [
+                        { id: `ans_${Math.random().toString(36).substr(2, 6)}`, label: 'Yes' },
+                        { id: `ans_${Math.random().toString(36).substr(2, 6)}`, label: 'No' },
+                    ],
+                }
+                : type === 'http_request'
+                    ? {
+                        label: 'HTTP Request',
+                        description: 'Call an external API',
+                        type,
+                        httpMethod: 'POST',
+                        responseMappings: [],
+                    }
+                    : type === 'split'
+                        ? {
+                            label: 'A/B Split',
+                            description: 'Route leads to a random variant',
+                            type,
+                            conversionWindowDays: 7,
+                            variants: [
+                                { id: `var_${Math.random().toString(36).substr(2, 6)}`, label: 'A', weight: 50 },
+                                { id: `var_${Math.random().toString(36).substr(2, 6)}`, label: 'B', weight: 50 },
+                            ],
+                        }
+                        : {
+                            label: type === 'condition'
+                                ? 'Condition'
+                                : CRM_ACTIONS.find(a => a.type === type)?.label || 'New Action',
+                            description: 'Configure this step',
+                            type
+                        },
         };
         setNodes((nds) => nds.concat(newNode));
     };
 
     return (
         <div className="h-full w-full relative group">
-            <ReactFlow
-                nodes={nodes}
-                edges={edges}
-                onNodesChange={onNodesChange}
-                onEdgesChange={onEdgesChange}
-                onConnect={onConnect}
-                nodeTypes={nodeTypes}
-                onNodeClick={onNodeClick}
-                onPaneClick={onPaneClick}
-                fitView
-                className="bg-gray-50"
-            >
-                <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="#e2e8f0" />
-                <Controls className="bg-white border-gray-200 text-gray-700 shadow-sm" />
-
-                <Panel position="top-center" className="bg-white p-2 rounded-xl shadow-sm border border-gray-100 flex gap-2">
-                    <button onClick={() => addNode('message')} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
-                        <Plus size={16} className="text-blue-500" />
-                        Message
-                    </button>
-                    <div className="w-px bg-gray-200 my-1" />
-                    <button onClick={() => addNode('wait')} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
-                        <Plus size={16} className="text-orange-500" />
-                        Wait
-                    </button>
-                    <div className="w-px bg-gray-200 my-1" />
-                    <button onClick={() => addNode('smart_condition')} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
-                        <Plus size={16} className="text-purple-500" />
-                        Smart Logic
-                    </button>
-                    <div className="w-px bg-gray-200 my-1" />
-                    <button onClick={() => addNode('stop_bot')} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
-                        <Plus size={16} className="text-red-500" />
-                        Stop Bot
-                    </button>
-                </Panel>
-            </ReactFlow>
+            <NodeIssuesContext.Provider value={issuesByNode}>
+                <ReactFlow
+                    nodes={displayNodes}
+                    edges={displayEdges}
+                    onNodesChange={onNodesChange}
+                    onEdgesChange={onEdgesChange}
+                    onConnect={onConnect}
+                    nodeTypes={nodeTypes}
+                    onNodeClick={onNodeClick}
+                    onPaneClick={onPaneClick}
+                    fitView
+                    className="bg-gray-50"
+                >
+                    <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="#e2e8f0" />
+                    <Controls className="bg-white border-gray-200 text-gray-700 shadow-sm" />
+
+                    <Panel position="top-center" className="bg-white p-2 rounded-xl shadow-sm border border-gray-100 flex gap-2">
+                        <button onClick={() => addNode('message')} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
+                            <Plus size={16} className="text-blue-500" />
+                            Message
+                        </button>
+                        <div className="w-px bg-gray-200 my-1" />
+                        <button onClick={() => addNode('wait')} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
+                            <Plus size={16} className="text-orange-500" />
+                            Wait
+                        </button>
+                        <div className="w-px bg-gray-200 my-1" />
+                        <button onClick={() => addNode('smart_condition')} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
+                            <Plus size={16} className="text-purple-500" />
+                            Smart Logic
+                        </button>
+                        <div className="w-px bg-gray-200 my-1" />
+                        <button onClick={() => addNode('question')} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
+                            <Plus size={16} className="text-teal-500" />
+                            Question
+                        </button>
+                        <div className="w-px bg-gray-200 my-1" />
+                        <button onClick={() => addNode('set_variable')} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
+                            <Plus size={16} className="text-indigo-500" />
+                            Set Variable
+                        </button>
+                        <div className="w-px bg-gray-200 my-1" />
+                        <button onClick={() => addNode('http_request')} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
+                            <Plus size={16} className="text-cyan-500" />
+                            HTTP Request
+                        </button>
+                        <div className="w-px bg-gray-200 my-1" />
+                        <button onClick={() => addNode('split')} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
+                            <Plus size={16} className="text-violet-500" />
+                            A/B Split
+                        </button>
+                        <div className="w-px bg-gray-200 my-1" />
+                        <div className="relative">
+                            <button onClick={() => setShowCrmMenu(!showCrmMenu)} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
+                                <Plus size={16} className="text-emerald-500" />
+                                CRM Action
+                                <ChevronDown size={14} className="text-gray-400" />
+                            </button>
+                            {showCrmMenu && (
+                                <div className="absolute left-0 mt-1 w-44 bg-white border border-gray-100 rounded-lg shadow-lg py-1 z-20">
+                                    {CRM_ACTIONS.map(action => (
+                                        <button
+                                            key={action.type}
+                                            onClick={() => {
+                                                addNode(action.type);
+                                                setShowCrmMenu(false);
+                                            }}
+                                            className="w-full px-3 py-1.5 text-left text-sm text-gray-700 hover:bg-gray-50"
+                                        >
+                                            {action.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                        <div className="w-px bg-gray-200 my-1" />
+                        <button onClick={() => addNode('stop_bot')} className="px-3 py-1.5 hover:bg-gray-50 rounded-lg text-sm font-medium text-gray-700 flex items-center gap-2 transition-colors">
+                            <Plus size={16} className="text-red-500" />
+                            Stop Bot
+                        </button>
+                    </Panel>
+
+                    <Panel position="bottom-left" className="!ml-14">
+                        {showIssues && issues.length > 0 && (
+                            <div className="mb-2 w-80 max-h-64 overflow-y-auto bg-white rounded-xl shadow-lg border border-gray-100 divide-y divide-gray-50">
+                                {issues.map((issue, index) => (
+                                    <button
+                                        key={index}
+                                        onClick={() => issue.nodeIds[0] && focusNode(issue.nodeIds[0])}
+                                        className="w-full text-left px-3 py-2 flex items-start gap-2 text-xs hover:bg-gray-50"
+                                    >
+                                        {issue.severity === 'error'
+                                            ? <AlertCircle size={14} className="text-red-500 shrink-0 mt-0.5" />
+                                            : <AlertTriangle size={14} className="text-amber-500 shrink-0 mt-0.5" />}
+                                        <span className="text-gray-700">{issue.message}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        <button
+                            onClick={() => setShowIssues(!showIssues)}
+                            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium shadow-sm border bg-white ${errorCount > 0
+                                ? 'border-red-200 text-red-600'
+                                : issues.length > 0
+                                    ? 'border-amber-200 text-amber-600'
+                                    : 'border-gray-100 text-green-600'
+                                }`}
+                        >
+                            {errorCount > 0
+                                ? <AlertCircle size={14} />
+                                : issues.length > 0 ? <AlertTriangle size={14} /> : <CheckCircle size={14} />}
+                            {issues.length === 0
+                                ? 'No problems found'
+                                : `${errorCount} error${errorCount !== 1 ? 's' : ''}, ${issues.length - errorCount} warning${issues.length - errorCount !== 1 ? 's' : ''}`}
+                        </button>
+                    </Panel>
+                </ReactFlow>
+            </NodeIssuesContext.Provider>
 
             <PropertiesPanel
                 selectedNode={selectedNode}
+                workflowVariables={getDefinedWorkflowVariables({ nodes })}
                 onClose={() => setSelectedNode(null)}
                 onUpdate={updateNodeData}
                 onDelete={deleteNode}
@@ -0,0 +1,318 @@
+'use client';
+
+import { useState } from 'react';
+import type { Node, Edge } from '@xyflow/react';
+import { Loader2, Plus, Trash2, FlaskConical, Clock, GitBranch, Zap, Paperclip, Flag } from 'lucide-react';
+
+interface SimulationEvent {
+    at: string;
+    kind: 'message' | 'attachment' | 'question' | 'reply' | 'wait' | 'branch' | 'action' | 'end';
+    text: string;
+    nodeId?: string;
+    nodeLabel?: string;
+    quickReplies?: string[];
+}
+
+interface SimulationResult {
+    outcome: 'completed' | 'stopped' | 'waiting_reply' | 'step_limit';
+    events: SimulationEvent[];
+    path: string[];
+    variables: Record<string, string>;
+    startedAt: string;
+    finishedAt: string;
+}
+
+interface ReplyRow {
+    id: number;
+    after: string;
+    unit: 'minutes' | 'hours' | 'days';
+    text: string;
+}
+
+interface WorkflowSimulatorProps {
+    getWorkflowData: () => { nodes: Node[]; edges: Edge[] } | null;
+    leads: Array<{ id: string; sender_id: string; name: string | null }>;
+    onPathChange?: (nodeIds: string[] | null) => void;
+}
+
+const UNIT_MINUTES = { minutes: 1, hours: 60, days: 1440 };
+
+const OUTCOME_STYLES: Record<SimulationResult['outcome'], { label: string; className: string }> = {
+    completed: { label: 'Completed', className: 'bg-green-50 text-green-700' },
+    stopped: { label: 'Bot stopped', className: 'bg-gray-100 text-gray-600' },
+    waiting_reply: { label: 'Waiting for reply', className: 'bg-teal-50 text-teal-700' },
+    step_limit: { label: 'Step limit hit', className: 'bg-red-50 text-red-700' },
+};
+
+// "+1d 2h 5m" relative to the simulation start
+function formatOffset(at: string, startedAt: string): string {
+    const totalMinutes = Math.round((new Date(at).getTime() - new Date(startedAt).getTime()) / 60000);
+    if (totalMinutes <= 0) return '+0m';
+
+    const days = Math.floor(totalMinutes / 1440);
+    const hours = Math.floor((totalMinutes % 1440) / 60);
+    const minutes = totalMinutes % 60;
+    return '+' + [days && `${days}d`, hours && `${hours}h`, minutes && `${minutes}m`].filter(Boolean).join(' ');
+}
+
+function SystemEventIcon({ kind }: { kind: SimulationEvent['kind'] }) {
+    switch (kind) {
+        case 'wait': return <Clock size={12} className="text-orange-500 shrink-0" />;
+        case 'branch': return <GitBranch size={12} className="text-purple-500 shrink-0" />;
+        case 'attachment': return <Paperclip size={12} className="text-blue-500 shrink-0" />;
+        case 'end': return <Flag size={12} className="text-gray-500 shrink-0" />;
+        default: return <Zap size={12} className="text-amber-500 shrink-0" />;
+    }
+}
+
+export default function WorkflowSimulator({ getWorkflowData, leads, onPathChange }: WorkflowSimulatorProps) {
+    const [leadId, setLeadId] = useState('');
+    const [sandboxName, setSandboxName] = useState('Test Customer');
+    const [replies, setReplies] = useState<ReplyRow[]>([]);
+    const [aiConditionResult, setAiConditionResult] = useState(true);
+    const [appointmentDateTime, setAppointmentDateTime] = useState('');
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState('');
+    const [result, setResult] = useState<SimulationResult | null>(null);
+
+    const addReply = () => {
+        setReplies(prev => [...prev, { id: Date.now(), after: '5', unit: 'minutes', text: '' }]);
+    };
+
+    const updateReply = (id: number, updates: Partial<ReplyRow>) => {
+        setReplies(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r));
+    };
+
+    const runSimulation = async () => {
+        const workflowData = getWorkflowData();
+        if (!workflowData || workflowData.nodes.length === 0) {
+            setError('Add some nodes to the workflow first');
+            return;
+        }
+
+        setRunning(true);
+        setError('');
+        try {
+            const res = await fetch('/api/workflows/simulate', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    workflowData: {
+                        nodes: workflowData.nodes.map(n => ({ id: n.id, type: n.type, data: n.data })),
+                        edges: workflowData.edges.map(e => ({ id: e.id, source: e.source, target: e.target, sourceHandle: e.sourceHandle })),
+                    },
+                    leadId: leadId || undefined,
+                    sandboxLead: leadId ? undefined : { name: sandboxName.trim() || 'Test Customer' },
+                    replies: replies.map(r => ({
+                        afterMinutes: (parseFloat(r.after) || 0) * UNIT_MINUTES[r.unit],
+                        text: r.text,
+                    })),
+                    aiConditionResult,
+                    appointmentDateTime: appointmentDateTime ? new Date(appointmentDateTime).toISOString() : undefined,
+                }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error || 'Simulation failed');
+            }
+
+            setResult(data);
+            onPathChange?.(data.path);
+        } catch (err) {
+            console.error('Error simulating workflow:', err);
+            setError(err instanceof Error ? err.message : 'Simulation failed');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const inputClass = 'px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white';
+
+    return (
+        <div className="flex flex-col h-full min-h-0 overflow-y-auto">
+            <p className="text-xs text-gray-500 mb-4">
+                Runs the canvas as it is now on a virtual clock. Nothing is sent to Messenger and no lead is changed.
+            </p>
+
+            <div className="space-y-4 mb-4">
+                <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Lead</label>
+                    <select value={leadId} onChange={(e) => setLeadId(e.target.value)} className={`${inputClass} w-full`}>
+                        <option value="">Sandbox lead</option>
+                        {leads.map(lead => (
+                            <option key={lead.id} value={lead.id}>
+                                {lead.name || 'Unknown'} ({lead.sender_id.slice(0, 8)}...)
+                            </option>
+                        ))}
+                    </select>
+                    {leadId ? (
+                        <p className="text-[11px] text-gray-400 mt-1">Only used to fill placeholders; the lead is not messaged.</p>
+                    ) : (
+                        <input
+                            type="text"
+                            value={sandboxName}
+                            onChange={(e) => setSandboxName(e.target.value)}
+                            placeholder="Sandbox lead name"
+                            className={`${inputClass} w-full mt-2`}
+                        />
+                    )}
+                </div>
+
+                <div>
+                    <div className="flex items-center justify-between mb-1">
+                        <label className="text-xs font-medium text-gray-700">Customer replies</label>
+                        <button onClick={addReply} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700">
+                            <Plus size={12} /> Add reply
+                        </button>
+                    </div>
+                    {replies.length === 0 ? (
+                        <p className="text-[11px] text-gray-400">No replies: questions will time out and the customer stays silent.</p>
+                    ) : (
+                        <div className="space-y-2">
+                            {replies.map(reply => (
+                                <div key={reply.id} className="border border-gray-100 rounded-lg p-2 space-y-2">
+                                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                                        <span>After</span>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={reply.after}
+                                            onChange={(e) => updateReply(reply.id, { after: e.target.value })}
+                                            className={`${inputClass} w-16 !py-1`}
+                                        />
+                                        <select
+                                            value={reply.unit}
+                                            onChange={(e) => updateReply(reply.id, { unit: e.target.value as ReplyRow['unit'] })}
+                                            className={`${inputClass} !py-1`}
+                                        >
+                                            <option value="minutes">minutes</option>
+                                            <option value="hours">hours</option>
+                                            <option value="days">days</option>
+                                        </select>
+                                        <button
+                                            onClick={() => setReplies(prev => prev.filter(r => r.id !== reply.id))}
+                                            className="ml-auto p-1 text-gray-400 hover:text-red-500"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                    <input
+                                        type="text"
+                                        value={reply.text}
+                                        onChange={(e) => updateReply(reply.id, { text: e.target.value })}
+                                        placeholder="Customer says..."
+                                        className={`${inputClass} w-full`}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">AI conditions</label>
+                        <select
+                            value={aiConditionResult ? 'true' : 'false'}
+                            onChange={(e) => setAiConditionResult(e.target.value === 'true')}
+                            className={`${inputClass} w-full`}
+                        >
+                            <option value="true">Assume true</option>
+                            <option value="false">Assume false</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Appointment</label>
+                        <input
+                            type="datetime-local"
+                            value={appointmentDateTime}
+                            onChange={(e) => setAppointmentDateTime(e.target.value)}
+                            className={`${inputClass} w-full`}
+                        />
+                    </div>
+                </div>
+
+                <button
+                    onClick={runSimulation}
+                    disabled={running}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+                >
+                    {running ? <Loader2 size={16} className="animate-spin" /> : <FlaskConical size={16} />}
+                    {running ? 'Simulating...' : 'Run Simulation'}
+                </button>
+
+                {error && <p className="text-xs text-red-600">{error}</p>}
+            </div>
+
+            {result && (
+                <div className="border-t border-gray-100 pt-4">
+                    <div className="flex items-center justify-between mb-3">
+                        <h3 className="text-sm font-semibold text-gray-900">Transcript</h3>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${OUTCOME_STYLES[result.outcome].className}`}>
+                            {OUTCOME_STYLES[result.outcome].label}
+                        </span>
+                    </div>
+
+                    <div className="space-y-2">
+                        {result.events.map((event, index) => {
+                            const offset = formatOffset(event.at, result.startedAt);
+
+                            if (event.kind === 'message' || event.kind === 'question') {
+                                return (
+                                    <div key={index} className="flex flex-col items-start">
+                                        <div className="max-w-[85%] bg-blue-600 text-white text-sm rounded-2xl rounded-bl-sm px-3 py-2 whitespace-pre-wrap">
+                                            {event.text}
+                                        </div>
+                                        {event.quickReplies && event.quickReplies.length > 0 && (
+                                            <div className="flex flex-wrap gap-1 mt-1">
+                                                {event.quickReplies.map(label => (
+                                                    <span key={label} className="px-2 py-0.5 border border-blue-200 text-blue-600 rounded-full text-[11px]">
+                                                        {label}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        )}
+                                        <span className="text-[10px] text-gray-400 mt-0.5">{offset} · {event.nodeLabel || 'Bot'}</span>
+                                    </div>
+                                );
+                            }
+
+                            if (event.kind === 'reply') {
+                                return (
+                                    <div key={index} className="flex flex-col items-end">
+                                        <div className="max-w-[85%] bg-gray-100 text-gray-900 text-sm rounded-2xl rounded-br-sm px-3 py-2 whitespace-pre-wrap">
+                                            {event.text}
+                                        </div>
+                                        <span className="text-[10px] text-gray-400 mt-0.5">{offset} · Customer</span>
+                                    </div>
+                                );
+                            }
+
+                            return (
+                                <div key={index} className="flex items-start gap-1.5 text-xs text-gray-600 px-1">
+                                    <SystemEventIcon kind={event.kind} />
+                                    <span className="flex-1 break-words">{event.text}</span>
+                                    <span className="text-[10px] text-gray-400 shrink-0">{offset}</span>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {Object.keys(result.variables).length > 0 && (
+                        <div className="mt-4">
+                            <h4 className="text-xs font-medium text-gray-700 mb-1">Variables</h4>
+                            <div className="bg-gray-50 rounded-lg p-2 space-y-0.5">
+                                {Object.entries(result.variables).map(([name, value]) => (
+                                    <div key={name} className="text-[11px] font-mono text-gray-600 break-all">
+                                        {name} = {value}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
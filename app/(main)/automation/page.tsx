@@ -1,7 +1,10 @@
 'use client';
 
-import WorkflowCanvas from './components/WorkflowCanvas';
-import { Play, Edit2, Beaker, Wand2, Save } from 'lucide-react';
+import WorkflowCanvas, { type ExecutionPathHighlight, type VersionDiffHighlight } from './components/WorkflowCanvas';
+import WorkflowSimulator from './components/WorkflowSimulator';
+import VersionHistory from './components/VersionHistory';
+import ExecutionHistory, { getExecutionPath, type ExecutionDetail } from '@/app/components/workflows/ExecutionHistory';
+import { Play, Edit2, Beaker, Wand2, Save, History, X, FlaskConical, GitCommit, Upload } from 'lucide-react';
 import { useState, useEffect, Suspense, useRef } from 'react';
 import { useSearchParams } from 'next/navigation';
 import type { Node, Edge } from '@xyflow/react';
@@ -40,6 +43,19 @@ function AutomationPageContent() {
     const savedWorkflowDataRef = useRef<WorkflowData | null>(null);
     const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
 
+    // Execution history panel state
+    const [showExecutions, setShowExecutions] = useState(false);
+    const [highlightedPath, setHighlightedPath] = useState<ExecutionPathHighlight | null>(null);
+
+    // Simulator panel (dry run on a virtual clock)
+    const [showSimulator, setShowSimulator] = useState(false);
+
+    // Versions panel: published snapshots, diff against the draft, rollback
+    const [showVersions, setShowVersions] = useState(false);
+    const [diffHighlight, setDiffHighlight] = useState<VersionDiffHighlight | null>(null);
+    const [versionsRefreshKey, setVersionsRefreshKey] = useState(0);
+    const [hasUnpublishedDraft, setHasUnpublishedDraft] = useState(false);
+
     // Publish confirmation modal state
     const [showPublishConfirmModal, setShowPublishConfirmModal] = useState(false);
     const [existingLeadsCount, setExistingLeadsCount] = useState(0);
@@ -73,6 +89,7 @@ function AutomationPageContent() {
                     setWorkflowId(data.id);
                     setWorkflowName(data.name);
                     setIsPublished(data.is_published);
+                    setHasUnpublishedDraft(!!data.has_unpublished_changes);
                     setInitialWorkflowData(data.workflow_data);
                     // Initialize saved baseline for dirty tracking
                     savedWorkflowDataRef.current = data.workflow_data;
@@ -167,6 +184,11 @@ function AutomationPageContent() {
             savedWorkflowDataRef.current = JSON.parse(JSON.stringify(workflowData));
             setHasUnsavedChanges(false);
 
+            // Saving only changes the draft; live executions keep running the published version
+            if (isPublished) {
+                setHasUnpublishedDraft(true);
+            }
+
             // Show saved status
             setSaveStatus('saved');
 
@@ -237,10 +259,19 @@ function AutomationPageContent() {
                 }),
             });
             if (!res.ok) {
+                const data = await res.json().catch(() => ({}));
+                if (res.status === 400 && data.error) {
+                    alert(`❌ ${data.error}`);
+                    return;
+                }
                 throw new Error('Failed to publish workflow');
             }
             setIsPublished(publish);
             setShowPublishConfirmModal(false);
+            if (publish) {
+                setHasUnpublishedDraft(false);
+                setVersionsRefreshKey(k => k + 1);
+            }
         } catch (error) {
             console.error('Error publishing workflow:', error);
         } finally {
@@ -280,7 +311,7 @@ function AutomationPageContent() {
             const data = await res.json();
 
             if (res.ok) {
-                alert('✅ Workflow execution started! Check the server logs for details.');
+                alert('✅ Workflow execution started! Open Executions to follow its progress.');
                 setShowTestModal(false);
             } else {
                 alert(`❌ Error: ${data.error}`);
@@ -293,6 +324,68 @@ function AutomationPageContent() {
         }
     };
 
+    const handleSelectExecution = (execution: ExecutionDetail | null) => {
+        if (!execution) {
+            setHighlightedPath(null);
+            return;
+        }
+        setHighlightedPath({
+            nodeIds: getExecutionPath(execution.steps),
+            failedNodeId: execution.status === 'failed' ? execution.current_node_id || undefined : undefined,
+        });
+    };
+
+    const closeExecutions = () => {
+        setShowExecutions(false);
+        setHighlightedPath(null);
+    };
+
+    const closeSimulator = () => {
+        setShowSimulator(false);
+        setHighlightedPath(null);
+    };
+
+    const closeVersions = () => {
+        setShowVersions(false);
+        setDiffHighlight(null);
+    };
+
+    // Only one side panel is open at a time
+    const openExecutions = () => {
+        closeSimulator();
+        closeVersions();
+        setShowExecutions(true);
+    };
+
+    const openSimulator = () => {
+        closeExecutions();
+        closeVersions();
+        setShowSimulator(true);
+    };
+
+    const openVersions = () => {
+        closeExecutions();
+        closeSimulator();
+        setShowVersions(true);
+    };
+
+    // Publish the saved draft as a new version of an already published workflow
+    const handlePublishChanges = async () => {
+        if (hasUnsavedChanges && currentWorkflowDataRef.current) {
+            await handleSave(currentWorkflowDataRef.current);
+        }
+        await doPublish(true, false);
+    };
+
+    const handleRolledBack = (workflowData: WorkflowData) => {
+        setInitialWorkflowData(workflowData);
+        currentWorkflowDataRef.current = workflowData;
+        savedWorkflowDataRef.current = JSON.parse(JSON.stringify(workflowData));
+        setHasUnsavedChanges(false);
+        setIsPublished(true);
+        setHasUnpublishedDraft(false);
+    };
+
     const handleGenerateWorkflow = async () => {
         if (!aiPrompt.trim()) {
             setGenerateError('Please enter a prompt describing your workflow');
@@ -367,6 +460,38 @@ function AutomationPageContent() {
                         <Wand2 size={16} />
                         Generate with AI
                     </button>
+                    <button
+                        onClick={() => showExecutions ? closeExecutions() : openExecutions()}
+                        disabled={!workflowId}
+                        className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-colors border ${showExecutions
+                            ? 'border-gray-300 bg-gray-100 text-gray-800'
+                            : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'
+                            } ${!workflowId ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    >
+                        <History size={16} />
+                        Executions
+                    </button>
+                    <button
+                        onClick={() => showSimulator ? closeSimulator() : openSimulator()}
+                        className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-colors border ${showSimulator
+                            ? 'border-gray-300 bg-gray-100 text-gray-800'
+                            : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'
+                            }`}
+                    >
+                        <FlaskConical size={16} />
+                        Simulate
+                    </button>
+                    <button
+                        onClick={() => showVersions ? closeVersions() : openVersions()}
+                        disabled={!workflowId}
+                        className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-colors border ${showVersions
+                            ? 'border-gray-300 bg-gray-100 text-gray-800'
+                            : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'
+                            } ${!workflowId ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    >
+                        <GitCommit size={16} />
+                        Versions
+                    </button>
                     <button
                         onClick={() => handleTestRun()}
                         className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-colors border border-blue-200 bg-blue-50 text-blue-600 hover:bg-blue-100"
@@ -397,6 +522,16 @@ function AutomationPageContent() {
                                         ? 'Save Changes'
                                         : 'Save'}
                     </button>
+                    {isPublished && (hasUnpublishedDraft || hasUnsavedChanges) && (
+                        <button
+                            onClick={handlePublishChanges}
+                            disabled={isPublishing}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-colors shadow-sm bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                        >
+                            <Upload size={16} />
+                            Publish Changes
+                        </button>
+                    )}
                     <button
                         onClick={() => handlePublish()}
                         disabled={!workflowId}
@@ -412,17 +547,70 @@ function AutomationPageContent() {
             </header>
 
             {/* Main Canvas Area */}
-            <main className="flex-1 overflow-hidden">
-                {loading ? (
-                    <div className="flex items-center justify-center h-full text-gray-500">
-                        Loading workflow...
-                    </div>
-                ) : (
-                    <WorkflowCanvas
-                        onSave={handleWorkflowChange}
-                        isSaving={isSaving}
-                        initialData={initialWorkflowData}
-                    />
+            <main className="flex-1 overflow-hidden flex">
+                <div className="flex-1 min-w-0">
+                    {loading ? (
+                        <div className="flex items-center justify-center h-full text-gray-500">
+                            Loading workflow...
+                        </div>
+                    ) : (
+                        <WorkflowCanvas
+                            onSave={handleWorkflowChange}
+                            isSaving={isSaving}
+                            initialData={initialWorkflowData}
+                            highlightedPath={highlightedPath}
+                            diffHighlight={diffHighlight}
+                        />
+                    )}
+                </div>
+
+                {/* Execution History Panel */}
+                {showExecutions && workflowId && (
+                    <aside className="w-96 shrink-0 bg-white border-l border-gray-200 p-4 flex flex-col">
+                        <div className="flex items-center justify-between mb-4">
+                            <h2 className="font-bold text-gray-900">Executions</h2>
+                            <button onClick={closeExecutions} className="p-1 text-gray-400 hover:text-gray-600">
+                                <X size={18} />
+                            </button>
+                        </div>
+                        <ExecutionHistory workflowId={workflowId} onSelectExecution={handleSelectExecution} />
+                    </aside>
+                )}
+
+                {/* Versions Panel */}
+                {showVersions && workflowId && (
+                    <aside className="w-96 shrink-0 bg-white border-l border-gray-200 p-4 flex flex-col">
+                        <div className="flex items-center justify-between mb-4">
+                            <h2 className="font-bold text-gray-900">Versions</h2>
+                            <button onClick={closeVersions} className="p-1 text-gray-400 hover:text-gray-600">
+                                <X size={18} />
+                            </button>
+                        </div>
+                        <VersionHistory
+                            workflowId={workflowId}
+                            getDraftData={() => currentWorkflowDataRef.current || initialWorkflowData}
+                            refreshKey={versionsRefreshKey}
+                            onDiffChange={setDiffHighlight}
+                            onRolledBack={handleRolledBack}
+                        />
+                    </aside>
+                )}
+
+                {/* Simulator Panel */}
+                {showSimulator && (
+                    <aside className="w-96 shrink-0 bg-white border-l border-gray-200 p-4 flex flex-col">
+                        <div className="flex items-center justify-between mb-2">
+                            <h2 className="font-bold text-gray-900">Simulate</h2>
+                            <button onClick={closeSimulator} className="p-1 text-gray-400 hover:text-gray-600">
+                                <X size={18} />
+                            </button>
+                        </div>
+                        <WorkflowSimulator
+                            getWorkflowData={() => currentWorkflowDataRef.current || initialWorkflowData}
+                            leads={testLeads}
+                            onPathChange={(nodeIds) => setHighlightedPath(nodeIds ? { nodeIds } : null)}
+                        />
+                    </aside>
                 )}
             </main>
 
@@ -6,10 +6,11 @@ import ChatPreview from "../../components/ChatPreview";
 import Header from "../../components/Header";
 import DocumentEditor from "../../components/DocumentEditor";
 import RulesEditor from "../../components/RulesEditor";
+import KnowledgeInsights from "../../components/KnowledgeInsights";
 
 import FAQEditor from "../../components/FAQEditor";
 import PaymentMethodEditor from "../../components/PaymentMethodEditor";
-import { FileText, Bot, CreditCard } from "lucide-react";
+import { FileText, Bot, CreditCard, BarChart3 } from "lucide-react";
 
 interface Category {
   id: string;
@@ -21,25 +22,26 @@ interface Category {
 export default function Home() {
   const [selectedDocText, setSelectedDocText] = useState('');
   const [selectedDocId, setSelectedDocId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'documents' | 'rules'>('documents');
+  const [selectedDocExpiresAt, setSelectedDocExpiresAt] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'documents' | 'rules' | 'insights'>('documents');
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
   const [isEditingDoc, setIsEditingDoc] = useState(false);
 
-  const handleSaveDocument = async (text: string, categoryId?: string) => {
+  const handleSaveDocument = async (text: string, expiresAt: string | null, categoryId?: string) => {
     try {
       if (selectedDocId) {
         // Update existing document
         await fetch('/api/knowledge', {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ id: selectedDocId, text, categoryId }),
+          body: JSON.stringify({ id: selectedDocId, text, categoryId, expiresAt }),
         });
       } else {
         // Create new document
         await fetch('/api/knowledge', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ text, categoryId }),
+          body: JSON.stringify({ text, categoryId, expiresAt }),
         });
       }
       window.location.reload();
@@ -51,6 +53,7 @@ export default function Home() {
   const handleCreateDocument = () => {
     setSelectedDocText('');
     setSelectedDocId(null);
+    setSelectedDocExpiresAt(null);
     setSelectedCategory(null);
     setActiveTab('documents');
     setIsEditingDoc(true);
@@ -63,12 +66,17 @@ export default function Home() {
       return <RulesEditor />;
     }
 
+    if (activeTab === 'insights') {
+      return <KnowledgeInsights />;
+    }
+
     // If user explicitly selected a document, show document editor
     if (isEditingDoc) {
       return (
         <DocumentEditor
           initialText={selectedDocText}
-          onSave={(text) => handleSaveDocument(text, selectedCategory?.id)}
+          initialExpiresAt={selectedDocExpiresAt}
+          onSave={(text, expiresAt) => handleSaveDocument(text, expiresAt, selectedCategory?.id)}
         />
       );
     }
@@ -97,7 +105,8 @@ export default function Home() {
     return (
       <DocumentEditor
         initialText={selectedDocText}
-        onSave={(text) => handleSaveDocument(text, selectedCategory?.id)}
+        initialExpiresAt={selectedDocExpiresAt}
+        onSave={(text, expiresAt) => handleSaveDocument(text, expiresAt, selectedCategory?.id)}
       />
     );
   };
@@ -108,9 +117,10 @@ export default function Home() {
       <div className="flex-1 flex overflow-hidden">
         {/* Knowledge Base Sidebar */}
         <KnowledgeBase
-          onSelect={(doc: { id: string; text: string }) => {
+          onSelect={(doc: { id: string; text: string; expiresAt?: string }) => {
             setSelectedDocId(doc.id);
             setSelectedDocText(doc.text);
+            setSelectedDocExpiresAt(doc.expiresAt || null);
             setIsEditingDoc(true);
           }}
           onCategorySelect={(category: Category | null) => {
@@ -148,6 +158,16 @@ export default function Home() {
               <Bot size={16} />
               Bot Rules
             </button>
+            <button
+              onClick={() => setActiveTab('insights')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'insights'
+                ? 'bg-teal-50 text-teal-700 border border-teal-200'
+                : 'text-gray-600 hover:bg-gray-100'
+                }`}
+            >
+              <BarChart3 size={16} />
+              Insights
+            </button>
             {selectedCategory && (
               <span className="ml-2 text-sm text-gray-500">
                 Category: <span className="font-medium text-gray-700">{selectedCategory.name}</span>
@@ -1,7 +1,8 @@
 'use client';
 
-import { X, Package, User, Phone, Mail, FileText, Calendar, DollarSign, CreditCard, Truck, MapPin } from 'lucide-react';
+import { X, Package, User, Phone, Mail, FileText, Calendar, DollarSign, CreditCard, Truck, MapPin, Loader2, Send } from 'lucide-react';
 import { Order } from '@/app/lib/orderService';
+import type { OrderFulfillment } from '@/app/lib/shippingService';
 import { useEffect, useState } from 'react';
 
 interface OrderDetailsModalProps {
@@ -18,6 +19,10 @@ export default function OrderDetailsModal({ isOpen, order, onClose, onUpdateStat
     const [isCod, setIsCod] = useState<boolean>(false);
     const [updating, setUpdating] = useState(false);
     const [updatingPayment, setUpdatingPayment] = useState(false);
+    const [fulfillment, setFulfillment] = useState<OrderFulfillment | null>(null);
+    const [tracking, setTracking] = useState({ carrier: '', trackingNumber: '', trackingUrl: '' });
+    const [savingTracking, setSavingTracking] = useState(false);
+    const [trackingError, setTrackingError] = useState<string | null>(null);
 
     useEffect(() => {
         if (order) {
@@ -27,6 +32,23 @@ export default function OrderDetailsModal({ isOpen, order, onClose, onUpdateStat
         }
     }, [order]);
 
+    useEffect(() => {
+        if (!isOpen || !order) return;
+        setTrackingError(null);
+        fetch(`/api/orders/${order.id}/fulfillment`)
+            .then(res => res.ok ? res.json() : { fulfillment: null })
+            .then(data => {
+                const record: OrderFulfillment | null = data.fulfillment;
+                setFulfillment(record);
+                setTracking({
+                    carrier: record?.carrier || '',
+                    trackingNumber: record?.tracking_number || '',
+                    trackingUrl: record?.tracking_url || '',
+                });
+            })
+            .catch(error => console.error('Error fetching fulfillment:', error));
+    }, [isOpen, order?.id]);
+
     if (!isOpen || !order) return null;
 
     const handleStatusChange = async (newStatus: string) => {
@@ -51,6 +73,29 @@ export default function OrderDetailsModal({ isOpen, order, onClose, onUpdateStat
         setUpdatingPayment(false);
     };
 
+    const handleSaveTracking = async () => {
+        setSavingTracking(true);
+        setTrackingError(null);
+        try {
+            const res = await fetch(`/api/orders/${order.id}/fulfillment`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(tracking),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setFulfillment(data.fulfillment);
+            } else {
+                setTrackingError(data.error || 'Failed to save tracking details');
+            }
+        } catch (error) {
+            console.error('Error saving fulfillment:', error);
+            setTrackingError('Failed to save tracking details');
+        } finally {
+            setSavingTracking(false);
+        }
+    };
+
     const formatDate = (dateString: string) => {
         return new Date(dateString).toLocaleDateString('en-US', {
             year: 'numeric',
@@ -163,6 +208,11 @@ export default function OrderDetailsModal({ isOpen, order, onClose, onUpdateStat
                                         <MapPin size={14} className="text-gray-400 mt-0.5" />
                                         <span className="flex-1">
                                             {order.shipping_address || <span className="text-gray-400 italic">No shipping address provided</span>}
+                                            {(order.shipping_city || order.shipping_province) && (
+                                                <span className="block text-xs text-gray-500 mt-0.5">
+                                                    {[order.shipping_city, order.shipping_province].filter(Boolean).join(', ')}
+                                                </span>
+                                            )}
                                         </span>
                                     </div>
                                 </div>
@@ -249,6 +299,73 @@ export default function OrderDetailsModal({ isOpen, order, onClose, onUpdateStat
                         </div>
                     </div>
 
+                    {/* Shipping & Fulfillment */}
+                    <div className="bg-gradient-to-br from-indigo-50 to-sky-50 p-5 rounded-2xl border border-indigo-100">
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+                                <Truck size={16} className="text-indigo-600" />
+                                Shipping & Fulfillment
+                            </h3>
+                            {order.shipping_zone_name && (
+                                <span className="text-xs text-gray-600">
+                                    {order.shipping_zone_name} · {Number(order.shipping_fee) > 0 ? formatCurrency(Number(order.shipping_fee), order.currency) : 'Free shipping'}
+                                </span>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+                            <div>
+                                <label className="text-xs text-gray-500 font-medium uppercase tracking-wider">Carrier</label>
+                                <input
+                                    type="text"
+                                    value={tracking.carrier}
+                                    onChange={(e) => setTracking({ ...tracking, carrier: e.target.value })}
+                                    placeholder="J&T Express"
+                                    className="mt-1 w-full px-3 py-2 text-sm text-gray-900 bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-gray-500 font-medium uppercase tracking-wider">Tracking Number</label>
+                                <input
+                                    type="text"
+                                    value={tracking.trackingNumber}
+                                    onChange={(e) => setTracking({ ...tracking, trackingNumber: e.target.value })}
+                                    className="mt-1 w-full px-3 py-2 text-sm text-gray-900 bg-white border border-gray-200 rounded-lg font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+                                />
+                            </div>
+                            <div className="sm:col-span-2">
+                                <label className="text-xs text-gray-500 font-medium uppercase tracking-wider">Tracking Link (Optional)</label>
+                                <input
+                                    type="url"
+                                    value={tracking.trackingUrl}
+                                    onChange={(e) => setTracking({ ...tracking, trackingUrl: e.target.value })}
+                                    placeholder="https://"
+                                    className="mt-1 w-full px-3 py-2 text-sm text-gray-900 bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="flex items-center justify-between gap-3">
+                            <div className="text-xs text-gray-500 space-y-0.5">
+                                {fulfillment?.shipped_at && <p>Shipped {formatDate(fulfillment.shipped_at)}</p>}
+                                {fulfillment?.delivered_at && <p>Delivered {formatDate(fulfillment.delivered_at)}</p>}
+                                {(fulfillment?.shipped_notified_at || fulfillment?.delivered_notified_at) && (
+                                    <p className="flex items-center gap-1 text-indigo-600"><Send size={12} /> Customer notified on Messenger</p>
+                                )}
+                                {!fulfillment?.shipped_at && <p>The customer is messaged when you mark the order shipped or delivered.</p>}
+                            </div>
+                            <button
+                                onClick={handleSaveTracking}
+                                disabled={savingTracking}
+                                className="flex items-center gap-1.5 px-4 py-2 bg-indigo-600 text-white rounded-lg text-xs font-medium hover:bg-indigo-700 disabled:opacity-50 transition-colors whitespace-nowrap"
+                            >
+                                {savingTracking && <Loader2 size={14} className="animate-spin" />}
+                                Save Tracking
+                            </button>
+                        </div>
+                        {trackingError && <p className="mt-2 text-xs text-red-600">{trackingError}</p>}
+                    </div>
+
                     {/* Order Items */}
                     <div>
                         <h3 className="text-sm font-semibold text-gray-900 mb-4 flex items-center gap-2">
@@ -283,6 +400,26 @@ export default function OrderDetailsModal({ isOpen, order, onClose, onUpdateStat
                                     ))}
                                 </tbody>
                                 <tfoot className="bg-gray-50/50 font-semibold text-gray-900">
+                                    {(Number(order.discount_amount) > 0 || Number(order.shipping_fee) > 0) && (
+                                        <>
+                                            <tr className="font-normal text-gray-600">
+                                                <td colSpan={3} className="px-4 py-2 text-right">Subtotal</td>
+                                                <td className="px-4 py-2 text-right">{formatCurrency(Number(order.subtotal_amount), order.currency)}</td>
+                                            </tr>
+                                            {(order.discount_breakdown || []).filter(line => line.amount > 0).map(line => (
+                                                <tr key={`${line.source}-${line.id}`} className="font-normal text-emerald-600">
+                                                    <td colSpan={3} className="px-4 py-2 text-right">{line.source === 'code' ? `Code ${line.label}` : line.label}</td>
+                                                    <td className="px-4 py-2 text-right">-{formatCurrency(line.amount, order.currency)}</td>
+                                                </tr>
+                                            ))}
+                                            {Number(order.shipping_fee) > 0 && (
+                                                <tr className="font-normal text-gray-600">
+                                                    <td colSpan={3} className="px-4 py-2 text-right">Shipping</td>
+                                                    <td className="px-4 py-2 text-right">{formatCurrency(Number(order.shipping_fee), order.currency)}</td>
+                                                </tr>
+                                            )}
+                                        </>
+                                    )}
                                     <tr>
                                         <td colSpan={3} className="px-4 py-3 text-right">Total Amount</td>
                                         <td className="px-4 py-3 text-right text-base text-teal-600">{formatCurrency(order.total_amount, order.currency)}</td>
@@ -26,6 +26,7 @@ export default function OrdersPage() {
     const [searchQuery, setSearchQuery] = useState('');
     const [statusFilter, setStatusFilter] = useState<string>('all');
     const [paymentStatusFilter, setPaymentStatusFilter] = useState<string>('all');
+    const [cancellationWindow, setCancellationWindow] = useState<number | null>(null);
 
     // Modal state
     const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
@@ -33,8 +34,41 @@ export default function OrdersPage() {
 
     useEffect(() => {
         fetchOrders();
+        fetchCancellationWindow();
     }, []);
 
+    const fetchCancellationWindow = async () => {
+        try {
+            const res = await fetch('/api/store-settings');
+            const data = await res.json();
+            if (res.ok && data) {
+                setCancellationWindow(data.order_cancellation_window_hours ?? 24);
+            }
+        } catch (error) {
+            console.error('Failed to fetch store settings:', error);
+        }
+    };
+
+    const handleCancellationWindowChange = async (hours: number) => {
+        const previous = cancellationWindow;
+        setCancellationWindow(hours);
+        try {
+            const res = await fetch('/api/store-settings', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ orderCancellationWindowHours: hours }),
+            });
+            if (!res.ok) {
+                setCancellationWindow(previous);
+                const data = await res.json();
+                alert(data.error || 'Failed to update cancellation window');
+            }
+        } catch (error) {
+            console.error('Failed to update cancellation window:', error);
+            setCancellationWindow(previous);
+        }
+    };
+
     const fetchOrders = async () => {
         setLoading(true);
         try {
@@ -198,6 +232,26 @@ export default function OrdersPage() {
                         <p className="text-gray-500 mt-1">Manage and track your customer orders</p>
                     </div>
                     <div className="flex items-center gap-3">
+                        {cancellationWindow !== null && (
+                            <label className="flex items-center gap-2 text-sm text-gray-600" title="How long customers can cancel a confirmed order themselves in Messenger">
+                                Customer cancellations
+                                <select
+                                    value={cancellationWindow}
+                                    onChange={(e) => handleCancellationWindowChange(Number(e.target.value))}
+                                    className="bg-white border border-gray-200 text-gray-700 text-sm rounded-lg p-2 px-3 cursor-pointer outline-none focus:ring-teal-500 focus:border-teal-500 shadow-sm"
+                                >
+                                    <option value={0}>Off</option>
+                                    <option value={1}>Within 1 hour</option>
+                                    <option value={6}>Within 6 hours</option>
+                                    <option value={24}>Within 24 hours</option>
+                                    <option value={48}>Within 2 days</option>
+                                    <option value={72}>Within 3 days</option>
+                                    {![0, 1, 6, 24, 48, 72].includes(cancellationWindow) && (
+                                        <option value={cancellationWindow}>Within {cancellationWindow} hours</option>
+                                    )}
+                                </select>
+                            </label>
+                        )}
                         <button
                             onClick={fetchOrders}
                             className="p-2.5 bg-white text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors shadow-sm"
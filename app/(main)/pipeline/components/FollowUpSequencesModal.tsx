@@ -0,0 +1,476 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Plus, Trash2, Repeat, Loader2, ArrowLeft } from 'lucide-react';
+import type { FollowUpSequence, SequenceStep, SequenceStopCondition } from '@/app/lib/followUpSequenceService';
+
+interface StageOption {
+    id: string;
+    name: string;
+    color: string;
+}
+
+interface MediaOption {
+    id: string;
+    title: string;
+    media_type: string;
+}
+
+interface FollowUpSequencesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    stages: StageOption[];
+}
+
+type DelayUnit = 'minutes' | 'hours' | 'days';
+
+interface StepDraft {
+    id: string;
+    delayValue: number;
+    delayUnit: DelayUnit;
+    mode: 'template' | 'ai';
+    text: string;
+    mediaId: string;
+}
+
+interface SequenceDraft {
+    id?: string;
+    name: string;
+    stage_id: string;
+    stop_conditions: SequenceStopCondition[];
+    is_active: boolean;
+    steps: StepDraft[];
+}
+
+const UNIT_MINUTES: Record<DelayUnit, number> = { minutes: 1, hours: 60, days: 1440 };
+
+const STOP_CONDITION_LABELS: Record<SequenceStopCondition, string> = {
+    replied: 'Lead replies',
+    ordered: 'Lead places an order',
+    booked: 'Lead books an appointment',
+};
+
+function newStepId(): string {
+    return `step_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+function emptyStep(): StepDraft {
+    return { id: newStepId(), delayValue: 1, delayUnit: 'days', mode: 'template', text: '', mediaId: '' };
+}
+
+// Show the delay in the largest unit that divides it evenly
+function toStepDraft(step: SequenceStep): StepDraft {
+    const delayUnit: DelayUnit = step.delayMinutes % 1440 === 0 ? 'days' : step.delayMinutes % 60 === 0 ? 'hours' : 'minutes';
+    return {
+        id: step.id,
+        delayValue: step.delayMinutes / UNIT_MINUTES[delayUnit],
+        delayUnit,
+        mode: step.mode,
+        text: step.text,
+        mediaId: step.mediaId || '',
+    };
+}
+
+function formatDelay(minutes: number): string {
+    if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+    if (minutes % 60 === 0) return `${minutes / 60}h`;
+    return `${minutes}m`;
+}
+
+export default function FollowUpSequencesModal({ isOpen, onClose, stages }: FollowUpSequencesModalProps) {
+    const [sequences, setSequences] = useState<FollowUpSequence[]>([]);
+    const [media, setMedia] = useState<MediaOption[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [draft, setDraft] = useState<SequenceDraft | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            fetchSequences();
+        } else {
+            setDraft(null);
+            setError(null);
+        }
+    }, [isOpen]);
+
+    const fetchSequences = async () => {
+        setLoading(true);
+        try {
+            const res = await fetch('/api/follow-up-sequences');
+            if (res.ok) {
+                const data = await res.json();
+                setSequences(data.sequences || []);
+                setMedia(data.media || []);
+            }
+        } catch (err) {
+            console.error('Failed to fetch follow-up sequences:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const startNew = () => {
+        setError(null);
+        setDraft({
+            name: '',
+            stage_id: stages[0]?.id || '',
+            stop_conditions: ['replied'],
+            is_active: true,
+            steps: [emptyStep()],
+        });
+    };
+
+    const startEdit = (sequence: FollowUpSequence) => {
+        setError(null);
+        setDraft({
+            id: sequence.id,
+            name: sequence.name,
+            stage_id: sequence.stage_id || '',
+            stop_conditions: sequence.stop_conditions || [],
+            is_active: sequence.is_active,
+            steps: (sequence.steps || []).map(toStepDraft),
+        });
+    };
+
+    const updateStep = (index: number, changes: Partial<StepDraft>) => {
+        if (!draft) return;
+        setDraft({
+            ...draft,
+            steps: draft.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+        });
+    };
+
+    const toggleStopCondition = (condition: SequenceStopCondition) => {
+        if (!draft) return;
+        setDraft({
+            ...draft,
+            stop_conditions: draft.stop_conditions.includes(condition)
+                ? draft.stop_conditions.filter(c => c !== condition)
+                : [...draft.stop_conditions, condition],
+        });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setSaving(true);
+        setError(null);
+
+        const payload = {
+            name: draft.name,
+            stage_id: draft.stage_id || null,
+            stop_conditions: draft.stop_conditions,
+            is_active: draft.is_active,
+            steps: draft.steps.map(step => ({
+                id: step.id,
+                delayMinutes: Math.round(step.delayValue * UNIT_MINUTES[step.delayUnit]),
+                mode: step.mode,
+                text: step.text,
+                mediaId: step.mediaId || null,
+            })),
+        };
+
+        try {
+            const res = await fetch(draft.id ? `/api/follow-up-sequences/${draft.id}` : '/api/follow-up-sequences', {
+                method: draft.id ? 'PATCH' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to save sequence');
+                return;
+            }
+            setDraft(null);
+            fetchSequences();
+        } catch (err) {
+            console.error('Failed to save follow-up sequence:', err);
+            setError('Failed to save sequence');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Delete this sequence? Leads currently in it will stop receiving its steps.')) return;
+        try {
+            const res = await fetch(`/api/follow-up-sequences/${id}`, { method: 'DELETE' });
+            if (res.ok) {
+                setSequences(prev => prev.filter(s => s.id !== id));
+            }
+        } catch (err) {
+            console.error('Failed to delete follow-up sequence:', err);
+        }
+    };
+
+    const stageFor = (stageId: string | null) => stages.find(s => s.id === stageId);
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                    className="fixed inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4 sm:p-6"
+                >
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="bg-white w-full max-w-3xl max-h-[85vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden"
+                    >
+                        {/* Header */}
+                        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                                {draft && (
+                                    <button
+                                        onClick={() => setDraft(null)}
+                                        className="p-1.5 text-gray-400 hover:text-gray-900 hover:bg-gray-50 rounded-lg transition-colors"
+                                    >
+                                        <ArrowLeft size={16} />
+                                    </button>
+                                )}
+                                <div className="p-2 bg-indigo-50 text-indigo-600 rounded-lg">
+                                    <Repeat size={18} />
+                                </div>
+                                <div>
+                                    <h2 className="text-lg font-bold text-gray-900">
+                                        {draft ? (draft.id ? 'Edit Sequence' : 'New Sequence') : 'Follow-up Sequences'}
+                                    </h2>
+                                    <p className="text-xs text-gray-500">
+                                        Leads entering a stage receive its sequence, step by step
+                                    </p>
+                                </div>
+                            </div>
+                            <button
+                                onClick={onClose}
+                                className="p-2 text-gray-400 hover:text-gray-900 hover:bg-gray-50 rounded-full transition-colors"
+                            >
+                                <X size={18} />
+                            </button>
+                        </div>
+
+                        <div className="flex-1 overflow-y-auto p-6">
+                            {!draft ? (
+                                <div className="space-y-3">
+                                    {loading ? (
+                                        <div className="flex justify-center py-10 text-gray-400">
+                                            <Loader2 size={20} className="animate-spin" />
+                                        </div>
+                                    ) : sequences.length === 0 ? (
+                                        <p className="text-sm text-gray-500 text-center py-10">
+                                            No sequences yet. Create one to follow up with leads in a stage.
+                                        </p>
+                                    ) : (
+                                        sequences.map(sequence => {
+                                            const stage = stageFor(sequence.stage_id);
+                                            return (
+                                                <div
+                                                    key={sequence.id}
+                                                    onClick={() => startEdit(sequence)}
+                                                    className="p-4 border border-gray-100 rounded-xl hover:border-gray-200 hover:shadow-sm transition-all cursor-pointer flex items-center gap-4"
+                                                >
+                                                    <div className="flex-1 min-w-0">
+                                                        <div className="flex items-center gap-2">
+                                                            <h3 className="text-sm font-bold text-gray-900 truncate">{sequence.name}</h3>
+                                                            {!sequence.is_active && (
+                                                                <span className="px-2 py-0.5 bg-gray-100 text-gray-500 text-[10px] font-bold uppercase rounded-md">Paused</span>
+                                                            )}
+                                                        </div>
+                                                        <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                                                            {stage ? (
+                                                                <span className="flex items-center gap-1.5">
+                                                                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: stage.color }}></span>
+                                                                    {stage.name}
+                                                                </span>
+                                                            ) : (
+                                                                <span className="text-amber-600">No stage</span>
+                                                            )}
+                                                            <span>·</span>
+                                                            <span>
+                                                                {sequence.steps.length} step{sequence.steps.length === 1 ? '' : 's'}
+                                                                {sequence.steps.length > 0 && ` (${sequence.steps.map(s => formatDelay(s.delayMinutes)).join(' → ')})`}
+                                                            </span>
+                                                        </div>
+                                                    </div>
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            handleDelete(sequence.id);
+                                                        }}
+                                                        className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                                    >
+                                                        <Trash2 size={14} />
+                                                    </button>
+                                                </div>
+                                            );
+                                        })
+                                    )}
+                                </div>
+                            ) : (
+                                <div className="space-y-5">
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1.5">Name</label>
+                                            <input
+                                                type="text"
+                                                value={draft.name}
+                                                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                                placeholder="e.g. Quote follow-up"
+                                                className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-black/5"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1.5">Start when a lead enters</label>
+                                            <select
+                                                value={draft.stage_id}
+                                                onChange={(e) => setDraft({ ...draft, stage_id: e.target.value })}
+                                                className="w-full bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-black/5"
+                                            >
+                                                <option value="">No stage (disabled)</option>
+                                                {stages.map(stage => (
+                                                    <option key={stage.id} value={stage.id}>{stage.name}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    </div>
+
+                                    <div>
+                                        <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-1.5">Stop when</label>
+                                        <div className="flex flex-wrap gap-4">
+                                            {(Object.keys(STOP_CONDITION_LABELS) as SequenceStopCondition[]).map(condition => (
+                                                <label key={condition} className="flex items-center gap-2 text-sm text-gray-700">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={draft.stop_conditions.includes(condition)}
+                                                        onChange={() => toggleStopCondition(condition)}
+                                                        className="rounded border-gray-300"
+                                                    />
+                                                    {STOP_CONDITION_LABELS[condition]}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={draft.is_active}
+                                            onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+                                            className="rounded border-gray-300"
+                                        />
+                                        Active
+                                    </label>
+
+                                    <div className="space-y-3">
+                                        <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider">Steps</label>
+                                        {draft.steps.map((step, index) => (
+                                            <div key={step.id} className="p-4 border border-gray-100 rounded-xl bg-gray-50/50 space-y-3">
+                                                <div className="flex items-center gap-2 text-sm">
+                                                    <span className="font-bold text-gray-900">Step {index + 1}</span>
+                                                    <span className="text-gray-500">after</span>
+                                                    <input
+                                                        type="number"
+                                                        min={1}
+                                                        value={step.delayValue}
+                                                        onChange={(e) => updateStep(index, { delayValue: Math.max(1, parseInt(e.target.value) || 1) })}
+                                                        className="w-20 bg-white border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-900"
+                                                    />
+                                                    <select
+                                                        value={step.delayUnit}
+                                                        onChange={(e) => updateStep(index, { delayUnit: e.target.value as DelayUnit })}
+                                                        className="bg-white border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-900"
+                                                    >
+                                                        <option value="minutes">minutes</option>
+                                                        <option value="hours">hours</option>
+                                                        <option value="days">days</option>
+                                                    </select>
+                                                    <select
+                                                        value={step.mode}
+                                                        onChange={(e) => updateStep(index, { mode: e.target.value as StepDraft['mode'] })}
+                                                        className="bg-white border border-gray-200 rounded-lg px-2 py-1 text-sm text-gray-900"
+                                                    >
+                                                        <option value="template">Template</option>
+                                                        <option value="ai">AI prompt</option>
+                                                    </select>
+                                                    <button
+                                                        onClick={() => setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) })}
+                                                        className="ml-auto p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                                    >
+                                                        <Trash2 size={14} />
+                                                    </button>
+                                                </div>
+                                                <textarea
+                                                    value={step.text}
+                                                    onChange={(e) => updateStep(index, { text: e.target.value })}
+                                                    rows={3}
+                                                    placeholder={step.mode === 'template'
+                                                        ? 'Hi {{lead.name}}, just checking in on your inquiry...'
+                                                        : 'Remind them about the quote we sent and ask if they have questions'}
+                                                    className="w-full bg-white border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-black/5"
+                                                />
+                                                <select
+                                                    value={step.mediaId}
+                                                    onChange={(e) => updateStep(index, { mediaId: e.target.value })}
+                                                    className="w-full bg-white border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900"
+                                                >
+                                                    <option value="">No media</option>
+                                                    {media.map(item => (
+                                                        <option key={item.id} value={item.id}>{item.title} ({item.media_type})</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        ))}
+                                        <button
+                                            onClick={() => setDraft({ ...draft, steps: [...draft.steps, emptyStep()] })}
+                                            className="w-full py-2.5 flex items-center justify-center gap-2 border border-dashed border-gray-300 hover:border-gray-400 rounded-xl text-sm text-gray-500 hover:text-gray-700 font-bold transition-all"
+                                        >
+                                            <Plus size={16} />
+                                            Add Step
+                                        </button>
+                                    </div>
+
+                                    {error && <p className="text-sm text-red-600">{error}</p>}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Footer */}
+                        <div className="px-6 py-4 border-t border-gray-100 flex justify-end gap-2">
+                            {draft ? (
+                                <>
+                                    <button
+                                        onClick={() => setDraft(null)}
+                                        className="px-4 py-2 text-sm font-bold text-gray-500 hover:text-gray-900 hover:bg-gray-50 rounded-lg transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        onClick={handleSave}
+                                        disabled={saving}
+                                        className="px-4 py-2 bg-black text-white text-sm font-bold rounded-lg hover:bg-gray-800 transition-colors shadow-sm disabled:opacity-50 flex items-center gap-2"
+                                    >
+                                        {saving && <Loader2 size={14} className="animate-spin" />}
+                                        Save Sequence
+                                    </button>
+                                </>
+                            ) : (
+                                <button
+                                    onClick={startNew}
+                                    className="px-4 py-2 bg-black text-white text-sm font-bold rounded-lg hover:bg-gray-800 transition-colors shadow-sm flex items-center gap-2"
+                                >
+                                    <Plus size={14} />
+                                    New Sequence
+                                </button>
+                            )}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
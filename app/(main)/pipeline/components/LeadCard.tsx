@@ -1,8 +1,9 @@
 'use client';
 
 import { useState } from 'react';
-import { MessageCircle, Clock, MoreHorizontal, Phone, Mail, Globe, GripVertical } from 'lucide-react';
+import { MessageCircle, Clock, MoreHorizontal, Phone, Mail, Globe, GripVertical, Repeat } from 'lucide-react';
 import { Draggable } from '@hello-pangea/dnd';
+import type { LeadSequenceStatus } from '@/app/lib/followUpSequenceService';
 
 interface Lead {
     id: string;
@@ -13,6 +14,8 @@ interface Lead {
     last_message_at: string | null;
     ai_classification_reason: string | null;
     profile_pic: string | null;
+    tags?: string[] | null;
+    sequence?: LeadSequenceStatus | null;
 }
 
 interface LeadCardProps {
@@ -38,6 +41,16 @@ function formatTimeAgo(dateString: string | null): string {
     return `${diffDays}d`;
 }
 
+function formatTimeUntil(dateString: string | null): string {
+    if (!dateString) return 'soon';
+    const diffMins = Math.ceil((new Date(dateString).getTime() - Date.now()) / 60000);
+    if (diffMins <= 1) return 'now';
+    if (diffMins < 60) return `in ${diffMins}m`;
+    const diffHours = Math.round(diffMins / 60);
+    if (diffHours < 24) return `in ${diffHours}h`;
+    return `in ${Math.round(diffHours / 24)}d`;
+}
+
 // Generate a consistent random color from a string
 function stringToColor(str: string) {
     let hash = 0;
@@ -61,6 +74,11 @@ export default function LeadCard({ lead, index, onMoveClick, moveMenuOpen, onCli
             tags.push({ label: 'Active', color: 'bg-green-100 text-green-700' });
         }
 
+        // Tags applied by workflows
+        for (const tag of lead.tags || []) {
+            tags.push({ label: tag, color: 'bg-emerald-100 text-emerald-700' });
+        }
+
         return tags;
     };
 
@@ -154,6 +172,16 @@ export default function LeadCard({ lead, index, onMoveClick, moveMenuOpen, onCli
                         </div>
                     )}
 
+                    {/* Follow-up sequence progress */}
+                    {lead.sequence && (
+                        <div className="mb-3 px-3 py-2 bg-indigo-50 rounded-lg border border-indigo-100 flex items-center gap-2 text-xs text-indigo-700">
+                            <Repeat size={12} className="shrink-0" />
+                            <span className="font-semibold truncate">{lead.sequence.sequenceName}</span>
+                            <span className="shrink-0">step {lead.sequence.step}/{lead.sequence.totalSteps}</span>
+                            <span className="ml-auto shrink-0 text-indigo-500">next {formatTimeUntil(lead.sequence.nextStepAt)}</span>
+                        </div>
+                    )}
+
                     {/* Footer: Date, Messages, Actions */}
                     <div className="flex items-center justify-between pt-2 border-t border-gray-50">
                         <div className="flex items-center gap-3 text-gray-400">
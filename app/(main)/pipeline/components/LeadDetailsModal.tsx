@@ -5,6 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { X, Calendar, ShoppingCart, Activity, Phone, Mail, MessageCircle, Clock, CheckCircle, AlertCircle, User, CreditCard, ShoppingBag, FileText, Brain, Bot, UserX, Play, Home, Package, Smartphone, Send, Loader2 } from 'lucide-react';
 import MemoryTab from './MemoryTab';
 import ResponseFeedback from '@/app/components/ResponseFeedback';
+import type { MessagingWindow } from '@/app/lib/messagingPolicyService';
 
 interface LeadDetailsModalProps {
     isOpen: boolean;
@@ -30,6 +31,32 @@ export default function LeadDetailsModal({ isOpen, onClose, leadId, initialLeadD
     const [takeoverActive, setTakeoverActive] = useState(false);
     const [takeoverLoading, setTakeoverLoading] = useState(false);
     const [cardSending, setCardSending] = useState<string | null>(null); // Track which card type is being sent
+    const [messagingWindow, setMessagingWindow] = useState<MessagingWindow | null>(null);
+    const [requestingOptIn, setRequestingOptIn] = useState(false);
+
+    // Ask the lead for a one-time notification so we can message once after the window closes
+    const handleRequestOptIn = async () => {
+        if (!data?.lead?.sender_id) return;
+        const title = prompt('What should we notify them about? (shown to the customer)', 'Get notified when we have an update for you');
+        if (!title?.trim()) return;
+
+        setRequestingOptIn(true);
+        try {
+            const res = await fetch('/api/leads/messaging-window', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ senderId: data.lead.sender_id, title }),
+            });
+            const result = await res.json();
+            if (!res.ok) {
+                alert(result.error || 'Failed to send the request');
+            }
+        } catch (error) {
+            console.error('Failed to request opt-in:', error);
+        } finally {
+            setRequestingOptIn(false);
+        }
+    };
 
     // Start human takeover - pauses the bot for this lead
     const handleStartTakeover = async () => {
@@ -103,6 +130,7 @@ export default function LeadDetailsModal({ isOpen, onClose, leadId, initialLeadD
             fetchDetails();
         } else {
             setData(null);
+            setMessagingWindow(null);
         }
     }, [isOpen, leadId]);
 
@@ -129,6 +157,9 @@ export default function LeadDetailsModal({ isOpen, onClose, leadId, initialLeadD
                         const takeoverData = await takeoverRes.json();
                         setTakeoverActive(takeoverData.active || false);
                     }
+
+                    const windowRes = await fetch(`/api/leads/messaging-window?senderId=${details.lead.sender_id}`);
+                    setMessagingWindow(windowRes.ok ? await windowRes.json() : null);
                 }
 
                 // Auto-switch tab based on content priority
@@ -255,6 +286,46 @@ export default function LeadDetailsModal({ isOpen, onClose, leadId, initialLeadD
                                             </p>
                                         )}
                                     </div>
+
+                                    {/* Messenger Messaging Window */}
+                                    {messagingWindow && (
+                                        <div className={`w-full mt-3 p-3 rounded-xl border text-left text-xs ${messagingWindow.state === 'open'
+                                            ? 'bg-emerald-50 border-emerald-100 text-emerald-800'
+                                            : messagingWindow.state === 'human_agent'
+                                                ? 'bg-amber-50 border-amber-100 text-amber-800'
+                                                : 'bg-red-50 border-red-100 text-red-800'
+                                            }`}>
+                                            <div className="flex items-center gap-2 font-semibold">
+                                                <Clock size={14} />
+                                                {messagingWindow.state === 'open'
+                                                    ? 'Messaging window open'
+                                                    : messagingWindow.state === 'human_agent'
+                                                        ? 'Only agent replies allowed'
+                                                        : 'Messaging window closed'}
+                                            </div>
+                                            <p className="mt-1 opacity-80">
+                                                {messagingWindow.state === 'open' && messagingWindow.closesAt
+                                                    ? `Bot and follow-ups can message until ${new Date(messagingWindow.closesAt).toLocaleString()}`
+                                                    : messagingWindow.state === 'human_agent' && messagingWindow.humanAgentClosesAt
+                                                        ? `Agents can reply until ${new Date(messagingWindow.humanAgentClosesAt).toLocaleString()}`
+                                                        : 'Only booking and order updates can be sent until the customer writes again'}
+                                            </p>
+                                            {messagingWindow.oneTimeNotifications > 0 && (
+                                                <p className="mt-1 opacity-80">
+                                                    {messagingWindow.oneTimeNotifications} one-time notification{messagingWindow.oneTimeNotifications === 1 ? '' : 's'} available
+                                                </p>
+                                            )}
+                                            {messagingWindow.state === 'open' && (
+                                                <button
+                                                    onClick={handleRequestOptIn}
+                                                    disabled={requestingOptIn}
+                                                    className="mt-2 font-semibold underline disabled:opacity-50"
+                                                >
+                                                    {requestingOptIn ? 'Sending...' : 'Ask to notify them later'}
+                                                </button>
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
 
                                 {/* Details List */}
@@ -1,11 +1,12 @@
 'use client';
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Plus, Settings2, RefreshCw, Filter, Search, LayoutTemplate, List, Kanban } from 'lucide-react';
+import { Plus, Settings2, RefreshCw, Filter, Search, LayoutTemplate, List, Kanban, Repeat } from 'lucide-react';
 import { DragDropContext, DropResult } from '@hello-pangea/dnd';
 import StageColumn from './StageColumn';
 import ListView from './ListView';
 import LeadDetailsModal from './LeadDetailsModal';
+import FollowUpSequencesModal from './FollowUpSequencesModal';
 
 interface Lead {
     id: string;
@@ -44,6 +45,7 @@ export default function PipelineClient({ initialStages }: PipelineClientProps) {
     const [filterStageId, setFilterStageId] = useState<string | 'all'>('all');
 
     const [isFilterOpen, setIsFilterOpen] = useState(false);
+    const [isSequencesOpen, setIsSequencesOpen] = useState(false);
 
     // Modal State
     const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
@@ -233,6 +235,14 @@ export default function PipelineClient({ initialStages }: PipelineClientProps) {
                             )}
                         </div>
 
+                        <button
+                            onClick={() => setIsSequencesOpen(true)}
+                            className="flex items-center gap-2 px-3 py-2 text-sm font-bold text-gray-700 hover:text-gray-900 bg-white border border-gray-200 hover:bg-gray-50 rounded-lg transition-colors shadow-sm"
+                        >
+                            <Repeat size={16} />
+                            Sequences
+                        </button>
+
                         {/* Removed "New Lead" Button as per instruction */}
                     </div>
                 </div>
@@ -332,6 +342,13 @@ export default function PipelineClient({ initialStages }: PipelineClientProps) {
                 leadId={selectedLead?.id || null}
                 initialLeadData={selectedLead}
             />
+
+            {/* Follow-up Sequences */}
+            <FollowUpSequencesModal
+                isOpen={isSequencesOpen}
+                onClose={() => setIsSequencesOpen(false)}
+                stages={stages}
+            />
         </div>
     );
 }
@@ -1,4 +1,5 @@
 import { createClient } from '@/app/lib/supabaseServer';
+import { getActiveSequenceStatuses, type LeadSequenceStatus } from '@/app/lib/followUpSequenceService';
 import PipelineClient from './components/PipelineClient';
 
 // Force dynamic rendering for fresh data on each request
@@ -15,6 +16,7 @@ interface Lead {
     ai_classification_reason: string | null;
     profile_pic: string | null;
     current_stage_id: string | null;
+    sequence?: LeadSequenceStatus | null;
 }
 
 interface Stage {
@@ -60,9 +62,14 @@ async function getPipelineData(): Promise<{ stages: Stage[] }> {
         return { stages: stages?.map(s => ({ ...s, leads: [] })) || [] };
     }
 
+    // Follow-up sequence position shown on each lead card
+    const sequenceStatuses = await getActiveSequenceStatuses(userId);
+
     const stagesWithLeads: Stage[] = stages?.map(stage => ({
         ...stage,
-        leads: leads?.filter(lead => lead.current_stage_id === stage.id) || [],
+        leads: leads
+            ?.filter(lead => lead.current_stage_id === stage.id)
+            .map(lead => ({ ...lead, sequence: sequenceStatuses[lead.id] || null })) || [],
     })) || [];
 
     return { stages: stagesWithLeads };
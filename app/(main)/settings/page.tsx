@@ -5,6 +5,8 @@ import { ArrowLeft, Facebook, Trash2, CheckCircle, AlertCircle, Loader2, Calenda
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
 import PageSelector from '@/app/components/PageSelector';
+import WebhookSubscriptionsSection from '@/app/components/settings/WebhookSubscriptionsSection';
+import BlockedSendsSection from '@/app/components/settings/BlockedSendsSection';
 
 interface ConnectedPage {
     id: string;
@@ -295,6 +297,12 @@ function SettingsContent() {
                         )}
                     </div>
                 </div>
+
+                {/* Messaging Window Policy */}
+                <BlockedSendsSection />
+
+                {/* Outbound Webhooks */}
+                <WebhookSubscriptionsSection />
             </div>
 
             {/* Page Selector Modal */}
@@ -28,6 +28,9 @@ interface Product {
     category: ProductCategory | null;
     is_active: boolean;
     display_order: number;
+    stock_quantity: number | null;
+    low_stock_threshold: number;
+    weight_grams: number | null;
 }
 
 interface VariationType {
@@ -41,6 +44,7 @@ interface ProductVariation {
     variation_type?: VariationType;
     value: string;
     price: string;
+    stock: string;                 // '' = not tracked
     isNew?: boolean;
 }
 
@@ -53,6 +57,12 @@ interface ProductFormModalProps {
     setFormDescription: (desc: string) => void;
     formPrice: string;
     setFormPrice: (price: string) => void;
+    formStock: string;
+    setFormStock: (stock: string) => void;
+    formLowStockThreshold: string;
+    setFormLowStockThreshold: (threshold: string) => void;
+    formWeight: string;
+    setFormWeight: (weight: string) => void;
     formImageUrl: string;
     setFormImageUrl: (url: string) => void;
     formCategoryId: string | null;
@@ -75,6 +85,12 @@ export default function ProductFormModal({
     setFormDescription,
     formPrice,
     setFormPrice,
+    formStock,
+    setFormStock,
+    formLowStockThreshold,
+    setFormLowStockThreshold,
+    formWeight,
+    setFormWeight,
     formImageUrl,
     formCategoryId,
     setFormCategoryId,
@@ -129,6 +145,7 @@ export default function ProductFormModal({
                     variation_type: v.variation_type,
                     value: v.value,
                     price: v.price.toString(),
+                    stock: v.stock_quantity === null || v.stock_quantity === undefined ? '' : v.stock_quantity.toString(),
                 })));
             }
         } catch (error) {
@@ -163,6 +180,7 @@ export default function ProductFormModal({
             variation_type: variationTypes[0],
             value: '',
             price: formPrice || '0',
+            stock: '',
             isNew: true,
         }]);
     };
@@ -306,11 +324,44 @@ export default function ProductFormModal({
                                         </label>
                                         <input
                                             type="number"
+                                            value={formStock}
+                                            onChange={(e) => setFormStock(e.target.value)}
+                                            placeholder="Not tracked"
+                                            step="1"
+                                            min="0"
+                                            className="w-full px-5 py-3.5 bg-gray-50 border-transparent focus:border-emerald-500 focus:bg-white focus:ring-0 rounded-xl transition-all text-gray-900 placeholder:text-gray-400 font-medium"
+                                        />
+                                        <p className="text-xs text-gray-400 mt-1.5">Leave empty to sell without limits</p>
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-semibold text-gray-700 mb-2">
+                                            Low Stock Alert
+                                        </label>
+                                        <input
+                                            type="number"
+                                            value={formLowStockThreshold}
+                                            onChange={(e) => setFormLowStockThreshold(e.target.value)}
+                                            placeholder="5"
+                                            step="1"
+                                            min="0"
+                                            className="w-full px-5 py-3.5 bg-gray-50 border-transparent focus:border-emerald-500 focus:bg-white focus:ring-0 rounded-xl transition-all text-gray-900 placeholder:text-gray-400 font-medium"
+                                        />
+                                        <p className="text-xs text-gray-400 mt-1.5">Flag on the dashboard at or below this many left</p>
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-semibold text-gray-700 mb-2">
+                                            Weight (grams)
+                                        </label>
+                                        <input
+                                            type="number"
+                                            value={formWeight}
+                                            onChange={(e) => setFormWeight(e.target.value)}
                                             placeholder="0"
-                                            disabled
-                                            className="w-full px-5 py-3.5 bg-gray-50 border-transparent rounded-xl text-gray-400 cursor-not-allowed"
-                                            title="Stock tracking coming soon"
+                                            step="1"
+                                            min="0"
+                                            className="w-full px-5 py-3.5 bg-gray-50 border-transparent focus:border-emerald-500 focus:bg-white focus:ring-0 rounded-xl transition-all text-gray-900 placeholder:text-gray-400 font-medium"
                                         />
+                                        <p className="text-xs text-gray-400 mt-1.5">Per item, for weight-based shipping rates</p>
                                     </div>
                                 </div>
                             </section>
@@ -434,6 +485,20 @@ export default function ProductFormModal({
                                                     />
                                                 </div>
 
+                                                {/* Stock */}
+                                                <div className="w-28">
+                                                    <label className="block text-xs text-gray-500 mb-1">Stock</label>
+                                                    <input
+                                                        type="number"
+                                                        value={variation.stock}
+                                                        onChange={(e) => handleUpdateVariation(index, 'stock', e.target.value)}
+                                                        placeholder="No limit"
+                                                        step="1"
+                                                        min="0"
+                                                        className="w-full px-3 py-2 text-black bg-white border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                                                    />
+                                                </div>
+
                                                 {/* Delete */}
                                                 <button
                                                     onClick={() => handleRemoveVariation(index)}
@@ -0,0 +1,488 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Plus, Loader2, Trash2, Tag, Gift, X, Pencil } from 'lucide-react';
+import type { DiscountCode, Promotion, DiscountType, PromotionType, BuyXGetYConfig, TieredConfig } from '@/app/lib/promotionService';
+
+interface ScopeOption {
+    id: string;
+    name: string;
+}
+
+interface PromotionsPanelProps {
+    products: ScopeOption[];
+    categories: ScopeOption[];
+}
+
+interface CodeForm {
+    id?: string;
+    code: string;
+    description: string;
+    discountType: DiscountType;
+    value: string;
+    maxDiscount: string;
+    minSpend: string;
+    usageLimit: string;
+    perCustomerLimit: string;
+    productIds: string[];
+    categoryIds: string[];
+    expiresAt: string;
+    isPublic: boolean;
+}
+
+interface PromoForm {
+    id?: string;
+    name: string;
+    description: string;
+    promoType: PromotionType;
+    buyQuantity: string;
+    getQuantity: string;
+    percentOff: string;
+    tiers: { minSpend: string; percentOff: string }[];
+    productIds: string[];
+    categoryIds: string[];
+    expiresAt: string;
+}
+
+const EMPTY_CODE: CodeForm = {
+    code: '', description: '', discountType: 'percentage', value: '', maxDiscount: '', minSpend: '',
+    usageLimit: '', perCustomerLimit: '', productIds: [], categoryIds: [], expiresAt: '', isPublic: false,
+};
+
+const EMPTY_PROMO: PromoForm = {
+    name: '', description: '', promoType: 'buy_x_get_y', buyQuantity: '2', getQuantity: '1', percentOff: '100',
+    tiers: [{ minSpend: '', percentOff: '' }], productIds: [], categoryIds: [], expiresAt: '',
+};
+
+const inputClass = 'w-full px-3 py-2 text-black bg-white border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500';
+
+function describeCode(code: DiscountCode): string {
+    if (code.discount_type === 'percentage') return `${Number(code.value)}% off`;
+    if (code.discount_type === 'fixed') return `₱${Number(code.value).toLocaleString()} off`;
+    return 'Free shipping';
+}
+
+function describePromotion(promotion: Promotion): string {
+    if (promotion.promo_type === 'buy_x_get_y') {
+        const config = promotion.config as BuyXGetYConfig;
+        return `Buy ${config.buyQuantity}, get ${config.getQuantity} ${config.percentOff >= 100 ? 'free' : `${config.percentOff}% off`}`;
+    }
+    return (promotion.config as TieredConfig).tiers
+        .map(t => `${t.percentOff}% at ₱${t.minSpend.toLocaleString()}`)
+        .join(' · ');
+}
+
+function toDateInput(value: string | null): string {
+    return value ? value.slice(0, 10) : '';
+}
+
+function ScopePicker({ label, options, selected, onChange }: {
+    label: string;
+    options: ScopeOption[];
+    selected: string[];
+    onChange: (ids: string[]) => void;
+}) {
+    if (options.length === 0) return null;
+    return (
+        <div>
+            <label className="block text-xs text-gray-500 mb-1">{label}</label>
+            <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto">
+                {options.map(option => {
+                    const active = selected.includes(option.id);
+                    return (
+                        <button
+                            key={option.id}
+                            type="button"
+                            onClick={() => onChange(active ? selected.filter(id => id !== option.id) : [...selected, option.id])}
+                            className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${active ? 'bg-emerald-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                        >
+                            {option.name}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
+export default function PromotionsPanel({ products, categories }: PromotionsPanelProps) {
+    const [codes, setCodes] = useState<DiscountCode[]>([]);
+    const [promotions, setPromotions] = useState<Promotion[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [codeForm, setCodeForm] = useState<CodeForm | null>(null);
+    const [promoForm, setPromoForm] = useState<PromoForm | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchAll();
+    }, []);
+
+    const fetchAll = async () => {
+        try {
+            const [codesRes, promosRes] = await Promise.all([
+                fetch('/api/discount-codes'),
+                fetch('/api/promotions'),
+            ]);
+            if (codesRes.ok) setCodes((await codesRes.json()).codes || []);
+            if (promosRes.ok) setPromotions((await promosRes.json()).promotions || []);
+        } catch (error) {
+            console.error('Failed to fetch promotions:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const save = async (url: string, method: string, body: unknown, onDone: () => void) => {
+        setSaving(true);
+        setFormError(null);
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            if (res.ok) {
+                onDone();
+                await fetchAll();
+            } else {
+                const data = await res.json();
+                setFormError(data.error || 'Failed to save');
+            }
+        } catch (error) {
+            console.error('Failed to save promotion:', error);
+            setFormError('Failed to save');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSaveCode = () => {
+        if (!codeForm) return;
+        save(codeForm.id ? `/api/discount-codes/${codeForm.id}` : '/api/discount-codes', codeForm.id ? 'PATCH' : 'POST', {
+            code: codeForm.code,
+            description: codeForm.description,
+            discountType: codeForm.discountType,
+            value: codeForm.value,
+            maxDiscount: codeForm.maxDiscount,
+            minSpend: codeForm.minSpend,
+            usageLimit: codeForm.usageLimit,
+            perCustomerLimit: codeForm.perCustomerLimit,
+            productIds: codeForm.productIds,
+            categoryIds: codeForm.categoryIds,
+            expiresAt: codeForm.expiresAt ? new Date(`${codeForm.expiresAt}T23:59:59`).toISOString() : null,
+            isPublic: codeForm.isPublic,
+        }, () => setCodeForm(null));
+    };
+
+    const handleSavePromotion = () => {
+        if (!promoForm) return;
+        const config = promoForm.promoType === 'buy_x_get_y'
+            ? { buyQuantity: promoForm.buyQuantity, getQuantity: promoForm.getQuantity, percentOff: promoForm.percentOff }
+            : { tiers: promoForm.tiers };
+        save(promoForm.id ? `/api/promotions/${promoForm.id}` : '/api/promotions', promoForm.id ? 'PATCH' : 'POST', {
+            name: promoForm.name,
+            description: promoForm.description,
+            promoType: promoForm.promoType,
+            config,
+            productIds: promoForm.productIds,
+            categoryIds: promoForm.categoryIds,
+            expiresAt: promoForm.expiresAt ? new Date(`${promoForm.expiresAt}T23:59:59`).toISOString() : null,
+        }, () => setPromoForm(null));
+    };
+
+    const handleToggle = async (url: string, isActive: boolean) => {
+        await fetch(url, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ isActive }),
+        });
+        await fetchAll();
+    };
+
+    const handleDelete = async (url: string, name: string) => {
+        if (!confirm(`Delete "${name}"?`)) return;
+        await fetch(url, { method: 'DELETE' });
+        await fetchAll();
+    };
+
+    const editCode = (code: DiscountCode) => {
+        setFormError(null);
+        setCodeForm({
+            id: code.id,
+            code: code.code,
+            description: code.description || '',
+            discountType: code.discount_type,
+            value: String(code.value ?? ''),
+            maxDiscount: code.max_discount?.toString() ?? '',
+            minSpend: Number(code.min_spend) ? String(code.min_spend) : '',
+            usageLimit: code.usage_limit?.toString() ?? '',
+            perCustomerLimit: code.per_customer_limit?.toString() ?? '',
+            productIds: code.product_ids || [],
+            categoryIds: code.category_ids || [],
+            expiresAt: toDateInput(code.expires_at),
+            isPublic: code.is_public,
+        });
+    };
+
+    const editPromotion = (promotion: Promotion) => {
+        setFormError(null);
+        const buyConfig = promotion.config as BuyXGetYConfig;
+        const tieredConfig = promotion.config as TieredConfig;
+        setPromoForm({
+            id: promotion.id,
+            name: promotion.name,
+            description: promotion.description || '',
+            promoType: promotion.promo_type,
+            buyQuantity: String(buyConfig.buyQuantity ?? 2),
+            getQuantity: String(buyConfig.getQuantity ?? 1),
+            percentOff: String(buyConfig.percentOff ?? 100),
+            tiers: promotion.promo_type === 'tiered'
+                ? tieredConfig.tiers.map(t => ({ minSpend: String(t.minSpend), percentOff: String(t.percentOff) }))
+                : [{ minSpend: '', percentOff: '' }],
+            productIds: promotion.product_ids || [],
+            categoryIds: promotion.category_ids || [],
+            expiresAt: toDateInput(promotion.expires_at),
+        });
+    };
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-20">
+                <Loader2 className="animate-spin text-teal-500" size={32} />
+            </div>
+        );
+    }
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Discount Codes */}
+            <section className="bg-white rounded-3xl p-6 border border-gray-100 shadow-sm">
+                <div className="flex items-center justify-between mb-4">
+                    <div>
+                        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2"><Tag size={18} className="text-emerald-500" /> Discount Codes</h3>
+                        <p className="text-sm text-gray-500">Customers enter these at checkout</p>
+                    </div>
+                    <button
+                        onClick={() => { setFormError(null); setCodeForm({ ...EMPTY_CODE }); }}
+                        className="flex items-center gap-1.5 px-4 py-2 bg-emerald-50 text-emerald-600 rounded-xl font-semibold hover:bg-emerald-100 transition-colors text-sm"
+                    >
+                        <Plus size={16} /> New Code
+                    </button>
+                </div>
+
+                {codeForm && (
+                    <div className="mb-4 p-4 bg-gray-50 rounded-2xl space-y-3">
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Code</label>
+                                <input className={`${inputClass} uppercase`} value={codeForm.code} placeholder="SALE10"
+                                    onChange={e => setCodeForm({ ...codeForm, code: e.target.value.toUpperCase() })} />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Type</label>
+                                <select className={inputClass} value={codeForm.discountType}
+                                    onChange={e => setCodeForm({ ...codeForm, discountType: e.target.value as DiscountType })}>
+                                    <option value="percentage">Percentage off</option>
+                                    <option value="fixed">Fixed amount off</option>
+                                    <option value="free_shipping">Free shipping</option>
+                                </select>
+                            </div>
+                            {codeForm.discountType !== 'free_shipping' && (
+                                <div>
+                                    <label className="block text-xs text-gray-500 mb-1">{codeForm.discountType === 'percentage' ? 'Percent off' : 'Amount off (₱)'}</label>
+                                    <input type="number" min="0" className={inputClass} value={codeForm.value}
+                                        onChange={e => setCodeForm({ ...codeForm, value: e.target.value })} />
+                                </div>
+                            )}
+                            {codeForm.discountType === 'percentage' && (
+                                <div>
+                                    <label className="block text-xs text-gray-500 mb-1">Max discount (₱)</label>
+                                    <input type="number" min="0" className={inputClass} value={codeForm.maxDiscount} placeholder="No cap"
+                                        onChange={e => setCodeForm({ ...codeForm, maxDiscount: e.target.value })} />
+                                </div>
+                            )}
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Minimum spend (₱)</label>
+                                <input type="number" min="0" className={inputClass} value={codeForm.minSpend} placeholder="None"
+                                    onChange={e => setCodeForm({ ...codeForm, minSpend: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Expires</label>
+                                <input type="date" className={inputClass} value={codeForm.expiresAt}
+                                    onChange={e => setCodeForm({ ...codeForm, expiresAt: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Total uses</label>
+                                <input type="number" min="1" className={inputClass} value={codeForm.usageLimit} placeholder="Unlimited"
+                                    onChange={e => setCodeForm({ ...codeForm, usageLimit: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Uses per customer</label>
+                                <input type="number" min="1" className={inputClass} value={codeForm.perCustomerLimit} placeholder="Unlimited"
+                                    onChange={e => setCodeForm({ ...codeForm, perCustomerLimit: e.target.value })} />
+                            </div>
+                        </div>
+                        <ScopePicker label="Only these products (none = all)" options={products} selected={codeForm.productIds}
+                            onChange={ids => setCodeForm({ ...codeForm, productIds: ids })} />
+                        <ScopePicker label="Or these categories" options={categories} selected={codeForm.categoryIds}
+                            onChange={ids => setCodeForm({ ...codeForm, categoryIds: ids })} />
+                        <label className="flex items-center gap-2 text-sm text-gray-600">
+                            <input type="checkbox" checked={codeForm.isPublic}
+                                onChange={e => setCodeForm({ ...codeForm, isPublic: e.target.checked })} />
+                            Let the bot tell customers about this code
+                        </label>
+                        {formError && <p className="text-xs text-red-600">{formError}</p>}
+                        <div className="flex justify-end gap-2">
+                            <button onClick={() => setCodeForm(null)} className="px-4 py-2 text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+                            <button onClick={handleSaveCode} disabled={saving}
+                                className="flex items-center gap-2 px-4 py-2 bg-emerald-500 text-white rounded-lg text-sm font-medium hover:bg-emerald-600 disabled:opacity-50">
+                                {saving && <Loader2 size={14} className="animate-spin" />} Save Code
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {codes.length === 0 ? (
+                    <p className="text-center py-8 text-sm text-gray-400">No discount codes yet</p>
+                ) : (
+                    <div className="space-y-2">
+                        {codes.map(code => (
+                            <div key={code.id} className={`flex items-center gap-3 p-3 rounded-xl bg-gray-50 ${!code.is_active ? 'opacity-60' : ''}`}>
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-semibold text-gray-900 text-sm">{code.code} <span className="font-normal text-gray-500">· {describeCode(code)}</span></p>
+                                    <p className="text-xs text-gray-500">
+                                        Used {code.times_used}{code.usage_limit !== null ? `/${code.usage_limit}` : ''}
+                                        {Number(code.min_spend) > 0 && ` · min ₱${Number(code.min_spend).toLocaleString()}`}
+                                        {code.expires_at && ` · until ${new Date(code.expires_at).toLocaleDateString()}`}
+                                    </p>
+                                </div>
+                                <button onClick={() => handleToggle(`/api/discount-codes/${code.id}`, !code.is_active)}
+                                    className="text-xs font-medium text-gray-500 hover:text-gray-900">{code.is_active ? 'Pause' : 'Resume'}</button>
+                                <button onClick={() => editCode(code)} className="p-1.5 text-gray-400 hover:text-gray-700"><Pencil size={14} /></button>
+                                <button onClick={() => handleDelete(`/api/discount-codes/${code.id}`, code.code)} className="p-1.5 text-gray-400 hover:text-red-500"><Trash2 size={14} /></button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </section>
+
+            {/* Automatic Promotions */}
+            <section className="bg-white rounded-3xl p-6 border border-gray-100 shadow-sm">
+                <div className="flex items-center justify-between mb-4">
+                    <div>
+                        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2"><Gift size={18} className="text-emerald-500" /> Automatic Promotions</h3>
+                        <p className="text-sm text-gray-500">Applied to every eligible cart</p>
+                    </div>
+                    <button
+                        onClick={() => { setFormError(null); setPromoForm({ ...EMPTY_PROMO, tiers: [{ minSpend: '', percentOff: '' }] }); }}
+                        className="flex items-center gap-1.5 px-4 py-2 bg-emerald-50 text-emerald-600 rounded-xl font-semibold hover:bg-emerald-100 transition-colors text-sm"
+                    >
+                        <Plus size={16} /> New Promotion
+                    </button>
+                </div>
+
+                {promoForm && (
+                    <div className="mb-4 p-4 bg-gray-50 rounded-2xl space-y-3">
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Name</label>
+                                <input className={inputClass} value={promoForm.name} placeholder="Buy 2 Get 1"
+                                    onChange={e => setPromoForm({ ...promoForm, name: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Type</label>
+                                <select className={inputClass} value={promoForm.promoType}
+                                    onChange={e => setPromoForm({ ...promoForm, promoType: e.target.value as PromotionType })}>
+                                    <option value="buy_x_get_y">Buy X get Y</option>
+                                    <option value="tiered">Tiered discount</option>
+                                </select>
+                            </div>
+                        </div>
+
+                        {promoForm.promoType === 'buy_x_get_y' ? (
+                            <div className="grid grid-cols-3 gap-3">
+                                <div>
+                                    <label className="block text-xs text-gray-500 mb-1">Buy</label>
+                                    <input type="number" min="1" className={inputClass} value={promoForm.buyQuantity}
+                                        onChange={e => setPromoForm({ ...promoForm, buyQuantity: e.target.value })} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-gray-500 mb-1">Get</label>
+                                    <input type="number" min="1" className={inputClass} value={promoForm.getQuantity}
+                                        onChange={e => setPromoForm({ ...promoForm, getQuantity: e.target.value })} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-gray-500 mb-1">% off (100 = free)</label>
+                                    <input type="number" min="1" max="100" className={inputClass} value={promoForm.percentOff}
+                                        onChange={e => setPromoForm({ ...promoForm, percentOff: e.target.value })} />
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="space-y-2">
+                                {promoForm.tiers.map((tier, index) => (
+                                    <div key={index} className="flex items-end gap-2">
+                                        <div className="flex-1">
+                                            <label className="block text-xs text-gray-500 mb-1">Spend at least (₱)</label>
+                                            <input type="number" min="0" className={inputClass} value={tier.minSpend}
+                                                onChange={e => setPromoForm({ ...promoForm, tiers: promoForm.tiers.map((t, i) => i === index ? { ...t, minSpend: e.target.value } : t) })} />
+                                        </div>
+                                        <div className="flex-1">
+                                            <label className="block text-xs text-gray-500 mb-1">% off</label>
+                                            <input type="number" min="1" max="100" className={inputClass} value={tier.percentOff}
+                                                onChange={e => setPromoForm({ ...promoForm, tiers: promoForm.tiers.map((t, i) => i === index ? { ...t, percentOff: e.target.value } : t) })} />
+                                        </div>
+                                        <button type="button" onClick={() => setPromoForm({ ...promoForm, tiers: promoForm.tiers.filter((_, i) => i !== index) })}
+                                            className="p-2 text-gray-400 hover:text-red-500"><X size={16} /></button>
+                                    </div>
+                                ))}
+                                <button type="button" onClick={() => setPromoForm({ ...promoForm, tiers: [...promoForm.tiers, { minSpend: '', percentOff: '' }] })}
+                                    className="text-xs font-medium text-emerald-600 hover:text-emerald-700">+ Add tier</button>
+                            </div>
+                        )}
+
+                        <div>
+                            <label className="block text-xs text-gray-500 mb-1">Ends</label>
+                            <input type="date" className={inputClass} value={promoForm.expiresAt}
+                                onChange={e => setPromoForm({ ...promoForm, expiresAt: e.target.value })} />
+                        </div>
+                        <ScopePicker label="Only these products (none = all)" options={products} selected={promoForm.productIds}
+                            onChange={ids => setPromoForm({ ...promoForm, productIds: ids })} />
+                        <ScopePicker label="Or these categories" options={categories} selected={promoForm.categoryIds}
+                            onChange={ids => setPromoForm({ ...promoForm, categoryIds: ids })} />
+                        {formError && <p className="text-xs text-red-600">{formError}</p>}
+                        <div className="flex justify-end gap-2">
+                            <button onClick={() => setPromoForm(null)} className="px-4 py-2 text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+                            <button onClick={handleSavePromotion} disabled={saving}
+                                className="flex items-center gap-2 px-4 py-2 bg-emerald-500 text-white rounded-lg text-sm font-medium hover:bg-emerald-600 disabled:opacity-50">
+                                {saving && <Loader2 size={14} className="animate-spin" />} Save Promotion
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {promotions.length === 0 ? (
+                    <p className="text-center py-8 text-sm text-gray-400">No automatic promotions yet</p>
+                ) : (
+                    <div className="space-y-2">
+                        {promotions.map(promotion => (
+                            <div key={promotion.id} className={`flex items-center gap-3 p-3 rounded-xl bg-gray-50 ${!promotion.is_active ? 'opacity-60' : ''}`}>
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-semibold text-gray-900 text-sm truncate">{promotion.name}</p>
+                                    <p className="text-xs text-gray-500">
+                                        {describePromotion(promotion)}
+                                        {promotion.expires_at && ` · until ${new Date(promotion.expires_at).toLocaleDateString()}`}
+                                    </p>
+                                </div>
+                                <button onClick={() => handleToggle(`/api/promotions/${promotion.id}`, !promotion.is_active)}
+                                    className="text-xs font-medium text-gray-500 hover:text-gray-900">{promotion.is_active ? 'Pause' : 'Resume'}</button>
+                                <button onClick={() => editPromotion(promotion)} className="p-1.5 text-gray-400 hover:text-gray-700"><Pencil size={14} /></button>
+                                <button onClick={() => handleDelete(`/api/promotions/${promotion.id}`, promotion.name)} className="p-1.5 text-gray-400 hover:text-red-500"><Trash2 size={14} /></button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </section>
+        </div>
+    );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Plus, Loader2, Trash2, Truck, Pencil } from 'lucide-react';
+import type { ShippingZone, ShippingRateType } from '@/app/lib/shippingService';
+
+interface ZoneForm {
+    id?: string;
+    name: string;
+    provinces: string;
+    cities: string;
+    rateType: ShippingRateType;
+    flatRate: string;
+    baseWeightGrams: string;
+    baseRate: string;
+    additionalRatePerKg: string;
+    freeShippingMinSpend: string;
+    codAvailable: boolean;
+}
+
+const EMPTY_ZONE: ZoneForm = {
+    name: '', provinces: '', cities: '', rateType: 'flat', flatRate: '', baseWeightGrams: '1000', baseRate: '',
+    additionalRatePerKg: '', freeShippingMinSpend: '', codAvailable: true,
+};
+
+const inputClass = 'w-full px-3 py-2 text-black bg-white border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500';
+
+function describeCoverage(zone: ShippingZone): string {
+    if (zone.cities.length > 0) return zone.cities.join(', ');
+    if (zone.provinces.length > 0) return zone.provinces.join(', ');
+    return 'Everywhere else';
+}
+
+function describeRate(zone: ShippingZone): string {
+    const rate = zone.rate_type === 'flat'
+        ? `₱${Number(zone.flat_rate).toLocaleString()} flat`
+        : `₱${Number(zone.base_rate).toLocaleString()} up to ${(zone.base_weight_grams / 1000).toLocaleString()}kg, +₱${Number(zone.additional_rate_per_kg).toLocaleString()}/kg`;
+    return zone.free_shipping_min_spend !== null
+        ? `${rate} · free from ₱${Number(zone.free_shipping_min_spend).toLocaleString()}`
+        : rate;
+}
+
+export default function ShippingZonesPanel() {
+    const [zones, setZones] = useState<ShippingZone[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [zoneForm, setZoneForm] = useState<ZoneForm | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchZones();
+    }, []);
+
+    const fetchZones = async () => {
+        try {
+            const res = await fetch('/api/shipping-zones');
+            if (res.ok) setZones((await res.json()).zones || []);
+        } catch (error) {
+            console.error('Failed to fetch shipping zones:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!zoneForm) return;
+        setSaving(true);
+        setFormError(null);
+        try {
+            const res = await fetch(zoneForm.id ? `/api/shipping-zones/${zoneForm.id}` : '/api/shipping-zones', {
+                method: zoneForm.id ? 'PATCH' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: zoneForm.name,
+                    provinces: zoneForm.provinces,
+                    cities: zoneForm.cities,
+                    rateType: zoneForm.rateType,
+                    flatRate: zoneForm.flatRate,
+                    baseWeightGrams: zoneForm.baseWeightGrams,
+                    baseRate: zoneForm.baseRate,
+                    additionalRatePerKg: zoneForm.additionalRatePerKg,
+                    freeShippingMinSpend: zoneForm.freeShippingMinSpend,
+                    codAvailable: zoneForm.codAvailable,
+                }),
+            });
+            if (res.ok) {
+                setZoneForm(null);
+                await fetchZones();
+            } else {
+                const data = await res.json();
+                setFormError(data.error || 'Failed to save');
+            }
+        } catch (error) {
+            console.error('Failed to save shipping zone:', error);
+            setFormError('Failed to save');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleToggle = async (zone: ShippingZone) => {
+        await fetch(`/api/shipping-zones/${zone.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ isActive: !zone.is_active }),
+        });
+        await fetchZones();
+    };
+
+    const handleDelete = async (zone: ShippingZone) => {
+        if (!confirm(`Delete "${zone.name}"?`)) return;
+        await fetch(`/api/shipping-zones/${zone.id}`, { method: 'DELETE' });
+        await fetchZones();
+    };
+
+    const editZone = (zone: ShippingZone) => {
+        setFormError(null);
+        setZoneForm({
+            id: zone.id,
+            name: zone.name,
+            provinces: zone.provinces.join(', '),
+            cities: zone.cities.join(', '),
+            rateType: zone.rate_type,
+            flatRate: String(zone.flat_rate ?? ''),
+            baseWeightGrams: String(zone.base_weight_grams ?? 1000),
+            baseRate: String(zone.base_rate ?? ''),
+            additionalRatePerKg: String(zone.additional_rate_per_kg ?? ''),
+            freeShippingMinSpend: zone.free_shipping_min_spend?.toString() ?? '',
+            codAvailable: zone.cod_available,
+        });
+    };
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-20">
+                <Loader2 className="animate-spin text-teal-500" size={32} />
+            </div>
+        );
+    }
+
+    return (
+        <section className="bg-white rounded-3xl p-6 border border-gray-100 shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2"><Truck size={18} className="text-emerald-500" /> Shipping Zones</h3>
+                    <p className="text-sm text-gray-500">
+                        Checkout charges the rate of the zone matching the customer&apos;s city, then province.
+                        {zones.length === 0 && ' Without zones, shipping is free and COD is offered everywhere.'}
+                    </p>
+                </div>
+                <button
+                    onClick={() => { setFormError(null); setZoneForm({ ...EMPTY_ZONE }); }}
+                    className="flex items-center gap-1.5 px-4 py-2 bg-emerald-50 text-emerald-600 rounded-xl font-semibold hover:bg-emerald-100 transition-colors text-sm"
+                >
+                    <Plus size={16} /> New Zone
+                </button>
+            </div>
+
+            {zoneForm && (
+                <div className="mb-4 p-4 bg-gray-50 rounded-2xl space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs text-gray-500 mb-1">Name</label>
+                            <input className={inputClass} value={zoneForm.name} placeholder="Metro Manila"
+                                onChange={e => setZoneForm({ ...zoneForm, name: e.target.value })} />
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-500 mb-1">Rate</label>
+                            <select className={inputClass} value={zoneForm.rateType}
+                                onChange={e => setZoneForm({ ...zoneForm, rateType: e.target.value as ShippingRateType })}>
+                                <option value="flat">Flat rate</option>
+                                <option value="weight">By weight</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-500 mb-1">Provinces (comma separated)</label>
+                            <input className={inputClass} value={zoneForm.provinces} placeholder="Cavite, Laguna"
+                                onChange={e => setZoneForm({ ...zoneForm, provinces: e.target.value })} />
+                        </div>
+                        <div>
+                            <label className="block text-xs text-gray-500 mb-1">Cities (comma separated)</label>
+                            <input className={inputClass} value={zoneForm.cities} placeholder="Makati, Taguig"
+                                onChange={e => setZoneForm({ ...zoneForm, cities: e.target.value })} />
+                        </div>
+
+                        {zoneForm.rateType === 'flat' ? (
+                            <div>
+                                <label className="block text-xs text-gray-500 mb-1">Fee (₱)</label>
+                                <input type="number" min="0" className={inputClass} value={zoneForm.flatRate}
+                                    onChange={e => setZoneForm({ ...zoneForm, flatRate: e.target.value })} />
+                            </div>
+                        ) : (
+                            <>
+                                <div>
+                                    <label className="block text-xs text-gray-500 mb-1">Base fee (₱)</label>
+                                    <input type="number" min="0" className={inputClass} value={zoneForm.baseRate}
+                                        onChange={e => setZoneForm({ ...zoneForm, baseRate: e.target.value })} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-gray-500 mb-1">Covers up to (grams)</label>
+                                    <input type="number" min="0" className={inputClass} value={zoneForm.baseWeightGrams}
+                                        onChange={e => setZoneForm({ ...zoneForm, baseWeightGrams: e.target.value })} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs text-gray-500 mb-1">Each extra kg (₱)</label>
+                                    <input type="number" min="0" className={inputClass} value={zoneForm.additionalRatePerKg}
+                                        onChange={e => setZoneForm({ ...zoneForm, additionalRatePerKg: e.target.value })} />
+                                </div>
+                            </>
+                        )}
+                        <div>
+                            <label className="block text-xs text-gray-500 mb-1">Free shipping from (₱)</label>
+                            <input type="number" min="0" className={inputClass} value={zoneForm.freeShippingMinSpend} placeholder="Never"
+                                onChange={e => setZoneForm({ ...zoneForm, freeShippingMinSpend: e.target.value })} />
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-400">Leave provinces and cities empty for a zone covering everywhere else.</p>
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                        <input type="checkbox" checked={zoneForm.codAvailable}
+                            onChange={e => setZoneForm({ ...zoneForm, codAvailable: e.target.checked })} />
+                        Offer cash on delivery in this zone
+                    </label>
+                    {formError && <p className="text-xs text-red-600">{formError}</p>}
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setZoneForm(null)} className="px-4 py-2 text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+                        <button onClick={handleSave} disabled={saving}
+                            className="flex items-center gap-2 px-4 py-2 bg-emerald-500 text-white rounded-lg text-sm font-medium hover:bg-emerald-600 disabled:opacity-50">
+                            {saving && <Loader2 size={14} className="animate-spin" />} Save Zone
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {zones.length === 0 ? (
+                <p className="text-center py-8 text-sm text-gray-400">No shipping zones yet</p>
+            ) : (
+                <div className="space-y-2">
+                    {zones.map(zone => (
+                        <div key={zone.id} className={`flex items-center gap-3 p-3 rounded-xl bg-gray-50 ${!zone.is_active ? 'opacity-60' : ''}`}>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-semibold text-gray-900 text-sm truncate">
+                                    {zone.name} <span className="font-normal text-gray-500">· {describeCoverage(zone)}</span>
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                    {describeRate(zone)}
+                                    {zone.cod_available ? ' · COD' : ' · No COD'}
+                                </p>
+                            </div>
+                            <button onClick={() => handleToggle(zone)}
+                                className="text-xs font-medium text-gray-500 hover:text-gray-900">{zone.is_active ? 'Pause' : 'Resume'}</button>
+                            <button onClick={() => editZone(zone)} className="p-1.5 text-gray-400 hover:text-gray-700"><Pencil size={14} /></button>
+                            <button onClick={() => handleDelete(zone)} className="p-1.5 text-gray-400 hover:text-red-500"><Trash2 size={14} /></button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </section>
+    );
+}
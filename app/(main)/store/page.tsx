@@ -21,9 +21,13 @@ import {
     Maximize,
     BookOpen,
     Film,
-    ExternalLink
+    ExternalLink,
+    Tag,
+    Truck
 } from 'lucide-react';
 import Link from 'next/link';
+import PromotionsPanel from './PromotionsPanel';
+import ShippingZonesPanel from './ShippingZonesPanel';
 
 // Lazy load modal components for code splitting
 const ProductFormModal = lazy(() => import('./ProductFormModal'));
@@ -50,6 +54,9 @@ interface Product {
     category: ProductCategory | null;
     is_active: boolean;
     display_order: number;
+    stock_quantity: number | null;
+    low_stock_threshold: number;
+    weight_grams: number | null;
 }
 
 interface Property {
@@ -111,7 +118,7 @@ export default function StorePage() {
     const router = useRouter();
     const [loading, setLoading] = useState(true);
     const [storeType, setStoreType] = useState<'ecommerce' | 'real_estate' | 'digital_product' | null>(null);
-    const [activeTab, setActiveTab] = useState<'products' | 'digital'>('products');
+    const [activeTab, setActiveTab] = useState<'products' | 'digital' | 'promotions' | 'shipping'>('products');
 
     // E-commerce state
     const [products, setProducts] = useState<Product[]>([]);
@@ -123,6 +130,9 @@ export default function StorePage() {
     const [formName, setFormName] = useState('');
     const [formDescription, setFormDescription] = useState('');
     const [formPrice, setFormPrice] = useState('');
+    const [formStock, setFormStock] = useState('');
+    const [formLowStockThreshold, setFormLowStockThreshold] = useState('5');
+    const [formWeight, setFormWeight] = useState('');
     const [formImageUrl, setFormImageUrl] = useState('');
     const [formCategoryId, setFormCategoryId] = useState<string | null>(null);
     const [showCategoryForm, setShowCategoryForm] = useState(false);
@@ -210,6 +220,9 @@ export default function StorePage() {
         setFormName('');
         setFormDescription('');
         setFormPrice('');
+        setFormStock('');
+        setFormLowStockThreshold('5');
+        setFormWeight('');
         setFormImageUrl('');
         setFormCategoryId(null);
         setEditingProduct(null);
@@ -221,6 +234,9 @@ export default function StorePage() {
         setFormName(product.name);
         setFormDescription(product.description || '');
         setFormPrice(product.price?.toString() || '');
+        setFormStock(product.stock_quantity?.toString() ?? '');
+        setFormLowStockThreshold(product.low_stock_threshold?.toString() ?? '5');
+        setFormWeight(product.weight_grams?.toString() ?? '');
         setFormImageUrl(product.image_url || '');
         setFormCategoryId(product.category_id);
         setIsEditingProduct(true);
@@ -235,6 +251,9 @@ export default function StorePage() {
                 name: formName.trim(),
                 description: formDescription.trim() || null,
                 price: formPrice ? parseFloat(formPrice) : null,
+                stockQuantity: formStock !== '' ? Math.max(parseInt(formStock, 10), 0) : null,
+                lowStockThreshold: formLowStockThreshold !== '' ? Math.max(parseInt(formLowStockThreshold, 10), 0) : 5,
+                weightGrams: formWeight !== '' ? Math.max(parseInt(formWeight, 10), 0) : null,
                 imageUrl: formImageUrl || null,
                 categoryId: formCategoryId,
             };
@@ -259,6 +278,7 @@ export default function StorePage() {
                                 variationTypeId: variation.variation_type_id,
                                 value: variation.value,
                                 price: variation.price,
+                                stockQuantity: variation.stock !== '' ? Math.max(parseInt(variation.stock, 10), 0) : null,
                             }),
                         });
                     } else {
@@ -269,6 +289,7 @@ export default function StorePage() {
                                 id: variation.id,
                                 value: variation.value,
                                 price: variation.price,
+                                stockQuantity: variation.stock !== '' ? Math.max(parseInt(variation.stock, 10), 0) : null,
                             }),
                         });
                     }
@@ -632,7 +653,7 @@ export default function StorePage() {
                                             Add Product
                                         </button>
                                     </>
-                                ) : (
+                                ) : activeTab === 'digital' ? (
                                     <button
                                         onClick={() => setIsEditingDigitalProduct(true)}
                                         className="flex items-center gap-2 px-6 py-2.5 bg-gradient-to-r from-emerald-500 to-teal-500 text-white rounded-full hover:from-emerald-600 hover:to-teal-600 transition-all font-medium text-sm shadow-lg shadow-emerald-500/25"
@@ -640,7 +661,7 @@ export default function StorePage() {
                                         <Plus size={18} />
                                         Add Digital Product
                                     </button>
-                                )}
+                                ) : null}
                             </>
                         ) : (
                             <button
@@ -677,50 +698,66 @@ export default function StorePage() {
                                 {digitalProducts.length}
                             </span>
                         </button>
+                        <button
+                            onClick={() => setActiveTab('promotions')}
+                            className={`flex items-center gap-2 px-5 py-2.5 rounded-full font-medium transition-all ${activeTab === 'promotions' ? 'bg-gray-900 text-white shadow-md' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'}`}
+                        >
+                            <Tag size={18} />
+                            Promotions
+                        </button>
+                        <button
+                            onClick={() => setActiveTab('shipping')}
+                            className={`flex items-center gap-2 px-5 py-2.5 rounded-full font-medium transition-all ${activeTab === 'shipping' ? 'bg-gray-900 text-white shadow-md' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'}`}
+                        >
+                            <Truck size={18} />
+                            Shipping
+                        </button>
                     </div>
                 )}
 
                 {/* Search Bar - Shared */}
-                <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-4 mb-8">
-                    <div className="relative flex-1">
-                        <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
-                        <input
-                            type="text"
-                            placeholder={storeType === 'real_estate' ? "Search properties by location or title..." : "Search products..."}
-                            value={searchQuery}
-                            onChange={(e) => setSearchQuery(e.target.value)}
-                            className="w-full pl-12 pr-4 py-3 bg-white border border-gray-200 rounded-2xl focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 transition-all text-gray-900 placeholder-gray-400"
-                        />
-                    </div>
-                    {(storeType === 'ecommerce' || storeType === 'digital_product') && (
-                        <div className="flex items-center gap-2 flex-wrap">
-                            <button
-                                onClick={() => setSelectedCategoryFilter(null)}
-                                className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${!selectedCategoryFilter ? 'bg-gray-900 text-white' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'}`}
-                            >
-                                All
-                            </button>
-                            {categories.map((category) => (
-                                <div key={category.id} className="relative group">
-                                    <button
-                                        onClick={() => setSelectedCategoryFilter(category.id)}
-                                        className={`px-4 py-2 rounded-full text-sm font-medium transition-all flex items-center gap-2 pr-8 ${selectedCategoryFilter === category.id ? 'bg-gray-900 text-white' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'}`}
-                                    >
-                                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: category.color }} />
-                                        {category.name}
-                                    </button>
-                                    <button
-                                        onClick={(e) => { e.stopPropagation(); handleDeleteCategory(category.id, category.name); }}
-                                        className={`absolute right-1 top-1/2 -translate-y-1/2 p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity ${selectedCategoryFilter === category.id ? 'hover:bg-white/20 text-white/70 hover:text-white' : 'hover:bg-red-100 text-gray-400 hover:text-red-500'}`}
-                                        title={`Delete ${category.name}`}
-                                    >
-                                        <X size={14} />
-                                    </button>
-                                </div>
-                            ))}
+                {activeTab !== 'promotions' && activeTab !== 'shipping' && (
+                    <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-4 mb-8">
+                        <div className="relative flex-1">
+                            <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+                            <input
+                                type="text"
+                                placeholder={storeType === 'real_estate' ? "Search properties by location or title..." : "Search products..."}
+                                value={searchQuery}
+                                onChange={(e) => setSearchQuery(e.target.value)}
+                                className="w-full pl-12 pr-4 py-3 bg-white border border-gray-200 rounded-2xl focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500 transition-all text-gray-900 placeholder-gray-400"
+                            />
                         </div>
-                    )}
-                </div>
+                        {(storeType === 'ecommerce' || storeType === 'digital_product') && (
+                            <div className="flex items-center gap-2 flex-wrap">
+                                <button
+                                    onClick={() => setSelectedCategoryFilter(null)}
+                                    className={`px-4 py-2 rounded-full text-sm font-medium transition-all ${!selectedCategoryFilter ? 'bg-gray-900 text-white' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'}`}
+                                >
+                                    All
+                                </button>
+                                {categories.map((category) => (
+                                    <div key={category.id} className="relative group">
+                                        <button
+                                            onClick={() => setSelectedCategoryFilter(category.id)}
+                                            className={`px-4 py-2 rounded-full text-sm font-medium transition-all flex items-center gap-2 pr-8 ${selectedCategoryFilter === category.id ? 'bg-gray-900 text-white' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'}`}
+                                        >
+                                            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: category.color }} />
+                                            {category.name}
+                                        </button>
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleDeleteCategory(category.id, category.name); }}
+                                            className={`absolute right-1 top-1/2 -translate-y-1/2 p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity ${selectedCategoryFilter === category.id ? 'hover:bg-white/20 text-white/70 hover:text-white' : 'hover:bg-red-100 text-gray-400 hover:text-red-500'}`}
+                                            title={`Delete ${category.name}`}
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
 
                 {/* CONTENT AREA */}
                 {(storeType === 'ecommerce' || storeType === 'digital_product') ? (
@@ -762,6 +799,13 @@ export default function StorePage() {
                                 ))}
                             </div>
                         )
+                    ) : activeTab === 'promotions' ? (
+                        <PromotionsPanel
+                            products={products.map(p => ({ id: p.id, name: p.name }))}
+                            categories={categories.map(c => ({ id: c.id, name: c.name }))}
+                        />
+                    ) : activeTab === 'shipping' ? (
+                        <ShippingZonesPanel />
                     ) : (
                         // DIGITAL PRODUCTS GRID
                         filteredDigitalProducts.length === 0 ? (
@@ -960,6 +1004,12 @@ export default function StorePage() {
                             setFormDescription={setFormDescription}
                             formPrice={formPrice}
                             setFormPrice={setFormPrice}
+                            formStock={formStock}
+                            setFormStock={setFormStock}
+                            formLowStockThreshold={formLowStockThreshold}
+                            setFormLowStockThreshold={setFormLowStockThreshold}
+                            formWeight={formWeight}
+                            setFormWeight={setFormWeight}
                             formImageUrl={formImageUrl}
                             setFormImageUrl={setFormImageUrl}
                             formCategoryId={formCategoryId}
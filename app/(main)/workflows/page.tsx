@@ -4,6 +4,8 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import { Plus, Search, Filter, MoreHorizontal, Edit, Trash2, ArrowRight, Loader2 } from 'lucide-react';
+import ExecutionHistory from '@/app/components/workflows/ExecutionHistory';
+import SplitTestResults from '@/app/components/workflows/SplitTestResults';
 
 interface Workflow {
     id: string;
@@ -18,7 +20,7 @@ export default function WorkflowsPage() {
     const [workflows, setWorkflows] = useState<Workflow[]>([]);
     const [loading, setLoading] = useState(true);
     const [searchQuery, setSearchQuery] = useState('');
-    const [filter, setFilter] = useState<'all' | 'published' | 'draft'>('all');
+    const [filter, setFilter] = useState<'all' | 'published' | 'draft' | 'executions' | 'experiments'>('all');
     const [newWorkflowName, setNewWorkflowName] = useState('');
     const [isCreating, setIsCreating] = useState(false);
 
@@ -159,7 +161,7 @@ export default function WorkflowsPage() {
 
                 {/* Filter Tabs */}
                 <div className="flex items-center gap-1 mb-6 border-b border-gray-200">
-                    {(['all', 'published', 'draft'] as const).map((tab) => (
+                    {(['all', 'published', 'draft', 'executions', 'experiments'] as const).map((tab) => (
                         <button
                             key={tab}
                             onClick={() => setFilter(tab)}
@@ -178,7 +180,11 @@ export default function WorkflowsPage() {
                 </div>
 
                 {/* Workflow Filters/Grid */}
-                {loading ? (
+                {filter === 'executions' ? (
+                    <ExecutionHistory workflows={workflows.map(w => ({ id: w.id, name: w.name }))} />
+                ) : filter === 'experiments' ? (
+                    <SplitTestResults />
+                ) : loading ? (
                     <div className="flex items-center justify-center p-12">
                         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
                     </div>
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/app/lib/supabaseAdmin';
+import { createClient } from '@/app/lib/supabaseServer';
+import { getAllCircuitStates, getCircuitHistory, resetCircuit } from '@/app/lib/circuitBreakerService';
+import { getDashboardMetrics } from '@/app/lib/rateLimitService';
+
+/**
+ * Helper to verify admin access
+ */
+async function verifyAdmin(): Promise<boolean> {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error } = await supabase.auth.getUser();
+
+        if (error || !user) {
+            return false;
+        }
+
+        const { data: adminUser } = await supabaseAdmin
+            .from('admin_users')
+            .select('id')
+            .eq('user_id', user.id)
+            .single();
+
+        return !!adminUser;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * GET /api/admin/provider-health
+ * Circuit breaker state, transition history and request rates per AI provider
+ */
+export async function GET() {
+    if (!(await verifyAdmin())) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    try {
+        const [circuits, history] = await Promise.all([
+            getAllCircuitStates(),
+            getCircuitHistory(undefined, 100),
+        ]);
+
+        // Per-role circuits ('nvidia:rerank') share their provider's request metrics
+        const providers = circuits.length > 0
+            ? Array.from(new Set(circuits.map(circuit => circuit.provider.split(':')[0])))
+            : ['nvidia'];
+        const usage = Object.fromEntries(await Promise.all(
+            providers.map(async provider => [provider, await getDashboardMetrics(provider)] as const)
+        ));
+
+        return NextResponse.json({ circuits, history, usage }, { status: 200 });
+    } catch (error) {
+        console.error('[Admin ProviderHealth] Error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/admin/provider-health
+ * Force a provider's circuit closed: { provider: string }
+ */
+export async function POST(request: NextRequest) {
+    if (!(await verifyAdmin())) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    try {
+        const { provider } = await request.json();
+
+        if (!provider || typeof provider !== 'string') {
+            return NextResponse.json({ error: 'provider is required' }, { status: 400 });
+        }
+
+        await resetCircuit(provider, 'Manual reset from admin');
+        return NextResponse.json({ success: true }, { status: 200 });
+    } catch (error) {
+        console.error('[Admin ProviderHealth] Error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/app/lib/supabaseAdmin';
+import { createClient } from '@/app/lib/supabaseServer';
+import { DEAD_LETTER_STATUSES, discardFailedWebhookEvents, listFailedWebhookEvents, type DeadLetterStatus } from '@/app/lib/webhookDeadLetterService';
+import { replayFailedWebhookEvents } from '@/app/api/webhook/deadLetter';
+
+export const maxDuration = 60;
+
+// Replays run one after another inside the request
+const MAX_REPLAY_BATCH = 25;
+
+/**
+ * Helper to verify admin access
+ */
+async function verifyAdmin(): Promise<boolean> {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error } = await supabase.auth.getUser();
+
+        if (error || !user) {
+            return false;
+        }
+
+        const { data: adminUser } = await supabaseAdmin
+            .from('admin_users')
+            .select('id')
+            .eq('user_id', user.id)
+            .single();
+
+        return !!adminUser;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * GET /api/admin/webhook-events
+ * List dead-lettered webhook events, optionally by status
+ */
+export async function GET(request: NextRequest) {
+    if (!(await verifyAdmin())) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    try {
+        const status = request.nextUrl.searchParams.get('status');
+        if (status && !DEAD_LETTER_STATUSES.includes(status as DeadLetterStatus)) {
+            return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+        }
+
+        const events = await listFailedWebhookEvents({ status: (status as DeadLetterStatus) || undefined });
+        return NextResponse.json({ events }, { status: 200 });
+    } catch (error) {
+        console.error('[Admin WebhookEvents] Error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/admin/webhook-events
+ * Replay or discard events: { action: 'replay' | 'discard', ids: string[] }
+ */
+export async function POST(request: NextRequest) {
+    if (!(await verifyAdmin())) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    try {
+        const { action, ids } = await request.json();
+
+        if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+            return NextResponse.json({ error: 'ids must be a non-empty list' }, { status: 400 });
+        }
+
+        if (action === 'replay') {
+            if (ids.length > MAX_REPLAY_BATCH) {
+                return NextResponse.json({ error: `Replay at most ${MAX_REPLAY_BATCH} events at a time` }, { status: 400 });
+            }
+            const results = await replayFailedWebhookEvents(ids);
+            return NextResponse.json({ results }, { status: 200 });
+        }
+
+        if (action === 'discard') {
+            const discarded = await discardFailedWebhookEvents(ids);
+            return NextResponse.json({ discarded }, { status: 200 });
+        }
+
+        return NextResponse.json({ error: 'action must be replay or discard' }, { status: 400 });
+    } catch (error) {
+        console.error('[Admin WebhookEvents] Error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
 import { supabaseAdmin, getUserIdFromPageId } from '@/app/lib/supabaseAdmin';
+import { waitUntil } from '@vercel/functions';
+import { emitWebhookEvent } from '@/app/lib/webhookEventService';
 
 // GET - List appointments (optionally filter by sender_psid or date)
 export async function GET(request: NextRequest) {
@@ -160,6 +162,21 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: error.message }, { status: 500 });
         }
 
+        // Notify the tenant's webhook subscribers after the response is sent
+        waitUntil(
+            emitWebhookEvent(userId, 'appointment.booked', {
+                appointment_id: data.id,
+                sender_psid: actualPsid,
+                customer_name: customer_name || facebookName,
+                customer_email: customer_email || null,
+                customer_phone: customer_phone || null,
+                appointment_date,
+                start_time,
+                end_time,
+                property_id: property_id || null,
+            })
+        );
+
         // Track appointment booking activity and update pipeline
         try {
             const { trackActivity } = await import('@/app/lib/activityTrackingService');
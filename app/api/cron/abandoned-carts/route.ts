@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/app/lib/supabaseAdmin';
+import { triggerWorkflowsForAbandonedCart } from '@/app/lib/workflowEngine';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Carts idle for longer than this (beyond the trigger's hours) are ignored, so publishing
+// a workflow doesn't message every old cart
+const LOOKBACK_HOURS = 7 * 24;
+
+/**
+ * Cron job that starts "Cart Abandoned" workflows.
+ * A cart is an order still in 'pending' with items; it counts as abandoned once it
+ * hasn't been updated for the workflow's configured number of hours.
+ */
+export async function GET(req: Request) {
+    try {
+        // Verify cron secret to prevent unauthorized access
+        const authHeader = req.headers.get('authorization');
+        const cronSecret = process.env.CRON_SECRET;
+
+        // Only check auth if CRON_SECRET is set (production)
+        if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+            console.log('[AbandonedCartCron] Unauthorized request');
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        // Uses supabaseAdmin to bypass RLS since cron jobs don't have user auth context
+        const { data: workflows, error } = await supabaseAdmin
+            .from('workflows')
+            .select('user_id, trigger_config')
+            .eq('trigger_type', 'cart_abandoned')
+            .eq('is_published', true);
+
+        if (error) throw error;
+
+        // Shortest abandon-after time per user decides which carts to look at
+        const minHoursByUser = new Map<string, number>();
+        for (const workflow of workflows || []) {
+            const hours = workflow.trigger_config?.abandonAfterHours || 24;
+            minHoursByUser.set(workflow.user_id, Math.min(hours, minHoursByUser.get(workflow.user_id) ?? Infinity));
+        }
+
+        let started = 0;
+
+        for (const [userId, minHours] of minHoursByUser) {
+            const cutoff = Date.now() - minHours * 3600000;
+
+            const { data: carts, error: cartError } = await supabaseAdmin
+                .from('orders')
+                .select('id, lead_id, updated_at, leads(sender_id)')
+                .eq('user_id', userId)
+                .eq('status', 'pending')
+                .gt('total_amount', 0)
+                .not('lead_id', 'is', null)
+                .lte('updated_at', new Date(cutoff).toISOString())
+                .gte('updated_at', new Date(cutoff - LOOKBACK_HOURS * 3600000).toISOString())
+                .limit(50);
+
+            if (cartError) {
+                console.error('[AbandonedCartCron] Error fetching carts for user:', userId, cartError);
+                continue;
+            }
+
+            for (const cart of carts || []) {
+                const senderId = (cart.leads as unknown as { sender_id: string } | null)?.sender_id;
+                if (!senderId) continue;
+
+                const idleHours = (Date.now() - new Date(cart.updated_at).getTime()) / 3600000;
+                try {
+                    started += await triggerWorkflowsForAbandonedCart(cart.id, cart.lead_id, senderId, userId, idleHours);
+                } catch (err) {
+                    console.error('[AbandonedCartCron] Error triggering workflows for cart:', cart.id, err);
+                }
+            }
+        }
+
+        console.log(`[AbandonedCartCron] Started ${started} workflow executions`);
+        return NextResponse.json({ started });
+    } catch (error) {
+        console.error('[AbandonedCartCron] Error:', error);
+        return NextResponse.json({ error: 'Failed to process abandoned carts' }, { status: 500 });
+    }
+}
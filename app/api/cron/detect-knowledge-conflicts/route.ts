@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { detectConflictsForRecentChanges } from '@/app/lib/knowledgeConflictService';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Cron job that checks recently added or edited knowledge chunks for contradictions
+ * with the rest of the tenant's knowledge base. Conflicting chunks stay out of
+ * retrieval until the owner resolves them on the knowledge page.
+ */
+export async function GET(req: Request) {
+    try {
+        // Verify cron secret to prevent unauthorized access
+        const authHeader = req.headers.get('authorization');
+        const cronSecret = process.env.CRON_SECRET;
+
+        // Only check auth if CRON_SECRET is set (production)
+        if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+            console.log('[KnowledgeConflictCron] Unauthorized request');
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const results = await detectConflictsForRecentChanges();
+        const checked = results.reduce((sum, { result }) => sum + result.checked, 0);
+        const found = results.reduce((sum, { result }) => sum + result.found, 0);
+
+        console.log(`[KnowledgeConflictCron] Scanned ${results.length} tenants, checked ${checked} pairs, found ${found} conflicts`);
+        return NextResponse.json({ tenants: results.length, checked, found });
+    } catch (error) {
+        console.error('[KnowledgeConflictCron] Error:', error);
+        return NextResponse.json({ error: 'Failed to detect knowledge conflicts' }, { status: 500 });
+    }
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/app/lib/supabaseAdmin';
-import { continueExecution } from '@/app/lib/workflowEngine';
+import { continueExecution, handleQuestionTimeout, getExecutionWorkflowData } from '@/app/lib/workflowEngine';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
@@ -22,15 +22,17 @@ export async function GET(req: Request) {
 
         console.log('Executing scheduled workflows...');
 
-        // Get all pending executions that are scheduled for now or earlier
+        // Get all pending executions that are scheduled for now or earlier,
+        // plus question nodes whose reply timeout has elapsed
         // Uses supabaseAdmin to bypass RLS since cron jobs don't have user auth context
         const { data: executions, error } = await supabaseAdmin
             .from('workflow_executions')
             .select(`
         *,
-        workflows:workflows(workflow_data, user_id)
+        workflows:workflows(workflow_data, user_id),
+        workflow_version:workflow_versions(workflow_data)
       `)
-            .eq('status', 'pending')
+            .in('status', ['pending', 'waiting_reply'])
             .not('scheduled_for', 'is', null)
             .lte('scheduled_for', new Date().toISOString())
             .limit(10);
@@ -64,13 +66,12 @@ export async function GET(req: Request) {
                     continue;
                 }
 
-                // Clear scheduled_for and continue execution
-                await supabaseAdmin
-                    .from('workflow_executions')
-                    .update({ scheduled_for: null })
-                    .eq('id', execution.id);
-
-                const workflowData = workflow.workflow_data;
+                // Resume on the version the execution started on, not the current draft
+                const workflowData = getExecutionWorkflowData(execution);
+                if (!workflowData) {
+                    console.error('Workflow data not found for execution:', execution.id);
+                    continue;
+                }
                 const executionData = execution.execution_data as any || {};
 
                 // Build context, restoring appointment data if present
@@ -83,8 +84,23 @@ export async function GET(req: Request) {
                         ? new Date(executionData.appointmentDateTime)
                         : undefined,
                     userId, // Pass userId for multi-tenant workflow actions
+                    variables: executionData.variables || {},
+                    workflowChain: executionData.workflowChain || [],
                 };
 
+                if (execution.status === 'waiting_reply') {
+                    // No reply before the question's deadline - follow the timeout branch
+                    await handleQuestionTimeout(execution.id, workflowData, context);
+                    console.log('Timed out question for execution:', execution.id, 'for user:', userId);
+                    continue;
+                }
+
+                // Clear scheduled_for and continue execution
+                await supabaseAdmin
+                    .from('workflow_executions')
+                    .update({ scheduled_for: null })
+                    .eq('id', execution.id);
+
                 await continueExecution(execution.id, workflowData, context);
 
                 console.log('Processed execution:', execution.id, 'for user:', userId);
@@ -1,12 +1,15 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/app/lib/supabaseAdmin';
+import { processDueSequenceSteps } from '@/app/lib/followUpSequenceService';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
 
 /**
  * Cron job to send follow-up messages to inactive leads
- * 
+ *
+ * Due follow-up sequence steps go out first; they don't depend on follow_up_settings.
+ *
  * Now properly supports multi-tenancy:
  * - Fetches all users with follow-ups enabled
  * - Processes each user's leads separately for data isolation
@@ -23,6 +26,9 @@ export async function GET(req: Request) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
+        const sequences = await processDueSequenceSteps();
+        console.log(`[FollowUpCron] Sequence steps: ${sequences.sent} sent, ${sequences.stopped} stopped, ${sequences.failed} failed`);
+
         console.log('[FollowUpCron] Starting multi-user follow-up check...');
 
         // Get all users with follow-up enabled
@@ -40,6 +46,7 @@ export async function GET(req: Request) {
             console.log('[FollowUpCron] No users have follow-ups enabled.');
             return NextResponse.json({
                 processed: 0,
+                sequences,
                 message: 'No users have auto follow-ups enabled.'
             });
         }
@@ -101,6 +108,7 @@ export async function GET(req: Request) {
             success: totalSuccess,
             failed: totalFailed,
             usersProcessed: usersWithFollowUp.length,
+            sequences,
         });
     } catch (error) {
         console.error('[FollowUpCron] Cron error:', error);
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { drainMessageQueue } from '@/app/api/webhook/queueWorker';
+import { purgeFinishedMessages } from '@/app/lib/messageQueueService';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Stays under maxDuration; batches are only claimed while their claim window fits in it
+const TIME_BUDGET_MS = 55000;
+
+/**
+ * Cron job that drains the message queue.
+ * The webhook drains right after enqueueing; this picks up messages it left behind
+ * (sender busy at the time, retries after a failure, claims whose worker died).
+ */
+export async function GET(req: Request) {
+    try {
+        // Verify cron secret to prevent unauthorized access
+        const authHeader = req.headers.get('authorization');
+        const cronSecret = process.env.CRON_SECRET;
+
+        // Only check auth if CRON_SECRET is set (production)
+        if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+            console.log('[MessageQueueCron] Unauthorized request');
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const result = await drainMessageQueue(TIME_BUDGET_MS);
+        await purgeFinishedMessages();
+
+        console.log(`[MessageQueueCron] Processed ${result.processed} messages in ${result.batches} batches`);
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error('[MessageQueueCron] Error:', error);
+        return NextResponse.json({ error: 'Failed to process message queue' }, { status: 500 });
+    }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { refreshDueDocumentSources } from '@/app/lib/documentSourceService';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Cron job that re-fetches web knowledge sources (pages and sitemaps) whose refresh
+ * interval has elapsed. Chunks are only replaced when the page content changed.
+ */
+export async function GET(req: Request) {
+    try {
+        // Verify cron secret to prevent unauthorized access
+        const authHeader = req.headers.get('authorization');
+        const cronSecret = process.env.CRON_SECRET;
+
+        // Only check auth if CRON_SECRET is set (production)
+        if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+            console.log('[DocumentSourceCron] Unauthorized request');
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const results = await refreshDueDocumentSources();
+        const updated = results.filter(result => result.outcome === 'updated').length;
+        const failed = results.filter(result => result.outcome === 'failed').length;
+
+        console.log(`[DocumentSourceCron] Checked ${results.length} sources, ${updated} updated, ${failed} failed`);
+        return NextResponse.json({ checked: results.length, updated, failed, results });
+    } catch (error) {
+        console.error('[DocumentSourceCron] Error:', error);
+        return NextResponse.json({ error: 'Failed to refresh document sources' }, { status: 500 });
+    }
+}
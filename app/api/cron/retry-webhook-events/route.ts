@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { retryDueWebhookEvents } from '@/app/api/webhook/deadLetter';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Cron job that retries dead-lettered webhook events whose backoff has elapsed.
+ * Events that keep failing stop after max_retries and wait in the admin screen.
+ */
+export async function GET(req: Request) {
+    try {
+        // Verify cron secret to prevent unauthorized access
+        const authHeader = req.headers.get('authorization');
+        const cronSecret = process.env.CRON_SECRET;
+
+        // Only check auth if CRON_SECRET is set (production)
+        if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+            console.log('[WebhookRetryCron] Unauthorized request');
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const results = await retryDueWebhookEvents();
+        const succeeded = results.filter(result => result.outcome === 'success').length;
+
+        console.log(`[WebhookRetryCron] Retried ${results.length} events, ${succeeded} succeeded`);
+        return NextResponse.json({ retried: results.length, succeeded, results });
+    } catch (error) {
+        console.error('[WebhookRetryCron] Error:', error);
+        return NextResponse.json({ error: 'Failed to retry webhook events' }, { status: 500 });
+    }
+}
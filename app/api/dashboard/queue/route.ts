@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/app/lib/supabaseServer';
+import { getQueueHealth, getQueueStatus } from '@/app/lib/messageQueueService';
+
+export async function GET() {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const status = await getQueueStatus(userId);
+
+        return NextResponse.json({ ...status, health: getQueueHealth(status) });
+    } catch (error) {
+        console.error('Error fetching queue status:', error);
+        return NextResponse.json(
+            { error: 'Internal Server Error' },
+            { status: 500 }
+        );
+    }
+}
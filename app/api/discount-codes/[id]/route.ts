@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { normalizeDiscountCodeInput } from '@/app/lib/promotionService';
+import { invalidateCatalogCache } from '@/app/lib/productRagService';
+
+// PATCH - Update a discount code (including pausing it with isActive)
+export async function PATCH(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const supabase = await createClient();
+
+        // Type and value are validated together, so a PATCH changing one needs the other
+        const { data: existing, error: fetchError } = await supabase
+            .from('discount_codes')
+            .select('discount_type, value')
+            .eq('id', id)
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (fetchError) {
+            console.error('Error fetching discount code:', fetchError);
+            return NextResponse.json({ error: 'Failed to update discount code' }, { status: 500 });
+        }
+
+        if (!existing) {
+            return NextResponse.json({ error: 'Discount code not found' }, { status: 404 });
+        }
+
+        const input = normalizeDiscountCodeInput(await request.json(), existing);
+        if ('error' in input) {
+            return NextResponse.json({ error: input.error }, { status: 400 });
+        }
+
+        const { data, error } = await supabase
+            .from('discount_codes')
+            .update({ ...input.values, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            if (error.code === '23505') {
+                return NextResponse.json({ error: 'You already have a code with that name' }, { status: 409 });
+            }
+            console.error('Error updating discount code:', error);
+            return NextResponse.json({ error: 'Failed to update discount code' }, { status: 500 });
+        }
+
+        if (!data) {
+            return NextResponse.json({ error: 'Discount code not found' }, { status: 404 });
+        }
+
+        invalidateCatalogCache(userId);
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error('Error in PATCH /api/discount-codes/[id]:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Remove a discount code (orders keep their recorded discount breakdown)
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const supabase = await createClient();
+
+        const { error } = await supabase
+            .from('discount_codes')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('Error deleting discount code:', error);
+            return NextResponse.json({ error: 'Failed to delete discount code' }, { status: 500 });
+        }
+
+        invalidateCatalogCache(userId);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error in DELETE /api/discount-codes/[id]:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { normalizeDiscountCodeInput } from '@/app/lib/promotionService';
+import { invalidateCatalogCache } from '@/app/lib/productRagService';
+
+// GET - List the current user's discount codes
+export async function GET() {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('discount_codes')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching discount codes:', error);
+            return NextResponse.json({ error: 'Failed to fetch discount codes' }, { status: 500 });
+        }
+
+        return NextResponse.json({ codes: data || [] });
+    } catch (error) {
+        console.error('Error in GET /api/discount-codes:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// POST - Create a discount code
+export async function POST(request: Request) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const input = normalizeDiscountCodeInput(await request.json());
+        if ('error' in input) {
+            return NextResponse.json({ error: input.error }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('discount_codes')
+            .insert({ ...input.values, user_id: userId })
+            .select()
+            .single();
+
+        if (error) {
+            if (error.code === '23505') {
+                return NextResponse.json({ error: 'You already have a code with that name' }, { status: 409 });
+            }
+            console.error('Error creating discount code:', error);
+            return NextResponse.json({ error: 'Failed to create discount code' }, { status: 500 });
+        }
+
+        invalidateCatalogCache(userId);
+        return NextResponse.json(data, { status: 201 });
+    } catch (error) {
+        console.error('Error in POST /api/discount-codes:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
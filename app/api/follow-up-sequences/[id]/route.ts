@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { normalizeSequenceSteps, filterStopConditions } from '@/app/lib/followUpSequenceService';
+
+// PATCH - Update a sequence's name, stage, steps, stop conditions or active state
+export async function PATCH(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const body = await request.json();
+        const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+        if (body.name !== undefined) {
+            if (!body.name?.trim()) {
+                return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+            }
+            updates.name = body.name.trim();
+        }
+        if (body.stage_id !== undefined) updates.stage_id = body.stage_id || null;
+        if (body.is_active !== undefined) updates.is_active = !!body.is_active;
+        if (body.stop_conditions !== undefined) updates.stop_conditions = filterStopConditions(body.stop_conditions);
+        if (body.steps !== undefined) {
+            const normalized = normalizeSequenceSteps(body.steps);
+            if (normalized.error) {
+                return NextResponse.json({ error: normalized.error }, { status: 400 });
+            }
+            updates.steps = normalized.steps;
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('follow_up_sequences')
+            .update(updates)
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error updating follow-up sequence:', error);
+            return NextResponse.json({ error: 'Failed to update follow-up sequence' }, { status: 500 });
+        }
+
+        if (!data) {
+            return NextResponse.json({ error: 'Follow-up sequence not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error('Error in PATCH /api/follow-up-sequences/[id]:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Remove a sequence (its enrollments are removed with it)
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const supabase = await createClient();
+
+        const { error } = await supabase
+            .from('follow_up_sequences')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('Error deleting follow-up sequence:', error);
+            return NextResponse.json({ error: 'Failed to delete follow-up sequence' }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error in DELETE /api/follow-up-sequences/[id]:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { getAllMedia } from '@/app/lib/mediaLibraryService';
+import {
+    STOP_CONDITIONS,
+    normalizeSequenceSteps,
+    filterStopConditions,
+} from '@/app/lib/followUpSequenceService';
+
+// GET - List the current user's follow-up sequences (plus the media that steps can attach)
+export async function GET() {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('follow_up_sequences')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching follow-up sequences:', error);
+            return NextResponse.json({ error: 'Failed to fetch follow-up sequences' }, { status: 500 });
+        }
+
+        const media = await getAllMedia({ isActive: true, limit: 100 });
+
+        return NextResponse.json({
+            sequences: data || [],
+            stopConditions: STOP_CONDITIONS,
+            media: media.map(item => ({ id: item.id, title: item.title, media_type: item.media_type })),
+        });
+    } catch (error) {
+        console.error('Error in GET /api/follow-up-sequences:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// POST - Create a sequence for a pipeline stage
+export async function POST(request: Request) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const { name, stage_id, steps, stop_conditions, is_active } = body;
+
+        if (!name?.trim()) {
+            return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+        }
+
+        const normalized = normalizeSequenceSteps(steps);
+        if (normalized.error) {
+            return NextResponse.json({ error: normalized.error }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('follow_up_sequences')
+            .insert({
+                user_id: userId,
+                name: name.trim(),
+                stage_id: stage_id || null,
+                steps: normalized.steps,
+                stop_conditions: filterStopConditions(stop_conditions),
+                is_active: is_active !== false,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating follow-up sequence:', error);
+            return NextResponse.json({ error: 'Failed to create follow-up sequence' }, { status: 500 });
+        }
+
+        return NextResponse.json(data, { status: 201 });
+    } catch (error) {
+        console.error('Error in POST /api/follow-up-sequences:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -1,5 +1,8 @@
 import { createClient } from '@/app/lib/supabaseServer';
 import { NextResponse } from 'next/server';
+import { waitUntil } from '@vercel/functions';
+import { emitWebhookEvent } from '@/app/lib/webhookEventService';
+import { triggerWorkflowsForFormSubmission } from '@/app/lib/workflowEngine';
 
 // This is a public route, potentially.
 // But createClient() uses cookies.
@@ -203,6 +206,30 @@ export async function POST(request: Request) {
             console.error('Submission log error', matchError);
         }
 
+        // Notify the form owner's webhook subscribers after the response is sent
+        waitUntil(
+            emitWebhookEvent(formUserId, 'form.submitted', {
+                form_id,
+                form_title: form.title || null,
+                submission_id: submission?.id || null,
+                lead_id: leadId,
+                name,
+                email,
+                phone,
+                custom_data: customData,
+                digital_product_id: digital_product_id || null,
+            })
+        );
+
+        // Form-triggered workflows run after the response is sent
+        if (submission && leadId) {
+            waitUntil(
+                triggerWorkflowsForFormSubmission(form_id, submission.id, leadId, formUserId).catch(err => {
+                    console.error('[FormSubmit] Error triggering form workflows:', err);
+                })
+            );
+        }
+
         // 5. If this is a digital product checkout, create a purchase record
         if (digital_product_id && submission) {
             try {
@@ -236,6 +263,18 @@ export async function POST(request: Request) {
                     .single()
                     .then(async ({ data: purchaseRecord }) => {
                         if (purchaseRecord) {
+                            waitUntil(
+                                emitWebhookEvent(digitalProduct?.user_id, 'digital_purchase.created', {
+                                    purchase_id: purchaseRecord.id,
+                                    digital_product_id,
+                                    product_title: digitalProduct?.title || null,
+                                    amount_paid: purchaseRecord.amount_paid,
+                                    lead_id: leadId,
+                                    form_submission_id: submission.id,
+                                    access_expires_at: purchaseRecord.access_expires_at,
+                                })
+                            );
+
                             // Trigger workflows for digital product purchase
                             try {
                                 const { triggerWorkflowsForDigitalPurchase } = await import('@/app/lib/workflowEngine');
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/app/lib/supabaseServer';
+import { getOpenConflicts, detectKnowledgeConflicts, resolveConflict } from '@/app/lib/knowledgeConflictService';
+
+export const maxDuration = 60;
+
+// GET - Open conflicts (chunks stating different facts about the same thing)
+export async function GET() {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const conflicts = await getOpenConflicts(userId);
+        return NextResponse.json({ conflicts });
+    } catch (error) {
+        console.error('Error fetching knowledge conflicts:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+// POST - Scan the whole knowledge base for conflicts now
+export async function POST() {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const result = await detectKnowledgeConflicts(userId);
+        const conflicts = await getOpenConflicts(userId);
+        return NextResponse.json({ ...result, conflicts });
+    } catch (error) {
+        console.error('Error scanning for knowledge conflicts:', error);
+        return NextResponse.json({ error: 'Failed to scan for conflicts' }, { status: 500 });
+    }
+}
+
+// PUT - Resolve a conflict by keeping one chunk, or dismiss it (keepDocumentId: null)
+export async function PUT(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id, keepDocumentId } = await req.json();
+
+        if (typeof id !== 'string' || !id) {
+            return NextResponse.json({ error: 'Conflict ID is required' }, { status: 400 });
+        }
+        if (keepDocumentId !== null && typeof keepDocumentId !== 'number') {
+            return NextResponse.json({ error: 'keepDocumentId must be a document ID or null' }, { status: 400 });
+        }
+
+        const success = await resolveConflict(userId, id, keepDocumentId);
+        if (!success) {
+            return NextResponse.json({ error: 'Failed to resolve conflict' }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error resolving knowledge conflict:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/app/lib/supabaseServer';
+import { getKnowledgeGaps, draftFaqsForGap, resolveKnowledgeGap } from '@/app/lib/retrievalAnalyticsService';
+
+const MAX_DRAFT_PAIRS = 5;
+
+function parseLogIds(value: unknown): string[] | null {
+    if (!Array.isArray(value) || value.length === 0 || !value.every(id => typeof id === 'string')) {
+        return null;
+    }
+    return value as string[];
+}
+
+// GET - Open knowledge gaps (clusters of questions the bot couldn't answer well)
+export async function GET() {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const gaps = await getKnowledgeGaps(userId);
+        return NextResponse.json({ gaps });
+    } catch (error) {
+        console.error('Error fetching knowledge gaps:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+// POST - Draft FAQs for a gap
+export async function POST(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { logIds, maxPairs = 3 } = await req.json();
+        const ids = parseLogIds(logIds);
+
+        if (!ids) {
+            return NextResponse.json({ error: 'logIds are required' }, { status: 400 });
+        }
+
+        const faqs = await draftFaqsForGap(userId, ids, Math.min(Math.max(Number(maxPairs) || 3, 1), MAX_DRAFT_PAIRS));
+        return NextResponse.json({ faqs });
+    } catch (error) {
+        console.error('Error drafting FAQs for knowledge gap:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to draft FAQs' },
+            { status: 500 }
+        );
+    }
+}
+
+// PUT - Resolve a gap (FAQ added or dismissed)
+export async function PUT(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { logIds } = await req.json();
+        const ids = parseLogIds(logIds);
+
+        if (!ids) {
+            return NextResponse.json({ error: 'logIds are required' }, { status: 400 });
+        }
+
+        const success = await resolveKnowledgeGap(userId, ids);
+        if (!success) {
+            return NextResponse.json({ error: 'Failed to resolve knowledge gap' }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error resolving knowledge gap:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
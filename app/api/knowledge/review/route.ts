@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/app/lib/supabaseServer';
+import { getReviewQueue, confirmDocument, REVIEW_WINDOW_DAYS } from '@/app/lib/knowledgeReviewService';
+
+// GET - Chunks that expired or are about to expire
+export async function GET() {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const documents = await getReviewQueue(userId);
+        return NextResponse.json({ documents, reviewWindowDays: REVIEW_WINDOW_DAYS });
+    } catch (error) {
+        console.error('Error fetching review queue:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+// PUT - Confirm a chunk is still accurate, optionally with a new expiry date
+export async function PUT(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id, expiresAt } = await req.json();
+
+        if (typeof id !== 'number') {
+            return NextResponse.json({ error: 'Document ID is required' }, { status: 400 });
+        }
+        if (expiresAt != null && (typeof expiresAt !== 'string' || isNaN(Date.parse(expiresAt)) || Date.parse(expiresAt) <= Date.now())) {
+            return NextResponse.json({ error: 'Expiry must be a future date' }, { status: 400 });
+        }
+
+        const nextExpiry = await confirmDocument(userId, id, expiresAt ?? null);
+        if (!nextExpiry) {
+            return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, expiresAt: nextExpiry });
+    } catch (error) {
+        console.error('Error confirming document:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
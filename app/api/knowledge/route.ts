@@ -14,7 +14,7 @@ export async function GET() {
 
         const { data, error } = await supabase
             .from('documents')
-            .select('id, content, metadata, folder_id, category_id, created_at')
+            .select('id, content, metadata, folder_id, category_id, created_at, expires_at')
             .eq('user_id', userId)
             .order('id', { ascending: false })
             .limit(50);
@@ -29,6 +29,7 @@ export async function GET() {
             createdAt: item.created_at ? new Date(item.created_at).toISOString() : new Date().toISOString(),
             folderId: item.folder_id || undefined,
             categoryId: item.category_id || undefined,
+            expiresAt: item.expires_at || undefined,
         }));
 
         return NextResponse.json(mappedData);
@@ -48,14 +49,14 @@ export async function POST(req: Request) {
         }
 
         const body = await req.json();
-        const { text, categoryId } = body;
+        const { text, categoryId, expiresAt } = body;
 
         if (!text) {
             return NextResponse.json({ error: 'Text is required' }, { status: 400 });
         }
 
         // Pass userId to addDocument so it can be stored
-        const success = await addDocument(text, { categoryId, userId });
+        const success = await addDocument(text, { categoryId, userId, expiresAt: expiresAt || undefined });
 
         if (!success) {
             return NextResponse.json({ error: 'Failed to process document' }, { status: 500 });
@@ -79,7 +80,7 @@ export async function PUT(req: Request) {
 
         const supabase = await createClient();
         const body = await req.json();
-        const { id, text, categoryId } = body;
+        const { id, text, categoryId, expiresAt } = body;
 
         if (!id) {
             return NextResponse.json({ error: 'Document ID is required' }, { status: 400 });
@@ -89,9 +90,10 @@ export async function PUT(req: Request) {
             return NextResponse.json({ error: 'Text is required' }, { status: 400 });
         }
 
-        // Update the document content and optionally the category
-        const updates: Record<string, unknown> = { content: text };
+        // Update the document content and optionally the category. Saving counts as verifying it.
+        const updates: Record<string, unknown> = { content: text, verified_at: new Date().toISOString() };
         if (categoryId !== undefined) updates.category_id = categoryId || null;
+        if (expiresAt !== undefined) updates.expires_at = expiresAt || null;
 
         const { error } = await supabase
             .from('documents')
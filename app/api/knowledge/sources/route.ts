@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import {
+    importWebSource,
+    deleteDocumentSource,
+    REFRESH_INTERVAL_OPTIONS,
+} from '@/app/lib/documentSourceService';
+
+export const maxDuration = 60;
+
+// GET - Web sources (pages and sitemaps) in the tenant's knowledge base
+export async function GET() {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('document_sources')
+            .select('id, source_kind, source_url, status, error_message, chunk_count, page_count, refresh_interval_hours, last_checked_at, last_ingested_at')
+            .eq('user_id', userId)
+            .in('source_kind', ['url', 'sitemap'])
+            .is('parent_source_id', null)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching web sources:', error);
+            return NextResponse.json({ error: 'Failed to fetch web sources' }, { status: 500 });
+        }
+
+        return NextResponse.json({ sources: data || [], refreshIntervals: REFRESH_INTERVAL_OPTIONS });
+    } catch (error) {
+        console.error('Error:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+// POST - Import a web page or a site's sitemap
+export async function POST(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await req.json();
+        const { url, mode, categoryId, refreshIntervalHours } = body;
+
+        if (typeof url !== 'string' || !url.trim()) {
+            return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+        }
+        if (mode !== 'page' && mode !== 'sitemap') {
+            return NextResponse.json({ error: 'Mode must be page or sitemap' }, { status: 400 });
+        }
+        if (refreshIntervalHours != null && !REFRESH_INTERVAL_OPTIONS.includes(refreshIntervalHours)) {
+            return NextResponse.json({ error: 'Invalid refresh interval' }, { status: 400 });
+        }
+
+        const { source, results, pending } = await importWebSource(userId, {
+            url,
+            mode,
+            categoryId: typeof categoryId === 'string' && categoryId ? categoryId : null,
+            refreshIntervalHours: refreshIntervalHours ?? null,
+        });
+
+        // The page itself, or the sitemap, couldn't be read
+        const sourceFailure = results.find(result => result.sourceId === source.id && result.outcome === 'failed');
+        if (sourceFailure) {
+            return NextResponse.json({ error: sourceFailure.error || 'Failed to import web source' }, { status: 422 });
+        }
+
+        const failed = results.filter(result => result.outcome === 'failed');
+
+        return NextResponse.json({
+            success: true,
+            sourceId: source.id,
+            imported: results.filter(result => result.outcome !== 'failed').length,
+            failed: failed.length,
+            pending,
+            chunksStored: results.reduce((sum, result) => sum + (result.chunksStored || 0), 0),
+        });
+    } catch (error) {
+        console.error('Error importing web source:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to import web source' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE - Remove a web source and its chunks
+export async function DELETE(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(req.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Source ID is required' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+
+        // Ownership check before the service deletes with the admin client
+        const { data: source } = await supabase
+            .from('document_sources')
+            .select('id')
+            .eq('id', id)
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (!source) {
+            return NextResponse.json({ error: 'Source not found' }, { status: 404 });
+        }
+
+        await deleteDocumentSource(id);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting web source:', error);
+        return NextResponse.json({ error: 'Failed to delete web source' }, { status: 500 });
+    }
+}
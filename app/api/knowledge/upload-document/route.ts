@@ -1,13 +1,16 @@
 import { NextResponse } from 'next/server';
-import { parseDocument, chunkDocument, isFileTypeSupported, ChunkedDocument } from '@/app/lib/documentParserService';
-import { addDocument } from '@/app/lib/rag';
-import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { isFileTypeSupported } from '@/app/lib/documentParserService';
+import { ingestUploadedFile } from '@/app/lib/documentSourceService';
+import { getCurrentUserId } from '@/app/lib/supabaseServer';
+
+export const maxDuration = 60;
 
 /**
  * POST /api/knowledge/upload-document
  * 
- * Handles document file uploads (PDF, TXT, MD)
- * Parses content, chunks it, and stores in knowledge base
+ * Handles document file uploads (PDF, TXT, MD, DOCX, XLSX, CSV, HTML)
+ * Parses content, chunks it, and stores in knowledge base.
+ * Uploading a file with the same name again replaces the earlier version.
  */
 export async function POST(req: Request) {
     try {
@@ -21,8 +24,6 @@ export async function POST(req: Request) {
             );
         }
 
-        const supabase = await createClient();
-
         const formData = await req.formData();
         const file = formData.get('file') as File;
         const categoryId = formData.get('categoryId') as string | null;
@@ -37,103 +38,38 @@ export async function POST(req: Request) {
         // Validate file type
         if (!isFileTypeSupported(file.name)) {
             return NextResponse.json(
-                { error: 'Unsupported file type. Supported: PDF, TXT, MD' },
+                { error: 'Unsupported file type. Supported: PDF, TXT, MD, DOCX, XLSX, CSV, HTML' },
                 { status: 400 }
             );
         }
 
-        // Create document source record for tracking
-        const { data: sourceRecord, error: sourceError } = await supabase
-            .from('document_sources')
-            .insert({
-                original_filename: file.name,
-                file_type: file.name.split('.').pop()?.toLowerCase(),
-                file_size_bytes: file.size,
-                status: 'processing',
-                category_id: categoryId || null,
-                user_id: userId,
-            })
-            .select()
-            .single();
-
-        if (sourceError) {
-            console.error('[DocumentUpload] Error creating source record:', sourceError);
-            // Continue without tracking if table doesn't exist yet
-        }
-
-        const sourceId = sourceRecord?.id;
-
-
-        try {
-            // Convert file to buffer
-            const bytes = await file.arrayBuffer();
-            const buffer = Buffer.from(bytes);
-
-            // Parse the document
-            const parsedDoc = await parseDocument(buffer, file.name);
-
-            // Chunk the document
-            const chunkedDoc: ChunkedDocument = chunkDocument(parsedDoc);
-
-            console.log(`[DocumentUpload] Parsed ${file.name}: ${chunkedDoc.chunks.length} chunks`);
-
-            // Store each chunk in the knowledge base
-            let successCount = 0;
-            for (let i = 0; i < chunkedDoc.chunks.length; i++) {
-                const chunk = chunkedDoc.chunks[i];
-
-                const success = await addDocument(chunk, {
-                    categoryId: categoryId || undefined,
-                    sourceType: 'file_upload',
-                    userId: userId,
-                });
-
-                if (success) {
-                    successCount++;
-                }
-            }
-
-            // Update source record with success
-            if (sourceId) {
-                await supabase
-                    .from('document_sources')
-                    .update({
-                        status: 'completed',
-                        chunk_count: chunkedDoc.chunks.length,
-                        page_count: chunkedDoc.metadata.pageCount,
-                    })
-                    .eq('id', sourceId);
-            }
-
-            return NextResponse.json({
-                success: true,
-                filename: file.name,
-                pageCount: chunkedDoc.metadata.pageCount,
-                chunkCount: chunkedDoc.chunks.length,
-                chunksStored: successCount,
-                sourceId,
-            });
-
-        } catch (parseError) {
-            console.error('[DocumentUpload] Parse error:', parseError);
-
-            // Update source record with error
-            if (sourceId) {
-                await supabase
-                    .from('document_sources')
-                    .update({
-                        status: 'failed',
-                        error_message: parseError instanceof Error ? parseError.message : 'Unknown error',
-                    })
-                    .eq('id', sourceId);
-            }
+        // Convert file to buffer
+        const bytes = await file.arrayBuffer();
+        const result = await ingestUploadedFile(
+            userId,
+            { name: file.name, size: file.size, buffer: Buffer.from(bytes) },
+            categoryId
+        );
 
+        if (result.outcome === 'failed') {
             return NextResponse.json(
-                { error: parseError instanceof Error ? parseError.message : 'Failed to parse document' },
+                { error: result.error || 'Failed to parse document' },
                 { status: 500 }
             );
         }
 
+        console.log(`[DocumentUpload] ${file.name}: ${result.outcome}, ${result.chunksStored} chunks`);
+
+        return NextResponse.json({
+            success: true,
+            filename: file.name,
+            unchanged: result.outcome === 'unchanged',
+            pageCount: result.pageCount,
+            chunkCount: result.chunkCount,
+            chunksStored: result.chunksStored,
+            sourceId: result.sourceId,
+        });
+
     } catch (error) {
         console.error('[DocumentUpload] Request error:', error);
         return NextResponse.json(
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/app/lib/supabaseServer';
+import { getDocumentUsage, STALE_AFTER_DAYS } from '@/app/lib/retrievalAnalyticsService';
+
+// GET - Per-chunk hit counts, least used first
+export async function GET() {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const documents = await getDocumentUsage(userId);
+        return NextResponse.json({ documents, staleAfterDays: STALE_AFTER_DAYS });
+    } catch (error) {
+        console.error('Error fetching document usage:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
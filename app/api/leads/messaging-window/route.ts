@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { getMessagingWindow } from '@/app/lib/messagingPolicyService';
+import { sendOneTimeNotificationRequest } from '@/app/lib/messengerService';
+
+// Make sure the lead belongs to the current user before touching it
+async function findOwnedLead(senderId: string, userId: string) {
+    const supabase = await createClient();
+    const { data } = await supabase
+        .from('leads')
+        .select('id, sender_id')
+        .eq('sender_id', senderId)
+        .eq('user_id', userId)
+        .maybeSingle();
+    return data;
+}
+
+/**
+ * GET /api/leads/messaging-window?senderId=...
+ * Where the lead stands in the Messenger messaging window
+ */
+export async function GET(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const senderId = new URL(req.url).searchParams.get('senderId');
+        if (!senderId) {
+            return NextResponse.json({ error: 'senderId is required' }, { status: 400 });
+        }
+
+        if (!await findOwnedLead(senderId, userId)) {
+            return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+        }
+
+        const window = await getMessagingWindow(senderId);
+        return NextResponse.json(window);
+    } catch (error) {
+        console.error('[MessagingWindow] Error:', error);
+        return NextResponse.json({ error: 'Failed to fetch messaging window' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/leads/messaging-window
+ * Ask the lead for a one-time notification (only possible while the window is open)
+ *
+ * Body: { senderId: string, title: string }
+ */
+export async function POST(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { senderId, title } = await req.json();
+        if (!senderId || !title?.trim()) {
+            return NextResponse.json({ error: 'senderId and title are required' }, { status: 400 });
+        }
+
+        if (!await findOwnedLead(senderId, userId)) {
+            return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+        }
+
+        const sent = await sendOneTimeNotificationRequest(senderId, title.trim(), 'agent_request', {
+            purpose: 'response',
+            source: 'agent_reply',
+        });
+        if (!sent) {
+            return NextResponse.json({ error: 'Could not send the request. The messaging window may be closed.' }, { status: 422 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[MessagingWindow] Error sending notification request:', error);
+        return NextResponse.json({ error: 'Failed to send notification request' }, { status: 500 });
+    }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { supabase } from '@/app/lib/supabase';
 import { startOrRefreshTakeover } from '@/app/lib/humanTakeoverService';
 import { callSendAPI } from '@/app/api/webhook/facebookClient';
+import { authorizeSend } from '@/app/lib/messagingPolicyService';
 
 /**
  * POST /api/leads/reply
@@ -58,6 +59,18 @@ export async function POST(req: Request) {
             lead = data;
         }
 
+        // Agent messages may use the HUMAN_AGENT tag for up to 7 days after the lead's last message
+        const decision = await authorizeSend(lead.sender_id, 'human_agent', {
+            source: 'agent_reply',
+            preview: message,
+        });
+        if (!decision.allowed) {
+            return NextResponse.json(
+                { error: `Message not sent: ${decision.reason}`, blocked: true },
+                { status: 422 }
+            );
+        }
+
         // Start human takeover BEFORE sending the message
         // This ensures the bot won't respond to any incoming messages
         console.log('[AgentReply] Starting human takeover for:', lead.sender_id);
@@ -65,7 +78,7 @@ export async function POST(req: Request) {
 
         // Send the message via Facebook Messenger
         console.log('[AgentReply] Sending message to:', lead.sender_id);
-        await callSendAPI(lead.sender_id, { text: message }, lead.page_id);
+        await callSendAPI(lead.sender_id, { text: message }, lead.page_id, decision);
 
         // Also store the message in the conversation history
         const { error: convError } = await supabase
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/app/lib/supabaseServer';
+import { getBlockedSendsReport } from '@/app/lib/messagingPolicyService';
+
+// GET - Sends refused by the messaging window policy over the last `days` days (default 30)
+export async function GET(request: Request) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30') || 30, 1), 90);
+
+        const report = await getBlockedSendsReport(userId, days);
+        return NextResponse.json({ ...report, days });
+    } catch (error) {
+        console.error('Error in GET /api/messaging/blocked-sends:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
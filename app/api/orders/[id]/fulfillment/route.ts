@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { getOrderFulfillment, updateFulfillmentTracking } from '@/app/lib/shippingService';
+
+async function findOwnOrder(id: string, userId: string) {
+    const supabase = await createClient();
+
+    const { data } = await supabase
+        .from('orders')
+        .select('id, status')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    return data;
+}
+
+function toText(raw: unknown): string | null {
+    return typeof raw === 'string' && raw.trim() ? raw.trim() : null;
+}
+
+// GET /api/orders/[id]/fulfillment - Carrier and tracking details of an order
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const order = await findOwnOrder(id, userId);
+        if (!order) {
+            return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+        }
+
+        const fulfillment = await getOrderFulfillment(order.id);
+        return NextResponse.json({ fulfillment });
+    } catch (error) {
+        console.error('Error in GET /api/orders/[id]/fulfillment:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// PATCH /api/orders/[id]/fulfillment - Set the carrier and tracking number
+export async function PATCH(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const order = await findOwnOrder(id, userId);
+        if (!order) {
+            return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+        }
+
+        const body = await request.json();
+        const values: Record<string, string | null> = {};
+        if (body.carrier !== undefined) values.carrier = toText(body.carrier);
+        if (body.trackingNumber !== undefined) values.tracking_number = toText(body.trackingNumber);
+        if (body.trackingUrl !== undefined) values.tracking_url = toText(body.trackingUrl);
+        if (body.notes !== undefined) values.notes = toText(body.notes);
+
+        if (values.tracking_url && !/^https?:\/\//i.test(values.tracking_url)) {
+            return NextResponse.json({ error: 'Tracking link must start with http:// or https://' }, { status: 400 });
+        }
+
+        const fulfillment = await updateFulfillmentTracking(order.id, userId, order.status, values);
+        if (!fulfillment) {
+            return NextResponse.json({ error: 'Failed to save fulfillment' }, { status: 500 });
+        }
+
+        return NextResponse.json({ fulfillment });
+    } catch (error) {
+        console.error('Error in PATCH /api/orders/[id]/fulfillment:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
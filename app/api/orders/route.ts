@@ -1,5 +1,11 @@
 import { NextResponse } from 'next/server';
+import { waitUntil } from '@vercel/functions';
 import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { triggerWorkflowsForOrderStatus } from '@/app/lib/workflowEngine';
+import { releaseOrderStock } from '@/app/lib/inventoryService';
+import { releaseOrderDiscount } from '@/app/lib/promotionService';
+import { invalidateCatalogCache } from '@/app/lib/productRagService';
+import { recordFulfillmentEvent } from '@/app/lib/shippingService';
 
 // GET /api/orders - Fetch all orders for the current user
 export async function GET() {
@@ -85,6 +91,27 @@ export async function PATCH(request: Request) {
             return NextResponse.json({ error: 'Order not found' }, { status: 404 });
         }
 
+        // Cancelled orders give their reserved or sold stock and their code use back
+        if (status === 'cancelled') {
+            await releaseOrderStock(data.id);
+            await releaseOrderDiscount(data.id);
+            invalidateCatalogCache(userId);
+        }
+
+        // Stamp the fulfillment and tell the customer their order shipped / arrived
+        if (status === 'shipped' || status === 'delivered') {
+            waitUntil(recordFulfillmentEvent(data.id, userId, status));
+        }
+
+        // Order status workflows run after the response is sent
+        if (status && data.lead_id) {
+            waitUntil(
+                triggerWorkflowsForOrderStatus(data.id, status, data.lead_id, userId).catch(err => {
+                    console.error('Error triggering order status workflows:', err);
+                })
+            );
+        }
+
         return NextResponse.json(data);
     } catch (error) {
         console.error('Error in PATCH /api/orders:', error);
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
 import { waitUntil } from '@vercel/functions';
+import { getActiveSequenceStatuses } from '@/app/lib/followUpSequenceService';
 
 // GET - Fetch all leads with their stages
 export async function GET() {
@@ -37,10 +38,14 @@ export async function GET() {
             return NextResponse.json({ error: 'Failed to fetch leads' }, { status: 500 });
         }
 
+        const sequenceStatuses = await getActiveSequenceStatuses(userId);
+
         // Group leads by stage
         const stagesWithLeads = stages?.map(stage => ({
             ...stage,
-            leads: leads?.filter(lead => lead.current_stage_id === stage.id) || [],
+            leads: leads
+                ?.filter(lead => lead.current_stage_id === stage.id)
+                .map(lead => ({ ...lead, sequence: sequenceStatuses[lead.id] || null })) || [],
         })) || [];
 
         return NextResponse.json({ stages: stagesWithLeads }, {
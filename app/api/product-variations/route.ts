@@ -31,7 +31,7 @@ export async function GET(request: NextRequest) {
 // POST - Create a new product variation
 export async function POST(request: NextRequest) {
     const supabase = createClient();
-    const { productId, variationTypeId, value, price } = await request.json();
+    const { productId, variationTypeId, value, price, stockQuantity } = await request.json();
 
     if (!productId || !variationTypeId || !value?.trim() || price === undefined) {
         return NextResponse.json(
@@ -47,6 +47,7 @@ export async function POST(request: NextRequest) {
             variation_type_id: variationTypeId,
             value: value.trim(),
             price: parseFloat(price),
+            stock_quantity: stockQuantity ?? null,
         })
         .select(`
             *,
@@ -64,7 +65,7 @@ export async function POST(request: NextRequest) {
 // PATCH - Update a product variation
 export async function PATCH(request: NextRequest) {
     const supabase = createClient();
-    const { id, value, price, isActive, displayOrder } = await request.json();
+    const { id, value, price, isActive, displayOrder, stockQuantity } = await request.json();
 
     if (!id) {
         return NextResponse.json({ error: 'ID is required' }, { status: 400 });
@@ -75,6 +76,7 @@ export async function PATCH(request: NextRequest) {
     if (price !== undefined) updates.price = parseFloat(price);
     if (isActive !== undefined) updates.is_active = isActive;
     if (displayOrder !== undefined) updates.display_order = displayOrder;
+    if (stockQuantity !== undefined) updates.stock_quantity = stockQuantity;  // null stops tracking
 
     const { data, error } = await supabase
         .from('product_variations')
@@ -57,7 +57,7 @@ export async function POST(req: Request) {
 
         const supabase = await createClient();
         const body = await req.json();
-        const { name, description, price, imageUrl, categoryId, displayOrder } = body;
+        const { name, description, price, imageUrl, categoryId, displayOrder, stockQuantity, lowStockThreshold, weightGrams } = body;
 
         if (!name) {
             return NextResponse.json({ error: 'Name is required' }, { status: 400 });
@@ -74,6 +74,9 @@ export async function POST(req: Request) {
                 image_url: imageUrl || null,
                 category_id: categoryId || null,
                 display_order: displayOrder || 0,
+                stock_quantity: stockQuantity ?? null,
+                low_stock_threshold: lowStockThreshold ?? 5,
+                weight_grams: weightGrams ?? null,
                 is_active: true,
             })
             .select(`
@@ -105,7 +108,7 @@ export async function PATCH(req: Request) {
 
         const supabase = await createClient();
         const body = await req.json();
-        const { id, name, description, price, imageUrl, categoryId, isActive, displayOrder } = body;
+        const { id, name, description, price, imageUrl, categoryId, isActive, displayOrder, stockQuantity, lowStockThreshold, weightGrams } = body;
 
         if (!id) {
             return NextResponse.json({ error: 'Product ID is required' }, { status: 400 });
@@ -120,6 +123,9 @@ export async function PATCH(req: Request) {
         if (categoryId !== undefined) updates.category_id = categoryId;
         if (isActive !== undefined) updates.is_active = isActive;
         if (displayOrder !== undefined) updates.display_order = displayOrder;
+        if (stockQuantity !== undefined) updates.stock_quantity = stockQuantity;  // null stops tracking
+        if (lowStockThreshold !== undefined) updates.low_stock_threshold = lowStockThreshold;
+        if (weightGrams !== undefined) updates.weight_grams = weightGrams;
 
         const { data, error } = await supabase
             .from('products')
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { normalizePromotionInput } from '@/app/lib/promotionService';
+import { invalidateCatalogCache } from '@/app/lib/productRagService';
+
+// PATCH - Update a promotion (including pausing it with isActive)
+export async function PATCH(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const input = normalizePromotionInput(await request.json(), true);
+        if ('error' in input) {
+            return NextResponse.json({ error: input.error }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('promotions')
+            .update({ ...input.values, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error updating promotion:', error);
+            return NextResponse.json({ error: 'Failed to update promotion' }, { status: 500 });
+        }
+
+        if (!data) {
+            return NextResponse.json({ error: 'Promotion not found' }, { status: 404 });
+        }
+
+        invalidateCatalogCache(userId);
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error('Error in PATCH /api/promotions/[id]:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Remove a promotion (orders keep their recorded discount breakdown)
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const supabase = await createClient();
+
+        const { error } = await supabase
+            .from('promotions')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('Error deleting promotion:', error);
+            return NextResponse.json({ error: 'Failed to delete promotion' }, { status: 500 });
+        }
+
+        invalidateCatalogCache(userId);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error in DELETE /api/promotions/[id]:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { normalizePromotionInput } from '@/app/lib/promotionService';
+import { invalidateCatalogCache } from '@/app/lib/productRagService';
+
+// GET - List the current user's promotions
+export async function GET() {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('promotions')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching promotions:', error);
+            return NextResponse.json({ error: 'Failed to fetch promotions' }, { status: 500 });
+        }
+
+        return NextResponse.json({ promotions: data || [] });
+    } catch (error) {
+        console.error('Error in GET /api/promotions:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// POST - Create a promotion
+export async function POST(request: Request) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const input = normalizePromotionInput(await request.json());
+        if ('error' in input) {
+            return NextResponse.json({ error: input.error }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('promotions')
+            .insert({ ...input.values, user_id: userId })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating promotion:', error);
+            return NextResponse.json({ error: 'Failed to create promotion' }, { status: 500 });
+        }
+
+        invalidateCatalogCache(userId);
+        return NextResponse.json(data, { status: 201 });
+    } catch (error) {
+        console.error('Error in POST /api/promotions:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/app/lib/supabaseServer';
+import { getSendTimeModelSummary } from '@/app/lib/followUpService';
+import { rebuildSendTimeModels } from '@/app/lib/sendTimeModelService';
+
+// GET - The follow-up slot the send-time model would pick next, with its offline evaluation
+export async function GET(request: Request) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const senderId = new URL(request.url).searchParams.get('senderId') || undefined;
+        const summary = await getSendTimeModelSummary(userId, senderId);
+        return NextResponse.json(summary);
+    } catch (error) {
+        console.error('Error in GET /api/send-time-model:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// POST - Retrain the model from the full follow-up history
+export async function POST() {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const result = await rebuildSendTimeModels(userId);
+        const summary = await getSendTimeModelSummary(userId);
+        return NextResponse.json({ ...summary, retrained: result });
+    } catch (error) {
+        console.error('Error in POST /api/send-time-model:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
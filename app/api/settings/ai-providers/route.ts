@@ -0,0 +1,190 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { clearUserCache } from '@/app/lib/userBotConfigService';
+import {
+    getAIProvider,
+    getAIProviders,
+    getDefaultProviderOrder,
+    isAIProviderEnabled,
+    AI_ROLES,
+    type AIRole,
+    type TenantAIProviderSettings,
+} from '@/app/lib/aiProviderRegistry';
+
+const MAX_MODEL_NAME_LENGTH = 200;
+
+/**
+ * Providers the tenant can pick from: enabled in this deployment, with the roles they serve
+ */
+function listSelectableProviders() {
+    return getAIProviders()
+        .filter(isAIProviderEnabled)
+        .map(provider => ({
+            id: provider.id,
+            label: provider.label,
+            models: provider.models,
+            roles: AI_ROLES.filter(role => provider.models[role]),
+        }));
+}
+
+/**
+ * Validate submitted settings against the selectable providers.
+ * Returns the cleaned settings, or an error message.
+ */
+function parseSettings(body: unknown): TenantAIProviderSettings | string {
+    if (!body || typeof body !== 'object') return 'Invalid settings';
+    const input = body as Record<string, unknown>;
+    const providers = listSelectableProviders();
+    const supports = (id: unknown, role: AIRole) =>
+        typeof id === 'string' && providers.some(p => p.id === id && p.roles.includes(role));
+
+    const settings: TenantAIProviderSettings = {};
+
+    for (const role of ['chat', 'vision', 'rerank'] as const) {
+        const order = input[role];
+        if (order === undefined) continue;
+        if (!Array.isArray(order) || !order.every(id => supports(id, role))) {
+            return `Unknown or unsupported ${role} provider`;
+        }
+        settings[role] = Array.from(new Set(order as string[]));
+    }
+
+    if (input.embedding !== undefined && input.embedding !== null) {
+        if (!supports(input.embedding, 'embedding')) return 'Unknown or unsupported embedding provider';
+        settings.embedding = input.embedding as string;
+    }
+
+    if (input.models !== undefined) {
+        if (!input.models || typeof input.models !== 'object') return 'Invalid model overrides';
+        settings.models = {};
+        for (const [providerId, roles] of Object.entries(input.models as Record<string, unknown>)) {
+            if (!providers.some(p => p.id === providerId) || !roles || typeof roles !== 'object') {
+                return `Unknown provider: ${providerId}`;
+            }
+            const overrides: Partial<Record<AIRole, string>> = {};
+            for (const [role, model] of Object.entries(roles as Record<string, unknown>)) {
+                if (!AI_ROLES.includes(role as AIRole)) return `Unknown role: ${role}`;
+                if (typeof model !== 'string' || model.length > MAX_MODEL_NAME_LENGTH) return 'Invalid model name';
+                if (model.trim()) overrides[role as AIRole] = model.trim();
+            }
+            if (Object.keys(overrides).length > 0) settings.models[providerId] = overrides;
+        }
+    }
+
+    return settings;
+}
+
+/**
+ * The provider and model a tenant's documents are embedded with under these settings
+ */
+function embeddingModelFor(settings: TenantAIProviderSettings): string {
+    const providerId = settings.embedding || getDefaultProviderOrder('embedding')[0];
+    const model = settings.models?.[providerId]?.embedding || getAIProvider(providerId)?.models.embedding;
+    return `${providerId}:${model || ''}`;
+}
+
+// GET - Selectable providers, the deployment defaults and the tenant's choice
+export async function GET() {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('bot_settings')
+            .select('ai_provider_settings')
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching AI provider settings:', error);
+            return NextResponse.json({ error: 'Failed to fetch AI provider settings' }, { status: 500 });
+        }
+
+        return NextResponse.json({
+            providers: listSelectableProviders(),
+            defaults: Object.fromEntries(AI_ROLES.map(role => [role, getDefaultProviderOrder(role)])),
+            settings: (data?.ai_provider_settings as TenantAIProviderSettings | null) || {},
+        });
+    } catch (error) {
+        console.error('Error:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
+
+// PUT - Replace the tenant's provider settings
+export async function PUT(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const settings = parseSettings(await req.json());
+        if (typeof settings === 'string') {
+            return NextResponse.json({ error: settings }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+
+        const { data: current, error: currentError } = await supabase
+            .from('bot_settings')
+            .select('ai_provider_settings')
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (currentError) {
+            console.error('Error fetching AI provider settings:', currentError);
+            return NextResponse.json({ error: 'Failed to update AI provider settings' }, { status: 500 });
+        }
+
+        // Stored vectors only match the model that produced them, so the model can't change under them
+        const previous = (current?.ai_provider_settings as TenantAIProviderSettings | null) || {};
+        if (embeddingModelFor(previous) !== embeddingModelFor(settings)) {
+            const { count, error: countError } = await supabase
+                .from('documents')
+                .select('id', { count: 'exact', head: true })
+                .eq('user_id', userId)
+                .not('embedding', 'is', null);
+
+            if (countError) {
+                console.error('Error counting embedded documents:', countError);
+                return NextResponse.json({ error: 'Failed to update AI provider settings' }, { status: 500 });
+            }
+
+            if (count && count > 0) {
+                return NextResponse.json({
+                    error: 'The embedding model cannot change while your knowledge base has documents embedded with the current one. Delete them first, then re-add them after switching.',
+                }, { status: 409 });
+            }
+        }
+
+        const { data, error } = await supabase
+            .from('bot_settings')
+            .update({ ai_provider_settings: settings, updated_at: new Date().toISOString() })
+            .eq('user_id', userId)
+            .select('id');
+
+        if (error) {
+            console.error('Error updating AI provider settings:', error);
+            return NextResponse.json({ error: 'Failed to update AI provider settings' }, { status: 500 });
+        }
+
+        if (!data || data.length === 0) {
+            return NextResponse.json({ error: 'Save your bot settings first' }, { status: 404 });
+        }
+
+        // Other instances pick the change up when their settings cache expires (1 minute)
+        clearUserCache(userId);
+
+        return NextResponse.json({ settings });
+    } catch (error) {
+        console.error('Error:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { normalizeShippingZoneInput } from '@/app/lib/shippingService';
+
+// PATCH - Update a shipping zone (including pausing it with isActive)
+export async function PATCH(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const input = normalizeShippingZoneInput(await request.json(), true);
+        if ('error' in input) {
+            return NextResponse.json({ error: input.error }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('shipping_zones')
+            .update({ ...input.values, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error updating shipping zone:', error);
+            return NextResponse.json({ error: 'Failed to update shipping zone' }, { status: 500 });
+        }
+
+        if (!data) {
+            return NextResponse.json({ error: 'Shipping zone not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error('Error in PATCH /api/shipping-zones/[id]:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Remove a shipping zone (orders keep the zone name and fee they were charged)
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const supabase = await createClient();
+
+        const { error } = await supabase
+            .from('shipping_zones')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('Error deleting shipping zone:', error);
+            return NextResponse.json({ error: 'Failed to delete shipping zone' }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error in DELETE /api/shipping-zones/[id]:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
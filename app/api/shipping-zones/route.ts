@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { normalizeShippingZoneInput } from '@/app/lib/shippingService';
+
+// GET - List the current user's shipping zones
+export async function GET() {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('shipping_zones')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Error fetching shipping zones:', error);
+            return NextResponse.json({ error: 'Failed to fetch shipping zones' }, { status: 500 });
+        }
+
+        return NextResponse.json({ zones: data || [] });
+    } catch (error) {
+        console.error('Error in GET /api/shipping-zones:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// POST - Create a shipping zone
+export async function POST(request: Request) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const input = normalizeShippingZoneInput(await request.json());
+        if ('error' in input) {
+            return NextResponse.json({ error: input.error }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('shipping_zones')
+            .insert({ ...input.values, user_id: userId })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating shipping zone:', error);
+            return NextResponse.json({ error: 'Failed to create shipping zone' }, { status: 500 });
+        }
+
+        return NextResponse.json(data, { status: 201 });
+    } catch (error) {
+        console.error('Error in POST /api/shipping-zones:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -99,3 +99,52 @@ export async function POST(req: Request) {
         return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
     }
 }
+
+// PATCH - Update individual store preferences (e.g. the customer cancellation window)
+export async function PATCH(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await req.json();
+        const updates: Record<string, unknown> = {};
+
+        if (body.orderCancellationWindowHours !== undefined) {
+            const hours = Number(body.orderCancellationWindowHours);
+            if (!Number.isInteger(hours) || hours < 0 || hours > 720) {
+                return NextResponse.json({ error: 'Cancellation window must be between 0 and 720 hours' }, { status: 400 });
+            }
+            updates.order_cancellation_window_hours = hours;
+        }
+
+        if (Object.keys(updates).length === 0) {
+            return NextResponse.json({ error: 'No update fields provided' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('store_settings')
+            .update(updates)
+            .eq('user_id', userId)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error updating store settings:', error);
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        if (!data) {
+            return NextResponse.json({ error: 'Set up your store first' }, { status: 404 });
+        }
+
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error('Error:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/app/lib/supabaseAdmin';
+import { priceOrder } from '@/app/lib/promotionService';
+
+// Find the sender's pending order (cart), making sure the order id they sent is theirs
+async function findCart(senderId: string, orderId: string) {
+    const { data: order } = await supabaseAdmin
+        .from('orders')
+        .select('id, leads!inner(sender_id)')
+        .eq('id', orderId)
+        .eq('status', 'pending')
+        .eq('leads.sender_id', senderId)
+        .maybeSingle();
+
+    return order;
+}
+
+// POST: Apply a discount code to the cart
+export async function POST(request: NextRequest) {
+    try {
+        const { sender_id, order_id, code } = await request.json();
+
+        if (!sender_id || !order_id || typeof code !== 'string' || !code.trim()) {
+            return NextResponse.json({ error: 'sender_id, order_id and code are required' }, { status: 400 });
+        }
+
+        const cart = await findCart(sender_id, order_id);
+        if (!cart) {
+            return NextResponse.json({ error: 'No active cart found' }, { status: 404 });
+        }
+
+        const result = await priceOrder(cart.id, code);
+        if (!result) {
+            return NextResponse.json({ error: 'Failed to apply code' }, { status: 500 });
+        }
+
+        if (result.codeError) {
+            return NextResponse.json({ error: result.codeError, pricing: result.pricing }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true, code: result.code, pricing: result.pricing });
+    } catch (error) {
+        console.error('Error applying discount code:', error);
+        return NextResponse.json({ error: 'Failed to apply code' }, { status: 500 });
+    }
+}
+
+// DELETE: Remove the cart's discount code
+export async function DELETE(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const senderId = searchParams.get('sender_id');
+        const orderId = searchParams.get('order_id');
+
+        if (!senderId || !orderId) {
+            return NextResponse.json({ error: 'sender_id and order_id are required' }, { status: 400 });
+        }
+
+        const cart = await findCart(senderId, orderId);
+        if (!cart) {
+            return NextResponse.json({ error: 'No active cart found' }, { status: 404 });
+        }
+
+        const result = await priceOrder(cart.id, null);
+        if (!result) {
+            return NextResponse.json({ error: 'Failed to remove code' }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true, pricing: result.pricing });
+    } catch (error) {
+        console.error('Error removing discount code:', error);
+        return NextResponse.json({ error: 'Failed to remove code' }, { status: 500 });
+    }
+}
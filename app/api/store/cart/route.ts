@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/app/lib/supabaseAdmin';
+import { reserveCartItemStock } from '@/app/lib/inventoryService';
+import { priceOrder } from '@/app/lib/promotionService';
 
 interface AddToCartBody {
     sender_id: string; // PSID
@@ -47,24 +49,9 @@ async function getOrCreateCart(leadId: string, userId: string) {
     return newOrder;
 }
 
-// Helper to recalculate and update order total
+// Helper to recalculate and update order total (promotions and the applied code included)
 async function recalculateOrderTotal(orderId: string) {
-    const { data: items, error } = await supabaseAdmin
-        .from('order_items')
-        .select('total_price')
-        .eq('order_id', orderId);
-
-    if (error) {
-        console.error('Error fetching order items for total:', error);
-        return;
-    }
-
-    const total = items?.reduce((sum, item) => sum + (item.total_price || 0), 0) || 0;
-
-    await supabaseAdmin
-        .from('orders')
-        .update({ total_amount: total })
-        .eq('id', orderId);
+    await priceOrder(orderId);
 }
 
 // GET: Retrieve the current cart for a sender
@@ -102,6 +89,18 @@ export async function GET(request: NextRequest) {
             return NextResponse.json({ cart: null, items: [] });
         }
 
+        // Refresh discounts (a promotion may have started or ended since the last change)
+        const priced = await priceOrder(order.id);
+        if (priced) {
+            Object.assign(order, {
+                subtotal_amount: priced.pricing.subtotal,
+                discount_amount: priced.pricing.discount,
+                total_amount: priced.pricing.total,
+                discount_code: priced.code,
+                discount_breakdown: priced.pricing.lines,
+            });
+        }
+
         // Fetch items in the cart
         const { data: items, error: itemsError } = await supabaseAdmin
             .from('order_items')
@@ -135,6 +134,10 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (!Number.isInteger(quantity) || quantity < 1) {
+            return NextResponse.json({ error: 'quantity must be a positive whole number' }, { status: 400 });
+        }
+
         // FIRST: Get product details including user_id to determine data ownership
         const { data: product, error: productError } = await supabaseAdmin
             .from('products')
@@ -199,11 +202,16 @@ export async function POST(request: NextRequest) {
             .eq('variations', variations || null)
             .single();
 
+        let itemId: string;
+        let itemQuantity: number;
+
         if (existingItem) {
             // Update quantity
+            itemId = existingItem.id;
+            itemQuantity = existingItem.quantity + quantity;
             const { error: updateError } = await supabaseAdmin
                 .from('order_items')
-                .update({ quantity: existingItem.quantity + quantity })
+                .update({ quantity: itemQuantity })
                 .eq('id', existingItem.id);
 
             if (updateError) {
@@ -212,7 +220,7 @@ export async function POST(request: NextRequest) {
             }
         } else {
             // Insert new item with user_id for tenant isolation
-            const { error: insertError } = await supabaseAdmin
+            const { data: insertedItem, error: insertError } = await supabaseAdmin
                 .from('order_items')
                 .insert({
                     order_id: cart.id,
@@ -222,12 +230,55 @@ export async function POST(request: NextRequest) {
                     unit_price,
                     variations: variations || null,
                     user_id: product.user_id,
-                });
+                })
+                .select('id')
+                .single();
 
-            if (insertError) {
+            if (insertError || !insertedItem) {
                 console.error('Error adding item to cart:', insertError);
                 return NextResponse.json({ error: 'Failed to add item to cart' }, { status: 500 });
             }
+            itemId = insertedItem.id;
+            itemQuantity = quantity;
+        }
+
+        // Hold stock for the item's new quantity; undo the cart change if there isn't enough
+        const stock = await reserveCartItemStock({
+            userId,
+            orderId: cart.id,
+            orderItemId: itemId,
+            productId: product_id,
+            variations,
+            quantity: itemQuantity,
+        });
+
+        if (!stock.ok) {
+            if (existingItem) {
+                await supabaseAdmin
+                    .from('order_items')
+                    .update({ quantity: existingItem.quantity })
+                    .eq('id', existingItem.id);
+                // Re-hold the quantity that was already in the cart
+                await reserveCartItemStock({
+                    userId,
+                    orderId: cart.id,
+                    orderItemId: existingItem.id,
+                    productId: product_id,
+                    variations,
+                    quantity: existingItem.quantity,
+                });
+            } else {
+                await supabaseAdmin.from('order_items').delete().eq('id', itemId);
+            }
+
+            // What the shopper can still add on top of what's already in their cart
+            const remaining = Math.max((stock.available ?? 0) - (existingItem?.quantity || 0), 0);
+            return NextResponse.json({
+                error: remaining > 0
+                    ? `Only ${remaining} left of ${stock.label || product.name}`
+                    : `${stock.label || product.name} is out of stock`,
+                available: remaining,
+            }, { status: 409 });
         }
 
         // Recalculate order total
@@ -246,7 +297,7 @@ export async function POST(request: NextRequest) {
                 // Get updated cart total
                 const { data: updatedCart } = await supabaseAdmin
                     .from('orders')
-                    .select('total_amount')
+                    .select('total_amount, discount_amount')
                     .eq('id', cart.id)
                     .single();
 
@@ -259,13 +310,15 @@ export async function POST(request: NextRequest) {
                 }).join('\n') || '';
 
                 const totalAmount = updatedCart?.total_amount || 0;
+                const discountAmount = Number(updatedCart?.discount_amount) || 0;
                 const itemCount = cartItems?.reduce((sum, item) => sum + item.quantity, 0) || 0;
+                const savingsText = discountAmount > 0 ? `\n🎉 You save: ₱${discountAmount.toLocaleString()}` : '';
 
                 const cartSummary = `✅ Added ${product.name} to your cart!
 
 🛒 Your Cart (${itemCount} ${itemCount === 1 ? 'item' : 'items'}):
 ${itemsList}
-
+${savingsText}
 💰 Total: ₱${totalAmount.toLocaleString()}
 
 What would you like to do next?`;
@@ -453,7 +506,7 @@ export async function DELETE(request: NextRequest) {
 
                 const { data: updatedCart } = await supabaseAdmin
                     .from('orders')
-                    .select('total_amount')
+                    .select('total_amount, discount_amount')
                     .eq('id', cart.id)
                     .single();
 
@@ -468,7 +521,9 @@ export async function DELETE(request: NextRequest) {
                     }).join('\n');
 
                     const totalAmount = updatedCart?.total_amount || 0;
-                    message += `\n\n🛒 Your Cart:\n${itemsList}\n\n💰 Total: ₱${totalAmount.toLocaleString()}`;
+                    const discountAmount = Number(updatedCart?.discount_amount) || 0;
+                    const savingsText = discountAmount > 0 ? `\n🎉 You save: ₱${discountAmount.toLocaleString()}` : '';
+                    message += `\n\n🛒 Your Cart:\n${itemsList}\n${savingsText}\n💰 Total: ₱${totalAmount.toLocaleString()}`;
                 } else {
                     message += '\n\nYour cart is now empty.';
                 }
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/app/lib/supabaseAdmin';
+import { waitUntil } from '@vercel/functions';
+import { emitWebhookEvent } from '@/app/lib/webhookEventService';
+import { triggerWorkflowsForOrderStatus } from '@/app/lib/workflowEngine';
+import { commitOrderStock, releaseOrderStock } from '@/app/lib/inventoryService';
+import { priceOrder, redeemOrderDiscount, releaseOrderDiscount } from '@/app/lib/promotionService';
+import { quoteShipping } from '@/app/lib/shippingService';
+import { invalidateCatalogCache } from '@/app/lib/productRagService';
 
 interface CheckoutBody {
     order_id: string;
@@ -7,8 +14,11 @@ interface CheckoutBody {
     customer_phone: string;
     customer_email?: string;
     shipping_address: string;
+    shipping_province?: string;
+    shipping_city?: string;
     payment_method: string;
     notes?: string;
+    discount_code?: string | null; // Omit to keep the code already applied to the cart
 }
 
 // POST: Process checkout for a pending order
@@ -21,8 +31,11 @@ export async function POST(request: NextRequest) {
             customer_phone,
             customer_email,
             shipping_address,
+            shipping_province,
+            shipping_city,
             payment_method,
-            notes
+            notes,
+            discount_code
         } = body;
 
         // Validation
@@ -36,7 +49,7 @@ export async function POST(request: NextRequest) {
         // Verify order exists and is pending
         const { data: order, error: orderError } = await supabaseAdmin
             .from('orders')
-            .select('id, lead_id, total_amount')
+            .select('id, lead_id, user_id')
             .eq('id', order_id)
             .eq('status', 'pending')
             .single();
@@ -45,7 +58,89 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Order not found or not available for checkout' }, { status: 404 });
         }
 
-        // Update order status and details
+        // Final price: promotions may have started or ended, and the code may have run out
+        const priced = await priceOrder(order.id, discount_code);
+        if (!priced) {
+            return NextResponse.json({ error: 'Failed to price order' }, { status: 500 });
+        }
+        if (priced.codeError) {
+            // The code is dropped from the order, so placing it again goes through at the new total
+            return NextResponse.json({ error: priced.codeError, pricing: priced.pricing }, { status: 400 });
+        }
+
+        // Shipping zone for the address: the fee is added on top of the discounted total
+        const shipping = await quoteShipping({
+            userId: order.user_id,
+            orderId: order.id,
+            province: shipping_province?.trim() || null,
+            city: shipping_city?.trim() || null,
+            orderTotal: priced.pricing.total,
+            freeShipping: priced.pricing.freeShipping,
+        });
+        if (shipping.error) {
+            return NextResponse.json({ error: shipping.error }, { status: 400 });
+        }
+        if (payment_method === 'COD' && !shipping.codAvailable) {
+            return NextResponse.json({ error: `Cash on delivery is not available in ${shipping.zone?.name || 'your area'}` }, { status: 400 });
+        }
+
+        // Claim the order: of two concurrent checkouts only one gets past here,
+        // so stock and the discount code are taken once
+        const confirmedAt = new Date().toISOString();
+        const { data: claimed, error: claimError } = await supabaseAdmin
+            .from('orders')
+            .update({ status: 'confirmed', confirmed_at: confirmedAt })
+            .eq('id', order.id)
+            .eq('status', 'pending')
+            .select('id');
+
+        if (claimError) {
+            console.error('Error claiming order for checkout:', claimError);
+            return NextResponse.json({ error: 'Failed to process checkout' }, { status: 500 });
+        }
+        if (!claimed || claimed.length === 0) {
+            return NextResponse.json({ error: 'Order not found or not available for checkout' }, { status: 409 });
+        }
+
+        // Put the order back in the cart when checkout fails after the claim
+        const unclaimOrder = async () => {
+            const { error } = await supabaseAdmin
+                .from('orders')
+                .update({ status: 'pending', confirmed_at: null })
+                .eq('id', order.id)
+                .eq('status', 'confirmed');
+            if (error) console.error('Error returning order to pending:', error);
+        };
+
+        // Take the items out of stock; refuse checkout if anything sold out while in the cart
+        const stock = await commitOrderStock(order.id, order.user_id);
+        if (!stock.ok) {
+            if (stock.error) await releaseOrderStock(order.id);
+            await unclaimOrder();
+            return NextResponse.json({
+                error: stock.unavailable.length > 0
+                    ? `Some items are no longer available: ${stock.unavailable.join(', ')}`
+                    : stock.error || 'Failed to check stock',
+                unavailable: stock.unavailable,
+            }, { status: stock.unavailable.length > 0 ? 409 : 500 });
+        }
+
+        // Count the code's use; the last redemption may have been taken by someone else
+        if (!await redeemOrderDiscount(order.id)) {
+            await releaseOrderStock(order.id);
+            await unclaimOrder();
+            const repriced = await priceOrder(order.id, null);
+            return NextResponse.json({
+                error: 'This code has reached its usage limit',
+                pricing: repriced?.pricing,
+            }, { status: 409 });
+        }
+        invalidateCatalogCache(order.user_id || undefined);
+
+        const { pricing } = priced;
+        const totalAmount = Math.round((pricing.total + shipping.fee) * 100) / 100;
+
+        // Update order details
         console.log('Updating order with:', {
             status: 'confirmed',
             customer_name,
@@ -54,26 +149,34 @@ export async function POST(request: NextRequest) {
             shipping_address,
             payment_method,
             notes,
-            confirmed_at: new Date().toISOString(),
+            confirmed_at: confirmedAt,
         });
 
         const { data: updateData, error: updateError } = await supabaseAdmin
             .from('orders')
             .update({
-                status: 'confirmed',
                 customer_name,
                 customer_phone,
                 customer_email,
                 shipping_address,
+                shipping_province: shipping_province?.trim() || null,
+                shipping_city: shipping_city?.trim() || null,
+                shipping_zone_id: shipping.zone?.id || null,
+                shipping_zone_name: shipping.zone?.name || null,
+                shipping_fee: shipping.fee,
+                total_amount: totalAmount,
                 payment_method,
                 notes,
-                confirmed_at: new Date().toISOString(),
             })
             .eq('id', order_id)
             .select();
 
         if (updateError) {
             console.error('Error updating order:', updateError);
+            await releaseOrderStock(order.id);
+            await releaseOrderDiscount(order.id);
+            await unclaimOrder();
+            invalidateCatalogCache(order.user_id || undefined);
             return NextResponse.json({ error: 'Failed to process checkout' }, { status: 500 });
         }
 
@@ -92,6 +195,36 @@ export async function POST(request: NextRequest) {
             .eq('id', order.lead_id)
             .single();
 
+        // Notify the tenant's webhook subscribers after the response is sent
+        waitUntil(
+            emitWebhookEvent(order.user_id, 'order.confirmed', {
+                order_id: order.id,
+                lead_id: order.lead_id,
+                total_amount: totalAmount,
+                subtotal_amount: pricing.subtotal,
+                discount_amount: pricing.discount,
+                discounts: pricing.lines,
+                shipping_fee: shipping.fee,
+                shipping_zone: shipping.zone?.name || null,
+                customer_name,
+                customer_phone,
+                customer_email: customer_email || null,
+                shipping_address,
+                payment_method,
+                notes: notes || null,
+                items: orderItems || [],
+            })
+        );
+
+        // Order status workflows run after the response is sent
+        if (order.lead_id && order.user_id) {
+            waitUntil(
+                triggerWorkflowsForOrderStatus(order.id, 'confirmed', order.lead_id, order.user_id).catch(err => {
+                    console.error('Error triggering order status workflows:', err);
+                })
+            );
+        }
+
         // Send confirmation to Messenger
         if (lead?.page_id && order.lead_id) {
             try {
@@ -112,14 +245,20 @@ export async function POST(request: NextRequest) {
                         `${idx + 1}. ${item.product_name} (x${item.quantity}) - ₱${(item.unit_price * item.quantity).toLocaleString()}`
                     ).join('\n') || '';
 
+                    const discountList = pricing.lines
+                        .filter(line => line.amount > 0)
+                        .map(line => `🎉 ${line.source === 'code' ? `Code ${line.label}` : line.label}: -₱${line.amount.toLocaleString()}`)
+                        .join('\n');
+
                     const confirmationMessage = `✅ Order Confirmed!
 
 Thank you ${customer_name}! Your order has been placed successfully.
 
 📦 Order Summary:
 ${itemsList}
-
-💰 Total: ₱${order.total_amount.toLocaleString()}
+${discountList ? `\n${discountList}\n` : ''}
+🚚 Shipping: ${shipping.fee > 0 ? `₱${shipping.fee.toLocaleString()}` : 'Free'}
+💰 Total: ₱${totalAmount.toLocaleString()}
 
 📍 Delivery Address:
 ${shipping_address}
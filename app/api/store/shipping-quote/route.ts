@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/app/lib/supabaseAdmin';
+import { quoteShipping } from '@/app/lib/shippingService';
+import type { DiscountLine } from '@/app/lib/promotionService';
+
+// GET: Shipping fee and COD availability for the sender's cart to a province / city
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const senderId = searchParams.get('sender_id');
+        const orderId = searchParams.get('order_id');
+
+        if (!senderId || !orderId) {
+            return NextResponse.json({ error: 'sender_id and order_id are required' }, { status: 400 });
+        }
+
+        const { data: cart } = await supabaseAdmin
+            .from('orders')
+            .select('id, user_id, total_amount, discount_breakdown, leads!inner(sender_id)')
+            .eq('id', orderId)
+            .eq('status', 'pending')
+            .eq('leads.sender_id', senderId)
+            .maybeSingle();
+
+        if (!cart) {
+            return NextResponse.json({ error: 'No active cart found' }, { status: 404 });
+        }
+
+        const quote = await quoteShipping({
+            userId: cart.user_id,
+            orderId: cart.id,
+            province: searchParams.get('province')?.trim() || null,
+            city: searchParams.get('city')?.trim() || null,
+            orderTotal: Number(cart.total_amount) || 0,
+            freeShipping: ((cart.discount_breakdown || []) as DiscountLine[]).some(line => line.freeShipping),
+        });
+
+        return NextResponse.json({ quote });
+    } catch (error) {
+        console.error('Error quoting shipping:', error);
+        return NextResponse.json({ error: 'Failed to quote shipping' }, { status: 500 });
+    }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { isValidWebhookUrl, filterWebhookEventTypes } from '@/app/lib/webhookEventService';
+
+// PATCH - Update a subscription's name, URL, events or active state
+export async function PATCH(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const body = await request.json();
+        const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+        if (body.name !== undefined) updates.name = body.name || null;
+        if (body.is_active !== undefined) updates.is_active = !!body.is_active;
+        if (body.url !== undefined) {
+            if (!await isValidWebhookUrl(body.url)) {
+                return NextResponse.json({ error: 'A valid public http(s) URL is required' }, { status: 400 });
+            }
+            updates.url = body.url;
+        }
+        if (body.events !== undefined) {
+            const events = filterWebhookEventTypes(body.events);
+            if (events.length === 0) {
+                return NextResponse.json({ error: 'Select at least one event' }, { status: 400 });
+            }
+            updates.events = events;
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('webhook_subscriptions')
+            .update(updates)
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error updating webhook subscription:', error);
+            return NextResponse.json({ error: 'Failed to update webhook subscription' }, { status: 500 });
+        }
+
+        if (!data) {
+            return NextResponse.json({ error: 'Webhook subscription not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error('Error in PATCH /api/webhook-subscriptions/[id]:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Remove a subscription (its delivery log is removed with it)
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const supabase = await createClient();
+
+        const { error } = await supabase
+            .from('webhook_subscriptions')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('Error deleting webhook subscription:', error);
+            return NextResponse.json({ error: 'Failed to delete webhook subscription' }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error in DELETE /api/webhook-subscriptions/[id]:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+
+// GET - Recent webhook deliveries for the current user (optionally for one subscription)
+export async function GET(request: Request) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const subscriptionId = searchParams.get('subscription_id');
+        const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+        const supabase = await createClient();
+
+        let query = supabase
+            .from('webhook_deliveries')
+            .select('id, subscription_id, event_type, payload, status, attempts, response_status, response_body, error, created_at, delivered_at')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (subscriptionId) {
+            query = query.eq('subscription_id', subscriptionId);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+            console.error('Error fetching webhook deliveries:', error);
+            return NextResponse.json({ error: 'Failed to fetch webhook deliveries' }, { status: 500 });
+        }
+
+        return NextResponse.json({ deliveries: data || [] });
+    } catch (error) {
+        console.error('Error in GET /api/webhook-subscriptions/deliveries:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import {
+    WEBHOOK_EVENT_TYPES,
+    generateWebhookSecret,
+    isValidWebhookUrl,
+    filterWebhookEventTypes,
+} from '@/app/lib/webhookEventService';
+
+// GET - List the current user's webhook subscriptions
+export async function GET() {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('webhook_subscriptions')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching webhook subscriptions:', error);
+            return NextResponse.json({ error: 'Failed to fetch webhook subscriptions' }, { status: 500 });
+        }
+
+        return NextResponse.json({ subscriptions: data || [], events: WEBHOOK_EVENT_TYPES });
+    } catch (error) {
+        console.error('Error in GET /api/webhook-subscriptions:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// POST - Register a new endpoint (a signing secret is generated for it)
+export async function POST(request: Request) {
+    try {
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const { name, url, events } = body;
+
+        if (!url || !await isValidWebhookUrl(url)) {
+            return NextResponse.json({ error: 'A valid public http(s) URL is required' }, { status: 400 });
+        }
+
+        const selectedEvents = filterWebhookEventTypes(events);
+        if (selectedEvents.length === 0) {
+            return NextResponse.json({ error: 'Select at least one event' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('webhook_subscriptions')
+            .insert({
+                user_id: userId,
+                name: name || null,
+                url,
+                secret: generateWebhookSecret(),
+                events: selectedEvents,
+                is_active: true,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating webhook subscription:', error);
+            return NextResponse.json({ error: 'Failed to create webhook subscription' }, { status: 500 });
+        }
+
+        return NextResponse.json(data, { status: 201 });
+    } catch (error) {
+        console.error('Error in POST /api/webhook-subscriptions:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,119 @@
+import { handleImageMessage, handleMessage, handlePostback, handleReferral } from './messageHandlers';
+import { checkAndMarkProcessed } from '@/app/lib/webhookDeduplication';
+import {
+    claimFailedWebhookEvent,
+    completeFailedWebhookEvent,
+    getDueFailedWebhookEventIds,
+    type DeadLetterStatus,
+    type FailedWebhookEvent,
+} from '@/app/lib/webhookDeadLetterService';
+
+export type ReplayOutcome = DeadLetterStatus | 'skipped';
+
+export interface ReplayResult {
+    id: string;
+    outcome: ReplayOutcome;
+    error?: string;
+}
+
+/**
+ * Run the handler a failed event originally went to. Work the handler defers (waitUntil in the
+ * webhook) is awaited here so its failure counts as a failed replay too.
+ */
+async function dispatchFailedEvent(event: FailedWebhookEvent): Promise<void> {
+    const payload = event.payload;
+    const senderId = payload.sender?.id || event.sender_id;
+    const pageId = event.page_id;
+    const userId = event.user_id;
+
+    if (!senderId) {
+        throw new Error('Event has no sender');
+    }
+
+    switch (event.handler) {
+        case 'message': {
+            if (!payload.message?.text) throw new Error('Event has no message text');
+            await handleMessage(senderId, payload.message.text, pageId, userId);
+            return;
+        }
+        case 'image': {
+            const imageUrls = (payload.message?.attachments || [])
+                .filter(att => att.type === 'image')
+                .map(att => att.payload?.url)
+                .filter((url): url is string => !!url);
+            if (imageUrls.length === 0) throw new Error('Event has no image attachment');
+            for (const imageUrl of imageUrls) {
+                await handleImageMessage(senderId, imageUrl, pageId, userId, payload.message?.text);
+            }
+            return;
+        }
+        case 'postback': {
+            const deferred: Promise<unknown>[] = [];
+            await handlePostback(payload.postback, senderId, pageId, userId, promise => { deferred.push(promise); });
+            await Promise.all(deferred);
+            return;
+        }
+        case 'referral': {
+            await handleReferral(senderId, payload.referral, pageId, userId);
+            return;
+        }
+        default:
+            throw new Error('Event was not recorded by the Messenger webhook and cannot be replayed');
+    }
+}
+
+/**
+ * Replay one dead-lettered event. It is claimed first (so it runs once even if the cron and an
+ * admin replay at the same moment), then its dedupe key goes through checkAndMarkProcessed
+ * like a fresh delivery - if something else already handled the message it is not run again.
+ */
+export async function replayFailedWebhookEvent(
+    id: string,
+    fromStatuses: DeadLetterStatus[] = ['pending']
+): Promise<ReplayResult> {
+    const event = await claimFailedWebhookEvent(id, fromStatuses);
+    if (!event) {
+        return { id, outcome: 'skipped' };
+    }
+
+    if (event.dedupe_key && await checkAndMarkProcessed(event.dedupe_key)) {
+        console.log(`[DeadLetter] ${event.dedupe_key} was already processed, not replaying`);
+        const outcome = await completeFailedWebhookEvent(event, { ok: true, note: 'Already processed by another delivery' });
+        return { id, outcome };
+    }
+
+    try {
+        await dispatchFailedEvent(event);
+        const outcome = await completeFailedWebhookEvent(event, { ok: true });
+        console.log(`[DeadLetter] Replayed ${event.handler} event ${id}`);
+        return { id, outcome };
+    } catch (error) {
+        console.error(`[DeadLetter] Replay of ${id} failed:`, error);
+        const outcome = await completeFailedWebhookEvent(event, { ok: false, error });
+        return { id, outcome, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+/**
+ * Replay events picked in the admin screen, including ones that ran out of automatic retries
+ */
+export async function replayFailedWebhookEvents(ids: string[]): Promise<ReplayResult[]> {
+    const results: ReplayResult[] = [];
+    // One at a time - events of the same conversation must be handled in order
+    for (const id of ids) {
+        results.push(await replayFailedWebhookEvent(id, ['pending', 'failed']));
+    }
+    return results;
+}
+
+/**
+ * Automatic retry pass, run by the retry cron
+ */
+export async function retryDueWebhookEvents(): Promise<ReplayResult[]> {
+    const ids = await getDueFailedWebhookEventIds();
+    const results: ReplayResult[] = [];
+    for (const id of ids) {
+        results.push(await replayFailedWebhookEvent(id));
+    }
+    return results;
+}
@@ -1,6 +1,9 @@
 import { getPageToken } from './config';
 import type { DigitalProduct, PaymentMethod, Product, Property } from './data';
 import { withRetry, isTransientError } from '@/app/lib/retryHelper';
+import type { SendDecision } from '@/app/lib/messagingPolicyService';
+import { getProductStock } from '@/app/lib/inventoryService';
+import type { CustomerDigitalPurchase, CustomerOrder } from '@/app/lib/orderStatusService';
 
 const DEFAULT_APP_URL = process.env.NEXT_PUBLIC_BASE_URL || process.env.NEXT_PUBLIC_APP_URL || 'https://aphelion-photon.vercel.app';
 
@@ -153,6 +156,80 @@ export async function sendCancellationConfirmation(
     }
 }
 
+// Ask the customer to confirm cancelling an order
+export async function sendOrderCancellationConfirmation(
+    sender_psid: string,
+    order: Pick<CustomerOrder, 'id' | 'reference' | 'itemSummary' | 'totalAmount'>,
+    pageId?: string
+): Promise<boolean> {
+    const PAGE_ACCESS_TOKEN = await getPageToken(pageId);
+    if (!PAGE_ACCESS_TOKEN) return false;
+
+    const items = order.itemSummary.length > 200 ? order.itemSummary.substring(0, 197) + '...' : order.itemSummary;
+
+    const requestBody = {
+        messaging_type: 'RESPONSE',
+        recipient: { id: sender_psid },
+        message: {
+            attachment: {
+                type: 'template',
+                payload: {
+                    template_type: 'button',
+                    text: `⚠️ Cancel order ${order.reference}?\n\n${items}\n💰 ₱${order.totalAmount.toLocaleString()}\n\nPlease confirm below:`,
+                    buttons: [
+                        {
+                            type: 'postback',
+                            title: '✅ Yes, Cancel It',
+                            payload: `CANCEL_ORDER_CONFIRM_${order.id}`
+                        },
+                        {
+                            type: 'postback',
+                            title: '❌ Keep My Order',
+                            payload: `CANCEL_ORDER_KEEP_${order.id}`
+                        }
+                    ]
+                }
+            }
+        }
+    };
+
+    console.log('Sending order cancellation confirmation:', JSON.stringify(requestBody, null, 2));
+
+    try {
+        await withRetry(async () => {
+            const res = await fetch(
+                `https://graph.facebook.com/v21.0/me/messages?access_token=${PAGE_ACCESS_TOKEN}`,
+                {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(requestBody),
+                }
+            );
+
+            const resData = await res.json();
+            if (!res.ok) {
+                if (res.status >= 500 || res.status === 429) {
+                    throw new Error(`Facebook API Error ${res.status}: ${JSON.stringify(resData)}`);
+                }
+                console.error('Failed to send order cancellation confirmation (Non-retryable):', resData);
+                throw new Error('Non-retryable Facebook API Error');
+            }
+            return resData;
+        }, {
+            maxAttempts: 2,
+            initialDelayMs: 500,
+            backoffMultiplier: 2,
+            shouldRetry: isTransientError
+        });
+
+        console.log('Order cancellation confirmation sent successfully');
+        return true;
+    } catch (error) {
+        console.error('Error sending order cancellation confirmation after retries:', error);
+        return false;
+    }
+}
+
 export async function getUserProfile(sender_psid: string, pageId?: string) {
     const PAGE_ACCESS_TOKEN = await getPageToken(pageId);
     if (!PAGE_ACCESS_TOKEN) return null;
@@ -178,14 +255,25 @@ export async function sendProductCards(sender_psid: string, products: Product[],
     const PAGE_ACCESS_TOKEN = await getPageToken(pageId);
     if (!PAGE_ACCESS_TOKEN || products.length === 0) return false;
 
+    // Sold-out products aren't offered; nearly sold-out ones say so
+    const stock = await getProductStock(products.map(p => p.id));
+    const inStock = products.filter(product => !stock[product.id]?.soldOut);
+    if (inStock.length === 0) return false;
+
     // Build elements for Generic Template (max 10)
-    const elements = products.slice(0, 10).map(product => {
+    const elements = inStock.slice(0, 10).map(product => {
         const priceFormatted = product.price
             ? `₱${product.price.toLocaleString('en-PH', { minimumFractionDigits: 2 })}`
             : 'Price upon request';
 
         // Truncate description if too long
         let subtitle = priceFormatted;
+        const productStock = stock[product.id];
+        if (productStock?.lowStock) {
+            subtitle += productStock.product.tracked
+                ? ` • Only ${productStock.product.available} left`
+                : ' • Some options almost gone';
+        }
         if (product.description) {
             const desc = product.description.length > 50
                 ? product.description.substring(0, 47) + '...'
@@ -280,6 +368,137 @@ export async function sendProductCards(sender_psid: string, products: Product[],
     }
 }
 
+const ORDER_STATUS_LABELS: Record<string, string> = {
+    confirmed: '✅ Confirmed',
+    processing: '📦 Preparing',
+    shipped: '🚚 Shipped',
+    delivered: '🏠 Delivered',
+    cancelled: '❌ Cancelled',
+};
+
+// Send the customer's recent orders and digital purchases as Generic Template cards
+export async function sendOrderStatusCards(
+    sender_psid: string,
+    orders: CustomerOrder[],
+    digitalPurchases: CustomerDigitalPurchase[],
+    pageId?: string
+) {
+    const PAGE_ACCESS_TOKEN = await getPageToken(pageId);
+    if (!PAGE_ACCESS_TOKEN || (orders.length === 0 && digitalPurchases.length === 0)) return false;
+
+    const orderElements = orders.map(order => {
+        const payment = order.paymentStatus === 'paid' ? '💳 Paid' : `💳 Payment ${order.paymentStatus}`;
+        let subtitle = `${ORDER_STATUS_LABELS[order.status] || order.status} • ${payment} • ₱${order.totalAmount.toLocaleString()}`;
+        if (order.trackingNumber) {
+            subtitle += `\n${order.carrier ? `${order.carrier}: ` : 'Tracking: '}${order.trackingNumber}`;
+        } else if (order.itemSummary) {
+            subtitle += `\n${order.itemSummary}`;
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const element: any = {
+            title: `Order ${order.reference}`,
+            subtitle: subtitle.length > 80 ? subtitle.substring(0, 77) + '...' : subtitle,
+        };
+
+        if (order.imageUrl) {
+            element.image_url = order.imageUrl;
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const buttons: any[] = [];
+        if (order.trackingUrl) {
+            buttons.push({
+                type: 'web_url',
+                url: order.trackingUrl,
+                title: '📍 Track Package',
+                webview_height_ratio: 'tall'
+            });
+        }
+        if (order.cancellable) {
+            buttons.push({
+                type: 'postback',
+                title: '❌ Cancel Order',
+                payload: `CANCEL_ORDER_${order.id}`
+            });
+        }
+        if (buttons.length > 0) {
+            element.buttons = buttons;
+        }
+
+        return element;
+    });
+
+    const digitalElements = digitalPurchases.map(purchase => {
+        let subtitle = `Access: ${purchase.status}`;
+        if (purchase.amountPaid !== null) subtitle += ` • ₱${purchase.amountPaid.toLocaleString()}`;
+        if (purchase.accessExpiresAt) subtitle += ` • until ${new Date(purchase.accessExpiresAt).toLocaleDateString('en-PH')}`;
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const element: any = {
+            title: `💻 ${purchase.title}`,
+            subtitle,
+        };
+        if (purchase.imageUrl) {
+            element.image_url = purchase.imageUrl;
+        }
+        return element;
+    });
+
+    // Generic Template allows max 10 elements
+    const elements = [...orderElements, ...digitalElements].slice(0, 10);
+
+    const requestBody = {
+        messaging_type: 'RESPONSE',
+        recipient: { id: sender_psid },
+        message: {
+            attachment: {
+                type: 'template',
+                payload: {
+                    template_type: 'generic',
+                    elements: elements
+                }
+            }
+        }
+    };
+
+    console.log('Sending order status cards:', JSON.stringify(requestBody, null, 2));
+
+    try {
+        await withRetry(async () => {
+            const res = await fetch(
+                `https://graph.facebook.com/v21.0/me/messages?access_token=${PAGE_ACCESS_TOKEN}`,
+                {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(requestBody),
+                }
+            );
+
+            const resData = await res.json();
+            if (!res.ok) {
+                if (res.status >= 500 || res.status === 429) {
+                    throw new Error(`Facebook API Error ${res.status}: ${JSON.stringify(resData)}`);
+                }
+                console.error('Failed to send order status cards (Non-retryable):', resData);
+                throw new Error('Non-retryable Facebook API Error');
+            }
+            return resData;
+        }, {
+            maxAttempts: 2,
+            initialDelayMs: 500,
+            backoffMultiplier: 2,
+            shouldRetry: isTransientError
+        });
+
+        console.log('Order status cards sent successfully');
+        return true;
+    } catch (error) {
+        console.error('Error sending order status cards after retries:', error);
+        return false;
+    }
+}
+
 // Send properties as Facebook Generic Template cards
 export async function sendPropertyCards(sender_psid: string, properties: Property[], pageId?: string) {
     const PAGE_ACCESS_TOKEN = await getPageToken(pageId);
@@ -604,7 +823,8 @@ export async function sendTypingIndicator(sender_psid: string, on: boolean, page
 }
 
 
-export async function callSendAPI(sender_psid: string, response: any, pageId?: string) {
+// Pass a decision from authorizeSend for sends that aren't a direct reply (e.g. agent messages)
+export async function callSendAPI(sender_psid: string, response: any, pageId?: string, decision?: SendDecision) {
     const PAGE_ACCESS_TOKEN = await getPageToken(pageId);
 
     console.log('callSendAPI called, token present:', !!PAGE_ACCESS_TOKEN);
@@ -614,13 +834,21 @@ export async function callSendAPI(sender_psid: string, response: any, pageId?: s
         return;
     }
 
-    const requestBody = {
-        messaging_type: 'RESPONSE',
-        recipient: {
-            id: sender_psid,
-        },
-        message: response,
-    };
+    const requestBody = decision?.oneTimeNotifToken
+        ? {
+            recipient: {
+                one_time_notif_token: decision.oneTimeNotifToken,
+            },
+            message: response,
+        }
+        : {
+            messaging_type: decision?.messagingType || 'RESPONSE',
+            ...(decision?.tag ? { tag: decision.tag } : {}),
+            recipient: {
+                id: sender_psid,
+            },
+            message: response,
+        };
 
     console.log('Sending to Facebook:', JSON.stringify(requestBody, null, 2));
 
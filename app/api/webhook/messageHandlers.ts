@@ -1,4 +1,4 @@
-import { generateConversationSummary, getBotResponse, getConversationHistory, ImageContext } from '@/app/lib/chatService';
+import { generateConversationSummary, getBotResponse, getConversationHistory, storeMessageAsync, ImageContext } from '@/app/lib/chatService';
 import { analyzePriority, updateLeadPriority } from '@/app/lib/priorityAnalysisService';
 import { extractAndStoreContactInfo, extractContactInfo } from '@/app/lib/contactExtractionService';
 import { isTakeoverActive } from '@/app/lib/humanTakeoverService';
@@ -10,7 +10,7 @@ import { detectNeedsHumanAttention, activateSmartPassive, trackQuestion, isSmart
 import { calculateTypingDelay, getMessageGapDelay, detectMessageComplexity, getThinkingDelay } from '@/app/lib/responseTimingService';
 
 import { trackActivity } from '@/app/lib/activityTrackingService';
-import { callSendAPI, sendAppointmentCard, sendDigitalProductCards, sendPaymentMethodCards, sendProductCards, sendPropertyCards, sendTypingIndicator } from './facebookClient';
+import { callSendAPI, sendAppointmentCard, sendDigitalProductCards, sendOrderCancellationConfirmation, sendOrderStatusCards, sendPaymentMethodCards, sendProductCards, sendPropertyCards, sendTypingIndicator } from './facebookClient';
 import { getPageToken, getSettings, getSettingsForUser } from './config';
 import { getDigitalProductById, getDigitalProducts, getPaymentMethods, getProductById, getProducts, getProperties, getPropertyById, PaymentMethod } from './data';
 import { isAppointmentQuery, isPaymentQuery, isProductQuery, isPropertyQuery } from './keywords';
@@ -18,6 +18,8 @@ import { markCustomerReplied, scheduleNextFollowUp } from '@/app/lib/followUpSer
 import { sendMessengerAttachment, AttachmentType } from '@/app/lib/messengerService';
 import { getMediaById, trackMediaUsage } from '@/app/lib/mediaLibraryService';
 import { getBotSettingsForUser, getBotRulesForUser, getBotInstructionsForUser } from '@/app/lib/userBotConfigService';
+import { resumeWorkflowsAwaitingReply, triggerWorkflowsForMessage, triggerWorkflowsForOrderStatus, triggerWorkflowsForPostback, triggerWorkflowsForReferral } from '@/app/lib/workflowEngine';
+import { cancelCustomerOrder, getCustomerOrderHistory } from '@/app/lib/orderStatusService';
 
 type WaitUntil = (promise: Promise<unknown>) => void;
 
@@ -28,6 +30,19 @@ export async function handleReferral(sender_psid: string, referral: any, pageId?
 
     console.log('Handling referral ref:', ref);
 
+    // Referral-triggered workflows run alongside the built-in product/property handling below
+    if (userId) {
+        try {
+            const pageToken = await getPageToken(pageId);
+            const lead = await getOrCreateLead(sender_psid, pageToken || undefined, userId);
+            if (lead) {
+                await triggerWorkflowsForReferral(lead.id, sender_psid, ref, userId);
+            }
+        } catch (err) {
+            console.error('Error triggering referral workflows:', err);
+        }
+    }
+
     // Parse ref
     const params = new URLSearchParams(ref.replace(/\|/g, '&').replace(/:/g, '='));
     const productId = params.get('p_id');
@@ -166,6 +181,28 @@ export async function handleReferral(sender_psid: string, referral: any, pageId?
     }, pageId);
 }
 
+// Ask the customer to confirm cancelling one of their orders, or explain why they can't
+async function requestOrderCancellation(sender_psid: string, orderId: string, pageId?: string, userId?: string | null) {
+    const { orders } = await getCustomerOrderHistory(sender_psid, userId);
+    const order = orders.find(o => o.id === orderId || o.reference === orderId || o.reference === `#${orderId}`);
+
+    if (!order) {
+        await callSendAPI(sender_psid, {
+            text: "Hindi ko po makita ang order na yan. Pwede mo bang i-check ulit? 🤔"
+        }, pageId);
+        return;
+    }
+
+    if (!order.cancellable) {
+        await callSendAPI(sender_psid, {
+            text: `Sorry, order ${order.reference} can't be cancelled: ${order.cancelBlockedReason}. 😔 A team member can help you with it.`
+        }, pageId);
+        return;
+    }
+
+    await sendOrderCancellationConfirmation(sender_psid, order, pageId);
+}
+
 export async function handlePostback(postback: any, sender_psid: string, recipient_psid?: string, userId?: string | null, defer?: WaitUntil) {
     if (postback.referral) {
         console.log('Postback has referral:', postback.referral);
@@ -177,6 +214,24 @@ export async function handlePostback(postback: any, sender_psid: string, recipie
         return true;
     }
 
+    // Postback-triggered workflows run alongside the built-in payload handling below
+    if (postback.payload && userId) {
+        const triggering = (async () => {
+            const pageToken = await getPageToken(recipient_psid);
+            const lead = await getOrCreateLead(sender_psid, pageToken || undefined, userId);
+            if (lead) {
+                await triggerWorkflowsForPostback(lead.id, sender_psid, postback.payload, userId);
+            }
+        })().catch(err => {
+            console.error('Error triggering postback workflows:', err);
+        });
+        if (defer) {
+            defer(triggering);
+        } else {
+            await triggering;
+        }
+    }
+
     if (postback.payload && postback.payload.startsWith('PAY_')) {
         console.log('Payment postback received:', postback.payload);
         return false;
@@ -316,6 +371,12 @@ export async function handlePostback(postback: any, sender_psid: string, recipie
                 await trackActivity(sender_psid, 'add_to_cart', productId, product.name, {
                     price: product.price,
                 });
+            } else if (res.status === 409) {
+                // Not enough stock left
+                const { error } = await res.json();
+                await callSendAPI(sender_psid, {
+                    text: `Sorry! ${error || `${product.name} is out of stock`}. 😔 Please pick another item or option.`
+                }, recipient_psid);
             } else {
                 console.error('Failed to add to cart:', await res.text());
                 await callSendAPI(sender_psid, {
@@ -440,6 +501,76 @@ export async function handlePostback(postback: any, sender_psid: string, recipie
         return true;
     }
 
+    // Handle Order Cancellation Confirmation
+    if (postback.payload && postback.payload.startsWith('CANCEL_ORDER_CONFIRM_')) {
+        const orderId = postback.payload.replace('CANCEL_ORDER_CONFIRM_', '');
+        console.log('Order Cancellation Confirmed:', orderId);
+
+        // Multi-tenant safety: require userId before executing cancellation
+        if (!userId) {
+            console.error('[OrderCancellation] Missing userId for order cancellation, aborting to prevent cross-tenant access');
+            await callSendAPI(sender_psid, {
+                text: "Sorry, there was an issue processing your request. Please try again or contact us directly. 😔"
+            }, recipient_psid);
+            return true;
+        }
+
+        try {
+            const result = await cancelCustomerOrder(sender_psid, orderId, userId);
+            if (!result.ok || !result.order) {
+                await callSendAPI(sender_psid, {
+                    text: `Sorry, ${result.message.charAt(0).toLowerCase()}${result.message.slice(1)}. 😔 A team member can help you with it.`
+                }, recipient_psid);
+                return true;
+            }
+
+            await callSendAPI(sender_psid, {
+                text: `✅ Your order ${result.order.reference} has been cancelled.\n\nIf you'd like to order again, just let me know! 🛍️`
+            }, recipient_psid);
+
+            await trackActivity(sender_psid, 'order_cancelled', result.order.id, `Order ${result.order.reference} cancelled via Messenger`, {
+                order_id: result.order.id,
+            });
+
+            if (result.order.lead_id) {
+                const workflows = triggerWorkflowsForOrderStatus(result.order.id, 'cancelled', result.order.lead_id, userId).catch(err => {
+                    console.error('Error triggering order status workflows:', err);
+                });
+                if (defer) {
+                    defer(workflows);
+                } else {
+                    await workflows;
+                }
+            }
+        } catch (error) {
+            console.error('Error in order cancellation confirmation:', error);
+            await callSendAPI(sender_psid, {
+                text: "Sorry, something went wrong. Please try again. 😔"
+            }, recipient_psid);
+        }
+
+        return true;
+    }
+
+    // Handle Order Cancellation Rejection (Keep Order)
+    if (postback.payload && postback.payload.startsWith('CANCEL_ORDER_KEEP_')) {
+        const orderId = postback.payload.replace('CANCEL_ORDER_KEEP_', '');
+        console.log('Order Cancellation Rejected (Kept):', orderId);
+
+        await callSendAPI(sender_psid, {
+            text: `✅ Got it! Your order #${orderId.slice(0, 8)} stays as is. We'll keep you updated. 😊`
+        }, recipient_psid);
+        return true;
+    }
+
+    // Handle Cancel Order button on the order status cards
+    if (postback.payload && postback.payload.startsWith('CANCEL_ORDER_')) {
+        const orderId = postback.payload.replace('CANCEL_ORDER_', '');
+        console.log('Order Cancellation Requested:', orderId);
+        await requestOrderCancellation(sender_psid, orderId, recipient_psid, userId);
+        return true;
+    }
+
     // Handle Show Products postback (Continue Shopping button)
     if (postback.payload === 'SHOW_PRODUCTS') {
         console.log('Show Products Postback received');
@@ -596,6 +727,28 @@ export async function handleMessage(sender_psid: string, received_message: strin
             }
         }
 
+        // --- WORKFLOW QUESTION REPLIES ---
+        // If a workflow is waiting on this lead's answer, the workflow owns the reply
+        if (lead) {
+            const answeredWorkflow = await resumeWorkflowsAwaitingReply(lead.id, sender_psid, received_message);
+            if (answeredWorkflow) {
+                console.log('Message consumed as workflow question answer - skipping AI response');
+                recordWorkflowHandledMessage(sender_psid, received_message, userId);
+                return;
+            }
+        }
+
+        // --- WORKFLOW MESSAGE TRIGGERS ---
+        // Keyword / intent workflows can take over the reply (per trigger setting)
+        if (lead && userId) {
+            const triggeredWorkflow = await triggerWorkflowsForMessage(lead.id, sender_psid, received_message, userId);
+            if (triggeredWorkflow) {
+                console.log('Message handled by a keyword-triggered workflow - skipping AI response');
+                recordWorkflowHandledMessage(sender_psid, received_message, userId);
+                return;
+            }
+        }
+
         // --- SMART PASSIVE DETECTION ---
         // Check if we should activate Smart Passive mode before responding (Fast Regex Check)
         const detection = await detectNeedsHumanAttention(received_message, sender_psid);
@@ -638,7 +791,10 @@ export async function handleMessage(sender_psid: string, received_message: strin
         });
 
         // Get Bot Response - pass userId for user-aware bot configuration
-        const rawResponseText = await getBotResponse(received_message, sender_psid, undefined, userId);
+        const rawResponseText = await getBotResponse(received_message, sender_psid, undefined, userId, {
+            fired: detection.shouldActivate,
+            triggerType: detection.triggerType,
+        });
         console.log('Raw Bot response:', rawResponseText.substring(0, 100) + '...');
 
         // Parse tags from response
@@ -648,6 +804,11 @@ export async function handleMessage(sender_psid: string, received_message: strin
         const showBooking = rawResponseText.includes('[SHOW_BOOKING]');
         const showPaymentMethods = rawResponseText.includes('[SHOW_PAYMENT_METHODS]');
         const showCart = rawResponseText.includes('[SHOW_CART]');
+        const showOrders = rawResponseText.includes('[SHOW_ORDERS]');
+
+        // Check for CANCEL_ORDER tag with order id
+        const cancelOrderMatch = rawResponseText.match(/\[CANCEL_ORDER:([^\]]+)\]/);
+        const orderToCancel = cancelOrderMatch ? cancelOrderMatch[1].trim() : null;
 
         // Check for REMOVE_CART tag with product name
         const removeCartMatch = rawResponseText.match(/\[REMOVE_CART:([^\]]+)\]/);
@@ -677,6 +838,8 @@ export async function handleMessage(sender_psid: string, received_message: strin
             .replace(/\[SHOW_BOOKING\]/g, '')
             .replace(/\[SHOW_PAYMENT_METHODS\]/g, '')
             .replace(/\[SHOW_CART\]/g, '')
+            .replace(/\[SHOW_ORDERS\]/g, '')
+            .replace(/\[CANCEL_ORDER:[^\]]+\]/g, '')
             .replace(/\[REMOVE_CART:[^\]]+\]/g, '')
             .replace(/\[RECOMMEND_PRODUCT:[^\]]+\]/g, '')
             .replace(/\[RECOMMEND_PROPERTY:[^\]]+\]/g, '')
@@ -812,7 +975,8 @@ export async function handleMessage(sender_psid: string, received_message: strin
                     const success = await sendMessengerAttachment(
                         sender_psid,
                         media.media_url,
-                        media.media_type as AttachmentType
+                        media.media_type as AttachmentType,
+                        { purpose: 'response', source: 'ai_reply' }
                     );
 
                     if (success) {
@@ -936,6 +1100,33 @@ export async function handleMessage(sender_psid: string, received_message: strin
             }
         }
 
+        // Handle order status lookup
+        if (showOrders) {
+            console.log('AI triggered [SHOW_ORDERS]');
+            try {
+                const { orders, digitalPurchases } = await getCustomerOrderHistory(sender_psid, userId);
+                if (orders.length > 0 || digitalPurchases.length > 0) {
+                    await sendOrderStatusCards(sender_psid, orders, digitalPurchases, pageId);
+                } else {
+                    await callSendAPI(sender_psid, {
+                        text: '📦 Wala pa po akong nakikitang order sa account mo. Gusto mo bang tumingin ng products?'
+                    }, pageId);
+                }
+            } catch (error) {
+                console.error('Error fetching orders:', error);
+            }
+        }
+
+        // Handle order cancellation request (asks the customer to confirm)
+        if (orderToCancel) {
+            console.log('AI triggered [CANCEL_ORDER] for:', orderToCancel);
+            try {
+                await requestOrderCancellation(sender_psid, orderToCancel, pageId, userId);
+            } catch (error) {
+                console.error('Error requesting order cancellation:', error);
+            }
+        }
+
         // Schedule next follow-up (will trigger if customer doesn't reply)
         scheduleNextFollowUp(sender_psid).catch(err => {
             console.error('Error scheduling follow-up:', err);
@@ -947,6 +1138,15 @@ export async function handleMessage(sender_psid: string, received_message: strin
     }
 }
 
+// getBotResponse normally stores the customer's message and the reply schedules a follow-up;
+// a workflow that takes over the reply skips both, so do them here
+function recordWorkflowHandledMessage(sender_psid: string, received_message: string, userId?: string | null) {
+    storeMessageAsync(sender_psid, 'user', received_message, userId);
+    scheduleNextFollowUp(sender_psid).catch(err => {
+        console.error('Error scheduling follow-up:', err);
+    });
+}
+
 // Handle image messages - analyze and pass context to chatbot for intelligent response
 export async function handleImageMessage(sender_psid: string, imageUrl: string, pageId?: string, userId?: string | null, accompanyingText?: string) {
     console.log('handleImageMessage called, analyzing image... userId:', userId);
@@ -978,7 +1178,7 @@ export async function handleImageMessage(sender_psid: string, imageUrl: string,
         await sendTypingIndicator(sender_psid, true, pageId);
 
         // Analyze the image
-        const result = await analyzeImageForReceipt(imageUrl);
+        const result = await analyzeImageForReceipt(imageUrl, userId);
         console.log('Image analysis result:', result);
 
         // Build image context for the chatbot
@@ -0,0 +1,45 @@
+import { randomUUID } from 'crypto';
+import { handleMessage } from './messageHandlers';
+import { processQueue, getClaimTimeoutMs, type QueuedMessage } from '@/app/lib/messageQueueService';
+import { recordFailedWebhookEvent, type MessagingEvent } from '@/app/lib/webhookDeadLetterService';
+
+/**
+ * Message queue worker: runs queued Messenger text messages through handleMessage.
+ * Drained by the webhook right after it enqueues, and by the queue cron for anything left over.
+ */
+
+async function handleQueuedMessage(message: QueuedMessage): Promise<void> {
+    await handleMessage(message.senderId, message.message, message.pageId, message.userId);
+}
+
+// Out of attempts: hand the message to the dead letter queue so it can still be replayed
+async function giveUp(message: QueuedMessage, error: unknown): Promise<void> {
+    const event = (message.payload as MessagingEvent | null) || {
+        sender: { id: message.senderId },
+        recipient: message.pageId ? { id: message.pageId } : undefined,
+        timestamp: message.queuedAt.getTime(),
+        message: { text: message.message },
+    };
+    await recordFailedWebhookEvent({ handler: 'message', event, pageId: message.pageId, userId: message.userId, error });
+}
+
+/**
+ * Claim and handle batches until the queue is empty or the time budget is used up.
+ * A batch is only claimed while its whole claim window still fits in the budget, so the
+ * function isn't stopped mid-send and the claim isn't handed out again while it's running.
+ */
+export async function drainMessageQueue(timeBudgetMs: number): Promise<{ processed: number; batches: number }> {
+    const workerId = `${process.env.VERCEL_REGION || 'local'}-${randomUUID().slice(0, 8)}`;
+    const startedAt = Date.now();
+    let processed = 0;
+    let batches = 0;
+
+    while (Date.now() - startedAt + getClaimTimeoutMs() <= timeBudgetMs) {
+        const claimed = await processQueue(workerId, handleQueuedMessage, undefined, giveUp);
+        if (claimed === 0) break;
+        processed += claimed;
+        batches++;
+    }
+
+    return { processed, batches };
+}
@@ -1,3 +1,6 @@
+// Leaves room for draining the message queue after the response (see webhookHandlers)
+export const maxDuration = 60;
+
 export async function GET(req: Request) {
     const { handleGetWebhook } = await import('./webhookHandlers');
     return handleGetWebhook(req);
@@ -4,12 +4,20 @@ import { startOrRefreshTakeover } from '@/app/lib/humanTakeoverService';
 import { getSettings, getPageTokenAndUser } from './config';
 import { handleImageMessage, handleMessage, handlePostback, handleReferral } from './messageHandlers';
 import { checkAndMarkProcessed } from '@/app/lib/webhookDeduplication';
+import { recordInbound, saveOneTimeNotificationToken } from '@/app/lib/messagingPolicyService';
+import { recordFailedWebhookEvent } from '@/app/lib/webhookDeadLetterService';
+import { enqueue } from '@/app/lib/messageQueueService';
+import { drainMessageQueue } from './queueWorker';
 
 // In-memory cache as fast first-pass filter (reduces DB calls for immediate retries)
 // The distributed Supabase deduplication handles cross-instance cases
 const recentMessages = new Set<string>();
 const MAX_RECENT_CACHE = 500;
 
+// How long the webhook keeps draining the message queue after enqueueing (the queue cron does the rest).
+// Stays under the route's maxDuration; batches are only claimed while their claim window fits in it.
+const WEBHOOK_DRAIN_BUDGET_MS = 55000;
+
 function addToRecentCache(messageId: string) {
     recentMessages.add(messageId);
     if (recentMessages.size > MAX_RECENT_CACHE) {
@@ -68,12 +76,30 @@ export async function handlePostWebhook(req: Request) {
                     }
                 }
 
+                // Anything the lead does (other than echoes of our own sends) reopens the 24-hour messaging window
+                if (sender_psid && !webhook_event.message?.is_echo) {
+                    await recordInbound(sender_psid);
+                }
+
+                // One-time notification opt-in: the lead agreed to one message outside the window
+                if (webhook_event.optin?.type === 'one_time_notif_req' && webhook_event.optin.one_time_notif_token) {
+                    console.log('One-time notification opt-in received from:', sender_psid);
+                    await saveOneTimeNotificationToken(
+                        sender_psid,
+                        webhook_event.optin.one_time_notif_token,
+                        webhook_event.optin.payload || null,
+                        userId
+                    );
+                    continue;
+                }
+
                 // Handle Referral (m.me links with ref param)
                 if (webhook_event.referral) {
                     console.log('Referral event received:', webhook_event.referral);
                     waitUntil(
                         handleReferral(sender_psid, webhook_event.referral, recipient_psid, userId).catch(err => {
                             console.error('Error handling referral:', err);
+                            return recordFailedWebhookEvent({ handler: 'referral', event: webhook_event, pageId: recipient_psid, userId, error: err });
                         })
                     );
                     continue;
@@ -81,8 +107,14 @@ export async function handlePostWebhook(req: Request) {
 
                 if (webhook_event.postback) {
                     console.log('Postback event received:', webhook_event.postback);
-                    const handled = await handlePostback(webhook_event.postback, sender_psid, recipient_psid, userId, waitUntil);
-                    if (handled) {
+                    try {
+                        const handled = await handlePostback(webhook_event.postback, sender_psid, recipient_psid, userId, waitUntil);
+                        if (handled) {
+                            continue;
+                        }
+                    } catch (err) {
+                        console.error('Error handling postback:', err);
+                        await recordFailedWebhookEvent({ handler: 'postback', event: webhook_event, pageId: recipient_psid, userId, error: err });
                         continue;
                     }
                 }
@@ -161,6 +193,7 @@ export async function handlePostWebhook(req: Request) {
                                         messageText // Pass accompanying text
                                     ).catch(err => {
                                         console.error('Error handling image message:', err);
+                                        return recordFailedWebhookEvent({ handler: 'image', event: webhook_event, pageId: recipient_psid, userId, error: err });
                                     })
                                 );
                             }
@@ -171,9 +204,23 @@ export async function handlePostWebhook(req: Request) {
                     // (if there's an image, the image handler already processes the text)
                     if (messageText && !hasImageAttachment) {
                         console.log('Message text:', messageText);
+
+                        // Queue it so messages are handled by priority and one at a time per sender,
+                        // then drain right away; handle it directly if the queue can't take it
+                        const queued = await enqueue(sender_psid, messageText, recipient_psid, undefined, { userId, payload: webhook_event });
+                        if (queued) {
+                            waitUntil(
+                                drainMessageQueue(WEBHOOK_DRAIN_BUDGET_MS).catch(err => {
+                                    console.error('Error draining message queue:', err);
+                                })
+                            );
+                            continue;
+                        }
+
                         waitUntil(
                             handleMessage(sender_psid, messageText, recipient_psid, userId).catch(err => {
                                 console.error('Error handling message:', err);
+                                return recordFailedWebhookEvent({ handler: 'message', event: webhook_event, pageId: recipient_psid, userId, error: err });
                             })
                         );
                     }
@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server';
 import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
 import { supabaseAdmin } from '@/app/lib/supabaseAdmin';
 import { executeWorkflow } from '@/app/lib/workflowEngine';
+import { validateWorkflow, findUnreachableAttachments } from '@/app/lib/workflowValidation';
+import { publishWorkflowDraft, type Workflow } from '@/app/lib/workflowVersionService';
 
 export async function POST(
     req: Request,
@@ -24,21 +26,67 @@ export async function POST(
         console.log(`[ApplyToExisting] is_published: ${is_published}`);
         console.log(`[ApplyToExisting] apply_to_existing: ${apply_to_existing}`);
 
-        // Update workflow with publish status and apply_to_existing setting
-        // RLS ensures only owner can update
-        const { data, error } = await supabase
-            .from('workflows')
-            .update({ is_published, apply_to_existing: apply_to_existing || false })
-            .eq('id', id)
-            .eq('user_id', userId)
-            .select()
-            .single();
-
-        if (error) {
-            if (error.code === 'PGRST116') {
-                return NextResponse.json({ error: 'Workflow not found or not owned by user' }, { status: 404 });
+        // Refuse to publish a workflow with graph errors (missing branches, loops, undefined variables...)
+        if (is_published) {
+            const { data: workflow, error: fetchError } = await supabase
+                .from('workflows')
+                .select('workflow_data')
+                .eq('id', id)
+                .eq('user_id', userId)
+                .single();
+
+            if (fetchError) {
+                if (fetchError.code === 'PGRST116') {
+                    return NextResponse.json({ error: 'Workflow not found or not owned by user' }, { status: 404 });
+                }
+                throw fetchError;
+            }
+
+            const workflowData = {
+                nodes: workflow.workflow_data?.nodes || [],
+                edges: workflow.workflow_data?.edges || [],
+            };
+            const issues = [
+                ...validateWorkflow(workflowData),
+                ...await findUnreachableAttachments(workflowData),
+            ];
+            const errors = issues.filter(issue => issue.severity === 'error');
+            if (errors.length > 0) {
+                return NextResponse.json({
+                    error: `Fix these problems before publishing: ${errors.map(e => e.message).join('; ')}`,
+                    issues,
+                }, { status: 400 });
+            }
+        }
+
+        let data: Workflow;
+
+        if (is_published) {
+            // Snapshot the draft as a new immutable version; executions already running stay on theirs
+            const result = await publishWorkflowDraft(id, userId, apply_to_existing || false);
+            if (!result.success || !result.workflow) {
+                return NextResponse.json({ error: result.error }, { status: 500 });
+            }
+            data = result.workflow;
+            console.log(`[ApplyToExisting] Published version v${result.version?.version_number}`);
+        } else {
+            // Unpublishing stops new executions; the published version stays pinned for running ones
+            // RLS ensures only owner can update
+            const { data: updated, error } = await supabase
+                .from('workflows')
+                .update({ is_published: false, apply_to_existing: apply_to_existing || false })
+                .eq('id', id)
+                .eq('user_id', userId)
+                .select()
+                .single();
+
+            if (error) {
+                if (error.code === 'PGRST116') {
+                    return NextResponse.json({ error: 'Workflow not found or not owned by user' }, { status: 404 });
+                }
+                throw error;
             }
-            throw error;
+            data = updated;
         }
 
         console.log(`[ApplyToExisting] Workflow updated. trigger_stage_id: ${data.trigger_stage_id}`);
@@ -29,7 +29,25 @@ export async function GET(
             throw error;
         }
 
-        return NextResponse.json(data);
+        // The editor shows "Publish Changes" when the draft has moved on from the live version
+        let hasUnpublishedChanges = false;
+        let publishedVersionNumber: number | null = null;
+        if (data.published_version_id) {
+            const { data: version } = await supabase
+                .from('workflow_versions')
+                .select('version_number, workflow_data')
+                .eq('id', data.published_version_id)
+                .single();
+
+            hasUnpublishedChanges = !!version && JSON.stringify(version.workflow_data) !== JSON.stringify(data.workflow_data);
+            publishedVersionNumber = version?.version_number ?? null;
+        }
+
+        return NextResponse.json({
+            ...data,
+            has_unpublished_changes: hasUnpublishedChanges,
+            published_version_number: publishedVersionNumber,
+        });
     } catch (error) {
         console.error('Error fetching workflow:', error);
         return NextResponse.json({ error: 'Failed to fetch workflow' }, { status: 500 });
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/app/lib/supabaseServer';
+import { declareSplitWinner } from '@/app/lib/workflowSplitService';
+
+// POST /api/workflows/[id]/splits/[nodeId]/winner - Keep one variant and remove the split
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ id: string; nodeId: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id, nodeId } = await params;
+        const { variantId } = await req.json();
+
+        if (!variantId) {
+            return NextResponse.json({ error: 'variantId is required' }, { status: 400 });
+        }
+
+        const result = await declareSplitWinner(id, nodeId, variantId, userId);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+
+        return NextResponse.json({ workflow: result.workflow, published: result.published, issues: result.issues });
+    } catch (error) {
+        console.error('Error declaring split winner:', error);
+        return NextResponse.json({ error: 'Failed to declare split winner' }, { status: 500 });
+    }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/app/lib/supabaseServer';
+import { rollbackWorkflowVersion } from '@/app/lib/workflowVersionService';
+
+// POST /api/workflows/[id]/versions/[versionId]/rollback - Make an earlier version live again
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id, versionId } = await params;
+        const result = await rollbackWorkflowVersion(id, versionId, userId);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+
+        return NextResponse.json({ workflow: result.workflow, version: result.version });
+    } catch (error) {
+        console.error('Error rolling back workflow version:', error);
+        return NextResponse.json({ error: 'Failed to roll back workflow version' }, { status: 500 });
+    }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+
+// GET /api/workflows/[id]/versions/[versionId] - One version including its graph
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const supabase = await createClient();
+        const { id, versionId } = await params;
+
+        const { data, error } = await supabase
+            .from('workflow_versions')
+            .select('*')
+            .eq('id', versionId)
+            .eq('workflow_id', id)
+            .eq('user_id', userId)
+            .single();
+
+        if (error) {
+            if (error.code === 'PGRST116') {
+                return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+            }
+            throw error;
+        }
+
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error('Error fetching workflow version:', error);
+        return NextResponse.json({ error: 'Failed to fetch workflow version' }, { status: 500 });
+    }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+
+// GET /api/workflows/[id]/versions - Published versions of a workflow, newest first
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const supabase = await createClient();
+        const { id } = await params;
+
+        const { data: workflow, error: workflowError } = await supabase
+            .from('workflows')
+            .select('is_published, published_version_id')
+            .eq('id', id)
+            .eq('user_id', userId)
+            .single();
+
+        if (workflowError || !workflow) {
+            return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+        }
+
+        const { data, error } = await supabase
+            .from('workflow_versions')
+            .select('id, version_number, note, trigger_type, created_at')
+            .eq('workflow_id', id)
+            .eq('user_id', userId)
+            .order('version_number', { ascending: false });
+
+        if (error) throw error;
+
+        return NextResponse.json({
+            versions: data || [],
+            published_version_id: workflow.published_version_id,
+            is_published: workflow.is_published,
+        });
+    } catch (error) {
+        console.error('Error fetching workflow versions:', error);
+        return NextResponse.json({ error: 'Failed to fetch workflow versions' }, { status: 500 });
+    }
+}
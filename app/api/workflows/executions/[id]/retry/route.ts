@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/app/lib/supabaseServer';
+import { retryFailedExecution } from '@/app/lib/workflowEngine';
+
+// POST /api/workflows/executions/[id]/retry - Resume a failed execution from the failed node
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const result = await retryFailedExecution(id, userId);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error retrying workflow execution:', error);
+        return NextResponse.json({ error: 'Failed to retry workflow execution' }, { status: 500 });
+    }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+
+// GET /api/workflows/executions/[id] - Execution with its step-by-step trace
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const supabase = await createClient();
+        const { id } = await params;
+
+        const { data: execution, error } = await supabase
+            .from('workflow_executions')
+            .select(`
+                id, workflow_id, lead_id, status, current_node_id, execution_data, scheduled_for, created_at, updated_at,
+                workflows(name),
+                leads(name, sender_id)
+            `)
+            .eq('id', id)
+            .eq('user_id', userId)
+            .single();
+
+        if (error) {
+            if (error.code === 'PGRST116') {
+                return NextResponse.json({ error: 'Execution not found' }, { status: 404 });
+            }
+            throw error;
+        }
+
+        const { data: steps, error: stepsError } = await supabase
+            .from('workflow_execution_steps')
+            .select('id, node_id, node_type, node_label, outcome, message_sent, branch_taken, error, started_at, finished_at')
+            .eq('execution_id', id)
+            .order('started_at', { ascending: true });
+
+        if (stepsError) throw stepsError;
+
+        return NextResponse.json({ ...execution, steps: steps || [] });
+    } catch (error) {
+        console.error('Error fetching workflow execution:', error);
+        return NextResponse.json({ error: 'Failed to fetch workflow execution' }, { status: 500 });
+    }
+}
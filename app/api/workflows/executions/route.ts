@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+
+// GET /api/workflows/executions - List executions, filterable by workflow, lead and status
+export async function GET(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const supabase = await createClient();
+        const { searchParams } = new URL(req.url);
+        const workflowId = searchParams.get('workflow_id');
+        const leadId = searchParams.get('lead_id');
+        const leadSearch = searchParams.get('lead')?.trim();
+        const status = searchParams.get('status');
+        const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+        // Inner join on leads only when filtering by name, so executions of deleted leads still list
+        let query = supabase
+            .from('workflow_executions')
+            .select(`
+                id, workflow_id, lead_id, status, current_node_id, scheduled_for, created_at, updated_at,
+                workflows(name),
+                ${leadSearch ? 'leads!inner(name, sender_id)' : 'leads(name, sender_id)'}
+            `)
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (workflowId) query = query.eq('workflow_id', workflowId);
+        if (leadId) query = query.eq('lead_id', leadId);
+        if (status) query = query.eq('status', status);
+        if (leadSearch) query = query.ilike('leads.name', `%${leadSearch}%`);
+
+        const { data, error } = await query;
+
+        if (error) throw error;
+
+        return NextResponse.json(data || []);
+    } catch (error) {
+        console.error('Error fetching workflow executions:', error);
+        return NextResponse.json({ error: 'Failed to fetch workflow executions' }, { status: 500 });
+    }
+}
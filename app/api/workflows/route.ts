@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { getTriggerConfig } from '@/app/lib/workflowVersionService';
 
 // Validate UUID format
 function isValidUUID(str: string | null | undefined): boolean {
@@ -78,8 +79,9 @@ export async function POST(req: Request) {
             .insert({
                 user_id: userId,
                 name: finalName,
-                trigger_stage_id: (trigger_type === 'appointment_booked' || trigger_type === 'digital_product_purchased') ? null : validStageId,
+                trigger_stage_id: (trigger_type || 'stage_change') === 'stage_change' ? validStageId : null,
                 trigger_type: trigger_type || 'stage_change',
+                trigger_config: getTriggerConfig(finalWorkflowData),
                 workflow_data: finalWorkflowData,
                 is_published: false,
             })
@@ -111,14 +113,25 @@ export async function PUT(req: Request) {
         // Validate trigger_stage_id is a valid UUID or set to null
         const validStageId = isValidUUID(trigger_stage_id) ? trigger_stage_id : null;
 
+        // workflow_data is the draft. While published, the trigger columns belong to the live
+        // version and only change when the draft is published.
+        const { data: existing } = await supabase
+            .from('workflows')
+            .select('is_published')
+            .eq('id', id)
+            .eq('user_id', userId)
+            .single();
+
+        const updates: Record<string, unknown> = { name, workflow_data };
+        if (!existing?.is_published) {
+            updates.trigger_stage_id = (trigger_type || 'stage_change') === 'stage_change' ? validStageId : null;
+            updates.trigger_type = trigger_type || 'stage_change';
+            updates.trigger_config = getTriggerConfig(workflow_data);
+        }
+
         const { data, error } = await supabase
             .from('workflows')
-            .update({
-                name,
-                trigger_stage_id: (trigger_type === 'appointment_booked' || trigger_type === 'digital_product_purchased') ? null : validStageId,
-                trigger_type: trigger_type || 'stage_change',
-                workflow_data,
-            })
+            .update(updates)
             .eq('id', id)
             .eq('user_id', userId)
             .select()
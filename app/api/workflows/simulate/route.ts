@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { createClient, getCurrentUserId } from '@/app/lib/supabaseServer';
+import { simulateWorkflow, type SimulatedReply } from '@/app/lib/workflowEngine';
+
+// POST /api/workflows/simulate - Dry-run a workflow on a virtual clock (nothing is sent or saved)
+// Body: { workflowId?, workflowData?, leadId?, sandboxLead?, replies?, aiConditionResult?, appointmentDateTime? }
+// workflowData (the unsaved canvas) takes precedence over the saved workflow
+export async function POST(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await req.json();
+        const supabase = await createClient();
+
+        let workflowData = body.workflowData;
+
+        if (!workflowData && body.workflowId) {
+            const { data: workflow, error } = await supabase
+                .from('workflows')
+                .select('workflow_data')
+                .eq('id', body.workflowId)
+                .eq('user_id', userId)
+                .single();
+
+            if (error || !workflow) {
+                return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+            }
+            workflowData = workflow.workflow_data;
+        }
+
+        if (!workflowData || !Array.isArray(workflowData.nodes) || !Array.isArray(workflowData.edges)) {
+            return NextResponse.json({ error: 'workflowId or workflowData is required' }, { status: 400 });
+        }
+
+        // A real lead only supplies placeholder data; it is never messaged or modified
+        let senderId: string | undefined;
+        if (body.leadId) {
+            const { data: lead } = await supabase
+                .from('leads')
+                .select('sender_id')
+                .eq('id', body.leadId)
+                .eq('user_id', userId)
+                .single();
+
+            if (!lead) {
+                return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+            }
+            senderId = lead.sender_id;
+        }
+
+        const replies: SimulatedReply[] = Array.isArray(body.replies)
+            ? body.replies.map((r: { afterMinutes?: unknown; text?: unknown }) => ({
+                afterMinutes: Number(r.afterMinutes) || 0,
+                text: String(r.text || ''),
+            }))
+            : [];
+
+        const appointmentDateTime = body.appointmentDateTime ? new Date(body.appointmentDateTime) : undefined;
+
+        const result = await simulateWorkflow(workflowData, {
+            userId,
+            leadId: body.leadId || undefined,
+            senderId,
+            sandboxLead: body.sandboxLead,
+            replies,
+            aiConditionResult: body.aiConditionResult !== false,
+            appointmentDateTime: appointmentDateTime && !isNaN(appointmentDateTime.getTime()) ? appointmentDateTime : undefined,
+        });
+
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error('Error simulating workflow:', error);
+        return NextResponse.json({
+            error: error instanceof Error ? error.message : 'Failed to simulate workflow'
+        }, { status: 500 });
+    }
+}
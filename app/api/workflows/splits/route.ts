@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/app/lib/supabaseServer';
+import { getSplitTestResults } from '@/app/lib/workflowSplitService';
+
+// GET /api/workflows/splits - Per-variant results of split (A/B) nodes, optionally for one workflow
+export async function GET(req: Request) {
+    try {
+        const userId = await getCurrentUserId();
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(req.url);
+        const workflowId = searchParams.get('workflowId') || undefined;
+
+        const splits = await getSplitTestResults(userId, workflowId);
+        return NextResponse.json({ splits });
+    } catch (error) {
+        console.error('Error fetching split test results:', error);
+        return NextResponse.json({ error: 'Failed to fetch split test results' }, { status: 500 });
+    }
+}
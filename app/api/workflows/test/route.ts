@@ -14,8 +14,8 @@ export async function POST(req: Request) {
         console.log(`[TEST] Starting workflow execution: ${workflowId} for lead ${leadId}`);
         console.log(`[TEST] Sender ID: ${senderId}`);
 
-        // Execute the workflow (skip publish check for testing)
-        await executeWorkflow(workflowId, leadId, senderId, true);
+        // Execute the draft (skip publish check for testing)
+        await executeWorkflow(workflowId, leadId, senderId, { skipPublishCheck: true, useDraft: true });
 
         return NextResponse.json({
             success: true,
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
-import { ShoppingCart, ArrowRight, Loader2, MapPin, Phone, User, Check, Trash2, CreditCard, Package, Mail } from 'lucide-react';
+import { ShoppingCart, ArrowRight, Loader2, MapPin, Phone, User, Check, Trash2, CreditCard, Package, Mail, Tag, X } from 'lucide-react';
 import Link from 'next/link';
 import { getGuestSessionId, isGuestSession, clearGuestSession, getFacebookParams } from '@/app/lib/guestSession';
 
@@ -17,9 +17,29 @@ interface OrderItem {
     variations: Record<string, string> | null;
 }
 
+interface DiscountLine {
+    source: 'promotion' | 'code';
+    id: string;
+    label: string;
+    amount: number;
+    freeShipping?: boolean;
+}
+
+interface ShippingQuote {
+    zone: { id: string; name: string } | null;
+    fee: number;
+    codAvailable: boolean;
+    freeShipping: boolean;
+    error: string | null;
+}
+
 interface Cart {
     id: string;
     total_amount: number;
+    subtotal_amount: number | null;
+    discount_amount: number | null;
+    discount_code: string | null;
+    discount_breakdown: DiscountLine[] | null;
     status: string;
 }
 
@@ -34,12 +54,18 @@ function CheckoutContent() {
     const [loading, setLoading] = useState(true);
     const [submitting, setSubmitting] = useState(false);
     const [orderComplete, setOrderComplete] = useState(false);
+    const [codeInput, setCodeInput] = useState('');
+    const [codeError, setCodeError] = useState<string | null>(null);
+    const [applyingCode, setApplyingCode] = useState(false);
+    const [shippingQuote, setShippingQuote] = useState<ShippingQuote | null>(null);
 
     const [formData, setFormData] = useState({
         customer_name: '',
         customer_phone: '',
         customer_email: '', // Required for guest checkout
         shipping_address: '',
+        shipping_province: '',
+        shipping_city: '',
         payment_method: 'GCash', // Default
         notes: ''
     });
@@ -76,6 +102,33 @@ function CheckoutContent() {
         }
     }, [sessionId]);
 
+    // Re-quote shipping when the destination or the cart total changes
+    useEffect(() => {
+        if (!cart || !sessionId) return;
+        const timeout = setTimeout(async () => {
+            try {
+                const params = new URLSearchParams({
+                    sender_id: sessionId,
+                    order_id: cart.id,
+                    province: formData.shipping_province,
+                    city: formData.shipping_city,
+                });
+                const res = await fetch(`/api/store/shipping-quote?${params}`);
+                const data = await res.json();
+                if (res.ok) setShippingQuote(data.quote);
+            } catch (error) {
+                console.error('Error quoting shipping:', error);
+            }
+        }, 400);
+        return () => clearTimeout(timeout);
+    }, [cart, sessionId, formData.shipping_province, formData.shipping_city]);
+
+    useEffect(() => {
+        if (shippingQuote && !shippingQuote.codAvailable && formData.payment_method === 'COD') {
+            setFormData(prev => ({ ...prev, payment_method: 'GCash' }));
+        }
+    }, [shippingQuote, formData.payment_method]);
+
     const fetchCart = async () => {
         try {
             const res = await fetch(`/api/store/cart?sender_id=${sessionId}`);
@@ -123,6 +176,8 @@ function CheckoutContent() {
             } else {
                 const data = await res.json();
                 alert(data.error || 'Failed to place order');
+                // Totals may have changed (code ran out, promo ended)
+                if (data.pricing) await fetchCart();
             }
         } catch (error) {
             console.error('Error checking out:', error);
@@ -132,6 +187,43 @@ function CheckoutContent() {
         }
     };
 
+    const handleApplyCode = async () => {
+        if (!cart || !codeInput.trim()) return;
+        setApplyingCode(true);
+        setCodeError(null);
+
+        try {
+            const res = await fetch('/api/store/cart/discount', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ sender_id: sessionId, order_id: cart.id, code: codeInput.trim() }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setCodeInput('');
+            } else {
+                setCodeError(data.error || 'Could not apply code');
+            }
+            await fetchCart();
+        } catch (error) {
+            console.error('Error applying code:', error);
+            setCodeError('Could not apply code. Please try again.');
+        } finally {
+            setApplyingCode(false);
+        }
+    };
+
+    const handleRemoveCode = async () => {
+        if (!cart) return;
+
+        try {
+            await fetch(`/api/store/cart/discount?sender_id=${sessionId}&order_id=${cart.id}`, { method: 'DELETE' });
+            await fetchCart();
+        } catch (error) {
+            console.error('Error removing code:', error);
+        }
+    };
+
     const handleRemoveItem = async (itemId: string, productName: string) => {
         if (!confirm(`Remove "${productName}" from your cart?`)) return;
 
@@ -223,7 +315,14 @@ function CheckoutContent() {
         );
     }
 
-    const totalAmount = items.reduce((sum, item) => sum + (item.unit_price * item.quantity), 0);
+    const subtotalAmount = items.reduce((sum, item) => sum + (item.unit_price * item.quantity), 0);
+    const discountLines = (cart.discount_breakdown || []).filter(line => line.amount > 0);
+    const freeShipping = (cart.discount_breakdown || []).some(line => line.freeShipping);
+    const shippingFee = shippingQuote && !shippingQuote.error ? shippingQuote.fee : 0;
+    const totalAmount = Math.max(subtotalAmount - (Number(cart.discount_amount) || 0), 0) + shippingFee;
+    const shippingLabel = freeShipping || (shippingQuote?.zone && shippingFee === 0)
+        ? 'Free'
+        : shippingFee > 0 ? `₱${shippingFee.toLocaleString()}` : 'To be calc.';
 
     return (
         <div className="min-h-screen bg-gray-50 py-8 px-4 sm:px-6 lg:px-8">
@@ -292,6 +391,35 @@ function CheckoutContent() {
                                     <MapPin size={20} className="text-gray-400" />
                                     Shipping Details
                                 </h2>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Province</label>
+                                        <input
+                                            type="text"
+                                            name="shipping_province"
+                                            required
+                                            value={formData.shipping_province}
+                                            onChange={handleInputChange}
+                                            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none transition-all"
+                                            placeholder="Metro Manila"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">City / Municipality</label>
+                                        <input
+                                            type="text"
+                                            name="shipping_city"
+                                            required
+                                            value={formData.shipping_city}
+                                            onChange={handleInputChange}
+                                            className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none transition-all"
+                                            placeholder="Quezon City"
+                                        />
+                                    </div>
+                                </div>
+                                {shippingQuote?.error && (formData.shipping_province || formData.shipping_city) && (
+                                    <p className="-mt-2 mb-4 text-sm text-red-600">{shippingQuote.error}</p>
+                                )}
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 mb-1">Complete Address</label>
                                     <textarea
@@ -322,7 +450,9 @@ function CheckoutContent() {
                                         <option value="Maya">Maya</option>
                                         <option value="Bank Transfer (BDO)">Bank Transfer (BDO)</option>
                                         <option value="Bank Transfer (BPI)">Bank Transfer (BPI)</option>
-                                        <option value="COD">Cash on Delivery (COD)</option>
+                                        <option value="COD" disabled={shippingQuote?.codAvailable === false}>
+                                            Cash on Delivery (COD){shippingQuote?.codAvailable === false ? ' - not available in your area' : ''}
+                                        </option>
                                     </select>
                                 </div>
                             </div>
@@ -381,14 +511,59 @@ function CheckoutContent() {
                                 ))}
                             </div>
 
-                            <div className="pt-4 border-t border-gray-100 space-y-2 mb-6">
+                            <div className="pt-4 border-t border-gray-100 mb-4">
+                                {cart.discount_code ? (
+                                    <div className="flex items-center justify-between px-3 py-2 bg-emerald-50 border border-emerald-100 rounded-lg text-sm">
+                                        <span className="flex items-center gap-2 font-medium text-emerald-700">
+                                            <Tag size={14} />
+                                            {cart.discount_code}
+                                        </span>
+                                        <button
+                                            type="button"
+                                            onClick={handleRemoveCode}
+                                            className="p-1 text-emerald-600 hover:text-emerald-800"
+                                            title="Remove code"
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={codeInput}
+                                            onChange={(e) => setCodeInput(e.target.value.toUpperCase())}
+                                            onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), handleApplyCode())}
+                                            placeholder="Discount code"
+                                            className="flex-1 min-w-0 px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none transition-all uppercase"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={handleApplyCode}
+                                            disabled={applyingCode || !codeInput.trim()}
+                                            className="px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-medium hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                                        >
+                                            {applyingCode ? <Loader2 size={16} className="animate-spin" /> : 'Apply'}
+                                        </button>
+                                    </div>
+                                )}
+                                {codeError && <p className="mt-1.5 text-xs text-red-600">{codeError}</p>}
+                            </div>
+
+                            <div className="space-y-2 mb-6">
                                 <div className="flex justify-between text-sm text-gray-600">
                                     <span>Subtotal</span>
-                                    <span>₱{totalAmount.toLocaleString()}</span>
+                                    <span>₱{subtotalAmount.toLocaleString()}</span>
                                 </div>
+                                {discountLines.map(line => (
+                                    <div key={`${line.source}-${line.id}`} className="flex justify-between text-sm text-emerald-600">
+                                        <span>{line.source === 'code' ? `Code ${line.label}` : line.label}</span>
+                                        <span>-₱{line.amount.toLocaleString()}</span>
+                                    </div>
+                                ))}
                                 <div className="flex justify-between text-sm text-gray-600">
                                     <span>Shipping</span>
-                                    <span>To be calc.</span>
+                                    <span>{shippingLabel}</span>
                                 </div>
                                 <div className="flex justify-between text-lg font-bold text-gray-900 pt-2">
                                     <span>Total</span>
@@ -5,11 +5,16 @@ import { Save, Check, Loader2 } from 'lucide-react';
 
 interface DocumentEditorProps {
     initialText?: string;
-    onSave: (text: string) => Promise<void>;
+    initialExpiresAt?: string | null;
+    onSave: (text: string, expiresAt: string | null) => Promise<void>;
 }
 
-export default function DocumentEditor({ initialText = '', onSave }: DocumentEditorProps) {
+// ISO timestamp -> value for <input type="date">
+const toDateInput = (value?: string | null) => value ? new Date(value).toISOString().slice(0, 10) : '';
+
+export default function DocumentEditor({ initialText = '', initialExpiresAt = null, onSave }: DocumentEditorProps) {
     const [text, setText] = useState(initialText);
+    const [validUntil, setValidUntil] = useState(toDateInput(initialExpiresAt));
     const [title, setTitle] = useState('Untitled Document');
     const [saving, setSaving] = useState(false);
     const [saved, setSaved] = useState(false);
@@ -18,6 +23,10 @@ export default function DocumentEditor({ initialText = '', onSave }: DocumentEdi
         setText(initialText);
     }, [initialText]);
 
+    useEffect(() => {
+        setValidUntil(toDateInput(initialExpiresAt));
+    }, [initialExpiresAt]);
+
     const handleSave = async () => {
         if (saving || !text.trim()) return; // Prevent multiple clicks
 
@@ -25,7 +34,7 @@ export default function DocumentEditor({ initialText = '', onSave }: DocumentEdi
         setSaved(false);
 
         try {
-            await onSave(text);
+            await onSave(text, validUntil ? new Date(`${validUntil}T23:59:59`).toISOString() : null);
             setSaved(true);
             setTimeout(() => setSaved(false), 2000);
         } catch (error) {
@@ -44,33 +53,47 @@ export default function DocumentEditor({ initialText = '', onSave }: DocumentEdi
                     onChange={(e) => setTitle(e.target.value)}
                     className="font-medium text-gray-700 focus:outline-none hover:bg-gray-50 px-2 py-1 rounded"
                 />
-                <button
-                    onClick={handleSave}
-                    disabled={saving || saved || !text.trim()}
-                    className={`flex items-center gap-2 px-3 py-1.5 rounded text-sm transition-colors ${saved
-                            ? 'bg-green-600 text-white'
-                            : saving
-                                ? 'bg-teal-400 text-white cursor-not-allowed'
-                                : 'bg-teal-600 text-white hover:bg-teal-700'
-                        } disabled:opacity-70`}
-                >
-                    {saved ? (
-                        <>
-                            <Check size={16} />
-                            Saved!
-                        </>
-                    ) : saving ? (
-                        <>
-                            <Loader2 size={16} className="animate-spin" />
-                            Saving...
-                        </>
-                    ) : (
-                        <>
-                            <Save size={16} />
-                            Save
-                        </>
-                    )}
-                </button>
+                <div className="flex items-center gap-3">
+                    <label
+                        className="flex items-center gap-2 text-xs text-gray-500"
+                        title="Time-sensitive info (promos, seasonal prices) stops being used by the bot after this date and shows up for review"
+                    >
+                        Valid until
+                        <input
+                            type="date"
+                            value={validUntil}
+                            onChange={(e) => setValidUntil(e.target.value)}
+                            className="border border-gray-200 rounded px-2 py-1 text-sm text-gray-700 focus:outline-none focus:border-teal-500"
+                        />
+                    </label>
+                    <button
+                        onClick={handleSave}
+                        disabled={saving || saved || !text.trim()}
+                        className={`flex items-center gap-2 px-3 py-1.5 rounded text-sm transition-colors ${saved
+                                ? 'bg-green-600 text-white'
+                                : saving
+                                    ? 'bg-teal-400 text-white cursor-not-allowed'
+                                    : 'bg-teal-600 text-white hover:bg-teal-700'
+                            } disabled:opacity-70`}
+                    >
+                        {saved ? (
+                            <>
+                                <Check size={16} />
+                                Saved!
+                            </>
+                        ) : saving ? (
+                            <>
+                                <Loader2 size={16} className="animate-spin" />
+                                Saving...
+                            </>
+                        ) : (
+                            <>
+                                <Save size={16} />
+                                Save
+                            </>
+                        )}
+                    </button>
+                </div>
             </div>
 
             <div className="flex-1 overflow-y-auto p-8 flex justify-center">
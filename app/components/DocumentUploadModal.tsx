@@ -1,7 +1,15 @@
 'use client';
 
-import { useState, useRef } from 'react';
-import { Upload, X, FileText, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { useState, useRef, useEffect } from 'react';
+import { Upload, X, FileText, CheckCircle, AlertCircle, Loader2, Globe, Trash2 } from 'lucide-react';
+
+const SUPPORTED_EXTENSIONS = ['pdf', 'txt', 'md', 'docx', 'xlsx', 'csv', 'html', 'htm'];
+
+const REFRESH_LABELS: Record<number, string> = {
+    24: 'Daily',
+    168: 'Weekly',
+    720: 'Monthly',
+};
 
 interface Category {
     id: string;
@@ -21,12 +29,27 @@ interface DocumentUploadModalProps {
 interface UploadResult {
     success: boolean;
     filename?: string;
+    unchanged?: boolean;
     pageCount?: number;
     chunkCount?: number;
     chunksStored?: number;
+    imported?: number;
+    pending?: number;
     error?: string;
 }
 
+interface WebSource {
+    id: string;
+    source_kind: 'url' | 'sitemap';
+    source_url: string;
+    status: 'processing' | 'completed' | 'failed';
+    error_message: string | null;
+    chunk_count: number | null;
+    page_count: number | null;
+    refresh_interval_hours: number | null;
+    last_checked_at: string | null;
+}
+
 export default function DocumentUploadModal({
     isOpen,
     onClose,
@@ -38,8 +61,31 @@ export default function DocumentUploadModal({
     const [categoryId, setCategoryId] = useState<string>(selectedCategoryId || '');
     const [uploading, setUploading] = useState(false);
     const [result, setResult] = useState<UploadResult | null>(null);
+    const [tab, setTab] = useState<'file' | 'website'>('file');
+    const [url, setUrl] = useState('');
+    const [importMode, setImportMode] = useState<'page' | 'sitemap'>('page');
+    const [refreshInterval, setRefreshInterval] = useState<string>('168');
+    const [webSources, setWebSources] = useState<WebSource[]>([]);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    useEffect(() => {
+        if (isOpen && tab === 'website') {
+            fetchWebSources();
+        }
+    }, [isOpen, tab]);
+
+    const fetchWebSources = async () => {
+        try {
+            const res = await fetch('/api/knowledge/sources');
+            if (res.ok) {
+                const data = await res.json();
+                setWebSources(data.sources || []);
+            }
+        } catch (error) {
+            console.error('Failed to fetch web sources:', error);
+        }
+    };
+
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
@@ -54,11 +100,11 @@ export default function DocumentUploadModal({
         if (file) {
             // Validate file type
             const ext = file.name.split('.').pop()?.toLowerCase();
-            if (['pdf', 'txt', 'md'].includes(ext || '')) {
+            if (SUPPORTED_EXTENSIONS.includes(ext || '')) {
                 setSelectedFile(file);
                 setResult(null);
             } else {
-                setResult({ success: false, error: 'Unsupported file type. Please use PDF, TXT, or MD.' });
+                setResult({ success: false, error: 'Unsupported file type. Please use PDF, TXT, MD, DOCX, XLSX, CSV or HTML.' });
             }
         }
     };
@@ -87,6 +133,7 @@ export default function DocumentUploadModal({
                 setResult({
                     success: true,
                     filename: data.filename,
+                    unchanged: data.unchanged,
                     pageCount: data.pageCount,
                     chunkCount: data.chunkCount,
                     chunksStored: data.chunksStored,
@@ -113,9 +160,65 @@ export default function DocumentUploadModal({
         }
     };
 
+    const handleImport = async () => {
+        if (!url.trim()) return;
+
+        setUploading(true);
+        setResult(null);
+
+        try {
+            const res = await fetch('/api/knowledge/sources', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    url: url.trim(),
+                    mode: importMode,
+                    categoryId: categoryId || null,
+                    refreshIntervalHours: refreshInterval ? Number(refreshInterval) : null,
+                }),
+            });
+
+            const data = await res.json();
+
+            if (res.ok && data.success) {
+                setResult({
+                    success: true,
+                    imported: data.imported,
+                    pending: data.pending,
+                    chunksStored: data.chunksStored,
+                });
+                setUrl('');
+                fetchWebSources();
+                onSuccess();
+            } else {
+                setResult({ success: false, error: data.error || 'Failed to import website' });
+            }
+        } catch (error) {
+            console.error('Import error:', error);
+            setResult({ success: false, error: 'Network error. Please try again.' });
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const handleDeleteSource = async (id: string) => {
+        if (!confirm('Remove this website and everything imported from it?')) return;
+
+        try {
+            const res = await fetch(`/api/knowledge/sources?id=${id}`, { method: 'DELETE' });
+            if (res.ok) {
+                setWebSources(prev => prev.filter(source => source.id !== id));
+                onSuccess();
+            }
+        } catch (error) {
+            console.error('Failed to delete web source:', error);
+        }
+    };
+
     const handleClose = () => {
         setSelectedFile(null);
         setResult(null);
+        setUrl('');
         setCategoryId(selectedCategoryId || '');
         onClose();
     };
@@ -133,7 +236,7 @@ export default function DocumentUploadModal({
             <div className="bg-white rounded-2xl shadow-xl w-full max-w-md mx-4">
                 {/* Header */}
                 <div className="flex items-center justify-between p-4 border-b">
-                    <h2 className="text-lg font-semibold text-gray-900">Upload Document</h2>
+                    <h2 className="text-lg font-semibold text-gray-900">Add Knowledge</h2>
                     <button
                         onClick={handleClose}
                         className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
@@ -144,43 +247,130 @@ export default function DocumentUploadModal({
 
                 {/* Content */}
                 <div className="p-4 space-y-4">
-                    {/* Drop Zone */}
-                    <div
-                        onDragOver={(e) => e.preventDefault()}
-                        onDrop={handleDrop}
-                        onClick={() => fileInputRef.current?.click()}
-                        className={`
-                            border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-colors
-                            ${selectedFile
-                                ? 'border-teal-300 bg-teal-50'
-                                : 'border-gray-300 hover:border-teal-400 hover:bg-gray-50'
-                            }
-                        `}
-                    >
-                        <input
-                            ref={fileInputRef}
-                            type="file"
-                            accept=".pdf,.txt,.md"
-                            onChange={handleFileSelect}
-                            className="hidden"
-                        />
-
-                        {selectedFile ? (
-                            <div className="flex items-center justify-center gap-3">
-                                <FileText size={24} className="text-teal-600" />
-                                <div className="text-left">
-                                    <p className="font-medium text-gray-900">{selectedFile.name}</p>
-                                    <p className="text-sm text-gray-500">{formatFileSize(selectedFile.size)}</p>
+                    {/* Source Tabs */}
+                    <div className="flex gap-1 p-1 bg-gray-100 rounded-lg">
+                        {([['file', 'File', FileText], ['website', 'Website', Globe]] as const).map(([value, label, Icon]) => (
+                            <button
+                                key={value}
+                                onClick={() => { setTab(value); setResult(null); }}
+                                className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-sm rounded-md transition-colors ${tab === value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                            >
+                                <Icon size={14} />
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {tab === 'file' ? (
+                        /* Drop Zone */
+                        <div
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={handleDrop}
+                            onClick={() => fileInputRef.current?.click()}
+                            className={`
+                                border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-colors
+                                ${selectedFile
+                                    ? 'border-teal-300 bg-teal-50'
+                                    : 'border-gray-300 hover:border-teal-400 hover:bg-gray-50'
+                                }
+                            `}
+                        >
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept={SUPPORTED_EXTENSIONS.map(ext => `.${ext}`).join(',')}
+                                onChange={handleFileSelect}
+                                className="hidden"
+                            />
+
+                            {selectedFile ? (
+                                <div className="flex items-center justify-center gap-3">
+                                    <FileText size={24} className="text-teal-600" />
+                                    <div className="text-left">
+                                        <p className="font-medium text-gray-900">{selectedFile.name}</p>
+                                        <p className="text-sm text-gray-500">{formatFileSize(selectedFile.size)}</p>
+                                    </div>
                                 </div>
+                            ) : (
+                                <>
+                                    <Upload size={32} className="mx-auto text-gray-400 mb-2" />
+                                    <p className="text-gray-600 font-medium">Drop file here or click to browse</p>
+                                    <p className="text-sm text-gray-400 mt-1">Supports PDF, Word, Excel, CSV, HTML, TXT, MD</p>
+                                </>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            <input
+                                type="url"
+                                value={url}
+                                onChange={(e) => setUrl(e.target.value)}
+                                placeholder="https://example.com/pricing"
+                                className="w-full px-3 py-2 border text-black border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
+                            />
+                            <div className="flex gap-4 text-sm text-gray-700">
+                                <label className="flex items-center gap-2">
+                                    <input
+                                        type="radio"
+                                        checked={importMode === 'page'}
+                                        onChange={() => setImportMode('page')}
+                                    />
+                                    This page only
+                                </label>
+                                <label className="flex items-center gap-2">
+                                    <input
+                                        type="radio"
+                                        checked={importMode === 'sitemap'}
+                                        onChange={() => setImportMode('sitemap')}
+                                    />
+                                    Whole site (sitemap)
+                                </label>
                             </div>
-                        ) : (
-                            <>
-                                <Upload size={32} className="mx-auto text-gray-400 mb-2" />
-                                <p className="text-gray-600 font-medium">Drop file here or click to browse</p>
-                                <p className="text-sm text-gray-400 mt-1">Supports PDF, TXT, MD</p>
-                            </>
-                        )}
-                    </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Check for changes
+                                </label>
+                                <select
+                                    value={refreshInterval}
+                                    onChange={(e) => setRefreshInterval(e.target.value)}
+                                    className="w-full px-3 py-2 border text-black border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
+                                >
+                                    <option value="">Never</option>
+                                    {Object.entries(REFRESH_LABELS).map(([hours, label]) => (
+                                        <option key={hours} value={hours}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {webSources.length > 0 && (
+                                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-40 overflow-y-auto">
+                                    {webSources.map(source => (
+                                        <div key={source.id} className="flex items-center gap-2 px-3 py-2">
+                                            <Globe size={14} className={source.status === 'failed' ? 'text-red-500' : 'text-gray-400'} />
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-sm text-gray-900 truncate" title={source.source_url}>{source.source_url}</p>
+                                                <p className={`text-xs ${source.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                                                    {source.status === 'failed'
+                                                        ? source.error_message || 'Failed'
+                                                        : source.source_kind === 'sitemap'
+                                                            ? `${source.page_count || 0} pages`
+                                                            : `${source.chunk_count || 0} chunks`}
+                                                    {source.refresh_interval_hours ? ` · ${REFRESH_LABELS[source.refresh_interval_hours] || 'Scheduled'}` : ''}
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => handleDeleteSource(source.id)}
+                                                className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                                                title="Remove website"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
 
                     {/* Category Selector */}
                     <div>
@@ -215,7 +405,17 @@ export default function DocumentUploadModal({
                                 <AlertCircle size={18} className="mt-0.5 flex-shrink-0" />
                             )}
                             <div className="text-sm">
-                                {result.success ? (
+                                {result.success && result.imported !== undefined ? (
+                                    <>
+                                        <p className="font-medium">Website imported!</p>
+                                        <p className="text-green-600">
+                                            {result.imported} page(s) → {result.chunksStored} chunks stored
+                                            {result.pending ? `, ${result.pending} more page(s) importing in the background` : ''}
+                                        </p>
+                                    </>
+                                ) : result.success && result.unchanged ? (
+                                    <p className="font-medium">This file is already up to date.</p>
+                                ) : result.success ? (
                                     <>
                                         <p className="font-medium">Document uploaded successfully!</p>
                                         <p className="text-green-600">
@@ -239,8 +439,8 @@ export default function DocumentUploadModal({
                         Cancel
                     </button>
                     <button
-                        onClick={handleUpload}
-                        disabled={!selectedFile || uploading}
+                        onClick={tab === 'file' ? handleUpload : handleImport}
+                        disabled={(tab === 'file' ? !selectedFile : !url.trim()) || uploading}
                         className="px-4 py-2 bg-teal-600 text-white text-sm font-medium rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                     >
                         {uploading ? (
@@ -250,8 +450,8 @@ export default function DocumentUploadModal({
                             </>
                         ) : (
                             <>
-                                <Upload size={16} />
-                                Upload
+                                {tab === 'file' ? <Upload size={16} /> : <Globe size={16} />}
+                                {tab === 'file' ? 'Upload' : 'Import'}
                             </>
                         )}
                     </button>
@@ -18,6 +18,7 @@ interface KnowledgeItem {
   createdAt: string;
   folderId?: string;
   categoryId?: string;
+  expiresAt?: string;
 }
 
 interface FolderItem {
@@ -28,7 +29,7 @@ interface FolderItem {
 }
 
 interface KnowledgeBaseProps {
-  onSelect: (doc: { id: string; text: string }) => void;
+  onSelect: (doc: { id: string; text: string; expiresAt?: string }) => void;
   onCategorySelect?: (category: Category | null) => void;
   onCreateDocument: () => void;
 }
@@ -248,7 +249,7 @@ export default function KnowledgeBase({ onSelect, onCategorySelect, onCreateDocu
   const renderDocItem = (item: KnowledgeItem, inFolder = false) => (
     <div
       key={item.id}
-      onClick={() => bulkMode ? toggleDocSelection(item.id) : onSelect({ id: item.id, text: item.text })}
+      onClick={() => bulkMode ? toggleDocSelection(item.id) : onSelect({ id: item.id, text: item.text, expiresAt: item.expiresAt })}
       onContextMenu={(e) => handleContextMenu(e, 'doc', item.id)}
       className={`group flex items-center justify-between px-3 py-1.5 ml-2 hover:bg-gray-100 rounded cursor-pointer ${selectedDocs.has(item.id) ? 'bg-teal-50 text-teal-700' : 'text-gray-600'
         }`}
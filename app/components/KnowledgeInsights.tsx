@@ -0,0 +1,19 @@
+'use client';
+
+import KnowledgeConflictsSection from '@/app/components/knowledge/KnowledgeConflictsSection';
+import ReviewQueueSection from '@/app/components/knowledge/ReviewQueueSection';
+import KnowledgeGapsSection from '@/app/components/knowledge/KnowledgeGapsSection';
+import DocumentUsageSection from '@/app/components/knowledge/DocumentUsageSection';
+
+export default function KnowledgeInsights() {
+    return (
+        <div className="h-full overflow-y-auto bg-white p-6 md:p-8 flex justify-center">
+            <div className="w-full max-w-4xl space-y-8 pb-12">
+                <KnowledgeConflictsSection />
+                <ReviewQueueSection />
+                <KnowledgeGapsSection />
+                <DocumentUsageSection />
+            </div>
+        </div>
+    );
+}
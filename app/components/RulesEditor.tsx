@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { Save, Bot, Plus, Trash2, ToggleLeft, ToggleRight, Clock, MessageSquare, RefreshCw } from 'lucide-react';
 import BotGoalSection from '@/app/components/settings/BotGoalSection';
+import SendTimeModelSection from '@/app/components/settings/SendTimeModelSection';
+import AIProvidersSection from '@/app/components/settings/AIProvidersSection';
 
 interface Rule {
     id: string;
@@ -205,6 +207,9 @@ export default function RulesEditor() {
                         </div>
                     </div>
 
+                    {/* AI Providers */}
+                    <AIProvidersSection />
+
                     {/* Human Takeover Settings */}
                     <div className="bg-white rounded-[24px] p-8 border border-gray-200/60 shadow-sm hover:shadow-md transition-shadow">
                         <div className="flex items-start gap-4 mb-6">
@@ -299,6 +304,8 @@ export default function RulesEditor() {
                                 {autoFollowUpEnabled ? <ToggleRight size={28} /> : <ToggleLeft size={28} />}
                             </button>
                         </div>
+
+                        <SendTimeModelSection />
                     </div>
 
                     {/* Conversation Style Instructions */}
@@ -1,6 +1,7 @@
 "use client";
 
 import DashboardHero from './DashboardHero';
+import MessageQueueStatus from './MessageQueueStatus';
 
 export default function DashboardShell({
     children
@@ -11,6 +12,7 @@ export default function DashboardShell({
         <div className="flex flex-col h-full bg-[var(--background)] overflow-y-auto">
             <div className="p-8 pb-32"> {/* Extra padding bottom for scroll */}
                 <DashboardHero />
+                <MessageQueueStatus />
 
                 <div className="bg-white rounded-[32px] p-8 min-h-[500px] shadow-sm">
                     {children}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Inbox, Clock, AlertTriangle } from 'lucide-react';
+import type { QueueStatus } from '@/app/lib/messageQueueService';
+
+interface QueueStatusResponse extends QueueStatus {
+    health: {
+        status: 'healthy' | 'warning' | 'critical';
+        message: string;
+    };
+}
+
+const healthStyles = {
+    healthy: 'bg-green-50 text-green-700',
+    warning: 'bg-amber-50 text-amber-700',
+    critical: 'bg-red-50 text-red-700',
+};
+
+function formatDuration(ms: number): string {
+    if (ms < 1000) return `${ms}ms`;
+    if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+    return `${Math.round(ms / 60000)}m`;
+}
+
+export default function MessageQueueStatus() {
+    const [queue, setQueue] = useState<QueueStatusResponse | null>(null);
+
+    useEffect(() => {
+        const fetchQueue = async () => {
+            try {
+                const res = await fetch('/api/dashboard/queue');
+                if (res.ok) {
+                    setQueue(await res.json());
+                }
+            } catch (error) {
+                console.error('Error fetching queue status:', error);
+            }
+        };
+
+        fetchQueue();
+        // Poll for updates every 30 seconds
+        const interval = setInterval(fetchQueue, 30000);
+        return () => clearInterval(interval);
+    }, []);
+
+    if (!queue) return null;
+
+    return (
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-2 bg-white rounded-2xl px-6 py-3 mb-6 shadow-sm text-sm text-gray-600">
+            <span className="flex items-center gap-2 font-semibold text-gray-900">
+                <Inbox size={16} className="text-teal-600" />
+                Message Queue
+            </span>
+            <span><span className="font-semibold text-gray-900">{queue.queueLength}</span> waiting</span>
+            <span><span className="font-semibold text-gray-900">{queue.processingCount}</span> in progress</span>
+            <span className="flex items-center gap-1.5">
+                <Clock size={14} className="text-gray-400" />
+                Avg wait <span className="font-semibold text-gray-900">{formatDuration(queue.metrics.avgWaitTimeMs)}</span>
+                <span className="text-gray-400">(p95 {formatDuration(queue.metrics.p95WaitTimeMs)})</span>
+            </span>
+            <span><span className="font-semibold text-gray-900">{queue.metrics.processedLastHour}</span> answered in the last hour</span>
+            {queue.failedLastHour > 0 && (
+                <span className="flex items-center gap-1.5 text-red-600">
+                    <AlertTriangle size={14} />
+                    {queue.failedLastHour} failed
+                </span>
+            )}
+            <span className={`ml-auto px-3 py-1 rounded-full text-xs font-bold ${healthStyles[queue.health.status]}`}>
+                {queue.health.message}
+            </span>
+        </div>
+    );
+}
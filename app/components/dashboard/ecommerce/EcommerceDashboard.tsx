@@ -5,6 +5,7 @@ import RevenueCard from './RevenueCard';
 import OrderStatusCard from './OrderStatusCard';
 import CartAbandonmentCard from './CartAbandonmentCard';
 import TopProductsCard from './TopProductsCard';
+import LowStockCard from './LowStockCard';
 import ActionItems from '../ActionItems';
 import HumanTakeoverCard from '../HumanTakeoverCard';
 import type { EcommerceMetrics, DashboardStatus, FlaggedLead } from '@/app/lib/dashboardData';
@@ -127,14 +128,21 @@ export default function EcommerceDashboard({
             </div>
 
             {/* Bottom Row */}
-            <div className="col-span-12 md:col-span-5">
+            <div className="col-span-12 md:col-span-4">
                 <TopProductsCard
                     products={metrics?.topProducts || []}
                     isLoading={isRefreshing}
                 />
             </div>
 
-            <div className="col-span-12 md:col-span-7">
+            <div className="col-span-12 md:col-span-3">
+                <LowStockCard
+                    items={metrics?.lowStock || []}
+                    isLoading={isRefreshing}
+                />
+            </div>
+
+            <div className="col-span-12 md:col-span-5">
                 <HumanTakeoverCard
                     onLeadClick={onLeadClick}
                     initialLeads={flaggedLeads}
@@ -0,0 +1,77 @@
+'use client';
+
+import Link from 'next/link';
+import { AlertTriangle, PackageCheck } from 'lucide-react';
+import type { LowStockItem } from '@/app/lib/dashboardData';
+
+interface LowStockCardProps {
+    items: LowStockItem[];
+    isLoading?: boolean;
+}
+
+export default function LowStockCard({
+    items,
+    isLoading = false
+}: LowStockCardProps) {
+    if (isLoading) {
+        return (
+            <div className="bg-white rounded-3xl p-6 h-full shadow-sm ring-1 ring-gray-100 animate-pulse">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="w-10 h-10 bg-gray-200 rounded-full"></div>
+                    <div className="h-5 w-28 bg-gray-200 rounded"></div>
+                </div>
+                <div className="space-y-3">
+                    {[1, 2, 3].map(i => (
+                        <div key={i} className="h-10 bg-gray-100 rounded-xl"></div>
+                    ))}
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-white rounded-3xl p-6 h-full shadow-sm ring-1 ring-gray-100">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                    <div className="bg-red-50 p-2.5 rounded-full">
+                        <AlertTriangle size={20} className="text-red-500" />
+                    </div>
+                    <div>
+                        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">
+                            Low Stock
+                        </h3>
+                        <p className="text-xs text-gray-400">Available after open carts</p>
+                    </div>
+                </div>
+                <Link href="/store" className="text-xs font-medium text-emerald-600 hover:text-emerald-700">
+                    Restock
+                </Link>
+            </div>
+
+            {items.length === 0 ? (
+                <div className="text-center py-8 text-gray-400">
+                    <PackageCheck className="mx-auto mb-2 opacity-50" size={32} />
+                    <p className="text-sm">Everything is well stocked</p>
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    {items.map(item => (
+                        <div
+                            key={item.variationId || item.productId}
+                            className="flex items-center justify-between gap-3 p-3 rounded-xl bg-gray-50"
+                        >
+                            <p className="font-medium text-gray-800 text-sm truncate">{item.name}</p>
+                            <span
+                                className={`shrink-0 px-2.5 py-1 rounded-full text-xs font-semibold ${item.available === 0
+                                    ? 'bg-red-100 text-red-700'
+                                    : 'bg-amber-100 text-amber-700'}`}
+                            >
+                                {item.available === 0 ? 'Sold out' : `${item.available} left`}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
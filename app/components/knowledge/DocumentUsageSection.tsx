@@ -0,0 +1,142 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BarChart3, Trash2, Loader2 } from 'lucide-react';
+import type { DocumentUsage } from '@/app/lib/retrievalAnalyticsService';
+
+type UsageFilter = 'all' | 'never_used' | 'stale';
+
+const STATUS_STYLES: Record<DocumentUsage['status'], { label: string; className: string }> = {
+    active: { label: 'Active', className: 'bg-green-50 text-green-700' },
+    stale: { label: 'Stale', className: 'bg-amber-50 text-amber-700' },
+    never_used: { label: 'Never used', className: 'bg-red-50 text-red-700' },
+    new: { label: 'New', className: 'bg-gray-100 text-gray-600' },
+};
+
+export default function DocumentUsageSection() {
+    const [documents, setDocuments] = useState<DocumentUsage[]>([]);
+    const [staleAfterDays, setStaleAfterDays] = useState(60);
+    const [filter, setFilter] = useState<UsageFilter>('all');
+    const [selected, setSelected] = useState<Set<number>>(new Set());
+    const [deleting, setDeleting] = useState(false);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        fetchUsage();
+    }, []);
+
+    const fetchUsage = async () => {
+        try {
+            const res = await fetch('/api/knowledge/usage');
+            if (res.ok) {
+                const data = await res.json();
+                setDocuments(data.documents || []);
+                setStaleAfterDays(data.staleAfterDays || 60);
+            }
+        } catch (error) {
+            console.error('Failed to fetch document usage:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const toggleSelected = (id: number) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const handleDeleteSelected = async () => {
+        if (selected.size === 0) return;
+        if (!confirm(`Delete ${selected.size} chunk(s) from your knowledge base?`)) return;
+
+        setDeleting(true);
+        const deleted = new Set<number>();
+        for (const id of selected) {
+            try {
+                const res = await fetch(`/api/knowledge?id=${id}`, { method: 'DELETE' });
+                if (res.ok) deleted.add(id);
+            } catch (error) {
+                console.error('Failed to delete document:', error);
+            }
+        }
+        setDocuments(prev => prev.filter(doc => !deleted.has(doc.id)));
+        setSelected(new Set());
+        setDeleting(false);
+    };
+
+    const counts = {
+        all: documents.length,
+        never_used: documents.filter(doc => doc.status === 'never_used').length,
+        stale: documents.filter(doc => doc.status === 'stale').length,
+    };
+    const visible = filter === 'all' ? documents : documents.filter(doc => doc.status === filter);
+
+    return (
+        <div className="bg-white rounded-[24px] p-8 border border-gray-200/60 shadow-sm hover:shadow-md transition-shadow">
+            <div className="flex items-start gap-4 mb-6">
+                <div className="p-3 bg-teal-50 text-teal-600 rounded-2xl">
+                    <BarChart3 size={24} />
+                </div>
+                <div className="flex-1">
+                    <h3 className="text-lg font-medium text-gray-900">Document Usage</h3>
+                    <p className="text-gray-500 text-sm mt-1">
+                        How often each chunk was used to answer customers. Chunks never used, or unused for {staleAfterDays} days, are candidates for pruning.
+                    </p>
+                </div>
+                <button
+                    onClick={handleDeleteSelected}
+                    disabled={selected.size === 0 || deleting}
+                    className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium bg-red-600 text-white hover:bg-red-700 disabled:opacity-30"
+                >
+                    {deleting ? <Loader2 size={16} className="animate-spin" /> : <Trash2 size={16} />}
+                    Delete{selected.size > 0 ? ` (${selected.size})` : ''}
+                </button>
+            </div>
+
+            <div className="flex gap-2 mb-4">
+                {([['all', 'All'], ['never_used', 'Never used'], ['stale', 'Stale']] as const).map(([value, label]) => (
+                    <button
+                        key={value}
+                        onClick={() => setFilter(value)}
+                        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${filter === value ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                    >
+                        {label} ({counts[value]})
+                    </button>
+                ))}
+            </div>
+
+            {loading ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+            ) : visible.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing to show.</p>
+            ) : (
+                <div className="border border-gray-100 rounded-2xl divide-y divide-gray-100 max-h-[480px] overflow-y-auto">
+                    {visible.map(doc => (
+                        <label key={doc.id} className="flex items-start gap-3 px-4 py-3 hover:bg-gray-50 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={selected.has(doc.id)}
+                                onChange={() => toggleSelected(doc.id)}
+                                className="mt-1"
+                            />
+                            <p className="flex-1 min-w-0 text-sm text-gray-700 line-clamp-2">{doc.preview}</p>
+                            <div className="text-right flex-shrink-0 w-28">
+                                <p className="text-sm font-medium text-gray-900">{doc.hitCount} hit{doc.hitCount === 1 ? '' : 's'}</p>
+                                <p className="text-xs text-gray-400">
+                                    {doc.lastHitAt ? `Last ${new Date(doc.lastHitAt).toLocaleDateString()}` : 'Never'}
+                                </p>
+                            </div>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${STATUS_STYLES[doc.status].className}`}>
+                                {STATUS_STYLES[doc.status].label}
+                            </span>
+                        </label>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
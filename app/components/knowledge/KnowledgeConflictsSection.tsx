@@ -0,0 +1,146 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AlertTriangle, Check, Loader2, RefreshCw } from 'lucide-react';
+import type { KnowledgeConflict } from '@/app/lib/knowledgeConflictService';
+
+export default function KnowledgeConflictsSection() {
+    const [conflicts, setConflicts] = useState<KnowledgeConflict[]>([]);
+    const [busyConflict, setBusyConflict] = useState<string | null>(null);
+    const [scanning, setScanning] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        fetchConflicts();
+    }, []);
+
+    const fetchConflicts = async () => {
+        try {
+            const res = await fetch('/api/knowledge/conflicts');
+            if (res.ok) {
+                const data = await res.json();
+                setConflicts(data.conflicts || []);
+            }
+        } catch (error) {
+            console.error('Failed to fetch knowledge conflicts:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleScan = async () => {
+        setScanning(true);
+        setNotice(null);
+        try {
+            const res = await fetch('/api/knowledge/conflicts', { method: 'POST' });
+            const data = await res.json();
+            if (!res.ok) {
+                setNotice(data.error || 'Failed to scan for conflicts');
+                return;
+            }
+            setConflicts(data.conflicts || []);
+            setNotice(data.complete
+                ? `Checked ${data.checked} similar pair${data.checked === 1 ? '' : 's'}, found ${data.found} conflict${data.found === 1 ? '' : 's'}.`
+                : `Checked ${data.checked} pairs, found ${data.found} conflicts. Scan again to check more.`);
+        } catch (error) {
+            console.error('Failed to scan for conflicts:', error);
+            setNotice('Failed to scan for conflicts');
+        } finally {
+            setScanning(false);
+        }
+    };
+
+    const handleResolve = async (conflict: KnowledgeConflict, keepDocumentId: number | null) => {
+        setBusyConflict(conflict.id);
+        try {
+            const res = await fetch('/api/knowledge/conflicts', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: conflict.id, keepDocumentId }),
+            });
+            if (res.ok) {
+                setConflicts(prev => prev.filter(c => c.id !== conflict.id));
+            }
+        } catch (error) {
+            console.error('Failed to resolve conflict:', error);
+        } finally {
+            setBusyConflict(null);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-[24px] p-8 border border-gray-200/60 shadow-sm hover:shadow-md transition-shadow">
+            <div className="flex items-start gap-4 mb-6">
+                <div className="p-3 bg-red-50 text-red-600 rounded-2xl">
+                    <AlertTriangle size={24} />
+                </div>
+                <div className="flex-1">
+                    <h3 className="text-lg font-medium text-gray-900">Conflicting Information</h3>
+                    <p className="text-gray-500 text-sm mt-1">
+                        Chunks that give different facts about the same thing, like two prices or two sets of business hours. Your bot won&apos;t use either until you pick the correct one.
+                    </p>
+                </div>
+                <button
+                    onClick={handleScan}
+                    disabled={scanning}
+                    className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium bg-gray-900 text-white hover:bg-black disabled:opacity-50"
+                >
+                    {scanning ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                    Scan now
+                </button>
+            </div>
+
+            {notice && <p className="text-sm text-gray-600 mb-4">{notice}</p>}
+
+            {loading ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+            ) : conflicts.length === 0 ? (
+                <p className="text-sm text-gray-500">No conflicts found.</p>
+            ) : (
+                <div className="space-y-3">
+                    {conflicts.map(conflict => {
+                        const busy = busyConflict === conflict.id;
+
+                        return (
+                            <div key={conflict.id} className="bg-gray-50 p-4 rounded-2xl border border-gray-100">
+                                <div className="flex items-center justify-between gap-3 mb-3">
+                                    <p className="text-gray-900 font-medium">
+                                        {conflict.subject || 'Different facts'}
+                                        {conflict.factType && (
+                                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-50 text-red-700">{conflict.factType}</span>
+                                        )}
+                                    </p>
+                                    <button
+                                        onClick={() => handleResolve(conflict, null)}
+                                        disabled={busy}
+                                        className="text-xs font-medium text-gray-500 hover:text-gray-900 disabled:opacity-50"
+                                        title="Both are correct, e.g. different branches or sizes"
+                                    >
+                                        Both are correct
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                    {conflict.documents.map(doc => (
+                                        <div key={doc.id} className="bg-white p-3 rounded-xl border border-gray-100 flex flex-col gap-2">
+                                            {doc.value && <p className="text-sm font-semibold text-gray-900">{doc.value}</p>}
+                                            <p className="text-sm text-gray-600 line-clamp-4 whitespace-pre-line flex-1">{doc.content}</p>
+                                            <button
+                                                onClick={() => handleResolve(conflict, doc.id)}
+                                                disabled={busy}
+                                                className="self-start flex items-center gap-1.5 px-3 py-1.5 bg-teal-600 text-white text-xs font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+                                            >
+                                                {busy ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+                                                Keep this one
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
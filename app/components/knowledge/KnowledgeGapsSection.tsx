@@ -0,0 +1,263 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { HelpCircle, Sparkles, X, Loader2, Plus, UserRound } from 'lucide-react';
+import type { KnowledgeGap } from '@/app/lib/retrievalAnalyticsService';
+import type { GeneratedFAQ } from '@/app/lib/faqGeneratorService';
+
+interface Category {
+    id: string;
+    name: string;
+    type: string;
+}
+
+export default function KnowledgeGapsSection() {
+    const [gaps, setGaps] = useState<KnowledgeGap[]>([]);
+    const [qaCategories, setQaCategories] = useState<Category[]>([]);
+    const [categoryId, setCategoryId] = useState('');
+    const [drafts, setDrafts] = useState<Record<string, GeneratedFAQ[]>>({});
+    const [busyGap, setBusyGap] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        fetchGaps();
+        fetchCategories();
+    }, []);
+
+    const fetchGaps = async () => {
+        try {
+            const res = await fetch('/api/knowledge/gaps');
+            if (res.ok) {
+                const data = await res.json();
+                setGaps(data.gaps || []);
+            }
+        } catch (err) {
+            console.error('Failed to fetch knowledge gaps:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchCategories = async () => {
+        try {
+            const res = await fetch('/api/categories');
+            const data = await res.json();
+            if (Array.isArray(data)) {
+                const qa = (data as Category[]).filter(category => category.type === 'qa');
+                setQaCategories(qa);
+                setCategoryId(prev => prev || qa[0]?.id || '');
+            }
+        } catch (err) {
+            console.error('Failed to fetch categories:', err);
+        }
+    };
+
+    const removeGap = (gap: KnowledgeGap) => {
+        setGaps(prev => prev.filter(g => g.id !== gap.id));
+        setDrafts(prev => {
+            const next = { ...prev };
+            delete next[gap.id];
+            return next;
+        });
+    };
+
+    const resolveGap = async (gap: KnowledgeGap) => {
+        const res = await fetch('/api/knowledge/gaps', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ logIds: gap.logIds }),
+        });
+        if (!res.ok) throw new Error('Failed to resolve knowledge gap');
+        removeGap(gap);
+    };
+
+    const handleDraft = async (gap: KnowledgeGap) => {
+        setBusyGap(gap.id);
+        setError(null);
+        try {
+            const res = await fetch('/api/knowledge/gaps', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ logIds: gap.logIds }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to draft FAQs');
+            setDrafts(prev => ({ ...prev, [gap.id]: data.faqs || [] }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to draft FAQs');
+        } finally {
+            setBusyGap(null);
+        }
+    };
+
+    const editDraft = (gapId: string, index: number, field: 'question' | 'answer', value: string) => {
+        setDrafts(prev => ({
+            ...prev,
+            [gapId]: prev[gapId].map((faq, i) => (i === index ? { ...faq, [field]: value } : faq)),
+        }));
+    };
+
+    const removeDraft = (gapId: string, index: number) => {
+        setDrafts(prev => ({ ...prev, [gapId]: prev[gapId].filter((_, i) => i !== index) }));
+    };
+
+    const handleAddFaqs = async (gap: KnowledgeGap) => {
+        const faqs = (drafts[gap.id] || []).filter(faq => faq.question.trim() && faq.answer.trim());
+        if (faqs.length === 0) return;
+
+        setBusyGap(gap.id);
+        setError(null);
+        try {
+            for (const faq of faqs) {
+                const res = await fetch('/api/faq', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ question: faq.question, answer: faq.answer, categoryId: categoryId || undefined }),
+                });
+                if (!res.ok) throw new Error('Failed to save FAQ');
+            }
+            await resolveGap(gap);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save FAQs');
+        } finally {
+            setBusyGap(null);
+        }
+    };
+
+    const handleDismiss = async (gap: KnowledgeGap) => {
+        try {
+            await resolveGap(gap);
+        } catch (err) {
+            console.error('Failed to dismiss knowledge gap:', err);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-[24px] p-8 border border-gray-200/60 shadow-sm hover:shadow-md transition-shadow">
+            <div className="flex items-start gap-4 mb-6">
+                <div className="p-3 bg-amber-50 text-amber-600 rounded-2xl">
+                    <HelpCircle size={24} />
+                </div>
+                <div className="flex-1">
+                    <h3 className="text-lg font-medium text-gray-900">Knowledge Gaps</h3>
+                    <p className="text-gray-500 text-sm mt-1">
+                        Questions from the last 30 days your bot couldn&apos;t answer well, grouped by meaning. Add an FAQ to close the gap.
+                    </p>
+                </div>
+                {qaCategories.length > 0 && (
+                    <select
+                        value={categoryId}
+                        onChange={(e) => setCategoryId(e.target.value)}
+                        className="px-3 py-2 bg-gray-50 border border-gray-100 rounded-xl text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                        title="FAQ category for new answers"
+                    >
+                        {qaCategories.map(category => (
+                            <option key={category.id} value={category.id}>{category.name}</option>
+                        ))}
+                    </select>
+                )}
+            </div>
+
+            {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+            {loading ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+            ) : gaps.length === 0 ? (
+                <p className="text-sm text-gray-500">No gaps found - your knowledge base covered what customers asked.</p>
+            ) : (
+                <div className="space-y-3">
+                    {gaps.map(gap => {
+                        const gapDrafts = drafts[gap.id];
+                        const busy = busyGap === gap.id;
+
+                        return (
+                            <div key={gap.id} className="bg-gray-50 p-4 rounded-2xl border border-gray-100">
+                                <div className="flex items-start gap-3">
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-gray-900 font-medium">&ldquo;{gap.question}&rdquo;</p>
+                                        <p className="text-xs text-gray-500 mt-1 flex items-center gap-3">
+                                            <span>Asked {gap.askCount} time{gap.askCount === 1 ? '' : 's'}</span>
+                                            {gap.needsHumanCount > 0 && (
+                                                <span className="flex items-center gap-1 text-amber-700">
+                                                    <UserRound size={12} />
+                                                    {gap.needsHumanCount} needed a human
+                                                </span>
+                                            )}
+                                            <span>Last {new Date(gap.lastAskedAt).toLocaleDateString()}</span>
+                                        </p>
+                                        {gap.questions.length > 1 && (
+                                            <p className="text-xs text-gray-400 mt-1 truncate">
+                                                Also: {gap.questions.slice(1, 4).map(q => q.query).join(' · ')}
+                                            </p>
+                                        )}
+                                    </div>
+                                    {!gapDrafts && (
+                                        <button
+                                            onClick={() => handleDraft(gap)}
+                                            disabled={busy}
+                                            className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-900 text-white text-xs font-medium rounded-lg hover:bg-black disabled:opacity-50"
+                                        >
+                                            {busy ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                                            Draft FAQ
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => handleDismiss(gap)}
+                                        className="p-1.5 text-gray-400 hover:text-gray-700"
+                                        title="Dismiss"
+                                    >
+                                        <X size={16} />
+                                    </button>
+                                </div>
+
+                                {gapDrafts && (
+                                    <div className="mt-4 space-y-3">
+                                        {gapDrafts.length === 0 && (
+                                            <p className="text-xs text-gray-500">No drafts left.</p>
+                                        )}
+                                        {gapDrafts.map((faq, index) => (
+                                            <div key={index} className="bg-white p-3 rounded-xl border border-gray-100 space-y-2">
+                                                <div className="flex items-center gap-2">
+                                                    <input
+                                                        type="text"
+                                                        value={faq.question}
+                                                        onChange={(e) => editDraft(gap.id, index, 'question', e.target.value)}
+                                                        className="flex-1 px-3 py-1.5 text-sm font-medium bg-gray-50 border border-gray-100 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                                                    />
+                                                    <button
+                                                        onClick={() => removeDraft(gap.id, index)}
+                                                        className="p-1 text-gray-400 hover:text-red-600"
+                                                        title="Remove draft"
+                                                    >
+                                                        <X size={14} />
+                                                    </button>
+                                                </div>
+                                                <textarea
+                                                    value={faq.answer}
+                                                    onChange={(e) => editDraft(gap.id, index, 'answer', e.target.value)}
+                                                    rows={3}
+                                                    className="w-full px-3 py-2 text-sm bg-gray-50 border border-gray-100 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                                                />
+                                            </div>
+                                        ))}
+                                        <div className="flex justify-end">
+                                            <button
+                                                onClick={() => handleAddFaqs(gap)}
+                                                disabled={busy || gapDrafts.length === 0}
+                                                className="flex items-center gap-1.5 px-3 py-1.5 bg-teal-600 text-white text-xs font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+                                            >
+                                                {busy ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+                                                Add to FAQs
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CalendarClock, Check, Trash2, Loader2 } from 'lucide-react';
+import type { ReviewQueueItem } from '@/app/lib/knowledgeReviewService';
+
+export default function ReviewQueueSection() {
+    const [documents, setDocuments] = useState<ReviewQueueItem[]>([]);
+    const [reviewWindowDays, setReviewWindowDays] = useState(14);
+    const [newExpiry, setNewExpiry] = useState<Record<number, string>>({});
+    const [busyDocument, setBusyDocument] = useState<number | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        fetchQueue();
+    }, []);
+
+    const fetchQueue = async () => {
+        try {
+            const res = await fetch('/api/knowledge/review');
+            if (res.ok) {
+                const data = await res.json();
+                setDocuments(data.documents || []);
+                setReviewWindowDays(data.reviewWindowDays || 14);
+            }
+        } catch (error) {
+            console.error('Failed to fetch review queue:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const removeFromQueue = (id: number) => {
+        setDocuments(prev => prev.filter(doc => doc.id !== id));
+    };
+
+    const handleConfirm = async (doc: ReviewQueueItem) => {
+        const date = newExpiry[doc.id];
+        setBusyDocument(doc.id);
+        try {
+            const res = await fetch('/api/knowledge/review', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    id: doc.id,
+                    expiresAt: date ? new Date(`${date}T23:59:59`).toISOString() : null,
+                }),
+            });
+            if (res.ok) {
+                const data = await res.json();
+                // Still in the queue if the new expiry falls inside the review window
+                if (new Date(data.expiresAt).getTime() > Date.now() + reviewWindowDays * 24 * 3600000) {
+                    removeFromQueue(doc.id);
+                } else {
+                    setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, expiresAt: data.expiresAt, status: 'expiring' } : d));
+                }
+            } else {
+                const data = await res.json();
+                alert(data.error || 'Failed to confirm document');
+            }
+        } catch (error) {
+            console.error('Failed to confirm document:', error);
+        } finally {
+            setBusyDocument(null);
+        }
+    };
+
+    const handleDelete = async (doc: ReviewQueueItem) => {
+        if (!confirm('Delete this chunk from your knowledge base?')) return;
+
+        setBusyDocument(doc.id);
+        try {
+            const res = await fetch(`/api/knowledge?id=${doc.id}`, { method: 'DELETE' });
+            if (res.ok) removeFromQueue(doc.id);
+        } catch (error) {
+            console.error('Failed to delete document:', error);
+        } finally {
+            setBusyDocument(null);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-[24px] p-8 border border-gray-200/60 shadow-sm hover:shadow-md transition-shadow">
+            <div className="flex items-start gap-4 mb-6">
+                <div className="p-3 bg-indigo-50 text-indigo-600 rounded-2xl">
+                    <CalendarClock size={24} />
+                </div>
+                <div className="flex-1">
+                    <h3 className="text-lg font-medium text-gray-900">Review Queue</h3>
+                    <p className="text-gray-500 text-sm mt-1">
+                        Time-sensitive chunks that expire within {reviewWindowDays} days. Expired chunks are no longer used by your bot until you confirm them.
+                    </p>
+                </div>
+            </div>
+
+            {loading ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+            ) : documents.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing to review.</p>
+            ) : (
+                <div className="border border-gray-100 rounded-2xl divide-y divide-gray-100 max-h-[480px] overflow-y-auto">
+                    {documents.map(doc => {
+                        const busy = busyDocument === doc.id;
+
+                        return (
+                            <div key={doc.id} className="flex items-start gap-3 px-4 py-3">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-gray-700 line-clamp-2">{doc.preview}</p>
+                                    <p className="text-xs mt-1">
+                                        <span className={`px-2 py-0.5 rounded-full font-medium ${doc.status === 'expired' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'}`}>
+                                            {doc.status === 'expired' ? 'Expired' : 'Expires'} {new Date(doc.expiresAt).toLocaleDateString()}
+                                        </span>
+                                        {doc.verifiedAt && (
+                                            <span className="ml-2 text-gray-400">Verified {new Date(doc.verifiedAt).toLocaleDateString()}</span>
+                                        )}
+                                    </p>
+                                </div>
+                                <input
+                                    type="date"
+                                    value={newExpiry[doc.id] || ''}
+                                    onChange={(e) => setNewExpiry(prev => ({ ...prev, [doc.id]: e.target.value }))}
+                                    className="px-2 py-1 border border-gray-200 rounded-lg text-xs text-gray-700 focus:outline-none focus:border-teal-500"
+                                    title="New expiry date (leave empty to extend by the same period)"
+                                />
+                                <button
+                                    onClick={() => handleConfirm(doc)}
+                                    disabled={busy}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 bg-teal-600 text-white text-xs font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+                                    title="Still accurate"
+                                >
+                                    {busy ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+                                    Still accurate
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(doc)}
+                                    disabled={busy}
+                                    className="p-1.5 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                                    title="Delete"
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
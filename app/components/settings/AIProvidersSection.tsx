@@ -0,0 +1,226 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Cpu, ArrowUp, ArrowDown, Save, AlertTriangle } from 'lucide-react';
+import type { AIRole, TenantAIProviderSettings } from '@/app/lib/aiProviderRegistry';
+
+interface SelectableProvider {
+    id: string;
+    label: string;
+    models: Partial<Record<AIRole, string>>;
+    roles: AIRole[];
+}
+
+type FailoverRole = 'chat' | 'vision' | 'rerank';
+
+const FAILOVER_ROLES: { role: FailoverRole; label: string; description: string }[] = [
+    { role: 'chat', label: 'Replies', description: 'Answers customer messages' },
+    { role: 'vision', label: 'Image understanding', description: 'Reads receipts and photos' },
+    { role: 'rerank', label: 'Knowledge ranking', description: 'Picks the best knowledge base matches' },
+];
+
+export default function AIProvidersSection() {
+    const [providers, setProviders] = useState<SelectableProvider[]>([]);
+    const [defaults, setDefaults] = useState<Partial<Record<AIRole, string[]>>>({});
+    const [settings, setSettings] = useState<TenantAIProviderSettings>({});
+    const [savedEmbedding, setSavedEmbedding] = useState<string | undefined>(undefined);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        fetchProviders();
+    }, []);
+
+    const fetchProviders = async () => {
+        try {
+            const res = await fetch('/api/settings/ai-providers');
+            if (res.ok) {
+                const data = await res.json();
+                setProviders(data.providers || []);
+                setDefaults(data.defaults || {});
+                setSettings(data.settings || {});
+                setSavedEmbedding(data.settings?.embedding);
+            }
+        } catch (error) {
+            console.error('Failed to fetch AI providers:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            const res = await fetch('/api/settings/ai-providers', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(settings),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                alert(data.error || 'Failed to save AI providers');
+                return;
+            }
+            setSettings(data.settings);
+            setSavedEmbedding(data.settings?.embedding);
+            setSaved(true);
+            setTimeout(() => setSaved(false), 2000);
+        } catch (error) {
+            console.error('Failed to save AI providers:', error);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // The tenant's order, or the deployment default until they pick one
+    const getOrder = (role: FailoverRole): string[] => {
+        const chosen = settings[role] || [];
+        const order = chosen.length > 0 ? chosen : defaults[role] || [];
+        return order.filter(id => providers.some(p => p.id === id && p.roles.includes(role)));
+    };
+
+    const setOrder = (role: FailoverRole, order: string[]) => {
+        setSettings(prev => ({ ...prev, [role]: order }));
+    };
+
+    const toggleProvider = (role: FailoverRole, id: string) => {
+        const order = getOrder(role);
+        setOrder(role, order.includes(id) ? order.filter(p => p !== id) : [...order, id]);
+    };
+
+    const moveProvider = (role: FailoverRole, id: string, direction: -1 | 1) => {
+        const order = [...getOrder(role)];
+        const index = order.indexOf(id);
+        const target = index + direction;
+        if (index < 0 || target < 0 || target >= order.length) return;
+        [order[index], order[target]] = [order[target], order[index]];
+        setOrder(role, order);
+    };
+
+    const setModel = (providerId: string, role: AIRole, model: string) => {
+        setSettings(prev => ({
+            ...prev,
+            models: { ...prev.models, [providerId]: { ...prev.models?.[providerId], [role]: model } },
+        }));
+    };
+
+    const embeddingProviders = providers.filter(p => p.roles.includes('embedding'));
+    const embeddingChanged = (settings.embedding || undefined) !== savedEmbedding;
+
+    return (
+        <div className="bg-white rounded-[24px] p-8 border border-gray-200/60 shadow-sm hover:shadow-md transition-shadow">
+            <div className="flex items-start gap-4 mb-6">
+                <div className="p-3 bg-indigo-50 text-indigo-600 rounded-2xl">
+                    <Cpu size={24} />
+                </div>
+                <div className="flex-1">
+                    <h3 className="text-lg font-medium text-gray-900">AI Providers</h3>
+                    <p className="text-gray-500 text-sm mt-1">
+                        Choose who runs each part of your bot. If the first provider is down or busy, the next one takes over.
+                    </p>
+                </div>
+                <button
+                    onClick={handleSave}
+                    disabled={saving || loading}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-colors disabled:opacity-50 ${saved ? 'bg-green-600 text-white' : 'bg-gray-900 text-white hover:bg-black'}`}
+                >
+                    <Save size={16} />
+                    {saved ? 'Saved' : saving ? 'Saving...' : 'Save'}
+                </button>
+            </div>
+
+            {loading ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+            ) : (
+                <div className="space-y-6">
+                    {FAILOVER_ROLES.map(({ role, label, description }) => {
+                        const order = getOrder(role);
+                        const available = providers.filter(p => p.roles.includes(role));
+                        if (available.length === 0) return null;
+
+                        return (
+                            <div key={role} className="bg-gray-50 p-4 rounded-2xl border border-gray-100">
+                                <p className="text-gray-800 font-medium">{label}</p>
+                                <p className="text-gray-500 text-xs mt-1 mb-3">{description}</p>
+                                <div className="space-y-2">
+                                    {[...order, ...available.map(p => p.id).filter(id => !order.includes(id))].map(id => {
+                                        const provider = available.find(p => p.id === id);
+                                        if (!provider) return null;
+                                        const position = order.indexOf(id);
+                                        const enabled = position >= 0;
+
+                                        return (
+                                            <div key={id} className="flex items-center gap-3 bg-white p-3 rounded-xl border border-gray-100">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={enabled}
+                                                    onChange={() => toggleProvider(role, id)}
+                                                />
+                                                <span className={`w-6 text-xs font-medium ${enabled ? 'text-indigo-600' : 'text-gray-300'}`}>
+                                                    {enabled ? `#${position + 1}` : '-'}
+                                                </span>
+                                                <span className={`flex-1 text-sm ${enabled ? 'text-gray-900' : 'text-gray-400'}`}>{provider.label}</span>
+                                                <input
+                                                    type="text"
+                                                    value={settings.models?.[id]?.[role] || ''}
+                                                    onChange={(e) => setModel(id, role, e.target.value)}
+                                                    placeholder={role === 'chat' && id === 'nvidia' ? 'AI Model above' : provider.models[role]}
+                                                    disabled={!enabled}
+                                                    className="w-56 px-3 py-1.5 text-xs bg-gray-50 border border-gray-100 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 disabled:opacity-50"
+                                                />
+                                                <button
+                                                    onClick={() => moveProvider(role, id, -1)}
+                                                    disabled={!enabled || position === 0}
+                                                    className="p-1 text-gray-400 hover:text-gray-900 disabled:opacity-30"
+                                                    aria-label="Move up"
+                                                >
+                                                    <ArrowUp size={14} />
+                                                </button>
+                                                <button
+                                                    onClick={() => moveProvider(role, id, 1)}
+                                                    disabled={!enabled || position === order.length - 1}
+                                                    className="p-1 text-gray-400 hover:text-gray-900 disabled:opacity-30"
+                                                    aria-label="Move down"
+                                                >
+                                                    <ArrowDown size={14} />
+                                                </button>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        );
+                    })}
+
+                    {embeddingProviders.length > 0 && (
+                        <div className="bg-gray-50 p-4 rounded-2xl border border-gray-100">
+                            <p className="text-gray-800 font-medium">Knowledge base embeddings</p>
+                            <p className="text-gray-500 text-xs mt-1 mb-3">
+                                Turns your documents into searchable vectors. One provider only - vectors from different models can&apos;t be compared.
+                            </p>
+                            <select
+                                value={settings.embedding || ''}
+                                onChange={(e) => setSettings(prev => ({ ...prev, embedding: e.target.value || undefined }))}
+                                className="w-full px-4 py-3 bg-white border-gray-100 border rounded-xl text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                            >
+                                <option value="">Default ({defaults.embedding?.[0] || 'nvidia'})</option>
+                                {embeddingProviders.map(provider => (
+                                    <option key={provider.id} value={provider.id}>
+                                        {provider.label} - {provider.models.embedding}
+                                    </option>
+                                ))}
+                            </select>
+                            {embeddingChanged && (
+                                <p className="flex items-start gap-2 text-xs text-amber-700 mt-2">
+                                    <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                                    Documents already in your knowledge base keep their old vectors and won&apos;t be found until you add them again.
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ShieldAlert, RefreshCw } from 'lucide-react';
+import type { BlockedSendsReport } from '@/app/lib/messagingPolicyService';
+
+const PURPOSE_LABELS: Record<string, string> = {
+    response: 'Reply',
+    follow_up: 'Follow-up',
+    workflow: 'Workflow message',
+    confirmed_event: 'Appointment update',
+    post_purchase: 'Order update',
+    account_update: 'Account update',
+    human_agent: 'Agent message',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+    ai_reply: 'AI replies',
+    follow_up: 'Follow-ups',
+    workflow: 'Workflows',
+    agent_reply: 'Agent replies',
+    follow_up_sequence: 'Follow-up sequences',
+};
+
+export default function BlockedSendsSection() {
+    const [report, setReport] = useState<BlockedSendsReport | null>(null);
+    const [days, setDays] = useState(30);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        fetchReport(days);
+    }, [days]);
+
+    const fetchReport = async (range: number) => {
+        setLoading(true);
+        try {
+            const res = await fetch(`/api/messaging/blocked-sends?days=${range}`);
+            if (res.ok) {
+                setReport(await res.json());
+            }
+        } catch (error) {
+            console.error('Failed to fetch blocked sends:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+                <div className="flex items-start gap-5">
+                    <div className="p-4 bg-amber-50 text-amber-600 rounded-2xl">
+                        <ShieldAlert size={32} />
+                    </div>
+                    <div>
+                        <h2 className="text-2xl font-normal text-gray-900">Blocked Messages</h2>
+                        <p className="text-gray-500 mt-1 text-base font-light">
+                            Messages held back because the lead hadn&apos;t written in the last 24 hours
+                        </p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-3">
+                    <select
+                        value={days}
+                        onChange={(e) => setDays(parseInt(e.target.value))}
+                        className="px-4 py-2 bg-white border border-gray-200 rounded-full text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    >
+                        <option value={7}>Last 7 days</option>
+                        <option value={30}>Last 30 days</option>
+                        <option value={90}>Last 90 days</option>
+                    </select>
+                    <button
+                        onClick={() => fetchReport(days)}
+                        className="flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-900"
+                    >
+                        <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+                        Refresh
+                    </button>
+                </div>
+            </div>
+
+            {!report || report.total === 0 ? (
+                <p className="text-sm text-gray-500 font-light">
+                    {loading ? 'Loading...' : 'Nothing was blocked in this period.'}
+                </p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div className="p-4 bg-white border border-gray-100 rounded-2xl">
+                            <p className="text-2xl font-semibold text-gray-900">{report.total}</p>
+                            <p className="text-xs text-gray-500">Blocked</p>
+                        </div>
+                        {Object.entries(report.bySource).map(([source, count]) => (
+                            <div key={source} className="p-4 bg-white border border-gray-100 rounded-2xl">
+                                <p className="text-2xl font-semibold text-gray-900">{count}</p>
+                                <p className="text-xs text-gray-500">{SOURCE_LABELS[source] || source}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="border border-gray-100 rounded-2xl divide-y divide-gray-100 overflow-hidden">
+                        {report.recent.map(send => (
+                            <div key={send.id} className="px-4 py-3 text-sm space-y-1">
+                                <div className="flex items-center gap-3">
+                                    <span className="font-medium text-gray-900 truncate">{send.lead_name || send.sender_id}</span>
+                                    <span className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded-md">
+                                        {PURPOSE_LABELS[send.purpose] || send.purpose}
+                                    </span>
+                                    <span className="text-xs text-gray-400 ml-auto shrink-0">
+                                        {new Date(send.created_at).toLocaleString()}
+                                    </span>
+                                </div>
+                                <p className="text-xs text-gray-500">{send.reason}</p>
+                                {send.message_preview && (
+                                    <p className="text-xs text-gray-400 truncate">&ldquo;{send.message_preview}&rdquo;</p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
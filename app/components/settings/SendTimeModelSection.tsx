@@ -0,0 +1,126 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Brain, RefreshCw } from 'lucide-react';
+import type { SendSlotChoice, SendTimeEvaluation } from '@/app/lib/sendTimeModelService';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const SOURCE_LABELS: Record<SendSlotChoice['source'], string> = {
+    lead: 'Lead history',
+    tenant: 'Your follow-up history',
+    default: 'Defaults (no replies yet)',
+};
+
+function formatPercent(value: number): string {
+    return `${Math.round(value * 100)}%`;
+}
+
+function formatHour(hour: number): string {
+    const suffix = hour < 12 ? 'AM' : 'PM';
+    return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`;
+}
+
+export default function SendTimeModelSection() {
+    const [choice, setChoice] = useState<SendSlotChoice | null>(null);
+    const [evaluation, setEvaluation] = useState<SendTimeEvaluation | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [retraining, setRetraining] = useState(false);
+
+    useEffect(() => {
+        fetchModel();
+    }, []);
+
+    const fetchModel = async () => {
+        setLoading(true);
+        try {
+            const res = await fetch('/api/send-time-model');
+            if (res.ok) {
+                const data = await res.json();
+                setChoice(data.choice);
+                setEvaluation(data.evaluation);
+            }
+        } catch (error) {
+            console.error('Failed to fetch send-time model:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRetrain = async () => {
+        setRetraining(true);
+        try {
+            const res = await fetch('/api/send-time-model', { method: 'POST' });
+            if (res.ok) {
+                const data = await res.json();
+                setChoice(data.choice);
+                setEvaluation(data.evaluation);
+            }
+        } catch (error) {
+            console.error('Failed to retrain send-time model:', error);
+        } finally {
+            setRetraining(false);
+        }
+    };
+
+    return (
+        <div className="bg-gray-50 p-4 rounded-2xl border border-gray-100 mt-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-gray-800 font-medium">
+                    <Brain size={16} className="text-blue-600" />
+                    Smart send time
+                </div>
+                <button
+                    onClick={handleRetrain}
+                    disabled={retraining}
+                    className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-900 disabled:opacity-50"
+                    title="Rebuild the model from all past follow-ups"
+                >
+                    <RefreshCw size={12} className={retraining ? 'animate-spin' : ''} />
+                    Retrain
+                </button>
+            </div>
+
+            {loading || !choice ? (
+                <p className="text-xs text-gray-500">{loading ? 'Loading...' : 'Model unavailable.'}</p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-3 gap-3">
+                        <div>
+                            <p className="text-sm font-semibold text-gray-900">
+                                {DAY_NAMES[choice.dayOfWeek]} {formatHour(choice.hour)}
+                            </p>
+                            <p className="text-xs text-gray-500">Next follow-up slot</p>
+                        </div>
+                        <div>
+                            <p className="text-sm font-semibold text-gray-900">{formatPercent(choice.responseProbability)}</p>
+                            <p className="text-xs text-gray-500">Expected reply rate</p>
+                        </div>
+                        <div>
+                            <p className="text-sm font-semibold text-gray-900">{formatPercent(choice.confidence)}</p>
+                            <p className="text-xs text-gray-500">Confidence</p>
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-400">
+                        Based on: {SOURCE_LABELS[choice.source]}
+                        {choice.explored && ' · testing a less-tried time'}
+                    </p>
+
+                    {evaluation && (
+                        <p className="text-xs text-gray-500 border-t border-gray-100 pt-3">
+                            {evaluation.lift === null
+                                ? `Not enough history to measure lift yet (${evaluation.patterns} follow-ups recorded).`
+                                : <>
+                                    Replayed over {evaluation.evaluated} past follow-ups, ones sent at the model&apos;s preferred times got
+                                    replies {formatPercent(evaluation.modelRate)} of the time vs {formatPercent(evaluation.baselineRate)} overall
+                                    {' '}(<span className={evaluation.lift >= 0 ? 'text-emerald-600 font-medium' : 'text-red-600 font-medium'}>
+                                        {evaluation.lift >= 0 ? '+' : ''}{formatPercent(evaluation.lift)} lift
+                                    </span>).
+                                </>}
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
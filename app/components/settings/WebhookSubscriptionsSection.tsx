@@ -0,0 +1,383 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Webhook, Loader2, Plus, Trash2, Copy, Eye, EyeOff, RefreshCw, CheckCircle, XCircle, Clock } from 'lucide-react';
+
+interface WebhookSubscription {
+    id: string;
+    name: string | null;
+    url: string;
+    secret: string;
+    events: string[];
+    is_active: boolean;
+    created_at: string;
+}
+
+interface WebhookDelivery {
+    id: string;
+    subscription_id: string | null;
+    event_type: string;
+    payload: Record<string, unknown>;
+    status: 'pending' | 'success' | 'failed';
+    attempts: number;
+    response_status: number | null;
+    response_body: string | null;
+    error: string | null;
+    created_at: string;
+    delivered_at: string | null;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+    'order.confirmed': 'Order confirmed',
+    'appointment.booked': 'Appointment booked',
+    'lead.stage_changed': 'Lead stage changed',
+    'form.submitted': 'Form submitted',
+    'digital_purchase.created': 'Digital product purchased',
+};
+
+export default function WebhookSubscriptionsSection() {
+    const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+    const [availableEvents, setAvailableEvents] = useState<string[]>(Object.keys(EVENT_LABELS));
+    const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+    const [formError, setFormError] = useState('');
+
+    // New subscription form
+    const [showForm, setShowForm] = useState(false);
+    const [newName, setNewName] = useState('');
+    const [newUrl, setNewUrl] = useState('');
+    const [newEvents, setNewEvents] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    const [revealedSecretId, setRevealedSecretId] = useState<string | null>(null);
+    const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchSubscriptions();
+        fetchDeliveries();
+    }, []);
+
+    const fetchSubscriptions = async () => {
+        try {
+            const res = await fetch('/api/webhook-subscriptions');
+            const data = await res.json();
+            setSubscriptions(data.subscriptions || []);
+            if (data.events) setAvailableEvents(data.events);
+        } catch (error) {
+            console.error('Failed to fetch webhook subscriptions:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchDeliveries = async () => {
+        setLoadingDeliveries(true);
+        try {
+            const res = await fetch('/api/webhook-subscriptions/deliveries?limit=50');
+            const data = await res.json();
+            setDeliveries(data.deliveries || []);
+        } catch (error) {
+            console.error('Failed to fetch webhook deliveries:', error);
+        } finally {
+            setLoadingDeliveries(false);
+        }
+    };
+
+    const handleCreate = async () => {
+        setSaving(true);
+        setFormError('');
+        try {
+            const res = await fetch('/api/webhook-subscriptions', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name: newName, url: newUrl, events: newEvents }),
+            });
+            const data = await res.json();
+
+            if (!res.ok) {
+                setFormError(data.error || 'Failed to add webhook');
+                return;
+            }
+
+            setSubscriptions([data, ...subscriptions]);
+            setRevealedSecretId(data.id);
+            setShowForm(false);
+            setNewName('');
+            setNewUrl('');
+            setNewEvents([]);
+        } catch (error) {
+            console.error('Failed to create webhook subscription:', error);
+            setFormError('Failed to add webhook');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleToggleActive = async (subscription: WebhookSubscription) => {
+        try {
+            const res = await fetch(`/api/webhook-subscriptions/${subscription.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ is_active: !subscription.is_active }),
+            });
+            if (res.ok) {
+                const updated = await res.json();
+                setSubscriptions(subscriptions.map(s => s.id === updated.id ? updated : s));
+            }
+        } catch (error) {
+            console.error('Failed to update webhook subscription:', error);
+        }
+    };
+
+    const handleDelete = async (subscription: WebhookSubscription) => {
+        if (!confirm(`Delete the webhook for ${subscription.url}?`)) return;
+
+        try {
+            const res = await fetch(`/api/webhook-subscriptions/${subscription.id}`, { method: 'DELETE' });
+            if (res.ok) {
+                setSubscriptions(subscriptions.filter(s => s.id !== subscription.id));
+                setDeliveries(deliveries.filter(d => d.subscription_id !== subscription.id));
+            }
+        } catch (error) {
+            console.error('Failed to delete webhook subscription:', error);
+        }
+    };
+
+    const toggleNewEvent = (event: string) => {
+        setNewEvents(newEvents.includes(event)
+            ? newEvents.filter(e => e !== event)
+            : [...newEvents, event]);
+    };
+
+    const subscriptionLabel = (subscriptionId: string | null) => {
+        const subscription = subscriptions.find(s => s.id === subscriptionId);
+        return subscription ? (subscription.name || subscription.url) : 'Deleted endpoint';
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+                <div className="flex items-start gap-5">
+                    <div className="p-4 bg-purple-50 text-purple-600 rounded-2xl">
+                        <Webhook size={32} />
+                    </div>
+                    <div>
+                        <h2 className="text-2xl font-normal text-gray-900">Webhooks</h2>
+                        <p className="text-gray-500 mt-1 text-base font-light">
+                            Send signed order, appointment, lead and form events to your own systems
+                        </p>
+                    </div>
+                </div>
+                <button
+                    onClick={() => setShowForm(!showForm)}
+                    className="flex items-center gap-2 px-8 py-3 bg-teal-600 text-white rounded-full hover:bg-black hover:shadow-lg transition-all font-medium text-sm tracking-wide active:scale-95"
+                >
+                    <Plus size={18} />
+                    Add Endpoint
+                </button>
+            </div>
+
+            {/* New Subscription Form */}
+            {showForm && (
+                <div className="p-6 bg-gray-50 rounded-[24px] border border-gray-100 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <input
+                            type="text"
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            placeholder="Name (optional)"
+                            className="px-4 py-3 bg-white border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+                        />
+                        <input
+                            type="url"
+                            value={newUrl}
+                            onChange={(e) => setNewUrl(e.target.value)}
+                            placeholder="https://example.com/webhooks"
+                            className="px-4 py-3 bg-white border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-teal-500"
+                        />
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {availableEvents.map(event => (
+                            <button
+                                key={event}
+                                type="button"
+                                onClick={() => toggleNewEvent(event)}
+                                className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${newEvents.includes(event)
+                                    ? 'bg-teal-50 border-teal-500 text-teal-700'
+                                    : 'bg-white border-gray-200 text-gray-600 hover:border-teal-300'
+                                    }`}
+                            >
+                                {EVENT_LABELS[event] || event}
+                            </button>
+                        ))}
+                    </div>
+                    {formError && <p className="text-sm text-red-600">{formError}</p>}
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={() => setShowForm(false)}
+                            className="px-5 py-2 text-sm text-gray-600 hover:text-gray-900"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleCreate}
+                            disabled={saving || !newUrl || newEvents.length === 0}
+                            className="flex items-center gap-2 px-5 py-2 bg-teal-600 text-white rounded-full text-sm font-medium hover:bg-teal-700 disabled:opacity-50"
+                        >
+                            {saving && <Loader2 size={14} className="animate-spin" />}
+                            Save
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Subscriptions List */}
+            {loading ? (
+                <div className="flex flex-col items-center justify-center py-12 text-gray-400">
+                    <Loader2 className="animate-spin mb-3" size={24} />
+                    <span className="font-light text-sm">Loading webhooks...</span>
+                </div>
+            ) : subscriptions.length === 0 ? (
+                <div className="text-center py-10 px-4 bg-gray-50/50 rounded-[32px] border border-dashed border-gray-200">
+                    <p className="text-gray-500 text-sm font-light">No webhook endpoints yet.</p>
+                </div>
+            ) : (
+                <div className="grid gap-4">
+                    {subscriptions.map(subscription => (
+                        <div
+                            key={subscription.id}
+                            className="p-6 bg-white border border-gray-100 rounded-[24px] hover:shadow-lg transition-all duration-300 hover:border-gray-200 space-y-3"
+                        >
+                            <div className="flex items-start justify-between gap-4">
+                                <div className="min-w-0">
+                                    <h3 className="font-semibold text-gray-900 truncate">
+                                        {subscription.name || subscription.url}
+                                    </h3>
+                                    {subscription.name && (
+                                        <p className="text-sm text-gray-500 font-mono truncate">{subscription.url}</p>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-2 shrink-0">
+                                    <button
+                                        onClick={() => handleToggleActive(subscription)}
+                                        className={`px-3 py-1 rounded-full text-xs font-medium ${subscription.is_active
+                                            ? 'bg-green-50 text-green-700'
+                                            : 'bg-gray-100 text-gray-500'
+                                            }`}
+                                    >
+                                        {subscription.is_active ? 'Active' : 'Paused'}
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(subscription)}
+                                        className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-all"
+                                        aria-label="Delete webhook"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                            </div>
+
+                            <div className="flex flex-wrap gap-1.5">
+                                {subscription.events.map(event => (
+                                    <span key={event} className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded-md font-mono">
+                                        {event}
+                                    </span>
+                                ))}
+                            </div>
+
+                            <div className="flex items-center gap-2 text-xs text-gray-500">
+                                <span>Signing secret:</span>
+                                <code className="px-2 py-0.5 bg-gray-50 rounded font-mono truncate">
+                                    {revealedSecretId === subscription.id ? subscription.secret : '••••••••••••••••'}
+                                </code>
+                                <button
+                                    onClick={() => setRevealedSecretId(revealedSecretId === subscription.id ? null : subscription.id)}
+                                    className="p-1 hover:text-gray-900"
+                                    aria-label="Toggle secret visibility"
+                                >
+                                    {revealedSecretId === subscription.id ? <EyeOff size={14} /> : <Eye size={14} />}
+                                </button>
+                                <button
+                                    onClick={() => navigator.clipboard.writeText(subscription.secret)}
+                                    className="p-1 hover:text-gray-900"
+                                    aria-label="Copy secret"
+                                >
+                                    <Copy size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Delivery Log */}
+            {subscriptions.length > 0 && (
+                <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-normal text-gray-900">Recent Deliveries</h3>
+                        <button
+                            onClick={fetchDeliveries}
+                            className="flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-900"
+                        >
+                            <RefreshCw size={14} className={loadingDeliveries ? 'animate-spin' : ''} />
+                            Refresh
+                        </button>
+                    </div>
+
+                    {deliveries.length === 0 ? (
+                        <p className="text-sm text-gray-500 font-light">No deliveries yet.</p>
+                    ) : (
+                        <div className="border border-gray-100 rounded-2xl divide-y divide-gray-100 overflow-hidden">
+                            {deliveries.map(delivery => (
+                                <div key={delivery.id}>
+                                    <button
+                                        onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+                                        className="w-full flex items-center gap-3 px-4 py-3 text-left text-sm hover:bg-gray-50"
+                                    >
+                                        {delivery.status === 'success' ? (
+                                            <CheckCircle size={16} className="text-green-500 shrink-0" />
+                                        ) : delivery.status === 'failed' ? (
+                                            <XCircle size={16} className="text-red-500 shrink-0" />
+                                        ) : (
+                                            <Clock size={16} className="text-amber-500 shrink-0" />
+                                        )}
+                                        <span className="font-mono text-xs text-gray-700">{delivery.event_type}</span>
+                                        <span className="text-gray-500 truncate flex-1">{subscriptionLabel(delivery.subscription_id)}</span>
+                                        <span className="text-xs text-gray-400 shrink-0">
+                                            {delivery.response_status ?? '—'} · {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                                        </span>
+                                        <span className="text-xs text-gray-400 shrink-0">
+                                            {new Date(delivery.created_at).toLocaleString()}
+                                        </span>
+                                    </button>
+                                    {expandedDeliveryId === delivery.id && (
+                                        <div className="px-4 pb-4 space-y-2 bg-gray-50 text-xs">
+                                            {delivery.error && (
+                                                <p className="pt-3 text-red-600">Error: {delivery.error}</p>
+                                            )}
+                                            <div className="pt-3">
+                                                <p className="font-medium text-gray-600 mb-1">Payload</p>
+                                                <pre className="p-3 bg-white border border-gray-100 rounded-lg overflow-x-auto text-gray-700">
+                                                    {JSON.stringify(delivery.payload, null, 2)}
+                                                </pre>
+                                            </div>
+                                            {delivery.response_body && (
+                                                <div>
+                                                    <p className="font-medium text-gray-600 mb-1">Response</p>
+                                                    <pre className="p-3 bg-white border border-gray-100 rounded-lg overflow-x-auto text-gray-700 whitespace-pre-wrap">
+                                                        {delivery.response_body}
+                                                    </pre>
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, RotateCcw, CheckCircle, XCircle, PauseCircle, StopCircle, Clock, MessageSquare, GitBranch, AlertTriangle } from 'lucide-react';
+
+export interface ExecutionStep {
+    id: string;
+    node_id: string;
+    node_type: string;
+    node_label: string | null;
+    outcome: 'completed' | 'waiting' | 'stopped' | 'failed';
+    message_sent: string | null;
+    branch_taken: string | null;
+    error: string | null;
+    started_at: string;
+    finished_at: string | null;
+}
+
+interface ExecutionSummary {
+    id: string;
+    workflow_id: string;
+    lead_id: string;
+    status: string;
+    current_node_id: string | null;
+    created_at: string;
+    updated_at: string;
+    workflows: { name: string } | null;
+    leads: { name: string | null; sender_id: string } | null;
+}
+
+export interface ExecutionDetail extends ExecutionSummary {
+    steps: ExecutionStep[];
+}
+
+interface ExecutionHistoryProps {
+    workflowId?: string;                              // Lock the list to one workflow (canvas view)
+    workflows?: Array<{ id: string; name: string }>;  // Offer a workflow filter (workflows page)
+    onSelectExecution?: (execution: ExecutionDetail | null) => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+    pending: 'bg-blue-50 text-blue-700',
+    waiting_reply: 'bg-teal-50 text-teal-700',
+    completed: 'bg-green-50 text-green-700',
+    stopped: 'bg-gray-100 text-gray-600',
+    failed: 'bg-red-50 text-red-700',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+    pending: 'Running / Scheduled',
+    waiting_reply: 'Waiting for reply',
+    completed: 'Completed',
+    stopped: 'Stopped',
+    failed: 'Failed',
+};
+
+/**
+ * Node ids visited by an execution, in order (a node that waited and later resumed appears once)
+ */
+export function getExecutionPath(steps: ExecutionStep[]): string[] {
+    return steps.reduce<string[]>((path, step) => (
+        path[path.length - 1] === step.node_id ? path : [...path, step.node_id]
+    ), []);
+}
+
+function StepOutcomeIcon({ outcome }: { outcome: ExecutionStep['outcome'] }) {
+    switch (outcome) {
+        case 'completed': return <CheckCircle size={16} className="text-green-500 shrink-0" />;
+        case 'waiting': return <PauseCircle size={16} className="text-orange-500 shrink-0" />;
+        case 'stopped': return <StopCircle size={16} className="text-gray-500 shrink-0" />;
+        case 'failed': return <XCircle size={16} className="text-red-500 shrink-0" />;
+    }
+}
+
+export default function ExecutionHistory({ workflowId, workflows, onSelectExecution }: ExecutionHistoryProps) {
+    const [executions, setExecutions] = useState<ExecutionSummary[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selected, setSelected] = useState<ExecutionDetail | null>(null);
+    const [loadingDetail, setLoadingDetail] = useState(false);
+    const [retrying, setRetrying] = useState(false);
+
+    // Filters
+    const [leadSearch, setLeadSearch] = useState('');
+    const [workflowFilter, setWorkflowFilter] = useState(workflowId || '');
+    const [statusFilter, setStatusFilter] = useState('');
+
+    const fetchExecutions = useCallback(async () => {
+        setLoading(true);
+        try {
+            const params = new URLSearchParams();
+            if (workflowFilter) params.set('workflow_id', workflowFilter);
+            if (statusFilter) params.set('status', statusFilter);
+            if (leadSearch.trim()) params.set('lead', leadSearch.trim());
+
+            const res = await fetch(`/api/workflows/executions?${params.toString()}`);
+            const data = await res.json();
+            setExecutions(Array.isArray(data) ? data : []);
+        } catch (error) {
+            console.error('Error fetching executions:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [workflowFilter, statusFilter, leadSearch]);
+
+    // Debounce so typing a lead name doesn't fire a request per keystroke
+    useEffect(() => {
+        const timer = setTimeout(fetchExecutions, 300);
+        return () => clearTimeout(timer);
+    }, [fetchExecutions]);
+
+    const selectExecution = async (executionId: string | null) => {
+        if (!executionId) {
+            setSelected(null);
+            onSelectExecution?.(null);
+            return;
+        }
+
+        setLoadingDetail(true);
+        try {
+            const res = await fetch(`/api/workflows/executions/${executionId}`);
+            const data = await res.json();
+            if (res.ok) {
+                setSelected(data);
+                onSelectExecution?.(data);
+            }
+        } catch (error) {
+            console.error('Error fetching execution:', error);
+        } finally {
+            setLoadingDetail(false);
+        }
+    };
+
+    const retryExecution = async () => {
+        if (!selected) return;
+
+        setRetrying(true);
+        try {
+            const res = await fetch(`/api/workflows/executions/${selected.id}/retry`, { method: 'POST' });
+            const data = await res.json();
+            if (!res.ok) {
+                alert(`❌ ${data.error || 'Failed to retry execution'}`);
+                return;
+            }
+            await selectExecution(selected.id);
+            await fetchExecutions();
+        } catch (error) {
+            console.error('Error retrying execution:', error);
+        } finally {
+            setRetrying(false);
+        }
+    };
+
+    const inputClass = 'px-3 py-2 border border-gray-200 text-black rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-white';
+
+    return (
+        <div className="flex flex-col h-full min-h-0">
+            {/* Filters */}
+            <div className="flex flex-wrap gap-2 mb-4">
+                <input
+                    type="text"
+                    value={leadSearch}
+                    onChange={(e) => setLeadSearch(e.target.value)}
+                    placeholder="Search lead..."
+                    className={`${inputClass} flex-1 min-w-[140px]`}
+                />
+                {workflows && !workflowId && (
+                    <select value={workflowFilter} onChange={(e) => setWorkflowFilter(e.target.value)} className={inputClass}>
+                        <option value="">All workflows</option>
+                        {workflows.map(w => (
+                            <option key={w.id} value={w.id}>{w.name}</option>
+                        ))}
+                    </select>
+                )}
+                <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className={inputClass}>
+                    <option value="">All statuses</option>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {selected ? (
+                <div className="flex-1 min-h-0 overflow-y-auto">
+                    <button
+                        onClick={() => selectExecution(null)}
+                        className="text-sm text-blue-600 hover:text-blue-700 mb-3"
+                    >
+                        &larr; All executions
+                    </button>
+
+                    <div className="flex items-start justify-between gap-3 mb-4">
+                        <div>
+                            <h3 className="font-semibold text-gray-900">{selected.leads?.name || 'Unknown lead'}</h3>
+                            <p className="text-xs text-gray-500">
+                                {selected.workflows?.name || 'Deleted workflow'} · {new Date(selected.created_at).toLocaleString()}
+                            </p>
+                        </div>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium shrink-0 ${STATUS_STYLES[selected.status] || 'bg-gray-100 text-gray-600'}`}>
+                            {STATUS_LABELS[selected.status] || selected.status}
+                        </span>
+                    </div>
+
+                    {selected.status === 'failed' && (
+                        <button
+                            onClick={retryExecution}
+                            disabled={retrying}
+                            className="w-full mb-4 flex items-center justify-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+                        >
+                            {retrying ? <Loader2 size={16} className="animate-spin" /> : <RotateCcw size={16} />}
+                            Retry from failed step
+                        </button>
+                    )}
+
+                    {selected.steps.length === 0 ? (
+                        <p className="text-sm text-gray-500">No steps recorded for this execution.</p>
+                    ) : (
+                        <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                            {selected.steps.map(step => (
+                                <li key={step.id} className="ml-4">
+                                    <div className="absolute -left-2 mt-0.5 bg-white">
+                                        <StepOutcomeIcon outcome={step.outcome} />
+                                    </div>
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="text-sm font-medium text-gray-900">
+                                            {step.node_label || step.node_type}
+                                        </span>
+                                        <span className="text-[11px] text-gray-400 shrink-0">
+                                            {new Date(step.started_at).toLocaleString()}
+                                        </span>
+                                    </div>
+                                    <p className="text-[11px] text-gray-400 font-mono">{step.node_type}</p>
+                                    {step.message_sent && (
+                                        <div className="mt-1 flex gap-1.5 text-xs text-gray-700 bg-blue-50 rounded-lg p-2">
+                                            <MessageSquare size={12} className="text-blue-500 shrink-0 mt-0.5" />
+                                            <span className="whitespace-pre-wrap">{step.message_sent}</span>
+                                        </div>
+                                    )}
+                                    {step.branch_taken && (
+                                        <p className="mt-1 flex items-center gap-1 text-xs text-purple-600">
+                                            <GitBranch size={12} />
+                                            Branch: {step.branch_taken}
+                                        </p>
+                                    )}
+                                    {step.error && (
+                                        <p className="mt-1 flex items-start gap-1 text-xs text-red-600">
+                                            <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                                            {step.error}
+                                        </p>
+                                    )}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            ) : loading || loadingDetail ? (
+                <div className="flex items-center justify-center py-12 text-gray-400">
+                    <Loader2 className="animate-spin" size={24} />
+                </div>
+            ) : executions.length === 0 ? (
+                <div className="text-center py-12 text-sm text-gray-500">
+                    No executions found.
+                </div>
+            ) : (
+                <div className="flex-1 min-h-0 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-xl bg-white">
+                    {executions.map(execution => (
+                        <button
+                            key={execution.id}
+                            onClick={() => selectExecution(execution.id)}
+                            className="w-full text-left px-4 py-3 hover:bg-gray-50 flex items-center gap-3"
+                        >
+                            <Clock size={14} className="text-gray-300 shrink-0" />
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm font-medium text-gray-900 truncate">
+                                    {execution.leads?.name || 'Unknown lead'}
+                                </div>
+                                <div className="text-xs text-gray-500 truncate">
+                                    {!workflowId && `${execution.workflows?.name || 'Deleted workflow'} · `}
+                                    {new Date(execution.created_at).toLocaleString()}
+                                </div>
+                            </div>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium shrink-0 ${STATUS_STYLES[execution.status] || 'bg-gray-100 text-gray-600'}`}>
+                                {STATUS_LABELS[execution.status] || execution.status}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Split, Trophy } from 'lucide-react';
+import type { SplitTestResult, SplitVariantStats } from '@/app/lib/workflowSplitService';
+
+interface SplitTestResultsProps {
+    workflowId?: string;  // Limit the results to one workflow
+}
+
+const METRICS: Array<{ key: keyof Pick<SplitVariantStats, 'replied' | 'progressed' | 'ordered' | 'booked'>; label: string }> = [
+    { key: 'replied', label: 'Replied' },
+    { key: 'progressed', label: 'Stage moved' },
+    { key: 'ordered', label: 'Ordered' },
+    { key: 'booked', label: 'Booked' },
+];
+
+function formatRate(count: number, reach: number): string {
+    return reach > 0 ? `${Math.round((count / reach) * 100)}%` : '–';
+}
+
+export default function SplitTestResults({ workflowId }: SplitTestResultsProps) {
+    const [splits, setSplits] = useState<SplitTestResult[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [declaring, setDeclaring] = useState<string | null>(null);
+
+    const fetchSplits = useCallback(async () => {
+        setLoading(true);
+        try {
+            const res = await fetch(`/api/workflows/splits${workflowId ? `?workflowId=${workflowId}` : ''}`);
+            const data = await res.json();
+            if (res.ok) {
+                setSplits(data.splits);
+            }
+        } catch (error) {
+            console.error('Error fetching split tests:', error);
+        } finally {
+            setLoading(false);
+        }
+    }, [workflowId]);
+
+    useEffect(() => {
+        fetchSplits();
+    }, [fetchSplits]);
+
+    const declareWinner = async (split: SplitTestResult, variant: SplitVariantStats) => {
+        if (!confirm(`Keep "${variant.label}" and remove the split from "${split.workflowName}"? Steps only the other variants use are deleted.`)) {
+            return;
+        }
+
+        setDeclaring(`${split.workflowId}:${split.nodeId}`);
+        try {
+            const res = await fetch(`/api/workflows/${split.workflowId}/splits/${split.nodeId}/winner`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ variantId: variant.variantId }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                alert(`❌ ${data.error || 'Failed to declare the winner'}`);
+                return;
+            }
+            if (data.published) {
+                alert(`✅ "${variant.label}" is now live for everyone`);
+            } else if (data.issues?.length) {
+                alert(`⚠️ "${variant.label}" applied to the draft, but it can't go live until you fix: ${data.issues.map((issue: { message: string }) => issue.message).join('; ')}`);
+            } else {
+                alert(`✅ "${variant.label}" applied to the draft. Publish the workflow to make it live.`);
+            }
+            await fetchSplits();
+        } catch (error) {
+            console.error('Error declaring split winner:', error);
+        } finally {
+            setDeclaring(null);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-12 text-gray-400">
+                <Loader2 className="animate-spin" size={24} />
+            </div>
+        );
+    }
+
+    if (splits.length === 0) {
+        return (
+            <div className="text-center py-12 text-sm text-gray-500">
+                No A/B tests yet. Add an &ldquo;A/B Split&rdquo; step to a workflow to compare variants.
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            {splits.map(split => {
+                // Highlight the best reply rate once there's something to compare
+                const bestReplyRate = Math.max(...split.variants.map(v => v.reach > 0 ? v.replied / v.reach : 0));
+                const isDeclaring = declaring === `${split.workflowId}:${split.nodeId}`;
+
+                return (
+                    <div key={`${split.workflowId}:${split.nodeId}`} className="bg-white border border-gray-100 rounded-xl shadow-sm">
+                        <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between gap-3">
+                            <div className="flex items-center gap-3 min-w-0">
+                                <div className="w-9 h-9 rounded-lg bg-violet-100 text-violet-600 flex items-center justify-center shrink-0">
+                                    <Split size={18} />
+                                </div>
+                                <div className="min-w-0">
+                                    <h3 className="font-semibold text-gray-900 truncate">{split.workflowName}</h3>
+                                    <p className="text-xs text-gray-500">
+                                        {split.nodeLabel} · conversions within {split.windowDays} day{split.windowDays === 1 ? '' : 's'}
+                                    </p>
+                                </div>
+                            </div>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${split.isLive ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                                {split.isLive ? (split.inDraft ? 'Running' : 'Removed in draft') : 'Draft only'}
+                            </span>
+                        </div>
+
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-xs text-gray-500 text-left">
+                                        <th className="px-5 py-2 font-medium">Variant</th>
+                                        <th className="px-3 py-2 font-medium text-right">Reached</th>
+                                        {METRICS.map(metric => (
+                                            <th key={metric.key} className="px-3 py-2 font-medium text-right">{metric.label}</th>
+                                        ))}
+                                        <th className="px-5 py-2" />
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-50">
+                                    {split.variants.map(variant => {
+                                        const isBest = variant.reach > 0 && bestReplyRate > 0 && variant.replied / variant.reach === bestReplyRate;
+                                        return (
+                                            <tr key={variant.variantId} className={variant.removed ? 'text-gray-400' : 'text-gray-900'}>
+                                                <td className="px-5 py-3">
+                                                    <span className="font-medium">{variant.label}</span>
+                                                    {!variant.removed && <span className="ml-2 text-xs text-gray-400">weight {variant.weight}</span>}
+                                                    {isBest && split.variants.length > 1 && <Trophy size={12} className="inline ml-2 text-amber-500" />}
+                                                </td>
+                                                <td className="px-3 py-3 text-right">{variant.reach}</td>
+                                                {METRICS.map(metric => (
+                                                    <td key={metric.key} className="px-3 py-3 text-right">
+                                                        {formatRate(variant[metric.key], variant.reach)}
+                                                        <span className="ml-1 text-[11px] text-gray-400">({variant[metric.key]})</span>
+                                                    </td>
+                                                ))}
+                                                <td className="px-5 py-3 text-right">
+                                                    {split.inDraft && !variant.removed && (
+                                                        <button
+                                                            onClick={() => declareWinner(split, variant)}
+                                                            disabled={isDeclaring}
+                                                            className="text-xs font-medium text-violet-600 hover:text-violet-700 disabled:opacity-50"
+                                                        >
+                                                            {isDeclaring ? <Loader2 size={12} className="animate-spin inline" /> : 'Declare winner'}
+                                                        </button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -11,6 +11,7 @@ export type ActivityType =
     | 'payment_sent'
     | 'add_to_cart'
     | 'order_completed'
+    | 'order_cancelled'
     | 'digital_purchase_completed'
     | 'media_sent';
 
@@ -29,7 +30,7 @@ export interface LeadActivity {
 const GOAL_COMPLETED_ACTIVITIES: ActivityType[] = ['appointment_booked', 'order_completed'];
 
 // Activity types that indicate a goal was cancelled (resume follow-ups)
-const GOAL_CANCELLED_ACTIVITIES: ActivityType[] = ['appointment_cancelled'];
+const GOAL_CANCELLED_ACTIVITIES: ActivityType[] = ['appointment_cancelled', 'order_cancelled'];
 
 /**
  * Track a customer activity (product view, property view, appointment, etc.)
@@ -167,6 +168,12 @@ export function buildActivityContextForAI(activities: LeadActivity[]): string {
                     description += ` (Order #${activity.metadata.order_id})`;
                 }
                 break;
+            case 'order_cancelled':
+                description = `Cancelled an order`;
+                if (activity.metadata?.order_id) {
+                    description += ` (Order #${activity.metadata.order_id})`;
+                }
+                break;
             case 'digital_purchase_completed':
                 description = `Purchased digital product "${activity.item_name || activity.item_id}"`;
                 if (activity.metadata?.amount_paid) {
@@ -0,0 +1,143 @@
+/**
+ * AI Provider Registry
+ *
+ * Every model backend the app can call, the roles it can serve and its default model per role.
+ * All of them speak the OpenAI-compatible API except the fake provider, which answers locally
+ * and deterministically so flows can be exercised without network access or keys.
+ *
+ * Base URLs and local model names come from the environment, so self-hosted servers
+ * (Ollama, llama.cpp) only show up once they are configured for the deployment.
+ */
+
+export type AIRole = 'chat' | 'vision' | 'embedding' | 'rerank';
+
+export const AI_ROLES: AIRole[] = ['chat', 'vision', 'embedding', 'rerank'];
+
+/** Dimension of documents.embedding and ai_media.embedding - every embedding model must produce it */
+export const EMBEDDING_DIMENSIONS = 1024;
+
+export interface AIProviderDefinition {
+    id: string;
+    label: string;
+    kind: 'openai-compatible' | 'fake';
+    baseURL: string | null;            // null: not configured in this deployment
+    apiKeyEnv: string | null;          // null: the server needs no key
+    models: Partial<Record<AIRole, string>>;  // Supported roles and their default models
+    embeddingParams?: 'nvidia' | 'dimensions'; // How to ask for input types / EMBEDDING_DIMENSIONS
+    rerankPath?: string;               // Ranking endpoint, relative to baseURL
+}
+
+/** Tenant choice of providers per role, stored in bot_settings.ai_provider_settings */
+export interface TenantAIProviderSettings {
+    chat?: string[];                   // Failover order
+    vision?: string[];
+    rerank?: string[];
+    embedding?: string;                // Single provider: stored vectors only match their own model
+    models?: Record<string, Partial<Record<AIRole, string>>>;  // Per-provider model overrides
+}
+
+/**
+ * All known providers, with the current environment applied
+ */
+export function getAIProviders(): AIProviderDefinition[] {
+    return [
+        {
+            id: 'nvidia',
+            label: 'NVIDIA NIM',
+            kind: 'openai-compatible',
+            baseURL: process.env.NVIDIA_BASE_URL || 'https://integrate.api.nvidia.com/v1',
+            apiKeyEnv: 'NVIDIA_API_KEY',
+            models: {
+                chat: 'qwen/qwen3-235b-a22b',
+                vision: 'nvidia/llama-3.1-nemotron-nano-vl-8b-v1',
+                embedding: 'nvidia/nv-embedqa-e5-v5',
+                rerank: 'nvidia/nv-rerankqa-mistral-4b-v3',
+            },
+            embeddingParams: 'nvidia',
+            rerankPath: '/ranking',
+        },
+        {
+            id: 'openai',
+            label: 'OpenAI',
+            kind: 'openai-compatible',
+            baseURL: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+            apiKeyEnv: 'OPENAI_API_KEY',
+            models: {
+                chat: 'gpt-4o-mini',
+                vision: 'gpt-4o-mini',
+                embedding: 'text-embedding-3-small',
+            },
+            embeddingParams: 'dimensions',
+        },
+        {
+            id: 'ollama',
+            label: 'Ollama (self-hosted)',
+            kind: 'openai-compatible',
+            baseURL: process.env.OLLAMA_BASE_URL || null,
+            apiKeyEnv: null,
+            models: {
+                chat: process.env.OLLAMA_CHAT_MODEL || 'llama3.1',
+                vision: process.env.OLLAMA_VISION_MODEL || 'llava',
+                embedding: process.env.OLLAMA_EMBEDDING_MODEL || 'mxbai-embed-large', // 1024 dims
+            },
+        },
+        {
+            id: 'llamacpp',
+            label: 'llama.cpp server (self-hosted)',
+            kind: 'openai-compatible',
+            baseURL: process.env.LLAMACPP_BASE_URL || null,
+            apiKeyEnv: null,
+            // A llama.cpp server runs the one model it was started with
+            models: {
+                chat: process.env.LLAMACPP_CHAT_MODEL || 'default',
+                ...(process.env.LLAMACPP_EMBEDDING_MODEL && { embedding: process.env.LLAMACPP_EMBEDDING_MODEL }),
+            },
+        },
+        {
+            id: 'fake',
+            label: 'Fake (testing)',
+            kind: 'fake',
+            baseURL: null,
+            apiKeyEnv: null,
+            models: {
+                chat: 'fake-chat',
+                vision: 'fake-vision',
+                embedding: 'fake-embedding',
+                rerank: 'fake-rerank',
+            },
+        },
+    ];
+}
+
+/**
+ * Look up a provider by ID
+ */
+export function getAIProvider(id: string): AIProviderDefinition | undefined {
+    return getAIProviders().find(provider => provider.id === id);
+}
+
+/**
+ * Whether a provider can be used in this deployment
+ */
+export function isAIProviderEnabled(provider: AIProviderDefinition): boolean {
+    if (provider.kind === 'fake') {
+        return process.env.AI_ENABLE_FAKE_PROVIDER === 'true';
+    }
+    return provider.baseURL !== null;
+}
+
+/**
+ * Deployment-wide provider order for a role when the tenant has not chosen one.
+ * AI_PROVIDER_ORDER (e.g. "nvidia,openai") applies to chat, vision and rerank;
+ * AI_EMBEDDING_PROVIDER picks the embedding provider.
+ */
+export function getDefaultProviderOrder(role: AIRole): string[] {
+    if (role === 'embedding') {
+        return [process.env.AI_EMBEDDING_PROVIDER || 'nvidia'];
+    }
+    const order = (process.env.AI_PROVIDER_ORDER || 'nvidia')
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean);
+    return order.length > 0 ? order : ['nvidia'];
+}
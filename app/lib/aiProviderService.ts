@@ -0,0 +1,495 @@
+/**
+ * AI Provider Service
+ *
+ * One entry point per model role (chat, vision, embedding, rerank) that works with any provider
+ * in aiProviderRegistry. Each call walks the tenant's providers for the role - healthiest first,
+ * by circuit breaker state - and fails over to the next when one is open, throttled, has no key
+ * or errors out. Keys come from apiKeyRotationService and rotate on rate limits; every attempt
+ * reports to the circuit breaker and the rate limit metrics of its provider.
+ *
+ * Chat uses the provider's own circuit ('nvidia'); other roles get one per role ('nvidia:rerank'),
+ * so a missing rerank model does not stop the bot from answering. Rate limit metrics stay per
+ * provider, since its keys are shared by all roles.
+ *
+ * Embeddings never fail over: vectors from different models are not comparable, so a tenant's
+ * documents can only be searched with the model they were embedded with.
+ */
+
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import {
+    getAIProvider,
+    getDefaultProviderOrder,
+    isAIProviderEnabled,
+    EMBEDDING_DIMENSIONS,
+    type AIProviderDefinition,
+    type AIRole,
+    type TenantAIProviderSettings,
+} from './aiProviderRegistry';
+import { getAvailableApiKey, markKeyRateLimited } from './apiKeyRotationService';
+import { acquire, recordSuccess, recordFailure, getAllCircuitStates, CircuitState } from './circuitBreakerService';
+import { trackRequest, shouldThrottle } from './rateLimitService';
+import { withRetry, isTransientError, isRateLimitError } from './retryHelper';
+import { getBotSettingsForUser } from './userBotConfigService';
+
+// ==================== TYPES ====================
+
+export type ChatMessage = OpenAI.Chat.ChatCompletionMessageParam;
+
+export interface ChatRequest {
+    messages: ChatMessage[];
+    temperature?: number;
+    topP?: number;
+    maxTokens?: number;
+    stream?: boolean;       // Stream and collect (default); reasoning models can take a while
+    maxAttempts?: number;   // Attempts per provider before failing over
+}
+
+export interface ChatResult {
+    content: string;
+    provider: string;
+    model: string;
+}
+
+interface ProviderCandidate {
+    provider: AIProviderDefinition;
+    model: string;
+}
+
+/**
+ * Thrown when no provider could serve a role. reason is why the last candidate was passed
+ * over: 'throttled' and 'circuit_open' mean providers are busy or down rather than broken.
+ */
+export class AIProviderUnavailableError extends Error {
+    constructor(
+        public role: AIRole,
+        public reason: 'unconfigured' | 'circuit_open' | 'throttled' | 'failed',
+        public lastError?: unknown
+    ) {
+        super(`No AI provider available for ${role} (${reason})`);
+        this.name = 'AIProviderUnavailableError';
+    }
+}
+
+// ==================== PROVIDER SELECTION ====================
+
+const HEALTH_ORDER: Record<CircuitState, number> = {
+    [CircuitState.CLOSED]: 0,
+    [CircuitState.HALF_OPEN]: 1,
+    [CircuitState.OPEN]: 2,
+};
+
+function circuitName(providerId: string, role: AIRole): string {
+    return role === 'chat' ? providerId : `${providerId}:${role}`;
+}
+
+/**
+ * A tenant's provider settings, parsed from bot_settings.ai_provider_settings
+ */
+export async function getTenantAIProviderSettings(userId?: string | null): Promise<{
+    providers: TenantAIProviderSettings;
+    legacyChatModel: string | null;
+}> {
+    if (!userId) {
+        return { providers: {}, legacyChatModel: null };
+    }
+    const settings = await getBotSettingsForUser(userId);
+    return {
+        providers: (settings?.ai_provider_settings as TenantAIProviderSettings | null) || {},
+        legacyChatModel: settings?.ai_model || null,
+    };
+}
+
+/**
+ * Providers to try for a role, in order. The tenant's order (or the deployment default)
+ * is kept among providers in the same circuit state; healthier ones move to the front.
+ */
+export async function getProviderChain(role: AIRole, userId?: string | null): Promise<ProviderCandidate[]> {
+    const { providers: tenant, legacyChatModel } = await getTenantAIProviderSettings(userId);
+
+    const tenantOrder = role === 'embedding'
+        ? (tenant.embedding ? [tenant.embedding] : [])
+        : tenant[role] || [];
+    const order = tenantOrder.length > 0 ? tenantOrder : getDefaultProviderOrder(role);
+
+    const candidates: ProviderCandidate[] = [];
+    for (const id of order) {
+        const provider = getAIProvider(id);
+        if (!provider || !isAIProviderEnabled(provider) || candidates.some(c => c.provider.id === id)) continue;
+
+        // ai_model predates provider settings and names an NVIDIA chat model
+        const legacyModel = role === 'chat' && id === 'nvidia' ? legacyChatModel : null;
+        const model = tenant.models?.[id]?.[role] || legacyModel || provider.models[role];
+        if (!model) continue;
+
+        candidates.push({ provider, model });
+    }
+
+    if (candidates.length <= 1 || role === 'embedding') {
+        return candidates;
+    }
+
+    const circuits = await getAllCircuitStates();
+    const health = (id: string) => HEALTH_ORDER[circuits.find(c => c.provider === circuitName(id, role))?.state || CircuitState.CLOSED];
+    // Array.prototype.sort is stable, so the configured order breaks ties
+    return candidates.sort((a, b) => health(a.provider.id) - health(b.provider.id));
+}
+
+/**
+ * Run a call against each provider of the chain until one succeeds
+ */
+async function runWithFailover<T>(
+    role: AIRole,
+    userId: string | null | undefined,
+    call: (candidate: ProviderCandidate) => Promise<T>
+): Promise<T & { provider: string; model: string }> {
+    const chain = await getProviderChain(role, userId);
+    let reason: AIProviderUnavailableError['reason'] = 'unconfigured';
+    let lastError: unknown;
+
+    for (const candidate of chain) {
+        const { provider } = candidate;
+
+        if (provider.apiKeyEnv) {
+            const { apiKey } = await getAvailableApiKey(provider.id, userId);
+            if (!apiKey) {
+                console.log(`[AIProvider] ${provider.id}: no API key, skipping for ${role}`);
+                continue;
+            }
+        }
+
+        // Conversational calls give way to another provider instead of queueing on a busy one
+        if (role === 'chat' || role === 'vision') {
+            const throttleCheck = await shouldThrottle(provider.id);
+            if (throttleCheck.shouldThrottle) {
+                console.log(`[AIProvider] ${provider.id}: rate limit critical (${throttleCheck.usagePercent.toFixed(0)}%), skipping for ${role}`);
+                reason = 'throttled';
+                continue;
+            }
+            if (throttleCheck.shouldDelay && throttleCheck.delayMs > 0) {
+                console.log(`[AIProvider] ${provider.id}: throttling, delaying ${throttleCheck.delayMs}ms`);
+                await new Promise(resolve => setTimeout(resolve, throttleCheck.delayMs));
+            }
+        }
+
+        const circuit = circuitName(provider.id, role);
+        const permit = await acquire(circuit);
+        if (!permit.allowed) {
+            reason = 'circuit_open';
+            continue;
+        }
+
+        const start = Date.now();
+        try {
+            const result = await call(candidate);
+            recordSuccess(circuit, permit.isProbe).catch(() => { });
+            trackRequest(provider.id, Date.now() - start, false, false).catch(() => { });
+            return { ...result, provider: provider.id, model: candidate.model };
+        } catch (error) {
+            console.error(`[AIProvider] ${provider.id} ${role} call failed:`, error instanceof Error ? error.message : error);
+            const message = error instanceof Error ? error.message : String(error);
+            recordFailure(circuit, permit.isProbe, message || 'Unknown error').catch(() => { });
+            trackRequest(provider.id, 0, true, isRateLimitError(error)).catch(() => { });
+            reason = 'failed';
+            lastError = error;
+        }
+    }
+
+    throw new AIProviderUnavailableError(role, reason, lastError);
+}
+
+// ==================== OPENAI-COMPATIBLE ADAPTER ====================
+
+// Clients are reused per endpoint and key
+const clients = new Map<string, OpenAI>();
+const MAX_CLIENTS = 100;
+
+async function getProviderClient(
+    provider: AIProviderDefinition,
+    userId?: string | null
+): Promise<{ client: OpenAI; apiKey: string; keyId: string | null }> {
+    let apiKey = 'not-needed'; // Self-hosted servers ignore it, but the SDK requires one
+    let keyId: string | null = null;
+
+    if (provider.apiKeyEnv) {
+        const available = await getAvailableApiKey(provider.id, userId);
+        apiKey = available.apiKey;
+        keyId = available.keyId;
+    }
+
+    const cacheKey = `${provider.baseURL}|${apiKey}`;
+    let client = clients.get(cacheKey);
+    if (!client) {
+        if (clients.size >= MAX_CLIENTS) clients.clear();
+        client = new OpenAI({ baseURL: provider.baseURL || undefined, apiKey });
+        clients.set(cacheKey, client);
+    }
+
+    return { client, apiKey, keyId };
+}
+
+/**
+ * Retry transient errors against one provider, rotating to another key after a rate limit
+ */
+async function withProviderKey<T>(
+    provider: AIProviderDefinition,
+    userId: string | null | undefined,
+    fn: (client: OpenAI, apiKey: string) => Promise<T>,
+    maxAttempts: number = 3
+): Promise<T> {
+    let lastKeyId: string | null = null;
+
+    return withRetry(async () => {
+        // Get fresh client (may rotate key on retry)
+        const { client, apiKey, keyId } = await getProviderClient(provider, userId);
+        lastKeyId = keyId;
+        return fn(client, apiKey);
+    }, {
+        maxAttempts,
+        initialDelayMs: 1000,
+        backoffMultiplier: 2,
+        maxDelayMs: 15000,
+        jitterPercent: 25,
+        shouldRetry: isTransientError,
+        onRetry: (attempt, error, nextDelayMs) => {
+            console.warn(`[AIProvider] ${provider.id} call failed (attempt ${attempt}), retrying in ${nextDelayMs}ms...`, error.message);
+
+            // If rate limited, mark key for cooldown and rotate
+            if (isRateLimitError(error) && lastKeyId) {
+                console.log(`[AIProvider] Rate limit hit on ${provider.id} key ${lastKeyId.substring(0, 8)}...`);
+                markKeyRateLimited(lastKeyId, 60).catch(err => {
+                    console.error('[AIProvider] Error marking key rate limited:', err);
+                });
+            }
+        },
+        onRateLimit: (error, retryAfterMs) => {
+            console.log(`[AIProvider] ${provider.id} rate limit with Retry-After: ${retryAfterMs}ms`);
+            trackRequest(provider.id, 0, false, true).catch(() => { });
+        },
+    });
+}
+
+async function openAICompatibleChat(
+    { provider, model }: ProviderCandidate,
+    request: ChatRequest,
+    userId?: string | null
+): Promise<string> {
+    return withProviderKey(provider, userId, async (client) => {
+        const params: OpenAI.Chat.ChatCompletionCreateParams & { chat_template_kwargs?: { thinking: boolean } } = {
+            model,
+            messages: request.messages,
+            temperature: request.temperature ?? 0.3,
+            top_p: request.topP ?? 0.7,
+            max_tokens: request.maxTokens ?? 1024,
+        };
+
+        // DeepSeek on NVIDIA thinks before answering and supports a larger output
+        if (provider.id === 'nvidia' && model.includes('deepseek')) {
+            params.chat_template_kwargs = { thinking: true };
+            params.max_tokens = Math.max(params.max_tokens || 0, 8192);
+        }
+
+        if (request.stream === false) {
+            const completion = await client.chat.completions.create({ ...params, stream: false });
+            return completion.choices[0]?.message?.content || '';
+        }
+
+        const stream = await client.chat.completions.create({ ...params, stream: true });
+
+        let contentBuffer = '';
+        let reasoningBuffer = '';
+
+        for await (const chunk of stream) {
+            // Collect reasoning (thinking) content
+            const delta = chunk.choices[0]?.delta as { content?: string | null; reasoning_content?: string } | undefined;
+            if (delta?.reasoning_content) {
+                reasoningBuffer += delta.reasoning_content;
+            }
+
+            // Collect actual response content
+            if (delta?.content) {
+                contentBuffer += delta.content;
+            }
+        }
+
+        if (reasoningBuffer) {
+            console.log(`[AIProvider] ${provider.id} reasoning:`, reasoningBuffer.substring(0, 200) + '...');
+        }
+
+        return contentBuffer;
+    }, request.maxAttempts);
+}
+
+async function openAICompatibleEmbedding(
+    { provider, model }: ProviderCandidate,
+    text: string,
+    inputType: 'query' | 'passage',
+    userId?: string | null
+): Promise<number[]> {
+    return withProviderKey(provider, userId, async (client) => {
+        const params: Record<string, unknown> = {
+            model,
+            input: [text],
+            encoding_format: 'float',
+        };
+
+        if (provider.embeddingParams === 'nvidia') {
+            params.input_type = inputType;
+            params.truncate = 'END';
+        } else if (provider.embeddingParams === 'dimensions') {
+            params.dimensions = EMBEDDING_DIMENSIONS;
+        }
+
+        const response = await client.embeddings.create(params as unknown as OpenAI.EmbeddingCreateParams);
+        return response.data[0].embedding;
+    });
+}
+
+async function openAICompatibleRerank(
+    { provider, model }: ProviderCandidate,
+    query: string,
+    passages: string[],
+    userId?: string | null
+): Promise<number[]> {
+    if (!provider.rerankPath) {
+        throw new Error(`${provider.id} has no ranking endpoint`);
+    }
+
+    return withProviderKey(provider, userId, async (_client, apiKey) => {
+        const response = await fetch(`${provider.baseURL}${provider.rerankPath}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${apiKey}`,
+            },
+            body: JSON.stringify({
+                model,
+                query: { text: query },
+                passages: passages.map((text, idx) => ({ text, id: idx.toString() })),
+            }),
+        });
+
+        if (!response.ok) {
+            const error = new Error(`Ranking API error: ${response.status}`);
+            (error as Error & { status: number }).status = response.status;
+            throw error;
+        }
+
+        const data = await response.json();
+        const rankings = data.rankings as Array<{ id?: string; index?: number; logit: number }>;
+
+        const scores = new Array<number>(passages.length).fill(Number.NEGATIVE_INFINITY);
+        for (const rank of rankings) {
+            const idx = rank.index ?? parseInt(rank.id || '', 10);
+            if (idx >= 0 && idx < passages.length) scores[idx] = rank.logit;
+        }
+        return scores;
+    }, 1);
+}
+
+// ==================== FAKE ADAPTER ====================
+// Deterministic answers with no network access, for tests and local development
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function fakeChat(request: ChatRequest, model: string): string {
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+    const content = lastUser?.content;
+    const text = typeof content === 'string'
+        ? content
+        : (content || []).map(part => ('text' in part ? part.text : '')).join(' ').trim();
+    return `[${model}] ${text.substring(0, 200)}`;
+}
+
+/**
+ * Hashed bag of words: texts sharing words get similar vectors
+ */
+function fakeEmbedding(text: string): number[] {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    for (const token of tokenize(text)) {
+        const hash = createHash('sha256').update(token).digest();
+        const idx = hash.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+        vector[idx] += hash[4] & 1 ? 1 : -1;
+    }
+    const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0)) || 1;
+    return vector.map(val => val / magnitude);
+}
+
+function fakeRerank(query: string, passages: string[]): number[] {
+    const queryTokens = new Set(tokenize(query));
+    return passages.map(passage => {
+        if (queryTokens.size === 0) return 0;
+        const passageTokens = new Set(tokenize(passage));
+        let overlap = 0;
+        queryTokens.forEach(token => { if (passageTokens.has(token)) overlap++; });
+        return (overlap / queryTokens.size) * 10 - 5; // Logit-like range
+    });
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Chat completion with failover across the tenant's chat (or vision) providers
+ *
+ * @throws AIProviderUnavailableError when every provider was skipped or failed
+ */
+export async function generateChatCompletion(
+    request: ChatRequest,
+    options: { userId?: string | null; role?: 'chat' | 'vision' } = {}
+): Promise<ChatResult> {
+    const role = options.role || 'chat';
+    return runWithFailover(role, options.userId, async (candidate) => {
+        const content = candidate.provider.kind === 'fake'
+            ? fakeChat(request, candidate.model)
+            : await openAICompatibleChat(candidate, request, options.userId);
+        return { content };
+    });
+}
+
+/**
+ * Embed text with the tenant's embedding provider, checked against EMBEDDING_DIMENSIONS
+ *
+ * @throws AIProviderUnavailableError when the provider is unavailable or failed
+ */
+export async function embedText(
+    text: string,
+    inputType: 'query' | 'passage',
+    userId?: string | null
+): Promise<number[]> {
+    const { embedding } = await runWithFailover('embedding', userId, async (candidate) => {
+        const vector = candidate.provider.kind === 'fake'
+            ? fakeEmbedding(text)
+            : await openAICompatibleEmbedding(candidate, text, inputType, userId);
+
+        if (vector.length !== EMBEDDING_DIMENSIONS) {
+            throw new Error(`${candidate.provider.id} ${candidate.model} returned ${vector.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
+        }
+        return { embedding: vector };
+    });
+    return embedding;
+}
+
+/**
+ * Relevance logits of passages for a query, in passage order.
+ * Returns null when no rerank provider is available; callers fall back to heuristics.
+ */
+export async function rerankPassages(
+    query: string,
+    passages: string[],
+    userId?: string | null
+): Promise<number[] | null> {
+    try {
+        const { scores } = await runWithFailover('rerank', userId, async (candidate) => ({
+            scores: candidate.provider.kind === 'fake'
+                ? fakeRerank(query, passages)
+                : await openAICompatibleRerank(candidate, query, passages, userId),
+        }));
+        return scores;
+    } catch (error) {
+        if (!(error instanceof AIProviderUnavailableError)) throw error;
+        console.log(`[AIProvider] Reranking unavailable (${error.reason})`);
+        return null;
+    }
+}
@@ -7,11 +7,13 @@
  * - Automatic cooldown when rate limited
  * - Fallback to environment variable if no DB keys configured
  * - Daily request tracking per key
+ * - Separate pools per provider (api_keys.provider), env key named in aiProviderRegistry
  */
 
 import { createHash } from 'crypto';
 import { supabase } from './supabase';
 import { getUserApiKeyForUser } from './userBotConfigService';
+import { getAIProvider } from './aiProviderRegistry';
 
 // In-memory cache for available keys to reduce DB calls
 interface CachedKey {
@@ -21,15 +23,15 @@ interface CachedKey {
     priority: number;
 }
 
-let keyCache: CachedKey[] = [];
-let keyCacheLastUpdated = 0;
+// Keyed by provider
+const keyCaches = new Map<string, { keys: CachedKey[]; updatedAt: number }>();
 const KEY_CACHE_TTL_MS = 30000; // 30 seconds cache
 
-// Track which key we last used for round-robin
-let lastUsedKeyIndex = -1;
+// Track which key we last used for round-robin, per provider
+const lastUsedKeyIndex = new Map<string, number>();
 
-// Track env key cooldown (in-memory since no DB record)
-let envKeyCooldownUntil: number = 0;
+// Track env key cooldowns per provider (in-memory since no DB record)
+const envKeyCooldowns = new Map<string, number>();
 
 // Track user key cooldowns (in-memory since tracked per-user without DB updates)
 const userKeyCooldowns = new Map<string, number>();
@@ -55,18 +57,37 @@ function cleanupStaleUserCooldowns(): void {
 }
 
 /**
- * Check if the environment key is currently on cooldown
+ * Environment key of a provider, from the env variable the registry names for it
  */
-function isEnvKeyOnCooldown(): boolean {
-    return Date.now() < envKeyCooldownUntil;
+function getEnvApiKey(provider: string): string {
+    const envName = getAIProvider(provider)?.apiKeyEnv;
+    return envName ? process.env[envName] || '' : '';
 }
 
 /**
- * Put the environment key on cooldown
+ * Check if a provider's environment key is currently on cooldown
  */
-function setEnvKeyCooldown(cooldownSeconds: number): void {
-    envKeyCooldownUntil = Date.now() + cooldownSeconds * 1000;
-    console.log(`[APIKeyRotation] Env key on cooldown for ${cooldownSeconds}s`);
+function isEnvKeyOnCooldown(provider: string): boolean {
+    return Date.now() < (envKeyCooldowns.get(provider) || 0);
+}
+
+/**
+ * Put a provider's environment key on cooldown
+ */
+function setEnvKeyCooldown(provider: string, cooldownSeconds: number): void {
+    envKeyCooldowns.set(provider, Date.now() + cooldownSeconds * 1000);
+    console.log(`[APIKeyRotation] ${provider} env key on cooldown for ${cooldownSeconds}s`);
+}
+
+/**
+ * Cached rotation pool of a provider, refreshed when stale
+ */
+async function getCachedKeys(provider: string): Promise<CachedKey[]> {
+    const cached = keyCaches.get(provider);
+    if (!cached || Date.now() - cached.updatedAt > KEY_CACHE_TTL_MS) {
+        await refreshKeyCache(provider);
+    }
+    return keyCaches.get(provider)?.keys || [];
 }
 
 /**
@@ -94,7 +115,7 @@ function setUserKeyCooldown(userId: string, cooldownSeconds: number): void {
 
 export interface AvailableKey {
     apiKey: string;
-    keyId: string; // 'env' for env fallback, 'user:userId' for user keys, or DB key ID
+    keyId: string; // 'env:provider' for env fallback, 'user:userId' for user keys, or DB key ID
     keyType: 'user' | 'rotation' | 'env'; // Track which tier is being used
     isOnCooldown: boolean; // true if this key is currently on cooldown
 }
@@ -103,9 +124,9 @@ export interface AvailableKey {
  * Get an available API key for the given provider
  * 
  * 3-TIER FALLBACK HIERARCHY:
- * 1. User's dedicated API key (if userId provided and key configured)
+ * 1. User's dedicated API key (if userId provided and key configured; NVIDIA only)
  * 2. DB key rotation pool (api_keys table)
- * 3. .env NVIDIA_API_KEY (last resort)
+ * 3. The provider's env key, e.g. NVIDIA_API_KEY (last resort)
  * 
  * @param provider - The AI provider (default: 'nvidia')
  * @param userId - Optional user ID for fetching dedicated key
@@ -113,10 +134,10 @@ export interface AvailableKey {
  */
 export async function getAvailableApiKey(provider: string = 'nvidia', userId?: string | null): Promise<AvailableKey> {
     try {
-        const envKey = process.env.NVIDIA_API_KEY || '';
+        const envKey = getEnvApiKey(provider);
 
-        // === TIER 1: User's dedicated API key ===
-        if (userId && !isUserKeyOnCooldown(userId)) {
+        // === TIER 1: User's dedicated API key (bot_settings.nvidia_api_key) ===
+        if (provider === 'nvidia' && userId && !isUserKeyOnCooldown(userId)) {
             const userKey = await getUserApiKeyForUser(userId);
             if (userKey) {
                 console.log(`[APIKeyRotation] Using user's dedicated API key for user [${hashUserIdForLogging(userId)}]`);
@@ -128,26 +149,19 @@ export async function getAvailableApiKey(provider: string = 'nvidia', userId?: s
                 };
             }
             console.log(`[APIKeyRotation] User [${hashUserIdForLogging(userId)}] has no dedicated key, trying rotation pool...`);
-        } else if (userId && isUserKeyOnCooldown(userId)) {
+        } else if (provider === 'nvidia' && userId && isUserKeyOnCooldown(userId)) {
             console.log(`[APIKeyRotation] User key on cooldown for [${hashUserIdForLogging(userId)}], trying rotation pool...`);
         }
 
         // === TIER 2: DB key rotation pool ===
-        const now = Date.now();
-
-        // Refresh cache if expired
-        if (now - keyCacheLastUpdated > KEY_CACHE_TTL_MS) {
-            await refreshKeyCache(provider);
-        }
-
-        // Filter keys by provider
-        const availableKeys = keyCache.filter(key => key.provider === provider);
+        const availableKeys = await getCachedKeys(provider);
 
         if (availableKeys.length > 0) {
             // Round-robin selection with priority consideration
             const weightedKeys = getWeightedKeys(availableKeys);
-            lastUsedKeyIndex = (lastUsedKeyIndex + 1) % weightedKeys.length;
-            const selectedKey = weightedKeys[lastUsedKeyIndex];
+            const keyIndex = ((lastUsedKeyIndex.get(provider) ?? -1) + 1) % weightedKeys.length;
+            lastUsedKeyIndex.set(provider, keyIndex);
+            const selectedKey = weightedKeys[keyIndex];
 
             console.log(`[APIKeyRotation] Using rotation pool key ${selectedKey.id.substring(0, 8)}... (priority: ${selectedKey.priority})`);
 
@@ -167,10 +181,10 @@ export async function getAvailableApiKey(provider: string = 'nvidia', userId?: s
         console.log('[APIKeyRotation] No rotation pool keys available, using .env fallback as last resort');
 
         // === TIER 3: .env fallback ===
-        const envOnCooldown = isEnvKeyOnCooldown();
+        const envOnCooldown = isEnvKeyOnCooldown(provider);
         return {
             apiKey: envKey,
-            keyId: 'env',
+            keyId: `env:${provider}`,
             keyType: 'env',
             isOnCooldown: envOnCooldown,
         };
@@ -178,10 +192,10 @@ export async function getAvailableApiKey(provider: string = 'nvidia', userId?: s
         console.error('[APIKeyRotation] Error getting API key:', error);
         // Fallback to environment variable
         return {
-            apiKey: process.env.NVIDIA_API_KEY || '',
-            keyId: 'env',
+            apiKey: getEnvApiKey(provider),
+            keyId: `env:${provider}`,
             keyType: 'env',
-            isOnCooldown: isEnvKeyOnCooldown(),
+            isOnCooldown: isEnvKeyOnCooldown(provider),
         };
     }
 }
@@ -205,15 +219,15 @@ async function refreshKeyCache(provider: string): Promise<void> {
         return;
     }
 
-    keyCache = (keys || []).map(k => ({
+    const cachedKeys = (keys || []).map(k => ({
         id: k.id,
         apiKey: k.api_key,
         provider: k.provider,
         priority: k.priority || 0,
     }));
 
-    keyCacheLastUpdated = Date.now();
-    console.log(`[APIKeyRotation] Cache refreshed: ${keyCache.length} keys available`);
+    keyCaches.set(provider, { keys: cachedKeys, updatedAt: Date.now() });
+    console.log(`[APIKeyRotation] ${provider} cache refreshed: ${cachedKeys.length} keys available`);
 }
 
 /**
@@ -237,13 +251,13 @@ function getWeightedKeys(keys: CachedKey[]): CachedKey[] {
 /**
  * Mark a key as rate limited and put it on cooldown
  * 
- * @param keyId - The key ID to mark ('env' for environment key, 'user:userId' for user keys, or DB key ID)
+ * @param keyId - The key ID to mark ('env:provider' for environment keys, 'user:userId' for user keys, or DB key ID)
  * @param cooldownSeconds - How long to wait before using this key again
  */
 export async function markKeyRateLimited(keyId: string, cooldownSeconds: number = 60): Promise<void> {
-    // Handle environment key
-    if (keyId === 'env') {
-        setEnvKeyCooldown(cooldownSeconds);
+    // Handle environment key ('env' alone is the NVIDIA key, as issued before keys were per provider)
+    if (keyId === 'env' || keyId.startsWith('env:')) {
+        setEnvKeyCooldown(keyId === 'env' ? 'nvidia' : keyId.replace('env:', ''), cooldownSeconds);
         return;
     }
 
@@ -291,7 +305,9 @@ export async function markKeyRateLimited(keyId: string, cooldownSeconds: number
         }
 
         // Remove from cache immediately
-        keyCache = keyCache.filter(k => k.id !== keyId);
+        keyCaches.forEach(cached => {
+            cached.keys = cached.keys.filter(k => k.id !== keyId);
+        });
 
         console.log(`[APIKeyRotation] DB key ${keyId.substring(0, 8)}... on cooldown for ${cooldownSeconds}s`);
     } catch (error) {
@@ -330,14 +346,8 @@ async function incrementDailyCounter(keyId: string): Promise<void> {
  * Useful for circuit breaker to know if rotation is possible
  */
 export async function hasAvailableKeys(provider: string = 'nvidia'): Promise<boolean> {
-    const now = Date.now();
-
-    // Refresh cache if expired
-    if (now - keyCacheLastUpdated > KEY_CACHE_TTL_MS) {
-        await refreshKeyCache(provider);
-    }
-
-    return keyCache.filter(k => k.provider === provider).length > 0;
+    const keys = await getCachedKeys(provider);
+    return keys.length > 0;
 }
 
 /**
@@ -345,7 +355,7 @@ export async function hasAvailableKeys(provider: string = 'nvidia'): Promise<boo
  * Call this after adding new keys or after cooldowns expire
  */
 export async function forceRefreshKeyCache(provider: string = 'nvidia'): Promise<void> {
-    keyCacheLastUpdated = 0; // Force cache expiry
+    keyCaches.delete(provider); // Force cache expiry
     await refreshKeyCache(provider);
 }
 
@@ -1,20 +1,17 @@
-import OpenAI from 'openai';
 import { searchAllSources, MediaMatch } from './rag';
 import { supabase } from './supabase';
 import { supabaseAdmin } from './supabaseAdmin';
 import { getRecentActivities, buildActivityContextForAI, LeadActivity, findRecentActivityByType } from './activityTrackingService';
 import { getCatalogContext } from './productRagService';
 import { getCurrentCart, buildCartContextForAI } from './cartContextService';
+import { getCustomerOrderHistory, buildOrderStatusContextForAI, CustomerOrderHistory } from './orderStatusService';
 import { getLeadEntities, buildEntityContextForAI, extractEntitiesFromMessage, LeadEntity } from './entityTrackingService';
 import { calculateImportance } from './importanceService';
 import { getSmartPassiveState, buildSmartPassiveContext, SmartPassiveState } from './smartPassiveService';
-import { withRetry, isTransientError, isRateLimitError } from './retryHelper';
 import { buildTimeContext } from './responseVarietyService';
 import { detectObjection, getObjectionHandlingPrompt } from './objectionHandlerService';
-// Rate limit resilience services
-import { getAvailableApiKey, markKeyRateLimited } from './apiKeyRotationService';
-import { canProceed, recordSuccess, recordFailure, getCircuitState, CircuitState } from './circuitBreakerService';
-import { trackRequest, shouldThrottle } from './rateLimitService';
+// Provider failover (circuit breakers, throttling, key rotation) and fallback replies
+import { generateChatCompletion, AIProviderUnavailableError } from './aiProviderService';
 import { getSmartFallbackMessage, getBusyFallbackMessage } from './fallbackMessageService';
 import { incrementMessageCountForSender } from './pipelineService';
 // User-aware bot configuration for multi-user support
@@ -60,37 +57,6 @@ async function getBotSettings() {
     }
 }
 
-// Dynamic client creation with API key rotation
-let currentClient: OpenAI | null = null;
-let currentKeyId: string | null = null;
-
-/**
- * Get or create OpenAI client with API key rotation
- * Uses 3-tier fallback: user key -> rotation pool -> .env
- */
-async function getAIClient(userId?: string | null): Promise<{ client: OpenAI; keyId: string | null; keyType: 'user' | 'rotation' | 'env' }> {
-    const { apiKey, keyId, keyType } = await getAvailableApiKey('nvidia', userId);
-
-    // Reuse client if same key
-    if (currentClient && currentKeyId === keyId) {
-        return { client: currentClient, keyId, keyType };
-    }
-
-    currentClient = new OpenAI({
-        baseURL: 'https://integrate.api.nvidia.com/v1',
-        apiKey,
-    });
-    currentKeyId = keyId;
-
-    return { client: currentClient, keyId, keyType };
-}
-
-// Legacy client for backward compatibility (uses env key)
-const client = new OpenAI({
-    baseURL: 'https://integrate.api.nvidia.com/v1',
-    apiKey: process.env.NVIDIA_API_KEY,
-});
-
 /**
  * @deprecated Use getBotRulesForUser(userId) for multi-tenant safety.
  * This function returns rules without user filtering!
@@ -434,7 +400,7 @@ export async function getConversationHistory(senderId: string, userId?: string |
 
 // Store a message with importance score (fire and forget - don't await)
 // Uses supabaseAdmin to bypass RLS since webhooks don't have user auth context
-function storeMessageAsync(senderId: string, role: 'user' | 'assistant', content: string, userId?: string | null) {
+export function storeMessageAsync(senderId: string, role: 'user' | 'assistant', content: string, userId?: string | null) {
     // Run in background - don't block the response
     (async () => {
         try {
@@ -555,10 +521,6 @@ export async function generateConversationSummary(senderId: string, userId?: str
         // 3. Get previous summary (user-filtered)
         const previousSummary = await getLatestConversationSummary(senderId, userId);
 
-        // Fetch settings for model
-        const settings = await getBotSettings();
-        const aiModel = settings.ai_model || "qwen/qwen3-235b-a22b";
-
         // 4. Generate new summary using LLM
         const prompt = `You are an expert conversation summarizer. Your goal is to create a concise but comprehensive summary of the customer's context.
 
@@ -583,14 +545,13 @@ Key details to track:
 OUTPUT:
 Return ONLY the summary text. Do not add "Here is the summary" or other filler.`;
 
-        const completion = await client.chat.completions.create({
-            model: aiModel,
+        // Uses the tenant's chat providers, with failover
+        const { content: newSummary } = await generateChatCompletion({
             messages: [{ role: 'user', content: prompt }],
             temperature: 0.3,
-            max_tokens: 512,
-        });
-
-        const newSummary = completion.choices[0]?.message?.content || '';
+            maxTokens: 512,
+            stream: false,
+        }, { userId });
         console.log('Generated summary:', newSummary);
 
         if (newSummary) {
@@ -644,7 +605,8 @@ export async function getBotResponse(
     userMessage: string,
     senderId: string = 'web_default',
     imageContext?: ImageContext,
-    userId?: string | null
+    userId?: string | null,
+    humanAttention?: { fired: boolean; triggerType: string | null } // detectNeedsHumanAttention outcome, logged with the search
 ): Promise<string> {
     const startTime = Date.now();
 
@@ -674,7 +636,7 @@ export async function getBotResponse(
     const results = await Promise.all([
         userId ? getBotRulesForUser(userId) : getBotRules(),
         getConversationHistory(senderId, userId),
-        searchAllSources(userMessage, { includeMedia: true, userId: userId || undefined }), // Unified search for docs + media (user-filtered)
+        searchAllSources(userMessage, { includeMedia: true, userId: userId || undefined, senderId, humanAttention }), // Unified search for docs + media (user-filtered)
         userId ? getBotInstructionsForUser(userId) : getBotInstructions(),
         getRecentActivities(senderId, 5), // Get last 5 activities for context
         getCatalogContext(userId || undefined), // Get products, properties, payment methods (user-filtered)
@@ -683,6 +645,7 @@ export async function getBotResponse(
         getLeadEntities(senderId), // Get structured customer facts
         getSmartPassiveState(senderId), // Get Smart Passive mode state
         getLeadGoalStatus(senderId, userId), // Get goal completion status (user-filtered)
+        getCustomerOrderHistory(senderId, userId), // Get placed orders for status questions
     ]);
 
     // Destructure promise results
@@ -699,6 +662,7 @@ export async function getBotResponse(
     const entities = results[8] as LeadEntity[];
     const smartPassiveState = results[9] as SmartPassiveState;
     const goalStatus = results[10] as LeadGoalStatus;
+    const orderHistory = results[11] as CustomerOrderHistory;
     const primaryGoal = settings.primary_goal || 'lead_generation';
 
     // Extract document context and media from unified search
@@ -734,7 +698,7 @@ export async function getBotResponse(
     if (hasProducts && !recentOrder) {
         uiToolsList += `- [SHOW_PRODUCTS] : When user wants to BROWSE ALL products/items available.\n`;
         uiToolsList += `- [RECOMMEND_PRODUCT:product_id] : When recommending a SPECIFIC product based on user preferences. Use the exact product ID from the catalog.\n`;
-        uiToolsList += `- [SHOW_CART] : When user asks to see their cart, order, or what they've added. Example: "ano na sa cart ko?" / "what's in my cart?"\n`;
+        uiToolsList += `- [SHOW_CART] : When user asks to see their cart (items not checked out yet) or what they've added. Example: "ano na sa cart ko?" / "what's in my cart?"\n`;
         uiToolsList += `- [REMOVE_CART:product_name] : When user wants to REMOVE an item from their cart. Replace "product_name" with the actual product name they want removed.\n`;
 
         examplesList += `- Example (browse all): "Yes, meron kaming available. Check mo dito: [SHOW_PRODUCTS]"\n`;
@@ -742,10 +706,20 @@ export async function getBotResponse(
         examplesList += `- Example: "Okay po, aalisin ko na yan sa cart mo. [REMOVE_CART:Product Name Here]"\n`;
     } else if (hasProducts && recentOrder) {
         // Still allow cart tools but hide SHOW_PRODUCTS from proactive suggestions
-        uiToolsList += `- [SHOW_CART] : When user asks to see their cart, order, or what they've added.\n`;
+        uiToolsList += `- [SHOW_CART] : When user asks to see their cart (items not checked out yet) or what they've added.\n`;
         uiToolsList += `- [REMOVE_CART:product_name] : When user wants to REMOVE an item from their cart.\n`;
     }
 
+    // Order lookup tools - only when the customer has placed orders
+    const hasPlacedOrders = orderHistory.orders.length > 0 || orderHistory.digitalPurchases.length > 0;
+    if (hasPlacedOrders) {
+        uiToolsList += `- [SHOW_ORDERS] : When user asks about an order they ALREADY PLACED (status, delivery, payment, tracking). Example: "nasaan na order ko?" / "where is my order?"\n`;
+        examplesList += `- Example (order status): "Eto po yung status ng orders mo: [SHOW_ORDERS]"\n`;
+    }
+    if (orderHistory.orders.some(order => order.cancellable)) {
+        uiToolsList += `- [CANCEL_ORDER:order_id] : When user wants to CANCEL a placed order. Use the exact order_id from CUSTOMER ORDERS; they will be asked to confirm. Only for orders marked "can be cancelled".\n`;
+    }
+
     if (hasProperties) {
         uiToolsList += `- [SHOW_PROPERTIES] : When user wants to BROWSE ALL properties available. This shows a visual card carousel.\n`;
         uiToolsList += `- [RECOMMEND_PROPERTY:property_id] : When recommending a SPECIFIC property based on user preferences (bedrooms, budget, location). Use the exact property ID from the catalog. Shows only that one property card.\n`;
@@ -1002,6 +976,13 @@ The customer has recently completed an order.
 `;
     }
 
+    // Add placed orders context (status, payment, tracking, cancellation)
+    const orderStatusContext = buildOrderStatusContextForAI(orderHistory);
+    if (orderStatusContext) {
+        systemPrompt += `${orderStatusContext}
+`;
+    }
+
     // Add Smart Passive context if active (customer needs human attention)
     const smartPassiveContext = buildSmartPassiveContext(smartPassiveState);
     if (smartPassiveContext) {
@@ -1105,112 +1086,18 @@ INSTRUCTION: Respond naturally about the image. If they might be trying to send
     try {
         const llmStart = Date.now();
 
-        // === CIRCUIT BREAKER CHECK ===
-        // If circuit is open, immediately return fallback
-        if (!canProceed('nvidia')) {
-            console.log('[Resilience] Circuit breaker OPEN - returning fallback');
-            return getSmartFallbackMessage(userMessage);
-        }
-
-        // === RATE LIMIT THROTTLING CHECK ===
-        const throttleCheck = await shouldThrottle('nvidia');
-        if (throttleCheck.shouldThrottle) {
-            console.log(`[Resilience] Rate limit critical (${throttleCheck.usagePercent.toFixed(0)}%) - returning fallback`);
-            return getBusyFallbackMessage();
-        }
-        if (throttleCheck.shouldDelay && throttleCheck.delayMs > 0) {
-            console.log(`[Resilience] Throttling: delaying ${throttleCheck.delayMs}ms`);
-            await new Promise(resolve => setTimeout(resolve, throttleCheck.delayMs));
-        }
-
-        // === GET AI CLIENT WITH KEY ROTATION ===
-        // Uses 3-tier fallback: user key -> rotation pool -> .env
-        const { client: aiClient, keyId, keyType } = await getAIClient(userId);
-
-        // Use selected model or default to Qwen
-        const aiModel = settings.ai_model || "qwen/qwen3-235b-a22b";
-
-        // Prepare completion options
-        const completionOptions: OpenAI.Chat.ChatCompletionCreateParams & { chat_template_kwargs?: { thinking: boolean } } = {
-            model: aiModel,
+        // === GENERATE WITH PROVIDER FAILOVER ===
+        // Tries the tenant's chat providers healthiest first; circuit breakers, throttling
+        // and key rotation are applied per provider (aiProviderService)
+        const { content: responseContent, provider } = await generateChatCompletion({
             messages,
             temperature: 0.3,
-            top_p: 0.7,
-            max_tokens: 1024,
-            stream: true,
-        };
-
-        // Add DeepSeek specific options if selected
-        if (aiModel.includes('deepseek')) {
-            completionOptions.chat_template_kwargs = { "thinking": true };
-            completionOptions.max_tokens = 8192; // DeepSeek supports larger context
-        }
-
-        let responseContent: string = '';
-        let lastKeyId = keyId;
-
-        responseContent = await withRetry(async () => {
-            // Get fresh client (may rotate key on retry)
-            const { client: retryClient, keyId: retryKeyId } = await getAIClient(userId);
-            lastKeyId = retryKeyId;
-
-            const stream = await retryClient.chat.completions.create(completionOptions as OpenAI.Chat.ChatCompletionCreateParams) as AsyncIterable<OpenAI.Chat.ChatCompletionChunk>;
-
-            let contentBuffer = '';
-            let reasoningBuffer = '';
-
-            // Process the stream
-            for await (const chunk of stream) {
-                // Collect reasoning (thinking) content
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const reasoning = (chunk.choices[0]?.delta as any)?.reasoning_content;
-                if (reasoning) {
-                    reasoningBuffer += reasoning;
-                }
-
-                // Collect actual response content
-                const content = chunk.choices[0]?.delta?.content;
-                if (content) {
-                    contentBuffer += content;
-                }
-            }
-
-            if (reasoningBuffer) {
-                console.log('Reasoning:', reasoningBuffer.substring(0, 200) + '...');
-            }
-
-            return contentBuffer;
-        }, {
-            maxAttempts: 3,
-            initialDelayMs: 1000,
-            backoffMultiplier: 2,
-            maxDelayMs: 15000,
-            jitterPercent: 25,
-            shouldRetry: isTransientError,
-            onRetry: (attempt, error, nextDelayMs) => {
-                console.warn(`LLM call failed (attempt ${attempt}), retrying in ${nextDelayMs}ms...`, error.message);
-
-                // If rate limited, mark key for cooldown and rotate
-                if (isRateLimitError(error) && lastKeyId) {
-                    console.log(`[Resilience] Rate limit hit on key ${lastKeyId?.substring(0, 8)}...`);
-                    markKeyRateLimited(lastKeyId, 60).catch(err => {
-                        console.error('[Resilience] Error marking key rate limited:', err);
-                    });
-                }
-            },
-            onRateLimit: (error, retryAfterMs) => {
-                console.log(`[Resilience] Rate limit with Retry-After: ${retryAfterMs}ms`);
-                // Track for metrics
-                trackRequest('nvidia', 0, false, true).catch(() => { });
-            }
-        });
+            topP: 0.7,
+            maxTokens: 1024,
+        }, { userId });
 
         const llmDuration = Date.now() - llmStart;
-        console.log(`LLM call took ${llmDuration} ms`);
-
-        // === TRACK SUCCESS METRICS ===
-        recordSuccess('nvidia');
-        trackRequest('nvidia', llmDuration, false, false).catch(() => { });
+        console.log(`LLM call took ${llmDuration} ms (${provider})`);
 
         // Handle empty responses with a fallback
         if (!responseContent || responseContent.trim() === '') {
@@ -1230,11 +1117,13 @@ INSTRUCTION: Respond naturally about the image. If they might be trying to send
         return responseContent;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } catch (error: any) {
-        console.error("Error calling NVIDIA API after retries:", error.response?.data || error.message || error);
+        // Every provider was busy or down: say so rather than pretend to answer
+        if (error instanceof AIProviderUnavailableError) {
+            console.log(`[Resilience] No chat provider available (${error.reason}) - returning fallback`);
+            return error.reason === 'throttled' ? getBusyFallbackMessage() : getSmartFallbackMessage(userMessage);
+        }
 
-        // === RECORD FAILURE FOR CIRCUIT BREAKER ===
-        recordFailure('nvidia', isTransientError(error));
-        trackRequest('nvidia', 0, true, isRateLimitError(error)).catch(() => { });
+        console.error("Error generating AI response:", error.response?.data || error.message || error);
 
         // Return user-friendly fallback instead of empty string
         return getSmartFallbackMessage(userMessage);
@@ -5,9 +5,15 @@
  * States:
  * - CLOSED: Normal operation, requests pass through
  * - OPEN: Service is failing, immediately return fallback
- * - HALF_OPEN: Testing if service recovered, allow limited requests
+ * - HALF_OPEN: Testing if service recovered, a single probe request is allowed
+ *
+ * State is shared by all instances through the circuit_breakers table; every transition
+ * runs atomically in the circuit_* database functions. If the state can't be read the
+ * breaker fails open (lets requests through) rather than blocking on its own outage.
  */
 
+import { supabaseAdmin } from './supabaseAdmin';
+
 export enum CircuitState {
     CLOSED = 'CLOSED',
     OPEN = 'OPEN',
@@ -15,50 +21,55 @@ export enum CircuitState {
 }
 
 interface CircuitBreakerConfig {
-    failureThreshold: number;      // Number of failures to open circuit
-    successThreshold: number;      // Successes in half-open to close circuit
+    failureThreshold: number;      // Number of consecutive failures to open circuit
     resetTimeoutMs: number;        // Time before trying half-open
-    halfOpenMaxRequests: number;   // Max requests in half-open state
+    probeTimeoutMs: number;        // A probe that hasn't reported back by then is replaced
 }
 
-interface CircuitBreakerState {
+export interface CircuitPermit {
+    allowed: boolean;
+    state: CircuitState;
+    isProbe: boolean;              // Pass back to recordSuccess / recordFailure
+}
+
+export interface CircuitStatus {
+    provider: string;
     state: CircuitState;
     failures: number;
-    successes: number;
-    lastFailureTime: number;
-    halfOpenRequests: number;
+    isOpen: boolean;
+    openedAt: string | null;
+    lastFailureAt: string | null;
+    lastTripReason: string | null;
+    timeUntilHalfOpen: number | null;
+}
+
+export interface CircuitEvent {
+    id: string;
+    provider: string;
+    from_state: CircuitState;
+    to_state: CircuitState;
+    reason: string | null;
+    created_at: string;
+}
+
+interface CircuitRow {
+    provider: string;
+    state: CircuitState;
+    failures: number;
+    opened_at: string | null;
+    last_failure_at: string | null;
+    last_trip_reason: string | null;
 }
 
 // Default configuration
 const DEFAULT_CONFIG: CircuitBreakerConfig = {
     failureThreshold: 5,
-    successThreshold: 2,
     resetTimeoutMs: 30000,  // 30 seconds
-    halfOpenMaxRequests: 3,
+    probeTimeoutMs: 60000,
 };
 
-// Circuit breakers per provider
-const circuits: Map<string, CircuitBreakerState> = new Map();
 const configs: Map<string, CircuitBreakerConfig> = new Map();
 
-/**
- * Get or initialize circuit state for a provider
- */
-function getCircuit(provider: string): CircuitBreakerState {
-    let circuit = circuits.get(provider);
-    if (!circuit) {
-        circuit = {
-            state: CircuitState.CLOSED,
-            failures: 0,
-            successes: 0,
-            lastFailureTime: 0,
-            halfOpenRequests: 0,
-        };
-        circuits.set(provider, circuit);
-    }
-    return circuit;
-}
-
 /**
  * Get configuration for a provider
  */
@@ -77,171 +88,183 @@ export function configureCircuitBreaker(
 }
 
 /**
- * Check if a request can proceed
- * Returns true if request should proceed, false if circuit is open
+ * Ask whether a request can proceed. In HALF_OPEN only the probe is allowed.
  * 
  * @param provider - The service provider (e.g., 'nvidia')
- * @returns Whether the request can proceed
+ * @returns Whether the request can proceed, and whether it is the probe
  */
-export function canProceed(provider: string = 'nvidia'): boolean {
-    const circuit = getCircuit(provider);
+export async function acquire(provider: string = 'nvidia'): Promise<CircuitPermit> {
     const config = getConfig(provider);
-    const now = Date.now();
-
-    switch (circuit.state) {
-        case CircuitState.CLOSED:
-            return true;
-
-        case CircuitState.OPEN:
-            // Check if reset timeout has passed
-            if (now - circuit.lastFailureTime >= config.resetTimeoutMs) {
-                console.log(`[CircuitBreaker] ${provider}: OPEN -> HALF_OPEN (timeout passed)`);
-                circuit.state = CircuitState.HALF_OPEN;
-                circuit.halfOpenRequests = 0;
-                circuit.successes = 0;
-                return true;
-            }
-            console.log(`[CircuitBreaker] ${provider}: OPEN - request blocked`);
-            return false;
-
-        case CircuitState.HALF_OPEN:
-            // Allow limited requests in half-open state
-            if (circuit.halfOpenRequests < config.halfOpenMaxRequests) {
-                circuit.halfOpenRequests++;
-                return true;
-            }
-            console.log(`[CircuitBreaker] ${provider}: HALF_OPEN - max requests reached`);
-            return false;
-
-        default:
-            return true;
+
+    const { data, error } = await supabaseAdmin.rpc('circuit_acquire', {
+        p_provider: provider,
+        p_reset_timeout_ms: config.resetTimeoutMs,
+        p_probe_timeout_ms: config.probeTimeoutMs,
+    });
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (error || !row) {
+        console.error(`[CircuitBreaker] ${provider}: could not read state, allowing request`, error);
+        return { allowed: true, state: CircuitState.CLOSED, isProbe: false };
     }
+
+    if (!row.allowed) {
+        console.log(`[CircuitBreaker] ${provider}: ${row.state} - request blocked`);
+    } else if (row.is_probe) {
+        console.log(`[CircuitBreaker] ${provider}: HALF_OPEN - sending probe`);
+    }
+
+    return { allowed: row.allowed, state: row.state as CircuitState, isProbe: row.is_probe };
 }
 
 /**
- * Record a successful request
- * 
- * @param provider - The service provider
+ * Check if a request can proceed
+ * Returns true if request should proceed, false if circuit is open
  */
-export function recordSuccess(provider: string = 'nvidia'): void {
-    const circuit = getCircuit(provider);
-    const config = getConfig(provider);
+export async function canProceed(provider: string = 'nvidia'): Promise<boolean> {
+    return (await acquire(provider)).allowed;
+}
+
+async function recordResult(provider: string, success: boolean, isProbe: boolean, reason?: string): Promise<CircuitState | null> {
+    const { data, error } = await supabaseAdmin.rpc('circuit_record_result', {
+        p_provider: provider,
+        p_success: success,
+        p_is_probe: isProbe,
+        p_failure_threshold: getConfig(provider).failureThreshold,
+        p_reason: reason || null,
+    });
 
-    switch (circuit.state) {
-        case CircuitState.CLOSED:
-            // Reset failure count on success
-            circuit.failures = 0;
-            break;
-
-        case CircuitState.HALF_OPEN:
-            circuit.successes++;
-            if (circuit.successes >= config.successThreshold) {
-                console.log(`[CircuitBreaker] ${provider}: HALF_OPEN -> CLOSED (recovered)`);
-                circuit.state = CircuitState.CLOSED;
-                circuit.failures = 0;
-                circuit.successes = 0;
-                circuit.halfOpenRequests = 0;
-            }
-            break;
-
-        case CircuitState.OPEN:
-            // Shouldn't happen, but reset just in case
-            break;
+    if (error) {
+        console.error(`[CircuitBreaker] ${provider}: error recording result`, error);
+        return null;
     }
+
+    return data as CircuitState;
 }
 
 /**
- * Record a failed request
+ * Record a successful request
  * 
  * @param provider - The service provider
- * @param isTransient - Whether this is a transient error (rate limit, network)
+ * @param isProbe - Whether this was the HALF_OPEN probe (closes the circuit)
  */
-export function recordFailure(provider: string = 'nvidia', isTransient: boolean = true): void {
-    const circuit = getCircuit(provider);
-    const config = getConfig(provider);
-    const now = Date.now();
-
-    switch (circuit.state) {
-        case CircuitState.CLOSED:
-            circuit.failures++;
-            circuit.lastFailureTime = now;
-            if (circuit.failures >= config.failureThreshold) {
-                console.log(`[CircuitBreaker] ${provider}: CLOSED -> OPEN (${circuit.failures} failures)`);
-                circuit.state = CircuitState.OPEN;
-            }
-            break;
-
-        case CircuitState.HALF_OPEN:
-            // Any failure in half-open immediately opens the circuit
-            console.log(`[CircuitBreaker] ${provider}: HALF_OPEN -> OPEN (failure during test)`);
-            circuit.state = CircuitState.OPEN;
-            circuit.lastFailureTime = now;
-            circuit.halfOpenRequests = 0;
-            break;
-
-        case CircuitState.OPEN:
-            // Update last failure time
-            circuit.lastFailureTime = now;
-            break;
+export async function recordSuccess(provider: string = 'nvidia', isProbe: boolean = false): Promise<void> {
+    const state = await recordResult(provider, true, isProbe);
+    if (isProbe && state === CircuitState.CLOSED) {
+        console.log(`[CircuitBreaker] ${provider}: HALF_OPEN -> CLOSED (recovered)`);
     }
 }
 
 /**
- * Get current circuit state for monitoring
+ * Record a failed request
  * 
  * @param provider - The service provider
- * @returns Current circuit state and metrics
+ * @param isProbe - Whether this was the HALF_OPEN probe (re-opens the circuit)
+ * @param reason - Shown as the trip reason if this failure opens the circuit
  */
-export function getCircuitState(provider: string = 'nvidia'): {
-    state: CircuitState;
-    failures: number;
-    successes: number;
-    isOpen: boolean;
-    timeUntilHalfOpen: number | null;
-} {
-    const circuit = getCircuit(provider);
-    const config = getConfig(provider);
-    const now = Date.now();
+export async function recordFailure(provider: string = 'nvidia', isProbe: boolean = false, reason?: string): Promise<void> {
+    const state = await recordResult(provider, false, isProbe, reason);
+    if (state === CircuitState.OPEN) {
+        console.log(`[CircuitBreaker] ${provider}: OPEN (${reason || 'failure'})`);
+    }
+}
+
+function toStatus(row: CircuitRow): CircuitStatus {
+    const config = getConfig(row.provider);
 
     let timeUntilHalfOpen: number | null = null;
-    if (circuit.state === CircuitState.OPEN) {
-        const elapsed = now - circuit.lastFailureTime;
+    if (row.state === CircuitState.OPEN && row.opened_at) {
+        const elapsed = Date.now() - new Date(row.opened_at).getTime();
         timeUntilHalfOpen = Math.max(0, config.resetTimeoutMs - elapsed);
     }
 
     return {
-        state: circuit.state,
-        failures: circuit.failures,
-        successes: circuit.successes,
-        isOpen: circuit.state === CircuitState.OPEN,
+        provider: row.provider,
+        state: row.state,
+        failures: row.failures,
+        isOpen: row.state === CircuitState.OPEN,
+        openedAt: row.opened_at,
+        lastFailureAt: row.last_failure_at,
+        lastTripReason: row.last_trip_reason,
         timeUntilHalfOpen,
     };
 }
 
+/**
+ * Get current circuit state for monitoring
+ * 
+ * @param provider - The service provider
+ * @returns Current circuit state and metrics
+ */
+export async function getCircuitState(provider: string = 'nvidia'): Promise<CircuitStatus> {
+    const { data } = await supabaseAdmin
+        .from('circuit_breakers')
+        .select('provider, state, failures, opened_at, last_failure_at, last_trip_reason')
+        .eq('provider', provider)
+        .maybeSingle();
+
+    return toStatus(data || {
+        provider,
+        state: CircuitState.CLOSED,
+        failures: 0,
+        opened_at: null,
+        last_failure_at: null,
+        last_trip_reason: null,
+    });
+}
+
 /**
  * Force reset a circuit (for admin/testing)
  * 
  * @param provider - The service provider
  */
-export function resetCircuit(provider: string = 'nvidia'): void {
-    const circuit = getCircuit(provider);
+export async function resetCircuit(provider: string = 'nvidia', reason: string = 'Manual reset'): Promise<void> {
     console.log(`[CircuitBreaker] ${provider}: Force reset to CLOSED`);
-    circuit.state = CircuitState.CLOSED;
-    circuit.failures = 0;
-    circuit.successes = 0;
-    circuit.halfOpenRequests = 0;
-    circuit.lastFailureTime = 0;
+    const { error } = await supabaseAdmin.rpc('circuit_reset', { p_provider: provider, p_reason: reason });
+    if (error) {
+        console.error(`[CircuitBreaker] ${provider}: error resetting`, error);
+        throw error;
+    }
 }
 
 /**
  * Get all circuit states for dashboard
  */
-export function getAllCircuitStates(): Map<string, ReturnType<typeof getCircuitState>> {
-    const states = new Map<string, ReturnType<typeof getCircuitState>>();
-    for (const [provider] of circuits) {
-        states.set(provider, getCircuitState(provider));
+export async function getAllCircuitStates(): Promise<CircuitStatus[]> {
+    const { data, error } = await supabaseAdmin
+        .from('circuit_breakers')
+        .select('provider, state, failures, opened_at, last_failure_at, last_trip_reason')
+        .order('provider', { ascending: true });
+
+    if (error) {
+        console.error('[CircuitBreaker] Error fetching circuit states:', error);
+        return [];
     }
-    return states;
+
+    return (data || []).map(toStatus);
+}
+
+/**
+ * State transitions, newest first
+ */
+export async function getCircuitHistory(provider?: string, limit: number = 50): Promise<CircuitEvent[]> {
+    let query = supabaseAdmin
+        .from('circuit_breaker_events')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (provider) {
+        query = query.eq('provider', provider);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+        console.error('[CircuitBreaker] Error fetching circuit history:', error);
+        return [];
+    }
+
+    return (data || []) as CircuitEvent[];
 }
 
 /**
@@ -258,16 +281,17 @@ export async function withCircuitBreaker<T>(
     fallback: T
 ): Promise<{ result: T; usedFallback: boolean }> {
     // Check if we can proceed
-    if (!canProceed(provider)) {
+    const permit = await acquire(provider);
+    if (!permit.allowed) {
         return { result: fallback, usedFallback: true };
     }
 
     try {
         const result = await operation();
-        recordSuccess(provider);
+        await recordSuccess(provider, permit.isProbe);
         return { result, usedFallback: false };
     } catch (error) {
-        recordFailure(provider);
+        await recordFailure(provider, permit.isProbe, error instanceof Error ? error.message : String(error));
         throw error; // Re-throw for retry logic to handle
     }
 }
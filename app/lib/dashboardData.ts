@@ -1,5 +1,8 @@
 import { supabase } from '@/app/lib/supabase';
 import { unstable_cache } from 'next/cache';
+import { findLowStockItems, type LowStockItem } from '@/app/lib/inventoryService';
+
+export type { LowStockItem };
 
 // Types
 export interface DashboardMetrics {
@@ -76,6 +79,7 @@ export interface EcommerceMetrics {
         leads: CartAbandonmentLead[];
     };
     topProducts: TopProduct[];
+    lowStock: LowStockItem[];
 }
 
 // Real Estate specific types
@@ -648,6 +652,43 @@ async function fetchEcommerceMetricsUncached(abandonmentHours: number = 24): Pro
                 .slice(0, 5);
         }
 
+        // Low stock: tracked products/options at or below their alert threshold
+        const [{ data: stockProducts }, { data: stockVariations }] = await Promise.all([
+            supabase
+                .from('products')
+                .select('id, name, stock_quantity, low_stock_threshold')
+                .eq('is_active', true)
+                .not('stock_quantity', 'is', null),
+            supabase
+                .from('product_variations')
+                .select('id, product_id, variation_type_id, value, stock_quantity, is_active, variation_type:product_variation_types(name)')
+                .eq('is_active', true)
+                .not('stock_quantity', 'is', null),
+        ]);
+
+        // Parents of tracked options count even when the product itself isn't tracked
+        const untrackedParentIds = [...new Set((stockVariations || []).map(v => v.product_id))]
+            .filter(id => !(stockProducts || []).some(p => p.id === id));
+        const { data: parentProducts } = untrackedParentIds.length > 0
+            ? await supabase
+                .from('products')
+                .select('id, name, stock_quantity, low_stock_threshold')
+                .eq('is_active', true)
+                .in('id', untrackedParentIds)
+            : { data: [] };
+
+        const { data: liveReservations } = await supabase
+            .from('stock_reservations')
+            .select('product_id, variation_id, quantity')
+            .eq('status', 'reserved')
+            .gt('expires_at', now.toISOString());
+
+        const lowStock = findLowStockItems(
+            [...(stockProducts || []), ...(parentProducts || [])],
+            stockVariations || [],
+            liveReservations || []
+        ).slice(0, 8);
+
         return {
             revenue: {
                 today: todayRevenue,
@@ -666,7 +707,8 @@ async function fetchEcommerceMetricsUncached(abandonmentHours: number = 24): Pro
                 count: cartAbandonmentLeads.length,
                 leads: cartAbandonmentLeads
             },
-            topProducts
+            topProducts,
+            lowStock
         };
     } catch (error) {
         console.error('Error fetching e-commerce metrics:', error);
@@ -674,7 +716,8 @@ async function fetchEcommerceMetricsUncached(abandonmentHours: number = 24): Pro
             revenue: { today: 0, yesterday: 0, trend: 'stable', trendPercentage: 0 },
             orders: { pending: 0, processing: 0, shipped: 0, delivered: 0, total: 0 },
             cartAbandonment: { count: 0, leads: [] },
-            topProducts: []
+            topProducts: [],
+            lowStock: []
         };
     }
 }
@@ -1,17 +1,42 @@
 /**
  * Document Parser Service
- * Handles parsing of various document types (PDF, TXT, MD) 
+ * Handles parsing of various document types (PDF, TXT, MD, DOCX, XLSX, CSV, HTML)
  * and extracts text content for knowledge base ingestion.
+ *
+ * DOCX and XLSX are ZIP archives of XML parts; they are unpacked with zlib and read
+ * directly, so no Office libraries are needed. Headings and tables are kept as
+ * structured metadata, and table rows are chunked so a row is never split.
  */
 
-export interface ParsedDocument {
+import { inflateRawSync } from 'zlib';
+
+export interface DocumentHeading {
+    level: number;            // 1-6
     text: string;
+}
+
+export interface ParsedTable {
+    name?: string;            // Sheet name, or the heading above the table
+    columns: string[];
+    rows: string[][];
+}
+
+/** Outline of a document, stored in document_sources.structure */
+export interface DocumentStructure {
+    headings: DocumentHeading[];
+    tables: { name?: string; columns: string[]; rowCount: number }[];
+}
+
+export interface ParsedDocument {
+    text: string;             // Prose; tables are kept separately in `tables`
+    tables?: ParsedTable[];
     metadata: {
         title?: string;
         pageCount?: number;
         fileType: string;
         originalFilename: string;
         fileSizeBytes: number;
+        structure?: DocumentStructure;
     };
 }
 
@@ -79,6 +104,414 @@ export function parseTextFile(buffer: Buffer, filename: string): ParsedDocument
     };
 }
 
+// ==================== ZIP / XML HELPERS ====================
+
+// Office files are small; anything that inflates past this is rejected as a zip bomb
+const MAX_ZIP_ENTRY_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Read one entry of a ZIP archive (stored or deflated) by name.
+ * Walks the central directory, so data descriptors and extra fields are handled.
+ */
+function readZipEntry(buffer: Buffer, entryName: string): Buffer | null {
+    // End of central directory record: last 22 bytes plus an optional comment of up to 64KB
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+        if (buffer.readUInt32LE(i) === 0x06054b50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) {
+        throw new Error('Not a valid ZIP archive');
+    }
+
+    const entryCount = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+
+    for (let i = 0; i < entryCount; i++) {
+        if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) break;
+
+        const method = buffer.readUInt16LE(offset + 10);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localHeader = buffer.readUInt32LE(offset + 42);
+        const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+        if (name === entryName) {
+            const dataStart = localHeader + 30 + buffer.readUInt16LE(localHeader + 26) + buffer.readUInt16LE(localHeader + 28);
+            const data = buffer.subarray(dataStart, dataStart + compressedSize);
+            if (method === 0) return data;
+            if (method === 8) return inflateRawSync(data, { maxOutputLength: MAX_ZIP_ENTRY_BYTES });
+            throw new Error(`Unsupported ZIP compression method ${method} for ${entryName}`);
+        }
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return null;
+}
+
+function readZipText(buffer: Buffer, entryName: string): string | null {
+    return readZipEntry(buffer, entryName)?.toString('utf-8') ?? null;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+    ndash: '–', mdash: '—', hellip: '…', copy: '©', reg: '®', trade: '™',
+    lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', middot: '·',
+    euro: '€', pound: '£', yen: '¥', peso: '₱',
+};
+
+/**
+ * Decode XML/HTML character references
+ */
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' || entity[1] === 'X'
+                ? parseInt(entity.slice(2), 16)
+                : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/** Drop rows and trailing columns that are entirely empty, and use the first row as the header */
+function toTable(name: string | undefined, grid: string[][]): ParsedTable | null {
+    const rows = grid
+        .map(row => row.map(cell => cell.replace(/\s+/g, ' ').trim()))
+        .filter(row => row.some(Boolean));
+    if (rows.length === 0) return null;
+
+    const width = rows.reduce((max, row) => Math.max(max, row.reduce((last, cell, i) => (cell ? i + 1 : last), 0)), 0);
+    const [columns, ...body] = rows.map(row => Array.from({ length: width }, (_, i) => row[i] || ''));
+
+    return { name, columns, rows: body };
+}
+
+// ==================== DOCX ====================
+
+/**
+ * Text of a WordprocessingML fragment: runs, tabs and line breaks
+ */
+function docxText(xml: string): string {
+    const parts = Array.from(
+        xml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\/>/g),
+        ([, text, tag]) => (tag === 'tab' ? '\t' : tag ? '\n' : text)
+    );
+    return decodeEntities(parts.join('')).trim();
+}
+
+/**
+ * Parse a Word document. Headings (Title/Heading1-6 styles) become markdown headings,
+ * list items get a bullet, and tables are extracted with their preceding heading as name.
+ */
+export function parseDocx(buffer: Buffer, filename: string): ParsedDocument {
+    const documentXml = readZipText(buffer, 'word/document.xml');
+    if (!documentXml) {
+        throw new Error('Failed to parse DOCX: word/document.xml not found');
+    }
+
+    const body = documentXml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] || documentXml;
+    const headings: DocumentHeading[] = [];
+    const tables: ParsedTable[] = [];
+    const paragraphs: string[] = [];
+
+    // Top-level blocks in document order
+    const blockPattern = /<w:tbl>[\s\S]*?<\/w:tbl>|<w:p(?:\s[^>]*?)?\/>|<w:p(?:\s[^>]*)?>[\s\S]*?<\/w:p>/g;
+    for (const [block] of body.matchAll(blockPattern)) {
+        if (block.startsWith('<w:tbl>')) {
+            const grid = Array.from(block.matchAll(/<w:tr[\s>][\s\S]*?<\/w:tr>/g), ([row]) =>
+                Array.from(row.matchAll(/<w:tc(?:\s[^>]*)?>[\s\S]*?<\/w:tc>/g), ([cell]) =>
+                    Array.from(cell.matchAll(/<w:p(?:\s[^>]*)?>[\s\S]*?<\/w:p>/g), ([p]) => docxText(p)).join(' ')
+                )
+            );
+            const table = toTable(headings[headings.length - 1]?.text, grid);
+            if (table) tables.push(table);
+            continue;
+        }
+
+        const text = docxText(block);
+        if (!text) continue;
+
+        const style = block.match(/<w:pStyle w:val="([^"]+)"/)?.[1] || '';
+        const headingLevel = style === 'Title' ? 1 : Number(style.match(/^Heading(\d)$/i)?.[1] || 0);
+
+        if (headingLevel > 0) {
+            const level = Math.min(headingLevel, 6);
+            headings.push({ level, text });
+            paragraphs.push(`${'#'.repeat(level)} ${text}`);
+        } else if (block.includes('<w:numPr>')) {
+            paragraphs.push(`- ${text}`);
+        } else {
+            paragraphs.push(text);
+        }
+    }
+
+    const coreXml = readZipText(buffer, 'docProps/core.xml') || '';
+    const appXml = readZipText(buffer, 'docProps/app.xml') || '';
+    const title = decodeEntities(coreXml.match(/<dc:title>([^<]*)<\/dc:title>/)?.[1] || '').trim();
+    const pageCount = Number(appXml.match(/<Pages>(\d+)<\/Pages>/)?.[1]) || 1;
+
+    return {
+        text: paragraphs.join('\n\n'),
+        tables,
+        metadata: {
+            title: title || filename.replace(/\.docx$/i, ''),
+            pageCount,
+            fileType: 'docx',
+            originalFilename: filename,
+            fileSizeBytes: buffer.length,
+            structure: buildDocumentStructure(headings, tables),
+        },
+    };
+}
+
+// ==================== SPREADSHEETS ====================
+
+/** Zero-based column index from a cell reference such as "AB12" */
+function columnIndex(cellRef: string): number {
+    const letters = cellRef.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+    return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Parse an Excel workbook. Every non-empty sheet becomes a table named after the sheet,
+ * with its first row as the header. Numbers are kept as stored (dates stay serial numbers).
+ */
+export function parseXlsx(buffer: Buffer, filename: string): ParsedDocument {
+    const workbookXml = readZipText(buffer, 'xl/workbook.xml');
+    if (!workbookXml) {
+        throw new Error('Failed to parse XLSX: xl/workbook.xml not found');
+    }
+
+    const relsXml = readZipText(buffer, 'xl/_rels/workbook.xml.rels') || '';
+    const targets = new Map<string, string>();
+    for (const [rel] of relsXml.matchAll(/<Relationship\s[^>]*>/g)) {
+        const id = rel.match(/\sId="([^"]+)"/)?.[1];
+        const target = rel.match(/\sTarget="([^"]+)"/)?.[1];
+        if (id && target) {
+            targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+        }
+    }
+
+    const sharedStringsXml = readZipText(buffer, 'xl/sharedStrings.xml') || '';
+    const sharedStrings = Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g), ([, si]) =>
+        decodeEntities(Array.from(si.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g), ([, t]) => t).join(''))
+    );
+
+    const tables: ParsedTable[] = [];
+
+    for (const [sheet] of workbookXml.matchAll(/<sheet\s[^>]*>/g)) {
+        const name = decodeEntities(sheet.match(/\sname="([^"]*)"/)?.[1] || `Sheet${tables.length + 1}`);
+        const relId = sheet.match(/\sr:id="([^"]+)"/)?.[1];
+        const sheetXml = relId && targets.get(relId) ? readZipText(buffer, targets.get(relId) as string) : null;
+        if (!sheetXml) continue;
+
+        const grid: string[][] = [];
+        for (const [, rowXml = ''] of sheetXml.matchAll(/<row(?:\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+            const row: string[] = [];
+            let nextColumn = 0;
+            for (const [, attrs, content = ''] of rowXml.matchAll(/<c(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+                const ref = attrs?.match(/\sr="([^"]+)"/)?.[1];
+                const type = attrs?.match(/\st="([^"]+)"/)?.[1];
+                const column = ref ? columnIndex(ref) : nextColumn;
+                nextColumn = column + 1;
+
+                const raw = content.match(/<v>([^<]*)<\/v>/)?.[1];
+                let value = '';
+                if (type === 's') {
+                    value = sharedStrings[Number(raw)] || '';
+                } else if (type === 'inlineStr') {
+                    value = decodeEntities(Array.from(content.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g), ([, t]) => t).join(''));
+                } else if (type === 'b') {
+                    value = raw === '1' ? 'TRUE' : 'FALSE';
+                } else if (raw !== undefined) {
+                    value = decodeEntities(raw);
+                }
+                row[column] = value;
+            }
+            grid.push(Array.from(row, cell => cell || ''));
+        }
+
+        const table = toTable(name, grid);
+        if (table) tables.push(table);
+    }
+
+    return {
+        text: '',
+        tables,
+        metadata: {
+            title: filename.replace(/\.xlsx$/i, ''),
+            pageCount: tables.length,
+            fileType: 'xlsx',
+            originalFilename: filename,
+            fileSizeBytes: buffer.length,
+            structure: buildDocumentStructure([], tables),
+        },
+    };
+}
+
+/**
+ * Split CSV text into rows (RFC 4180: quoted fields may contain delimiters, quotes and newlines)
+ */
+function parseCsvRows(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/**
+ * Parse a CSV file. The delimiter (comma, semicolon or tab) is detected from the header line.
+ */
+export function parseCsv(buffer: Buffer, filename: string): ParsedDocument {
+    const text = buffer.toString('utf-8').replace(/^\uFEFF/, '');
+    const headerLine = text.split(/\r?\n/, 1)[0] || '';
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+        headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+    );
+
+    const title = filename.replace(/\.csv$/i, '');
+    const table = toTable(title, parseCsvRows(text, delimiter));
+    const tables = table ? [table] : [];
+
+    return {
+        text: '',
+        tables,
+        metadata: {
+            title,
+            pageCount: 1,
+            fileType: 'csv',
+            originalFilename: filename,
+            fileSizeBytes: buffer.length,
+            structure: buildDocumentStructure([], tables),
+        },
+    };
+}
+
+// ==================== HTML ====================
+
+/** Visible text of an HTML fragment on one line */
+function htmlInlineText(html: string): string {
+    return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse an HTML page. Scripts, styles and page chrome (nav, header, footer, aside) are dropped;
+ * <main> or <article> is used when present. Headings become markdown headings and tables
+ * are extracted with their preceding heading (or caption) as name.
+ */
+export function parseHtml(html: string, filename: string, fileSizeBytes: number = Buffer.byteLength(html)): ParsedDocument {
+    const pageTitle = htmlInlineText(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '');
+
+    let content = html
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<(script|style|noscript|svg|template|iframe|head)[\s>][\s\S]*?<\/\1>/gi, '');
+    content = content.match(/<main[\s>][\s\S]*<\/main>/i)?.[0]
+        || content.match(/<article[\s>][\s\S]*<\/article>/i)?.[0]
+        || content.replace(/<(nav|header|footer|aside)[\s>][\s\S]*?<\/\1>/gi, '');
+
+    const headings: DocumentHeading[] = [];
+    const tables: ParsedTable[] = [];
+    const paragraphs: string[] = [];
+
+    // Walk headings, tables and text in document order
+    const blockPattern = /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>|<table[\s>][\s\S]*?<\/table>/gi;
+    let lastIndex = 0;
+
+    const pushText = (fragment: string) => {
+        const text = decodeEntities(
+            fragment
+                .replace(/<li[^>]*>/gi, '\n- ')
+                .replace(/<br\s*\/?>/gi, '\n')
+                .replace(/<\/(p|div|section|ul|ol|dd|dt|blockquote|pre|tr)>/gi, '\n\n')
+                .replace(/<[^>]+>/g, ' ')
+        );
+        for (const paragraph of text.split(/\n\s*\n/)) {
+            const cleaned = paragraph
+                .split('\n')
+                .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+                .filter(Boolean)
+                .join('\n');
+            if (cleaned) paragraphs.push(cleaned);
+        }
+    };
+
+    for (const match of content.matchAll(blockPattern)) {
+        pushText(content.slice(lastIndex, match.index));
+        lastIndex = (match.index || 0) + match[0].length;
+
+        if (match[1]) {
+            const text = htmlInlineText(match[2]);
+            if (!text) continue;
+            const level = Number(match[1]);
+            headings.push({ level, text });
+            paragraphs.push(`${'#'.repeat(level)} ${text}`);
+            continue;
+        }
+
+        const caption = htmlInlineText(match[0].match(/<caption[^>]*>([\s\S]*?)<\/caption>/i)?.[1] || '');
+        const grid = Array.from(match[0].matchAll(/<tr[\s>][\s\S]*?<\/tr>/gi), ([row]) =>
+            Array.from(row.matchAll(/<t[hd](?:\s[^>]*)?>([\s\S]*?)<\/t[hd]>/gi), ([, cell]) => htmlInlineText(cell))
+        );
+        const table = toTable(caption || headings[headings.length - 1]?.text, grid);
+        if (table) tables.push(table);
+    }
+    pushText(content.slice(lastIndex));
+
+    return {
+        text: paragraphs.join('\n\n'),
+        tables,
+        metadata: {
+            title: pageTitle || headings[0]?.text || filename.replace(/\.html?$/i, ''),
+            pageCount: 1,
+            fileType: 'html',
+            originalFilename: filename,
+            fileSizeBytes,
+            structure: buildDocumentStructure(headings, tables),
+        },
+    };
+}
+
 /**
  * Detect file type from filename and parse accordingly
  */
@@ -91,14 +524,24 @@ export async function parseDocument(buffer: Buffer, filename: string): Promise<P
         case 'txt':
         case 'md':
             return parseTextFile(buffer, filename);
+        case 'docx':
+            return parseDocx(buffer, filename);
+        case 'xlsx':
+            return parseXlsx(buffer, filename);
+        case 'csv':
+            return parseCsv(buffer, filename);
+        case 'html':
+        case 'htm':
+            return parseHtml(buffer.toString('utf-8'), filename, buffer.length);
         default:
-            throw new Error(`Unsupported file type: ${extension}. Supported types: pdf, txt, md`);
+            throw new Error(`Unsupported file type: ${extension}. Supported types: ${getSupportedFileTypes().join(', ')}`);
     }
 }
 
 /**
  * Chunk a document into smaller pieces for embedding
- * Uses paragraph-aware splitting for better context preservation
+ * Uses paragraph-aware splitting for better context preservation;
+ * tables are chunked by row (see chunkTable)
  */
 export function chunkDocument(doc: ParsedDocument, maxChunkSize: number = 1500): ChunkedDocument {
     const text = doc.text;
@@ -143,17 +586,67 @@ export function chunkDocument(doc: ParsedDocument, maxChunkSize: number = 1500):
         chunks.push(currentChunk.trim());
     }
 
+    for (const table of doc.tables || []) {
+        chunks.push(...chunkTable(table, maxChunkSize));
+    }
+
     return {
         ...doc,
         chunks,
     };
 }
 
+/**
+ * Chunk table rows without ever splitting a row.
+ * Every chunk repeats the table name and renders each row as "Column: value" pairs,
+ * so a product row keeps its name, price and stock together and reads on its own.
+ */
+export function chunkTable(table: ParsedTable, maxChunkSize: number = 1500): string[] {
+    const header = table.name ? `${table.name}\n` : '';
+    const chunks: string[] = [];
+    let currentChunk = header;
+
+    for (const row of table.rows) {
+        const line = row
+            .map((value, i) => {
+                if (!value) return null;
+                const column = table.columns[i];
+                return column ? `${column}: ${value}` : value;
+            })
+            .filter(Boolean)
+            .join('; ');
+        if (!line) continue;
+
+        // A row that doesn't fit starts a new chunk; an oversized row gets one to itself
+        if (currentChunk.length > header.length && currentChunk.length + line.length + 1 > maxChunkSize) {
+            chunks.push(currentChunk.trim());
+            currentChunk = header;
+        }
+        currentChunk += line + '\n';
+    }
+
+    if (currentChunk.length > header.length) {
+        chunks.push(currentChunk.trim());
+    }
+
+    return chunks;
+}
+
+/**
+ * Build the structure metadata for a parsed document
+ */
+export function buildDocumentStructure(headings: DocumentHeading[], tables: ParsedTable[]): DocumentStructure {
+    return {
+        headings,
+        tables: tables.map(table => ({ name: table.name, columns: table.columns, rowCount: table.rows.length })),
+    };
+}
+
 /**
  * Get supported file types for upload validation
  */
 export function getSupportedFileTypes(): string[] {
-    return ['pdf', 'txt', 'md'];
+    return ['pdf', 'txt', 'md', 'docx', 'xlsx', 'csv', 'html', 'htm'];
 }
 
 /**
@@ -0,0 +1,531 @@
+/**
+ * Document Source Service
+ * Ingests uploaded files, web pages and sitemaps into the knowledge base and keeps
+ * them current. Each source is a document_sources row; its chunks point back to it
+ * through documents.source_file_id, so a changed source replaces its own chunks.
+ *
+ * Re-ingesting only happens when the parsed content hash changes: re-uploads of the
+ * same file and unchanged pages (304 or same hash) cost no embedding calls.
+ */
+
+import { createHash } from 'crypto';
+import { supabaseAdmin } from './supabaseAdmin';
+import { addDocument } from './rag';
+import {
+    parseDocument,
+    parseHtml,
+    parseTextFile,
+    chunkDocument,
+    ParsedDocument,
+} from './documentParserService';
+import { fetchUrl, getSitemapUrl, discoverSitemapUrls } from './webCrawlerService';
+import { normalizeUrl } from './urlSafety';
+
+export type DocumentSourceKind = 'file' | 'url' | 'sitemap';
+
+export interface DocumentSource {
+    id: string;
+    user_id: string;
+    original_filename: string;
+    file_type: string;
+    source_kind: DocumentSourceKind;
+    source_url: string | null;
+    parent_source_id: string | null;
+    category_id: string | null;
+    status: 'processing' | 'completed' | 'failed';
+    content_hash: string | null;
+    http_etag: string | null;
+    http_last_modified: string | null;
+    refresh_interval_hours: number | null;
+    chunk_count: number | null;
+    error_message: string | null;
+    last_checked_at: string | null;
+    last_ingested_at: string | null;
+    next_check_at: string | null;
+    created_at: string;
+}
+
+export type IngestOutcome = 'updated' | 'unchanged' | 'failed';
+
+export interface IngestResult {
+    sourceId: string;
+    outcome: IngestOutcome;
+    chunkCount?: number;
+    chunksStored?: number;
+    pageCount?: number;
+    error?: string;
+}
+
+export const REFRESH_INTERVAL_OPTIONS = [24, 24 * 7, 24 * 30];
+export const MAX_SITEMAP_PAGES = 200;
+
+// Stay inside a 60s serverless invocation; pages left over are picked up by the cron
+const TIME_BUDGET_MS = 45000;
+const DELETE_BATCH_SIZE = 200;
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+/**
+ * Hash of the parsed content (prose and tables) used to detect changes
+ */
+export function hashParsedDocument(doc: ParsedDocument): string {
+    return createHash('sha256')
+        .update(doc.text)
+        .update(JSON.stringify(doc.tables || []))
+        .digest('hex');
+}
+
+async function getSourceChunkIds(sourceId: string): Promise<number[]> {
+    const { data, error } = await supabaseAdmin
+        .from('documents')
+        .select('id')
+        .eq('source_file_id', sourceId);
+
+    if (error) {
+        console.error('[DocumentSources] Error fetching source chunks:', error);
+        throw error;
+    }
+
+    return (data || []).map(row => row.id);
+}
+
+async function deleteChunks(ids: number[]): Promise<void> {
+    for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+        const { error } = await supabaseAdmin
+            .from('documents')
+            .delete()
+            .in('id', ids.slice(i, i + DELETE_BATCH_SIZE));
+
+        if (error) {
+            console.error('[DocumentSources] Error deleting old chunks:', error);
+        }
+    }
+}
+
+/**
+ * Replace a source's chunks with the chunks of a freshly parsed document.
+ * New chunks are stored before old ones are removed, so a failed embedding run
+ * leaves the previous version searchable.
+ */
+async function ingestParsedDocument(
+    source: Pick<DocumentSource, 'id' | 'user_id' | 'category_id' | 'source_kind'>,
+    doc: ParsedDocument,
+    contentHash: string
+): Promise<IngestResult> {
+    const chunked = chunkDocument(doc);
+    if (chunked.chunks.length === 0) {
+        throw new Error('No text content found');
+    }
+
+    const oldChunkIds = await getSourceChunkIds(source.id);
+
+    let chunksStored = 0;
+    for (const chunk of chunked.chunks) {
+        const success = await addDocument(chunk, {
+            categoryId: source.category_id || undefined,
+            sourceType: source.source_kind === 'file' ? 'file_upload' : 'web_import',
+            userId: source.user_id,
+            sourceFileId: source.id,
+            preChunked: true,
+            title: doc.metadata.title,
+        });
+        if (success) chunksStored++;
+    }
+
+    if (chunksStored === 0) {
+        throw new Error('Failed to store any chunks');
+    }
+
+    await deleteChunks(oldChunkIds);
+
+    await supabaseAdmin
+        .from('document_sources')
+        .update({
+            status: 'completed',
+            error_message: null,
+            chunk_count: chunksStored,
+            page_count: doc.metadata.pageCount,
+            structure: doc.metadata.structure || {},
+            content_hash: contentHash,
+            last_ingested_at: new Date().toISOString(),
+        })
+        .eq('id', source.id);
+
+    return {
+        sourceId: source.id,
+        outcome: 'updated',
+        chunkCount: chunked.chunks.length,
+        chunksStored,
+        pageCount: doc.metadata.pageCount,
+    };
+}
+
+async function markSourceFailed(sourceId: string, error: unknown, extra: Record<string, unknown> = {}): Promise<IngestResult> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    await supabaseAdmin
+        .from('document_sources')
+        .update({ status: 'failed', error_message: message, ...extra })
+        .eq('id', sourceId);
+
+    return { sourceId, outcome: 'failed', error: message };
+}
+
+// ============================================================================
+// UPLOADED FILES
+// ============================================================================
+
+/**
+ * Ingest an uploaded file. Uploading a file with the same name again replaces
+ * the earlier version's chunks, or does nothing if its content is unchanged.
+ */
+export async function ingestUploadedFile(
+    userId: string,
+    file: { name: string; size: number; buffer: Buffer },
+    categoryId: string | null
+): Promise<IngestResult> {
+    const { data: existing } = await supabaseAdmin
+        .from('document_sources')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('source_kind', 'file')
+        .eq('original_filename', file.name)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    const fields = {
+        file_type: file.name.split('.').pop()?.toLowerCase(),
+        file_size_bytes: file.size,
+        category_id: categoryId || null,
+    };
+
+    const { data: source, error } = existing
+        ? await supabaseAdmin
+            .from('document_sources')
+            .update(fields)
+            .eq('id', existing.id)
+            .select()
+            .single()
+        : await supabaseAdmin
+            .from('document_sources')
+            .insert({ ...fields, original_filename: file.name, status: 'processing', user_id: userId })
+            .select()
+            .single();
+
+    if (error || !source) {
+        console.error('[DocumentSources] Error saving source record:', error);
+        throw new Error('Failed to save document source');
+    }
+
+    try {
+        const parsed = await parseDocument(file.buffer, file.name);
+        const contentHash = hashParsedDocument(parsed);
+
+        if (existing?.status === 'completed' && existing.content_hash === contentHash && existing.category_id === source.category_id) {
+            return {
+                sourceId: source.id,
+                outcome: 'unchanged',
+                chunkCount: existing.chunk_count || 0,
+                chunksStored: existing.chunk_count || 0,
+                pageCount: parsed.metadata.pageCount,
+            };
+        }
+
+        await supabaseAdmin.from('document_sources').update({ status: 'processing' }).eq('id', source.id);
+
+        return await ingestParsedDocument(source, parsed, contentHash);
+    } catch (error) {
+        console.error('[DocumentSources] Failed to ingest file:', error);
+        return markSourceFailed(source.id, error);
+    }
+}
+
+// ============================================================================
+// WEB SOURCES
+// ============================================================================
+
+function nextCheckAt(refreshIntervalHours: number | null): string | null {
+    return refreshIntervalHours ? new Date(Date.now() + refreshIntervalHours * 3600000).toISOString() : null;
+}
+
+/**
+ * Pick a parser from the response content type, falling back to the URL's extension
+ */
+async function parseFetchedPage(url: string, body: Buffer, contentType: string): Promise<ParsedDocument> {
+    const type = contentType.split(';')[0].trim().toLowerCase();
+
+    if (type === 'text/html' || type === 'application/xhtml+xml') {
+        return parseHtml(body.toString('utf-8'), url, body.length);
+    }
+    if (type === 'text/plain' || type === 'text/markdown') {
+        return parseTextFile(body, url);
+    }
+
+    const pathname = normalizeUrl(url)?.pathname || '';
+    if (/\.[a-z0-9]+$/i.test(pathname)) {
+        return parseDocument(body, pathname);
+    }
+    return parseHtml(body.toString('utf-8'), url, body.length);
+}
+
+/**
+ * Re-fetch a page source and re-ingest it if its content changed.
+ * With force, validators are skipped and the hash comparison still applies.
+ */
+export async function refreshUrlSource(source: DocumentSource, force: boolean = false): Promise<IngestResult> {
+    const checkedAt = new Date().toISOString();
+    const schedule = { last_checked_at: checkedAt, next_check_at: nextCheckAt(source.refresh_interval_hours) };
+
+    try {
+        const fetched = await fetchUrl(source.source_url as string, force ? {} : {
+            etag: source.http_etag,
+            lastModified: source.http_last_modified,
+        });
+
+        if (fetched.status === 'not_modified' && source.status === 'completed') {
+            await supabaseAdmin.from('document_sources').update(schedule).eq('id', source.id);
+            return { sourceId: source.id, outcome: 'unchanged' };
+        }
+        if (fetched.status === 'not_modified') {
+            // A 304 for a page we never stored - fetch it unconditionally
+            return refreshUrlSource(source, true);
+        }
+
+        const parsed = await parseFetchedPage(fetched.url, fetched.body, fetched.contentType);
+        const contentHash = hashParsedDocument(parsed);
+
+        await supabaseAdmin
+            .from('document_sources')
+            .update({
+                ...schedule,
+                http_etag: fetched.etag,
+                http_last_modified: fetched.lastModified,
+                file_size_bytes: fetched.body.length,
+            })
+            .eq('id', source.id);
+
+        if (source.status === 'completed' && source.content_hash === contentHash) {
+            return { sourceId: source.id, outcome: 'unchanged' };
+        }
+
+        return await ingestParsedDocument(source, parsed, contentHash);
+    } catch (error) {
+        console.error(`[DocumentSources] Failed to refresh ${source.source_url}:`, error);
+        return markSourceFailed(source.id, error, schedule);
+    }
+}
+
+/**
+ * Delete a source, its page sources (for sitemaps) and all of their chunks
+ */
+export async function deleteDocumentSource(sourceId: string): Promise<void> {
+    const { data: children } = await supabaseAdmin
+        .from('document_sources')
+        .select('id')
+        .eq('parent_source_id', sourceId);
+
+    for (const id of [sourceId, ...(children || []).map(child => child.id)]) {
+        await deleteChunks(await getSourceChunkIds(id));
+    }
+
+    const { error } = await supabaseAdmin
+        .from('document_sources')
+        .delete()
+        .eq('id', sourceId);
+
+    if (error) {
+        console.error('[DocumentSources] Error deleting source:', error);
+        throw error;
+    }
+}
+
+/**
+ * Re-read a sitemap: add sources for new pages (due immediately) and delete
+ * the sources and chunks of pages that were removed from it
+ */
+export async function refreshSitemapSource(source: DocumentSource): Promise<IngestResult> {
+    const schedule = { last_checked_at: new Date().toISOString(), next_check_at: nextCheckAt(source.refresh_interval_hours) };
+
+    try {
+        const pageUrls = await discoverSitemapUrls(source.source_url as string, MAX_SITEMAP_PAGES);
+        if (pageUrls.length === 0) {
+            throw new Error('No pages found in sitemap');
+        }
+
+        const { data: children, error } = await supabaseAdmin
+            .from('document_sources')
+            .select('id, source_url')
+            .eq('parent_source_id', source.id);
+
+        if (error) throw error;
+
+        const known = new Set((children || []).map(child => child.source_url));
+        const listed = new Set(pageUrls);
+
+        const added = pageUrls.filter(url => !known.has(url));
+        if (added.length > 0) {
+            const { error: insertError } = await supabaseAdmin
+                .from('document_sources')
+                .insert(added.map(url => ({
+                    user_id: source.user_id,
+                    original_filename: url,
+                    file_type: 'html',
+                    source_kind: 'url',
+                    source_url: url,
+                    parent_source_id: source.id,
+                    category_id: source.category_id,
+                    refresh_interval_hours: source.refresh_interval_hours,
+                    status: 'processing',
+                    next_check_at: new Date().toISOString(),
+                })));
+
+            if (insertError) throw insertError;
+        }
+
+        for (const child of children || []) {
+            if (!listed.has(child.source_url)) {
+                await deleteDocumentSource(child.id);
+            }
+        }
+
+        await supabaseAdmin
+            .from('document_sources')
+            .update({ ...schedule, status: 'completed', error_message: null, page_count: pageUrls.length })
+            .eq('id', source.id);
+
+        return { sourceId: source.id, outcome: added.length > 0 ? 'updated' : 'unchanged', pageCount: pageUrls.length };
+    } catch (error) {
+        console.error(`[DocumentSources] Failed to read sitemap ${source.source_url}:`, error);
+        return markSourceFailed(source.id, error, schedule);
+    }
+}
+
+/**
+ * Add a web page, or every page of a site's sitemap, to a tenant's knowledge base.
+ * Importing a URL that is already a source refreshes it instead.
+ * Sitemap pages are ingested until the time budget runs out; the cron does the rest.
+ */
+export async function importWebSource(
+    userId: string,
+    input: { url: string; mode: 'page' | 'sitemap'; categoryId: string | null; refreshIntervalHours: number | null }
+): Promise<{ source: DocumentSource; results: IngestResult[]; pending: number }> {
+    const url = input.mode === 'sitemap' ? getSitemapUrl(input.url) : normalizeUrl(input.url)?.toString();
+    if (!url) {
+        throw new Error('Enter a valid http(s) URL');
+    }
+
+    const kind: DocumentSourceKind = input.mode === 'sitemap' ? 'sitemap' : 'url';
+    const fields = {
+        category_id: input.categoryId,
+        refresh_interval_hours: input.refreshIntervalHours,
+    };
+
+    const { data: existing } = await supabaseAdmin
+        .from('document_sources')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('source_kind', kind)
+        .eq('source_url', url)
+        .is('parent_source_id', null)
+        .limit(1)
+        .maybeSingle();
+
+    const { data: source, error } = existing
+        ? await supabaseAdmin
+            .from('document_sources')
+            .update(fields)
+            .eq('id', existing.id)
+            .select()
+            .single()
+        : await supabaseAdmin
+            .from('document_sources')
+            .insert({
+                ...fields,
+                user_id: userId,
+                original_filename: url,
+                file_type: kind === 'sitemap' ? 'sitemap' : 'html',
+                source_kind: kind,
+                source_url: url,
+                status: 'processing',
+            })
+            .select()
+            .single();
+
+    if (error || !source) {
+        console.error('[DocumentSources] Error saving web source:', error);
+        throw new Error('Failed to save web source');
+    }
+
+    if (kind === 'url') {
+        const result = await refreshUrlSource(source as DocumentSource, true);
+        return { source: source as DocumentSource, results: [result], pending: 0 };
+    }
+
+    if (existing) {
+        // Pages inherit the sitemap's category and schedule
+        await supabaseAdmin
+            .from('document_sources')
+            .update(fields)
+            .eq('parent_source_id', source.id);
+    }
+
+    const sitemapResult = await refreshSitemapSource(source as DocumentSource);
+    if (sitemapResult.outcome === 'failed') {
+        return { source: source as DocumentSource, results: [sitemapResult], pending: 0 };
+    }
+
+    const startedAt = Date.now();
+    const { data: pages } = await supabaseAdmin
+        .from('document_sources')
+        .select('*')
+        .eq('parent_source_id', source.id)
+        .neq('status', 'completed')
+        .order('created_at', { ascending: true });
+
+    const results: IngestResult[] = [];
+    for (const page of (pages || []) as DocumentSource[]) {
+        if (Date.now() - startedAt > TIME_BUDGET_MS) break;
+        results.push(await refreshUrlSource(page, true));
+    }
+
+    return { source: source as DocumentSource, results, pending: (pages || []).length - results.length };
+}
+
+// ============================================================================
+// SCHEDULED REFRESH
+// ============================================================================
+
+/**
+ * Refresh web sources whose next check is due (called by the cron).
+ * Sitemaps are re-read first so new pages are picked up in the same run.
+ */
+export async function refreshDueDocumentSources(limit: number = 50): Promise<IngestResult[]> {
+    const startedAt = Date.now();
+    const results: IngestResult[] = [];
+
+    for (const kind of ['sitemap', 'url'] as const) {
+        const { data: sources, error } = await supabaseAdmin
+            .from('document_sources')
+            .select('*')
+            .eq('source_kind', kind)
+            .not('source_url', 'is', null)
+            .lte('next_check_at', new Date().toISOString())
+            .order('next_check_at', { ascending: true })
+            .limit(limit);
+
+        if (error) {
+            console.error('[DocumentSources] Error fetching due sources:', error);
+            continue;
+        }
+
+        for (const source of (sources || []) as DocumentSource[]) {
+            if (Date.now() - startedAt > TIME_BUDGET_MS) return results;
+            results.push(kind === 'sitemap' ? await refreshSitemapSource(source) : await refreshUrlSource(source));
+        }
+    }
+
+    return results;
+}
@@ -0,0 +1,471 @@
+import { supabaseAdmin } from './supabaseAdmin';
+import { sendMessengerMessage, sendMessengerAttachment, type AttachmentType } from './messengerService';
+import { authorizeSend } from './messagingPolicyService';
+import { generateChatCompletion } from './aiProviderService';
+import { getMediaById } from './mediaLibraryService';
+import { interpolateTemplate } from './workflowVariables';
+
+/**
+ * Follow-up sequences
+ *
+ * A sequence is attached to a pipeline stage. Leads entering the stage are enrolled and get each
+ * step after its delay (counted from the previous step), until the last step is sent, the lead
+ * leaves the stage, or one of the sequence's stop conditions is met.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SequenceStopCondition = 'replied' | 'ordered' | 'booked';
+
+export interface SequenceStep {
+    id: string;
+    delayMinutes: number;
+    mode: 'template' | 'ai';       // Fixed text (with {{lead.*}} placeholders) or an AI prompt
+    text: string;
+    mediaId?: string | null;       // ai_media item sent before the text
+}
+
+export interface FollowUpSequence {
+    id: string;
+    user_id: string;
+    name: string;
+    stage_id: string | null;
+    steps: SequenceStep[];
+    stop_conditions: SequenceStopCondition[];
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+// Shown on the lead card
+export interface LeadSequenceStatus {
+    enrollmentId: string;
+    sequenceName: string;
+    step: number;          // 1-based position of the next step
+    totalSteps: number;
+    nextStepAt: string | null;
+}
+
+interface DueEnrollment {
+    id: string;
+    user_id: string | null;
+    lead_id: string;
+    current_step: number;
+    enrolled_at: string;
+    follow_up_sequences: Pick<FollowUpSequence, 'name' | 'steps' | 'stop_conditions' | 'is_active'> | null;
+    leads: {
+        sender_id: string;
+        name: string | null;
+        phone: string | null;
+        email: string | null;
+        bot_disabled: boolean | null;
+        last_customer_message_at: string | null;
+    } | null;
+}
+
+export const STOP_CONDITIONS: SequenceStopCondition[] = ['replied', 'ordered', 'booked'];
+
+const MAX_SEQUENCE_STEPS = 10;
+const SEND_RETRY_MINUTES = 60;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Clean up steps coming from the editor. Returns an error message for unusable input.
+ */
+export function normalizeSequenceSteps(raw: unknown): { steps: SequenceStep[]; error?: string } {
+    if (!Array.isArray(raw) || raw.length === 0) {
+        return { steps: [], error: 'A sequence needs at least one step' };
+    }
+    if (raw.length > MAX_SEQUENCE_STEPS) {
+        return { steps: [], error: `A sequence can have at most ${MAX_SEQUENCE_STEPS} steps` };
+    }
+
+    const steps: SequenceStep[] = [];
+    for (const [index, item] of raw.entries()) {
+        const step = item as Partial<SequenceStep>;
+        const delayMinutes = Math.round(Number(step.delayMinutes));
+        const text = String(step.text || '').trim();
+
+        if (!(delayMinutes >= 1)) {
+            return { steps: [], error: `Step ${index + 1}: the delay must be at least 1 minute` };
+        }
+        if (!text && !step.mediaId) {
+            return { steps: [], error: `Step ${index + 1}: add a message, an AI prompt or media` };
+        }
+
+        steps.push({
+            id: String(step.id || `step_${index + 1}`),
+            delayMinutes,
+            mode: step.mode === 'ai' ? 'ai' : 'template',
+            text,
+            mediaId: step.mediaId || null,
+        });
+    }
+
+    return { steps };
+}
+
+// Keep only known stop conditions
+export function filterStopConditions(raw: unknown): SequenceStopCondition[] {
+    if (!Array.isArray(raw)) return [];
+    return STOP_CONDITIONS.filter(condition => raw.includes(condition));
+}
+
+// ============================================================================
+// ENROLLMENT
+// ============================================================================
+
+/**
+ * End the lead's running sequence (if any)
+ */
+export async function stopSequencesForLead(leadId: string, reason: string): Promise<void> {
+    const { error } = await supabaseAdmin
+        .from('follow_up_enrollments')
+        .update({ status: 'stopped', stop_reason: reason, next_step_at: null, ended_at: new Date().toISOString() })
+        .eq('lead_id', leadId)
+        .eq('status', 'active');
+
+    if (error) {
+        console.error('[FollowUpSequence] Error stopping sequences for lead:', error);
+    }
+}
+
+/**
+ * Enroll a lead that just entered a stage in that stage's sequence.
+ * Whatever sequence the lead was in before ends, since it belonged to the previous stage.
+ */
+export async function enrollLeadForStage(stageId: string, leadId: string): Promise<void> {
+    await stopSequencesForLead(leadId, 'stage_changed');
+
+    const { data: sequence, error } = await supabaseAdmin
+        .from('follow_up_sequences')
+        .select('id, user_id, name, steps')
+        .eq('stage_id', stageId)
+        .eq('is_active', true)
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[FollowUpSequence] Error fetching sequence for stage:', error);
+        return;
+    }
+
+    const steps = (sequence?.steps as SequenceStep[] | undefined) || [];
+    if (!sequence || steps.length === 0) return;
+
+    const { error: insertError } = await supabaseAdmin
+        .from('follow_up_enrollments')
+        .insert({
+            user_id: sequence.user_id,
+            sequence_id: sequence.id,
+            lead_id: leadId,
+            current_step: 0,
+            next_step_at: new Date(Date.now() + steps[0].delayMinutes * 60000).toISOString(),
+        });
+
+    // 23505: a concurrent stage move already enrolled the lead
+    if (insertError && insertError.code !== '23505') {
+        console.error('[FollowUpSequence] Error enrolling lead:', insertError);
+        return;
+    }
+
+    console.log(`[FollowUpSequence] Lead ${leadId} enrolled in "${sequence.name}"`);
+}
+
+/**
+ * Stop sequences that end when the lead replies (called from markCustomerReplied)
+ */
+export async function stopSequencesOnReply(leadId: string): Promise<void> {
+    const { data: enrollment } = await supabaseAdmin
+        .from('follow_up_enrollments')
+        .select('id, follow_up_sequences(stop_conditions)')
+        .eq('lead_id', leadId)
+        .eq('status', 'active')
+        .maybeSingle();
+
+    const sequence = enrollment?.follow_up_sequences as unknown as Pick<FollowUpSequence, 'stop_conditions'> | null;
+    if (!enrollment || !sequence?.stop_conditions?.includes('replied')) return;
+
+    await endEnrollment(enrollment.id, 'stopped', 'replied');
+}
+
+async function endEnrollment(enrollmentId: string, status: 'completed' | 'stopped', reason: string | null): Promise<void> {
+    await supabaseAdmin
+        .from('follow_up_enrollments')
+        .update({ status, stop_reason: reason, next_step_at: null, ended_at: new Date().toISOString() })
+        .eq('id', enrollmentId);
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+// Try a step that failed to send again later instead of on every cron run
+async function retryLater(enrollmentId: string): Promise<'failed'> {
+    await supabaseAdmin
+        .from('follow_up_enrollments')
+        .update({ next_step_at: new Date(Date.now() + SEND_RETRY_MINUTES * 60000).toISOString() })
+        .eq('id', enrollmentId);
+    return 'failed';
+}
+
+// First stop condition the lead has met since enrolling, if any
+async function findStopReason(enrollment: DueEnrollment, conditions: SequenceStopCondition[]): Promise<SequenceStopCondition | null> {
+    const lead = enrollment.leads;
+
+    if (conditions.includes('replied') && lead?.last_customer_message_at &&
+        new Date(lead.last_customer_message_at) > new Date(enrollment.enrolled_at)) {
+        return 'replied';
+    }
+
+    if (conditions.includes('ordered')) {
+        const { count } = await supabaseAdmin
+            .from('orders')
+            .select('id', { count: 'exact', head: true })
+            .eq('lead_id', enrollment.lead_id)
+            .neq('status', 'cancelled')
+            .gte('created_at', enrollment.enrolled_at);
+        if (count) return 'ordered';
+    }
+
+    if (conditions.includes('booked') && lead?.sender_id) {
+        const { count } = await supabaseAdmin
+            .from('appointments')
+            .select('id', { count: 'exact', head: true })
+            .eq('sender_psid', lead.sender_id)
+            .neq('status', 'cancelled')
+            .gte('created_at', enrollment.enrolled_at);
+        if (count) return 'booked';
+    }
+
+    return null;
+}
+
+// Write the message for an AI step from its prompt and the recent conversation.
+// Called through the provider registry directly so nothing is stored in the conversation.
+async function generateStepMessage(prompt: string, senderId: string, userId: string | null): Promise<string> {
+    let query = supabaseAdmin
+        .from('conversations')
+        .select('role, content')
+        .eq('sender_id', senderId);
+    if (userId) {
+        query = query.eq('user_id', userId);
+    }
+    const { data: messages } = await query
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+    const conversationContext = messages
+        ?.reverse()
+        .map(m => `${m.role === 'user' ? 'Customer' : 'Bot'}: ${m.content}`)
+        .join('\n') || 'No recent conversation.';
+
+    const { content } = await generateChatCompletion({
+        messages: [{
+            role: 'user',
+            content: `You are following up with a customer who hasn't replied.
+
+Instruction: ${prompt}
+
+Recent conversation:
+${conversationContext}
+
+Keep it short (1-2 sentences), match the language of the conversation, and don't be pushy.
+Respond with ONLY the message text to send, nothing else.`,
+        }],
+        temperature: 0.7,
+        maxTokens: 200,
+    }, { userId });
+
+    const cleaned = content.trim();
+    return cleaned.startsWith('"') && cleaned.endsWith('"') ? cleaned.slice(1, -1) : cleaned;
+}
+
+/**
+ * Send the enrollment's current step and schedule the next one.
+ * Returns what happened so the cron can report it.
+ */
+async function sendSequenceStep(enrollment: DueEnrollment): Promise<'sent' | 'stopped' | 'failed'> {
+    const sequence = enrollment.follow_up_sequences;
+    const lead = enrollment.leads;
+    const step = sequence?.steps?.[enrollment.current_step];
+
+    if (!sequence || !lead || !sequence.is_active || !step) {
+        await endEnrollment(enrollment.id, step ? 'stopped' : 'completed', step ? 'sequence_disabled' : null);
+        return 'stopped';
+    }
+
+    if (lead.bot_disabled) {
+        await endEnrollment(enrollment.id, 'stopped', 'bot_disabled');
+        return 'stopped';
+    }
+
+    const stopReason = await findStopReason(enrollment, sequence.stop_conditions || []);
+    if (stopReason) {
+        await endEnrollment(enrollment.id, 'stopped', stopReason);
+        return 'stopped';
+    }
+
+    // Written before authorizing, so a failed AI call doesn't use up a one-time notification token
+    let message = '';
+    if (step.text && step.mode === 'ai') {
+        try {
+            message = await generateStepMessage(step.text, lead.sender_id, enrollment.user_id);
+        } catch (error) {
+            console.error(`[FollowUpSequence] Error writing AI step for enrollment ${enrollment.id}:`, error);
+        }
+        if (!message) return retryLater(enrollment.id);
+    } else if (step.text) {
+        message = interpolateTemplate(step.text, {
+            'lead.name': lead.name || '',
+            'lead.first_name': lead.name?.split(' ')[0] || '',
+            'lead.phone': lead.phone || '',
+            'lead.email': lead.email || '',
+        });
+    }
+
+    const media = step.mediaId ? await getMediaById(step.mediaId) : null;
+    const mediaUrl = media?.media_url || null;
+
+    const decision = await authorizeSend(lead.sender_id, 'follow_up', {
+        source: 'follow_up_sequence',
+        sourceId: enrollment.id,
+        preview: message || mediaUrl || undefined,
+    });
+    if (!decision.allowed) {
+        await endEnrollment(enrollment.id, 'stopped', 'blocked');
+        return 'stopped';
+    }
+
+    // A one-time notification token covers a single send, so only the text goes out under one
+    const sendMedia = Boolean(mediaUrl) && !(decision.oneTimeNotifToken && message);
+    if (media && mediaUrl && sendMedia) {
+        const attachmentSent = await sendMessengerAttachment(
+            lead.sender_id,
+            mediaUrl,
+            media.media_type as AttachmentType,
+            { decision }
+        );
+        if (!attachmentSent) return retryLater(enrollment.id);
+    }
+
+    if (message) {
+        const sent = await sendMessengerMessage(lead.sender_id, message, { decision });
+        if (sent) {
+            await supabaseAdmin.from('conversations').insert({
+                user_id: enrollment.user_id,
+                sender_id: lead.sender_id,
+                role: 'assistant',
+                content: message,
+            });
+        } else if (!sendMedia) {
+            return retryLater(enrollment.id);
+        } else {
+            // Retrying the step would send the attachment again
+            console.error(`[FollowUpSequence] Attachment sent but the text failed for enrollment ${enrollment.id}; moving on`);
+        }
+    }
+
+    const now = new Date();
+    await supabaseAdmin
+        .from('leads')
+        .update({ last_bot_message_at: now.toISOString() })
+        .eq('id', enrollment.lead_id);
+
+    const nextStep = sequence.steps[enrollment.current_step + 1];
+    await supabaseAdmin
+        .from('follow_up_enrollments')
+        .update(nextStep
+            ? {
+                current_step: enrollment.current_step + 1,
+                last_step_sent_at: now.toISOString(),
+                next_step_at: new Date(now.getTime() + nextStep.delayMinutes * 60000).toISOString(),
+            }
+            : {
+                current_step: enrollment.current_step + 1,
+                last_step_sent_at: now.toISOString(),
+                status: 'completed',
+                next_step_at: null,
+                ended_at: now.toISOString(),
+            })
+        .eq('id', enrollment.id);
+
+    console.log(`[FollowUpSequence] Sent step ${enrollment.current_step + 1} of "${sequence.name}" to ${lead.name || lead.sender_id}`);
+    return 'sent';
+}
+
+/**
+ * Send every sequence step that is due (called by the follow-up cron)
+ */
+export async function processDueSequenceSteps(limit: number = 25): Promise<{ sent: number; stopped: number; failed: number }> {
+    const result = { sent: 0, stopped: 0, failed: 0 };
+
+    const { data: due, error } = await supabaseAdmin
+        .from('follow_up_enrollments')
+        .select(`
+            id, user_id, lead_id, current_step, enrolled_at,
+            follow_up_sequences (name, steps, stop_conditions, is_active),
+            leads (sender_id, name, phone, email, bot_disabled, last_customer_message_at)
+        `)
+        .eq('status', 'active')
+        .lte('next_step_at', new Date().toISOString())
+        .order('next_step_at', { ascending: true })
+        .limit(limit);
+
+    if (error) {
+        console.error('[FollowUpSequence] Error fetching due steps:', error);
+        return result;
+    }
+
+    for (const enrollment of (due || []) as unknown as DueEnrollment[]) {
+        try {
+            result[await sendSequenceStep(enrollment)]++;
+        } catch (err) {
+            console.error(`[FollowUpSequence] Error sending step for enrollment ${enrollment.id}:`, err);
+            result.failed++;
+        }
+    }
+
+    return result;
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+/**
+ * Running sequences for a user's leads, keyed by lead id
+ */
+export async function getActiveSequenceStatuses(userId: string): Promise<Record<string, LeadSequenceStatus>> {
+    const { data, error } = await supabaseAdmin
+        .from('follow_up_enrollments')
+        .select('id, lead_id, current_step, next_step_at, follow_up_sequences(name, steps)')
+        .eq('user_id', userId)
+        .eq('status', 'active');
+
+    if (error) {
+        console.error('[FollowUpSequence] Error fetching sequence statuses:', error);
+        return {};
+    }
+
+    const statuses: Record<string, LeadSequenceStatus> = {};
+    for (const enrollment of data || []) {
+        const sequence = enrollment.follow_up_sequences as unknown as Pick<FollowUpSequence, 'name' | 'steps'> | null;
+        if (!sequence) continue;
+        statuses[enrollment.lead_id] = {
+            enrollmentId: enrollment.id,
+            sequenceName: sequence.name,
+            step: enrollment.current_step + 1,
+            totalSteps: sequence.steps?.length || 0,
+            nextStepAt: enrollment.next_step_at,
+        };
+    }
+
+    return statuses;
+}
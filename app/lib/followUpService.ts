@@ -1,6 +1,18 @@
 import { supabase } from './supabase';
 import { supabaseAdmin } from './supabaseAdmin';
 import { sendMessengerMessage } from './messengerService';
+import { authorizeSend } from './messagingPolicyService';
+import { stopSequencesOnReply } from './followUpSequenceService';
+import {
+    chooseFollowUpSendTime,
+    evaluateSendTimeModel,
+    getBestHourFromModel,
+    recordFollowUpReply,
+    recordFollowUpSent,
+    type ActiveHours,
+    type SendSlotChoice,
+    type SendTimeEvaluation,
+} from './sendTimeModelService';
 import { getBotResponse, getLatestConversationSummary } from './chatService';
 
 // ============================================================================
@@ -29,12 +41,6 @@ interface FollowUpSettings {
     is_enabled: boolean;
 }
 
-interface ResponsePattern {
-    hour_of_day: number;
-    response_delay_minutes: number | null;
-    did_respond: boolean;
-}
-
 // ============================================================================
 // SETTINGS CACHE
 // ============================================================================
@@ -81,9 +87,8 @@ async function getFollowUpSettings(): Promise<FollowUpSettings> {
 /**
  * Calculate the optimal follow-up time based on:
  * 1. Base interval progression (5min, 15min, 30min...)
- * 2. Historical response patterns for this lead
- * 3. Global response patterns (what hours work best)
- * 4. Current time (respect active hours)
+ * 2. The send-time model's reply probability per hour of the week (lead, then tenant)
+ * 3. Current time (respect active hours)
  */
 export async function calculateOptimalFollowUpTime(
     senderId: string,
@@ -95,17 +100,16 @@ export async function calculateOptimalFollowUpTime(
     // Start with base interval
     const baseIntervals = settings.base_intervals;
     const intervalIndex = Math.min(attemptCount, baseIntervals.length - 1);
-    let intervalMinutes = baseIntervals[intervalIndex];
-
-    // If ML is enabled, adjust based on patterns
-    if (settings.ml_learning_enabled) {
-        const optimalInterval = await getMLOptimizedInterval(senderId, attemptCount, intervalMinutes);
-        intervalMinutes = optimalInterval;
-    }
+    const intervalMinutes = baseIntervals[intervalIndex];
 
     // Calculate target time
     let targetTime = new Date(now.getTime() + intervalMinutes * 60000);
 
+    // If ML is enabled, let the send-time model pick the slot
+    if (settings.ml_learning_enabled) {
+        targetTime = await pickModelSendTime(null, senderId, targetTime, intervalMinutes, settings);
+    }
+
     // Adjust for active hours
     targetTime = adjustForActiveHours(targetTime, settings);
 
@@ -127,17 +131,16 @@ export async function calculateOptimalFollowUpTimeForUser(
     // Start with base interval
     const baseIntervals = settings.base_intervals;
     const intervalIndex = Math.min(attemptCount, baseIntervals.length - 1);
-    let intervalMinutes = baseIntervals[intervalIndex];
-
-    // If ML is enabled, adjust based on patterns
-    if (settings.ml_learning_enabled) {
-        const optimalInterval = await getMLOptimizedIntervalForUser(senderId, attemptCount, intervalMinutes, userId);
-        intervalMinutes = optimalInterval;
-    }
+    const intervalMinutes = baseIntervals[intervalIndex];
 
     // Calculate target time
     let targetTime = new Date(now.getTime() + intervalMinutes * 60000);
 
+    // If ML is enabled, let the send-time model pick the slot (tenant-scoped)
+    if (settings.ml_learning_enabled) {
+        targetTime = await pickModelSendTime(userId, senderId, targetTime, intervalMinutes, settings);
+    }
+
     // Adjust for active hours
     targetTime = adjustForActiveHours(targetTime, settings);
 
@@ -173,173 +176,37 @@ async function getFollowUpSettingsForUser(userId: string): Promise<FollowUpSetti
 }
 
 /**
- * Get ML-optimized interval based on response patterns
+ * Let the send-time model choose a slot no earlier than the base interval and no later than
+ * one more interval (at least an hour), capped by max_interval_minutes
  */
-async function getMLOptimizedInterval(
+async function pickModelSendTime(
+    userId: string | null,
     senderId: string,
-    attemptCount: number,
-    baseInterval: number
-): Promise<number> {
-    const settings = await getFollowUpSettings();
-
-    // Get this lead's response patterns
-    const { data: leadPatterns } = await supabase
-        .from('follow_up_response_patterns')
-        .select('hour_of_day, response_delay_minutes, did_respond')
-        .eq('sender_id', senderId)
-        .eq('did_respond', true)
-        .order('created_at', { ascending: false })
-        .limit(10);
-
-    // Get global response patterns (successful responses)
-    const { data: globalPatterns } = await supabase
-        .from('follow_up_response_patterns')
-        .select('hour_of_day, response_delay_minutes, did_respond')
-        .eq('did_respond', true)
-        .order('created_at', { ascending: false })
-        .limit(100);
-
-    // If no patterns yet, use base interval
-    if ((!leadPatterns || leadPatterns.length === 0) && (!globalPatterns || globalPatterns.length === 0)) {
-        return baseInterval;
-    }
-
-    // Calculate average response time for this lead
-    let leadAvgDelay = 0;
-    if (leadPatterns && leadPatterns.length > 0) {
-        const delays = leadPatterns
-            .filter(p => p.response_delay_minutes !== null)
-            .map(p => p.response_delay_minutes as number);
-        if (delays.length > 0) {
-            leadAvgDelay = delays.reduce((a, b) => a + b, 0) / delays.length;
-        }
-    }
-
-    // Calculate global average
-    let globalAvgDelay = baseInterval;
-    if (globalPatterns && globalPatterns.length > 0) {
-        const delays = globalPatterns
-            .filter(p => p.response_delay_minutes !== null)
-            .map(p => p.response_delay_minutes as number);
-        if (delays.length > 0) {
-            globalAvgDelay = delays.reduce((a, b) => a + b, 0) / delays.length;
-        }
-    }
-
-    // Blend lead-specific and global patterns
-    const mlWeight = settings.ml_weight_recent;
-    let optimizedInterval: number;
-
-    if (leadPatterns && leadPatterns.length >= 3) {
-        // Enough lead data - weight heavily toward lead patterns
-        optimizedInterval = leadAvgDelay * mlWeight + globalAvgDelay * (1 - mlWeight);
-    } else if (leadPatterns && leadPatterns.length > 0) {
-        // Some lead data - blend equally
-        optimizedInterval = (leadAvgDelay + globalAvgDelay + baseInterval) / 3;
-    } else {
-        // No lead data - use global with base influence
-        optimizedInterval = globalAvgDelay * 0.6 + baseInterval * 0.4;
-    }
-
-    // Apply attempt multiplier (wait longer for later attempts)
-    const attemptMultiplier = 1 + (attemptCount * 0.2);
-    optimizedInterval = optimizedInterval * attemptMultiplier;
-
-    // Clamp to min/max
-    optimizedInterval = Math.max(settings.min_interval_minutes, optimizedInterval);
-    optimizedInterval = Math.min(settings.max_interval_minutes, optimizedInterval);
+    earliest: Date,
+    intervalMinutes: number,
+    settings: FollowUpSettings
+): Promise<Date> {
+    const windowMinutes = Math.max(intervalMinutes, 60);
+    const cap = Date.now() + settings.max_interval_minutes * 60000;
+    const latest = new Date(Math.max(earliest.getTime(), Math.min(earliest.getTime() + windowMinutes * 60000, cap)));
+
+    const choice = await chooseFollowUpSendTime({
+        userId,
+        senderId,
+        earliest,
+        latest,
+        activeHours: toActiveHours(settings),
+    });
 
-    console.log(`[FollowUp] ML interval for ${senderId}: base=${baseInterval}, optimized=${Math.round(optimizedInterval)}`);
+    console.log(`[FollowUp] Send-time model for ${senderId}: ${choice.sendAt} (p=${choice.responseProbability.toFixed(2)}, confidence=${choice.confidence.toFixed(2)}${choice.explored ? ', exploring' : ''})`);
 
-    return Math.round(optimizedInterval);
+    return new Date(choice.sendAt);
 }
 
-/**
- * Get ML-optimized interval based on response patterns for a specific user (multi-tenant safe)
- * Filters patterns by user_id to ensure data isolation between tenants
- */
-async function getMLOptimizedIntervalForUser(
-    senderId: string,
-    attemptCount: number,
-    baseInterval: number,
-    userId: string
-): Promise<number> {
-    const settings = await getFollowUpSettingsForUser(userId);
-
-    // Get this lead's response patterns - scoped to user
-    const { data: leadPatterns } = await supabaseAdmin
-        .from('follow_up_response_patterns')
-        .select('hour_of_day, response_delay_minutes, did_respond')
-        .eq('user_id', userId)
-        .eq('sender_id', senderId)
-        .eq('did_respond', true)
-        .order('created_at', { ascending: false })
-        .limit(10);
-
-    // Get user-scoped response patterns (successful responses for this tenant only)
-    const { data: userPatterns } = await supabaseAdmin
-        .from('follow_up_response_patterns')
-        .select('hour_of_day, response_delay_minutes, did_respond')
-        .eq('user_id', userId)
-        .eq('did_respond', true)
-        .order('created_at', { ascending: false })
-        .limit(100);
-
-    // If no user-scoped patterns exist, fall back to base interval
-    // This ensures we don't accidentally use another tenant's data
-    if ((!leadPatterns || leadPatterns.length === 0) && (!userPatterns || userPatterns.length === 0)) {
-        console.log(`[FollowUp] No user-scoped patterns for user ${userId.substring(0, 8)}..., using base interval`);
-        return baseInterval;
-    }
-
-    // Calculate average response time for this lead
-    let leadAvgDelay = 0;
-    if (leadPatterns && leadPatterns.length > 0) {
-        const delays = leadPatterns
-            .filter(p => p.response_delay_minutes !== null)
-            .map(p => p.response_delay_minutes as number);
-        if (delays.length > 0) {
-            leadAvgDelay = delays.reduce((a, b) => a + b, 0) / delays.length;
-        }
-    }
-
-    // Calculate user-scoped average (replaces "global" with tenant-specific)
-    let userAvgDelay = baseInterval;
-    if (userPatterns && userPatterns.length > 0) {
-        const delays = userPatterns
-            .filter(p => p.response_delay_minutes !== null)
-            .map(p => p.response_delay_minutes as number);
-        if (delays.length > 0) {
-            userAvgDelay = delays.reduce((a, b) => a + b, 0) / delays.length;
-        }
-    }
-
-    // Blend lead-specific and user-scoped patterns
-    const mlWeight = settings.ml_weight_recent;
-    let optimizedInterval: number;
-
-    if (leadPatterns && leadPatterns.length >= 3) {
-        // Enough lead data - weight heavily toward lead patterns
-        optimizedInterval = leadAvgDelay * mlWeight + userAvgDelay * (1 - mlWeight);
-    } else if (leadPatterns && leadPatterns.length > 0) {
-        // Some lead data - blend equally
-        optimizedInterval = (leadAvgDelay + userAvgDelay + baseInterval) / 3;
-    } else {
-        // No lead data - use user-scoped patterns with base influence
-        optimizedInterval = userAvgDelay * 0.6 + baseInterval * 0.4;
-    }
-
-    // Apply attempt multiplier (wait longer for later attempts)
-    const attemptMultiplier = 1 + (attemptCount * 0.2);
-    optimizedInterval = optimizedInterval * attemptMultiplier;
-
-    // Clamp to min/max
-    optimizedInterval = Math.max(settings.min_interval_minutes, optimizedInterval);
-    optimizedInterval = Math.min(settings.max_interval_minutes, optimizedInterval);
-
-    console.log(`[FollowUp] ML interval for ${senderId} (user ${userId.substring(0, 8)}...): base=${baseInterval}, optimized=${Math.round(optimizedInterval)}`);
-
-    return Math.round(optimizedInterval);
+function toActiveHours(settings: FollowUpSettings): ActiveHours {
+    const [startHour, startMin] = settings.active_hours_start.split(':').map(Number);
+    const [endHour, endMin] = settings.active_hours_end.split(':').map(Number);
+    return { startMinutes: startHour * 60 + startMin, endMinutes: endHour * 60 + endMin };
 }
 
 /**
@@ -379,85 +246,43 @@ function adjustForActiveHours(targetTime: Date, settings: FollowUpSettings): Dat
 // ============================================================================
 
 /**
- * Find the hour of day when this lead (or leads globally) are most responsive
- * Note: Without userId, this queries across all tenants (legacy behavior)
+ * Find the hour of day when this lead is most responsive, according to its tenant's send-time model
+ * Note: Without senderId there is no tenant to look up, so the default hour is returned
  */
 export async function getBestHourToContact(senderId?: string): Promise<number> {
-    // Query response patterns grouped by hour
-    let query = supabase
-        .from('follow_up_response_patterns')
-        .select('hour_of_day, did_respond')
-        .eq('did_respond', true);
-
-    if (senderId) {
-        query = query.eq('sender_id', senderId);
-    }
-
-    const { data: patterns } = await query.limit(200);
-
-    if (!patterns || patterns.length === 0) {
-        return 10; // Default: 10 AM
-    }
-
-    // Count responses by hour
-    const hourCounts: Record<number, number> = {};
-    patterns.forEach(p => {
-        hourCounts[p.hour_of_day] = (hourCounts[p.hour_of_day] || 0) + 1;
-    });
-
-    // Find hour with most responses
-    let bestHour = 10;
-    let maxCount = 0;
-    for (const [hour, count] of Object.entries(hourCounts)) {
-        if (count > maxCount) {
-            maxCount = count;
-            bestHour = parseInt(hour);
-        }
-    }
-
-    return bestHour;
+    return getBestHourFromModel(null, senderId);
 }
 
 /**
  * Find the hour of day when leads are most responsive for a specific user (multi-tenant safe)
- * Filters patterns by user_id to ensure data isolation between tenants
+ * Uses the user's send-time model, smoothed with the lead's own model when senderId is given
  */
 export async function getBestHourToContactForUser(userId: string, senderId?: string): Promise<number> {
-    // Query response patterns grouped by hour - scoped to user
-    let query = supabaseAdmin
-        .from('follow_up_response_patterns')
-        .select('hour_of_day, did_respond')
-        .eq('user_id', userId)
-        .eq('did_respond', true);
-
-    if (senderId) {
-        query = query.eq('sender_id', senderId);
-    }
-
-    const { data: patterns } = await query.limit(200);
+    return getBestHourFromModel(userId, senderId);
+}
 
-    if (!patterns || patterns.length === 0) {
-        console.log(`[FollowUp] No user-scoped patterns for user ${userId.substring(0, 8)}..., using default hour`);
-        return 10; // Default: 10 AM
-    }
+/**
+ * The slot the send-time model would pick for a follow-up in the next 24 hours, plus an offline
+ * evaluation of the model against this user's follow-up history (shown in follow-up settings)
+ */
+export async function getSendTimeModelSummary(userId: string, senderId?: string): Promise<{
+    choice: SendSlotChoice;
+    evaluation: SendTimeEvaluation;
+}> {
+    const settings = await getFollowUpSettingsForUser(userId);
+    const activeHours = toActiveHours(settings);
+    const now = new Date();
 
-    // Count responses by hour
-    const hourCounts: Record<number, number> = {};
-    patterns.forEach(p => {
-        hourCounts[p.hour_of_day] = (hourCounts[p.hour_of_day] || 0) + 1;
+    const choice = await chooseFollowUpSendTime({
+        userId,
+        senderId,
+        earliest: now,
+        latest: new Date(now.getTime() + 24 * 60 * 60000),
+        activeHours,
     });
+    const evaluation = await evaluateSendTimeModel(userId, activeHours);
 
-    // Find hour with most responses
-    let bestHour = 10;
-    let maxCount = 0;
-    for (const [hour, count] of Object.entries(hourCounts)) {
-        if (count > maxCount) {
-            maxCount = count;
-            bestHour = parseInt(hour);
-        }
-    }
-
-    return bestHour;
+    return { choice, evaluation };
 }
 
 // ============================================================================
@@ -628,6 +453,14 @@ export async function getLeadsNeedingFollowUp(limit: number = 10): Promise<Lead[
     );
     console.log(`[FollowUp] Leads with upcoming appointments: ${senderIdsWithAppointments.size}`);
 
+    // Leads in a follow-up sequence get the sequence's steps instead
+    const { data: enrollments } = await supabase
+        .from('follow_up_enrollments')
+        .select('lead_id')
+        .eq('status', 'active');
+
+    const leadIdsInSequence = new Set((enrollments || []).map(e => e.lead_id));
+
     // Step 4: Query leads with basic filters
     const query = supabase
         .from('leads')
@@ -677,6 +510,11 @@ export async function getLeadsNeedingFollowUp(limit: number = 10): Promise<Lead[
             return false;
         }
 
+        // Check 6: Not in a follow-up sequence
+        if (leadIdsInSequence.has(lead.id)) {
+            return false;
+        }
+
         return true;
     });
 
@@ -694,15 +532,26 @@ export async function sendFollowUp(lead: Lead): Promise<boolean> {
     console.log(`[FollowUp] Sending follow-up #${lead.follow_up_count + 1} to ${lead.name || lead.sender_id}`);
 
     try {
-        // Generate AI message
+        // Generate the message first: authorizing can use up the lead's one-time notification token
         const message = await generateFollowUpMessage(lead.sender_id, lead.follow_up_count);
+        if (!message?.trim()) {
+            console.error('[FollowUp] No follow-up message generated');
+            return false;
+        }
         console.log(`[FollowUp] Generated message: ${message}`);
 
-        // Send via Messenger with message tag (for outside 24hr window)
-        const sent = await sendMessengerMessage(lead.sender_id, message, {
-            messagingType: 'MESSAGE_TAG',
-            tag: 'ACCOUNT_UPDATE',
-        });
+        // No message tag covers follow-ups, so outside the 24-hour window they need a one-time notification
+        const decision = await authorizeSend(lead.sender_id, 'follow_up', { source: 'follow_up', preview: message });
+        if (!decision.allowed) {
+            // Stop retrying until the lead writes again (the next bot reply reschedules follow-ups)
+            await supabase
+                .from('leads')
+                .update({ next_follow_up_at: null })
+                .eq('id', lead.id);
+            return false;
+        }
+
+        const sent = await sendMessengerMessage(lead.sender_id, message, { decision });
 
         if (!sent) {
             console.error('[FollowUp] Failed to send message');
@@ -721,6 +570,7 @@ export async function sendFollowUp(lead: Lead): Promise<boolean> {
             message_type: FOLLOW_UP_STRATEGIES[lead.follow_up_count % FOLLOW_UP_STRATEGIES.length].name,
             did_respond: false,
         });
+        await recordFollowUpSent(null, lead.sender_id, now);
 
         // Calculate next follow-up time
         const nextFollowUpTime = await calculateOptimalFollowUpTime(
@@ -763,7 +613,7 @@ export async function markCustomerReplied(senderId: string): Promise<void> {
     // Update lead
     const { data: lead } = await supabase
         .from('leads')
-        .select('id, last_bot_message_at, follow_up_count')
+        .select('id, user_id, last_bot_message_at, follow_up_count')
         .eq('sender_id', senderId)
         .single();
 
@@ -775,17 +625,28 @@ export async function markCustomerReplied(senderId: string): Promise<void> {
         const responseDelayMinutes = Math.round((now.getTime() - lastBotTime.getTime()) / 60000);
 
         // Update the most recent follow-up pattern for this lead
-        await supabase
+        const { data: pattern } = await supabase
             .from('follow_up_response_patterns')
-            .update({
-                did_respond: true,
-                response_received_at: now.toISOString(),
-                response_delay_minutes: responseDelayMinutes,
-            })
+            .select('id, follow_up_sent_at')
             .eq('sender_id', senderId)
             .eq('did_respond', false)
             .order('created_at', { ascending: false })
-            .limit(1);
+            .limit(1)
+            .maybeSingle();
+
+        if (pattern) {
+            await supabase
+                .from('follow_up_response_patterns')
+                .update({
+                    did_respond: true,
+                    response_received_at: now.toISOString(),
+                    response_delay_minutes: responseDelayMinutes,
+                })
+                .eq('id', pattern.id);
+
+            // Retrain the send-time model with the answered slot
+            await recordFollowUpReply(lead.user_id, senderId, new Date(pattern.follow_up_sent_at), now);
+        }
     }
 
     // Reset follow-up state - customer has engaged!
@@ -798,6 +659,16 @@ export async function markCustomerReplied(senderId: string): Promise<void> {
         })
         .eq('id', lead.id);
 
+    await stopSequencesOnReply(lead.id);
+
+    // Count the reply for any workflow split tests the lead is in
+    await supabase
+        .from('workflow_split_assignments')
+        .update({ first_reply_at: now.toISOString() })
+        .eq('lead_id', lead.id)
+        .is('first_reply_at', null)
+        .lte('assigned_at', now.toISOString());
+
     console.log(`[FollowUp] Customer ${senderId} replied, reset follow-up tracking`);
 }
 
@@ -917,6 +788,14 @@ export async function getLeadsNeedingFollowUpForUser(userId: string, limit: numb
         (upcomingAppointments || []).map(a => a.sender_psid)
     );
 
+    const { data: enrollments } = await supabaseAdmin
+        .from('follow_up_enrollments')
+        .select('lead_id')
+        .eq('user_id', userId)
+        .eq('status', 'active');
+
+    const leadIdsInSequence = new Set((enrollments || []).map(e => e.lead_id));
+
     // Query leads for this specific user
     const { data: leads, error } = await supabaseAdmin
         .from('leads')
@@ -942,6 +821,7 @@ export async function getLeadsNeedingFollowUpForUser(userId: string, limit: numb
         if (lead.current_stage_id && excludedStageIds.includes(lead.current_stage_id)) return false;
         if (senderIdsWithActiveOrders.has(lead.sender_id)) return false;
         if (senderIdsWithAppointments.has(lead.sender_id)) return false;
+        if (leadIdsInSequence.has(lead.id)) return false;
         return true;
     });
 
@@ -956,15 +836,25 @@ export async function sendFollowUpForUser(lead: Lead, userId: string): Promise<b
     console.log(`[FollowUp] Sending follow-up #${lead.follow_up_count + 1} to ${lead.name || lead.sender_id} for user ${userId.substring(0, 8)}...`);
 
     try {
-        // Generate AI message
+        // Generate before authorizing, as in sendFollowUp
         const message = await generateFollowUpMessage(lead.sender_id, lead.follow_up_count);
+        if (!message?.trim()) {
+            console.error('[FollowUp] No follow-up message generated');
+            return false;
+        }
         console.log(`[FollowUp] Generated message: ${message}`);
 
-        // Send via Messenger with message tag (for outside 24hr window)
-        const sent = await sendMessengerMessage(lead.sender_id, message, {
-            messagingType: 'MESSAGE_TAG',
-            tag: 'ACCOUNT_UPDATE',
-        });
+        // Same messaging window check as sendFollowUp
+        const decision = await authorizeSend(lead.sender_id, 'follow_up', { source: 'follow_up', preview: message });
+        if (!decision.allowed) {
+            await supabaseAdmin
+                .from('leads')
+                .update({ next_follow_up_at: null })
+                .eq('id', lead.id);
+            return false;
+        }
+
+        const sent = await sendMessengerMessage(lead.sender_id, message, { decision });
 
         if (!sent) {
             console.error('[FollowUp] Failed to send message');
@@ -984,6 +874,7 @@ export async function sendFollowUpForUser(lead: Lead, userId: string): Promise<b
             message_type: FOLLOW_UP_STRATEGIES[lead.follow_up_count % FOLLOW_UP_STRATEGIES.length].name,
             did_respond: false,
         });
+        await recordFollowUpSent(userId, lead.sender_id, now);
 
         // Calculate next follow-up time using user-scoped function
         const nextFollowUpTime = await calculateOptimalFollowUpTimeForUser(
@@ -0,0 +1,383 @@
+import { supabaseAdmin } from './supabaseAdmin';
+
+/**
+ * Inventory Service
+ *
+ * Stock is optional: a NULL stock_quantity on a product or variation means "not tracked".
+ * Available stock = on-hand quantity minus live cart reservations. Carts reserve stock when
+ * items are added, checkout commits the reservations (decrementing stock) and cancelled
+ * orders release them (restocking anything already committed).
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StockLevel {
+    tracked: boolean;
+    available: number | null;      // null when not tracked
+}
+
+export interface ProductStock {
+    productId: string;
+    product: StockLevel;
+    variations: Record<string, StockLevel>;   // Keyed by variation id
+    soldOut: boolean;              // Nothing can be bought (product, or every option of a type, is at zero)
+    lowStock: boolean;
+    lowStockThreshold: number;
+}
+
+export interface LowStockItem {
+    productId: string;
+    variationId: string | null;
+    name: string;                  // "Product" or "Product - Size: M"
+    available: number;
+    threshold: number;
+}
+
+export interface StockCheckResult {
+    ok: boolean;
+    available?: number | null;     // What's left on the holder that failed
+    label?: string;                // Which product/option ran out
+}
+
+export interface StockProductRow {
+    id: string;
+    name: string;
+    stock_quantity: number | null;
+    low_stock_threshold: number | null;
+}
+
+export interface StockVariationRow {
+    id: string;
+    product_id: string;
+    variation_type_id: string;
+    value: string;
+    stock_quantity: number | null;
+    is_active?: boolean | null;
+    variation_type?: { name: string } | { name: string }[] | null;
+}
+
+export interface StockReservationRow {
+    product_id: string | null;
+    variation_id: string | null;
+    quantity: number;
+}
+
+interface StockHolder {
+    productId: string | null;
+    variationId: string | null;
+    label: string;
+}
+
+const RESERVATION_TTL_MINUTES = 60;
+const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+const PRODUCT_STOCK_COLUMNS = 'id, name, stock_quantity, low_stock_threshold';
+const VARIATION_STOCK_COLUMNS = 'id, product_id, variation_type_id, value, stock_quantity, is_active, variation_type:product_variation_types(name)';
+
+// ============================================================================
+// AVAILABILITY
+// ============================================================================
+
+function variationTypeName(variation: StockVariationRow): string {
+    const type = Array.isArray(variation.variation_type) ? variation.variation_type[0] : variation.variation_type;
+    return type?.name || 'Option';
+}
+
+function level(stock: number | null, reserved: number): StockLevel {
+    if (stock === null || stock === undefined) return { tracked: false, available: null };
+    return { tracked: true, available: Math.max(stock - reserved, 0) };
+}
+
+/**
+ * Combine on-hand stock with live reservations (rows fetched by the caller)
+ */
+export function computeProductStock(
+    products: StockProductRow[],
+    variations: StockVariationRow[],
+    reservations: StockReservationRow[]
+): Record<string, ProductStock> {
+    const reservedByProduct: Record<string, number> = {};
+    const reservedByVariation: Record<string, number> = {};
+    for (const reservation of reservations) {
+        if (reservation.variation_id) {
+            reservedByVariation[reservation.variation_id] = (reservedByVariation[reservation.variation_id] || 0) + reservation.quantity;
+        } else if (reservation.product_id) {
+            reservedByProduct[reservation.product_id] = (reservedByProduct[reservation.product_id] || 0) + reservation.quantity;
+        }
+    }
+
+    const result: Record<string, ProductStock> = {};
+    for (const product of products) {
+        const threshold = product.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+        const productLevel = level(product.stock_quantity, reservedByProduct[product.id] || 0);
+        const productVariations = variations.filter(v => v.product_id === product.id && v.is_active !== false);
+
+        const variationLevels: Record<string, StockLevel> = {};
+        const byType: Record<string, StockLevel[]> = {};
+        for (const variation of productVariations) {
+            const variationLevel = level(variation.stock_quantity, reservedByVariation[variation.id] || 0);
+            variationLevels[variation.id] = variationLevel;
+            (byType[variation.variation_type_id] ||= []).push(variationLevel);
+        }
+
+        const productSoldOut = productLevel.tracked && (productLevel.available ?? 0) <= 0;
+        const typeSoldOut = Object.values(byType).some(levels =>
+            levels.every(l => l.tracked && (l.available ?? 0) <= 0)
+        );
+        const isLow = (l: StockLevel) => l.tracked && (l.available ?? 0) > 0 && (l.available ?? 0) <= threshold;
+
+        result[product.id] = {
+            productId: product.id,
+            product: productLevel,
+            variations: variationLevels,
+            soldOut: productSoldOut || typeSoldOut,
+            lowStock: isLow(productLevel) || Object.values(variationLevels).some(isLow),
+            lowStockThreshold: threshold,
+        };
+    }
+
+    return result;
+}
+
+/**
+ * Tracked products and options at or below their low-stock threshold (sold out first)
+ */
+export function findLowStockItems(
+    products: StockProductRow[],
+    variations: StockVariationRow[],
+    reservations: StockReservationRow[]
+): LowStockItem[] {
+    const stock = computeProductStock(products, variations, reservations);
+    const items: LowStockItem[] = [];
+
+    for (const product of products) {
+        const entry = stock[product.id];
+        const threshold = entry.lowStockThreshold;
+
+        if (entry.product.tracked && (entry.product.available ?? 0) <= threshold) {
+            items.push({ productId: product.id, variationId: null, name: product.name, available: entry.product.available ?? 0, threshold });
+        }
+
+        for (const variation of variations.filter(v => v.product_id === product.id)) {
+            const variationLevel = entry.variations[variation.id];
+            if (variationLevel?.tracked && (variationLevel.available ?? 0) <= threshold) {
+                items.push({
+                    productId: product.id,
+                    variationId: variation.id,
+                    name: `${product.name} - ${variationTypeName(variation)}: ${variation.value}`,
+                    available: variationLevel.available ?? 0,
+                    threshold,
+                });
+            }
+        }
+    }
+
+    return items.sort((a, b) => a.available - b.available);
+}
+
+async function fetchLiveReservations(productIds: string[], variationIds: string[]): Promise<StockReservationRow[]> {
+    const nowIso = new Date().toISOString();
+    const filters = [
+        productIds.length > 0 ? `product_id.in.(${productIds.join(',')})` : null,
+        variationIds.length > 0 ? `variation_id.in.(${variationIds.join(',')})` : null,
+    ].filter(Boolean);
+    if (filters.length === 0) return [];
+
+    const { data, error } = await supabaseAdmin
+        .from('stock_reservations')
+        .select('product_id, variation_id, quantity')
+        .eq('status', 'reserved')
+        .gt('expires_at', nowIso)
+        .or(filters.join(','));
+
+    if (error) {
+        console.error('[Inventory] Error fetching reservations:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Available stock for a set of products (and their variations)
+ */
+export async function getProductStock(productIds: string[]): Promise<Record<string, ProductStock>> {
+    if (productIds.length === 0) return {};
+
+    const [{ data: products, error: productsError }, { data: variations, error: variationsError }] = await Promise.all([
+        supabaseAdmin.from('products').select(PRODUCT_STOCK_COLUMNS).in('id', productIds),
+        supabaseAdmin.from('product_variations').select(VARIATION_STOCK_COLUMNS).in('product_id', productIds),
+    ]);
+
+    if (productsError || variationsError) {
+        console.error('[Inventory] Error fetching stock:', productsError || variationsError);
+        return {};
+    }
+
+    const variationRows = (variations || []) as StockVariationRow[];
+    const reservations = await fetchLiveReservations(productIds, variationRows.map(v => v.id));
+
+    return computeProductStock((products || []) as StockProductRow[], variationRows, reservations);
+}
+
+// ============================================================================
+// RESERVATIONS
+// ============================================================================
+
+/**
+ * The rows that hold stock for a cart item: the product when it's tracked, plus the
+ * matching variation for each selected option (e.g. { Size: 'M', Color: 'Red' })
+ */
+async function resolveStockHolders(productId: string, variations?: Record<string, string> | null): Promise<StockHolder[]> {
+    const { data: product } = await supabaseAdmin
+        .from('products')
+        .select('name, stock_quantity')
+        .eq('id', productId)
+        .single();
+
+    const holders: StockHolder[] = [];
+    if (product && product.stock_quantity !== null) {
+        holders.push({ productId, variationId: null, label: product.name });
+    }
+
+    const selected = Object.entries(variations || {});
+    if (selected.length === 0) return holders;
+
+    const { data: rows } = await supabaseAdmin
+        .from('product_variations')
+        .select(VARIATION_STOCK_COLUMNS)
+        .eq('product_id', productId);
+
+    for (const [typeName, value] of selected) {
+        const match = ((rows || []) as StockVariationRow[]).find(row =>
+            variationTypeName(row).toLowerCase() === typeName.toLowerCase()
+            && row.value.toLowerCase() === String(value).toLowerCase()
+        );
+        if (match && match.stock_quantity !== null) {
+            holders.push({ productId: null, variationId: match.id, label: `${product?.name || 'Item'} (${typeName}: ${match.value})` });
+        }
+    }
+
+    return holders;
+}
+
+/**
+ * Reserve stock for a cart item's full quantity. Any holder that doesn't have enough makes the
+ * whole item fail, and the item's holds are dropped so they don't block other shoppers.
+ */
+export async function reserveCartItemStock(params: {
+    userId: string | null;
+    orderId: string;
+    orderItemId: string;
+    productId: string;
+    variations?: Record<string, string> | null;
+    quantity: number;
+}): Promise<StockCheckResult> {
+    const holders = await resolveStockHolders(params.productId, params.variations);
+    if (holders.length === 0) return { ok: true, available: null };
+
+    const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60000).toISOString();
+    let minAvailable: number | null = null;
+
+    for (const holder of holders) {
+        const { data, error } = await supabaseAdmin.rpc('reserve_stock', {
+            p_user_id: params.userId,
+            p_order_id: params.orderId,
+            p_order_item_id: params.orderItemId,
+            p_product_id: holder.productId || params.productId,
+            p_variation_id: holder.variationId,
+            p_quantity: params.quantity,
+            p_expires_at: expiresAt,
+        });
+
+        if (error) {
+            console.error('[Inventory] Error reserving stock:', error);
+            await releaseCartItemStock(params.orderItemId);
+            return { ok: false, available: null, label: holder.label };
+        }
+
+        const result = (Array.isArray(data) ? data[0] : data) as { ok: boolean; available: number | null } | undefined;
+        if (!result?.ok) {
+            await releaseCartItemStock(params.orderItemId);
+            return { ok: false, available: result?.available ?? 0, label: holder.label };
+        }
+
+        if (result.available !== null) {
+            minAvailable = minAvailable === null ? result.available : Math.min(minAvailable, result.available);
+        }
+    }
+
+    return { ok: true, available: minAvailable };
+}
+
+/**
+ * Drop a cart item's live holds
+ */
+export async function releaseCartItemStock(orderItemId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+        .from('stock_reservations')
+        .delete()
+        .eq('order_item_id', orderItemId)
+        .eq('status', 'reserved');
+
+    if (error) {
+        console.error('[Inventory] Error releasing cart item stock:', error);
+    }
+}
+
+/**
+ * Checkout: refresh every item's reservation (they may have expired), then decrement stock.
+ * Returns the items that can no longer be fulfilled instead of committing anything, or
+ * an error when the stock couldn't be read or committed.
+ */
+export async function commitOrderStock(orderId: string, userId: string | null): Promise<{ ok: boolean; unavailable: string[]; error?: string }> {
+    const { data: items, error } = await supabaseAdmin
+        .from('order_items')
+        .select('id, product_id, quantity, variations')
+        .eq('order_id', orderId);
+
+    if (error) {
+        console.error('[Inventory] Error fetching order items:', error);
+        return { ok: false, unavailable: [], error: 'Failed to check stock' };
+    }
+
+    const unavailable: string[] = [];
+    for (const item of items || []) {
+        if (!item.product_id) continue;
+        const result = await reserveCartItemStock({
+            userId,
+            orderId,
+            orderItemId: item.id,
+            productId: item.product_id,
+            variations: item.variations as Record<string, string> | null,
+            quantity: item.quantity,
+        });
+        if (!result.ok) {
+            unavailable.push(result.available ? `${result.label} (only ${result.available} left)` : `${result.label} (sold out)`);
+        }
+    }
+
+    if (unavailable.length > 0) {
+        return { ok: false, unavailable };
+    }
+
+    const { error: commitError } = await supabaseAdmin.rpc('commit_order_stock', { p_order_id: orderId });
+    if (commitError) {
+        console.error('[Inventory] Error committing order stock:', commitError);
+        return { ok: false, unavailable: [], error: 'Failed to update stock' };
+    }
+
+    return { ok: true, unavailable: [] };
+}
+
+/**
+ * Cancellation: free holds and restock committed units
+ */
+export async function releaseOrderStock(orderId: string): Promise<void> {
+    const { error } = await supabaseAdmin.rpc('release_order_stock', { p_order_id: orderId });
+    if (error) {
+        console.error('[Inventory] Error releasing order stock:', error);
+    }
+}
@@ -0,0 +1,363 @@
+/**
+ * Knowledge Conflict Service
+ * Finds chunks that state contradictory facts - two prices for the same product, two sets
+ * of business hours - so the owner can settle them before the bot quotes either one.
+ *
+ * Detection runs in three steps:
+ * 1. find_conflict_candidates pairs price/hours-bearing chunks with their nearest neighbours
+ * 2. Prices and time ranges are extracted from both chunks; pairs whose facts agree are cleared
+ * 3. Pairs with differing facts go to the chat model, which decides whether the facts are
+ *    about the same thing (a menu listing two sizes at two prices is not a contradiction)
+ *
+ * Chunks in an open conflict are left out of retrieval by hybrid_search_documents.
+ */
+
+import { supabaseAdmin } from './supabaseAdmin';
+import { generateChatCompletion, AIProviderUnavailableError } from './aiProviderService';
+
+const CANDIDATE_SIMILARITY = 0.75;
+const MAX_PAIRS_PER_SCAN = 20;
+
+/** The cron re-checks chunks added or edited within this window */
+export const CONFLICT_SCAN_LOOKBACK_HOURS = 24 * 7;
+
+export type FactType = 'price' | 'hours';
+
+export interface KnowledgeConflict {
+    id: string;
+    factType: string | null;
+    subject: string | null;
+    createdAt: string;
+    documents: {
+        id: number;
+        content: string;
+        value: string | null;
+        verifiedAt: string | null;
+    }[];
+}
+
+export interface ConflictScanResult {
+    checked: number;
+    found: number;
+    complete: boolean;   // false when the pair limit was reached - scan again for the rest
+}
+
+interface ConflictVerdict {
+    conflict: boolean;
+    factType?: string;
+    subject?: string;
+    valueA?: string;
+    valueB?: string;
+}
+
+// ============================================================================
+// FACT EXTRACTION
+// ============================================================================
+
+const PRICE_PATTERN = /(?:₱|\$|\bphp|\bp(?=\s?\d))\s?(\d[\d,]*(?:\.\d{1,2})?)|(\d[\d,]*(?:\.\d{1,2})?)\s?(?:pesos?|php)\b/gi;
+const HOURS_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*(?:-|–|to|until)\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/gi;
+
+function normalizePrice(value: string): string {
+    return String(Number(value.replace(/,/g, '')));
+}
+
+function to24Hour(hour: number, minutes: string | undefined, meridiem: string): string {
+    const h = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+    return `${String(h).padStart(2, '0')}:${minutes || '00'}`;
+}
+
+/**
+ * Prices and opening-hour ranges mentioned in a chunk, normalized for comparison
+ * ("₱1,200.00" -> "1200", "9am - 6 pm" -> "09:00-18:00")
+ */
+export function extractFacts(text: string): Record<FactType, Set<string>> {
+    const price = new Set<string>();
+    for (const match of text.matchAll(PRICE_PATTERN)) {
+        const amount = match[1] || match[2];
+        if (amount) price.add(normalizePrice(amount));
+    }
+
+    const hours = new Set<string>();
+    for (const [, startHour, startMinutes, startMeridiem, endHour, endMinutes, endMeridiem] of text.matchAll(HOURS_PATTERN)) {
+        const start = Number(startHour);
+        const end = Number(endHour);
+        if (start > 12 || end > 12) continue;
+        // "9-5pm": the start shares the end's meridiem unless that would put it after the end
+        const startSuffix = startMeridiem || (start % 12 <= end % 12 ? endMeridiem : 'am');
+        hours.add(`${to24Hour(start, startMinutes, startSuffix)}-${to24Hour(end, endMinutes, endMeridiem)}`);
+    }
+
+    return { price, hours };
+}
+
+/**
+ * Fact types both chunks mention with values the other chunk doesn't have
+ */
+function differingFactTypes(a: string, b: string): FactType[] {
+    const factsA = extractFacts(a);
+    const factsB = extractFacts(b);
+
+    return (Object.keys(factsA) as FactType[]).filter(type => {
+        const valuesA = factsA[type];
+        const valuesB = factsB[type];
+        if (valuesA.size === 0 || valuesB.size === 0) return false;
+        return Array.from(valuesA).some(value => !valuesB.has(value))
+            && Array.from(valuesB).some(value => !valuesA.has(value));
+    });
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Ask the tenant's chat model whether two chunks contradict each other
+ */
+async function judgeConflict(userId: string, contentA: string, contentB: string, factTypes: FactType[]): Promise<ConflictVerdict> {
+    const { content } = await generateChatCompletion({
+        messages: [
+            {
+                role: 'system',
+                content: `You check a business's knowledge base for contradictions. You get two passages that both mention ${factTypes.join(' and ')}.
+Decide whether they state DIFFERENT values for the SAME thing, e.g. two prices for the same product and size, or two opening hours for the same branch and day.
+Different products, sizes, packages, branches, days or promo vs regular prices are NOT contradictions.
+
+Reply with ONLY a JSON object:
+{"conflict": true, "factType": "price" | "hours" | "other", "subject": "what the facts are about, max 60 chars", "valueA": "value in passage A", "valueB": "value in passage B"}
+or {"conflict": false}`,
+            },
+            {
+                role: 'user',
+                content: `PASSAGE A:\n${contentA.substring(0, 3000)}\n\nPASSAGE B:\n${contentB.substring(0, 3000)}`,
+            },
+        ],
+        temperature: 0,
+        maxTokens: 300,
+    }, { userId });
+
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+        throw new Error('Failed to parse conflict verdict');
+    }
+    return JSON.parse(jsonMatch[0]) as ConflictVerdict;
+}
+
+/**
+ * Check a tenant's knowledge base for contradictory chunks and record what was found.
+ * Only chunks added or verified since `changedSince` are checked (all chunks when omitted),
+ * at most MAX_PAIRS_PER_SCAN pairs per call. Pairs the model couldn't judge are left
+ * unrecorded so the next scan tries them again.
+ */
+export async function detectKnowledgeConflicts(userId: string, changedSince?: string | null): Promise<ConflictScanResult> {
+    const { data: candidates, error } = await supabaseAdmin.rpc('find_conflict_candidates', {
+        filter_user_id: userId,
+        changed_since: changedSince || null,
+        min_similarity: CANDIDATE_SIMILARITY,
+        max_pairs: MAX_PAIRS_PER_SCAN,
+    });
+
+    if (error) {
+        console.error('[KnowledgeConflicts] Error finding conflict candidates:', error);
+        return { checked: 0, found: 0, complete: true };
+    }
+
+    const pairs = (candidates || []) as { document_a: number; document_b: number; similarity: number }[];
+    if (pairs.length === 0) {
+        return { checked: 0, found: 0, complete: true };
+    }
+
+    const ids = Array.from(new Set(pairs.flatMap(pair => [pair.document_a, pair.document_b])));
+    const { data: docs, error: docsError } = await supabaseAdmin
+        .from('documents')
+        .select('id, content')
+        .eq('user_id', userId)
+        .in('id', ids);
+
+    if (docsError) {
+        console.error('[KnowledgeConflicts] Error loading candidate documents:', docsError);
+        return { checked: 0, found: 0, complete: true };
+    }
+
+    const contentById = new Map((docs || []).map(doc => [doc.id as number, doc.content as string]));
+    let checked = 0;
+    let found = 0;
+
+    for (const pair of pairs) {
+        const contentA = contentById.get(pair.document_a);
+        const contentB = contentById.get(pair.document_b);
+        if (!contentA || !contentB) continue;
+
+        let verdict: ConflictVerdict = { conflict: false };
+        const factTypes = differingFactTypes(contentA, contentB);
+
+        if (factTypes.length > 0) {
+            try {
+                verdict = await judgeConflict(userId, contentA, contentB, factTypes);
+            } catch (judgeError) {
+                console.error('[KnowledgeConflicts] Error judging candidate pair:', judgeError);
+                if (judgeError instanceof AIProviderUnavailableError) break;
+                continue;
+            }
+        }
+
+        const { error: upsertError } = await supabaseAdmin
+            .from('knowledge_conflicts')
+            .upsert({
+                user_id: userId,
+                document_a: pair.document_a,
+                document_b: pair.document_b,
+                status: verdict.conflict ? 'open' : 'cleared',
+                fact_type: verdict.conflict ? verdict.factType || factTypes[0] : null,
+                subject: verdict.conflict ? verdict.subject?.substring(0, 120) || null : null,
+                value_a: verdict.conflict ? verdict.valueA || null : null,
+                value_b: verdict.conflict ? verdict.valueB || null : null,
+                checked_at: new Date().toISOString(),
+            }, { onConflict: 'user_id,document_a,document_b' });
+
+        if (upsertError) {
+            console.error('[KnowledgeConflicts] Error recording conflict check:', upsertError);
+            continue;
+        }
+
+        checked++;
+        if (verdict.conflict) found++;
+    }
+
+    console.log(`[KnowledgeConflicts] Checked ${checked}/${pairs.length} pairs for user ${userId}, ${found} conflicts`);
+    return { checked, found, complete: pairs.length < MAX_PAIRS_PER_SCAN };
+}
+
+/**
+ * Scan every tenant with chunks added or verified within CONFLICT_SCAN_LOOKBACK_HOURS
+ */
+export async function detectConflictsForRecentChanges(): Promise<{ userId: string; result: ConflictScanResult }[]> {
+    const since = new Date(Date.now() - CONFLICT_SCAN_LOOKBACK_HOURS * 3600000).toISOString();
+
+    const { data, error } = await supabaseAdmin
+        .from('documents')
+        .select('user_id')
+        .not('user_id', 'is', null)
+        .or(`created_at.gte.${since},verified_at.gte.${since}`)
+        .limit(5000);
+
+    if (error) {
+        console.error('[KnowledgeConflicts] Error finding recently changed documents:', error);
+        return [];
+    }
+
+    const userIds = Array.from(new Set((data || []).map(row => row.user_id as string)));
+    const results: { userId: string; result: ConflictScanResult }[] = [];
+
+    for (const userId of userIds) {
+        try {
+            results.push({ userId, result: await detectKnowledgeConflicts(userId, since) });
+        } catch (scanError) {
+            console.error(`[KnowledgeConflicts] Scan failed for user ${userId}:`, scanError);
+        }
+    }
+
+    return results;
+}
+
+// ============================================================================
+// REVIEW
+// ============================================================================
+
+/**
+ * Open conflicts of a tenant with both chunks, newest first
+ */
+export async function getOpenConflicts(userId: string): Promise<KnowledgeConflict[]> {
+    const { data: conflicts, error } = await supabaseAdmin
+        .from('knowledge_conflicts')
+        .select('id, document_a, document_b, fact_type, subject, value_a, value_b, created_at')
+        .eq('user_id', userId)
+        .eq('status', 'open')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+    if (error) {
+        console.error('[KnowledgeConflicts] Error fetching conflicts:', error);
+        return [];
+    }
+    if (!conflicts || conflicts.length === 0) return [];
+
+    const ids = Array.from(new Set(conflicts.flatMap(conflict => [conflict.document_a, conflict.document_b])));
+    const { data: docs } = await supabaseAdmin
+        .from('documents')
+        .select('id, content, verified_at')
+        .eq('user_id', userId)
+        .in('id', ids);
+
+    const docById = new Map((docs || []).map(doc => [doc.id as number, doc]));
+
+    return conflicts.map(conflict => ({
+        id: conflict.id,
+        factType: conflict.fact_type,
+        subject: conflict.subject,
+        createdAt: conflict.created_at,
+        documents: [
+            { id: conflict.document_a, value: conflict.value_a },
+            { id: conflict.document_b, value: conflict.value_b },
+        ].map(({ id, value }) => ({
+            id,
+            content: docById.get(id)?.content || '',
+            value,
+            verifiedAt: docById.get(id)?.verified_at || null,
+        })),
+    }));
+}
+
+/**
+ * Settle a conflict. With keepDocumentId the kept chunk is marked verified and the other
+ * one expires now - it drops out of retrieval and waits in the review queue to be deleted
+ * or corrected. Without it the conflict is dismissed (both chunks are right).
+ */
+export async function resolveConflict(userId: string, conflictId: string, keepDocumentId: number | null): Promise<boolean> {
+    const { data: conflict, error } = await supabaseAdmin
+        .from('knowledge_conflicts')
+        .select('id, document_a, document_b')
+        .eq('id', conflictId)
+        .eq('user_id', userId)
+        .eq('status', 'open')
+        .maybeSingle();
+
+    if (error || !conflict) {
+        console.error('[KnowledgeConflicts] Open conflict not found:', error);
+        return false;
+    }
+
+    const now = new Date().toISOString();
+
+    if (keepDocumentId !== null) {
+        if (keepDocumentId !== conflict.document_a && keepDocumentId !== conflict.document_b) {
+            return false;
+        }
+        const discardId = keepDocumentId === conflict.document_a ? conflict.document_b : conflict.document_a;
+
+        const [{ error: keepError }, { error: discardError }] = await Promise.all([
+            supabaseAdmin.from('documents').update({ verified_at: now }).eq('id', keepDocumentId).eq('user_id', userId),
+            supabaseAdmin.from('documents').update({ expires_at: now }).eq('id', discardId).eq('user_id', userId),
+        ]);
+
+        if (keepError || discardError) {
+            console.error('[KnowledgeConflicts] Error applying conflict resolution:', keepError || discardError);
+            return false;
+        }
+    }
+
+    const { error: updateError } = await supabaseAdmin
+        .from('knowledge_conflicts')
+        .update({
+            status: keepDocumentId !== null ? 'resolved' : 'dismissed',
+            kept_document_id: keepDocumentId,
+            resolved_at: now,
+        })
+        .eq('id', conflictId)
+        .eq('user_id', userId);
+
+    if (updateError) {
+        console.error('[KnowledgeConflicts] Error resolving conflict:', updateError);
+        return false;
+    }
+    return true;
+}
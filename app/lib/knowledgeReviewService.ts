@@ -0,0 +1,94 @@
+/**
+ * Knowledge Review Service
+ * Review queue for time-sensitive knowledge: chunks whose expires_at is near or past.
+ * Expired chunks are already left out of retrieval (hybrid_search_documents); the owner
+ * confirms them as still accurate, gives them a new expiry date, or deletes them.
+ */
+
+import { supabaseAdmin } from './supabaseAdmin';
+
+/** Chunks expiring within this many days show up in the review queue */
+export const REVIEW_WINDOW_DAYS = 14;
+
+// Validity given on confirmation when a chunk has no earlier verified -> expiry period to repeat
+const DEFAULT_VALIDITY_DAYS = 90;
+const MAX_REVIEW_ITEMS = 200;
+
+export interface ReviewQueueItem {
+    id: number;
+    preview: string;
+    categoryId: string | null;
+    verifiedAt: string | null;
+    expiresAt: string;
+    status: 'expired' | 'expiring';
+}
+
+/**
+ * Chunks that expired or expire within REVIEW_WINDOW_DAYS, soonest first
+ */
+export async function getReviewQueue(userId: string): Promise<ReviewQueueItem[]> {
+    const horizon = new Date(Date.now() + REVIEW_WINDOW_DAYS * 24 * 3600000).toISOString();
+
+    const { data, error } = await supabaseAdmin
+        .from('documents')
+        .select('id, content, category_id, verified_at, expires_at')
+        .eq('user_id', userId)
+        .not('expires_at', 'is', null)
+        .lte('expires_at', horizon)
+        .order('expires_at', { ascending: true })
+        .limit(MAX_REVIEW_ITEMS);
+
+    if (error) {
+        console.error('[KnowledgeReview] Error fetching review queue:', error);
+        return [];
+    }
+
+    const now = Date.now();
+    return (data || []).map(doc => ({
+        id: doc.id,
+        preview: doc.content.substring(0, 240),
+        categoryId: doc.category_id,
+        verifiedAt: doc.verified_at,
+        expiresAt: doc.expires_at,
+        status: new Date(doc.expires_at).getTime() <= now ? 'expired' : 'expiring',
+    }));
+}
+
+/**
+ * Mark a chunk as verified now. It stays valid until `expiresAt` if given, otherwise for
+ * as long as it was valid last time (verified_at -> expires_at), or DEFAULT_VALIDITY_DAYS.
+ * Returns the new expiry, or null if the chunk wasn't found.
+ */
+export async function confirmDocument(userId: string, documentId: number, expiresAt?: string | null): Promise<string | null> {
+    const { data: doc, error } = await supabaseAdmin
+        .from('documents')
+        .select('verified_at, expires_at')
+        .eq('id', documentId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error || !doc) {
+        console.error('[KnowledgeReview] Document not found for confirmation:', error);
+        return null;
+    }
+
+    const now = Date.now();
+    let validForMs = DEFAULT_VALIDITY_DAYS * 24 * 3600000;
+    if (doc.verified_at && doc.expires_at) {
+        const previous = new Date(doc.expires_at).getTime() - new Date(doc.verified_at).getTime();
+        if (previous > 0) validForMs = previous;
+    }
+    const nextExpiry = expiresAt || new Date(now + validForMs).toISOString();
+
+    const { error: updateError } = await supabaseAdmin
+        .from('documents')
+        .update({ verified_at: new Date(now).toISOString(), expires_at: nextExpiry })
+        .eq('id', documentId)
+        .eq('user_id', userId);
+
+    if (updateError) {
+        console.error('[KnowledgeReview] Error confirming document:', updateError);
+        return null;
+    }
+    return nextExpiry;
+}
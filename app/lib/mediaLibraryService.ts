@@ -2,11 +2,11 @@
  * Media Library Service
  * 
  * Handles media management, semantic search, and AI-driven media suggestions.
- * Uses NVIDIA embeddings for semantic similarity matching.
+ * Uses the deployment's embedding provider for semantic similarity matching.
  */
 
 import { supabase } from './supabase';
-import { withRetry, isTransientError } from './retryHelper';
+import { embedText } from './aiProviderService';
 import {
     SIMILARITY_THRESHOLDS,
     PAGINATION_DEFAULTS,
@@ -14,9 +14,6 @@ import {
     logMediaOperation,
 } from './mediaUtils';
 
-const NVIDIA_API_KEY = process.env.NVIDIA_API_KEY;
-const EMBEDDING_MODEL = 'nvidia/nv-embedqa-e5-v5';
-
 // ==================== TYPES ====================
 
 export interface MediaCategory {
@@ -57,105 +54,27 @@ export interface MediaSearchResult {
 // ==================== EMBEDDING FUNCTIONS ====================
 
 /**
- * Generate embedding using NVIDIA API with retry logic
+ * Generate embedding with the deployment's embedding provider (retries and key rotation in aiProviderService).
+ * Media is shared by all tenants, so it is always embedded - and searched - without a tenant.
  */
 async function getEmbedding(text: string): Promise<number[]> {
-    if (!NVIDIA_API_KEY) {
-        throw new EmbeddingError('NVIDIA_API_KEY not configured');
+    try {
+        return await embedText(text, 'passage');
+    } catch (error) {
+        console.error('[MediaLibrary] Embedding error:', error);
+        throw new EmbeddingError(error instanceof Error ? error.message : 'Embedding failed');
     }
-
-    const generateEmbedding = async (): Promise<number[]> => {
-        const response = await fetch('https://integrate.api.nvidia.com/v1/embeddings', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${NVIDIA_API_KEY}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                input: [text],
-                model: EMBEDDING_MODEL,
-                encoding_format: 'float',
-                input_type: 'passage',
-                truncate: 'END',
-            }),
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error('[MediaLibrary] Embedding API error:', errorText);
-
-            // Check if transient error for retry logic
-            if (response.status >= 500 || response.status === 429) {
-                const error = new Error(`Embedding API failed: ${response.status}`);
-                (error as Error & { status: number }).status = response.status;
-                throw error;
-            }
-            throw new EmbeddingError(`Embedding API failed: ${response.status}`);
-        }
-
-        const result = await response.json();
-        return result.data[0].embedding;
-    };
-
-    // Use retry helper for transient errors
-    return withRetry(generateEmbedding, {
-        maxAttempts: 3,
-        initialDelayMs: 1000,
-        backoffMultiplier: 2,
-        shouldRetry: (error) => {
-            const status = (error as Error & { status?: number }).status;
-            return isTransientError(error) || status === 429 || (status !== undefined && status >= 500);
-        },
-    });
 }
 
 /**
  * Generate query embedding (different input_type for queries)
  */
 async function getQueryEmbedding(text: string): Promise<number[]> {
-    if (!NVIDIA_API_KEY) {
-        throw new EmbeddingError('NVIDIA_API_KEY not configured');
+    try {
+        return await embedText(text, 'query');
+    } catch (error) {
+        throw new EmbeddingError(error instanceof Error ? error.message : 'Embedding failed');
     }
-
-    const generateEmbedding = async (): Promise<number[]> => {
-        const response = await fetch('https://integrate.api.nvidia.com/v1/embeddings', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${NVIDIA_API_KEY}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                input: [text],
-                model: EMBEDDING_MODEL,
-                encoding_format: 'float',
-                input_type: 'query',
-                truncate: 'END',
-            }),
-        });
-
-        if (!response.ok) {
-            const status = response.status;
-            if (status >= 500 || status === 429) {
-                const error = new Error(`Embedding API failed: ${status}`);
-                (error as Error & { status: number }).status = status;
-                throw error;
-            }
-            throw new EmbeddingError(`Embedding API failed: ${status}`);
-        }
-
-        const result = await response.json();
-        return result.data[0].embedding;
-    };
-
-    return withRetry(generateEmbedding, {
-        maxAttempts: 3,
-        initialDelayMs: 1000,
-        backoffMultiplier: 2,
-        shouldRetry: (error) => {
-            const status = (error as Error & { status?: number }).status;
-            return isTransientError(error) || status === 429 || (status !== undefined && status >= 500);
-        },
-    });
 }
 
 // ==================== MEDIA CRUD ====================
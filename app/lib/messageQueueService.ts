@@ -4,12 +4,13 @@
  * Manages high-volume message processing with priority-based ordering.
  * Features:
  * - Priority levels (Critical, High, Medium, Low)
- * - In-memory queue with optional persistence
- * - Concurrent processing with configurable limits
- * - Queue depth monitoring
+ * - Durable queue in the message_queue table, shared by every serverless instance
+ * - SKIP LOCKED claiming with visibility timeouts (a crashed worker's messages come back)
+ * - One message per sender at a time, oldest first
+ * - Queue depth and latency monitoring
  */
 
-import { supabase } from './supabase';
+import { supabaseAdmin } from './supabaseAdmin';
 
 export enum MessagePriority {
     CRITICAL = 3,    // Human takeover, complaints, payment issues
@@ -18,48 +19,95 @@ export enum MessagePriority {
     LOW = 0,         // Follow-ups, general browse
 }
 
+export type QueueMessageStatus = 'queued' | 'processing' | 'done' | 'failed';
+
 export interface QueuedMessage {
     id: string;
+    userId: string | null;
     senderId: string;
     message: string;
     priority: MessagePriority;
+    priorityReason: string | null;
     pageId?: string;
+    payload: Record<string, unknown> | null;
+    status: QueueMessageStatus;
+    attempts: number;
+    maxAttempts: number;
     queuedAt: Date;
-    metadata?: {
-        isFirstMessage?: boolean;
-        hasCartItems?: boolean;
-        isPaymentRelated?: boolean;
-        isComplaint?: boolean;
+    startedAt: Date | null;
+    lockedBy: string | null;        // Worker holding the current claim
+}
+
+interface QueueRow {
+    id: string;
+    user_id: string | null;
+    page_id: string | null;
+    sender_id: string;
+    message_text: string;
+    payload: Record<string, unknown> | null;
+    priority: number;
+    priority_reason: string | null;
+    status: QueueMessageStatus;
+    attempts: number;
+    max_attempts: number;
+    enqueued_at: string;
+    started_at: string | null;
+    locked_by: string | null;
+}
+
+export interface QueueStatus {
+    queueLength: number;
+    processingCount: number;
+    failedLastHour: number;
+    byPriority: Record<MessagePriority, number>;
+    oldestWaitMs: number;           // How long the oldest queued message has been waiting
+    metrics: {
+        processedLastHour: number;
+        avgWaitTimeMs: number;      // enqueued -> first claimed
+        p95WaitTimeMs: number;
+        avgProcessingTimeMs: number; // first claimed -> done
     };
 }
 
 interface QueueConfig {
     maxQueueSize: number;
     maxConcurrent: number;
-    processingTimeoutMs: number;
-    enablePersistence: boolean;
+    processingTimeoutMs: number;    // Visibility timeout of a claim; handlers should finish well within it
+    maxAttempts: number;
+    retryDelayMs: number;           // Doubled on every failed attempt
 }
 
 const DEFAULT_CONFIG: QueueConfig = {
     maxQueueSize: 500,
     maxConcurrent: 10,
     processingTimeoutMs: 30000,
-    enablePersistence: false, // Set true for production
+    maxAttempts: 3,
+    retryDelayMs: 5000,
 };
 
-// In-memory priority queue (sorted by priority desc, then by queuedAt asc)
-let messageQueue: QueuedMessage[] = [];
-const processing: Set<string> = new Set();
+// Done / failed messages are kept this long for the latency metrics
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
 let config = DEFAULT_CONFIG;
 
-// Metrics
-const metrics = {
-    totalQueued: 0,
-    totalProcessed: 0,
-    totalDropped: 0,
-    avgWaitTimeMs: 0,
-    totalWaitTimeMs: 0,
-};
+function toQueuedMessage(row: QueueRow): QueuedMessage {
+    return {
+        id: row.id,
+        userId: row.user_id,
+        senderId: row.sender_id,
+        message: row.message_text,
+        priority: row.priority as MessagePriority,
+        priorityReason: row.priority_reason,
+        pageId: row.page_id || undefined,
+        payload: row.payload,
+        status: row.status,
+        attempts: row.attempts,
+        maxAttempts: row.max_attempts,
+        queuedAt: new Date(row.enqueued_at),
+        startedAt: row.started_at ? new Date(row.started_at) : null,
+        lockedBy: row.locked_by,
+    };
+}
 
 /**
  * Configure the queue
@@ -68,6 +116,13 @@ export function configureQueue(newConfig: Partial<QueueConfig>): void {
     config = { ...config, ...newConfig };
 }
 
+/**
+ * How long a claim is held before the message is handed out again
+ */
+export function getClaimTimeoutMs(): number {
+    return config.processingTimeoutMs;
+}
+
 /**
  * Detect message priority based on content and context
  * 
@@ -133,120 +188,199 @@ export async function detectPriority(
     return { priority: MessagePriority.LOW, reason: 'General message' };
 }
 
+
 /**
  * Add a message to the queue
  * 
- * @returns Queue position or null if queue is full
+ * @returns Queue position or null if queue is full (or the insert failed)
  */
 export async function enqueue(
     senderId: string,
     message: string,
     pageId?: string,
-    priorityOverride?: MessagePriority
-): Promise<{ position: number; estimatedWaitMs: number } | null> {
-    // Check if already processing this sender
-    if (processing.has(senderId)) {
-        console.log(`[Queue] Sender ${senderId} already processing, skipping queue`);
-        return { position: 0, estimatedWaitMs: 0 };
-    }
-
+    priorityOverride?: MessagePriority,
+    options: {
+        userId?: string | null;
+        payload?: Record<string, unknown>;
+        context?: Parameters<typeof detectPriority>[2];
+    } = {}
+): Promise<{ id: string; position: number; estimatedWaitMs: number } | null> {
     // Check queue capacity
-    if (messageQueue.length >= config.maxQueueSize) {
-        console.log(`[Queue] Queue full (${messageQueue.length}), dropping message`);
-        metrics.totalDropped++;
+    if (!(await canAcceptMessage())) {
+        console.log('[Queue] Queue full, not accepting message');
         return null;
     }
 
     // Detect priority
     const { priority, reason } = priorityOverride !== undefined
         ? { priority: priorityOverride, reason: 'Override' }
-        : await detectPriority(message, senderId);
-
-    const queuedMessage: QueuedMessage = {
-        id: `${senderId}-${Date.now()}`,
-        senderId,
-        message,
-        priority,
-        pageId,
-        queuedAt: new Date(),
-    };
-
-    // Insert in sorted position (priority desc, then time asc)
-    const insertIndex = messageQueue.findIndex(
-        m => m.priority < priority ||
-            (m.priority === priority && m.queuedAt > queuedMessage.queuedAt)
-    );
-
-    if (insertIndex === -1) {
-        messageQueue.push(queuedMessage);
-    } else {
-        messageQueue.splice(insertIndex, 0, queuedMessage);
+        : await detectPriority(message, senderId, options.context);
+
+    const { data, error } = await supabaseAdmin
+        .from('message_queue')
+        .insert({
+            user_id: options.userId || null,
+            page_id: pageId || null,
+            sender_id: senderId,
+            message_text: message,
+            payload: options.payload || null,
+            priority,
+            priority_reason: reason,
+            max_attempts: config.maxAttempts,
+        })
+        .select('id, enqueued_at')
+        .single();
+
+    if (error || !data) {
+        console.error('[Queue] Error enqueueing message:', error);
+        return null;
     }
 
-    metrics.totalQueued++;
+    const { count } = await supabaseAdmin
+        .from('message_queue')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'queued')
+        .gte('priority', priority)
+        .lte('enqueued_at', data.enqueued_at);
 
-    const position = messageQueue.findIndex(m => m.id === queuedMessage.id) + 1;
+    const position = count || 1;
     const estimatedWaitMs = position * 2000; // Rough estimate: 2s per message
 
     console.log(`[Queue] Enqueued ${senderId} at position ${position} (${priority}: ${reason})`);
 
-    return { position, estimatedWaitMs };
+    return { id: data.id, position, estimatedWaitMs };
 }
 
 /**
- * Get the next message to process
- * 
- * @returns The next message or null if queue is empty
+ * Claim the next messages to process (highest priority first, one per sender).
+ * Each claim is held for processingTimeoutMs; a message not completed by then is handed out again.
  */
-export function dequeue(): QueuedMessage | null {
-    if (messageQueue.length === 0) {
-        return null;
+export async function claimMessages(workerId: string, limit: number = config.maxConcurrent): Promise<QueuedMessage[]> {
+    const { data, error } = await supabaseAdmin.rpc('claim_queued_messages', {
+        p_worker: workerId,
+        p_limit: limit,
+        p_visibility_seconds: Math.ceil(config.processingTimeoutMs / 1000),
+    });
+
+    if (error) {
+        console.error('[Queue] Error claiming messages:', error);
+        return [];
     }
 
-    // Get highest priority message (already sorted)
-    const message = messageQueue.shift()!;
-    processing.add(message.senderId);
-
-    // Track wait time
-    const waitTimeMs = Date.now() - message.queuedAt.getTime();
-    metrics.totalWaitTimeMs += waitTimeMs;
-    metrics.totalProcessed++;
-    metrics.avgWaitTimeMs = metrics.totalWaitTimeMs / metrics.totalProcessed;
-
-    console.log(`[Queue] Dequeued ${message.senderId} (waited ${waitTimeMs}ms)`);
+    const messages = ((data || []) as QueueRow[]).map(toQueuedMessage);
+    for (const message of messages) {
+        const waitTimeMs = Date.now() - message.queuedAt.getTime();
+        console.log(`[Queue] Claimed ${message.senderId} (attempt ${message.attempts}, waited ${waitTimeMs}ms)`);
+    }
 
-    return message;
+    return messages;
 }
 
 /**
- * Mark a message as done processing
+ * Mark a message as done processing.
+ * Only applies while the caller still holds the claim: if it expired and another worker
+ * claimed the message, that worker's outcome is the one recorded.
  */
-export function markComplete(senderId: string): void {
-    processing.delete(senderId);
+export async function markComplete(message: QueuedMessage): Promise<void> {
+    const { data, error } = await supabaseAdmin
+        .from('message_queue')
+        .update({
+            status: 'done',
+            completed_at: new Date().toISOString(),
+            locked_by: null,
+            locked_until: null,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', message.id)
+        .eq('status', 'processing')
+        .eq('locked_by', message.lockedBy)
+        .select('id');
+
+    if (error) {
+        console.error('[Queue] Error completing message:', error);
+    } else if (!data || data.length === 0) {
+        console.warn(`[Queue] Claim on ${message.id} was lost before it completed`);
+    }
 }
 
 /**
- * Mark a message as failed (can be re-queued)
+ * Mark a message as failed. It is retried with backoff while it has attempts left
+ * (keeping its place ahead of the sender's later messages), otherwise it stays failed.
+ * Like markComplete, this only applies while the caller still holds the claim.
+ *
+ * @returns The message's new status, or 'processing' if the claim was lost
  */
-export function markFailed(senderId: string, requeue: boolean = false): void {
-    processing.delete(senderId);
+export async function markFailed(
+    message: QueuedMessage,
+    error: unknown,
+    requeue: boolean = true
+): Promise<QueueMessageStatus> {
+    const willRetry = requeue && message.attempts < message.maxAttempts;
+    const delayMs = config.retryDelayMs * Math.pow(2, Math.max(message.attempts - 1, 0));
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+        .from('message_queue')
+        .update({
+            status: willRetry ? 'queued' : 'failed',
+            available_at: new Date(Date.now() + (willRetry ? delayMs : 0)).toISOString(),
+            last_error: error instanceof Error ? error.message : String(error),
+            completed_at: willRetry ? null : new Date().toISOString(),
+            locked_by: null,
+            locked_until: null,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', message.id)
+        .eq('status', 'processing')
+        .eq('locked_by', message.lockedBy)
+        .select('id');
+
+    if (updateError) {
+        console.error('[Queue] Error failing message:', updateError);
+    } else if (!updated || updated.length === 0) {
+        console.warn(`[Queue] Claim on ${message.id} was lost before it failed`);
+        return 'processing';
+    }
 
-    if (requeue) {
-        // Find the original message in processing and re-queue with lower priority
-        console.log(`[Queue] Re-queuing failed message for ${senderId}`);
-        // Note: Original message is gone, caller should handle re-queuing if needed
+    if (willRetry) {
+        console.log(`[Queue] Re-queuing failed message for ${message.senderId} in ${delayMs}ms`);
     }
+
+    return willRetry ? 'queued' : 'failed';
+}
+
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
 }
 
 /**
- * Get current queue status
+ * Get current queue status, for one tenant or the whole queue
  */
-export function getQueueStatus(): {
-    queueLength: number;
-    processingCount: number;
-    metrics: typeof metrics;
-    byPriority: Record<MessagePriority, number>;
-} {
+export async function getQueueStatus(userId?: string): Promise<QueueStatus> {
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+    let queuedQuery = supabaseAdmin.from('message_queue').select('priority, enqueued_at').eq('status', 'queued');
+    let processingQuery = supabaseAdmin.from('message_queue').select('id', { count: 'exact', head: true }).eq('status', 'processing');
+    let failedQuery = supabaseAdmin.from('message_queue').select('id', { count: 'exact', head: true }).eq('status', 'failed').gte('completed_at', hourAgo);
+    let completedQuery = supabaseAdmin.from('message_queue').select('enqueued_at, started_at, completed_at').eq('status', 'done').gte('completed_at', hourAgo);
+
+    if (userId) {
+        queuedQuery = queuedQuery.eq('user_id', userId);
+        processingQuery = processingQuery.eq('user_id', userId);
+        failedQuery = failedQuery.eq('user_id', userId);
+        completedQuery = completedQuery.eq('user_id', userId);
+    }
+
+    const [queuedResult, processingResult, failedResult, completedResult] = await Promise.all([
+        queuedQuery.limit(config.maxQueueSize),
+        processingQuery,
+        failedQuery,
+        completedQuery.order('completed_at', { ascending: false }).limit(1000),
+    ]);
+
+    if (queuedResult.error) console.error('[Queue] Error fetching queued messages:', queuedResult.error);
+    if (completedResult.error) console.error('[Queue] Error fetching completed messages:', completedResult.error);
+
     const byPriority = {
         [MessagePriority.CRITICAL]: 0,
         [MessagePriority.HIGH]: 0,
@@ -254,103 +388,169 @@ export function getQueueStatus(): {
         [MessagePriority.LOW]: 0,
     };
 
-    for (const msg of messageQueue) {
-        byPriority[msg.priority]++;
+    const queued = queuedResult.data || [];
+    let oldestQueuedAt = Date.now();
+    for (const msg of queued) {
+        byPriority[msg.priority as MessagePriority]++;
+        oldestQueuedAt = Math.min(oldestQueuedAt, new Date(msg.enqueued_at).getTime());
     }
 
+    const completed = (completedResult.data || []).filter(row => row.started_at);
+    const waits = completed
+        .map(row => new Date(row.started_at!).getTime() - new Date(row.enqueued_at).getTime())
+        .sort((a, b) => a - b);
+    const processingTimes = completed.map(row => new Date(row.completed_at!).getTime() - new Date(row.started_at!).getTime());
+    const average = (values: number[]) => values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+
     return {
-        queueLength: messageQueue.length,
-        processingCount: processing.size,
-        metrics: { ...metrics },
+        queueLength: queued.length,
+        processingCount: processingResult.count || 0,
+        failedLastHour: failedResult.count || 0,
         byPriority,
+        oldestWaitMs: Date.now() - oldestQueuedAt,
+        metrics: {
+            processedLastHour: completed.length,
+            avgWaitTimeMs: average(waits),
+            p95WaitTimeMs: percentile(waits, 0.95),
+            avgProcessingTimeMs: average(processingTimes),
+        },
     };
 }
 
 /**
  * Check if a sender is currently in queue or processing
  */
-export function isInQueue(senderId: string): boolean {
-    return processing.has(senderId) || messageQueue.some(m => m.senderId === senderId);
+export async function isInQueue(senderId: string): Promise<boolean> {
+    const { count } = await supabaseAdmin
+        .from('message_queue')
+        .select('id', { count: 'exact', head: true })
+        .eq('sender_id', senderId)
+        .in('status', ['queued', 'processing']);
+
+    return (count || 0) > 0;
 }
 
 /**
  * Get estimated wait time for a new message
  */
-export function getEstimatedWaitTime(priority: MessagePriority = MessagePriority.MEDIUM): number {
+export async function getEstimatedWaitTime(priority: MessagePriority = MessagePriority.MEDIUM): Promise<number> {
     // Count messages with same or higher priority
-    const aheadCount = messageQueue.filter(m => m.priority >= priority).length;
-    return aheadCount * 2000; // 2s estimate per message
+    const { count } = await supabaseAdmin
+        .from('message_queue')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'queued')
+        .gte('priority', priority);
+
+    return (count || 0) * 2000; // 2s estimate per message
 }
 
 /**
- * Clear the queue (for testing or emergency)
+ * Clear the queue (for testing or emergency) - waiting messages are failed, not handled
  */
-export function clearQueue(): void {
-    const count = messageQueue.length;
-    messageQueue = [];
-    processing.clear();
-    console.log(`[Queue] Cleared ${count} messages`);
+export async function clearQueue(): Promise<void> {
+    const { data, error } = await supabaseAdmin
+        .from('message_queue')
+        .update({ status: 'failed', last_error: 'Queue cleared', completed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('status', 'queued')
+        .select('id');
+
+    if (error) {
+        console.error('[Queue] Error clearing queue:', error);
+        return;
+    }
+    console.log(`[Queue] Cleared ${data?.length || 0} messages`);
 }
 
 /**
  * Process queue with a handler function
- * This is meant to be called in a worker/loop
+ * Claims one batch and runs it; call repeatedly from a worker until it returns 0.
+ * Handlers are not timed out here - a handler can't be stopped mid-send, so re-queuing it
+ * would run it twice. If one overruns its claim, the message is handed out again when the
+ * claim expires and this worker's late outcome is dropped.
  * 
  * @param handler - Function to process each message
  * @param concurrency - Number of concurrent processors
+ * @param onGiveUp - Called for a message that failed its last attempt
+ * @returns Number of messages claimed
  */
 export async function processQueue(
+    workerId: string,
     handler: (message: QueuedMessage) => Promise<void>,
-    concurrency: number = config.maxConcurrent
-): Promise<void> {
-    const promises: Promise<void>[] = [];
-
-    while (promises.length < concurrency && messageQueue.length > 0) {
-        const message = dequeue();
-        if (!message) break;
-
-        const promise = (async () => {
-            try {
-                await Promise.race([
-                    handler(message),
-                    new Promise((_, reject) =>
-                        setTimeout(() => reject(new Error('Timeout')), config.processingTimeoutMs)
-                    ),
-                ]);
-                markComplete(message.senderId);
-            } catch (error) {
-                console.error(`[Queue] Error processing ${message.senderId}:`, error);
-                markFailed(message.senderId);
+    concurrency: number = config.maxConcurrent,
+    onGiveUp?: (message: QueuedMessage, error: unknown) => Promise<void>
+): Promise<number> {
+    const messages = await claimMessages(workerId, concurrency);
+
+    await Promise.all(messages.map(async message => {
+        try {
+            await handler(message);
+            await markComplete(message);
+        } catch (error) {
+            console.error(`[Queue] Error processing ${message.senderId}:`, error);
+            const status = await markFailed(message, error);
+            if (status === 'failed' && onGiveUp) {
+                await onGiveUp(message, error);
             }
-        })();
-
-        promises.push(promise);
-    }
+        }
+    }));
 
-    await Promise.all(promises);
+    return messages.length;
 }
 
 /**
  * Check if queue can accept more messages
  */
-export function canAcceptMessage(): boolean {
-    return messageQueue.length < config.maxQueueSize;
+export async function canAcceptMessage(): Promise<boolean> {
+    const { count, error } = await supabaseAdmin
+        .from('message_queue')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'queued');
+
+    // Don't refuse messages because the count failed
+    if (error) return true;
+    return (count || 0) < config.maxQueueSize;
 }
 
 /**
  * Get queue health status
  */
-export function getQueueHealth(): {
+export function getQueueHealth(status: QueueStatus): {
     status: 'healthy' | 'warning' | 'critical';
     message: string;
 } {
-    const utilization = messageQueue.length / config.maxQueueSize;
-
-    if (utilization >= 0.9) {
-        return { status: 'critical', message: `Queue at ${(utilization * 100).toFixed(0)}% capacity` };
+    const utilization = status.queueLength / config.maxQueueSize;
+    const oldestWaitSeconds = Math.round(status.oldestWaitMs / 1000);
+
+    if (utilization >= 0.9 || (status.queueLength > 0 && oldestWaitSeconds >= 300)) {
+        return {
+            status: 'critical',
+            message: utilization >= 0.9
+                ? `Queue at ${(utilization * 100).toFixed(0)}% capacity`
+                : `Oldest message waiting ${Math.round(oldestWaitSeconds / 60)} min`,
+        };
     }
-    if (utilization >= 0.7) {
-        return { status: 'warning', message: `Queue at ${(utilization * 100).toFixed(0)}% capacity` };
+    if (utilization >= 0.7 || (status.queueLength > 0 && oldestWaitSeconds >= 60)) {
+        return {
+            status: 'warning',
+            message: utilization >= 0.7
+                ? `Queue at ${(utilization * 100).toFixed(0)}% capacity`
+                : `Oldest message waiting ${oldestWaitSeconds}s`,
+        };
     }
     return { status: 'healthy', message: 'Queue operating normally' };
 }
+
+/**
+ * Delete finished messages past the retention window
+ */
+export async function purgeFinishedMessages(): Promise<void> {
+    const { error } = await supabaseAdmin
+        .from('message_queue')
+        .delete()
+        .in('status', ['done', 'failed'])
+        .lt('completed_at', new Date(Date.now() - RETENTION_MS).toISOString());
+
+    if (error) {
+        console.error('[Queue] Error purging finished messages:', error);
+    }
+}
@@ -0,0 +1,338 @@
+import { supabaseAdmin } from './supabaseAdmin';
+
+/**
+ * Messenger messaging window policy
+ *
+ * Every outbound Messenger send is checked against the lead's last inbound event:
+ * - within 24 hours: a standard RESPONSE, whatever the purpose
+ * - after that, only sends covered by a message tag (confirmed event, post-purchase, account update,
+ *   or a human agent within 7 days) or by a one-time notification token the lead granted may go out
+ * Everything else is refused and recorded in messenger_blocked_sends.
+ */
+
+// Why a message is being sent; decides which tag (if any) may carry it outside the window
+export type MessagePurpose =
+    | 'response'          // Reply to something the lead just did
+    | 'follow_up'         // Re-engagement nudge
+    | 'workflow'          // Generic workflow message
+    | 'confirmed_event'   // Reminder or update about a booked appointment
+    | 'post_purchase'     // Update about an order the lead placed
+    | 'account_update'    // Non-recurring change to the lead's account or application
+    | 'human_agent';      // Message typed by a person on the team
+
+export type MessageTag = 'ACCOUNT_UPDATE' | 'CONFIRMED_EVENT_UPDATE' | 'POST_PURCHASE_UPDATE' | 'HUMAN_AGENT';
+
+export type SendClassification = 'standard' | 'tagged' | 'human_agent' | 'one_time_notification' | 'blocked';
+
+export interface SendDecision {
+    allowed: boolean;
+    classification: SendClassification;
+    messagingType?: 'RESPONSE' | 'MESSAGE_TAG';  // Not set for one-time notifications
+    tag?: MessageTag;
+    oneTimeNotifToken?: string;  // Replaces the recipient id when set
+    reason?: string;             // Why the send was blocked
+}
+
+export interface SendContext {
+    source: string;       // ai_reply, follow_up, workflow, agent_reply, ...
+    sourceId?: string;    // e.g. the workflow execution id
+    preview?: string;     // Message text (or attachment URL) for the blocked-sends report
+}
+
+export interface MessagingWindow {
+    state: 'open' | 'human_agent' | 'closed';
+    lastInboundAt: string | null;
+    closesAt: string | null;             // End of the 24-hour window
+    humanAgentClosesAt: string | null;   // End of the 7-day human agent window
+    oneTimeNotifications: number;        // Unused one-time notification tokens
+}
+
+export interface BlockedSend {
+    id: string;
+    lead_id: string | null;
+    sender_id: string;
+    purpose: MessagePurpose;
+    source: string;
+    source_id: string | null;
+    reason: string;
+    message_preview: string | null;
+    last_inbound_at: string | null;
+    created_at: string;
+    lead_name?: string | null;
+}
+
+export interface BlockedSendsReport {
+    total: number;
+    byPurpose: Record<string, number>;
+    bySource: Record<string, number>;
+    recent: BlockedSend[];
+}
+
+const STANDARD_WINDOW_MS = 24 * 60 * 60 * 1000;
+const HUMAN_AGENT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const OTN_TOKEN_LIFETIME_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Purposes a message tag covers outside the 24-hour window
+const PURPOSE_TAGS: Partial<Record<MessagePurpose, MessageTag>> = {
+    confirmed_event: 'CONFIRMED_EVENT_UPDATE',
+    post_purchase: 'POST_PURCHASE_UPDATE',
+    account_update: 'ACCOUNT_UPDATE',
+};
+
+interface LeadInboundState {
+    id: string;
+    user_id: string | null;
+    last_inbound_at: string | null;
+    last_customer_message_at: string | null;
+}
+
+async function getLeadInboundState(senderId: string): Promise<LeadInboundState | null> {
+    const { data, error } = await supabaseAdmin
+        .from('leads')
+        .select('id, user_id, last_inbound_at, last_customer_message_at')
+        .eq('sender_id', senderId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return data;
+}
+
+// Leads created before last_inbound_at existed only have last_customer_message_at
+function latestInbound(lead: LeadInboundState | null): string | null {
+    const times = [lead?.last_inbound_at, lead?.last_customer_message_at].filter((t): t is string => Boolean(t));
+    if (times.length === 0) return null;
+    return times.reduce((latest, t) => new Date(t) > new Date(latest) ? t : latest);
+}
+
+/**
+ * Work out the window state from the last inbound time
+ */
+export function describeMessagingWindow(
+    lastInboundAt: string | null,
+    oneTimeNotifications: number,
+    now: number = Date.now()
+): MessagingWindow {
+    if (!lastInboundAt) {
+        return { state: 'closed', lastInboundAt: null, closesAt: null, humanAgentClosesAt: null, oneTimeNotifications };
+    }
+
+    const inboundTime = new Date(lastInboundAt).getTime();
+    const closesAt = inboundTime + STANDARD_WINDOW_MS;
+    const humanAgentClosesAt = inboundTime + HUMAN_AGENT_WINDOW_MS;
+
+    return {
+        state: now < closesAt ? 'open' : now < humanAgentClosesAt ? 'human_agent' : 'closed',
+        lastInboundAt,
+        closesAt: new Date(closesAt).toISOString(),
+        humanAgentClosesAt: new Date(humanAgentClosesAt).toISOString(),
+        oneTimeNotifications,
+    };
+}
+
+/**
+ * Current messaging window for a lead (used by the lead details view)
+ */
+export async function getMessagingWindow(senderId: string): Promise<MessagingWindow> {
+    const lead = await getLeadInboundState(senderId);
+
+    const { count } = await supabaseAdmin
+        .from('messenger_otn_tokens')
+        .select('id', { count: 'exact', head: true })
+        .eq('sender_id', senderId)
+        .is('used_at', null)
+        .gt('expires_at', new Date().toISOString());
+
+    return describeMessagingWindow(latestInbound(lead), count || 0);
+}
+
+/**
+ * Record an inbound event from the lead (message, postback, referral, opt-in).
+ * Leads that don't exist yet are picked up by markCustomerReplied when they're created.
+ */
+export async function recordInbound(senderId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+        .from('leads')
+        .update({ last_inbound_at: new Date().toISOString() })
+        .eq('sender_id', senderId);
+
+    if (error) {
+        console.error('[MessagingPolicy] Error recording inbound event:', error);
+    }
+}
+
+/**
+ * Store a one-time notification token from a messaging_optins webhook event
+ */
+export async function saveOneTimeNotificationToken(
+    senderId: string,
+    token: string,
+    payload: string | null,
+    userId: string | null
+): Promise<void> {
+    const lead = await getLeadInboundState(senderId).catch(() => null);
+
+    const { error } = await supabaseAdmin
+        .from('messenger_otn_tokens')
+        .insert({
+            user_id: userId || lead?.user_id || null,
+            lead_id: lead?.id || null,
+            sender_id: senderId,
+            token,
+            payload,
+            expires_at: new Date(Date.now() + OTN_TOKEN_LIFETIME_MS).toISOString(),
+        });
+
+    // 23505: Facebook redelivered an opt-in we already stored
+    if (error && error.code !== '23505') {
+        console.error('[MessagingPolicy] Error saving one-time notification token:', error);
+    }
+}
+
+// Take the oldest unused token; it's spent even if the send then fails
+async function claimOneTimeNotificationToken(senderId: string): Promise<string | null> {
+    const { data: candidate } = await supabaseAdmin
+        .from('messenger_otn_tokens')
+        .select('id')
+        .eq('sender_id', senderId)
+        .is('used_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+    if (!candidate) return null;
+
+    // Conditional update so two concurrent sends can't both use it
+    const { data: claimed } = await supabaseAdmin
+        .from('messenger_otn_tokens')
+        .update({ used_at: new Date().toISOString() })
+        .eq('id', candidate.id)
+        .is('used_at', null)
+        .select('token')
+        .maybeSingle();
+
+    return claimed?.token || null;
+}
+
+async function recordBlockedSend(
+    senderId: string,
+    lead: LeadInboundState | null,
+    purpose: MessagePurpose,
+    context: SendContext,
+    reason: string,
+    lastInboundAt: string | null
+): Promise<void> {
+    const { error } = await supabaseAdmin
+        .from('messenger_blocked_sends')
+        .insert({
+            user_id: lead?.user_id || null,
+            lead_id: lead?.id || null,
+            sender_id: senderId,
+            purpose,
+            source: context.source,
+            source_id: context.sourceId || null,
+            reason,
+            message_preview: context.preview ? context.preview.substring(0, 200) : null,
+            last_inbound_at: lastInboundAt,
+        });
+
+    if (error) {
+        console.error('[MessagingPolicy] Error recording blocked send:', error);
+    }
+}
+
+function describeElapsed(lastInboundAt: string | null, now: number): string {
+    if (!lastInboundAt) return 'The lead has never messaged the page';
+    const hours = Math.floor((now - new Date(lastInboundAt).getTime()) / 3600000);
+    return hours < 48
+        ? `The lead last messaged ${hours} hours ago`
+        : `The lead last messaged ${Math.floor(hours / 24)} days ago`;
+}
+
+/**
+ * The central send gate: classify an outbound send and decide how (or whether) it may go out.
+ * Blocked sends are recorded for the report.
+ */
+export async function authorizeSend(
+    senderId: string,
+    purpose: MessagePurpose,
+    context: SendContext
+): Promise<SendDecision> {
+    let lead: LeadInboundState | null;
+    try {
+        lead = await getLeadInboundState(senderId);
+    } catch (error) {
+        console.error('[MessagingPolicy] Error loading lead for send check:', error);
+        // Replies answer an event that just arrived, so they're inside the window anyway
+        if (purpose === 'response') {
+            return { allowed: true, classification: 'standard', messagingType: 'RESPONSE' };
+        }
+        return { allowed: false, classification: 'blocked', reason: 'Could not check the messaging window' };
+    }
+
+    const now = Date.now();
+    const lastInboundAt = latestInbound(lead);
+    const elapsed = lastInboundAt ? now - new Date(lastInboundAt).getTime() : Infinity;
+
+    if (elapsed < STANDARD_WINDOW_MS) {
+        return { allowed: true, classification: 'standard', messagingType: 'RESPONSE' };
+    }
+
+    const tag = PURPOSE_TAGS[purpose];
+    if (tag) {
+        return { allowed: true, classification: 'tagged', messagingType: 'MESSAGE_TAG', tag };
+    }
+
+    if (purpose === 'human_agent' && elapsed < HUMAN_AGENT_WINDOW_MS) {
+        return { allowed: true, classification: 'human_agent', messagingType: 'MESSAGE_TAG', tag: 'HUMAN_AGENT' };
+    }
+
+    const oneTimeNotifToken = await claimOneTimeNotificationToken(senderId);
+    if (oneTimeNotifToken) {
+        console.log('[MessagingPolicy] Re-routing send through a one-time notification:', senderId);
+        return { allowed: true, classification: 'one_time_notification', oneTimeNotifToken };
+    }
+
+    const reason = purpose === 'human_agent'
+        ? `${describeElapsed(lastInboundAt, now)}; agents can only reply within 7 days`
+        : `${describeElapsed(lastInboundAt, now)}; outside the 24-hour window and no message tag covers a ${purpose.replace('_', ' ')} message`;
+
+    console.warn('[MessagingPolicy] Send blocked:', { senderId, purpose, source: context.source, reason });
+    await recordBlockedSend(senderId, lead, purpose, context, reason, lastInboundAt);
+
+    return { allowed: false, classification: 'blocked', reason };
+}
+
+/**
+ * Blocked sends for a user over the last few days, with totals per purpose and source
+ */
+export async function getBlockedSendsReport(userId: string, days: number = 30): Promise<BlockedSendsReport> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabaseAdmin
+        .from('messenger_blocked_sends')
+        .select('id, lead_id, sender_id, purpose, source, source_id, reason, message_preview, last_inbound_at, created_at, leads(name)')
+        .eq('user_id', userId)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(500);
+
+    if (error) {
+        console.error('[MessagingPolicy] Error fetching blocked sends:', error);
+        return { total: 0, byPurpose: {}, bySource: {}, recent: [] };
+    }
+
+    const byPurpose: Record<string, number> = {};
+    const bySource: Record<string, number> = {};
+    for (const row of data || []) {
+        byPurpose[row.purpose] = (byPurpose[row.purpose] || 0) + 1;
+        bySource[row.source] = (bySource[row.source] || 0) + 1;
+    }
+
+    const recent = (data || []).slice(0, 50).map(({ leads, ...row }) => ({
+        ...row,
+        lead_name: (leads as unknown as { name: string | null } | null)?.name ?? null,
+    })) as BlockedSend[];
+
+    return { total: data?.length || 0, byPurpose, bySource, recent };
+}
@@ -1,14 +1,52 @@
 import { supabase } from './supabase';
+import { authorizeSend, type MessagePurpose, type SendDecision } from './messagingPolicyService';
 
 export interface MessengerSendOptions {
-    messagingType?: 'RESPONSE' | 'UPDATE' | 'MESSAGE_TAG';
-    tag?: 'ACCOUNT_UPDATE' | 'CONFIRMED_EVENT_UPDATE' | 'POST_PURCHASE_UPDATE';
+    purpose?: MessagePurpose;  // Checked against the lead's messaging window (defaults to 'response')
+    source?: string;           // Where the send came from, for the blocked-sends report
+    sourceId?: string;
+    decision?: SendDecision;   // Send already authorized by the caller (skips the policy check)
+    quickReplies?: string[];  // Text quick replies shown under the message (max 13, 20 chars each)
 }
 
 // Cache for page tokens to avoid repeated DB calls
 const pageTokenCache = new Map<string, { token: string; fetchedAt: number }>();
 const PAGE_TOKEN_CACHE_MS = 60000; // 1 minute cache
 
+/**
+ * Run the send through the messaging window policy and address the request accordingly.
+ * Returns false when the send is blocked.
+ */
+async function applySendPolicy(
+    psid: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    requestBody: any,
+    options: MessengerSendOptions,
+    preview: string
+): Promise<boolean> {
+    const decision = options.decision || await authorizeSend(psid, options.purpose || 'response', {
+        source: options.source || 'messenger',
+        sourceId: options.sourceId,
+        preview,
+    });
+
+    if (!decision.allowed) {
+        return false;
+    }
+
+    if (decision.oneTimeNotifToken) {
+        // One-time notifications are addressed by token and carry no messaging_type
+        requestBody.recipient = { one_time_notif_token: decision.oneTimeNotifToken };
+        return true;
+    }
+
+    requestBody.messaging_type = decision.messagingType;
+    if (decision.tag) {
+        requestBody.tag = decision.tag;
+    }
+    return true;
+}
+
 // Get page access token - prioritizes OAuth connected_pages, falls back to bot_settings
 async function getPageAccessToken(): Promise<string | null> {
     const now = Date.now();
@@ -74,15 +112,20 @@ export async function sendMessengerMessage(
             message: { text },
         };
 
-        // Add messaging_type and tag for messages outside 24hr window
-        if (options.messagingType) {
-            requestBody.messaging_type = options.messagingType;
+        if (options.quickReplies && options.quickReplies.length > 0) {
+            requestBody.message.quick_replies = options.quickReplies.slice(0, 13).map(title => ({
+                content_type: 'text',
+                title: title.substring(0, 20),
+                payload: title,
+            }));
         }
-        if (options.tag) {
-            requestBody.tag = options.tag;
+
+        if (!await applySendPolicy(psid, requestBody, options, text)) {
+            console.warn('[MessengerService] Message blocked by the messaging window policy:', psid);
+            return false;
         }
 
-        console.log('[MessengerService] Sending message:', { psid, messagingType: options.messagingType, tag: options.tag });
+        console.log('[MessengerService] Sending message:', { psid, messagingType: requestBody.messaging_type, tag: requestBody.tag });
 
         const res = await fetch(
             `https://graph.facebook.com/v21.0/me/messages?access_token=${PAGE_ACCESS_TOKEN}`,
@@ -109,10 +152,7 @@ export async function sendMessengerMessage(
 }
 
 export async function sendWithAccountUpdateTag(psid: string, text: string): Promise<boolean> {
-    return sendMessengerMessage(psid, text, {
-        messagingType: 'MESSAGE_TAG',
-        tag: 'ACCOUNT_UPDATE',
-    });
+    return sendMessengerMessage(psid, text, { purpose: 'account_update' });
 }
 
 // Send an image message via Messenger
@@ -156,15 +196,12 @@ export async function sendMessengerAttachment(
             },
         };
 
-        // Add messaging_type and tag for messages outside 24hr window
-        if (options.messagingType) {
-            requestBody.messaging_type = options.messagingType;
-        }
-        if (options.tag) {
-            requestBody.tag = options.tag;
+        if (!await applySendPolicy(psid, requestBody, options, url)) {
+            console.warn('[MessengerService] Attachment blocked by the messaging window policy:', psid);
+            return false;
         }
 
-        console.log('[MessengerService] Sending attachment:', { psid, url, type, messagingType: options.messagingType, tag: options.tag });
+        console.log('[MessengerService] Sending attachment:', { psid, url, type, messagingType: requestBody.messaging_type, tag: requestBody.tag });
 
         const res = await fetch(
             `https://graph.facebook.com/v21.0/me/messages?access_token=${PAGE_ACCESS_TOKEN}`,
@@ -190,6 +227,66 @@ export async function sendMessengerAttachment(
     }
 }
 
+// Ask the lead for permission to send one message later, outside the messaging window.
+// Accepting delivers a one-time notification token through the messaging_optins webhook.
+export async function sendOneTimeNotificationRequest(
+    psid: string,
+    title: string,
+    payload: string,
+    options: MessengerSendOptions = {}
+): Promise<boolean> {
+    try {
+        const PAGE_ACCESS_TOKEN = await getPageAccessToken();
+
+        if (!PAGE_ACCESS_TOKEN) {
+            console.error('[MessengerService] No Facebook Page Access Token available');
+            return false;
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const requestBody: any = {
+            recipient: { id: psid },
+            message: {
+                attachment: {
+                    type: 'template',
+                    payload: {
+                        template_type: 'one_time_notif_req',
+                        title: title.substring(0, 65),
+                        payload,
+                    }
+                }
+            },
+        };
+
+        if (!await applySendPolicy(psid, requestBody, options, title)) {
+            console.warn('[MessengerService] Notification request blocked by the messaging window policy:', psid);
+            return false;
+        }
+
+        const res = await fetch(
+            `https://graph.facebook.com/v21.0/me/messages?access_token=${PAGE_ACCESS_TOKEN}`,
+            {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(requestBody),
+            }
+        );
+
+        const resData = await res.json();
+
+        if (!res.ok) {
+            console.error('[MessengerService] Failed to send notification request:', resData);
+            return false;
+        }
+
+        console.log('[MessengerService] Notification request sent successfully');
+        return true;
+    } catch (error) {
+        console.error('[MessengerService] Error sending notification request:', error);
+        return false;
+    }
+}
+
 export async function canUseBotForLead(leadId: string): Promise<boolean> {
     const { data: lead } = await supabase
         .from('leads')
@@ -2,6 +2,7 @@
 import { createClient } from './supabaseClient';
 import { trackActivity } from './activityTrackingService';
 import { enableFollowUpsForLead } from './followUpService';
+import type { DiscountLine } from './promotionService';
 
 export interface OrderItem {
     id: string;
@@ -20,6 +21,15 @@ export interface Order {
     payment_status: 'pending' | 'paid' | 'failed' | 'refunded' | 'cancelled';
     is_cod: boolean;
     total_amount: number;
+    subtotal_amount: number | null;
+    discount_amount: number;
+    discount_code: string | null;
+    discount_breakdown: DiscountLine[];
+    shipping_province: string | null;
+    shipping_city: string | null;
+    shipping_zone_id: string | null;
+    shipping_zone_name: string | null;
+    shipping_fee: number;
     currency: string;
     notes: string | null;
     shipping_address: string | null;
@@ -67,6 +77,11 @@ export async function getOrders() {
     return data as Order[];
 }
 
+/**
+ * Browser-side status change. Stock and discount release on cancellation and fulfillment
+ * events need the service role - status changes that should trigger them go through
+ * PATCH /api/orders.
+ */
 export async function updateOrderStatus(orderId: string, status: string) {
     const supabase = createClient();
 
@@ -0,0 +1,335 @@
+import { supabaseAdmin } from './supabaseAdmin';
+import { releaseOrderStock } from './inventoryService';
+import { releaseOrderDiscount } from './promotionService';
+import { invalidateCatalogCache } from './productRagService';
+
+/**
+ * Order Status Service
+ *
+ * What the bot knows about a customer's placed orders: recent physical orders (status, payment,
+ * tracking) and digital purchases, for the AI context and the [SHOW_ORDERS] cards. Customers may
+ * also cancel an order themselves while it is confirmed or processing and still inside the
+ * tenant's cancellation window.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+const RECENT_ORDER_LIMIT = 5;
+const DEFAULT_CANCELLATION_WINDOW_HOURS = 24;
+
+// Statuses a customer can still cancel from; anything further along needs the team
+const CUSTOMER_CANCELLABLE_STATUSES = ['confirmed', 'processing'];
+
+export interface CustomerOrder {
+    id: string;
+    reference: string;               // Short id shown to the customer, e.g. #1a2b3c4d
+    status: string;
+    paymentStatus: string;
+    paymentMethod: string | null;
+    totalAmount: number;
+    itemSummary: string;
+    imageUrl: string | null;
+    carrier: string | null;
+    trackingNumber: string | null;
+    trackingUrl: string | null;
+    placedAt: string;
+    cancellable: boolean;
+    cancelBlockedReason: string | null;
+}
+
+export interface CustomerDigitalPurchase {
+    id: string;
+    title: string;
+    status: string;
+    amountPaid: number | null;
+    imageUrl: string | null;
+    purchasedAt: string;
+    accessExpiresAt: string | null;
+}
+
+export interface CustomerOrderHistory {
+    orders: CustomerOrder[];
+    digitalPurchases: CustomerDigitalPurchase[];
+    cancellationWindowHours: number;
+}
+
+export interface CancelOrderResult {
+    ok: boolean;
+    message: string;
+    order?: { id: string; reference: string; lead_id: string | null; user_id: string | null };
+}
+
+interface OrderRow {
+    id: string;
+    lead_id: string | null;
+    user_id: string | null;
+    status: string;
+    payment_status: string | null;
+    payment_method: string | null;
+    total_amount: number | null;
+    confirmed_at: string | null;
+    created_at: string;
+    order_items: { product_name: string; quantity: number; products: { image_url: string | null } | { image_url: string | null }[] | null }[] | null;
+    order_fulfillments: FulfillmentRow | FulfillmentRow[] | null;
+}
+
+interface FulfillmentRow {
+    carrier: string | null;
+    tracking_number: string | null;
+    tracking_url: string | null;
+}
+
+// ============================================================================
+// CANCELLATION RULES
+// ============================================================================
+
+export function orderReference(orderId: string): string {
+    return `#${orderId.slice(0, 8)}`;
+}
+
+/**
+ * Why the customer can't cancel this order themselves, or null when they can
+ */
+export function getCancelBlockedReason(
+    order: { status: string; confirmed_at: string | null; created_at: string },
+    windowHours: number,
+    now: Date = new Date()
+): string | null {
+    if (order.status === 'cancelled') return 'This order is already cancelled';
+    if (order.status === 'shipped' || order.status === 'delivered') {
+        return `This order has already been ${order.status}`;
+    }
+    if (!CUSTOMER_CANCELLABLE_STATUSES.includes(order.status)) {
+        return 'This order can\'t be cancelled';
+    }
+    if (windowHours <= 0) {
+        return 'Orders can\'t be cancelled through chat';
+    }
+
+    const placedAt = new Date(order.confirmed_at || order.created_at).getTime();
+    if (now.getTime() - placedAt > windowHours * 60 * 60 * 1000) {
+        return `Orders can only be cancelled within ${windowHours} hour${windowHours === 1 ? '' : 's'} of placing them`;
+    }
+
+    return null;
+}
+
+export async function getCancellationWindowHours(userId: string | null): Promise<number> {
+    if (!userId) return DEFAULT_CANCELLATION_WINDOW_HOURS;
+
+    const { data, error } = await supabaseAdmin
+        .from('store_settings')
+        .select('order_cancellation_window_hours')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[OrderStatus] Error fetching cancellation window:', error);
+    }
+
+    return data?.order_cancellation_window_hours ?? DEFAULT_CANCELLATION_WINDOW_HOURS;
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+async function findLeadId(senderId: string, userId?: string | null): Promise<string | null> {
+    let query = supabaseAdmin
+        .from('leads')
+        .select('id')
+        .eq('sender_id', senderId);
+
+    if (userId) {
+        query = query.eq('user_id', userId);
+    }
+
+    const { data } = await query.limit(1).maybeSingle();
+    return data?.id || null;
+}
+
+function single<T>(value: T | T[] | null | undefined): T | null {
+    return Array.isArray(value) ? value[0] || null : value || null;
+}
+
+function toCustomerOrder(row: OrderRow, windowHours: number): CustomerOrder {
+    const items = row.order_items || [];
+    const fulfillment = single(row.order_fulfillments);
+    const firstImage = items.map(item => single(item.products)?.image_url).find(Boolean) || null;
+    const cancelBlockedReason = getCancelBlockedReason(row, windowHours);
+
+    return {
+        id: row.id,
+        reference: orderReference(row.id),
+        status: row.status,
+        paymentStatus: row.payment_status || 'pending',
+        paymentMethod: row.payment_method,
+        totalAmount: Number(row.total_amount) || 0,
+        itemSummary: items.map(item => `${item.product_name} x${item.quantity}`).join(', '),
+        imageUrl: firstImage,
+        carrier: fulfillment?.carrier || null,
+        trackingNumber: fulfillment?.tracking_number || null,
+        trackingUrl: fulfillment?.tracking_url || null,
+        placedAt: row.confirmed_at || row.created_at,
+        cancellable: cancelBlockedReason === null,
+        cancelBlockedReason,
+    };
+}
+
+/**
+ * The sender's recent placed orders (carts excluded) and digital purchases, newest first
+ */
+export async function getCustomerOrderHistory(senderId: string, userId?: string | null): Promise<CustomerOrderHistory> {
+    const empty: CustomerOrderHistory = { orders: [], digitalPurchases: [], cancellationWindowHours: DEFAULT_CANCELLATION_WINDOW_HOURS };
+
+    try {
+        const leadId = await findLeadId(senderId, userId);
+        if (!leadId) return empty;
+
+        const [ordersResult, purchasesResult, windowHours] = await Promise.all([
+            supabaseAdmin
+                .from('orders')
+                .select(`
+                    id, lead_id, user_id, status, payment_status, payment_method, total_amount, confirmed_at, created_at,
+                    order_items (product_name, quantity, products (image_url)),
+                    order_fulfillments (carrier, tracking_number, tracking_url)
+                `)
+                .eq('lead_id', leadId)
+                .neq('status', 'pending')
+                .order('created_at', { ascending: false })
+                .limit(RECENT_ORDER_LIMIT),
+            supabaseAdmin
+                .from('digital_product_purchases')
+                .select('id, status, amount_paid, purchase_date, access_expires_at, digital_products (title, thumbnail_url)')
+                .eq('lead_id', leadId)
+                .order('created_at', { ascending: false })
+                .limit(RECENT_ORDER_LIMIT),
+            getCancellationWindowHours(userId || null),
+        ]);
+
+        if (ordersResult.error) {
+            console.error('[OrderStatus] Error fetching orders:', ordersResult.error);
+        }
+        if (purchasesResult.error) {
+            console.error('[OrderStatus] Error fetching digital purchases:', purchasesResult.error);
+        }
+
+        const orders = ((ordersResult.data || []) as unknown as OrderRow[]).map(row => toCustomerOrder(row, windowHours));
+
+        const digitalPurchases = (purchasesResult.data || []).map(row => {
+            const product = single(row.digital_products as { title: string; thumbnail_url: string | null } | { title: string; thumbnail_url: string | null }[] | null);
+            return {
+                id: row.id,
+                title: product?.title || 'Digital product',
+                status: row.status || 'pending',
+                amountPaid: row.amount_paid !== null ? Number(row.amount_paid) : null,
+                imageUrl: product?.thumbnail_url || null,
+                purchasedAt: row.purchase_date,
+                accessExpiresAt: row.access_expires_at,
+            };
+        });
+
+        return { orders, digitalPurchases, cancellationWindowHours: windowHours };
+    } catch (error) {
+        console.error('[OrderStatus] Error fetching order history:', error);
+        return empty;
+    }
+}
+
+/**
+ * Format the customer's orders for the AI context
+ */
+export function buildOrderStatusContextForAI(history: CustomerOrderHistory): string {
+    if (history.orders.length === 0 && history.digitalPurchases.length === 0) {
+        return '';
+    }
+
+    const orderLines = history.orders.map(order => {
+        const parts = [
+            `${order.reference} (order_id: ${order.id})`,
+            `placed ${new Date(order.placedAt).toLocaleDateString('en-PH', { month: 'short', day: 'numeric' })}`,
+            `status: ${order.status}`,
+            `payment: ${order.paymentStatus}${order.paymentMethod ? ` via ${order.paymentMethod}` : ''}`,
+            `total: ₱${order.totalAmount.toLocaleString()}`,
+        ];
+        if (order.trackingNumber) parts.push(`tracking: ${order.carrier ? `${order.carrier} ` : ''}${order.trackingNumber}`);
+        parts.push(order.cancellable ? 'can be cancelled' : `cannot be cancelled (${order.cancelBlockedReason})`);
+        return `  - ${parts.join(' | ')}\n    Items: ${order.itemSummary || 'n/a'}`;
+    });
+
+    const digitalLines = history.digitalPurchases.map(purchase =>
+        `  - ${purchase.title} | access: ${purchase.status}${purchase.accessExpiresAt ? ` until ${new Date(purchase.accessExpiresAt).toLocaleDateString('en-PH')}` : ''}`
+    );
+
+    let text = 'CUSTOMER ORDERS (already placed - these are NOT the cart):\n';
+    if (orderLines.length > 0) text += `${orderLines.join('\n')}\n`;
+    if (digitalLines.length > 0) text += `Digital purchases:\n${digitalLines.join('\n')}\n`;
+    text += 'Use these when the customer asks where their order is, about payment, or tracking. Never invent tracking numbers or dates.\n';
+
+    return text;
+}
+
+// ============================================================================
+// CUSTOMER CANCELLATION
+// ============================================================================
+
+/**
+ * Cancel an order on the customer's behalf, after checking it's theirs and still cancellable.
+ * Stock and code use are given back like a cancellation from the dashboard.
+ */
+export async function cancelCustomerOrder(senderId: string, orderId: string, userId: string): Promise<CancelOrderResult> {
+    const leadId = await findLeadId(senderId, userId);
+    if (!leadId) {
+        return { ok: false, message: 'We couldn\'t find that order' };
+    }
+
+    const { data: order, error } = await supabaseAdmin
+        .from('orders')
+        .select('id, lead_id, user_id, status, confirmed_at, created_at')
+        .eq('id', orderId)
+        .eq('lead_id', leadId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error || !order) {
+        if (error) console.error('[OrderStatus] Error fetching order to cancel:', error);
+        return { ok: false, message: 'We couldn\'t find that order' };
+    }
+
+    const blocked = getCancelBlockedReason(order, await getCancellationWindowHours(userId));
+    if (blocked) {
+        return { ok: false, message: blocked };
+    }
+
+    // Only cancel if the status hasn't moved on since we checked
+    const now = new Date().toISOString();
+    const { data: cancelled, error: updateError } = await supabaseAdmin
+        .from('orders')
+        .update({
+            status: 'cancelled',
+            cancelled_at: now,
+            cancellation_reason: 'Cancelled by customer via Messenger',
+            updated_at: now,
+        })
+        .eq('id', order.id)
+        .eq('status', order.status)
+        .select('id')
+        .maybeSingle();
+
+    if (updateError || !cancelled) {
+        if (updateError) console.error('[OrderStatus] Error cancelling order:', updateError);
+        return { ok: false, message: 'This order can\'t be cancelled anymore' };
+    }
+
+    await releaseOrderStock(order.id);
+    await releaseOrderDiscount(order.id);
+    invalidateCatalogCache(userId);
+
+    return {
+        ok: true,
+        message: `Order ${orderReference(order.id)} has been cancelled`,
+        order: { id: order.id, reference: orderReference(order.id), lead_id: order.lead_id, user_id: order.user_id },
+    };
+}
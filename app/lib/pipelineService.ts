@@ -1,6 +1,8 @@
 import OpenAI from 'openai';
 import { supabase } from './supabase';
 import { supabaseAdmin } from './supabaseAdmin';
+import { waitUntil } from '@vercel/functions';
+import { emitWebhookEvent } from './webhookEventService';
 
 // Constants
 const MESSAGES_BEFORE_ANALYSIS = 5;
@@ -81,6 +83,34 @@ async function logPipelineEvent(
         // Non-critical - just log and continue
         console.error('[PipelineEvent] Failed to log event:', error);
     }
+
+    if (eventType === 'stage_change' && leadId) {
+        waitUntil(
+            emitStageChangedWebhook(leadId, userId, eventData).catch(err => {
+                console.error('[PipelineEvent] Failed to emit stage change webhook:', err);
+            })
+        );
+    }
+}
+
+// Forward stage changes to the tenant's webhook subscribers (kept alive with waitUntil)
+async function emitStageChangedWebhook(
+    leadId: string,
+    userId: string | null,
+    eventData: Record<string, unknown>
+): Promise<void> {
+    const { data: lead } = await supabaseAdmin
+        .from('leads')
+        .select('user_id, sender_id, name')
+        .eq('id', leadId)
+        .single();
+
+    await emitWebhookEvent(userId || lead?.user_id, 'lead.stage_changed', {
+        lead_id: leadId,
+        sender_id: lead?.sender_id || null,
+        name: lead?.name || null,
+        ...eventData,
+    });
 }
 
 // Initialize OpenAI client for NVIDIA
@@ -794,6 +824,195 @@ async function isStageTransitionAllowed(
     return { allowed: true, reason: 'Forward progression' };
 }
 
+interface MoveLeadToStageOptions {
+    userId?: string | null;
+    reason?: string;
+    changedBy?: string;              // Recorded in lead_stage_history (e.g. 'workflow')
+    allowRegression?: boolean;       // Skip the priority_order regression check
+    triggerWorkflows?: boolean;      // Fire stage workflows after the move (default true)
+    workflowChain?: string[];        // Workflow ids that led to this move, for loop protection
+}
+
+/**
+ * Move a lead to a specific stage (used by workflow actions)
+ * Goes through the same regression check, history and event logging as AI classification
+ */
+export async function moveLeadToStage(
+    leadId: string,
+    stageId: string,
+    options: MoveLeadToStageOptions = {}
+): Promise<{ moved: boolean; reason: string }> {
+    const userId = options.userId || null;
+
+    try {
+        let leadQuery = supabaseAdmin
+            .from('leads')
+            .select('id, current_stage_id')
+            .eq('id', leadId);
+
+        if (userId) {
+            leadQuery = leadQuery.eq('user_id', userId);
+        }
+
+        const { data: lead, error: leadError } = await leadQuery.single();
+
+        if (leadError || !lead) {
+            console.error('[MoveLeadToStage] Lead not found:', leadId, leadError);
+            return { moved: false, reason: 'Lead not found' };
+        }
+
+        if (lead.current_stage_id === stageId) {
+            return { moved: false, reason: 'Already in this stage' };
+        }
+
+        if (!options.allowRegression) {
+            const transitionCheck = await isStageTransitionAllowed(lead.current_stage_id, stageId, userId);
+            if (!transitionCheck.allowed) {
+                console.log(`[MoveLeadToStage] Blocked: ${transitionCheck.reason}`);
+                return { moved: false, reason: transitionCheck.reason };
+            }
+        }
+
+        await supabaseAdmin
+            .from('lead_stage_history')
+            .insert({
+                lead_id: leadId,
+                from_stage_id: lead.current_stage_id,
+                to_stage_id: stageId,
+                reason: options.reason || 'Moved by workflow',
+                changed_by: options.changedBy || 'workflow',
+            });
+
+        const { error: updateError } = await supabaseAdmin
+            .from('leads')
+            .update({ current_stage_id: stageId })
+            .eq('id', leadId);
+
+        if (updateError) {
+            console.error('[MoveLeadToStage] Error updating lead stage:', updateError);
+            return { moved: false, reason: 'Failed to update lead' };
+        }
+
+        await logPipelineEvent(leadId, userId, 'stage_change', {
+            from_stage_id: lead.current_stage_id,
+            to_stage_id: stageId,
+            reason: options.reason || 'Moved by workflow',
+            source: options.changedBy || 'workflow',
+            workflow_chain: options.workflowChain || [],
+        });
+
+        if (options.triggerWorkflows !== false) {
+            try {
+                const { triggerWorkflowsForStage } = await import('./workflowEngine');
+                await triggerWorkflowsForStage(stageId, leadId, { workflowChain: options.workflowChain });
+            } catch (workflowError) {
+                console.error('Error triggering workflows:', workflowError);
+            }
+        }
+
+        return { moved: true, reason: 'Moved' };
+    } catch (error) {
+        console.error('Error in moveLeadToStage:', error);
+        return { moved: false, reason: 'Unexpected error' };
+    }
+}
+
+/**
+ * Add or remove tags on a lead. Tags are normalized to lowercase and de-duplicated.
+ */
+export async function updateLeadTags(
+    leadId: string,
+    action: 'add' | 'remove',
+    tags: string[]
+): Promise<string[] | null> {
+    const normalized = tags.map(t => t.trim().toLowerCase()).filter(Boolean);
+    if (normalized.length === 0) return null;
+
+    const { data: lead, error } = await supabaseAdmin
+        .from('leads')
+        .select('tags')
+        .eq('id', leadId)
+        .single();
+
+    if (error || !lead) {
+        console.error('[LeadTags] Lead not found:', leadId, error);
+        return null;
+    }
+
+    const current: string[] = lead.tags || [];
+    const updated = action === 'add'
+        ? [...new Set([...current, ...normalized])]
+        : current.filter(t => !normalized.includes(t));
+
+    const { error: updateError } = await supabaseAdmin
+        .from('leads')
+        .update({ tags: updated })
+        .eq('id', leadId);
+
+    if (updateError) {
+        console.error('[LeadTags] Error updating tags:', updateError);
+        return null;
+    }
+
+    return updated;
+}
+
+/**
+ * Set (or clear, with an empty name) the person responsible for a lead.
+ */
+export async function assignLeadOwner(leadId: string, owner: string): Promise<boolean> {
+    const { error } = await supabaseAdmin
+        .from('leads')
+        .update({ owner: owner.trim() || null })
+        .eq('id', leadId);
+
+    if (error) {
+        console.error('[LeadOwner] Error assigning owner:', error);
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Create an open follow-up task on a lead, assigned to the lead's current owner.
+ * Returns the task id, or null if it couldn't be created.
+ */
+export async function createLeadTask(
+    leadId: string,
+    task: { title: string; notes?: string; dueAt?: string | null; workflowId?: string | null }
+): Promise<string | null> {
+    const { data: lead, error } = await supabaseAdmin
+        .from('leads')
+        .select('user_id, owner')
+        .eq('id', leadId)
+        .single();
+
+    if (error || !lead) {
+        console.error('[LeadTasks] Lead not found:', leadId, error);
+        return null;
+    }
+
+    const { data: created, error: insertError } = await supabaseAdmin
+        .from('lead_tasks')
+        .insert({
+            user_id: lead.user_id,
+            lead_id: leadId,
+            title: task.title,
+            notes: task.notes || null,
+            assigned_to: lead.owner,
+            due_at: task.dueAt || null,
+            workflow_id: task.workflowId || null,
+        })
+        .select('id')
+        .single();
+
+    if (insertError || !created) {
+        console.error('[LeadTasks] Error creating task:', insertError);
+        return null;
+    }
+    return created.id;
+}
+
 // Get all leads grouped by stage
 export async function getLeadsByStage(): Promise<Record<string, Lead[]>> {
     try {
@@ -1,5 +1,7 @@
 import { supabase } from './supabase';
 import { supabaseAdmin } from './supabaseAdmin';
+import { getProductStock } from './inventoryService';
+import { getPromotionContext } from './promotionService';
 
 // Cache configuration - now keyed by userId for multi-tenancy
 const CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
@@ -182,6 +184,8 @@ async function getProductContext(userId?: string): Promise<string> {
             console.error('[ProductRAG] Error fetching variations:', variationsError);
         }
 
+        const stock = await getProductStock(productIds);
+
         // Group variations by product
         const variationsByProduct: Record<string, typeof variations> = {};
         if (variations) {
@@ -206,6 +210,13 @@ async function getProductContext(userId?: string): Promise<string> {
             context += `\n${index + 1}. ${product.name} - ${priceStr}`;
             context += `\n   product_id: ${product.id}`;  // Add ID for AI to use
 
+            const productStock = stock[product.id];
+            if (productStock?.soldOut) {
+                context += `\n   Stock: OUT OF STOCK - do not recommend or add to cart`;
+            } else if (productStock?.product.tracked && productStock.lowStock) {
+                context += `\n   Stock: only ${productStock.product.available} left`;
+            }
+
             const category = Array.isArray(product.category) ? product.category[0] : product.category;
             if (category?.name) {
                 context += `\n   Category: ${category.name}`;
@@ -221,19 +232,25 @@ async function getProductContext(userId?: string): Promise<string> {
                 context += `\n   Available Options:`;
 
                 // Group by variation type
-                const byType: Record<string, { value: string; price: number }[]> = {};
+                const byType: Record<string, { value: string; price: number; available: number | null }[]> = {};
                 for (const v of productVariations) {
                     const varType = Array.isArray(v.variation_type) ? v.variation_type[0] : v.variation_type;
                     const typeName = varType?.name || 'Option';
                     if (!byType[typeName]) {
                         byType[typeName] = [];
                     }
-                    byType[typeName].push({ value: v.value, price: v.price });
+                    byType[typeName].push({ value: v.value, price: v.price, available: productStock?.variations[v.id]?.available ?? null });
                 }
 
+                const threshold = productStock?.lowStockThreshold ?? 0;
                 for (const [typeName, options] of Object.entries(byType)) {
                     const optionsStr = options
-                        .map(o => `${o.value}: ₱${o.price.toLocaleString('en-PH')}`)
+                        .map(o => {
+                            const label = `${o.value}: ₱${o.price.toLocaleString('en-PH')}`;
+                            if (o.available === null) return label;
+                            if (o.available <= 0) return `${label} (sold out)`;
+                            return o.available <= threshold ? `${label} (only ${o.available} left)` : label;
+                        })
                         .join(', ');
                     context += `\n   - ${typeName}: ${optionsStr}`;
                 }
@@ -451,7 +468,7 @@ async function getDigitalProductContext(userId?: string): Promise<string> {
 
 /**
  * Get combined catalog context for AI with caching
- * Includes products, properties, and payment methods
+ * Includes products, promos, properties, and payment methods
  * @param userId - Optional user ID to get context for a specific user
  */
 export async function getCatalogContext(userId?: string): Promise<string> {
@@ -467,11 +484,12 @@ export async function getCatalogContext(userId?: string): Promise<string> {
     console.log(`[ProductRAG] Building fresh catalog context for ${cacheKey}...`);
 
     // Fetch all contexts in parallel with userId
-    const [productContext, propertyContext, paymentContext, digitalProductContext] = await Promise.all([
+    const [productContext, propertyContext, paymentContext, digitalProductContext, promotionContext] = await Promise.all([
         getProductContext(userId),
         getPropertyContext(userId),
         getPaymentMethodContext(userId),
         getDigitalProductContext(userId),
+        getPromotionContext(userId),
     ]);
 
     // Combine contexts
@@ -481,6 +499,10 @@ export async function getCatalogContext(userId?: string): Promise<string> {
         parts.push(productContext);
     }
 
+    if (promotionContext) {
+        parts.push(promotionContext);
+    }
+
     if (propertyContext) {
         parts.push(propertyContext);
     }
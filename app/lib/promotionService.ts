@@ -0,0 +1,593 @@
+import { supabaseAdmin } from './supabaseAdmin';
+
+/**
+ * Promotion Service
+ *
+ * Prices a cart: automatic promotions (buy X get Y, tiered spend discounts) apply to every eligible
+ * cart, then at most one discount code on top. The result is written to the order as
+ * subtotal_amount / discount_amount / total_amount plus a discount_breakdown the checkout page,
+ * Messenger confirmations and the order modal can show line by line.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const DISCOUNT_TYPES = ['percentage', 'fixed', 'free_shipping'] as const;
+export type DiscountType = typeof DISCOUNT_TYPES[number];
+
+export const PROMOTION_TYPES = ['buy_x_get_y', 'tiered'] as const;
+export type PromotionType = typeof PROMOTION_TYPES[number];
+
+export interface DiscountCode {
+    id: string;
+    user_id: string;
+    code: string;
+    description: string | null;
+    discount_type: DiscountType;
+    value: number;
+    max_discount: number | null;
+    min_spend: number;
+    usage_limit: number | null;
+    per_customer_limit: number | null;
+    times_used: number;
+    product_ids: string[];
+    category_ids: string[];
+    starts_at: string | null;
+    expires_at: string | null;
+    is_public: boolean;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface BuyXGetYConfig {
+    buyQuantity: number;
+    getQuantity: number;
+    percentOff: number;            // 100 = free
+}
+
+export interface TieredConfig {
+    tiers: { minSpend: number; percentOff: number }[];
+}
+
+export interface Promotion {
+    id: string;
+    user_id: string;
+    name: string;
+    description: string | null;
+    promo_type: PromotionType;
+    config: BuyXGetYConfig | TieredConfig;
+    product_ids: string[];
+    category_ids: string[];
+    starts_at: string | null;
+    expires_at: string | null;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface PricingItem {
+    id: string;
+    product_id: string | null;
+    category_id: string | null;
+    quantity: number;
+    unit_price: number;
+}
+
+export interface DiscountLine {
+    source: 'promotion' | 'code';
+    id: string;
+    label: string;
+    amount: number;
+    freeShipping?: boolean;
+}
+
+export interface CartPricing {
+    subtotal: number;
+    discount: number;
+    total: number;
+    freeShipping: boolean;
+    lines: DiscountLine[];
+}
+
+export interface OrderPricingResult {
+    pricing: CartPricing;
+    code: string | null;           // The code that ended up applied
+    codeError: string | null;      // Why a requested code wasn't applied
+}
+
+// ============================================================================
+// VALIDATION (API input)
+// ============================================================================
+
+function toIdArray(raw: unknown): string[] {
+    return Array.isArray(raw) ? raw.filter((v): v is string => typeof v === 'string' && v.length > 0) : [];
+}
+
+function toNumberOrNull(raw: unknown): number | null {
+    if (raw === null || raw === undefined || raw === '') return null;
+    const value = Number(raw);
+    return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Turn a request body into discount_codes columns. Returns an error message instead when invalid.
+ * With an existing code only the fields present in the body are returned (PATCH); type and value
+ * are still checked together, against the stored ones when the body leaves one out.
+ */
+export function normalizeDiscountCodeInput(
+    body: Record<string, unknown>,
+    existing?: Pick<DiscountCode, 'discount_type' | 'value'>
+): { values: Record<string, unknown> } | { error: string } {
+    const values: Record<string, unknown> = {};
+    const partial = existing !== undefined;
+    const has = (key: string) => body[key] !== undefined;
+
+    if (!partial || has('code')) {
+        const code = typeof body.code === 'string' ? body.code.trim().toUpperCase() : '';
+        if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+            return { error: 'Code must be 3-32 letters, numbers, dashes or underscores' };
+        }
+        values.code = code;
+    }
+
+    if (!partial || has('discountType')) {
+        if (!DISCOUNT_TYPES.includes(body.discountType as DiscountType)) {
+            return { error: 'Invalid discount type' };
+        }
+        values.discount_type = body.discountType;
+    }
+
+    if (!partial || has('discountType') || has('value')) {
+        const type = (values.discount_type ?? existing?.discount_type) as DiscountType;
+        const value = has('value') || !existing ? toNumberOrNull(body.value) ?? 0 : Number(existing.value);
+        if (value < 0 || (type === 'percentage' && value > 100)) {
+            return { error: 'Percentage must be between 0 and 100' };
+        }
+        if (type !== 'free_shipping' && value <= 0) {
+            return { error: 'Discount value is required' };
+        }
+        if (has('value') || !partial) values.value = value;
+    }
+
+    if (has('description')) values.description = body.description || null;
+    if (has('maxDiscount')) values.max_discount = toNumberOrNull(body.maxDiscount);
+    if (!partial || has('minSpend')) values.min_spend = Math.max(toNumberOrNull(body.minSpend) ?? 0, 0);
+    if (has('usageLimit')) values.usage_limit = toNumberOrNull(body.usageLimit);
+    if (has('perCustomerLimit')) values.per_customer_limit = toNumberOrNull(body.perCustomerLimit);
+    if (!partial || has('productIds')) values.product_ids = toIdArray(body.productIds);
+    if (!partial || has('categoryIds')) values.category_ids = toIdArray(body.categoryIds);
+    if (has('startsAt')) values.starts_at = body.startsAt || null;
+    if (has('expiresAt')) values.expires_at = body.expiresAt || null;
+    if (has('isPublic')) values.is_public = !!body.isPublic;
+    if (has('isActive')) values.is_active = !!body.isActive;
+
+    return { values };
+}
+
+/**
+ * Keep only the config keys a promotion type understands
+ */
+export function normalizePromotionConfig(type: PromotionType, raw: unknown): BuyXGetYConfig | TieredConfig | null {
+    const config = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+    if (type === 'buy_x_get_y') {
+        const buyQuantity = Math.floor(Number(config.buyQuantity));
+        const getQuantity = Math.floor(Number(config.getQuantity));
+        const percentOff = Number(config.percentOff ?? 100);
+        if (!(buyQuantity >= 1) || !(getQuantity >= 1) || !(percentOff > 0 && percentOff <= 100)) return null;
+        return { buyQuantity, getQuantity, percentOff };
+    }
+
+    const tiers = (Array.isArray(config.tiers) ? config.tiers : [])
+        .map(t => ({ minSpend: Number(t?.minSpend), percentOff: Number(t?.percentOff) }))
+        .filter(t => t.minSpend > 0 && t.percentOff > 0 && t.percentOff <= 100)
+        .sort((a, b) => a.minSpend - b.minSpend);
+    return tiers.length > 0 ? { tiers } : null;
+}
+
+/**
+ * Turn a request body into promotions columns. Returns an error message instead when invalid.
+ * With partial = true only the fields present in the body are returned (PATCH).
+ */
+export function normalizePromotionInput(body: Record<string, unknown>, partial = false): { values: Record<string, unknown> } | { error: string } {
+    const values: Record<string, unknown> = {};
+    const has = (key: string) => body[key] !== undefined;
+
+    if (!partial || has('name')) {
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+        if (!name) return { error: 'Name is required' };
+        values.name = name;
+    }
+
+    if (!partial || has('promoType') || has('config')) {
+        if (!PROMOTION_TYPES.includes(body.promoType as PromotionType)) {
+            return { error: 'Invalid promotion type' };
+        }
+        const config = normalizePromotionConfig(body.promoType as PromotionType, body.config);
+        if (!config) {
+            return {
+                error: body.promoType === 'buy_x_get_y'
+                    ? 'Buy and get quantities must be at least 1 and the discount between 1 and 100%'
+                    : 'Add at least one tier with a minimum spend and a discount between 1 and 100%',
+            };
+        }
+        values.promo_type = body.promoType;
+        values.config = config;
+    }
+
+    if (has('description')) values.description = body.description || null;
+    if (!partial || has('productIds')) values.product_ids = toIdArray(body.productIds);
+    if (!partial || has('categoryIds')) values.category_ids = toIdArray(body.categoryIds);
+    if (has('startsAt')) values.starts_at = body.startsAt || null;
+    if (has('expiresAt')) values.expires_at = body.expiresAt || null;
+    if (has('isActive')) values.is_active = !!body.isActive;
+
+    return { values };
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function isLive(row: { is_active: boolean; starts_at: string | null; expires_at: string | null }, now: Date): boolean {
+    if (!row.is_active) return false;
+    if (row.starts_at && new Date(row.starts_at) > now) return false;
+    if (row.expires_at && new Date(row.expires_at) <= now) return false;
+    return true;
+}
+
+function inScope(item: PricingItem, scope: { product_ids: string[]; category_ids: string[] }): boolean {
+    if (scope.product_ids.length === 0 && scope.category_ids.length === 0) return true;
+    return (!!item.product_id && scope.product_ids.includes(item.product_id))
+        || (!!item.category_id && scope.category_ids.includes(item.category_id));
+}
+
+function itemsTotal(items: PricingItem[]): number {
+    return items.reduce((sum, item) => sum + item.unit_price * item.quantity, 0);
+}
+
+function promotionDiscount(promotion: Promotion, eligible: PricingItem[]): number {
+    if (promotion.promo_type === 'buy_x_get_y') {
+        const config = promotion.config as BuyXGetYConfig;
+        // Cheapest units are the "get" units: of every (buy + get) units, the `get` cheapest are discounted
+        const unitPrices = eligible
+            .flatMap(item => Array(item.quantity).fill(item.unit_price) as number[])
+            .sort((a, b) => a - b);
+        const discountedUnits = Math.floor(unitPrices.length / (config.buyQuantity + config.getQuantity)) * config.getQuantity;
+        return unitPrices.slice(0, discountedUnits).reduce((sum, price) => sum + price * config.percentOff / 100, 0);
+    }
+
+    const config = promotion.config as TieredConfig;
+    const spend = itemsTotal(eligible);
+    const tier = [...(config.tiers || [])].reverse().find(t => spend >= t.minSpend);
+    return tier ? spend * tier.percentOff / 100 : 0;
+}
+
+/**
+ * Why a code can't be used on this cart (limits that need the database are checked separately)
+ */
+export function checkDiscountCode(code: DiscountCode, items: PricingItem[], now: Date = new Date()): string | null {
+    if (!code.is_active) return 'This code is no longer active';
+    if (code.starts_at && new Date(code.starts_at) > now) return 'This code is not active yet';
+    if (code.expires_at && new Date(code.expires_at) <= now) return 'This code has expired';
+    if (code.usage_limit !== null && code.times_used >= code.usage_limit) return 'This code has reached its usage limit';
+
+    const eligible = items.filter(item => inScope(item, code));
+    if (eligible.length === 0) return 'This code does not apply to the items in your cart';
+
+    const spend = itemsTotal(eligible);
+    if (spend < Number(code.min_spend || 0)) {
+        return `Spend at least ₱${Number(code.min_spend).toLocaleString()} on eligible items to use this code`;
+    }
+
+    return null;
+}
+
+/**
+ * Apply live automatic promotions, then the (already validated) code
+ */
+export function calculateCartPricing(
+    items: PricingItem[],
+    promotions: Promotion[],
+    code: DiscountCode | null,
+    now: Date = new Date()
+): CartPricing {
+    const subtotal = round2(itemsTotal(items));
+    const lines: DiscountLine[] = [];
+
+    for (const promotion of promotions) {
+        if (!isLive(promotion, now)) continue;
+        const amount = round2(promotionDiscount(promotion, items.filter(item => inScope(item, promotion))));
+        if (amount > 0) {
+            lines.push({ source: 'promotion', id: promotion.id, label: promotion.name, amount });
+        }
+    }
+
+    const promotionTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    let freeShipping = false;
+
+    if (code) {
+        const eligible = items.filter(item => inScope(item, code));
+        // Codes work on what's left after automatic promotions (never below zero)
+        const base = Math.max(Math.min(itemsTotal(eligible), subtotal - promotionTotal), 0);
+        let amount = 0;
+
+        if (code.discount_type === 'percentage') {
+            amount = base * Number(code.value) / 100;
+            if (code.max_discount !== null) amount = Math.min(amount, Number(code.max_discount));
+        } else if (code.discount_type === 'fixed') {
+            amount = Math.min(Number(code.value), base);
+        } else {
+            freeShipping = true;
+        }
+
+        lines.push({
+            source: 'code',
+            id: code.id,
+            label: code.code,
+            amount: round2(amount),
+            ...(freeShipping ? { freeShipping: true } : {}),
+        });
+    }
+
+    const discount = round2(Math.min(lines.reduce((sum, line) => sum + line.amount, 0), subtotal));
+
+    return {
+        subtotal,
+        discount,
+        total: round2(subtotal - discount),
+        freeShipping,
+        lines,
+    };
+}
+
+// ============================================================================
+// DATABASE
+// ============================================================================
+
+async function getLivePromotions(userId: string): Promise<Promotion[]> {
+    const { data, error } = await supabaseAdmin
+        .from('promotions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true);
+
+    if (error) {
+        console.error('[Promotions] Error fetching promotions:', error);
+        return [];
+    }
+
+    const now = new Date();
+    return (data || []).filter(p => isLive(p, now)) as Promotion[];
+}
+
+/**
+ * Look up a tenant's code (case-insensitive)
+ */
+export async function findDiscountCode(userId: string, code: string): Promise<DiscountCode | null> {
+    const { data, error } = await supabaseAdmin
+        .from('discount_codes')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('code', code.trim().toUpperCase())
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Promotions] Error fetching discount code:', error);
+        return null;
+    }
+
+    return data as DiscountCode | null;
+}
+
+async function customerHasUsedUp(code: DiscountCode, leadId: string | null): Promise<boolean> {
+    if (code.per_customer_limit === null || !leadId) return false;
+
+    const { count } = await supabaseAdmin
+        .from('discount_redemptions')
+        .select('id', { count: 'exact', head: true })
+        .eq('discount_code_id', code.id)
+        .eq('lead_id', leadId);
+
+    return (count || 0) >= code.per_customer_limit;
+}
+
+async function getPricingItems(orderId: string): Promise<PricingItem[]> {
+    const { data, error } = await supabaseAdmin
+        .from('order_items')
+        .select('id, product_id, quantity, unit_price, products(category_id)')
+        .eq('order_id', orderId);
+
+    if (error) {
+        console.error('[Promotions] Error fetching order items:', error);
+        return [];
+    }
+
+    return (data || []).map(item => {
+        const product = Array.isArray(item.products) ? item.products[0] : item.products;
+        return {
+            id: item.id,
+            product_id: item.product_id,
+            category_id: (product as { category_id: string | null } | null)?.category_id || null,
+            quantity: item.quantity,
+            unit_price: Number(item.unit_price) || 0,
+        };
+    });
+}
+
+/**
+ * Re-price an order and save the result on it.
+ * code: undefined keeps the order's current code, null removes it, a string applies that code.
+ */
+export async function priceOrder(orderId: string, code?: string | null): Promise<OrderPricingResult | null> {
+    const { data: order, error } = await supabaseAdmin
+        .from('orders')
+        .select('id, user_id, lead_id, discount_code')
+        .eq('id', orderId)
+        .single();
+
+    if (error || !order) {
+        console.error('[Promotions] Error fetching order for pricing:', error);
+        return null;
+    }
+
+    const [items, promotions] = await Promise.all([
+        getPricingItems(orderId),
+        order.user_id ? getLivePromotions(order.user_id) : Promise.resolve([]),
+    ]);
+
+    const requestedCode = code === undefined ? order.discount_code : code;
+    let appliedCode: DiscountCode | null = null;
+    let codeError: string | null = null;
+
+    if (requestedCode && order.user_id) {
+        const found = await findDiscountCode(order.user_id, requestedCode);
+        if (!found) {
+            codeError = 'That code is not valid';
+        } else {
+            codeError = checkDiscountCode(found, items);
+            if (!codeError && await customerHasUsedUp(found, order.lead_id)) {
+                codeError = 'You have already used this code';
+            }
+            if (!codeError) appliedCode = found;
+        }
+    }
+
+    const pricing = calculateCartPricing(items, promotions, appliedCode);
+
+    const { error: updateError } = await supabaseAdmin
+        .from('orders')
+        .update({
+            subtotal_amount: pricing.subtotal,
+            discount_amount: pricing.discount,
+            total_amount: pricing.total,
+            discount_code: appliedCode?.code || null,
+            discount_breakdown: pricing.lines,
+        })
+        .eq('id', orderId);
+
+    if (updateError) {
+        console.error('[Promotions] Error saving order pricing:', updateError);
+    }
+
+    return { pricing, code: appliedCode?.code || null, codeError };
+}
+
+/**
+ * Count the order's code use at checkout. False when the code ran out in the meantime.
+ */
+export async function redeemOrderDiscount(orderId: string): Promise<boolean> {
+    const { data: order } = await supabaseAdmin
+        .from('orders')
+        .select('id, user_id, lead_id, discount_code, discount_breakdown')
+        .eq('id', orderId)
+        .single();
+
+    if (!order?.discount_code || !order.user_id) return true;
+
+    const code = await findDiscountCode(order.user_id, order.discount_code);
+    if (!code) return false;
+
+    const line = ((order.discount_breakdown || []) as DiscountLine[]).find(l => l.source === 'code');
+    const { data, error } = await supabaseAdmin.rpc('redeem_discount_code', {
+        p_code_id: code.id,
+        p_order_id: orderId,
+        p_lead_id: order.lead_id,
+        p_amount: line?.amount || 0,
+    });
+
+    if (error) {
+        console.error('[Promotions] Error redeeming discount code:', error);
+        return false;
+    }
+
+    return data === true;
+}
+
+/**
+ * Give a cancelled order's code use back
+ */
+export async function releaseOrderDiscount(orderId: string): Promise<void> {
+    const { error } = await supabaseAdmin.rpc('release_discount_redemption', { p_order_id: orderId });
+    if (error) {
+        console.error('[Promotions] Error releasing discount redemption:', error);
+    }
+}
+
+// ============================================================================
+// AI CONTEXT
+// ============================================================================
+
+function describePromotion(promotion: Promotion): string {
+    if (promotion.promo_type === 'buy_x_get_y') {
+        const config = promotion.config as BuyXGetYConfig;
+        const reward = config.percentOff >= 100 ? 'free' : `${config.percentOff}% off`;
+        return `Buy ${config.buyQuantity}, get ${config.getQuantity} ${reward}`;
+    }
+    const config = promotion.config as TieredConfig;
+    return (config.tiers || [])
+        .map(t => `${t.percentOff}% off when spending ₱${t.minSpend.toLocaleString('en-PH')}+`)
+        .join(', ');
+}
+
+function describeCode(code: DiscountCode): string {
+    const value = code.discount_type === 'percentage'
+        ? `${Number(code.value)}% off`
+        : code.discount_type === 'fixed'
+            ? `₱${Number(code.value).toLocaleString('en-PH')} off`
+            : 'free shipping';
+    const minSpend = Number(code.min_spend) > 0 ? ` (min. spend ₱${Number(code.min_spend).toLocaleString('en-PH')})` : '';
+    return `Code ${code.code}: ${value}${minSpend}`;
+}
+
+/**
+ * Active promotions and public codes as catalog text so the bot can mention them
+ */
+export async function getPromotionContext(userId?: string): Promise<string> {
+    if (!userId) return '';
+
+    try {
+        const now = new Date();
+        const [promotions, { data: codes }] = await Promise.all([
+            getLivePromotions(userId),
+            supabaseAdmin
+                .from('discount_codes')
+                .select('*')
+                .eq('user_id', userId)
+                .eq('is_active', true)
+                .eq('is_public', true),
+        ]);
+
+        const liveCodes = ((codes || []) as DiscountCode[]).filter(code =>
+            isLive(code, now) && (code.usage_limit === null || code.times_used < code.usage_limit)
+        );
+
+        if (promotions.length === 0 && liveCodes.length === 0) return '';
+
+        let context = 'ACTIVE PROMOS:\n';
+        context += 'NOTE: Promotions apply automatically at checkout; codes are entered on the checkout page.\n';
+
+        for (const promotion of promotions) {
+            const scoped = promotion.product_ids.length > 0 || promotion.category_ids.length > 0;
+            context += `\n- ${promotion.name}: ${describePromotion(promotion)}${scoped ? ' (selected items only)' : ''}`;
+            if (promotion.expires_at) context += ` - until ${new Date(promotion.expires_at).toLocaleDateString('en-PH')}`;
+        }
+
+        for (const code of liveCodes) {
+            const scoped = code.product_ids.length > 0 || code.category_ids.length > 0;
+            context += `\n- ${describeCode(code)}${scoped ? ' (selected items only)' : ''}`;
+            if (code.expires_at) context += ` - until ${new Date(code.expires_at).toLocaleDateString('en-PH')}`;
+        }
+
+        return context;
+    } catch (error) {
+        console.error('[Promotions] Error building promo context:', error);
+        return '';
+    }
+}
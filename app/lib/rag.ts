@@ -2,35 +2,111 @@ import { supabase } from './supabase';
 import { supabaseAdmin } from './supabaseAdmin';
 import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
 import { semanticChunk, shouldUseSemanticChunking } from './semanticChunker';
+import { embedText } from './aiProviderService';
+import { EMBEDDING_DIMENSIONS } from './aiProviderRegistry';
+import { logRetrieval } from './retrievalAnalyticsService';
 
-const NVIDIA_API_KEY = process.env.NVIDIA_API_KEY;
-const EMBEDDING_MODEL = 'nvidia/nv-embedqa-e5-v5';
-const EXPECTED_EMBEDDING_DIMENSIONS = 1024;
-
-async function getEmbedding(text: string, inputType: 'query' | 'passage'): Promise<number[]> {
-    const response = await fetch('https://integrate.api.nvidia.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${NVIDIA_API_KEY}`,
-        },
-        body: JSON.stringify({
-            model: EMBEDDING_MODEL,
-            input: [text],
-            input_type: inputType,
-            encoding_format: 'float',
-            truncate: 'END',
-        }),
+// ==================== HYBRID RETRIEVAL ====================
+
+/** Candidates fetched per requested document, so the re-ranker has something to choose from */
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+
+/** Chunks nobody has re-verified for this long rank below equally relevant fresher ones */
+const REVERIFY_AFTER_DAYS = 180;
+const UNVERIFIED_TRUST_PENALTY = 0.85;
+
+interface HybridSearchRow {
+    id: number;
+    content: string;
+    metadata: Record<string, unknown> | null;
+    similarity: number | null;
+    semantic_rank: number | null;
+    keyword_rank: number | null;
+    rrf_score: number;
+    confidence_score?: number | null;
+    verified_at?: string | null;
+    expires_at?: string | null;
+}
+
+/**
+ * Trust multiplier for a chunk's relevance score: 0.5-1.0 from its confidence score,
+ * lowered again when it hasn't been verified for REVERIFY_AFTER_DAYS. Expired chunks
+ * never reach this point - hybrid_search_documents leaves them out.
+ */
+function documentTrust(row: HybridSearchRow): number {
+    const confidence = Math.min(1, Math.max(0, row.confidence_score ?? 1));
+    let trust = 0.5 + 0.5 * confidence;
+    if (row.verified_at && Date.now() - new Date(row.verified_at).getTime() > REVERIFY_AFTER_DAYS * 24 * 3600000) {
+        trust *= UNVERIFIED_TRUST_PENALTY;
+    }
+    return trust;
+}
+
+/**
+ * Scale re-ranked relevance by each candidate's trust and keep the best `limit`
+ */
+function applyDocumentTrust(ranked: RankedDocument[], candidates: StoredDocument[], limit: number): RankedDocument[] {
+    const trustById = new Map(candidates.map(doc => [doc.id, doc.trust ?? 1]));
+    return ranked
+        .map(doc => ({ ...doc, relevanceScore: doc.relevanceScore * (trustById.get(doc.id) ?? 1) }))
+        .sort((a, b) => b.relevanceScore - a.relevanceScore)
+        .slice(0, limit);
+}
+
+/**
+ * Hybrid retrieval over the whole knowledge base of a tenant: nearest neighbours on the
+ * embedding plus a full-text match, fused with reciprocal rank fusion in Postgres
+ * (hybrid_search_documents). Results come back in fused order, ready for re-ranking.
+ * Falls back to semantic-only match_documents if the hybrid RPC is unavailable.
+ */
+async function hybridSearchDocuments(
+    query: string,
+    queryEmbedding: number[],
+    options: { userId?: string; matchCount: number; semanticThreshold: number }
+): Promise<StoredDocument[]> {
+    const { userId, matchCount, semanticThreshold } = options;
+    const dbClient = userId ? supabaseAdmin : supabase;
+
+    const { data, error } = await dbClient.rpc('hybrid_search_documents', {
+        query_embedding: queryEmbedding,
+        query_text: query,
+        filter_user_id: userId || null,
+        match_count: matchCount,
+        semantic_threshold: semanticThreshold,
     });
 
-    if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Embedding error:', errorText);
-        throw new Error(`Embedding API error: ${response.status} ${errorText}`);
+    if (!error && data) {
+        return (data as HybridSearchRow[]).map(row => ({
+            id: row.id,
+            content: row.content,
+            metadata: row.metadata || {},
+            similarity: row.similarity ?? undefined,
+            source: row.semantic_rank && row.keyword_rank ? 'hybrid' : row.keyword_rank ? 'keyword' : 'semantic',
+            trust: documentTrust(row),
+        }));
     }
 
-    const data = await response.json();
-    return data.data[0].embedding;
+    console.error('[RAG] Hybrid search error, falling back to semantic search:', error);
+
+    const { data: matchedDocs, error: matchError } = await dbClient.rpc('match_documents', {
+        query_embedding: queryEmbedding,
+        match_threshold: semanticThreshold,
+        match_count: matchCount,
+        filter_user_id: userId || null,
+    });
+
+    if (matchError || !matchedDocs) {
+        console.error('[RAG] Semantic search error:', matchError);
+        return [];
+    }
+
+    return (matchedDocs as HybridSearchRow[]).map(doc => ({
+        id: doc.id,
+        content: doc.content,
+        metadata: doc.metadata || {},
+        similarity: doc.similarity ?? undefined,
+        source: 'semantic',
+    }));
 }
 
 // ==================== UNIFIED SEARCH ====================
@@ -41,6 +117,7 @@ export interface UnifiedSearchResult {
     content: string;
     similarity: number;
     metadata: Record<string, unknown>;
+    documentId?: number;  // documents.id (tenant search only)
     // Media-specific fields (null for documents)
     mediaId?: string;
     mediaUrl?: string;
@@ -70,6 +147,8 @@ export interface UnifiedSearchOptions {
     documentThreshold?: number;
     mediaThreshold?: number;
     userId?: string;  // Filter results to specific user
+    senderId?: string;  // Logged with the query for retrieval analytics
+    humanAttention?: { fired: boolean; triggerType: string | null };  // detectNeedsHumanAttention outcome for this message
 }
 
 /**
@@ -91,93 +170,58 @@ export async function searchAllSources(
         documentThreshold = 0.35,
         mediaThreshold = 0.45,
         userId,
+        senderId,
+        humanAttention,
     } = options;
 
     try {
         console.log(`[RAG] Unified search for: "${query.substring(0, 50)}..." userId: ${userId || 'none'}`);
 
-        // If userId is provided, use user-filtered search
+        // If userId is provided, search the tenant's whole knowledge base server-side
         if (userId) {
-            // Direct query with user filter for documents
-            const queryEmbedding = await getEmbedding(query, 'query');
-
-            // Search documents filtered by user_id
-            const { data: userDocs, error: docError } = await supabaseAdmin
-                .from('documents')
-                .select('id, content, metadata, embedding')
-                .eq('user_id', userId)
-                .limit(documentLimit);  // Fetch exact limit to reduce JS work
+            const queryEmbedding = await embedText(query, 'query', userId);
 
-            if (docError) {
-                console.error('[RAG] User document search error:', docError);
-            }
+            const candidates = await hybridSearchDocuments(query, queryEmbedding, {
+                userId,
+                matchCount: documentLimit * HYBRID_CANDIDATE_MULTIPLIER,
+                semanticThreshold: documentThreshold,
+            });
 
-            // Calculate similarity scores for user's documents
-            let documentResults: UnifiedSearchResult[] = [];
-            const EPSILON = 1e-10; // Guard against division by zero
-
-            // Track mismatched embeddings for diagnostics
-            let mismatchedCount = 0;
-
-            if (userDocs && userDocs.length > 0) {
-                documentResults = userDocs
-                    .map(doc => {
-                        // Calculate cosine similarity if embedding exists
-                        let similarity = 0.5; // Default
-                        if (doc.embedding && queryEmbedding) {
-                            // Skip if embedding lengths mismatch (corrupted data)
-                            if (doc.embedding.length !== queryEmbedding.length) {
-                                mismatchedCount++;
-                                // Only log first few to avoid spam
-                                if (mismatchedCount <= 3) {
-                                    console.warn(`[RAG] Embedding mismatch doc=${doc.id}: ${doc.embedding.length} dims (expected ${EXPECTED_EMBEDDING_DIMENSIONS}). Run: npx ts-node scripts/reembed-documents.ts --user-id ${userId}`);
-                                }
-                                return {
-                                    sourceType: 'document' as const,
-                                    content: doc.content,
-                                    similarity: 0, // Skip this document in filtering
-                                    metadata: doc.metadata || {},
-                                };
-                            }
-
-                            const dotProduct = queryEmbedding.reduce((sum, val, i) => sum + val * doc.embedding[i], 0);
-                            const magA = Math.sqrt(queryEmbedding.reduce((sum, val) => sum + val * val, 0));
-                            const magB = Math.sqrt(doc.embedding.reduce((sum: number, val: number) => sum + val * val, 0));
-
-                            // Guard against zero magnitude (corrupted all-zero embeddings)
-                            if (magA <= EPSILON || magB <= EPSILON) {
-                                similarity = 0;
-                            } else {
-                                similarity = dotProduct / (magA * magB);
-                            }
-                        }
-                        return {
-                            sourceType: 'document' as const,
-                            content: doc.content,
-                            similarity,
-                            metadata: doc.metadata || {},
-                        };
-                    })
-                    .filter(d => d.similarity >= documentThreshold)
-                    .sort((a, b) => b.similarity - a.similarity)
-                    .slice(0, documentLimit);
-            }
+            // Re-rank every candidate, then let confidence and freshness decide the cut
+            const ranked = applyDocumentTrust(
+                await rerankDocuments(query, candidates, undefined, userId),
+                candidates,
+                documentLimit
+            );
+
+            const documentResults: UnifiedSearchResult[] = ranked.map(doc => ({
+                sourceType: 'document' as const,
+                content: doc.content,
+                similarity: doc.similarity ?? 0, // Keyword-only matches have no vector similarity
+                metadata: doc.metadata || {},
+                documentId: doc.id,
+            }));
 
-            // Log summary of mismatched embeddings
-            if (mismatchedCount > 0) {
-                console.warn(`[RAG] ⚠️ ${mismatchedCount} documents have mismatched embeddings and were skipped. Run re-embed script to fix.`);
-            }
+            // Fire and forget - feeds knowledge gaps and document hit counts
+            logRetrieval({
+                userId,
+                senderId,
+                query,
+                queryEmbedding,
+                chunks: ranked.map(doc => ({ id: doc.id, similarity: doc.similarity })),
+                humanAttention,
+            });
 
             const documents = documentResults.map(d => d.content).join('\n\n');
 
-            console.log(`[RAG] User-filtered results: ${documentResults.length} docs for user ${userId}`);
+            console.log(`[RAG] User-filtered results: ${documentResults.length} docs from ${candidates.length} hybrid candidates for user ${userId}`);
 
             // TODO: Also filter media by user_id when media supports it
             return { documents, relevantMedia: [], allResults: documentResults };
         }
 
         // Generate query embedding once
-        const queryEmbedding = await getEmbedding(query, 'query');
+        const queryEmbedding = await embedText(query, 'query');
 
         // Call unified search RPC with user filtering
         const { data, error } = await supabase.rpc('search_all_sources', {
@@ -198,6 +242,7 @@ export async function searchAllSources(
 
         if (!data || data.length === 0) {
             console.log('[RAG] No unified results found');
+            logRetrieval({ senderId, query, queryEmbedding, chunks: [], humanAttention });
             return { documents: '', relevantMedia: [], allResults: [] };
         }
 
@@ -219,6 +264,14 @@ export async function searchAllSources(
         const documentResults = allResults.filter(r => r.sourceType === 'document');
         const mediaResults = allResults.filter(r => r.sourceType === 'media');
 
+        logRetrieval({
+            senderId,
+            query,
+            queryEmbedding,
+            chunks: documentResults.slice(0, documentLimit).map(d => ({ similarity: d.similarity })),
+            humanAttention,
+        });
+
         // Combine document content for RAG context
         const documents = documentResults
             .slice(0, documentLimit)
@@ -262,6 +315,8 @@ export interface DocumentMetadata {
     confidenceScore?: number; // 0.0 - 1.0
     verifiedAt?: string;      // ISO date string
     expiresAt?: string;       // ISO date string
+    sourceFileId?: string;    // document_sources row the content came from
+    preChunked?: boolean;     // Content is already one chunk (e.g. table rows) - store it whole
     [key: string]: unknown;   // Allow additional custom fields
 }
 
@@ -269,13 +324,16 @@ export interface DocumentMetadata {
 
 export async function addDocument(content: string, metadata: DocumentMetadata = {}) {
     try {
-        const { categoryId, userId, sourceType, confidenceScore, verifiedAt, expiresAt, ...restMetadata } = metadata;
+        const { categoryId, userId, sourceType, confidenceScore, verifiedAt, expiresAt, sourceFileId, preChunked, ...restMetadata } = metadata;
 
         let chunks: string[];
         let chunkingMethod: string;
 
-        // Try semantic chunking first if text has structure
-        if (shouldUseSemanticChunking(content)) {
+        if (preChunked) {
+            chunks = [content];
+            chunkingMethod = 'source';
+        } else if (shouldUseSemanticChunking(content)) {
+            // Try semantic chunking first if text has structure
             chunks = semanticChunk(content, {
                 maxChunkSize: 1500,
                 overlapSentences: 2,
@@ -298,11 +356,11 @@ export async function addDocument(content: string, metadata: DocumentMetadata =
         console.log(`[RAG] Adding document with ${chunks.length} chunks (${chunkingMethod})`);
 
         for (const chunkContent of chunks) {
-            const embedding = await getEmbedding(chunkContent, 'passage');
+            const embedding = await embedText(chunkContent, 'passage', userId);
 
             // Validate embedding dimensions before storing
-            if (embedding.length !== EXPECTED_EMBEDDING_DIMENSIONS) {
-                console.error(`[RAG] ❌ Embedding dimension mismatch! Got ${embedding.length}, expected ${EXPECTED_EMBEDDING_DIMENSIONS}. Skipping chunk.`);
+            if (embedding.length !== EMBEDDING_DIMENSIONS) {
+                console.error(`[RAG] ❌ Embedding dimension mismatch! Got ${embedding.length}, expected ${EMBEDDING_DIMENSIONS}. Skipping chunk.`);
                 continue;
             }
 
@@ -320,6 +378,7 @@ export async function addDocument(content: string, metadata: DocumentMetadata =
             if (confidenceScore !== undefined) insertData.confidence_score = confidenceScore;
             if (verifiedAt) insertData.verified_at = verifiedAt;
             if (expiresAt) insertData.expires_at = expiresAt;
+            if (sourceFileId) insertData.source_file_id = sourceFileId;
 
             // Use supabaseAdmin when userId is explicitly provided (server-side context)
             // This bypasses RLS since the service role is being used
@@ -371,6 +430,7 @@ interface StoredDocument {
     embedding?: number[];
     source?: string;
     similarity?: number;
+    trust?: number;   // documentTrust multiplier (hybrid search results only)
 }
 
 // Configuration for hybrid search weighting
@@ -412,27 +472,17 @@ export async function searchDocuments(
     try {
         console.log(`[RAG] Searching for: "${query}" (threshold: ${cfg.similarityThreshold}, userId: ${userId || 'none'})`);
 
-        // STRATEGY 1: Semantic search with embedding
+        // STRATEGY 1: Hybrid semantic + full-text search over the whole knowledge base
         let semanticDocs: StoredDocument[] = [];
         try {
-            const queryEmbedding = await getEmbedding(query, 'query');
-
-            // Pass filter_user_id for multi-tenant isolation
-            const { data: matchedDocs, error: matchError } = await supabase.rpc('match_documents', {
-                query_embedding: queryEmbedding,
-                match_threshold: cfg.similarityThreshold,
-                match_count: limit * 2, // Get more candidates for re-ranking
-                filter_user_id: userId || null, // Filter by user for multi-tenancy
-            });
+            const queryEmbedding = await embedText(query, 'query', userId);
 
-            if (!matchError && matchedDocs) {
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                semanticDocs = (matchedDocs as any[]).map(doc => ({
-                    ...doc,
-                    source: 'semantic',
-                    similarity: doc.similarity || 0,
-                }));
-            }
+            // Pass userId for multi-tenant isolation
+            semanticDocs = await hybridSearchDocuments(query, queryEmbedding, {
+                userId,
+                matchCount: limit * HYBRID_CANDIDATE_MULTIPLIER, // Get more candidates for re-ranking
+                semanticThreshold: cfg.similarityThreshold,
+            });
         } catch (embError) {
             console.error('Embedding search failed:', embError);
         }
@@ -529,7 +579,8 @@ export async function searchDocuments(
                 const reranked = await rerankDocuments(
                     query,
                     allDocs as RerankStoredDocument[],
-                    limit
+                    limit,
+                    userId
                 );
                 finalDocs = reranked;
                 console.log(`[RAG] Re-ranked ${reranked.length} documents`);
@@ -3,30 +3,15 @@
  * 
  * Tracks API usage metrics and implements proactive throttling.
  * Features:
- * - Per-minute request counting
+ * - Per-minute request counters in rate_limit_metrics, incremented atomically by every
+ *   instance (so all instances throttle on the same numbers)
+ * - Sliding-window request rate over the last 60 seconds
  * - Latency tracking
  * - Proactive throttling before hitting limits
  * - Dashboard-friendly metrics
  */
 
-import { supabase } from './supabase';
-
-// In-memory buffer for metrics (batched writes to reduce DB load)
-interface MetricBuffer {
-    provider: string;
-    windowStart: string;
-    requestCount: number;
-    successCount: number;
-    errorCount: number;
-    rateLimitCount: number;
-    totalLatencyMs: number;
-    minLatencyMs: number;
-    maxLatencyMs: number;
-}
-
-const metricBuffer: Map<string, MetricBuffer> = new Map();
-let lastFlush = Date.now();
-const FLUSH_INTERVAL_MS = 5000; // Flush every 5 seconds
+import { supabaseAdmin } from './supabaseAdmin';
 
 // Configurable thresholds
 interface ThrottleConfig {
@@ -41,7 +26,7 @@ const DEFAULT_CONFIG: ThrottleConfig = {
     criticalAtPercent: 90,
 };
 
-// Cache for recent metrics
+// Recent metrics (sliding 60-second window)
 interface RecentMetrics {
     requestsLastMinute: number;
     errorsLastMinute: number;
@@ -50,23 +35,15 @@ interface RecentMetrics {
     lastUpdated: number;
 }
 
-const metricsCache: Map<string, RecentMetrics> = new Map();
-const METRICS_CACHE_TTL_MS = 10000; // 10 seconds
+const WINDOW_MS = 60 * 1000;
 
 /**
- * Get the current minute window start timestamp
+ * Get the minute window start containing a timestamp
  */
-function getCurrentWindowStart(): string {
-    const now = new Date();
-    now.setSeconds(0, 0); // Round down to minute
-    return now.toISOString();
-}
-
-/**
- * Get buffer key for a provider and window
- */
-function getBufferKey(provider: string, windowStart: string): string {
-    return `${provider}:${windowStart}`;
+function getWindowStart(timestamp: number = Date.now()): string {
+    const date = new Date(timestamp);
+    date.setSeconds(0, 0); // Round down to minute
+    return date.toISOString();
 }
 
 /**
@@ -83,87 +60,17 @@ export async function trackRequest(
     isError: boolean = false,
     isRateLimit: boolean = false
 ): Promise<void> {
-    const windowStart = getCurrentWindowStart();
-    const bufferKey = getBufferKey(provider, windowStart);
-
-    // Get or create buffer entry
-    let buffer = metricBuffer.get(bufferKey);
-    if (!buffer) {
-        buffer = {
-            provider,
-            windowStart,
-            requestCount: 0,
-            successCount: 0,
-            errorCount: 0,
-            rateLimitCount: 0,
-            totalLatencyMs: 0,
-            minLatencyMs: latencyMs,
-            maxLatencyMs: latencyMs,
-        };
-        metricBuffer.set(bufferKey, buffer);
-    }
-
-    // Update buffer
-    buffer.requestCount++;
-    buffer.totalLatencyMs += latencyMs;
-    buffer.minLatencyMs = Math.min(buffer.minLatencyMs, latencyMs);
-    buffer.maxLatencyMs = Math.max(buffer.maxLatencyMs, latencyMs);
-
-    if (isRateLimit) {
-        buffer.rateLimitCount++;
-    } else if (isError) {
-        buffer.errorCount++;
-    } else {
-        buffer.successCount++;
-    }
-
-    // Invalidate cache on rate limit
-    if (isRateLimit) {
-        metricsCache.delete(provider);
-    }
-
-    // Flush if interval passed
-    const now = Date.now();
-    if (now - lastFlush > FLUSH_INTERVAL_MS) {
-        await flushMetrics();
-    }
-}
-
-/**
- * Flush buffered metrics to database
- */
-async function flushMetrics(): Promise<void> {
-    if (metricBuffer.size === 0) return;
-
-    const bufferCopy = new Map(metricBuffer);
-    metricBuffer.clear();
-    lastFlush = Date.now();
-
-    for (const [, buffer] of bufferCopy) {
-        try {
-            // Use the upsert function we created in the migration
-            await supabase.rpc('upsert_rate_metric', {
-                p_provider: buffer.provider,
-                p_window_start: buffer.windowStart,
-                p_latency_ms: Math.round(buffer.totalLatencyMs / buffer.requestCount),
-                p_is_error: buffer.errorCount > 0,
-                p_is_rate_limit: buffer.rateLimitCount > 0,
-            });
-        } catch (error) {
-            console.error('[RateLimitService] Error flushing metrics:', error);
-            // Put back in buffer for retry
-            const key = getBufferKey(buffer.provider, buffer.windowStart);
-            const existing = metricBuffer.get(key);
-            if (existing) {
-                existing.requestCount += buffer.requestCount;
-                existing.successCount += buffer.successCount;
-                existing.errorCount += buffer.errorCount;
-                existing.rateLimitCount += buffer.rateLimitCount;
-                existing.totalLatencyMs += buffer.totalLatencyMs;
-            } else {
-                metricBuffer.set(key, buffer);
-            }
-        }
+    // One atomic increment of the shared minute counter per request
+    const { error } = await supabaseAdmin.rpc('upsert_rate_metric', {
+        p_provider: provider,
+        p_window_start: getWindowStart(),
+        p_latency_ms: Math.round(latencyMs),
+        p_is_error: isError,
+        p_is_rate_limit: isRateLimit,
+    });
+
+    if (error) {
+        console.error('[RateLimitService] Error tracking request:', error);
     }
 }
 
@@ -230,65 +137,45 @@ export async function shouldThrottle(
 }
 
 /**
- * Get recent metrics for a provider (with caching)
+ * Get recent metrics for a provider over the sliding last minute.
+ * The previous minute's counters are weighted by how much of it still falls in the window.
  */
 export async function getRecentMetrics(provider: string = 'nvidia'): Promise<RecentMetrics> {
-    const cached = metricsCache.get(provider);
-    if (cached && Date.now() - cached.lastUpdated < METRICS_CACHE_TTL_MS) {
-        return cached;
-    }
-
     try {
-        // Get metrics from last 2 minutes (current + previous window)
-        const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000).toISOString();
+        const now = Date.now();
+        const currentWindow = getWindowStart(now);
+        const previousWindow = getWindowStart(now - WINDOW_MS);
 
-        const { data, error } = await supabase
+        const { data, error } = await supabaseAdmin
             .from('rate_limit_metrics')
-            .select('request_count, error_count, rate_limit_count, total_latency_ms')
+            .select('window_start, request_count, error_count, rate_limit_count, total_latency_ms')
             .eq('provider', provider)
-            .gte('window_start', twoMinutesAgo)
-            .order('window_start', { ascending: false })
-            .limit(2);
+            .in('window_start', [currentWindow, previousWindow]);
 
         if (error) {
             console.error('[RateLimitService] Error fetching metrics:', error);
             return getDefaultMetrics();
         }
 
-        const metrics: RecentMetrics = {
-            requestsLastMinute: 0,
-            errorsLastMinute: 0,
-            rateLimitsLastMinute: 0,
-            avgLatencyMs: 0,
-            lastUpdated: Date.now(),
-        };
-
-        if (data && data.length > 0) {
-            let totalLatency = 0;
-            let totalRequests = 0;
-
-            for (const row of data) {
-                metrics.requestsLastMinute += row.request_count || 0;
-                metrics.errorsLastMinute += row.error_count || 0;
-                metrics.rateLimitsLastMinute += row.rate_limit_count || 0;
-                totalLatency += row.total_latency_ms || 0;
-                totalRequests += row.request_count || 0;
-            }
+        const metrics = getDefaultMetrics();
+        const previousWeight = 1 - (now - new Date(currentWindow).getTime()) / WINDOW_MS;
+        let totalLatency = 0;
+        let totalRequests = 0;
 
-            metrics.avgLatencyMs = totalRequests > 0 ? Math.round(totalLatency / totalRequests) : 0;
+        for (const row of data || []) {
+            const weight = new Date(row.window_start).getTime() === new Date(currentWindow).getTime() ? 1 : previousWeight;
+            metrics.requestsLastMinute += (row.request_count || 0) * weight;
+            metrics.errorsLastMinute += (row.error_count || 0) * weight;
+            metrics.rateLimitsLastMinute += (row.rate_limit_count || 0) * weight;
+            totalLatency += row.total_latency_ms || 0;
+            totalRequests += row.request_count || 0;
         }
 
-        // Also add in-memory buffer data
-        const currentWindow = getCurrentWindowStart();
-        const bufferKey = getBufferKey(provider, currentWindow);
-        const buffer = metricBuffer.get(bufferKey);
-        if (buffer) {
-            metrics.requestsLastMinute += buffer.requestCount;
-            metrics.errorsLastMinute += buffer.errorCount;
-            metrics.rateLimitsLastMinute += buffer.rateLimitCount;
-        }
+        metrics.requestsLastMinute = Math.round(metrics.requestsLastMinute);
+        metrics.errorsLastMinute = Math.round(metrics.errorsLastMinute);
+        metrics.rateLimitsLastMinute = Math.round(metrics.rateLimitsLastMinute);
+        metrics.avgLatencyMs = totalRequests > 0 ? Math.round(totalLatency / totalRequests) : 0;
 
-        metricsCache.set(provider, metrics);
         return metrics;
     } catch (error) {
         console.error('[RateLimitService] Error in getRecentMetrics:', error);
@@ -324,7 +211,7 @@ export async function getDashboardMetrics(provider: string = 'nvidia'): Promise<
     // Get last hour of metrics
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
 
-    const { data } = await supabase
+    const { data } = await supabaseAdmin
         .from('rate_limit_metrics')
         .select('request_count, success_count, error_count, rate_limit_count, total_latency_ms')
         .eq('provider', provider)
@@ -357,10 +244,3 @@ export async function getDashboardMetrics(provider: string = 'nvidia'): Promise<
         },
     };
 }
-
-/**
- * Force flush metrics (call on graceful shutdown)
- */
-export async function forceFlush(): Promise<void> {
-    await flushMetrics();
-}
@@ -1,10 +1,4 @@
-import OpenAI from 'openai';
-
-// Initialize OpenAI client for NVIDIA Vision API
-const visionClient = new OpenAI({
-    baseURL: 'https://integrate.api.nvidia.com/v1',
-    apiKey: process.env.NVIDIA_API_KEY,
-});
+import { generateChatCompletion } from './aiProviderService';
 
 // Result type for receipt detection
 export interface ReceiptDetectionResult {
@@ -52,8 +46,9 @@ async function fetchImageAsBase64(imageUrl: string): Promise<{ base64: string; m
 
 /**
  * Analyzes an image URL to determine if it contains a receipt or payment proof
+ * Uses the vision providers of the tenant (userId) with failover
  */
-export async function analyzeImageForReceipt(imageUrl: string): Promise<ReceiptDetectionResult> {
+export async function analyzeImageForReceipt(imageUrl: string, userId?: string | null): Promise<ReceiptDetectionResult> {
     console.log('Analyzing image for receipt:', imageUrl.substring(0, 100) + '...');
 
     try {
@@ -66,9 +61,8 @@ export async function analyzeImageForReceipt(imageUrl: string): Promise<ReceiptD
 
         const { base64, mimeType } = imageData;
 
-        // Use NVIDIA's vision model to analyze the image
-        const completion = await visionClient.chat.completions.create({
-            model: "nvidia/llama-3.1-nemotron-nano-vl-8b-v1",
+        // Use a vision model to analyze the image
+        const { content: responseText } = await generateChatCompletion({
             messages: [
                 {
                     role: "user",
@@ -112,12 +106,11 @@ Be strict - only mark isReceipt as true if this clearly appears to be proof of p
                 }
             ],
             temperature: 0.2,
-            top_p: 0.7,
-            max_tokens: 500,
+            topP: 0.7,
+            maxTokens: 500,
             stream: false,
-        });
+        }, { userId, role: 'vision' });
 
-        const responseText = completion.choices[0]?.message?.content || '';
         console.log('Vision AI response:', responseText);
 
         // Parse the JSON response
@@ -2,10 +2,10 @@
  * Re-ranker Module
  * 
  * Scores retrieved documents by relevance before sending to LLM
- * Uses cross-encoder via NVIDIA API with fallback to keyword overlap scoring
+ * Uses a cross-encoder from the tenant's rerank providers with fallback to keyword overlap scoring
  */
 
-const NVIDIA_API_KEY = process.env.NVIDIA_API_KEY;
+import { rerankPassages } from './aiProviderService';
 
 export interface StoredDocument {
     id: number;
@@ -133,56 +133,27 @@ function fallbackRerank(query: string, documents: StoredDocument[]): RankedDocum
 }
 
 /**
- * Try to use NVIDIA's reranking API (cross-encoder)
+ * Try a cross-encoder from the rerank providers (aiProviderService)
  * Falls back to keyword-based ranking if unavailable
  */
 async function crossEncoderRerank(
     query: string,
-    documents: StoredDocument[]
+    documents: StoredDocument[],
+    userId?: string
 ): Promise<RankedDocument[] | null> {
-    if (!NVIDIA_API_KEY) {
-        console.log('[Reranker] No API key, using fallback');
-        return null;
-    }
-
     try {
-        // NVIDIA's reranking endpoint
-        const response = await fetch('https://integrate.api.nvidia.com/v1/ranking', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${NVIDIA_API_KEY}`,
-            },
-            body: JSON.stringify({
-                model: 'nvidia/nv-rerankqa-mistral-4b-v3',
-                query: { text: query },
-                passages: documents.map((doc, idx) => ({
-                    text: doc.content,
-                    id: idx.toString(),
-                })),
-            }),
-        });
-
-        if (!response.ok) {
-            console.log('[Reranker] API error, using fallback:', response.status);
+        const logits = await rerankPassages(query, documents.map(doc => doc.content), userId);
+        if (!logits) {
+            console.log('[Reranker] No rerank provider available, using fallback');
             return null;
         }
 
-        const data = await response.json();
-
         // Map rankings back to documents
-         
-        const rankings = data.rankings as Array<{ id: string; logit: number }>;
-
-        return rankings.map(rank => {
-            const docIndex = parseInt(rank.id);
-            const doc = documents[docIndex];
-            return {
-                ...doc,
-                relevanceScore: Math.max(0, Math.min(1, (rank.logit + 5) / 10)), // Normalize logit to 0-1
-                rankingMethod: 'cross-encoder' as const,
-            };
-        }).sort((a, b) => b.relevanceScore - a.relevanceScore);
+        return documents.map((doc, idx) => ({
+            ...doc,
+            relevanceScore: Math.max(0, Math.min(1, (logits[idx] + 5) / 10)), // Normalize logit to 0-1
+            rankingMethod: 'cross-encoder' as const,
+        })).sort((a, b) => b.relevanceScore - a.relevanceScore);
 
     } catch (error) {
         console.error('[Reranker] Cross-encoder error:', error);
@@ -196,12 +167,14 @@ async function crossEncoderRerank(
  * @param query - The search query
  * @param documents - Candidate documents from retrieval
  * @param topK - Number of top documents to return (default: all)
+ * @param userId - Tenant whose rerank providers to use (deployment default if omitted)
  * @returns Documents sorted by relevance score
  */
 export async function rerankDocuments(
     query: string,
     documents: StoredDocument[],
-    topK?: number
+    topK?: number,
+    userId?: string
 ): Promise<RankedDocument[]> {
     if (documents.length === 0) {
         return [];
@@ -210,7 +183,7 @@ export async function rerankDocuments(
     console.log(`[Reranker] Re-ranking ${documents.length} documents for query: "${query}"`);
 
     // Try cross-encoder first
-    let ranked = await crossEncoderRerank(query, documents);
+    let ranked = await crossEncoderRerank(query, documents, userId);
 
     // Fall back to keyword-based ranking
     if (!ranked) {
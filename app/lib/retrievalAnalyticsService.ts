@@ -0,0 +1,317 @@
+/**
+ * Retrieval Analytics Service
+ * Records what every knowledge base search found and turns it into things the owner can act on:
+ * - Knowledge gaps: low-confidence queries clustered by meaning, with FAQ drafts to fill them
+ * - Document usage: how often each chunk was handed to the bot, to prune stale or unused chunks
+ */
+
+import { supabaseAdmin } from './supabaseAdmin';
+import { generateFAQsFromText, GeneratedFAQ } from './faqGeneratorService';
+
+/** Below this top similarity the bot had no good match for the query */
+export const LOW_CONFIDENCE_SIMILARITY = 0.5;
+
+// Queries at least this similar (cosine) to a gap's centroid belong to that gap
+const GAP_CLUSTER_SIMILARITY = 0.8;
+const GAP_LOOKBACK_DAYS = 30;
+const MAX_GAP_LOGS = 500;
+const MAX_DRAFT_QUESTIONS = 20;
+const MAX_DRAFT_CHUNKS = 5;
+
+// Chunks younger than this haven't had a fair chance to be retrieved yet
+const NEVER_USED_GRACE_DAYS = 14;
+export const STALE_AFTER_DAYS = 60;
+
+export interface RetrievalLogEntry {
+    userId?: string;
+    senderId?: string;
+    query: string;
+    queryEmbedding?: number[];
+    chunks: { id?: number; similarity?: number }[];   // id is unknown on the legacy unified-search path
+    humanAttention?: { fired: boolean; triggerType: string | null };
+}
+
+export interface KnowledgeGap {
+    id: string;
+    question: string;                          // Most asked wording
+    questions: { query: string; count: number }[];
+    askCount: number;
+    needsHumanCount: number;
+    lastAskedAt: string;
+    logIds: string[];
+}
+
+export interface DocumentUsage {
+    id: number;
+    preview: string;
+    categoryId: string | null;
+    hitCount: number;
+    lastHitAt: string | null;
+    createdAt: string;
+    status: 'active' | 'stale' | 'never_used' | 'new';
+}
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+/**
+ * Log one search and count a hit for each chunk it returned.
+ * Never throws - analytics must not break a reply.
+ */
+export async function logRetrieval(entry: RetrievalLogEntry): Promise<void> {
+    try {
+        const similarities = entry.chunks
+            .map(chunk => chunk.similarity)
+            .filter((similarity): similarity is number => typeof similarity === 'number' && similarity > 0);
+        const topSimilarity = similarities.length > 0 ? Math.max(...similarities) : null;
+        const needsHuman = entry.humanAttention?.fired || false;
+        const chunkIds = entry.chunks
+            .map(chunk => chunk.id)
+            .filter((id): id is number => typeof id === 'number');
+
+        const { error } = await supabaseAdmin
+            .from('retrieval_logs')
+            .insert({
+                user_id: entry.userId || null,
+                sender_id: entry.senderId || null,
+                query: entry.query.substring(0, 2000),
+                query_embedding: entry.queryEmbedding || null,
+                top_similarity: topSimilarity,
+                result_count: entry.chunks.length,
+                chunk_ids: chunkIds,
+                low_confidence: needsHuman || topSimilarity === null || topSimilarity < LOW_CONFIDENCE_SIMILARITY,
+                needs_human_attention: needsHuman,
+                human_attention_trigger: needsHuman ? entry.humanAttention?.triggerType || null : null,
+            });
+
+        if (error) {
+            console.error('[RetrievalAnalytics] Error logging retrieval:', error);
+        }
+
+        if (chunkIds.length > 0) {
+            const { error: hitError } = await supabaseAdmin.rpc('record_document_hits', {
+                doc_ids: chunkIds,
+            });
+
+            if (hitError) {
+                console.error('[RetrievalAnalytics] Error recording document hits:', hitError);
+            }
+        }
+    } catch (error) {
+        console.error('[RetrievalAnalytics] Error logging retrieval:', error);
+    }
+}
+
+// ============================================================================
+// KNOWLEDGE GAPS
+// ============================================================================
+
+/** pgvector columns come back from PostgREST as "[0.1,0.2,...]" */
+function parseEmbedding(value: unknown): number[] | null {
+    if (Array.isArray(value)) return value as number[];
+    if (typeof value === 'string') {
+        try {
+            return JSON.parse(value) as number[];
+        } catch {
+            return null;
+        }
+    }
+    return null;
+}
+
+function normalizeVector(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+}
+
+function dot(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+function normalizeQuery(query: string): string {
+    return query.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Open knowledge gaps of a tenant: unresolved low-confidence queries from the last
+ * GAP_LOOKBACK_DAYS, clustered greedily by embedding similarity (newest first).
+ * Queries logged without an embedding are grouped by their normalized wording.
+ */
+export async function getKnowledgeGaps(userId: string): Promise<KnowledgeGap[]> {
+    const since = new Date(Date.now() - GAP_LOOKBACK_DAYS * 24 * 3600000).toISOString();
+
+    const { data, error } = await supabaseAdmin
+        .from('retrieval_logs')
+        .select('id, query, query_embedding, needs_human_attention, created_at')
+        .eq('user_id', userId)
+        .eq('low_confidence', true)
+        .is('resolved_at', null)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(MAX_GAP_LOGS);
+
+    if (error) {
+        console.error('[RetrievalAnalytics] Error fetching low-confidence queries:', error);
+        return [];
+    }
+
+    const clusters: {
+        sum: number[] | null;                  // Sum of member embeddings
+        centroid: number[] | null;             // Its unit vector
+        key: string;
+        logs: { id: string; query: string; needsHuman: boolean; createdAt: string }[];
+    }[] = [];
+
+    for (const log of data || []) {
+        const embedding = parseEmbedding(log.query_embedding);
+        const vector = embedding ? normalizeVector(embedding) : null;
+        const key = normalizeQuery(log.query);
+        const member = { id: log.id, query: log.query, needsHuman: log.needs_human_attention, createdAt: log.created_at };
+
+        const cluster = clusters.find(candidate => vector && candidate.centroid
+            ? dot(vector, candidate.centroid) >= GAP_CLUSTER_SIMILARITY
+            : candidate.key === key);
+
+        if (cluster) {
+            cluster.logs.push(member);
+            if (vector && cluster.sum) {
+                cluster.sum = cluster.sum.map((value, i) => value + vector[i]);
+                cluster.centroid = normalizeVector(cluster.sum);
+            }
+        } else {
+            clusters.push({ sum: vector, centroid: vector, key, logs: [member] });
+        }
+    }
+
+    return clusters
+        .map(cluster => {
+            const counts = new Map<string, { query: string; count: number }>();
+            for (const log of cluster.logs) {
+                const key = normalizeQuery(log.query);
+                const entry = counts.get(key) || { query: log.query, count: 0 };
+                entry.count++;
+                counts.set(key, entry);
+            }
+            const questions = Array.from(counts.values()).sort((a, b) => b.count - a.count);
+
+            return {
+                id: cluster.logs[0].id,
+                question: questions[0].query,
+                questions: questions.slice(0, 10),
+                askCount: cluster.logs.length,
+                needsHumanCount: cluster.logs.filter(log => log.needsHuman).length,
+                lastAskedAt: cluster.logs[0].createdAt,
+                logIds: cluster.logs.map(log => log.id),
+            };
+        })
+        .sort((a, b) => b.askCount - a.askCount || b.lastAskedAt.localeCompare(a.lastAskedAt));
+}
+
+/**
+ * Mark a gap's queries as handled (an FAQ was added, or the owner dismissed it)
+ */
+export async function resolveKnowledgeGap(userId: string, logIds: string[]): Promise<boolean> {
+    const { error } = await supabaseAdmin
+        .from('retrieval_logs')
+        .update({ resolved_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .in('id', logIds);
+
+    if (error) {
+        console.error('[RetrievalAnalytics] Error resolving knowledge gap:', error);
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Draft FAQs for a gap from the questions customers asked and the closest chunks
+ * the bot had. Drafts are suggestions for the owner to correct before saving.
+ */
+export async function draftFaqsForGap(userId: string, logIds: string[], maxPairs: number = 3): Promise<GeneratedFAQ[]> {
+    const { data: logs, error } = await supabaseAdmin
+        .from('retrieval_logs')
+        .select('query, chunk_ids')
+        .eq('user_id', userId)
+        .in('id', logIds);
+
+    if (error || !logs || logs.length === 0) {
+        throw new Error('Knowledge gap not found');
+    }
+
+    const questions = Array.from(new Set(logs.map(log => log.query.trim()))).slice(0, MAX_DRAFT_QUESTIONS);
+    const chunkIds = Array.from(new Set(logs.flatMap(log => (log.chunk_ids as number[]) || []))).slice(0, MAX_DRAFT_CHUNKS);
+
+    let related = '';
+    if (chunkIds.length > 0) {
+        const { data: chunks } = await supabaseAdmin
+            .from('documents')
+            .select('content')
+            .eq('user_id', userId)
+            .in('id', chunkIds);
+        related = (chunks || []).map(chunk => chunk.content).join('\n\n');
+    }
+
+    const text = [
+        'Customers asked these questions and the knowledge base had no good answer:',
+        ...questions.map(question => `- ${question}`),
+        '',
+        related
+            ? `Closest existing knowledge (may be incomplete or unrelated):\n${related}`
+            : 'There is no related knowledge yet. Write answers the business owner can complete, marking unknown details like [price] or [hours].',
+    ].join('\n');
+
+    const result = await generateFAQsFromText(text, maxPairs);
+    return result.faqs;
+}
+
+// ============================================================================
+// DOCUMENT USAGE
+// ============================================================================
+
+/**
+ * Hit counts for a tenant's chunks, least used first, with a pruning status:
+ * never_used (older than the grace period, never retrieved), stale (not retrieved
+ * for STALE_AFTER_DAYS), new (still in the grace period) or active.
+ */
+export async function getDocumentUsage(userId: string, limit: number = 500): Promise<DocumentUsage[]> {
+    const { data, error } = await supabaseAdmin
+        .from('documents')
+        .select('id, content, category_id, hit_count, last_hit_at, created_at')
+        .eq('user_id', userId)
+        .order('hit_count', { ascending: true })
+        .order('last_hit_at', { ascending: true, nullsFirst: true })
+        .limit(limit);
+
+    if (error) {
+        console.error('[RetrievalAnalytics] Error fetching document usage:', error);
+        return [];
+    }
+
+    const now = Date.now();
+    const graceCutoff = now - NEVER_USED_GRACE_DAYS * 24 * 3600000;
+    const staleCutoff = now - STALE_AFTER_DAYS * 24 * 3600000;
+
+    return (data || []).map(doc => {
+        const createdAt = doc.created_at || new Date(0).toISOString();
+        let status: DocumentUsage['status'] = 'active';
+        if (!doc.hit_count) {
+            status = new Date(createdAt).getTime() < graceCutoff ? 'never_used' : 'new';
+        } else if (doc.last_hit_at && new Date(doc.last_hit_at).getTime() < staleCutoff) {
+            status = 'stale';
+        }
+
+        return {
+            id: doc.id,
+            preview: doc.content.substring(0, 160),
+            categoryId: doc.category_id,
+            hitCount: doc.hit_count || 0,
+            lastHitAt: doc.last_hit_at,
+            createdAt,
+            status,
+        };
+    });
+}
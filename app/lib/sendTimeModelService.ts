@@ -0,0 +1,528 @@
+import { supabaseAdmin } from './supabaseAdmin';
+
+/**
+ * Send-time Model Service
+ *
+ * Learns when leads reply to follow-ups. For every hour of the week (168 slots) it keeps
+ * decayed counts of follow-ups sent (trials) and follow-ups answered within a day
+ * (successes). The reply probability of a slot is a Beta posterior:
+ * - tenant slots are smoothed toward the tenant's overall reply rate (and their neighbours)
+ * - lead slots are smoothed toward the tenant slot
+ * Older observations fade with a 30-day half-life, and under-observed slots get an
+ * exploration bonus so the model keeps testing new send times.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SlotCounts {
+    trials: number[];
+    successes: number[];
+    observations: number;
+    updatedAt: string;
+}
+
+export interface ActiveHours {
+    startMinutes: number;   // Minutes after midnight
+    endMinutes: number;
+}
+
+export interface SendSlotChoice {
+    sendAt: string;
+    dayOfWeek: number;
+    hour: number;
+    responseProbability: number;   // Posterior mean for the chosen slot
+    confidence: number;            // 0-1 share of the estimate backed by observed data
+    explored: boolean;             // Chosen for its exploration bonus rather than its mean
+    source: 'lead' | 'tenant' | 'default';
+}
+
+export interface SendTimeEvaluation {
+    patterns: number;              // Historical follow-ups replayed
+    evaluated: number;             // Follow-ups scored after the warm-up period
+    baselineRate: number;          // Reply rate of all evaluated follow-ups
+    matched: number;               // Evaluated follow-ups sent in a slot the model ranks in the day's top quarter
+    modelRate: number;             // Reply rate of the matched follow-ups
+    lift: number | null;           // modelRate / baselineRate - 1
+}
+
+interface SlotEstimate {
+    mean: number;
+    effectiveCount: number;        // Observed plus prior pseudo-observations
+    dataCount: number;             // Observed (decayed) trials behind the estimate
+}
+
+interface PatternRow {
+    sender_id: string;
+    follow_up_sent_at: string;
+    hour_of_day: number | null;
+    day_of_week: number | null;
+    did_respond: boolean | null;
+    response_delay_minutes: number | null;
+}
+
+// ============================================================================
+// MODEL PARAMETERS
+// ============================================================================
+
+const SLOTS_PER_WEEK = 168;
+const HALF_LIFE_DAYS = 30;
+const RESPONSE_WINDOW_MINUTES = 24 * 60;   // A reply later than this doesn't credit the send slot
+const DEFAULT_RESPONSE_RATE = 0.2;         // Prior before a tenant has any data
+const DEFAULT_PRIOR_STRENGTH = 2;
+const TENANT_PRIOR_STRENGTH = 4;           // Pseudo-observations pulling tenant slots to the tenant rate
+const LEAD_PRIOR_STRENGTH = 4;             // Pseudo-observations pulling lead slots to the tenant slot
+const NEIGHBOUR_WEIGHT = 0.5;              // Adjacent hours share evidence at the tenant level
+const EXPLORATION_WEIGHT = 0.5;            // Standard deviations added to a slot's mean
+const WAIT_PENALTY_PER_HOUR = 0.01;        // Prefer sooner slots when scores are close
+const EVALUATION_WARMUP = 20;              // Follow-ups used only for training before scoring starts
+const MAX_HISTORY = 5000;
+const DEFAULT_BEST_HOUR = 10;
+
+// ============================================================================
+// PURE MODEL FUNCTIONS
+// ============================================================================
+
+export function slotOf(dayOfWeek: number, hour: number): number {
+    return ((dayOfWeek % 7) * 24 + (hour % 24) + SLOTS_PER_WEEK) % SLOTS_PER_WEEK;
+}
+
+function slotOfDate(date: Date): number {
+    return slotOf(date.getDay(), date.getHours());
+}
+
+function emptyCounts(at: Date): SlotCounts {
+    return {
+        trials: new Array(SLOTS_PER_WEEK).fill(0),
+        successes: new Array(SLOTS_PER_WEEK).fill(0),
+        observations: 0,
+        updatedAt: at.toISOString(),
+    };
+}
+
+// Fade counts to `at`; observations never move backwards in time
+function decayCounts(counts: SlotCounts, at: Date): SlotCounts {
+    const elapsedDays = (at.getTime() - new Date(counts.updatedAt).getTime()) / 86400000;
+    if (elapsedDays <= 0) return counts;
+
+    const factor = Math.pow(0.5, elapsedDays / HALF_LIFE_DAYS);
+    return {
+        trials: counts.trials.map(n => n * factor),
+        successes: counts.successes.map(n => n * factor),
+        observations: counts.observations,
+        updatedAt: at.toISOString(),
+    };
+}
+
+function observe(counts: SlotCounts, slot: number, outcome: 'sent' | 'replied', at: Date): SlotCounts {
+    const next = decayCounts(counts, at);
+    const trials = [...next.trials];
+    const successes = [...next.successes];
+
+    if (outcome === 'sent') {
+        trials[slot] += 1;
+    } else {
+        // Never credit more replies than sends in a slot
+        successes[slot] = Math.min(successes[slot] + 1, trials[slot] || 1);
+        if (trials[slot] < successes[slot]) trials[slot] = successes[slot];
+    }
+
+    return { trials, successes, observations: next.observations + 1, updatedAt: next.updatedAt };
+}
+
+function sum(values: number[]): number {
+    return values.reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Posterior reply probability for every slot, for a lead (smoothed toward the tenant)
+ * or for the tenant alone when no lead model is given
+ */
+function estimateSlots(tenant: SlotCounts | null, lead: SlotCounts | null): SlotEstimate[] {
+    const tenantTrials = tenant?.trials || new Array(SLOTS_PER_WEEK).fill(0);
+    const tenantSuccesses = tenant?.successes || new Array(SLOTS_PER_WEEK).fill(0);
+
+    const tenantRate = (sum(tenantSuccesses) + DEFAULT_RESPONSE_RATE * DEFAULT_PRIOR_STRENGTH)
+        / (sum(tenantTrials) + DEFAULT_PRIOR_STRENGTH);
+
+    const estimates: SlotEstimate[] = [];
+    for (let slot = 0; slot < SLOTS_PER_WEEK; slot++) {
+        const prev = (slot + SLOTS_PER_WEEK - 1) % SLOTS_PER_WEEK;
+        const next = (slot + 1) % SLOTS_PER_WEEK;
+
+        const pooledTrials = tenantTrials[slot] + NEIGHBOUR_WEIGHT * (tenantTrials[prev] + tenantTrials[next]);
+        const pooledSuccesses = tenantSuccesses[slot] + NEIGHBOUR_WEIGHT * (tenantSuccesses[prev] + tenantSuccesses[next]);
+        const tenantMean = (pooledSuccesses + tenantRate * TENANT_PRIOR_STRENGTH) / (pooledTrials + TENANT_PRIOR_STRENGTH);
+
+        if (!lead) {
+            estimates.push({
+                mean: tenantMean,
+                effectiveCount: pooledTrials + TENANT_PRIOR_STRENGTH,
+                dataCount: pooledTrials,
+            });
+            continue;
+        }
+
+        const leadTrials = lead.trials[slot];
+        estimates.push({
+            mean: (lead.successes[slot] + tenantMean * LEAD_PRIOR_STRENGTH) / (leadTrials + LEAD_PRIOR_STRENGTH),
+            effectiveCount: leadTrials + LEAD_PRIOR_STRENGTH,
+            dataCount: leadTrials,
+        });
+    }
+
+    return estimates;
+}
+
+function slotScore(estimate: SlotEstimate, explore: boolean): number {
+    if (!explore) return estimate.mean;
+    const sd = Math.sqrt((estimate.mean * (1 - estimate.mean)) / (estimate.effectiveCount + 1));
+    return estimate.mean + EXPLORATION_WEIGHT * sd;
+}
+
+function isWithinActiveHours(date: Date, activeHours?: ActiveHours): boolean {
+    if (!activeHours) return true;
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    return minutes >= activeHours.startMinutes && minutes <= activeHours.endMinutes;
+}
+
+// Candidate send times: the earliest allowed time, then each following full hour up to `latest`
+function candidateTimes(earliest: Date, latest: Date): Date[] {
+    const candidates = [new Date(earliest)];
+    const hour = new Date(earliest);
+    hour.setMinutes(0, 0, 0);
+    hour.setHours(hour.getHours() + 1);
+    while (hour.getTime() <= latest.getTime()) {
+        candidates.push(new Date(hour));
+        hour.setHours(hour.getHours() + 1);
+    }
+    return candidates;
+}
+
+function pickBest(
+    estimates: SlotEstimate[],
+    candidates: Date[],
+    explore: boolean,
+    activeHours?: ActiveHours
+): { time: Date; slot: number } | null {
+    const start = candidates[0]?.getTime() ?? 0;
+    let best: { time: Date; slot: number; score: number } | null = null;
+
+    for (const time of candidates) {
+        if (!isWithinActiveHours(time, activeHours)) continue;
+        const slot = slotOfDate(time);
+        const hoursWaited = (time.getTime() - start) / 3600000;
+        const score = slotScore(estimates[slot], explore) * (1 - WAIT_PENALTY_PER_HOUR * hoursWaited);
+        if (!best || score > best.score) {
+            best = { time, slot, score };
+        }
+    }
+
+    return best;
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+async function resolveLeadUserId(senderId: string): Promise<string | null> {
+    const { data } = await supabaseAdmin
+        .from('leads')
+        .select('user_id')
+        .eq('sender_id', senderId)
+        .limit(1)
+        .maybeSingle();
+    return data?.user_id || null;
+}
+
+async function loadModels(userId: string, senderId?: string): Promise<{ tenant: SlotCounts | null; lead: SlotCounts | null }> {
+    const keys = senderId ? ['', senderId] : [''];
+    const { data, error } = await supabaseAdmin
+        .from('send_time_models')
+        .select('sender_id, trials, successes, observations, updated_at')
+        .eq('user_id', userId)
+        .in('sender_id', keys);
+
+    if (error) {
+        console.error('[SendTimeModel] Error loading models:', error);
+        return { tenant: null, lead: null };
+    }
+
+    const toCounts = (row: { trials: number[]; successes: number[]; observations: number; updated_at: string }): SlotCounts => ({
+        trials: row.trials,
+        successes: row.successes,
+        observations: row.observations,
+        updatedAt: row.updated_at,
+    });
+
+    const tenantRow = data?.find(row => row.sender_id === '');
+    const leadRow = senderId ? data?.find(row => row.sender_id === senderId) : undefined;
+    return {
+        tenant: tenantRow ? toCounts(tenantRow) : null,
+        lead: leadRow ? toCounts(leadRow) : null,
+    };
+}
+
+async function saveModels(userId: string, models: { senderId: string; counts: SlotCounts }[]): Promise<void> {
+    if (models.length === 0) return;
+
+    const { error } = await supabaseAdmin
+        .from('send_time_models')
+        .upsert(models.map(({ senderId, counts }) => ({
+            user_id: userId,
+            sender_id: senderId,
+            trials: counts.trials,
+            successes: counts.successes,
+            observations: counts.observations,
+            updated_at: counts.updatedAt,
+        })), { onConflict: 'user_id,sender_id' });
+
+    if (error) {
+        console.error('[SendTimeModel] Error saving models:', error);
+    }
+}
+
+// Apply one observation to the tenant and lead models
+async function recordObservation(userId: string | null, senderId: string, slot: number, outcome: 'sent' | 'replied', at: Date): Promise<void> {
+    const ownerId = userId || await resolveLeadUserId(senderId);
+    if (!ownerId) return;
+
+    const { tenant, lead } = await loadModels(ownerId, senderId);
+    await saveModels(ownerId, [
+        { senderId: '', counts: observe(tenant || emptyCounts(at), slot, outcome, at) },
+        { senderId, counts: observe(lead || emptyCounts(at), slot, outcome, at) },
+    ]);
+}
+
+// ============================================================================
+// TRAINING
+// ============================================================================
+
+/**
+ * Count a follow-up send in its hour-of-week slot
+ */
+export async function recordFollowUpSent(userId: string | null, senderId: string, sentAt: Date): Promise<void> {
+    try {
+        await recordObservation(userId, senderId, slotOfDate(sentAt), 'sent', sentAt);
+    } catch (error) {
+        console.error('[SendTimeModel] Error recording send:', error);
+    }
+}
+
+/**
+ * Credit the slot a follow-up was sent in when the lead replies to it
+ * (called from markCustomerReplied; late replies don't count)
+ */
+export async function recordFollowUpReply(userId: string | null, senderId: string, sentAt: Date, repliedAt: Date): Promise<void> {
+    const delayMinutes = (repliedAt.getTime() - sentAt.getTime()) / 60000;
+    if (delayMinutes < 0 || delayMinutes > RESPONSE_WINDOW_MINUTES) return;
+
+    try {
+        await recordObservation(userId, senderId, slotOfDate(sentAt), 'replied', repliedAt);
+    } catch (error) {
+        console.error('[SendTimeModel] Error recording reply:', error);
+    }
+}
+
+function patternSlot(pattern: PatternRow): number {
+    if (pattern.day_of_week !== null && pattern.hour_of_day !== null) {
+        return slotOf(pattern.day_of_week, pattern.hour_of_day);
+    }
+    return slotOfDate(new Date(pattern.follow_up_sent_at));
+}
+
+function patternReplied(pattern: PatternRow): boolean {
+    return !!pattern.did_respond
+        && pattern.response_delay_minutes !== null
+        && pattern.response_delay_minutes <= RESPONSE_WINDOW_MINUTES;
+}
+
+async function fetchPatternHistory(userId: string): Promise<PatternRow[]> {
+    const { data, error } = await supabaseAdmin
+        .from('follow_up_response_patterns')
+        .select('sender_id, follow_up_sent_at, hour_of_day, day_of_week, did_respond, response_delay_minutes')
+        .eq('user_id', userId)
+        .order('follow_up_sent_at', { ascending: true })
+        .limit(MAX_HISTORY);
+
+    if (error) {
+        console.error('[SendTimeModel] Error fetching response patterns:', error);
+        return [];
+    }
+
+    return (data || []) as PatternRow[];
+}
+
+/**
+ * Retrain a tenant's models from scratch from its follow-up history
+ */
+export async function rebuildSendTimeModels(userId: string): Promise<{ patterns: number; leads: number }> {
+    const history = await fetchPatternHistory(userId);
+    const now = new Date();
+
+    let tenant = emptyCounts(history.length > 0 ? new Date(history[0].follow_up_sent_at) : now);
+    const leads = new Map<string, SlotCounts>();
+
+    for (const pattern of history) {
+        const sentAt = new Date(pattern.follow_up_sent_at);
+        const slot = patternSlot(pattern);
+        let lead = leads.get(pattern.sender_id) || emptyCounts(sentAt);
+
+        tenant = observe(tenant, slot, 'sent', sentAt);
+        lead = observe(lead, slot, 'sent', sentAt);
+        if (patternReplied(pattern)) {
+            tenant = observe(tenant, slot, 'replied', sentAt);
+            lead = observe(lead, slot, 'replied', sentAt);
+        }
+        leads.set(pattern.sender_id, lead);
+    }
+
+    const models = [{ senderId: '', counts: decayCounts(tenant, now) }];
+    for (const [senderId, counts] of leads) {
+        models.push({ senderId, counts: decayCounts(counts, now) });
+    }
+
+    // Upsert in chunks to keep request bodies small
+    for (let i = 0; i < models.length; i += 200) {
+        await saveModels(userId, models.slice(i, i + 200));
+    }
+
+    console.log(`[SendTimeModel] Rebuilt models for user ${userId.substring(0, 8)}... from ${history.length} follow-ups (${leads.size} leads)`);
+    return { patterns: history.length, leads: leads.size };
+}
+
+// ============================================================================
+// SLOT SELECTION
+// ============================================================================
+
+/**
+ * Pick the send time between `earliest` and `latest` with the best (exploration-adjusted)
+ * reply probability for this lead, inside active hours when given
+ */
+export async function chooseFollowUpSendTime(params: {
+    userId: string | null;
+    senderId?: string;
+    earliest: Date;
+    latest: Date;
+    activeHours?: ActiveHours;
+}): Promise<SendSlotChoice> {
+    const { senderId, earliest, activeHours } = params;
+    const latest = params.latest.getTime() < earliest.getTime() ? earliest : params.latest;
+
+    const ownerId = params.userId || (senderId ? await resolveLeadUserId(senderId) : null);
+    const { tenant, lead } = ownerId ? await loadModels(ownerId, senderId) : { tenant: null, lead: null };
+
+    const estimates = estimateSlots(tenant, lead);
+    const candidates = candidateTimes(earliest, latest);
+    const chosen = pickBest(estimates, candidates, true, activeHours);
+    const greedy = pickBest(estimates, candidates, false, activeHours);
+
+    const time = chosen?.time || earliest;
+    const slot = chosen?.slot ?? slotOfDate(earliest);
+    const estimate = estimates[slot];
+    const priorStrength = lead ? LEAD_PRIOR_STRENGTH : TENANT_PRIOR_STRENGTH;
+
+    return {
+        sendAt: time.toISOString(),
+        dayOfWeek: time.getDay(),
+        hour: time.getHours(),
+        responseProbability: estimate.mean,
+        confidence: estimate.dataCount / (estimate.dataCount + priorStrength),
+        explored: !!chosen && !!greedy && chosen.slot !== greedy.slot,
+        source: lead ? 'lead' : tenant ? 'tenant' : 'default',
+    };
+}
+
+/**
+ * Hour of day with the highest average reply probability across the week
+ */
+export async function getBestHourFromModel(userId: string | null, senderId?: string): Promise<number> {
+    const ownerId = userId || (senderId ? await resolveLeadUserId(senderId) : null);
+    if (!ownerId) return DEFAULT_BEST_HOUR;
+
+    const { tenant, lead } = await loadModels(ownerId, senderId);
+    if (!tenant && !lead) return DEFAULT_BEST_HOUR;
+
+    const estimates = estimateSlots(tenant, lead);
+    let bestHour = DEFAULT_BEST_HOUR;
+    let bestMean = -1;
+    for (let hour = 0; hour < 24; hour++) {
+        let total = 0;
+        for (let day = 0; day < 7; day++) {
+            total += estimates[slotOf(day, hour)].mean;
+        }
+        if (total / 7 > bestMean) {
+            bestMean = total / 7;
+            bestHour = hour;
+        }
+    }
+
+    return bestHour;
+}
+
+// ============================================================================
+// OFFLINE EVALUATION
+// ============================================================================
+
+/**
+ * Replay a tenant's follow-up history in order, training only on the past. Each follow-up after
+ * the warm-up is "matched" when the model ranks its send slot in the top quarter of that day's
+ * active hours; lift compares the reply rate of matched follow-ups against all of them.
+ */
+export async function evaluateSendTimeModel(userId: string, activeHours?: ActiveHours): Promise<SendTimeEvaluation> {
+    const history = await fetchPatternHistory(userId);
+
+    let tenant: SlotCounts | null = null;
+    const leads = new Map<string, SlotCounts>();
+    let evaluated = 0;
+    let replies = 0;
+    let matched = 0;
+    let matchedReplies = 0;
+
+    history.forEach((pattern, index) => {
+        const sentAt = new Date(pattern.follow_up_sent_at);
+        const slot = patternSlot(pattern);
+        const replied = patternReplied(pattern);
+        const lead = leads.get(pattern.sender_id) || null;
+
+        if (index >= EVALUATION_WARMUP) {
+            const estimates = estimateSlots(tenant, lead);
+            const day = Math.floor(slot / 24);
+            const daySlots = Array.from({ length: 24 }, (_, hour) => hour)
+                .filter(hour => !activeHours || (hour * 60 + 59 >= activeHours.startMinutes && hour * 60 <= activeHours.endMinutes))
+                .map(hour => slotOf(day, hour));
+            if (!daySlots.includes(slot)) daySlots.push(slot);
+
+            const ranked = [...daySlots].sort((a, b) => estimates[b].mean - estimates[a].mean);
+            const topCount = Math.max(1, Math.ceil(ranked.length / 4));
+
+            evaluated++;
+            if (replied) replies++;
+            if (ranked.slice(0, topCount).includes(slot)) {
+                matched++;
+                if (replied) matchedReplies++;
+            }
+        }
+
+        tenant = observe(tenant || emptyCounts(sentAt), slot, 'sent', sentAt);
+        let updatedLead = observe(lead || emptyCounts(sentAt), slot, 'sent', sentAt);
+        if (replied) {
+            tenant = observe(tenant, slot, 'replied', sentAt);
+            updatedLead = observe(updatedLead, slot, 'replied', sentAt);
+        }
+        leads.set(pattern.sender_id, updatedLead);
+    });
+
+    const baselineRate = evaluated > 0 ? replies / evaluated : 0;
+    const modelRate = matched > 0 ? matchedReplies / matched : 0;
+
+    return {
+        patterns: history.length,
+        evaluated,
+        baselineRate,
+        matched,
+        modelRate,
+        lift: matched > 0 && baselineRate > 0 ? modelRate / baselineRate - 1 : null,
+    };
+}
@@ -0,0 +1,391 @@
+import { supabaseAdmin } from './supabaseAdmin';
+import { sendMessengerMessage } from './messengerService';
+import { isGuestSession } from './guestSession';
+
+/**
+ * Shipping Service
+ *
+ * Shipping zones: checkout matches the customer's city / province to the tenant's most specific
+ * active zone (city, then province, then a catch-all zone with neither) and charges its flat or
+ * weight-based rate. Tenants without zones keep the old behaviour: no fee, COD everywhere.
+ *
+ * Fulfillment: one record per order with the carrier and tracking number. When the order is
+ * marked shipped or delivered the customer is told once through Messenger.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const SHIPPING_RATE_TYPES = ['flat', 'weight'] as const;
+export type ShippingRateType = typeof SHIPPING_RATE_TYPES[number];
+
+export interface ShippingZone {
+    id: string;
+    user_id: string;
+    name: string;
+    provinces: string[];
+    cities: string[];
+    rate_type: ShippingRateType;
+    flat_rate: number;
+    base_weight_grams: number;
+    base_rate: number;
+    additional_rate_per_kg: number;
+    free_shipping_min_spend: number | null;
+    cod_available: boolean;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface ShippingQuote {
+    zone: { id: string; name: string } | null;  // null when the tenant has no zones
+    fee: number;
+    weightGrams: number;
+    codAvailable: boolean;
+    freeShipping: boolean;
+    error: string | null;  // Set when the tenant has zones but none covers the address
+}
+
+export interface OrderFulfillment {
+    id: string;
+    user_id: string | null;
+    order_id: string;
+    carrier: string | null;
+    tracking_number: string | null;
+    tracking_url: string | null;
+    notes: string | null;
+    shipped_at: string | null;
+    delivered_at: string | null;
+    shipped_notified_at: string | null;
+    notified_tracking_number: string | null;
+    delivered_notified_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export type FulfillmentEvent = 'shipped' | 'delivered';
+
+// ============================================================================
+// VALIDATION (API input)
+// ============================================================================
+
+function toPlaceList(raw: unknown): string[] {
+    const list = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [];
+    return list
+        .filter((v): v is string => typeof v === 'string')
+        .map(v => v.trim())
+        .filter(v => v.length > 0);
+}
+
+function toAmount(raw: unknown): number | null {
+    if (raw === null || raw === undefined || raw === '') return null;
+    const value = Number(raw);
+    return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Turn a request body into shipping_zones columns. Returns an error message instead when invalid.
+ * With partial = true only the fields present in the body are returned (PATCH).
+ */
+export function normalizeShippingZoneInput(body: Record<string, unknown>, partial = false): { values: Record<string, unknown> } | { error: string } {
+    const values: Record<string, unknown> = {};
+    const has = (key: string) => body[key] !== undefined;
+
+    if (!partial || has('name')) {
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+        if (!name) return { error: 'Zone name is required' };
+        values.name = name;
+    }
+
+    if (!partial || has('rateType')) {
+        if (!SHIPPING_RATE_TYPES.includes(body.rateType as ShippingRateType)) {
+            return { error: 'Invalid rate type' };
+        }
+        values.rate_type = body.rateType;
+    }
+
+    if (!partial || has('provinces')) values.provinces = toPlaceList(body.provinces);
+    if (!partial || has('cities')) values.cities = toPlaceList(body.cities);
+    if (!partial || has('flatRate')) values.flat_rate = toAmount(body.flatRate) ?? 0;
+    if (!partial || has('baseRate')) values.base_rate = toAmount(body.baseRate) ?? 0;
+    if (!partial || has('additionalRatePerKg')) values.additional_rate_per_kg = toAmount(body.additionalRatePerKg) ?? 0;
+    if (has('baseWeightGrams')) values.base_weight_grams = Math.round(toAmount(body.baseWeightGrams) ?? 1000);
+    if (has('freeShippingMinSpend')) values.free_shipping_min_spend = toAmount(body.freeShippingMinSpend);
+    if (has('codAvailable')) values.cod_available = !!body.codAvailable;
+    if (has('isActive')) values.is_active = !!body.isActive;
+
+    return { values };
+}
+
+// ============================================================================
+// PURE RATE CALCULATION
+// ============================================================================
+
+function normalizePlace(value: string | null | undefined): string {
+    return (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * The most specific zone covering the address: a city match, then a province match,
+ * then a catch-all zone (no provinces and no cities)
+ */
+export function matchShippingZone(zones: ShippingZone[], province: string | null, city: string | null): ShippingZone | null {
+    const wantedProvince = normalizePlace(province);
+    const wantedCity = normalizePlace(city);
+    const active = zones.filter(zone => zone.is_active);
+
+    const byCity = wantedCity
+        ? active.find(zone => zone.cities.some(c => normalizePlace(c) === wantedCity))
+        : undefined;
+    if (byCity) return byCity;
+
+    const byProvince = wantedProvince
+        ? active.find(zone => zone.cities.length === 0 && zone.provinces.some(p => normalizePlace(p) === wantedProvince))
+        : undefined;
+    if (byProvince) return byProvince;
+
+    return active.find(zone => zone.cities.length === 0 && zone.provinces.length === 0) || null;
+}
+
+/**
+ * Fee for a parcel in a zone. Weight-based zones charge the base rate up to the base weight,
+ * then the per-kg rate for every started kilogram above it.
+ */
+export function calculateShippingFee(zone: ShippingZone, weightGrams: number, orderTotal: number): number {
+    if (zone.free_shipping_min_spend !== null && orderTotal >= Number(zone.free_shipping_min_spend)) {
+        return 0;
+    }
+
+    if (zone.rate_type === 'flat') {
+        return round2(Number(zone.flat_rate));
+    }
+
+    const extraGrams = Math.max(weightGrams - Number(zone.base_weight_grams), 0);
+    const extraKg = Math.ceil(extraGrams / 1000);
+    return round2(Number(zone.base_rate) + extraKg * Number(zone.additional_rate_per_kg));
+}
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+
+async function getActiveZones(userId: string): Promise<ShippingZone[]> {
+    const { data, error } = await supabaseAdmin
+        .from('shipping_zones')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_active', true)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('[Shipping] Error fetching shipping zones:', error);
+        return [];
+    }
+
+    return (data || []) as ShippingZone[];
+}
+
+async function getOrderWeight(orderId: string): Promise<number> {
+    const { data, error } = await supabaseAdmin
+        .from('order_items')
+        .select('quantity, products(weight_grams)')
+        .eq('order_id', orderId);
+
+    if (error) {
+        console.error('[Shipping] Error fetching order weight:', error);
+        return 0;
+    }
+
+    return (data || []).reduce((sum, item) => {
+        const product = Array.isArray(item.products) ? item.products[0] : item.products;
+        const weight = Number((product as { weight_grams: number | null } | null)?.weight_grams) || 0;
+        return sum + weight * (item.quantity || 0);
+    }, 0);
+}
+
+/**
+ * Quote shipping for an order to a city / province.
+ * orderTotal is the total after discounts; freeShipping comes from a free-shipping code.
+ */
+export async function quoteShipping(params: {
+    userId: string | null;
+    orderId: string;
+    province: string | null;
+    city: string | null;
+    orderTotal: number;
+    freeShipping: boolean;
+}): Promise<ShippingQuote> {
+    const zones = params.userId ? await getActiveZones(params.userId) : [];
+
+    if (zones.length === 0) {
+        return { zone: null, fee: 0, weightGrams: 0, codAvailable: true, freeShipping: params.freeShipping, error: null };
+    }
+
+    const zone = matchShippingZone(zones, params.province, params.city);
+    if (!zone) {
+        const place = [params.city, params.province].filter(Boolean).join(', ');
+        return {
+            zone: null,
+            fee: 0,
+            weightGrams: 0,
+            codAvailable: false,
+            freeShipping: params.freeShipping,
+            error: place ? `Sorry, we don't ship to ${place} yet` : 'Please enter your province and city',
+        };
+    }
+
+    const weightGrams = zone.rate_type === 'weight' ? await getOrderWeight(params.orderId) : 0;
+    const fee = params.freeShipping ? 0 : calculateShippingFee(zone, weightGrams, params.orderTotal);
+
+    return {
+        zone: { id: zone.id, name: zone.name },
+        fee,
+        weightGrams,
+        codAvailable: zone.cod_available,
+        freeShipping: params.freeShipping || fee === 0,
+        error: null,
+    };
+}
+
+// ============================================================================
+// FULFILLMENT
+// ============================================================================
+
+export async function getOrderFulfillment(orderId: string): Promise<OrderFulfillment | null> {
+    const { data, error } = await supabaseAdmin
+        .from('order_fulfillments')
+        .select('*')
+        .eq('order_id', orderId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('[Shipping] Error fetching fulfillment:', error);
+        return null;
+    }
+
+    return data as OrderFulfillment | null;
+}
+
+/**
+ * Create or update an order's fulfillment record
+ */
+export async function saveOrderFulfillment(
+    orderId: string,
+    userId: string | null,
+    values: Partial<Pick<OrderFulfillment, 'carrier' | 'tracking_number' | 'tracking_url' | 'notes' | 'shipped_at' | 'delivered_at'>>
+): Promise<OrderFulfillment | null> {
+    const { data, error } = await supabaseAdmin
+        .from('order_fulfillments')
+        .upsert({
+            order_id: orderId,
+            user_id: userId,
+            ...values,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'order_id' })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('[Shipping] Error saving fulfillment:', error);
+        return null;
+    }
+
+    return data as OrderFulfillment;
+}
+
+function buildFulfillmentMessage(event: FulfillmentEvent, orderId: string, fulfillment: OrderFulfillment | null): string {
+    const orderRef = `#${orderId.slice(0, 8)}`;
+
+    if (event === 'delivered') {
+        return `📦 Your order ${orderRef} has been delivered! Thank you for shopping with us. 💚`;
+    }
+
+    const lines = [`🚚 Good news! Your order ${orderRef} is on its way.`];
+    if (fulfillment?.carrier) lines.push(`Carrier: ${fulfillment.carrier}`);
+    if (fulfillment?.tracking_number) lines.push(`Tracking number: ${fulfillment.tracking_number}`);
+    if (fulfillment?.tracking_url) lines.push(`Track it here: ${fulfillment.tracking_url}`);
+    return lines.join('\n');
+}
+
+/**
+ * Tell the customer their order shipped or arrived. Each event is sent once; a shipped message
+ * goes out again when the tracking number changes afterwards.
+ */
+async function notifyCustomer(orderId: string, event: FulfillmentEvent, fulfillment: OrderFulfillment): Promise<void> {
+    const alreadySent = event === 'delivered'
+        ? !!fulfillment.delivered_notified_at
+        : !!fulfillment.shipped_notified_at && fulfillment.notified_tracking_number === fulfillment.tracking_number;
+    if (alreadySent) return;
+
+    const { data: order } = await supabaseAdmin
+        .from('orders')
+        .select('id, leads(sender_id)')
+        .eq('id', orderId)
+        .single();
+
+    const lead = Array.isArray(order?.leads) ? order?.leads[0] : order?.leads;
+    const senderId = (lead as { sender_id: string | null } | null | undefined)?.sender_id;
+    if (!senderId || isGuestSession(senderId)) return;
+
+    const sent = await sendMessengerMessage(senderId, buildFulfillmentMessage(event, orderId, fulfillment), {
+        purpose: 'post_purchase',
+        source: 'fulfillment',
+        sourceId: orderId,
+    });
+    if (!sent) return;
+
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin
+        .from('order_fulfillments')
+        .update(event === 'delivered'
+            ? { delivered_notified_at: now }
+            : { shipped_notified_at: now, notified_tracking_number: fulfillment.tracking_number })
+        .eq('id', fulfillment.id);
+
+    if (error) {
+        console.error('[Shipping] Error recording fulfillment notification:', error);
+    }
+}
+
+/**
+ * Stamp the fulfillment when an order is marked shipped or delivered and message the customer
+ */
+export async function recordFulfillmentEvent(orderId: string, userId: string | null, event: FulfillmentEvent): Promise<void> {
+    try {
+        const existing = await getOrderFulfillment(orderId);
+        const now = new Date().toISOString();
+        const stamp = event === 'shipped'
+            ? { shipped_at: existing?.shipped_at || now }
+            : { delivered_at: existing?.delivered_at || now, shipped_at: existing?.shipped_at || now };
+
+        const fulfillment = await saveOrderFulfillment(orderId, userId, stamp);
+        if (fulfillment) {
+            await notifyCustomer(orderId, event, fulfillment);
+        }
+    } catch (error) {
+        console.error('[Shipping] Error recording fulfillment event:', error);
+    }
+}
+
+/**
+ * Save carrier / tracking details. If the order already shipped, the customer gets the new tracking number.
+ */
+export async function updateFulfillmentTracking(
+    orderId: string,
+    userId: string | null,
+    orderStatus: string,
+    values: Partial<Pick<OrderFulfillment, 'carrier' | 'tracking_number' | 'tracking_url' | 'notes'>>
+): Promise<OrderFulfillment | null> {
+    const fulfillment = await saveOrderFulfillment(orderId, userId, values);
+
+    if (fulfillment && orderStatus === 'shipped' && fulfillment.tracking_number) {
+        await notifyCustomer(orderId, 'shipped', fulfillment);
+    }
+
+    return fulfillment;
+}
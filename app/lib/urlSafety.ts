@@ -0,0 +1,150 @@
+/**
+ * URL Safety
+ * Guards requests to tenant-supplied URLs (webhooks, workflow HTTP requests, web page
+ * imports) against reaching internal services and cloud metadata endpoints.
+ *
+ * assertPublicUrl checks a URL up front; publicDispatcher re-checks the address each
+ * connection resolves to and connects to that address, so DNS changing between the
+ * check and the request (rebinding) can't get around it.
+ */
+
+import { lookup } from 'dns/promises';
+import { lookup as dnsLookup, type LookupAddress } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Agent } from 'undici';
+
+// Special-purpose IPv4 ranges (RFC 6890): private, loopback, link-local, CGNAT, benchmarking, documentation, multicast, reserved
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+    ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+];
+
+// IPv6 ranges that are never public. Forms embedding an IPv4 address are decoded separately.
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+    ['64:ff9b:1::', 48],   // Local-use NAT64
+    ['100::', 64],         // Discard
+    ['2001::', 32],        // Teredo (the embedded address is obfuscated)
+    ['2001:db8::', 32],    // Documentation
+    ['fc00::', 7],         // Unique local
+    ['fe80::', 10],        // Link-local
+    ['fec0::', 10],        // Site-local (deprecated)
+    ['ff00::', 8],         // Multicast
+];
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of BLOCKED_IPV4_SUBNETS) blockedAddresses.addSubnet(network, prefix, 'ipv4');
+for (const [network, prefix] of BLOCKED_IPV6_SUBNETS) blockedAddresses.addSubnet(network, prefix, 'ipv6');
+
+// The eight 16-bit groups of an IPv6 address, or null if it isn't one
+function parseIPv6(address: string): number[] | null {
+    if (isIP(address) !== 6) return null;
+
+    let text = address.toLowerCase().replace(/%.*$/, '');
+    // A trailing dotted IPv4 part becomes two groups
+    const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (dotted) {
+        const [a, b, c, d] = dotted.slice(1).map(Number);
+        text = text.slice(0, dotted.index) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+    }
+
+    const [head, tail] = text.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const zeros = tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length).fill('0');
+    return [...headGroups, ...zeros, ...tailGroups].map(group => parseInt(group, 16));
+}
+
+// IPv4 address embedded in an IPv6 one (mapped, compatible, NAT64 or 6to4), else null
+function embeddedIPv4(groups: number[]): string | null {
+    const toIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+    const prefixIsZero = (length: number) => groups.slice(0, length).every(group => group === 0);
+
+    if (prefixIsZero(5) && (groups[5] === 0xffff || groups[5] === 0)) {
+        return toIPv4(groups[6], groups[7]);                 // ::ffff:a.b.c.d, ::a.b.c.d (also :: and ::1)
+    }
+    if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+        return toIPv4(groups[6], groups[7]);                 // 64:ff9b::/96 NAT64
+    }
+    if (groups[0] === 0x2002) {
+        return toIPv4(groups[1], groups[2]);                 // 2002::/16 6to4
+    }
+    return null;
+}
+
+/**
+ * True for any address that isn't a routable public unicast address
+ */
+export function isPrivateAddress(address: string): boolean {
+    const version = isIP(address);
+    if (version === 4) {
+        return blockedAddresses.check(address, 'ipv4');
+    }
+    if (version !== 6) {
+        return true;
+    }
+
+    const groups = parseIPv6(address);
+    if (!groups) return true;
+    const ipv4 = embeddedIPv4(groups);
+    if (ipv4) {
+        return isPrivateAddress(ipv4);
+    }
+    return blockedAddresses.check(groups.map(group => group.toString(16)).join(':'), 'ipv6');
+}
+
+// dns.lookup that fails for hosts resolving to any private address
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+            callback(error, '', 0);
+            return;
+        }
+        if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+            callback(new Error(`Refusing to connect to internal address: ${hostname}`), '', 0);
+            return;
+        }
+        if (options.all) {
+            (callback as unknown as (err: null, addresses: LookupAddress[]) => void)(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+/**
+ * Dispatcher for fetching tenant-supplied URLs: every connection re-checks the resolved address
+ */
+export const publicDispatcher = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * Parse a tenant-supplied URL, or return null if it isn't http(s)
+ */
+export function normalizeUrl(input: string): URL | null {
+    try {
+        const url = new URL(input.trim());
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+        url.hash = '';
+        return url;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Throw unless the URL's host resolves only to public addresses
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+        throw new Error(`Refusing to fetch internal address: ${url.hostname}`);
+    }
+
+    const addresses = isIP(hostname)
+        ? [{ address: hostname }]
+        : await lookup(hostname, { all: true });
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+        throw new Error(`Refusing to fetch internal address: ${url.hostname}`);
+    }
+}
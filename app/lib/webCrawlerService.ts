@@ -0,0 +1,164 @@
+/**
+ * Web Crawler Service
+ * Fetches web pages and sitemaps for knowledge base ingestion.
+ *
+ * Tenants choose the URLs, so every request (including each redirect hop) goes through
+ * the URL safety checks - internal services and cloud metadata endpoints can't be
+ * reached through an import.
+ */
+
+import { fetch, type Response } from 'undici';
+import { assertPublicUrl, normalizeUrl, publicDispatcher } from './urlSafety';
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+const MAX_SITEMAP_DEPTH = 2;          // Sitemap index -> sitemap -> pages
+const USER_AGENT = 'Mozilla/5.0 (compatible; KnowledgeBaseBot/1.0)';
+
+export type FetchedPage =
+    | { status: 'not_modified' }
+    | {
+        status: 'ok';
+        url: string;                 // Final URL after redirects
+        body: Buffer;
+        contentType: string;
+        etag: string | null;
+        lastModified: string | null;
+    };
+
+export interface ConditionalHeaders {
+    etag?: string | null;
+    lastModified?: string | null;
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+/**
+ * Fetch a URL, following redirects manually so every hop is checked.
+ * Sends If-None-Match / If-Modified-Since when validators from a previous fetch are given.
+ */
+export async function fetchUrl(input: string, conditional: ConditionalHeaders = {}): Promise<FetchedPage> {
+    const initial = normalizeUrl(input);
+    if (!initial) {
+        throw new Error(`Invalid URL: ${input}`);
+    }
+    let url: URL = initial;
+
+    const headers: Record<string, string> = { 'User-Agent': USER_AGENT };
+    if (conditional.etag) headers['If-None-Match'] = conditional.etag;
+    if (conditional.lastModified) headers['If-Modified-Since'] = conditional.lastModified;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        await assertPublicUrl(url);
+
+        const res: Response = await fetch(url, {
+            headers,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+            dispatcher: publicDispatcher,
+        });
+
+        if (res.status >= 300 && res.status < 400 && res.status !== 304) {
+            const location: string | null = res.headers.get('location');
+            const next: URL | null = location ? normalizeUrl(new URL(location, url).toString()) : null;
+            if (!next) {
+                throw new Error(`Invalid redirect from ${url}`);
+            }
+            url = next;
+            continue;
+        }
+
+        if (res.status === 304) {
+            return { status: 'not_modified' };
+        }
+
+        if (!res.ok) {
+            throw new Error(`Fetching ${url} failed with HTTP ${res.status}`);
+        }
+
+        const declaredLength = Number(res.headers.get('content-length') || 0);
+        if (declaredLength > MAX_RESPONSE_BYTES) {
+            throw new Error(`${url} is larger than ${MAX_RESPONSE_BYTES / 1024 / 1024}MB`);
+        }
+
+        const body = Buffer.from(await res.arrayBuffer());
+        if (body.length > MAX_RESPONSE_BYTES) {
+            throw new Error(`${url} is larger than ${MAX_RESPONSE_BYTES / 1024 / 1024}MB`);
+        }
+
+        return {
+            status: 'ok',
+            url: url.toString(),
+            body,
+            contentType: res.headers.get('content-type') || '',
+            etag: res.headers.get('etag'),
+            lastModified: res.headers.get('last-modified'),
+        };
+    }
+
+    throw new Error(`Too many redirects for ${input}`);
+}
+
+// ============================================================================
+// SITEMAPS
+// ============================================================================
+
+/**
+ * Sitemap location for a site: the URL itself if it looks like a sitemap, otherwise /sitemap.xml
+ */
+export function getSitemapUrl(input: string): string | null {
+    const url = normalizeUrl(input);
+    if (!url) return null;
+    return /\.xml$/i.test(url.pathname) ? url.toString() : new URL('/sitemap.xml', url).toString();
+}
+
+/**
+ * Page URLs listed in a sitemap, following sitemap indexes.
+ * Only pages on the sitemap's own host are returned, deduplicated and capped at maxPages.
+ */
+export async function discoverSitemapUrls(sitemapUrl: string, maxPages: number): Promise<string[]> {
+    const host = normalizeUrl(sitemapUrl)?.host;
+    if (!host) {
+        throw new Error(`Invalid sitemap URL: ${sitemapUrl}`);
+    }
+
+    const pages = new Set<string>();
+    const visited = new Set<string>();
+
+    const visit = async (url: string, depth: number) => {
+        if (visited.has(url) || pages.size >= maxPages) return;
+        visited.add(url);
+
+        const fetched = await fetchUrl(url);
+        if (fetched.status !== 'ok') return;
+
+        const xml = fetched.body.toString('utf-8');
+        const locs = Array.from(xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi), ([, loc]) =>
+            loc.replace(/&amp;/g, '&')
+        );
+
+        if (/<sitemapindex[\s>]/i.test(xml)) {
+            if (depth >= MAX_SITEMAP_DEPTH) return;
+            for (const child of locs) {
+                try {
+                    await visit(child, depth + 1);
+                } catch (error) {
+                    console.error(`[WebCrawler] Failed to read child sitemap ${child}:`, error);
+                }
+            }
+            return;
+        }
+
+        for (const loc of locs) {
+            const page = normalizeUrl(loc);
+            if (page && page.host === host) pages.add(page.toString());
+            if (pages.size >= maxPages) break;
+        }
+    };
+
+    await visit(sitemapUrl, 0);
+    return Array.from(pages);
+}
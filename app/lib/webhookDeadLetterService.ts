@@ -0,0 +1,282 @@
+import { supabaseAdmin } from './supabaseAdmin';
+import { releaseProcessedMark } from './webhookDeduplication';
+
+/**
+ * Webhook Dead Letter Service
+ *
+ * Messenger events whose handler threw are kept in failed_webhook_events with the raw event,
+ * tenant and error instead of being lost inside waitUntil. The retry cron replays them with
+ * exponential backoff until max_retries; after that they wait in the admin screen to be replayed
+ * by hand or discarded. Every replay first claims the event's dedupe key through
+ * checkAndMarkProcessed, so an event is never handled twice at the same time.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const DEAD_LETTER_HANDLERS = ['message', 'image', 'postback', 'referral'] as const;
+export type DeadLetterHandler = typeof DEAD_LETTER_HANDLERS[number];
+
+export const DEAD_LETTER_STATUSES = ['pending', 'retrying', 'failed', 'success', 'discarded'] as const;
+export type DeadLetterStatus = typeof DEAD_LETTER_STATUSES[number];
+
+const RETRY_BASE_DELAY_MS = 60 * 1000;            // 1 min, 2 min, 4 min, ...
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const RETRY_BATCH_SIZE = 20;
+
+// The parts of a Messenger messaging event the handlers and replay rely on
+export interface MessagingEvent {
+    sender?: { id: string };
+    recipient?: { id: string };
+    timestamp?: number;
+    message?: {
+        mid?: string;
+        text?: string;
+        is_echo?: boolean;
+        attachments?: { type: string; payload?: { url?: string } }[];
+    };
+    postback?: { mid?: string; payload?: string; title?: string; referral?: unknown };
+    referral?: { ref?: string; source?: string; type?: string };
+}
+
+export interface FailedWebhookEvent {
+    id: string;
+    page_id: string;
+    user_id: string | null;
+    sender_id: string | null;
+    handler: DeadLetterHandler | null;           // null = a Central Router forward, not replayable here
+    dedupe_key: string | null;
+    destination_url: string | null;
+    payload: MessagingEvent;
+    error_message: string | null;
+    retry_count: number;
+    max_retries: number;
+    next_retry_at: string | null;
+    last_attempt_at: string | null;
+    resolved_at: string | null;
+    status: DeadLetterStatus;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface RecordFailedEventInput {
+    handler: DeadLetterHandler;
+    event: MessagingEvent;
+    pageId: string | null | undefined;
+    userId: string | null | undefined;
+    error: unknown;
+    dedupeKey?: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function getRetryDelayMs(retryCount: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, retryCount), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Key the event is deduplicated under: the message id when Facebook sent one, otherwise
+ * something stable for the event (postbacks and referrals don't always carry a mid)
+ */
+export function getDeadLetterDedupeKey(handler: DeadLetterHandler, event: MessagingEvent): string {
+    const mid = event.message?.mid || event.postback?.mid;
+    if (mid) return handler === 'message' || handler === 'postback' ? mid : `${mid}:${handler}`;
+    return `${handler}:${event.sender?.id || 'unknown'}:${event.timestamp || Date.now()}`;
+}
+
+function errorMessage(error: unknown): string {
+    if (error instanceof Error) return error.message;
+    return typeof error === 'string' ? error : JSON.stringify(error);
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Put a failed event in the dead letter queue and schedule its first retry.
+ * Never throws - it runs from the handlers' catch blocks.
+ */
+export async function recordFailedWebhookEvent(input: RecordFailedEventInput): Promise<void> {
+    const dedupeKey = input.dedupeKey || getDeadLetterDedupeKey(input.handler, input.event);
+
+    try {
+        // The original delivery claimed this key; give it back so a retry can claim it
+        await releaseProcessedMark(dedupeKey);
+
+        const { error } = await supabaseAdmin
+            .from('failed_webhook_events')
+            .insert({
+                page_id: input.pageId || input.event.recipient?.id || 'unknown',
+                user_id: input.userId || null,
+                sender_id: input.event.sender?.id || null,
+                handler: input.handler,
+                dedupe_key: dedupeKey,
+                payload: input.event,
+                error_message: errorMessage(input.error),
+                retry_count: 0,
+                next_retry_at: new Date(Date.now() + getRetryDelayMs(0)).toISOString(),
+                last_attempt_at: new Date().toISOString(),
+                status: 'pending',
+            });
+
+        if (error) {
+            console.error('[DeadLetter] Error recording failed event:', error);
+        } else {
+            console.log(`[DeadLetter] Recorded failed ${input.handler} event (${dedupeKey})`);
+        }
+    } catch (error) {
+        console.error('[DeadLetter] Exception recording failed event:', error);
+    }
+}
+
+// ============================================================================
+// RETRY STATE
+// ============================================================================
+
+/**
+ * Atomically take an event for a retry attempt. Returns null if it isn't in one of the
+ * given statuses anymore (another worker or admin got to it first).
+ */
+export async function claimFailedWebhookEvent(
+    id: string,
+    fromStatuses: DeadLetterStatus[] = ['pending']
+): Promise<FailedWebhookEvent | null> {
+    const { data, error } = await supabaseAdmin
+        .from('failed_webhook_events')
+        .update({ status: 'retrying', last_attempt_at: new Date().toISOString() })
+        .eq('id', id)
+        .in('status', fromStatuses)
+        .select('*')
+        .maybeSingle();
+
+    if (error) {
+        console.error('[DeadLetter] Error claiming event:', error);
+        return null;
+    }
+
+    return data as FailedWebhookEvent | null;
+}
+
+/**
+ * Store the outcome of a retry attempt: resolved, rescheduled with backoff, or failed for good
+ */
+export async function completeFailedWebhookEvent(
+    event: FailedWebhookEvent,
+    outcome: { ok: true; note?: string } | { ok: false; error: unknown }
+): Promise<DeadLetterStatus> {
+    const now = new Date();
+
+    if (outcome.ok) {
+        const { error } = await supabaseAdmin
+            .from('failed_webhook_events')
+            .update({
+                status: 'success',
+                resolved_at: now.toISOString(),
+                next_retry_at: null,
+                ...(outcome.note ? { error_message: outcome.note } : {}),
+            })
+            .eq('id', event.id);
+
+        if (error) console.error('[DeadLetter] Error resolving event:', error);
+        return 'success';
+    }
+
+    const retryCount = event.retry_count + 1;
+    const exhausted = retryCount >= event.max_retries;
+    const status: DeadLetterStatus = exhausted ? 'failed' : 'pending';
+
+    if (event.dedupe_key) {
+        await releaseProcessedMark(event.dedupe_key);
+    }
+
+    const { error } = await supabaseAdmin
+        .from('failed_webhook_events')
+        .update({
+            status,
+            retry_count: retryCount,
+            error_message: errorMessage(outcome.error),
+            next_retry_at: exhausted ? null : new Date(now.getTime() + getRetryDelayMs(retryCount)).toISOString(),
+        })
+        .eq('id', event.id);
+
+    if (error) console.error('[DeadLetter] Error rescheduling event:', error);
+    return status;
+}
+
+/**
+ * Ids of events whose next automatic retry is due
+ */
+export async function getDueFailedWebhookEventIds(limit: number = RETRY_BATCH_SIZE): Promise<string[]> {
+    const { data, error } = await supabaseAdmin
+        .from('failed_webhook_events')
+        .select('id')
+        .eq('status', 'pending')
+        .not('handler', 'is', null)
+        .lte('next_retry_at', new Date().toISOString())
+        .order('next_retry_at', { ascending: true })
+        .limit(limit);
+
+    if (error) {
+        console.error('[DeadLetter] Error fetching due events:', error);
+        return [];
+    }
+
+    return (data || []).map(row => row.id);
+}
+
+// ============================================================================
+// ADMIN
+// ============================================================================
+
+export async function listFailedWebhookEvents(options: {
+    status?: DeadLetterStatus;
+    userId?: string;
+    limit?: number;
+} = {}): Promise<FailedWebhookEvent[]> {
+    let query = supabaseAdmin
+        .from('failed_webhook_events')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(options.limit || 100);
+
+    if (options.status) {
+        query = query.eq('status', options.status);
+    }
+    if (options.userId) {
+        query = query.eq('user_id', options.userId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error('[DeadLetter] Error listing events:', error);
+        return [];
+    }
+
+    return (data || []) as FailedWebhookEvent[];
+}
+
+/**
+ * Drop events from the queue without replaying them. Events being retried right now are left alone.
+ */
+export async function discardFailedWebhookEvents(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const { data, error } = await supabaseAdmin
+        .from('failed_webhook_events')
+        .update({ status: 'discarded', next_retry_at: null, resolved_at: new Date().toISOString() })
+        .in('id', ids)
+        .in('status', ['pending', 'failed'])
+        .select('id');
+
+    if (error) {
+        console.error('[DeadLetter] Error discarding events:', error);
+        return 0;
+    }
+
+    return data?.length || 0;
+}
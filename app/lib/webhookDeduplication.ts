@@ -127,6 +127,23 @@ export async function checkAndMarkProcessed(messageId: string): Promise<boolean>
     }
 }
 
+/**
+ * Give up a claim made by checkAndMarkProcessed, so the message can be claimed again
+ * (used when its handler failed and the event went to the dead letter queue).
+ */
+export async function releaseProcessedMark(messageId: string): Promise<void> {
+    if (!messageId) return;
+
+    const { error } = await supabaseAdmin
+        .from('processed_webhook_messages')
+        .delete()
+        .eq('message_id', messageId);
+
+    if (error) {
+        console.error('[Dedup] Error releasing message:', error.message);
+    }
+}
+
 /**
  * Remove messages older than TTL
  */
@@ -0,0 +1,315 @@
+/**
+ * Outbound Webhook Event Service
+ *
+ * Delivers tenant events to the endpoints registered in webhook_subscriptions,
+ * and performs the HTTP calls made by workflow "HTTP Request" nodes.
+ *
+ * Each event POST carries:
+ * - X-Webhook-Event:     event type (e.g. "order.confirmed")
+ * - X-Webhook-Delivery:  delivery id (matches webhook_deliveries.id)
+ * - X-Webhook-Timestamp: unix seconds when the request was signed
+ * - X-Webhook-Signature: "sha256=" + HMAC-SHA256(secret, `${timestamp}.${body}`)
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { supabaseAdmin } from './supabaseAdmin';
+import { withRetry, isTransientError } from './retryHelper';
+import { fetch, type RequestInit, type Response } from 'undici';
+import { assertPublicUrl, normalizeUrl, publicDispatcher } from './urlSafety';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const WEBHOOK_EVENT_TYPES = [
+    'order.confirmed',
+    'appointment.booked',
+    'lead.stage_changed',
+    'form.submitted',
+    'digital_purchase.created',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export interface HttpRequestOptions {
+    method: string;
+    url: string;
+    headers?: Record<string, string>;
+    body?: string;
+    timeoutMs?: number;
+}
+
+export interface HttpRequestResult {
+    status: number;
+    body: string;
+    attempts: number;
+}
+
+interface WebhookSubscription {
+    id: string;
+    url: string;
+    secret: string;
+}
+
+// Error thrown for non-2xx responses so withRetry can inspect the status
+class HttpStatusError extends Error {
+    status: number;
+    body: string;
+    headers: Record<string, string>;
+
+    constructor(status: number, body: string, headers: Record<string, string>) {
+        super(`HTTP ${status}`);
+        this.status = status;
+        this.body = body;
+        this.headers = headers;
+    }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+const MAX_STORED_RESPONSE_LENGTH = 2000;
+
+const HTTP_RETRY_OPTIONS = {
+    maxAttempts: 3,
+    initialDelayMs: 1000,
+    backoffMultiplier: 2,
+    maxDelayMs: 10000,
+    shouldRetry: isTransientError,
+};
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+/**
+ * Fetch a tenant-supplied URL. Redirects are followed manually so every hop is checked
+ * to resolve to a public address, and the connection is made to the checked address -
+ * internal services and cloud metadata endpoints can't be reached through a webhook
+ * or a workflow HTTP node.
+ */
+async function fetchPublicUrl(input: string, init: RequestInit & { method: string }): Promise<Response> {
+    let url = normalizeUrl(input);
+    if (!url) {
+        throw new Error(`Invalid URL: ${input}`);
+    }
+    let { method, body } = init;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        await assertPublicUrl(url);
+
+        const response: Response = await fetch(url, { ...init, method, body, redirect: 'manual', dispatcher: publicDispatcher });
+
+        if (response.status < 300 || response.status >= 400 || response.status === 304) {
+            return response;
+        }
+
+        const location = response.headers.get('location');
+        const next: URL | null = location ? normalizeUrl(new URL(location, url).toString()) : null;
+        if (!next) {
+            throw new Error(`Invalid redirect from ${url}`);
+        }
+        // Like browsers: 303, and 301/302 after a POST, continue as a GET without a body
+        if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+            method = 'GET';
+            body = undefined;
+        }
+        url = next;
+    }
+
+    throw new Error(`Too many redirects for ${input}`);
+}
+
+/**
+ * Perform an HTTP request, retrying transient failures (network errors, 429, 5xx).
+ * Throws the last error when every attempt fails, the response is a non-retryable error,
+ * or the URL (or a redirect) points at a private address.
+ */
+export async function performHttpRequest(options: HttpRequestOptions): Promise<HttpRequestResult> {
+    const method = (options.method || 'GET').toUpperCase();
+    let attempts = 0;
+
+    const request = withRetry(async () => {
+        attempts++;
+        const response = await fetchPublicUrl(options.url, {
+            method,
+            headers: options.headers,
+            body: method === 'GET' || method === 'HEAD' ? undefined : options.body,
+            signal: AbortSignal.timeout(options.timeoutMs || DEFAULT_TIMEOUT_MS),
+        });
+        const body = await response.text();
+
+        if (!response.ok) {
+            throw new HttpStatusError(response.status, body, Object.fromEntries(response.headers.entries()));
+        }
+
+        return { status: response.status, body };
+    }, {
+        ...HTTP_RETRY_OPTIONS,
+        onRetry: (attempt, error, nextDelayMs) => {
+            console.warn(`[HttpRequest] ${method} ${options.url} attempt ${attempt} failed (${error.message}), retrying in ${nextDelayMs}ms`);
+        },
+    });
+
+    try {
+        const result = await request;
+        return { ...result, attempts };
+    } catch (error) {
+        // Expose how many attempts were made so callers can log it
+        if (error instanceof Error) Object.assign(error, { attempts });
+        throw error;
+    }
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+/**
+ * Generate a signing secret for a new subscription
+ */
+export function generateWebhookSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Sign a payload the way receivers are expected to verify it
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Subscription endpoints must be absolute http(s) URLs on public addresses
+ */
+export async function isValidWebhookUrl(url: string): Promise<boolean> {
+    const parsed = typeof url === 'string' ? normalizeUrl(url) : null;
+    if (!parsed) return false;
+    try {
+        await assertPublicUrl(parsed);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Keep only the known event types from user input
+ */
+export function filterWebhookEventTypes(events: unknown): WebhookEventType[] {
+    if (!Array.isArray(events)) return [];
+    return events.filter((e): e is WebhookEventType => (WEBHOOK_EVENT_TYPES as readonly string[]).includes(e));
+}
+
+// ============================================================================
+// EVENT DELIVERY
+// ============================================================================
+
+/**
+ * Send an event to every active subscription of the tenant that listens for it.
+ * Never throws - delivery failures are recorded in webhook_deliveries.
+ */
+export async function emitWebhookEvent(
+    userId: string | null | undefined,
+    eventType: WebhookEventType,
+    data: Record<string, unknown>
+): Promise<void> {
+    if (!userId) return;
+
+    try {
+        const { data: subscriptions, error } = await supabaseAdmin
+            .from('webhook_subscriptions')
+            .select('id, url, secret')
+            .eq('user_id', userId)
+            .eq('is_active', true)
+            .contains('events', [eventType]);
+
+        if (error) {
+            console.error('[WebhookEvents] Error fetching subscriptions:', error);
+            return;
+        }
+
+        if (!subscriptions || subscriptions.length === 0) return;
+
+        await Promise.all(
+            (subscriptions as WebhookSubscription[]).map(subscription =>
+                deliverEvent(userId, subscription, eventType, data)
+            )
+        );
+    } catch (error) {
+        console.error(`[WebhookEvents] Error emitting ${eventType}:`, error);
+    }
+}
+
+async function deliverEvent(
+    userId: string,
+    subscription: WebhookSubscription,
+    eventType: WebhookEventType,
+    data: Record<string, unknown>
+): Promise<void> {
+    const deliveryId = randomUUID();
+    const payload = {
+        id: deliveryId,
+        event: eventType,
+        created_at: new Date().toISOString(),
+        data,
+    };
+
+    const { error: insertError } = await supabaseAdmin
+        .from('webhook_deliveries')
+        .insert({
+            id: deliveryId,
+            user_id: userId,
+            subscription_id: subscription.id,
+            event_type: eventType,
+            payload,
+            status: 'pending',
+        });
+
+    if (insertError) {
+        console.error('[WebhookEvents] Error creating delivery log:', insertError);
+        return;
+    }
+
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+        const result = await performHttpRequest({
+            method: 'POST',
+            url: subscription.url,
+            headers: {
+                'Content-Type': 'application/json',
+                'X-Webhook-Event': eventType,
+                'X-Webhook-Delivery': deliveryId,
+                'X-Webhook-Timestamp': String(timestamp),
+                'X-Webhook-Signature': `sha256=${signWebhookPayload(subscription.secret, timestamp, body)}`,
+            },
+            body,
+        });
+
+        await supabaseAdmin
+            .from('webhook_deliveries')
+            .update({
+                status: 'success',
+                attempts: result.attempts,
+                response_status: result.status,
+                response_body: result.body.slice(0, MAX_STORED_RESPONSE_LENGTH),
+                delivered_at: new Date().toISOString(),
+            })
+            .eq('id', deliveryId);
+    } catch (error) {
+        const statusError = error instanceof HttpStatusError ? error : null;
+        console.error(`[WebhookEvents] Delivery ${deliveryId} to ${subscription.url} failed:`, error);
+
+        await supabaseAdmin
+            .from('webhook_deliveries')
+            .update({
+                status: 'failed',
+                attempts: (error as { attempts?: number }).attempts ?? 1,
+                response_status: statusError?.status ?? null,
+                response_body: statusError?.body.slice(0, MAX_STORED_RESPONSE_LENGTH) ?? null,
+                error: error instanceof Error ? error.message : String(error),
+            })
+            .eq('id', deliveryId);
+    }
+}
@@ -0,0 +1,93 @@
+/**
+ * Workflow version diffing
+ * Compares two workflow graphs (e.g. the draft and a published version) node by node.
+ * Keep this module free of server-only imports - it is bundled into the client.
+ */
+
+// Minimal workflow shape so both React Flow data and stored versions can be compared
+interface DiffWorkflowShape {
+    nodes: Array<{ id: string; data: Record<string, unknown> }>;
+    edges: Array<{ source: string; target: string; sourceHandle?: string | null }>;
+}
+
+export interface NodeDiff {
+    id: string;
+    label: string;
+    type: string;
+    fields: string[];  // Changed data fields (changed nodes only)
+}
+
+export interface EdgeDiff {
+    source: string;
+    target: string;
+    sourceHandle: string | null;
+}
+
+export interface WorkflowDiff {
+    addedNodes: NodeDiff[];
+    removedNodes: NodeDiff[];
+    changedNodes: NodeDiff[];
+    addedEdges: EdgeDiff[];
+    removedEdges: EdgeDiff[];
+}
+
+function describeNode(node: DiffWorkflowShape['nodes'][number], fields: string[] = []): NodeDiff {
+    return {
+        id: node.id,
+        label: String(node.data.label || node.data.type || node.id),
+        type: String(node.data.type || ''),
+        fields,
+    };
+}
+
+function edgeKey(edge: DiffWorkflowShape['edges'][number]): string {
+    return `${edge.source}:${edge.sourceHandle || ''}->${edge.target}`;
+}
+
+/**
+ * Changes needed to turn `before` into `after`.
+ * Node positions are ignored; only node data and connections count.
+ */
+export function diffWorkflows(before: DiffWorkflowShape, after: DiffWorkflowShape): WorkflowDiff {
+    const beforeNodes = new Map(before.nodes.map(n => [n.id, n]));
+    const afterNodes = new Map(after.nodes.map(n => [n.id, n]));
+
+    const addedNodes = after.nodes.filter(n => !beforeNodes.has(n.id)).map(n => describeNode(n));
+    const removedNodes = before.nodes.filter(n => !afterNodes.has(n.id)).map(n => describeNode(n));
+    const changedNodes: NodeDiff[] = [];
+
+    for (const node of after.nodes) {
+        const previous = beforeNodes.get(node.id);
+        if (!previous) continue;
+
+        const keys = new Set([...Object.keys(previous.data), ...Object.keys(node.data)]);
+        const fields = [...keys].filter(key => JSON.stringify(previous.data[key]) !== JSON.stringify(node.data[key]));
+        if (fields.length > 0) {
+            changedNodes.push(describeNode(node, fields));
+        }
+    }
+
+    const toEdgeDiff = (edge: DiffWorkflowShape['edges'][number]): EdgeDiff => ({
+        source: edge.source,
+        target: edge.target,
+        sourceHandle: edge.sourceHandle || null,
+    });
+    const beforeEdges = new Set(before.edges.map(edgeKey));
+    const afterEdges = new Set(after.edges.map(edgeKey));
+
+    return {
+        addedNodes,
+        removedNodes,
+        changedNodes,
+        addedEdges: after.edges.filter(e => !beforeEdges.has(edgeKey(e))).map(toEdgeDiff),
+        removedEdges: before.edges.filter(e => !afterEdges.has(edgeKey(e))).map(toEdgeDiff),
+    };
+}
+
+export function isWorkflowDiffEmpty(diff: WorkflowDiff): boolean {
+    return diff.addedNodes.length === 0
+        && diff.removedNodes.length === 0
+        && diff.changedNodes.length === 0
+        && diff.addedEdges.length === 0
+        && diff.removedEdges.length === 0;
+}
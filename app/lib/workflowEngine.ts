@@ -1,6 +1,17 @@
 import { supabase } from './supabase';
 import { sendMessengerMessage, sendMessengerAttachment, disableBotForLead, type AttachmentType } from './messengerService';
 import { getBotResponse } from './chatService';
+import { getLeadEntities } from './entityTrackingService';
+import { moveLeadToStage, updateLeadTags, assignLeadOwner, createLeadTask } from './pipelineService';
+import { updateLeadPriority, type PriorityLevel } from './priorityAnalysisService';
+import { enableFollowUpsForLead, disableFollowUpsForLead } from './followUpService';
+import { enrollLeadForStage } from './followUpSequenceService';
+import { extractPlaceholders, interpolateTemplate } from './workflowVariables';
+import { performHttpRequest } from './webhookEventService';
+import { generateChatCompletion } from './aiProviderService';
+import { authorizeSend, type MessagePurpose } from './messagingPolicyService';
+import type { WorkflowTriggerConfig } from './workflowVersionService';
+import { isSafeTriggerPattern } from './workflowValidation';
 
 interface WorkflowNode {
     id: string;
@@ -29,18 +40,71 @@ interface WorkflowData {
 interface ExecutionContext {
     leadId: string;
     senderId: string;
+    userId?: string;
     conversationHistory?: string;
     lastMessageTime?: Date;
     // Appointment-triggered workflow fields
     appointmentId?: string;
     appointmentDateTime?: Date;  // Combined date + start_time
+    // Workflow variables (question answers, set_variable nodes), keyed by variable name
+    variables?: Record<string, string>;
+    // Ids of the workflows that chained into this one via move_stage (including itself)
+    workflowChain?: string[];
+    // Made-up lead details used by simulations that don't run against a real lead
+    sandboxLead?: SandboxLead;
 }
 
+interface SandboxLead {
+    name?: string;
+    phone?: string;
+    email?: string;
+}
+
+// Maps a field of an http_request node's JSON response (dot path) to a workflow variable
+interface HttpResponseMapping {
+    variable: string;
+    path: string;
+}
+
+// A possible answer on a question node; its id doubles as the source handle
+interface QuestionBranch {
+    id: string;
+    label: string;
+    keywords?: string;  // Comma-separated alternatives used by exact/keyword matching
+}
+
+// A weighted route on a split node; its id doubles as the source handle
+interface SplitVariant {
+    id: string;
+    label: string;
+    weight: number;
+}
+
+// Details collected while a node runs, stored with its execution step
+interface StepTrace {
+    messageSent?: string;
+    branchTaken?: string;
+}
+
+type StepOutcome = 'completed' | 'waiting' | 'stopped' | 'failed';
+
+// Source handles on a question node that are not tied to a branch
+const QUESTION_NO_MATCH_HANDLE = 'no_match';
+const QUESTION_TIMEOUT_HANDLE = 'timeout';
+
+// Max number of workflows that can chain into each other through stage moves
+const MAX_WORKFLOW_CHAIN_DEPTH = 5;
+
+// A has_replied condition is met when the lead messaged within this window
+const HAS_REPLIED_WINDOW_MS = 3600000; // 1 hour
+
 interface ExecuteWorkflowOptions {
     skipPublishCheck?: boolean;
     appointmentId?: string;
     appointmentDateTime?: Date;
     userId?: string;  // Required for multi-user isolation
+    workflowChain?: string[];  // Workflows that triggered this one through stage moves
+    useDraft?: boolean;  // Run the editable draft instead of the published version (test runs)
 }
 
 export async function executeWorkflow(
@@ -83,7 +147,25 @@ export async function executeWorkflow(
 
     console.log('Workflow loaded:', workflow.name);
 
-    const workflowData = workflow.workflow_data as WorkflowData;
+    // Live runs use the published version; the draft can be edited without affecting them
+    let workflowData = workflow.workflow_data as WorkflowData;
+    let workflowVersionId: string | null = null;
+
+    if (!options.useDraft && workflow.published_version_id) {
+        const { data: version } = await supabase
+            .from('workflow_versions')
+            .select('id, workflow_data')
+            .eq('id', workflow.published_version_id)
+            .single();
+
+        if (version) {
+            workflowData = version.workflow_data as WorkflowData;
+            workflowVersionId = version.id;
+        } else {
+            console.warn('Published version not found, running draft for workflow:', workflowId);
+        }
+    }
+
     console.log('Workflow data:', JSON.stringify(workflowData, null, 2));
 
     // Find trigger node
@@ -100,9 +182,10 @@ export async function executeWorkflow(
         .from('workflow_executions')
         .insert({
             workflow_id: workflowId,
+            workflow_version_id: workflowVersionId,
             lead_id: leadId,
             current_node_id: triggerNode.id,
-            execution_data: { senderId },
+            execution_data: { senderId, variables: {}, workflowChain: [...(options?.workflowChain || []), workflowId] },
             status: 'pending',
             appointment_id: options?.appointmentId || null,
             user_id: options?.userId || workflow.user_id || null,
@@ -128,6 +211,9 @@ export async function executeWorkflow(
         senderId,
         appointmentId: options?.appointmentId,
         appointmentDateTime: options?.appointmentDateTime,
+        userId: options?.userId || workflow.user_id || undefined,
+        variables: {},
+        workflowChain: [...(options?.workflowChain || []), workflowId],
     };
 
     // Start executing from trigger
@@ -173,9 +259,36 @@ export async function continueExecution(
     console.log(`Executing node ${currentNode.id} (${currentNode.data.type})`);
     console.log('Node data:', JSON.stringify(currentNode.data, null, 2));
 
-    // Execute the node
-    const nextNodeId = await executeNode(currentNode, workflowData, context, executionId);
+    // Execute the node, recording a trace step whatever the outcome
+    const startedAt = new Date();
+    const trace: StepTrace = {};
+    let nextNodeId: string | null | 'WAIT' | 'STOP';
+
+    try {
+        nextNodeId = await executeNode(currentNode, workflowData, context, executionId, trace);
+    } catch (error) {
+        console.error(`Node ${currentNode.id} failed:`, error);
+        await recordExecutionStep(executionId, currentNode, context, startedAt, 'failed', {
+            ...trace,
+            error: error instanceof Error ? error.message : String(error),
+        });
+        // Leave current_node_id on the failed node so the execution can be retried from it
+        await supabase
+            .from('workflow_executions')
+            .update({ status: 'failed' })
+            .eq('id', executionId);
+        return;
+    }
+
     console.log('Next node ID:', nextNodeId);
+    await recordExecutionStep(
+        executionId,
+        currentNode,
+        context,
+        startedAt,
+        nextNodeId === 'WAIT' ? 'waiting' : nextNodeId === 'STOP' ? 'stopped' : 'completed',
+        trace
+    );
 
     if (nextNodeId === 'WAIT') {
         // Node scheduled for later execution
@@ -211,12 +324,33 @@ export async function continueExecution(
     await continueExecution(executionId, workflowData, context);
 }
 
+/**
+ * Run one node and return the next node id, 'WAIT' or 'STOP'.
+ * With `simulation` set this is a dry run: branching is the same, but side effects are
+ * recorded as simulation events instead of performed, and waits move the virtual clock.
+ */
 async function executeNode(
     node: WorkflowNode,
     workflowData: WorkflowData,
     context: ExecutionContext,
-    executionId: string
+    executionId: string,
+    trace: StepTrace,
+    simulation?: SimulationState
 ): Promise<string | null | 'WAIT' | 'STOP'> {
+    // No-op outside a simulation
+    const log = (kind: SimulationEvent['kind'], text: string, extra: Partial<SimulationEvent> = {}) => {
+        if (!simulation) return;
+        simulation.events.push({
+            at: new Date(simulation.clock).toISOString(),
+            kind,
+            text,
+            nodeId: node.id,
+            nodeLabel: node.data.label,
+            ...extra,
+        });
+    };
+    const now = simulation ? simulation.clock : Date.now();
+
     switch (node.data.type) {
         case 'trigger':
             // Just pass through to next node
@@ -224,9 +358,19 @@ async function executeNode(
 
         case 'message':
             const messageMode = node.data.messageMode || 'custom';
-            let messageText = node.data.messageText || node.data.label || 'Hello!';
+            let messageText = await renderTemplate(node.data.messageText || node.data.label || 'Hello!', context);
             const imageUrl = node.data.imageUrl;
 
+            if (simulation) {
+                if (imageUrl) {
+                    log('attachment', `${node.data.attachmentType || 'image'}: ${imageUrl}`);
+                }
+                if (messageText.trim()) {
+                    log('message', messageMode === 'ai' ? `[AI-written from instruction] ${messageText}` : messageText);
+                }
+                return getNextNode(node.id, workflowData);
+            }
+
             if (messageMode === 'ai') {
                 // Generate AI message based on prompt + conversation context
                 try {
@@ -258,24 +402,49 @@ Respond with ONLY the message text to send, nothing else. Keep it natural and co
                 }
             }
 
+            // Checked once up front so a blocked step fails with the policy reason, not a send error
+            const purpose = getMessagePurpose(node, workflowData);
+            const decision = await authorizeSend(context.senderId, purpose, {
+                source: 'workflow',
+                sourceId: executionId,
+                preview: messageText || imageUrl,
+            });
+            if (!decision.allowed) {
+                throw new Error(`Blocked by the Messenger messaging window: ${decision.reason}`);
+            }
+
+            const hasText = Boolean(messageText && messageText.trim());
+            // A one-time notification token covers a single send, so only the text goes out under one
+            const sendAttachment = Boolean(imageUrl) && !(decision.oneTimeNotifToken && hasText);
+            if (imageUrl && !sendAttachment) {
+                console.warn('Skipping the attachment: only the text can go out under a one-time notification');
+            }
+
             // Send attachment first if present (image, video, audio, or file)
-            if (imageUrl) {
+            if (sendAttachment) {
                 const attachmentType = (node.data.attachmentType as AttachmentType) || 'image';
-                await sendMessengerAttachment(
+                const attachmentSent = await sendMessengerAttachment(
                     context.senderId,
                     imageUrl,
                     attachmentType,
-                    { messagingType: 'MESSAGE_TAG', tag: 'ACCOUNT_UPDATE' }
+                    { decision }
                 );
+                if (!attachmentSent) {
+                    throw new Error(`Failed to send ${attachmentType} attachment to lead`);
+                }
             }
 
             // Send text message (if there's any text to send)
-            if (messageText && messageText.trim()) {
-                await sendMessengerMessage(
-                    context.senderId,
-                    messageText,
-                    { messagingType: 'MESSAGE_TAG', tag: 'ACCOUNT_UPDATE' }
-                );
+            if (hasText) {
+                trace.messageSent = messageText;
+                const sent = await sendMessengerMessage(context.senderId, messageText, { decision });
+                if (!sent) {
+                    // Failing the step after the attachment went out would send it again on retry
+                    if (!sendAttachment) {
+                        throw new Error('Failed to send message to lead');
+                    }
+                    console.error('Attachment sent but the text failed; not failing the step so a retry cannot repeat the attachment');
+                }
             }
             return getNextNode(node.id, workflowData);
 
@@ -289,24 +458,23 @@ Respond with ONLY the message text to send, nothing else. Keep it natural and co
 
             if (waitMode === 'before_appointment' && context.appointmentDateTime) {
                 // Schedule relative to appointment time (e.g., "1 day before")
-                const offsetMs = unit === 'hours' ? duration * 3600000 :
-                    unit === 'days' ? duration * 86400000 :
-                        duration * 60000; // minutes
-
-                scheduledFor = new Date(context.appointmentDateTime.getTime() - offsetMs);
+                scheduledFor = new Date(context.appointmentDateTime.getTime() - durationToMs(duration, unit));
 
                 // Don't schedule if the time has already passed
-                if (scheduledFor.getTime() <= Date.now()) {
+                if (scheduledFor.getTime() <= now) {
                     console.log('Scheduled time has passed, skipping to next node');
+                    log('wait', 'Scheduled time has already passed, continuing immediately');
                     return getNextNode(node.id, workflowData);
                 }
             } else {
                 // Default: schedule for duration from now
-                const delayMs = unit === 'hours' ? duration * 3600000 :
-                    unit === 'days' ? duration * 86400000 :
-                        duration * 60000; // minutes
+                scheduledFor = new Date(now + durationToMs(duration, unit));
+            }
 
-                scheduledFor = new Date(Date.now() + delayMs);
+            if (simulation) {
+                log('wait', `Wait ${duration} ${unit}${waitMode === 'before_appointment' && context.appointmentDateTime ? ' before the appointment' : ''}`);
+                advanceSimulationClock(simulation, scheduledFor.getTime());
+                return getNextNode(node.id, workflowData);
             }
 
             await supabase
@@ -315,23 +483,180 @@ Respond with ONLY the message text to send, nothing else. Keep it natural and co
                     scheduled_for: scheduledFor.toISOString(),
                     current_node_id: getNextNode(node.id, workflowData),
                     // Store appointment context for cron to use when resuming
-                    execution_data: {
-                        senderId: context.senderId,
-                        appointmentId: context.appointmentId,
-                        appointmentDateTime: context.appointmentDateTime?.toISOString(),
-                    },
+                    execution_data: buildExecutionData(context),
                 })
                 .eq('id', executionId);
 
             return 'WAIT';
 
-        case 'smart_condition':
-            const conditionMet = await evaluateSmartCondition(node, context);
+        case 'smart_condition': {
+            const conditionType = node.data.conditionType || 'has_replied';
+            const conditionMet = await evaluateSmartCondition(node, context, simulation);
+            trace.branchTaken = conditionMet ? 'true' : 'false';
+
+            if (conditionType === 'has_replied') {
+                log('branch', `Customer replied in the last hour: ${conditionMet ? 'yes' : 'no'}`);
+            } else if (conditionType === 'ai_rule' && simulation) {
+                const rule = await renderTemplate(node.data.conditionRule || node.data.description || '', context);
+                log('branch', `AI rule "${rule}" assumed ${conditionMet ? 'true' : 'false'}`);
+            }
             return getNextNodeByCondition(node.id, workflowData, conditionMet);
+        }
 
-        case 'stop_bot':
-            await disableBotForLead(context.leadId, node.data.reason || 'Workflow stopped');
+        case 'stop_bot': {
+            const reason = await renderTemplate(node.data.reason || 'Workflow stopped', context);
+            if (simulation) {
+                log('action', `Would turn off the bot: ${reason}`);
+            } else {
+                await disableBotForLead(context.leadId, reason);
+            }
             return 'STOP';
+        }
+
+        case 'move_stage':
+            if (!node.data.stageId) {
+                return getNextNode(node.id, workflowData);
+            }
+            if (simulation) {
+                const { data: stage } = await supabase
+                    .from('pipeline_stages')
+                    .select('name')
+                    .eq('id', node.data.stageId)
+                    .maybeSingle();
+                log('action', `Would move the lead to "${stage?.name || 'unknown stage'}"`);
+            } else {
+                const moveResult = await moveLeadToStage(context.leadId, node.data.stageId, {
+                    userId: context.userId,
+                    reason: `Workflow: ${node.data.label || 'Move stage'}`,
+                    changedBy: 'workflow',
+                    allowRegression: !!node.data.allowRegression,
+                    triggerWorkflows: node.data.triggerWorkflows !== false,
+                    workflowChain: context.workflowChain,
+                });
+                console.log(`Move stage result: ${moveResult.moved ? 'moved' : 'skipped'} (${moveResult.reason})`);
+            }
+            return getNextNode(node.id, workflowData);
+
+        case 'tag_lead': {
+            const tagAction = node.data.tagAction === 'remove' ? 'remove' : 'add';
+            const tags = (await renderTemplate(node.data.tags || '', context)).split(',').map(t => t.trim()).filter(Boolean);
+            if (simulation) {
+                log('action', `Would ${tagAction} tags: ${tags.join(', ') || '(none)'}`);
+            } else {
+                await updateLeadTags(context.leadId, tagAction, tags);
+            }
+            return getNextNode(node.id, workflowData);
+        }
+
+        case 'assign_owner': {
+            const owner = (await renderTemplate(node.data.ownerName || '', context)).trim();
+            if (simulation) {
+                log('action', owner ? `Would assign the lead to ${owner}` : 'Would clear the lead owner');
+            } else {
+                await assignLeadOwner(context.leadId, owner);
+            }
+            return getNextNode(node.id, workflowData);
+        }
+
+        case 'create_task': {
+            const taskTitle = (await renderTemplate(node.data.taskTitle || '', context)).trim();
+            if (!taskTitle) {
+                return getNextNode(node.id, workflowData);
+            }
+            const dueAt = getTaskDueAt(node, now);
+            if (simulation) {
+                log('action', `Would create task "${taskTitle}"${dueAt ? `, due ${dueAt}` : ''}`);
+            } else {
+                const { data: execution } = await supabase
+                    .from('workflow_executions')
+                    .select('workflow_id')
+                    .eq('id', executionId)
+                    .single();
+                await createLeadTask(context.leadId, {
+                    title: taskTitle,
+                    notes: await renderTemplate(node.data.taskNotes || '', context),
+                    dueAt,
+                    workflowId: execution?.workflow_id,
+                });
+            }
+            return getNextNode(node.id, workflowData);
+        }
+
+        case 'set_priority': {
+            const priority = (node.data.priority as PriorityLevel) || 'medium';
+            if (simulation) {
+                log('action', `Would set priority to ${priority}`);
+            } else {
+                await updateLeadPriority(context.senderId, {
+                    priority,
+                    reason: `Set by workflow: ${node.data.label || 'Set priority'}`,
+                    confidence: 1,
+                });
+            }
+            return getNextNode(node.id, workflowData);
+        }
+
+        case 'toggle_follow_ups': {
+            const enable = node.data.followUpAction === 'enable';
+            if (simulation) {
+                log('action', `Would turn follow-ups ${enable ? 'on' : 'off'}`);
+            } else if (enable) {
+                await enableFollowUpsForLead(context.senderId);
+            } else {
+                await disableFollowUpsForLead(context.senderId);
+            }
+            return getNextNode(node.id, workflowData);
+        }
+
+        case 'set_variable':
+            if (node.data.variableName) {
+                const value = await renderTemplate(node.data.variableValue || '', context);
+                context.variables = { ...(context.variables || {}), [node.data.variableName]: value };
+                if (simulation) {
+                    log('action', `Set {{var.${node.data.variableName}}} = "${value}"`);
+                } else {
+                    await supabase
+                        .from('workflow_executions')
+                        .update({ execution_data: buildExecutionData(context) })
+                        .eq('id', executionId);
+                }
+            }
+            return getNextNode(node.id, workflowData);
+
+        case 'question':
+            if (simulation) {
+                return answerSimulatedQuestion(node, workflowData, context, simulation, log);
+            }
+            trace.messageSent = await askQuestion(node, context, executionId, getMessagePurpose(node, workflowData));
+            return 'WAIT';
+
+        case 'http_request':
+            if (simulation) {
+                const url = await renderTemplate(node.data.requestUrl || '', context, encodeURIComponent);
+                log('action', `Would call ${String(node.data.httpMethod || 'POST').toUpperCase()} ${url || '(no URL)'}`);
+                log('branch', 'Request assumed successful');
+                trace.branchTaken = 'success';
+            } else {
+                const requestSucceeded = await executeHttpRequest(node, context, executionId);
+                trace.branchTaken = requestSucceeded ? 'success' : 'error';
+            }
+            return getNextNodeByHandle(node.id, workflowData, trace.branchTaken);
+
+        case 'split': {
+            const variants = getSplitVariants(node);
+            // A dry run picks at random every time instead of keeping the lead's sticky assignment
+            const variant = simulation
+                ? (variants.length > 0 ? pickSplitVariant(variants) : null)
+                : await assignSplitVariant(node, context, executionId);
+            if (!variant) {
+                log('branch', 'Split has no weighted variants');
+                return getNextNode(node.id, workflowData);
+            }
+            trace.branchTaken = variant.id;
+            const total = variants.reduce((sum, v) => sum + v.weight, 0);
+            log('branch', `Variant "${variant.label || variant.id}" (${Math.round((variant.weight / total) * 100)}% chance)`);
+            return getNextNodeByHandle(node.id, workflowData, variant.id);
+        }
 
         default:
             console.warn('Unknown node type:', node.data.type);
@@ -366,164 +691,1109 @@ function getNextNodeByCondition(
     nodeId: string,
     workflowData: WorkflowData,
     conditionMet: boolean
+): string | null {
+    return getNextNodeByHandle(nodeId, workflowData, conditionMet ? 'true' : 'false');
+}
+
+function getNextNodeByHandle(
+    nodeId: string,
+    workflowData: WorkflowData,
+    handle: string
 ): string | null {
     const edge = workflowData.edges.find(
-        e => e.source === nodeId && e.sourceHandle === (conditionMet ? 'true' : 'false')
+        e => e.source === nodeId && e.sourceHandle === handle
     );
     return edge?.target || null;
 }
 
-async function evaluateSmartCondition(
-    node: WorkflowNode,
-    context: ExecutionContext
-): Promise<boolean> {
-    const conditionType = node.data.conditionType || 'has_replied';
+// Due date for a create_task node, counted from `from`; null when the node has no due time
+function getTaskDueAt(node: WorkflowNode, from: number): string | null {
+    const dueIn = parseInt(node.data.dueIn || '0');
+    if (!(dueIn > 0)) return null;
+    return new Date(from + durationToMs(dueIn, node.data.dueUnit || 'hours')).toISOString();
+}
 
-    if (conditionType === 'has_replied') {
-        // Check if user has sent a message recently
-        const { data: lead } = await supabase
-            .from('leads')
-            .select('last_message_at')
-            .eq('id', context.leadId)
-            .single();
+function durationToMs(duration: number, unit: string): number {
+    return unit === 'hours' ? duration * 3600000 :
+        unit === 'days' ? duration * 86400000 :
+            duration * 60000; // minutes
+}
 
-        if (!lead?.last_message_at) return false;
+/**
+ * Resolve {{namespace.key}} placeholders in a node's text.
+ * Only the sources actually referenced by the template are queried.
+ */
+async function renderTemplate(
+    template: string,
+    context: ExecutionContext,
+    escapeValue?: (value: string) => string
+): Promise<string> {
+    const placeholders = extractPlaceholders(template);
+    if (placeholders.length === 0) return template;
 
-        const lastMessageTime = new Date(lead.last_message_at);
-        const timeSinceMessage = Date.now() - lastMessageTime.getTime();
-        const threshold = 3600000; // 1 hour
+    const namespaces = new Set(placeholders.map(p => p.split('.')[0]));
+    const values: Record<string, string> = {};
 
-        return timeSinceMessage < threshold;
+    for (const [name, value] of Object.entries(context.variables || {})) {
+        values[`var.${name}`] = value;
     }
 
-    if (conditionType === 'ai_rule') {
-        // Use AI to evaluate custom rule
-        const rule = node.data.conditionRule || node.data.description;
-        if (!rule) return false;
+    if (namespaces.has('lead') && (context.sandboxLead || context.leadId)) {
+        const { data: lead } = context.sandboxLead
+            ? { data: context.sandboxLead }
+            : await supabase
+                .from('leads')
+                .select('name, phone, email')
+                .eq('id', context.leadId)
+                .single();
+
+        if (lead) {
+            values['lead.name'] = lead.name || '';
+            values['lead.first_name'] = lead.name?.split(' ')[0] || '';
+            values['lead.phone'] = lead.phone || '';
+            values['lead.email'] = lead.email || '';
+        }
+    }
 
-        try {
-            const prompt = `You are evaluating a condition for a workflow automation.
-      
-Condition to check: ${rule}
+    if (namespaces.has('entity') && context.senderId) {
+        // Most recently updated entity wins; match by key first, then by type
+        const entities = await getLeadEntities(context.senderId, context.userId);
+        for (const entity of [...entities].reverse()) {
+            values[`entity.${entity.entity_type}`] = entity.entity_value;
+        }
+        for (const entity of [...entities].reverse()) {
+            values[`entity.${entity.entity_key}`] = entity.entity_value;
+        }
+    }
 
-Context:
-- Lead ID: ${context.leadId}
-- Recent conversation context available
+    if (namespaces.has('appointment') && (context.appointmentId || context.senderId)) {
+        let query = supabase
+            .from('appointments')
+            .select('appointment_date, start_time');
+
+        query = context.appointmentId
+            ? query.eq('id', context.appointmentId)
+            : query
+                .eq('sender_psid', context.senderId)
+                .neq('status', 'cancelled')
+                .gte('appointment_date', new Date().toISOString().split('T')[0])
+                .order('appointment_date', { ascending: true });
+
+        if (context.userId) {
+            query = query.eq('user_id', context.userId);
+        }
 
-Respond with ONLY "true" or "false" based on whether the condition is met.`;
+        const { data: appointment } = await query.limit(1).maybeSingle();
 
-            const response = await getBotResponse(prompt, context.senderId);
-            return response.toLowerCase().includes('true');
-        } catch (error) {
-            console.error('Error evaluating AI condition:', error);
-            return false;
+        if (appointment) {
+            const [year, month, day] = appointment.appointment_date.split('-').map(Number);
+            const [hours, minutes] = appointment.start_time.split(':').map(Number);
+            const date = new Date(year, month - 1, day, hours, minutes);
+            values['appointment.date'] = date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+            values['appointment.time'] = date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
         }
     }
 
-    return false;
-}
+    if (namespaces.has('order') && context.leadId) {
+        const { data: order } = await supabase
+            .from('orders')
+            .select('id, total_amount, status, order_items(product_name, quantity)')
+            .eq('lead_id', context.leadId)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (order) {
+            values['order.id'] = order.id.substring(0, 8).toUpperCase();
+            values['order.total'] = `₱${Number(order.total_amount || 0).toLocaleString()}`;
+            values['order.status'] = order.status;
+            values['order.items'] = (order.order_items as Array<{ product_name: string; quantity: number }> || [])
+                .map(item => `${item.product_name} x${item.quantity}`)
+                .join(', ');
+        }
+    }
 
-export async function triggerWorkflowsForStage(stageId: string, leadId: string): Promise<void> {
-    console.log(`Checking workflows for stage ${stageId} and lead ${leadId}`);
+    if (escapeValue) {
+        for (const key of Object.keys(values)) {
+            values[key] = escapeValue(values[key]);
+        }
+    }
 
-    // First, get the stage to find its user_id for proper tenant isolation
-    const { data: stage, error: stageError } = await supabase
-        .from('pipeline_stages')
-        .select('user_id')
-        .eq('id', stageId)
-        .single();
+    return interpolateTemplate(template, values);
+}
 
-    if (stageError || !stage?.user_id) {
-        console.error('Error fetching stage or missing user_id:', stageError);
-        return;
-    }
+// Escape a value for use inside a JSON string literal ("{{lead.name}}" in a request body)
+function escapeJsonString(value: string): string {
+    return JSON.stringify(value).slice(1, -1);
+}
 
-    const userId = stage.user_id;
-    console.log(`Stage belongs to user: ${userId}`);
+// Read a dot path ("data.items.0.id") from a parsed JSON value
+function getValueAtPath(value: unknown, path: string): unknown {
+    return path.split('.').filter(Boolean).reduce<unknown>((current, key) => {
+        if (current === null || current === undefined || typeof current !== 'object') return undefined;
+        return (current as Record<string, unknown>)[key];
+    }, value);
+}
 
-    const { data: workflows, error: workflowError } = await supabase
-        .from('workflows')
-        .select('*')
-        .eq('trigger_stage_id', stageId)
-        .eq('is_published', true)
-        .eq('user_id', userId);
+/**
+ * Call an external API for an http_request node.
+ * Placeholders are URL-encoded in the URL and JSON-escaped in the body; mapped response
+ * fields are stored as workflow variables. Returns false when the request fails after retries.
+ */
+async function executeHttpRequest(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    executionId: string
+): Promise<boolean> {
+    const method = String(node.data.httpMethod || 'POST').toUpperCase();
+    const url = await renderTemplate(node.data.requestUrl || '', context, encodeURIComponent);
 
-    if (workflowError) {
-        console.error('Error fetching workflows:', workflowError);
-        return;
+    if (!url) {
+        console.warn('HTTP request node has no URL:', node.id);
+        return false;
     }
 
-    if (!workflows || workflows.length === 0) {
-        console.log('No workflows triggered for stage:', stageId);
-        return;
+    const headers: Record<string, string> = {};
+    for (const line of String(node.data.requestHeaders || '').split('\n')) {
+        const separator = line.indexOf(':');
+        if (separator <= 0) continue;
+        headers[line.slice(0, separator).trim()] = await renderTemplate(line.slice(separator + 1).trim(), context);
     }
 
-    console.log(`Found ${workflows.length} workflows to trigger:`, workflows.map(w => w.name));
+    let body: string | undefined;
+    if (method !== 'GET' && node.data.requestBody) {
+        body = await renderTemplate(node.data.requestBody, context, escapeJsonString);
+        if (!Object.keys(headers).some(h => h.toLowerCase() === 'content-type')) {
+            headers['Content-Type'] = 'application/json';
+        }
+    }
 
-    const { data: lead, error: leadError } = await supabase
-        .from('leads')
-        .select('sender_id')
-        .eq('id', leadId)
-        .single();
+    try {
+        const result = await performHttpRequest({ method, url, headers, body });
+        console.log(`HTTP request ${method} ${url} -> ${result.status}`);
 
-    if (leadError) {
-        console.error('Error fetching lead:', leadError);
-        return;
-    }
+        const mappings = ((node.data.responseMappings as HttpResponseMapping[] | undefined) || [])
+            .filter(m => m.variable && m.path);
 
-    if (!lead?.sender_id) {
-        console.error('Lead not found or no sender_id:', leadId);
-        return;
-    }
+        if (mappings.length > 0) {
+            let json: unknown = null;
+            try {
+                json = JSON.parse(result.body);
+            } catch {
+                console.warn('HTTP request response is not JSON, mapped variables will be empty');
+            }
 
-    console.log('Lead sender_id:', lead.sender_id);
+            const variables = { ...(context.variables || {}) };
+            for (const mapping of mappings) {
+                const value = getValueAtPath(json, mapping.path);
+                variables[mapping.variable] = value === null || value === undefined ? ''
+                    : typeof value === 'object' ? JSON.stringify(value)
+                        : String(value);
+            }
+            context.variables = variables;
 
-    for (const workflow of workflows) {
-        console.log(`Executing workflow: ${workflow.name} (${workflow.id})`);
-        // Skip publish check since we already filtered for published workflows
-        await executeWorkflow(workflow.id, leadId, lead.sender_id, { skipPublishCheck: true, userId });
+            await supabase
+                .from('workflow_executions')
+                .update({ execution_data: buildExecutionData(context) })
+                .eq('id', executionId);
+        }
+
+        return true;
+    } catch (error) {
+        console.error(`HTTP request ${method} ${url} failed:`, error);
+        return false;
     }
 }
 
 /**
- * Trigger workflows when an appointment is booked
- * Schedules messages relative to the appointment time (e.g., 1 day before, 1 hour before)
- * @param appointmentId - The appointment ID
- * @param senderId - Facebook PSID of the person who booked
- * @param appointmentDate - Date in YYYY-MM-DD format
- * @param startTime - Time in HH:mm:ss format
- * @param userId - The user who owns the appointment (required for multi-tenant isolation)
+ * Graph an execution runs on: the version it started on, or the workflow's draft for
+ * executions without a version (test runs and executions started before versioning)
  */
-export async function triggerWorkflowsForAppointment(
-    appointmentId: string,
-    senderId: string,
-    appointmentDate: string,  // YYYY-MM-DD format
-    startTime: string,        // HH:mm:ss format
-    userId?: string           // Required for multi-user isolation
-): Promise<void> {
-    console.log(`Checking workflows for appointment ${appointmentId}, userId: ${userId}`);
+export function getExecutionWorkflowData(execution: {
+    workflows?: unknown;
+    workflow_version?: unknown;
+}): WorkflowData | undefined {
+    const version = execution.workflow_version as { workflow_data: WorkflowData } | null | undefined;
+    const workflow = execution.workflows as { workflow_data: WorkflowData } | null | undefined;
+    return version?.workflow_data || workflow?.workflow_data;
+}
 
-    if (!userId) {
-        console.error('No userId provided for appointment workflow trigger');
-        return;
+// Triggers whose workflows message about something the lead booked or bought
+const TRIGGER_MESSAGE_PURPOSES: Record<string, MessagePurpose> = {
+    appointment_booked: 'confirmed_event',
+    digital_product_purchased: 'post_purchase',
+    order_status_changed: 'post_purchase',
+};
+
+// Purpose of a message or question step for the messaging window policy: set on the node,
+// otherwise implied by the workflow's trigger
+function getMessagePurpose(node: WorkflowNode, workflowData: WorkflowData): MessagePurpose {
+    if (node.data.messagePurpose) {
+        return node.data.messagePurpose as MessagePurpose;
     }
+    const triggerType = workflowData.nodes.find(n => n.data.type === 'trigger')?.data.triggerType;
+    return TRIGGER_MESSAGE_PURPOSES[triggerType] || 'workflow';
+}
 
-    // Find workflows with appointment_booked trigger for this user
-    const { data: workflows, error: workflowError } = await supabase
-        .from('workflows')
-        .select('*')
-        .eq('trigger_type', 'appointment_booked')
-        .eq('is_published', true)
-        .eq('user_id', userId);
+// Serialize the parts of the context the cron and reply handler need to resume an execution
+function buildExecutionData(context: ExecutionContext) {
+    return {
+        senderId: context.senderId,
+        appointmentId: context.appointmentId,
+        appointmentDateTime: context.appointmentDateTime?.toISOString(),
+        variables: context.variables || {},
+        workflowChain: context.workflowChain || [],
+    };
+}
 
-    if (workflowError) {
-        console.error('Error fetching appointment workflows:', workflowError);
-        return;
+/**
+ * Send a question node's prompt and suspend the execution until the lead replies.
+ * The execution is parked in 'waiting_reply'; scheduled_for holds the timeout deadline (if any)
+ * so the cron can take the timeout edge when it passes.
+ */
+async function askQuestion(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    executionId: string,
+    purpose: MessagePurpose
+): Promise<string> {
+    const questionText = await renderTemplate(node.data.questionText || node.data.label || 'Can you tell us more?', context);
+    const branches = (node.data.branches as QuestionBranch[] | undefined) || [];
+    const quickReplies = node.data.useQuickReplies
+        ? branches.map(b => b.label).filter(Boolean)
+        : undefined;
+
+    const decision = await authorizeSend(context.senderId, purpose, { source: 'workflow', sourceId: executionId, preview: questionText });
+    if (!decision.allowed) {
+        throw new Error(`Blocked by the Messenger messaging window: ${decision.reason}`);
     }
 
-    if (!workflows || workflows.length === 0) {
-        console.log('No appointment-triggered workflows found for user:', userId);
-        return;
+    const sent = await sendMessengerMessage(
+        context.senderId,
+        questionText,
+        { decision, quickReplies }
+    );
+    if (!sent) {
+        throw new Error('Failed to send question to lead');
+    }
+
+    const timeoutDuration = parseInt(node.data.timeoutDuration || '0');
+    const timeoutAt = timeoutDuration > 0
+        ? new Date(Date.now() + durationToMs(timeoutDuration, node.data.timeoutUnit || 'hours'))
+        : null;
+
+    await supabase
+        .from('workflow_executions')
+        .update({
+            status: 'waiting_reply',
+            current_node_id: node.id,
+            scheduled_for: timeoutAt?.toISOString() || null,
+            execution_data: buildExecutionData(context),
+        })
+        .eq('id', executionId);
+
+    return questionText;
+}
+
+function getSplitVariants(node: WorkflowNode): SplitVariant[] {
+    return ((node.data.variants as SplitVariant[] | undefined) || [])
+        .map(v => ({ ...v, weight: Number(v.weight) || 0 }))
+        .filter(v => v.weight > 0);
+}
+
+// Weighted random pick
+function pickSplitVariant(variants: SplitVariant[]): SplitVariant {
+    const total = variants.reduce((sum, v) => sum + v.weight, 0);
+    let roll = Math.random() * total;
+    for (const variant of variants) {
+        roll -= variant.weight;
+        if (roll < 0) return variant;
+    }
+    return variants[variants.length - 1];
+}
+
+/**
+ * Route a lead through a split node. Assignments are sticky: a lead that reaches the same split
+ * again (e.g. the workflow re-triggers) keeps its variant, unless that variant was removed.
+ */
+async function assignSplitVariant(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    executionId: string
+): Promise<SplitVariant | null> {
+    const variants = getSplitVariants(node);
+    if (variants.length === 0) {
+        console.warn('Split node has no weighted variants:', node.id);
+        return null;
+    }
+
+    const { data: execution } = await supabase
+        .from('workflow_executions')
+        .select('workflow_id, workflow_version_id')
+        .eq('id', executionId)
+        .single();
+
+    if (!execution) {
+        return pickSplitVariant(variants);
+    }
+
+    const { data: existing } = await supabase
+        .from('workflow_split_assignments')
+        .select('variant_id')
+        .eq('workflow_id', execution.workflow_id)
+        .eq('node_id', node.id)
+        .eq('lead_id', context.leadId)
+        .maybeSingle();
+
+    const existingVariant = existing && variants.find(v => v.id === existing.variant_id);
+    if (existingVariant) {
+        return existingVariant;
+    }
+
+    const variant = pickSplitVariant(variants);
+    const assignment = {
+        workflow_version_id: execution.workflow_version_id,
+        variant_id: variant.id,
+        execution_id: executionId,
+        assigned_at: new Date().toISOString(),
+        first_reply_at: null,
+    };
+
+    if (existing) {
+        await supabase
+            .from('workflow_split_assignments')
+            .update(assignment)
+            .eq('workflow_id', execution.workflow_id)
+            .eq('node_id', node.id)
+            .eq('lead_id', context.leadId);
+        return variant;
+    }
+
+    const { error } = await supabase
+        .from('workflow_split_assignments')
+        .insert({
+            ...assignment,
+            workflow_id: execution.workflow_id,
+            node_id: node.id,
+            lead_id: context.leadId,
+            user_id: context.userId || null,
+        });
+
+    if (error?.code === '23505') {
+        // Another execution for this lead assigned it first; follow that assignment
+        const { data: winner } = await supabase
+            .from('workflow_split_assignments')
+            .select('variant_id')
+            .eq('workflow_id', execution.workflow_id)
+            .eq('node_id', node.id)
+            .eq('lead_id', context.leadId)
+            .single();
+        return variants.find(v => v.id === winner?.variant_id) || variant;
+    }
+    if (error) {
+        console.error('Error recording split assignment:', error);
+    }
+
+    return variant;
+}
+
+const AI_CLASSIFIER_TIMEOUT_MS = 8000;
+
+/**
+ * One-shot classification through the tenant's chat providers. Unlike getBotResponse it
+ * stores nothing in the conversation, runs no knowledge search and gives up after
+ * AI_CLASSIFIER_TIMEOUT_MS.
+ */
+async function classifyWithAI(prompt: string, userId?: string | null): Promise<string> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`AI classification timed out after ${AI_CLASSIFIER_TIMEOUT_MS}ms`)), AI_CLASSIFIER_TIMEOUT_MS);
+    });
+
+    try {
+        const { content } = await Promise.race([
+            generateChatCompletion({
+                messages: [{ role: 'user', content: prompt }],
+                temperature: 0,
+                maxTokens: 16,
+                stream: false,
+                maxAttempts: 1,
+            }, { userId }),
+            timeout,
+        ]);
+        return content.trim();
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Pick the branch handle for a customer's answer to a question node.
+ * Falls back to the no-match handle when nothing fits.
+ */
+async function matchQuestionAnswer(
+    node: WorkflowNode,
+    answer: string,
+    userId?: string | null
+): Promise<string> {
+    const branches = (node.data.branches as QuestionBranch[] | undefined) || [];
+    const matchMode = node.data.matchMode || 'exact';
+    const normalizedAnswer = answer.trim().toLowerCase();
+
+    const getTerms = (branch: QuestionBranch) => [branch.label, ...(branch.keywords || '').split(',')]
+        .map(t => t.trim().toLowerCase())
+        .filter(Boolean);
+
+    if (matchMode === 'exact') {
+        const branch = branches.find(b => getTerms(b).includes(normalizedAnswer));
+        return branch?.id || QUESTION_NO_MATCH_HANDLE;
+    }
+
+    if (matchMode === 'keyword') {
+        const branch = branches.find(b => getTerms(b).some(term => normalizedAnswer.includes(term)));
+        return branch?.id || QUESTION_NO_MATCH_HANDLE;
+    }
+
+    if (matchMode === 'ai' && branches.length > 0) {
+        try {
+            const options = branches.map((b, i) => `${i + 1}. ${b.label}${b.keywords ? ` (${b.keywords})` : ''}`).join('\n');
+            const prompt = `You are classifying a customer's answer for a workflow automation.
+
+Question asked: ${node.data.questionText || node.data.label}
+
+Customer's answer: ${answer}
+
+Options:
+${options}
+
+Respond with ONLY the number of the option that best matches the answer, or 0 if none of them fit.`;
+
+            const response = await classifyWithAI(prompt, userId);
+            const choice = parseInt(response.match(/\d+/)?.[0] || '0');
+            if (choice >= 1 && choice <= branches.length) {
+                return branches[choice - 1].id;
+            }
+        } catch (error) {
+            console.error('Error classifying question answer:', error);
+        }
+    }
+
+    return QUESTION_NO_MATCH_HANDLE;
+}
+
+/**
+ * Resume executions that are waiting on a question node for this lead.
+ * Stores the answer in the node's variable, branches on it and continues the workflow.
+ * @returns true if the message was consumed as an answer to at least one workflow question
+ */
+export async function resumeWorkflowsAwaitingReply(
+    leadId: string,
+    senderId: string,
+    messageText: string
+): Promise<boolean> {
+    const { data: executions, error } = await supabase
+        .from('workflow_executions')
+        .select(`
+        *,
+        workflows:workflows(workflow_data),
+        workflow_version:workflow_versions(workflow_data)
+      `)
+        .eq('lead_id', leadId)
+        .eq('status', 'waiting_reply');
+
+    if (error) {
+        console.error('Error fetching executions awaiting reply:', error);
+        return false;
+    }
+
+    if (!executions || executions.length === 0) {
+        return false;
+    }
+
+    let consumed = false;
+
+    for (const execution of executions) {
+        const workflowData = getExecutionWorkflowData(execution);
+        const questionNode = workflowData?.nodes.find(n => n.id === execution.current_node_id);
+
+        if (!workflowData || !questionNode || questionNode.data.type !== 'question') {
+            console.warn('Execution awaiting reply is not on a question node:', execution.id);
+            continue;
+        }
+
+        const answeredAt = new Date();
+        const handle = await matchQuestionAnswer(questionNode, messageText, execution.user_id);
+        const nextNodeId = getNextNodeByHandle(questionNode.id, workflowData, handle);
+        console.log(`Question ${questionNode.id} answered, branch: ${handle}, next node: ${nextNodeId}`);
+
+        const executionData = execution.execution_data || {};
+        const context: ExecutionContext = {
+            leadId,
+            senderId,
+            userId: execution.user_id || undefined,
+            appointmentId: executionData.appointmentId || execution.appointment_id,
+            appointmentDateTime: executionData.appointmentDateTime
+                ? new Date(executionData.appointmentDateTime)
+                : undefined,
+            variables: {
+                ...(executionData.variables || {}),
+                ...(questionNode.data.answerVariable ? { [questionNode.data.answerVariable]: messageText } : {}),
+            },
+            workflowChain: executionData.workflowChain || [],
+        };
+
+        // Claim the execution so a second inbound message can't resume it twice
+        const { data: claimed } = await supabase
+            .from('workflow_executions')
+            .update({
+                status: nextNodeId ? 'pending' : 'completed',
+                current_node_id: nextNodeId,
+                scheduled_for: null,
+                execution_data: buildExecutionData(context),
+            })
+            .eq('id', execution.id)
+            .eq('status', 'waiting_reply')
+            .select('id');
+
+        if (!claimed || claimed.length === 0) {
+            continue;
+        }
+
+        consumed = true;
+        await recordExecutionStep(execution.id, questionNode, context, answeredAt, 'completed', { branchTaken: handle });
+
+        if (nextNodeId) {
+            await continueExecution(execution.id, workflowData, context);
+        }
+    }
+
+    return consumed;
+}
+
+/**
+ * Take the timeout edge of a question node whose deadline passed without a reply.
+ * Called by the cron for executions in 'waiting_reply' with an elapsed scheduled_for.
+ */
+export async function handleQuestionTimeout(
+    executionId: string,
+    workflowData: WorkflowData,
+    context: ExecutionContext
+): Promise<void> {
+    const { data: execution } = await supabase
+        .from('workflow_executions')
+        .select('current_node_id')
+        .eq('id', executionId)
+        .single();
+
+    if (!execution) return;
+
+    const nextNodeId = getNextNodeByHandle(execution.current_node_id, workflowData, QUESTION_TIMEOUT_HANDLE);
+    console.log(`Question ${execution.current_node_id} timed out, next node: ${nextNodeId}`);
+
+    const { data: claimed } = await supabase
+        .from('workflow_executions')
+        .update({
+            status: nextNodeId ? 'pending' : 'completed',
+            current_node_id: nextNodeId,
+            scheduled_for: null,
+        })
+        .eq('id', executionId)
+        .eq('status', 'waiting_reply')
+        .select('id');
+
+    if (!claimed || claimed.length === 0) return;
+
+    const questionNode = workflowData.nodes.find(n => n.id === execution.current_node_id);
+    if (questionNode) {
+        await recordExecutionStep(executionId, questionNode, context, new Date(), 'completed', {
+            branchTaken: QUESTION_TIMEOUT_HANDLE,
+        });
+    }
+
+    if (nextNodeId) {
+        await continueExecution(executionId, workflowData, context);
+    }
+}
+
+/**
+ * Write one node's result to the execution trace (workflow_execution_steps).
+ * Tracing must never break an execution, so errors are only logged.
+ */
+async function recordExecutionStep(
+    executionId: string,
+    node: WorkflowNode,
+    context: ExecutionContext,
+    startedAt: Date,
+    outcome: StepOutcome,
+    details: StepTrace & { error?: string } = {}
+): Promise<void> {
+    const { error } = await supabase
+        .from('workflow_execution_steps')
+        .insert({
+            execution_id: executionId,
+            user_id: context.userId || null,
+            node_id: node.id,
+            node_type: node.data.type,
+            node_label: node.data.label || null,
+            outcome,
+            message_sent: details.messageSent || null,
+            branch_taken: details.branchTaken || null,
+            error: details.error || null,
+            started_at: startedAt.toISOString(),
+            finished_at: new Date().toISOString(),
+        });
+
+    if (error) {
+        console.error('Error recording execution step:', error);
+    }
+}
+
+/**
+ * Re-run a failed execution starting at the node that failed.
+ * Uses the workflow version the execution started on, with the variables captured before the failure.
+ */
+export async function retryFailedExecution(
+    executionId: string,
+    userId: string
+): Promise<{ success: boolean; error?: string }> {
+    const { data: execution, error } = await supabase
+        .from('workflow_executions')
+        .select(`
+        *,
+        workflows:workflows(workflow_data),
+        workflow_version:workflow_versions(workflow_data)
+      `)
+        .eq('id', executionId)
+        .eq('user_id', userId)
+        .single();
+
+    if (error || !execution) {
+        return { success: false, error: 'Execution not found' };
+    }
+
+    if (execution.status !== 'failed') {
+        return { success: false, error: 'Only failed executions can be retried' };
+    }
+
+    const workflowData = getExecutionWorkflowData(execution);
+    if (!workflowData?.nodes.some(n => n.id === execution.current_node_id)) {
+        return { success: false, error: 'The failed step no longer exists in this workflow' };
+    }
+
+    const { data: lead } = await supabase
+        .from('leads')
+        .select('sender_id')
+        .eq('id', execution.lead_id)
+        .eq('user_id', userId)
+        .single();
+
+    if (!lead) {
+        return { success: false, error: 'Lead not found' };
+    }
+
+    // Claim the execution so a double click can't run the node twice
+    const { data: claimed } = await supabase
+        .from('workflow_executions')
+        .update({ status: 'pending' })
+        .eq('id', executionId)
+        .eq('status', 'failed')
+        .select('id');
+
+    if (!claimed || claimed.length === 0) {
+        return { success: false, error: 'Execution is already being retried' };
+    }
+
+    const executionData = execution.execution_data || {};
+    const context: ExecutionContext = {
+        leadId: execution.lead_id,
+        senderId: lead.sender_id,
+        userId,
+        appointmentId: executionData.appointmentId || execution.appointment_id,
+        appointmentDateTime: executionData.appointmentDateTime
+            ? new Date(executionData.appointmentDateTime)
+            : undefined,
+        variables: executionData.variables || {},
+        workflowChain: executionData.workflowChain || [],
+    };
+
+    await continueExecution(executionId, workflowData, context);
+    return { success: true };
+}
+
+// ============================================================================
+// Simulation (dry run)
+// ============================================================================
+
+// A customer message the tester injects into a simulation
+export interface SimulatedReply {
+    afterMinutes: number;  // Virtual minutes after the workflow starts
+    text: string;
+}
+
+export interface SimulationOptions {
+    userId: string;
+    leadId?: string;      // Real lead whose data fills placeholders (read-only, never modified)
+    senderId?: string;
+    sandboxLead?: SandboxLead;  // Made-up lead used when no real lead is picked
+    replies?: SimulatedReply[];
+    aiConditionResult?: boolean;  // Outcome assumed for ai_rule conditions (default true)
+    appointmentDateTime?: Date;
+    startAt?: Date;
+}
+
+export interface SimulationEvent {
+    at: string;  // Virtual clock time (ISO)
+    kind: 'message' | 'attachment' | 'question' | 'reply' | 'wait' | 'branch' | 'action' | 'end';
+    text: string;
+    nodeId?: string;
+    nodeLabel?: string;
+    quickReplies?: string[];
+}
+
+export interface SimulationResult {
+    outcome: 'completed' | 'stopped' | 'waiting_reply' | 'step_limit';
+    events: SimulationEvent[];
+    path: string[];  // Node ids in the order they ran
+    variables: Record<string, string>;
+    startedAt: string;
+    finishedAt: string;
+}
+
+// Guards against workflows that loop back on themselves
+const MAX_SIMULATION_STEPS = 200;
+
+interface SimulationState {
+    clock: number;  // Virtual time in ms
+    replies: Array<{ at: number; text: string; delivered: boolean }>;
+    lastReplyAt: number | null;
+    events: SimulationEvent[];
+    aiConditionResult: boolean;
+}
+
+/**
+ * Run a workflow in memory against a virtual clock.
+ * Nothing is sent to Facebook and nothing is written to the database: outbound messages and
+ * CRM actions are captured as events, waits fast-forward the clock, and question nodes are
+ * answered by the injected replies. AI-written messages show their instruction instead of
+ * calling the model, and AI answer matching falls back to keyword matching.
+ */
+export async function simulateWorkflow(
+    workflowData: WorkflowData,
+    options: SimulationOptions
+): Promise<SimulationResult> {
+    const startedAt = (options.startAt || new Date()).getTime();
+    const state: SimulationState = {
+        clock: startedAt,
+        replies: (options.replies || [])
+            .filter(r => r.text?.trim())
+            .map(r => ({ at: startedAt + Math.max(0, r.afterMinutes || 0) * 60000, text: r.text.trim(), delivered: false }))
+            .sort((a, b) => a.at - b.at),
+        lastReplyAt: null,
+        events: [],
+        aiConditionResult: options.aiConditionResult ?? true,
+    };
+
+    const context: ExecutionContext = {
+        leadId: options.leadId || '',
+        senderId: options.senderId || '',
+        userId: options.userId,
+        appointmentDateTime: options.appointmentDateTime,
+        variables: {},
+        sandboxLead: options.leadId ? undefined : (options.sandboxLead || { name: 'Test Customer' }),
+    };
+
+    const triggerNode = workflowData.nodes.find(n => n.data.type === 'trigger');
+    if (!triggerNode) {
+        throw new Error('Workflow has no trigger node');
+    }
+
+    const path: string[] = [];
+    let outcome: SimulationResult['outcome'] = 'completed';
+    let currentNodeId: string | null = triggerNode.id;
+
+    while (currentNodeId) {
+        if (path.length >= MAX_SIMULATION_STEPS) {
+            outcome = 'step_limit';
+            break;
+        }
+
+        const node = workflowData.nodes.find(n => n.id === currentNodeId);
+        if (!node) break;
+
+        path.push(node.id);
+        const result = await executeNode(node, workflowData, context, '', {}, state);
+
+        if (result === 'STOP') {
+            outcome = 'stopped';
+            break;
+        }
+        if (result === 'WAIT') {
+            outcome = 'waiting_reply';
+            break;
+        }
+        currentNodeId = result;
+    }
+
+    const endText = {
+        completed: 'Workflow completed',
+        stopped: 'Workflow stopped (bot turned off)',
+        waiting_reply: 'Still waiting for a reply (the question has no timeout)',
+        step_limit: `Stopped after ${MAX_SIMULATION_STEPS} steps — the workflow may loop forever`,
+    }[outcome];
+    state.events.push({ at: new Date(state.clock).toISOString(), kind: 'end', text: endText });
+
+    return {
+        outcome,
+        events: state.events,
+        path,
+        variables: context.variables || {},
+        startedAt: new Date(startedAt).toISOString(),
+        finishedAt: new Date(state.clock).toISOString(),
+    };
+}
+
+// Move the virtual clock forward, delivering any injected replies sent before the new time
+function advanceSimulationClock(state: SimulationState, to: number): void {
+    for (const reply of state.replies) {
+        if (reply.delivered || reply.at >= to) continue;
+        reply.delivered = true;
+        state.lastReplyAt = reply.at;
+        state.events.push({ at: new Date(reply.at).toISOString(), kind: 'reply', text: reply.text });
+    }
+    state.clock = Math.max(state.clock, to);
+}
+
+/**
+ * Dry-run counterpart of asking a question and resuming on the reply: the next injected
+ * reply answers it unless the question times out first
+ */
+async function answerSimulatedQuestion(
+    node: WorkflowNode,
+    workflowData: WorkflowData,
+    context: ExecutionContext,
+    state: SimulationState,
+    log: (kind: SimulationEvent['kind'], text: string, extra?: Partial<SimulationEvent>) => void
+): Promise<string | null | 'WAIT'> {
+    const questionText = await renderTemplate(node.data.questionText || node.data.label || 'Can you tell us more?', context);
+    const branches = (node.data.branches as QuestionBranch[] | undefined) || [];
+    log('question', questionText, {
+        quickReplies: node.data.useQuickReplies ? branches.map(b => b.label).filter(Boolean) : undefined,
+    });
+
+    const timeoutDuration = parseInt(node.data.timeoutDuration || '0');
+    const timeoutAt = timeoutDuration > 0
+        ? state.clock + durationToMs(timeoutDuration, node.data.timeoutUnit || 'hours')
+        : null;
+    const reply = state.replies.find(r => !r.delivered);
+
+    if (reply && (timeoutAt === null || reply.at <= timeoutAt)) {
+        // Earlier replies were delivered as the clock advanced, so this one is never in the past
+        reply.delivered = true;
+        state.lastReplyAt = reply.at;
+        state.clock = reply.at;
+        state.events.push({ at: new Date(reply.at).toISOString(), kind: 'reply', text: reply.text });
+
+        // AI matching would call the model, so keyword matching stands in
+        const matchNode = node.data.matchMode === 'ai'
+            ? { ...node, data: { ...node.data, matchMode: 'keyword' } }
+            : node;
+        const handle = await matchQuestionAnswer(matchNode, reply.text, context.userId);
+        if (node.data.answerVariable) {
+            context.variables = { ...(context.variables || {}), [node.data.answerVariable]: reply.text };
+        }
+
+        const branchLabel = branches.find(b => b.id === handle)?.label || 'No match';
+        log('branch', `Answer matched: ${branchLabel}`);
+        return getNextNodeByHandle(node.id, workflowData, handle);
+    }
+
+    if (timeoutAt !== null) {
+        advanceSimulationClock(state, timeoutAt);
+        log('branch', `No reply within ${timeoutDuration} ${node.data.timeoutUnit || 'hours'}: timeout`);
+        return getNextNodeByHandle(node.id, workflowData, QUESTION_TIMEOUT_HANDLE);
+    }
+
+    return 'WAIT';
+}
+
+async function evaluateSmartCondition(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    simulation?: SimulationState
+): Promise<boolean> {
+    const conditionType = node.data.conditionType || 'has_replied';
+
+    if (conditionType === 'has_replied') {
+        if (simulation) {
+            return simulation.lastReplyAt !== null && simulation.clock - simulation.lastReplyAt < HAS_REPLIED_WINDOW_MS;
+        }
+
+        // Check if user has sent a message recently
+        const { data: lead } = await supabase
+            .from('leads')
+            .select('last_message_at')
+            .eq('id', context.leadId)
+            .single();
+
+        if (!lead?.last_message_at) return false;
+
+        const lastMessageTime = new Date(lead.last_message_at);
+        const timeSinceMessage = Date.now() - lastMessageTime.getTime();
+
+        return timeSinceMessage < HAS_REPLIED_WINDOW_MS;
+    }
+
+    if (conditionType === 'ai_rule') {
+        // Use AI to evaluate custom rule
+        const rule = await renderTemplate(node.data.conditionRule || node.data.description || '', context);
+        if (!rule) return false;
+        // The tester picks the outcome instead of calling the model
+        if (simulation) return simulation.aiConditionResult;
+
+        try {
+            const prompt = `You are evaluating a condition for a workflow automation.
+      
+Condition to check: ${rule}
+
+Context:
+- Lead ID: ${context.leadId}
+- Recent conversation context available
+
+Respond with ONLY "true" or "false" based on whether the condition is met.`;
+
+            const response = await getBotResponse(prompt, context.senderId);
+            return response.toLowerCase().includes('true');
+        } catch (error) {
+            console.error('Error evaluating AI condition:', error);
+            return false;
+        }
+    }
+
+    return false;
+}
+
+export async function triggerWorkflowsForStage(
+    stageId: string,
+    leadId: string,
+    options: { workflowChain?: string[] } = {}
+): Promise<void> {
+    console.log(`Checking workflows for stage ${stageId} and lead ${leadId}`);
+
+    // Entering a stage also starts that stage's follow-up sequence
+    await enrollLeadForStage(stageId, leadId).catch(err => {
+        console.error('Error enrolling lead in follow-up sequence:', err);
+    });
+
+    // Loop protection for stage moves made by workflows
+    const workflowChain = options.workflowChain || [];
+    if (workflowChain.length >= MAX_WORKFLOW_CHAIN_DEPTH) {
+        console.warn(`Workflow chain depth limit reached (${workflowChain.join(' -> ')}), not triggering stage workflows`);
+        return;
+    }
+
+    // First, get the stage to find its user_id for proper tenant isolation
+    const { data: stage, error: stageError } = await supabase
+        .from('pipeline_stages')
+        .select('user_id')
+        .eq('id', stageId)
+        .single();
+
+    if (stageError || !stage?.user_id) {
+        console.error('Error fetching stage or missing user_id:', stageError);
+        return;
+    }
+
+    const userId = stage.user_id;
+    console.log(`Stage belongs to user: ${userId}`);
+
+    const { data: workflows, error: workflowError } = await supabase
+        .from('workflows')
+        .select('*')
+        .eq('trigger_stage_id', stageId)
+        .eq('is_published', true)
+        .eq('user_id', userId);
+
+    if (workflowError) {
+        console.error('Error fetching workflows:', workflowError);
+        return;
+    }
+
+    if (!workflows || workflows.length === 0) {
+        console.log('No workflows triggered for stage:', stageId);
+        return;
+    }
+
+    console.log(`Found ${workflows.length} workflows to trigger:`, workflows.map(w => w.name));
+
+    const { data: lead, error: leadError } = await supabase
+        .from('leads')
+        .select('sender_id')
+        .eq('id', leadId)
+        .single();
+
+    if (leadError) {
+        console.error('Error fetching lead:', leadError);
+        return;
+    }
+
+    if (!lead?.sender_id) {
+        console.error('Lead not found or no sender_id:', leadId);
+        return;
+    }
+
+    console.log('Lead sender_id:', lead.sender_id);
+
+    for (const workflow of workflows) {
+        if (workflowChain.includes(workflow.id)) {
+            console.warn(`Skipping workflow ${workflow.name} (${workflow.id}) - already in chain: ${workflowChain.join(' -> ')}`);
+            continue;
+        }
+
+        console.log(`Executing workflow: ${workflow.name} (${workflow.id})`);
+        // Skip publish check since we already filtered for published workflows
+        await executeWorkflow(workflow.id, leadId, lead.sender_id, { skipPublishCheck: true, userId, workflowChain });
+    }
+}
+
+/**
+ * Trigger workflows when an appointment is booked
+ * Schedules messages relative to the appointment time (e.g., 1 day before, 1 hour before)
+ * @param appointmentId - The appointment ID
+ * @param senderId - Facebook PSID of the person who booked
+ * @param appointmentDate - Date in YYYY-MM-DD format
+ * @param startTime - Time in HH:mm:ss format
+ * @param userId - The user who owns the appointment (required for multi-tenant isolation)
+ */
+export async function triggerWorkflowsForAppointment(
+    appointmentId: string,
+    senderId: string,
+    appointmentDate: string,  // YYYY-MM-DD format
+    startTime: string,        // HH:mm:ss format
+    userId?: string           // Required for multi-user isolation
+): Promise<void> {
+    console.log(`Checking workflows for appointment ${appointmentId}, userId: ${userId}`);
+
+    if (!userId) {
+        console.error('No userId provided for appointment workflow trigger');
+        return;
+    }
+
+    // Find workflows with appointment_booked trigger for this user
+    const { data: workflows, error: workflowError } = await supabase
+        .from('workflows')
+        .select('*')
+        .eq('trigger_type', 'appointment_booked')
+        .eq('is_published', true)
+        .eq('user_id', userId);
+
+    if (workflowError) {
+        console.error('Error fetching appointment workflows:', workflowError);
+        return;
+    }
+
+    if (!workflows || workflows.length === 0) {
+        console.log('No appointment-triggered workflows found for user:', userId);
+        return;
     }
 
     console.log(`Found ${workflows.length} appointment workflows to trigger:`, workflows.map(w => w.name));
@@ -634,3 +1904,285 @@ export async function triggerWorkflowsForDigitalPurchase(
 
     console.log(`[WorkflowEngine] Completed triggering workflows for purchase ${purchaseId}`);
 }
+
+// ============================================================================
+// Event triggers (messages, referrals, postbacks, forms, orders, carts)
+// ============================================================================
+
+interface EventTriggeredWorkflow {
+    id: string;
+    name: string;
+    trigger_type: string;
+    trigger_config: WorkflowTriggerConfig | null;
+}
+
+async function getEventTriggeredWorkflows(triggerType: string, userId: string): Promise<EventTriggeredWorkflow[]> {
+    const { data: workflows, error } = await supabase
+        .from('workflows')
+        .select('id, name, trigger_type, trigger_config')
+        .eq('trigger_type', triggerType)
+        .eq('is_published', true)
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error(`Error fetching ${triggerType} workflows:`, error);
+        return [];
+    }
+
+    return workflows || [];
+}
+
+/**
+ * Record that a workflow fired for a lead.
+ * Returns false when the event or the trigger's de-duplication rule was already claimed; the
+ * unique constraint keeps this safe when webhooks for the same lead arrive concurrently.
+ */
+async function claimTrigger(
+    workflow: EventTriggeredWorkflow,
+    leadId: string,
+    userId: string,
+    eventKey?: string
+): Promise<boolean> {
+    const keys: string[] = eventKey ? [eventKey] : [];
+    const dedupe = workflow.trigger_config?.dedupe || 'none';
+    if (dedupe === 'once_per_lead') keys.push('lead');
+    if (dedupe === 'once_per_day') keys.push(`day:${new Date().toISOString().slice(0, 10)}`);
+
+    for (const key of keys) {
+        const { error } = await supabase
+            .from('workflow_trigger_claims')
+            .insert({
+                workflow_id: workflow.id,
+                lead_id: leadId,
+                user_id: userId,
+                trigger_type: workflow.trigger_type,
+                dedupe_key: key,
+            });
+
+        if (error) {
+            if (error.code === '23505') {
+                console.log(`Skipping workflow ${workflow.name} (${workflow.id}) - already triggered for lead ${leadId} (${key})`);
+                return false;
+            }
+            console.error('Error recording workflow trigger claim:', error.message); // Default to running on error
+        }
+    }
+
+    return true;
+}
+
+async function startEventWorkflows(
+    workflows: EventTriggeredWorkflow[],
+    leadId: string,
+    senderId: string,
+    userId: string,
+    eventKey?: string
+): Promise<EventTriggeredWorkflow[]> {
+    const started: EventTriggeredWorkflow[] = [];
+
+    for (const workflow of workflows) {
+        if (!await claimTrigger(workflow, leadId, userId, eventKey)) continue;
+
+        console.log(`Executing ${workflow.trigger_type} workflow: ${workflow.name} (${workflow.id})`);
+        await executeWorkflow(workflow.id, leadId, senderId, { skipPublishCheck: true, userId });
+        started.push(workflow);
+    }
+
+    return started;
+}
+
+// Regex triggers only look at the start of long messages, bounding the time a pattern can take
+const MAX_TRIGGER_INPUT_LENGTH = 1000;
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+async function messageMatchesTrigger(
+    config: WorkflowTriggerConfig,
+    message: string,
+    userId: string
+): Promise<boolean> {
+    if (!message.trim()) return false;
+
+    if (config.matchMode === 'regex') {
+        if (!config.pattern) return false;
+        // Publishing rejects unsafe patterns; this covers versions published before that check
+        if (!isSafeTriggerPattern(config.pattern)) {
+            console.warn('Skipping unsafe keyword trigger pattern:', config.pattern);
+            return false;
+        }
+        try {
+            return new RegExp(config.pattern, 'i').test(message.slice(0, MAX_TRIGGER_INPUT_LENGTH));
+        } catch {
+            console.warn('Invalid keyword trigger pattern:', config.pattern);
+            return false;
+        }
+    }
+
+    if (config.matchMode === 'ai_intent') {
+        if (!config.intent) return false;
+        try {
+            const prompt = `You are checking whether a customer's message matches an intent for a workflow automation.
+
+Intent: ${config.intent}
+
+Customer's message: ${message}
+
+Respond with ONLY "true" or "false" based on whether the message expresses this intent.`;
+
+            const response = await classifyWithAI(prompt, userId);
+            return response.toLowerCase().includes('true');
+        } catch (error) {
+            console.error('Error classifying message intent:', error);
+            return false;
+        }
+    }
+
+    // Whole-word (or whole-phrase) keyword match
+    return (config.keywords || '')
+        .split(',')
+        .map(k => k.trim())
+        .filter(Boolean)
+        .some(keyword => new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword)}($|[^a-z0-9])`, 'i').test(message));
+}
+
+/**
+ * Trigger keyword / regex / AI intent workflows for an inbound message
+ * @returns true if a started workflow takes over the reply (the AI response should be skipped)
+ */
+export async function triggerWorkflowsForMessage(
+    leadId: string,
+    senderId: string,
+    message: string,
+    userId: string
+): Promise<boolean> {
+    const workflows = await getEventTriggeredWorkflows('keyword', userId);
+    if (workflows.length === 0) return false;
+
+    const matching: EventTriggeredWorkflow[] = [];
+    for (const workflow of workflows) {
+        if (workflow.trigger_config && await messageMatchesTrigger(workflow.trigger_config, message, userId)) {
+            matching.push(workflow);
+        }
+    }
+
+    if (matching.length === 0) return false;
+    console.log(`Message matched ${matching.length} keyword workflows:`, matching.map(w => w.name));
+
+    const started = await startEventWorkflows(matching, leadId, senderId, userId);
+    return started.some(w => w.trigger_config?.skipAiReply !== false);
+}
+
+/**
+ * Trigger workflows for an m.me link referral (the link's ref parameter)
+ */
+export async function triggerWorkflowsForReferral(
+    leadId: string,
+    senderId: string,
+    ref: string,
+    userId: string
+): Promise<void> {
+    const workflows = await getEventTriggeredWorkflows('referral', userId);
+    const matching = workflows.filter(w => !w.trigger_config?.ref || w.trigger_config.ref === ref);
+    if (matching.length === 0) return;
+
+    console.log(`Referral "${ref}" matched ${matching.length} workflows:`, matching.map(w => w.name));
+    await startEventWorkflows(matching, leadId, senderId, userId);
+}
+
+/**
+ * Trigger workflows for a button postback payload
+ */
+export async function triggerWorkflowsForPostback(
+    leadId: string,
+    senderId: string,
+    payload: string,
+    userId: string
+): Promise<void> {
+    const workflows = await getEventTriggeredWorkflows('postback', userId);
+    const matching = workflows.filter(w => !w.trigger_config?.payload || w.trigger_config.payload === payload);
+    if (matching.length === 0) return;
+
+    console.log(`Postback "${payload}" matched ${matching.length} workflows:`, matching.map(w => w.name));
+    await startEventWorkflows(matching, leadId, senderId, userId);
+}
+
+/**
+ * Trigger workflows when a lead submits a form
+ * Web-only leads have a generated sender_id, so Messenger steps fail for them like any other unreachable lead.
+ */
+export async function triggerWorkflowsForFormSubmission(
+    formId: string,
+    submissionId: string,
+    leadId: string,
+    userId: string
+): Promise<void> {
+    const workflows = await getEventTriggeredWorkflows('form_submitted', userId);
+    const matching = workflows.filter(w => !w.trigger_config?.formId || w.trigger_config.formId === formId);
+    if (matching.length === 0) return;
+
+    const { data: lead } = await supabase
+        .from('leads')
+        .select('sender_id')
+        .eq('id', leadId)
+        .single();
+
+    if (!lead?.sender_id) {
+        console.error('Lead not found or no sender_id:', leadId);
+        return;
+    }
+
+    console.log(`Form ${formId} matched ${matching.length} workflows:`, matching.map(w => w.name));
+    await startEventWorkflows(matching, leadId, lead.sender_id, userId, `form_submission:${submissionId}`);
+}
+
+/**
+ * Trigger workflows when an order moves to a new status
+ * Each order/status pair fires once, so saving the same status again doesn't re-run them.
+ */
+export async function triggerWorkflowsForOrderStatus(
+    orderId: string,
+    status: string,
+    leadId: string,
+    userId: string
+): Promise<void> {
+    const workflows = await getEventTriggeredWorkflows('order_status_changed', userId);
+    const matching = workflows.filter(w => !w.trigger_config?.orderStatus || w.trigger_config.orderStatus === status);
+    if (matching.length === 0) return;
+
+    const { data: lead } = await supabase
+        .from('leads')
+        .select('sender_id')
+        .eq('id', leadId)
+        .single();
+
+    if (!lead?.sender_id) {
+        console.error('Lead not found or no sender_id:', leadId);
+        return;
+    }
+
+    console.log(`Order ${orderId} (${status}) matched ${matching.length} workflows:`, matching.map(w => w.name));
+    await startEventWorkflows(matching, leadId, lead.sender_id, userId, `order:${orderId}:${status}`);
+}
+
+/**
+ * Trigger abandoned cart workflows for a cart (called from the abandoned cart cron job).
+ * Only workflows whose abandon-after hours have passed run; each cart fires a workflow at most once.
+ * @param idleHours - Hours since the cart was last updated
+ * @returns number of workflow executions started
+ */
+export async function triggerWorkflowsForAbandonedCart(
+    orderId: string,
+    leadId: string,
+    senderId: string,
+    userId: string,
+    idleHours: number
+): Promise<number> {
+    const workflows = await getEventTriggeredWorkflows('cart_abandoned', userId);
+    const matching = workflows.filter(w => (w.trigger_config?.abandonAfterHours || 24) <= idleHours);
+    if (matching.length === 0) return 0;
+
+    const started = await startEventWorkflows(matching, leadId, senderId, userId, `cart:${orderId}`);
+    return started.length;
+}
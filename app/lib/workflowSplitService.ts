@@ -0,0 +1,347 @@
+import { supabaseAdmin } from './supabaseAdmin';
+import { publishWorkflowDraft, type Workflow } from './workflowVersionService';
+import { validateWorkflow, type WorkflowIssue } from './workflowValidation';
+
+/**
+ * Workflow Split Tests
+ * Reports how the variants of split (A/B) nodes perform and collapses a split onto its winner.
+ * Variant assignments are recorded by the workflow engine in workflow_split_assignments.
+ */
+
+interface SplitGraphNode {
+    id: string;
+    data: Record<string, unknown>;
+    [key: string]: unknown;
+}
+
+interface SplitGraphEdge {
+    id: string;
+    source: string;
+    target: string;
+    sourceHandle?: string | null;
+    [key: string]: unknown;
+}
+
+interface SplitGraph {
+    nodes: SplitGraphNode[];
+    edges: SplitGraphEdge[];
+}
+
+export interface SplitVariantStats {
+    variantId: string;
+    label: string;
+    weight: number;
+    removed: boolean;       // Leads were routed to it, but it's no longer on the node
+    reach: number;
+    replied: number;
+    progressed: number;     // Moved forward in the pipeline
+    ordered: number;
+    booked: number;
+}
+
+export interface SplitTestResult {
+    workflowId: string;
+    workflowName: string;
+    nodeId: string;
+    nodeLabel: string;
+    windowDays: number;
+    isLive: boolean;        // The split is in the published version
+    inDraft: boolean;       // The split is still in the draft (a winner can be declared)
+    variants: SplitVariantStats[];
+}
+
+interface SplitResult {
+    success: boolean;
+    error?: string;
+    workflow?: Workflow;
+    published?: boolean;
+    issues?: WorkflowIssue[];   // Errors that kept the collapsed draft from being published
+}
+
+interface Assignment {
+    workflow_id: string;
+    node_id: string;
+    variant_id: string;
+    lead_id: string;
+    assigned_at: string;
+    first_reply_at: string | null;
+}
+
+const DEFAULT_WINDOW_DAYS = 7;
+const DAY_MS = 24 * 3600000;
+
+// Order statuses that count as a conversion
+const CONVERTED_ORDER_STATUSES = ['confirmed', 'processing', 'shipped', 'delivered'];
+
+// Keeps .in() filters within URL length limits
+const ID_CHUNK_SIZE = 200;
+
+async function fetchInChunks<T>(ids: string[], fetchChunk: (chunk: string[]) => PromiseLike<{ data: T[] | null }>): Promise<T[]> {
+    const rows: T[] = [];
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+        const { data } = await fetchChunk(ids.slice(i, i + ID_CHUNK_SIZE));
+        rows.push(...(data || []));
+    }
+    return rows;
+}
+
+function getSplitNodes(graph: SplitGraph | null | undefined): SplitGraphNode[] {
+    return (graph?.nodes || []).filter(n => n.data?.type === 'split');
+}
+
+/**
+ * Per-variant results for every split node in the user's workflows (or a single workflow).
+ * A lead counts as converted when the reply, forward stage move, order or appointment happens
+ * within the split's conversion window after it was assigned.
+ */
+export async function getSplitTestResults(userId: string, workflowId?: string): Promise<SplitTestResult[]> {
+    let workflowQuery = supabaseAdmin
+        .from('workflows')
+        .select('id, name, workflow_data, published_version_id')
+        .eq('user_id', userId);
+
+    if (workflowId) {
+        workflowQuery = workflowQuery.eq('id', workflowId);
+    }
+
+    const { data: workflows, error } = await workflowQuery;
+    if (error) {
+        console.error('Error fetching workflows for split tests:', error);
+        return [];
+    }
+
+    const versionIds = (workflows || []).map(w => w.published_version_id).filter(Boolean);
+    const { data: versions } = versionIds.length > 0
+        ? await supabaseAdmin.from('workflow_versions').select('id, workflow_data').in('id', versionIds)
+        : { data: [] };
+    const liveGraphs = new Map((versions || []).map(v => [v.id, v.workflow_data as SplitGraph]));
+
+    // Live split nodes win over draft ones: their variants are the ones leads were routed by
+    const splits: Array<{ workflow: { id: string; name: string }; node: SplitGraphNode; isLive: boolean; inDraft: boolean }> = [];
+    for (const workflow of workflows || []) {
+        const liveNodes = getSplitNodes(workflow.published_version_id ? liveGraphs.get(workflow.published_version_id) : null);
+        const draftNodes = getSplitNodes(workflow.workflow_data as SplitGraph);
+        const draftIds = new Set(draftNodes.map(n => n.id));
+
+        for (const node of liveNodes) {
+            splits.push({ workflow, node, isLive: true, inDraft: draftIds.has(node.id) });
+        }
+        for (const node of draftNodes) {
+            if (!liveNodes.some(n => n.id === node.id)) {
+                splits.push({ workflow, node, isLive: false, inDraft: true });
+            }
+        }
+    }
+
+    if (splits.length === 0) return [];
+
+    const { data: assignmentRows } = await supabaseAdmin
+        .from('workflow_split_assignments')
+        .select('workflow_id, node_id, variant_id, lead_id, assigned_at, first_reply_at')
+        .eq('user_id', userId)
+        .in('workflow_id', [...new Set(splits.map(s => s.workflow.id))]);
+    const assignments = (assignmentRows || []) as Assignment[];
+
+    // Everything that can count as a conversion for the assigned leads
+    const leadIds = [...new Set(assignments.map(a => a.lead_id))];
+    const since = assignments.reduce((min, a) => a.assigned_at < min ? a.assigned_at : min, new Date().toISOString());
+
+    const leads = await fetchInChunks<{ id: string; sender_id: string }>(leadIds, chunk =>
+        supabaseAdmin.from('leads').select('id, sender_id').in('id', chunk));
+    const senderIds = leads.map(l => l.sender_id).filter(Boolean);
+    const leadIdBySender = new Map(leads.map(l => [l.sender_id, l.id]));
+
+    const [stageMoves, orders, appointments, stagesResult] = await Promise.all([
+        fetchInChunks<{ lead_id: string; from_stage_id: string | null; to_stage_id: string | null; created_at: string }>(leadIds, chunk =>
+            supabaseAdmin.from('lead_stage_history').select('lead_id, from_stage_id, to_stage_id, created_at').in('lead_id', chunk).gte('created_at', since)),
+        fetchInChunks<{ lead_id: string; status: string; created_at: string; confirmed_at: string | null }>(leadIds, chunk =>
+            supabaseAdmin.from('orders').select('lead_id, status, created_at, confirmed_at').eq('user_id', userId).in('lead_id', chunk).in('status', CONVERTED_ORDER_STATUSES)),
+        fetchInChunks<{ sender_psid: string; status: string; created_at: string }>(senderIds, chunk =>
+            supabaseAdmin.from('appointments').select('sender_psid, status, created_at').eq('user_id', userId).in('sender_psid', chunk).gte('created_at', since).neq('status', 'cancelled')),
+        supabaseAdmin.from('pipeline_stages').select('id, display_order').eq('user_id', userId),
+    ]);
+
+    const stageOrder = new Map((stagesResult.data || []).map(s => [s.id, s.display_order as number]));
+    const isForwardMove = (move: { from_stage_id: string | null; to_stage_id: string | null }) =>
+        !move.from_stage_id || (stageOrder.get(move.to_stage_id || '') ?? 0) > (stageOrder.get(move.from_stage_id) ?? 0);
+
+    const eventTimesByLead = (events: Array<{ leadId: string | undefined; at: string }>) => {
+        const byLead = new Map<string, number[]>();
+        for (const event of events) {
+            if (!event.leadId) continue;
+            byLead.set(event.leadId, [...(byLead.get(event.leadId) || []), new Date(event.at).getTime()]);
+        }
+        return byLead;
+    };
+
+    const progressTimes = eventTimesByLead(stageMoves.filter(isForwardMove).map(m => ({ leadId: m.lead_id, at: m.created_at })));
+    const orderTimes = eventTimesByLead(orders.map(o => ({ leadId: o.lead_id, at: o.confirmed_at || o.created_at })));
+    const bookingTimes = eventTimesByLead(appointments.map(a => ({ leadId: leadIdBySender.get(a.sender_psid), at: a.created_at })));
+
+    return splits.map(({ workflow, node, isLive, inDraft }) => {
+        const windowDays = Number(node.data.conversionWindowDays) || DEFAULT_WINDOW_DAYS;
+        const nodeVariants = (node.data.variants as Array<{ id: string; label?: string; weight?: number }> | undefined) || [];
+        const nodeAssignments = assignments.filter(a => a.workflow_id === workflow.id && a.node_id === node.id);
+
+        const variantIds = [...new Set([...nodeVariants.map(v => v.id), ...nodeAssignments.map(a => a.variant_id)])];
+        const variants = variantIds.map((variantId): SplitVariantStats => {
+            const variant = nodeVariants.find(v => v.id === variantId);
+            const stats: SplitVariantStats = {
+                variantId,
+                label: variant?.label || (variant ? 'Variant' : 'Removed variant'),
+                weight: Number(variant?.weight) || 0,
+                removed: !variant,
+                reach: 0,
+                replied: 0,
+                progressed: 0,
+                ordered: 0,
+                booked: 0,
+            };
+
+            for (const assignment of nodeAssignments.filter(a => a.variant_id === variantId)) {
+                const start = new Date(assignment.assigned_at).getTime();
+                const end = start + windowDays * DAY_MS;
+                const inWindow = (times: number[] | undefined) => !!times?.some(t => t >= start && t <= end);
+
+                stats.reach++;
+                if (assignment.first_reply_at && new Date(assignment.first_reply_at).getTime() <= end) stats.replied++;
+                if (inWindow(progressTimes.get(assignment.lead_id))) stats.progressed++;
+                if (inWindow(orderTimes.get(assignment.lead_id))) stats.ordered++;
+                if (inWindow(bookingTimes.get(assignment.lead_id))) stats.booked++;
+            }
+
+            return stats;
+        });
+
+        return {
+            workflowId: workflow.id,
+            workflowName: workflow.name,
+            nodeId: node.id,
+            nodeLabel: String(node.data.label || 'A/B Split'),
+            windowDays,
+            isLive,
+            inDraft,
+            variants,
+        };
+    });
+}
+
+// Nodes reachable from the trigger(s)
+function getReachableNodeIds(graph: SplitGraph): Set<string> {
+    const reachable = new Set(graph.nodes.filter(n => n.data?.type === 'trigger').map(n => n.id));
+    const queue = [...reachable];
+    while (queue.length > 0) {
+        const current = queue.shift() as string;
+        for (const edge of graph.edges) {
+            if (edge.source === current && !reachable.has(edge.target)) {
+                reachable.add(edge.target);
+                queue.push(edge.target);
+            }
+        }
+    }
+    return reachable;
+}
+
+/**
+ * Replace a split node with its winning variant: steps leading into the split connect straight
+ * to the winner's first step, and steps only the losing variants could reach are removed.
+ */
+function collapseSplit(graph: SplitGraph, nodeId: string, variantId: string): SplitGraph {
+    const reachableBefore = getReachableNodeIds(graph);
+    const incoming = graph.edges.filter(e => e.target === nodeId);
+    const winnerTargets = graph.edges.filter(e => e.source === nodeId && e.sourceHandle === variantId).map(e => e.target);
+
+    const rewired: SplitGraph = {
+        nodes: graph.nodes.filter(n => n.id !== nodeId),
+        edges: [
+            ...graph.edges.filter(e => e.source !== nodeId && e.target !== nodeId),
+            ...incoming.flatMap(edge => winnerTargets.map(target => ({
+                ...edge,
+                id: `e${edge.source}-${target}${edge.sourceHandle ? `-${edge.sourceHandle}` : ''}`,
+                target,
+            }))),
+        ],
+    };
+
+    const reachableAfter = getReachableNodeIds(rewired);
+    const orphaned = new Set([...reachableBefore].filter(id => id !== nodeId && !reachableAfter.has(id)));
+
+    return {
+        nodes: rewired.nodes.filter(n => !orphaned.has(n.id)),
+        edges: rewired.edges.filter(e => !orphaned.has(e.source) && !orphaned.has(e.target)),
+    };
+}
+
+/**
+ * Declare a split's winner and collapse the split in the draft.
+ * If the draft had no other unpublished changes and the result validates, it is published right away.
+ */
+export async function declareSplitWinner(
+    workflowId: string,
+    nodeId: string,
+    variantId: string,
+    userId: string
+): Promise<SplitResult> {
+    const { data: workflow, error } = await supabaseAdmin
+        .from('workflows')
+        .select('id, workflow_data, is_published, published_version_id')
+        .eq('id', workflowId)
+        .eq('user_id', userId)
+        .single();
+
+    if (error || !workflow) {
+        return { success: false, error: 'Workflow not found or not owned by user' };
+    }
+
+    const draft = workflow.workflow_data as SplitGraph;
+    const node = getSplitNodes(draft).find(n => n.id === nodeId);
+    if (!node) {
+        return { success: false, error: 'This split is no longer in the draft' };
+    }
+
+    const variants = (node.data.variants as Array<{ id: string }> | undefined) || [];
+    if (!variants.some(v => v.id === variantId)) {
+        return { success: false, error: 'Variant not found on this split' };
+    }
+
+    // Only publish straight away when it wouldn't also ship unrelated draft edits
+    let draftMatchesLive = false;
+    if (workflow.is_published && workflow.published_version_id) {
+        const { data: live } = await supabaseAdmin
+            .from('workflow_versions')
+            .select('workflow_data')
+            .eq('id', workflow.published_version_id)
+            .single();
+        draftMatchesLive = !!live && JSON.stringify(live.workflow_data) === JSON.stringify(draft);
+    }
+
+    const collapsed = collapseSplit(draft, nodeId, variantId);
+    const { data: updated, error: updateError } = await supabaseAdmin
+        .from('workflows')
+        .update({ workflow_data: collapsed })
+        .eq('id', workflowId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+    if (updateError) {
+        console.error('Error collapsing split:', updateError);
+        return { success: false, error: 'Failed to update workflow' };
+    }
+
+    if (!draftMatchesLive) {
+        return { success: true, workflow: updated, published: false };
+    }
+
+    // Same gate as the publish route: removing the losing branches can leave the graph broken
+    const errors = validateWorkflow(collapsed).filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+        return { success: true, workflow: updated, published: false, issues: errors };
+    }
+
+    const published = await publishWorkflowDraft(workflowId, userId, false);
+    if (!published.success) {
+        return { success: true, workflow: updated, published: false };
+    }
+    return { success: true, workflow: published.workflow, published: true };
+}
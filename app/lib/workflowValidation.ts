@@ -0,0 +1,400 @@
+/**
+ * Workflow graph validation
+ * Shared by the automation editor (inline issues on the canvas) and the publish route
+ * (publishing is blocked while any error remains).
+ * Keep this module free of server-only imports - it is bundled into the client.
+ */
+
+import { findUndefinedVariables } from './workflowVariables';
+
+// Minimal workflow shape so both React Flow data and stored workflows can be checked
+interface ValidationWorkflowShape {
+    nodes: Array<{ id: string; data: Record<string, unknown> }>;
+    edges: Array<{ source: string; target: string; sourceHandle?: string | null }>;
+}
+
+export type WorkflowIssueCode =
+    | 'missing_trigger'
+    | 'multiple_triggers'
+    | 'unreachable_node'
+    | 'dangling_edge'
+    | 'missing_branch'
+    | 'instant_loop'
+    | 'empty_message'
+    | 'missing_config'
+    | 'invalid_attachment_url'
+    | 'unreachable_attachment'
+    | 'undefined_variable';
+
+export interface WorkflowIssue {
+    code: WorkflowIssueCode;
+    severity: 'error' | 'warning';
+    message: string;
+    nodeIds: string[];  // Nodes the issue is pinned to (empty for workflow-level issues)
+}
+
+// Nodes that pause the execution, so a loop through them can't spin forever
+const PAUSING_NODE_TYPES = new Set(['wait', 'question']);
+
+function nodeLabel(node: ValidationWorkflowShape['nodes'][number]): string {
+    return String(node.data.label || node.data.type || node.id);
+}
+
+function isHttpUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+// Keyword trigger patterns run against every inbound message, so they are kept small
+export const MAX_TRIGGER_PATTERN_LENGTH = 200;
+
+/**
+ * Whether a regular expression is safe to run on untrusted text: no backreferences and no
+ * repeated group that itself contains a repetition (like (a+)+), which can backtrack exponentially.
+ */
+export function isSafeTriggerPattern(pattern: string): boolean {
+    if (pattern.length > MAX_TRIGGER_PATTERN_LENGTH) return false;
+
+    // Per open group: whether anything inside it repeats
+    const groups: boolean[] = [];
+    let i = 0;
+
+    // Quantifier at an index, and whether it allows more than one repetition
+    const quantifierAt = (index: number): { repeats: boolean; length: number } | null => {
+        const char = pattern[index];
+        if (char === '*' || char === '+') return { repeats: true, length: 1 };
+        if (char === '?') return { repeats: false, length: 1 };
+        const range = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+        if (!range) return null;
+        const max = range[2] === undefined ? Number(range[1]) : range[3] === '' ? Infinity : Number(range[3]);
+        return { repeats: max > 1, length: range[0].length };
+    };
+
+    while (i < pattern.length) {
+        const char = pattern[i];
+        let innerRepeats = false;
+
+        if (char === '\\') {
+            if (/[1-9k]/.test(pattern[i + 1] || '')) return false;
+            i += 2;
+        } else if (char === '[') {
+            i++;
+            if (pattern[i] === '^') i++;
+            if (pattern[i] === ']') i++;
+            while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+            i++;
+        } else if (char === '(') {
+            groups.push(false);
+            i++;
+            continue;
+        } else {
+            if (char === ')') innerRepeats = groups.pop() ?? false;
+            i++;
+        }
+
+        const quantifier = quantifierAt(i);
+        const repeats = quantifier?.repeats ?? false;
+        if (repeats && innerRepeats) return false;
+        if ((repeats || innerRepeats) && groups.length > 0) groups[groups.length - 1] = true;
+        if (quantifier) {
+            i += quantifier.length;
+            if (pattern[i] === '?') i++;  // Lazy quantifier
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Structural and configuration checks that don't need the network.
+ * Errors block publishing; warnings are shown but allowed.
+ */
+export function validateWorkflow(workflowData: ValidationWorkflowShape): WorkflowIssue[] {
+    const issues: WorkflowIssue[] = [];
+    const nodesById = new Map(workflowData.nodes.map(n => [n.id, n]));
+    const validEdges = workflowData.edges.filter(e => nodesById.has(e.source) && nodesById.has(e.target));
+    const hasEdge = (nodeId: string, handle: string) => validEdges.some(e => e.source === nodeId && e.sourceHandle === handle);
+
+    // Triggers
+    const triggers = workflowData.nodes.filter(n => n.data.type === 'trigger');
+    if (triggers.length === 0) {
+        issues.push({ code: 'missing_trigger', severity: 'error', message: 'The workflow has no trigger', nodeIds: [] });
+    } else if (triggers.length > 1) {
+        issues.push({
+            code: 'multiple_triggers',
+            severity: 'error',
+            message: `Only one trigger is allowed (found ${triggers.length})`,
+            nodeIds: triggers.map(t => t.id),
+        });
+    }
+
+    // Edges pointing at deleted nodes
+    for (const edge of workflowData.edges) {
+        if (nodesById.has(edge.source) && nodesById.has(edge.target)) continue;
+        const existing = [edge.source, edge.target].filter(id => nodesById.has(id));
+        issues.push({
+            code: 'dangling_edge',
+            severity: 'warning',
+            message: 'A connection points to a step that no longer exists',
+            nodeIds: existing,
+        });
+    }
+
+    // Nodes the trigger can never reach
+    if (triggers.length > 0) {
+        const reachable = new Set<string>(triggers.map(t => t.id));
+        const queue = [...reachable];
+        while (queue.length > 0) {
+            const current = queue.shift() as string;
+            for (const edge of validEdges) {
+                if (edge.source === current && !reachable.has(edge.target)) {
+                    reachable.add(edge.target);
+                    queue.push(edge.target);
+                }
+            }
+        }
+
+        for (const node of workflowData.nodes) {
+            if (!reachable.has(node.id)) {
+                issues.push({
+                    code: 'unreachable_node',
+                    severity: 'warning',
+                    message: `"${nodeLabel(node)}" is not connected to the trigger and will never run`,
+                    nodeIds: [node.id],
+                });
+            }
+        }
+    }
+
+    // Per-node configuration
+    for (const node of workflowData.nodes) {
+        const data = node.data;
+        const label = nodeLabel(node);
+        const missingConfig = (message: string, severity: WorkflowIssue['severity'] = 'error') => {
+            issues.push({ code: 'missing_config', severity, message: `"${label}": ${message}`, nodeIds: [node.id] });
+        };
+
+        switch (data.type) {
+            case 'trigger':
+                if (data.triggerType === 'keyword') {
+                    const matchMode = data.triggerMatchMode || 'keyword';
+                    const pattern = String(data.triggerPattern || '').trim();
+                    if (matchMode === 'keyword' && !String(data.triggerKeywords || '').trim()) missingConfig('no keywords');
+                    if (matchMode === 'ai_intent' && !String(data.triggerIntent || '').trim()) missingConfig('the intent is empty');
+                    if (matchMode === 'regex') {
+                        if (!pattern) {
+                            missingConfig('no pattern');
+                        } else {
+                            try {
+                                new RegExp(pattern, 'i');
+                                if (!isSafeTriggerPattern(pattern)) {
+                                    missingConfig(`the pattern must be under ${MAX_TRIGGER_PATTERN_LENGTH} characters, without backreferences or nested repeats like (a+)+`);
+                                }
+                            } catch {
+                                missingConfig('the pattern is not a valid regular expression');
+                            }
+                        }
+                    }
+                }
+                break;
+
+            case 'message': {
+                const text = String(data.messageText || '').trim();
+                const imageUrl = String(data.imageUrl || '').trim();
+                if (!text && !imageUrl) {
+                    issues.push({ code: 'empty_message', severity: 'error', message: `"${label}" has no text or attachment`, nodeIds: [node.id] });
+                }
+                if (imageUrl && !isHttpUrl(imageUrl)) {
+                    issues.push({
+                        code: 'invalid_attachment_url',
+                        severity: 'error',
+                        message: `"${label}" has an attachment URL that isn't a valid http(s) link`,
+                        nodeIds: [node.id],
+                    });
+                }
+                break;
+            }
+
+            case 'smart_condition':
+                for (const handle of ['true', 'false']) {
+                    if (!hasEdge(node.id, handle)) {
+                        issues.push({
+                            code: 'missing_branch',
+                            severity: 'error',
+                            message: `"${label}" has no "${handle}" path`,
+                            nodeIds: [node.id],
+                        });
+                    }
+                }
+                if (data.conditionType === 'ai_rule' && !String(data.conditionRule || data.description || '').trim()) {
+                    missingConfig('the AI rule is empty');
+                }
+                break;
+
+            case 'question': {
+                const branches = (data.branches as Array<{ id: string; label?: string }> | undefined) || [];
+                for (const branch of branches) {
+                    if (!hasEdge(node.id, branch.id)) {
+                        issues.push({
+                            code: 'missing_branch',
+                            severity: 'warning',
+                            message: `"${label}": answer "${branch.label || 'Answer'}" isn't connected, so the workflow ends there`,
+                            nodeIds: [node.id],
+                        });
+                    }
+                }
+                if (parseInt(String(data.timeoutDuration || '0')) > 0 && !hasEdge(node.id, 'timeout')) {
+                    issues.push({
+                        code: 'missing_branch',
+                        severity: 'warning',
+                        message: `"${label}" has a timeout but no "Timeout" path`,
+                        nodeIds: [node.id],
+                    });
+                }
+                break;
+            }
+
+            case 'http_request':
+                if (!String(data.requestUrl || '').trim()) {
+                    missingConfig('no request URL');
+                }
+                if (!hasEdge(node.id, 'error')) {
+                    issues.push({
+                        code: 'missing_branch',
+                        severity: 'warning',
+                        message: `"${label}" has no "Failed" path, so a failed request ends the workflow`,
+                        nodeIds: [node.id],
+                    });
+                }
+                break;
+
+            case 'split': {
+                const variants = (data.variants as Array<{ id: string; label?: string; weight?: number }> | undefined) || [];
+                const weighted = variants.filter(v => Number(v.weight) > 0);
+                if (weighted.length < 2) missingConfig('needs at least two variants with a weight above zero');
+                for (const variant of weighted) {
+                    if (!hasEdge(node.id, variant.id)) {
+                        issues.push({
+                            code: 'missing_branch',
+                            severity: 'warning',
+                            message: `"${label}": variant "${variant.label || 'Variant'}" isn't connected, so leads routed to it stop there`,
+                            nodeIds: [node.id],
+                        });
+                    }
+                }
+                break;
+            }
+
+            case 'move_stage':
+                if (!data.stageId) missingConfig('no stage selected');
+                break;
+
+            case 'set_variable':
+                if (!data.variableName) missingConfig('no variable name');
+                break;
+
+            case 'tag_lead':
+                if (!String(data.tags || '').trim()) missingConfig('no tags', 'warning');
+                break;
+
+            case 'create_task':
+                if (!String(data.taskTitle || '').trim()) missingConfig('no task title');
+                break;
+
+            case 'wait':
+                if (!(parseInt(String(data.duration || '5')) > 0)) missingConfig('the wait duration must be greater than zero', 'warning');
+                break;
+        }
+    }
+
+    // Loops that never pause would run forever in a single execution
+    for (const cycle of findInstantLoops(workflowData.nodes, validEdges)) {
+        issues.push({
+            code: 'instant_loop',
+            severity: 'error',
+            message: `Loop without a Wait or Question step: ${cycle.map(id => nodeLabel(nodesById.get(id) as ValidationWorkflowShape['nodes'][number])).join(' → ')}`,
+            nodeIds: cycle,
+        });
+    }
+
+    for (const reference of findUndefinedVariables(workflowData)) {
+        issues.push({
+            code: 'undefined_variable',
+            severity: 'error',
+            message: `{{${reference.placeholder}}} in "${reference.nodeLabel}" is never defined`,
+            nodeIds: [reference.nodeId],
+        });
+    }
+
+    return issues;
+}
+
+// Cycles made only of nodes that don't pause (depth-first search for back edges)
+function findInstantLoops(
+    nodes: ValidationWorkflowShape['nodes'],
+    edges: ValidationWorkflowShape['edges']
+): string[][] {
+    const candidates = new Set(nodes.filter(n => !PAUSING_NODE_TYPES.has(String(n.data.type))).map(n => n.id));
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+
+    const visit = (nodeId: string) => {
+        state.set(nodeId, 'visiting');
+        stack.push(nodeId);
+
+        for (const edge of edges) {
+            if (edge.source !== nodeId || !candidates.has(edge.target)) continue;
+            if (state.get(edge.target) === 'visiting') {
+                cycles.push(stack.slice(stack.indexOf(edge.target)));
+            } else if (!state.has(edge.target)) {
+                visit(edge.target);
+            }
+        }
+
+        stack.pop();
+        state.set(nodeId, 'done');
+    };
+
+    for (const nodeId of candidates) {
+        if (!state.has(nodeId)) visit(nodeId);
+    }
+
+    return cycles;
+}
+
+/**
+ * Check that message attachments can actually be downloaded (Facebook fetches them by URL).
+ * Needs the network, so it runs server-side at publish time.
+ */
+export async function findUnreachableAttachments(workflowData: ValidationWorkflowShape): Promise<WorkflowIssue[]> {
+    const attachments = workflowData.nodes
+        .filter(n => n.data.type === 'message' && typeof n.data.imageUrl === 'string' && isHttpUrl(n.data.imageUrl))
+        .map(n => ({ node: n, url: String(n.data.imageUrl) }));
+
+    const results = await Promise.all(attachments.map(async ({ url }) => {
+        try {
+            let res = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(5000) });
+            if (res.status === 405) {
+                // Some hosts reject HEAD; a ranged GET avoids downloading the whole file
+                res = await fetch(url, { headers: { Range: 'bytes=0-0' }, signal: AbortSignal.timeout(5000) });
+            }
+            return res.ok ? null : `returned HTTP ${res.status}`;
+        } catch {
+            return 'could not be reached';
+        }
+    }));
+
+    return attachments.flatMap(({ node }, index): WorkflowIssue[] => results[index]
+        ? [{
+            code: 'unreachable_attachment',
+            severity: 'error',
+            message: `The attachment on "${nodeLabel(node)}" ${results[index]}`,
+            nodeIds: [node.id],
+        }]
+        : []);
+}
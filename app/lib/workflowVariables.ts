@@ -0,0 +1,133 @@
+/**
+ * Workflow template variables
+ * Shared by the automation editor (variable picker, publish checks) and the workflow engine.
+ * Keep this module free of server-only imports - it is bundled into the client.
+ *
+ * Placeholders use the form {{namespace.key}}:
+ * - lead.*        - fields on the lead record
+ * - entity.*      - facts extracted by entityTrackingService (matched by entity key or type)
+ * - appointment.* - the triggering (or next upcoming) appointment
+ * - order.*       - the lead's most recent order
+ * - var.*         - workflow variables set by question / set_variable / http_request nodes
+ */
+
+export interface WorkflowVariableOption {
+    key: string;          // e.g. "lead.name"
+    label: string;
+    group: 'Lead' | 'Customer Details' | 'Appointment' | 'Order' | 'Workflow';
+}
+
+export const BUILT_IN_VARIABLES: WorkflowVariableOption[] = [
+    { key: 'lead.name', label: 'Full name', group: 'Lead' },
+    { key: 'lead.first_name', label: 'First name', group: 'Lead' },
+    { key: 'lead.phone', label: 'Phone', group: 'Lead' },
+    { key: 'lead.email', label: 'Email', group: 'Lead' },
+    { key: 'entity.budget', label: 'Budget', group: 'Customer Details' },
+    { key: 'entity.preference', label: 'Preference', group: 'Customer Details' },
+    { key: 'entity.interest', label: 'Interest', group: 'Customer Details' },
+    { key: 'entity.location', label: 'Location', group: 'Customer Details' },
+    { key: 'appointment.date', label: 'Appointment date', group: 'Appointment' },
+    { key: 'appointment.time', label: 'Appointment time', group: 'Appointment' },
+    { key: 'order.id', label: 'Order number', group: 'Order' },
+    { key: 'order.total', label: 'Order total', group: 'Order' },
+    { key: 'order.status', label: 'Order status', group: 'Order' },
+    { key: 'order.items', label: 'Order items', group: 'Order' },
+];
+
+// Node data fields that are rendered as templates by the engine
+export const TEMPLATE_FIELDS = [
+    'messageText', 'questionText', 'conditionRule', 'variableValue', 'reason', 'tags',
+    'ownerName', 'taskTitle', 'taskNotes',
+    'requestUrl', 'requestHeaders', 'requestBody',
+] as const;
+
+// Minimal workflow shape so both React Flow nodes and engine nodes can be checked
+interface VariableWorkflowShape {
+    nodes: Array<{ id: string; data: Record<string, unknown> }>;
+}
+
+export interface UndefinedVariableReference {
+    nodeId: string;
+    nodeLabel: string;
+    placeholder: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_]+)\.([a-zA-Z0-9_]+)\s*\}\}/g;
+
+/**
+ * List the placeholders ("namespace.key") referenced in a template string
+ */
+export function extractPlaceholders(text: string | null | undefined): string[] {
+    if (!text) return [];
+    const found = new Set<string>();
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+        found.add(`${match[1]}.${match[2]}`);
+    }
+    return [...found];
+}
+
+/**
+ * Replace placeholders with their resolved values. Unresolved placeholders become empty strings.
+ */
+export function interpolateTemplate(text: string, values: Record<string, string>): string {
+    return text
+        .replace(PLACEHOLDER_PATTERN, (_, namespace: string, key: string) => values[`${namespace}.${key}`] ?? '')
+        .replace(/[ \t]{2,}/g, ' ');
+}
+
+/**
+ * Names of the workflow variables ("var.*") assigned anywhere in the workflow
+ */
+export function getDefinedWorkflowVariables(workflowData: VariableWorkflowShape): string[] {
+    const names = new Set<string>();
+    for (const node of workflowData.nodes) {
+        const data = node.data;
+        if (data.type === 'question' && typeof data.answerVariable === 'string' && data.answerVariable) {
+            names.add(data.answerVariable);
+        }
+        if (data.type === 'set_variable' && typeof data.variableName === 'string' && data.variableName) {
+            names.add(data.variableName);
+        }
+        if (data.type === 'http_request' && Array.isArray(data.responseMappings)) {
+            for (const mapping of data.responseMappings as Array<{ variable?: string }>) {
+                if (mapping.variable) names.add(mapping.variable);
+            }
+        }
+    }
+    return [...names];
+}
+
+/**
+ * Find placeholders that can never resolve: unknown namespaces, unknown built-in fields,
+ * or workflow variables that no node assigns.
+ */
+export function findUndefinedVariables(workflowData: VariableWorkflowShape): UndefinedVariableReference[] {
+    const builtIns = new Set(BUILT_IN_VARIABLES.filter(v => v.group !== 'Customer Details').map(v => v.key));
+    const workflowVariables = new Set(getDefinedWorkflowVariables(workflowData));
+    const problems: UndefinedVariableReference[] = [];
+
+    for (const node of workflowData.nodes) {
+        for (const field of TEMPLATE_FIELDS) {
+            const value = node.data[field];
+            if (typeof value !== 'string') continue;
+
+            for (const placeholder of extractPlaceholders(value)) {
+                const [namespace, key] = placeholder.split('.');
+                const isDefined =
+                    namespace === 'entity' || // Entity keys are open-ended; resolved per lead
+                    (namespace === 'var' && workflowVariables.has(key)) ||
+                    builtIns.has(placeholder);
+
+                if (!isDefined) {
+                    problems.push({
+                        nodeId: node.id,
+                        nodeLabel: String(node.data.label || node.id),
+                        placeholder,
+                    });
+                }
+            }
+        }
+    }
+
+    return problems;
+}
@@ -0,0 +1,271 @@
+import { supabaseAdmin } from './supabaseAdmin';
+
+/**
+ * Workflow Versions
+ * workflows.workflow_data is the editable draft. Publishing snapshots it into an immutable
+ * workflow_versions row and points workflows.published_version_id at it; new executions
+ * start on (and stay pinned to) that version.
+ */
+
+export interface Workflow {
+    id: string;
+    user_id: string;
+    name: string;
+    workflow_data: WorkflowVersion['workflow_data'];
+    trigger_type: string | null;
+    trigger_stage_id: string | null;
+    trigger_config: WorkflowTriggerConfig | null;
+    is_published: boolean;
+    apply_to_existing: boolean;
+    published_version_id: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface WorkflowVersion {
+    id: string;
+    workflow_id: string;
+    version_number: number;
+    workflow_data: { nodes: Array<{ data?: Record<string, unknown> }>; edges: unknown[] };
+    trigger_type: string | null;
+    trigger_stage_id: string | null;
+    trigger_config: WorkflowTriggerConfig | null;
+    note: string | null;
+    created_at: string;
+}
+
+export type TriggerDedupe = 'none' | 'once_per_lead' | 'once_per_day';
+
+/**
+ * Settings of event triggers (keyword, referral, postback, form, order status, abandoned cart),
+ * copied from the trigger node so the engine can match events without loading the graph
+ */
+export interface WorkflowTriggerConfig {
+    dedupe: TriggerDedupe;
+    matchMode?: 'keyword' | 'regex' | 'ai_intent';
+    keywords?: string;           // Comma-separated, case-insensitive
+    pattern?: string;            // Regular expression (matchMode 'regex')
+    intent?: string;             // Plain-language intent description (matchMode 'ai_intent')
+    skipAiReply?: boolean;       // A matching message is handled by the workflow instead of the AI
+    ref?: string;                // m.me ref value; empty matches any referral
+    payload?: string;            // Postback payload; empty matches any postback
+    formId?: string;             // Empty matches any form
+    orderStatus?: string;        // Empty matches any status change
+    abandonAfterHours?: number;  // Cart idle time before it counts as abandoned
+}
+
+interface VersionResult {
+    success: boolean;
+    error?: string;
+    workflow?: Workflow;
+    version?: WorkflowVersion;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+type TriggerNodeData = Record<string, unknown>;
+
+function getTriggerNodeData(workflowData: WorkflowVersion['workflow_data'] | null): TriggerNodeData {
+    return workflowData?.nodes?.find(n => n.data?.type === 'trigger')?.data || {};
+}
+
+/**
+ * Trigger settings stored in trigger_config for a graph (null for triggers without settings)
+ */
+export function getTriggerConfig(workflowData: WorkflowVersion['workflow_data'] | null): WorkflowTriggerConfig | null {
+    const data = getTriggerNodeData(workflowData);
+    const text = (field: string) => String(data[field] || '').trim();
+    const config: WorkflowTriggerConfig = {
+        dedupe: (['once_per_lead', 'once_per_day'].includes(text('triggerDedupe')) ? text('triggerDedupe') : 'none') as TriggerDedupe,
+    };
+
+    switch (String(data.triggerType || 'stage_change')) {
+        case 'keyword':
+            config.matchMode = (['regex', 'ai_intent'].includes(text('triggerMatchMode')) ? text('triggerMatchMode') : 'keyword') as WorkflowTriggerConfig['matchMode'];
+            config.keywords = text('triggerKeywords');
+            config.pattern = text('triggerPattern');
+            config.intent = text('triggerIntent');
+            config.skipAiReply = data.triggerSkipAiReply !== false;
+            break;
+        case 'referral':
+            config.ref = text('triggerRef');
+            break;
+        case 'postback':
+            config.payload = text('triggerPayload');
+            break;
+        case 'form_submitted':
+            config.formId = text('triggerFormId');
+            break;
+        case 'order_status_changed':
+            config.orderStatus = text('triggerOrderStatus');
+            break;
+        case 'cart_abandoned': {
+            const hours = parseFloat(text('triggerAbandonAfterHours'));
+            config.abandonAfterHours = hours > 0 ? hours : 24;
+            break;
+        }
+        default:
+            return null;
+    }
+
+    return config;
+}
+
+// Trigger columns for a graph, read from its trigger node (same rules as saving a workflow)
+function getTriggerColumns(workflowData: WorkflowVersion['workflow_data'] | null) {
+    const triggerData = getTriggerNodeData(workflowData);
+    const triggerType = String(triggerData.triggerType || 'stage_change');
+    const stageId = typeof triggerData.triggerStageId === 'string' && UUID_PATTERN.test(triggerData.triggerStageId)
+        ? triggerData.triggerStageId
+        : null;
+
+    return {
+        trigger_type: triggerType,
+        trigger_stage_id: triggerType === 'stage_change' ? stageId : null,
+        trigger_config: getTriggerConfig(workflowData),
+    };
+}
+
+async function getNextVersionNumber(workflowId: string): Promise<number> {
+    const { data } = await supabaseAdmin
+        .from('workflow_versions')
+        .select('version_number')
+        .eq('workflow_id', workflowId)
+        .order('version_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    return (data?.version_number || 0) + 1;
+}
+
+// Insert a version and make it the live one
+async function publishSnapshot(
+    workflowId: string,
+    userId: string,
+    workflowData: WorkflowVersion['workflow_data'],
+    note: string | null,
+    extraUpdates: Record<string, unknown> = {}
+): Promise<VersionResult> {
+    const triggerColumns = getTriggerColumns(workflowData);
+
+    const { data: version, error: versionError } = await supabaseAdmin
+        .from('workflow_versions')
+        .insert({
+            workflow_id: workflowId,
+            user_id: userId,
+            version_number: await getNextVersionNumber(workflowId),
+            workflow_data: workflowData,
+            note,
+            ...triggerColumns,
+        })
+        .select()
+        .single();
+
+    if (versionError || !version) {
+        console.error('Error creating workflow version:', versionError);
+        return { success: false, error: 'Failed to create workflow version' };
+    }
+
+    const { data: workflow, error } = await supabaseAdmin
+        .from('workflows')
+        .update({
+            is_published: true,
+            published_version_id: version.id,
+            ...triggerColumns,
+            ...extraUpdates,
+        })
+        .eq('id', workflowId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error publishing workflow version:', error);
+        return { success: false, error: 'Failed to publish workflow version' };
+    }
+
+    return { success: true, workflow, version };
+}
+
+/**
+ * Publish the current draft. A new version is only created when the draft differs from the
+ * live version; otherwise the workflow is simply (re)published on its current version.
+ */
+export async function publishWorkflowDraft(
+    workflowId: string,
+    userId: string,
+    applyToExisting = false
+): Promise<VersionResult> {
+    const { data: workflow, error } = await supabaseAdmin
+        .from('workflows')
+        .select('id, workflow_data, published_version_id')
+        .eq('id', workflowId)
+        .eq('user_id', userId)
+        .single();
+
+    if (error || !workflow) {
+        return { success: false, error: 'Workflow not found or not owned by user' };
+    }
+
+    if (workflow.published_version_id) {
+        const { data: live } = await supabaseAdmin
+            .from('workflow_versions')
+            .select('*')
+            .eq('id', workflow.published_version_id)
+            .single();
+
+        if (live && JSON.stringify(live.workflow_data) === JSON.stringify(workflow.workflow_data)) {
+            const { data: updated, error: updateError } = await supabaseAdmin
+                .from('workflows')
+                .update({
+                    is_published: true,
+                    apply_to_existing: applyToExisting,
+                    trigger_type: live.trigger_type,
+                    trigger_stage_id: live.trigger_stage_id,
+                    trigger_config: live.trigger_config,
+                })
+                .eq('id', workflowId)
+                .eq('user_id', userId)
+                .select()
+                .single();
+
+            if (updateError) {
+                console.error('Error republishing workflow:', updateError);
+                return { success: false, error: 'Failed to publish workflow' };
+            }
+            return { success: true, workflow: updated, version: live };
+        }
+    }
+
+    return publishSnapshot(workflowId, userId, workflow.workflow_data, null, { apply_to_existing: applyToExisting });
+}
+
+/**
+ * Make an earlier version live again. It is republished as a new version (so history stays
+ * linear) and the draft is reset to it.
+ */
+export async function rollbackWorkflowVersion(
+    workflowId: string,
+    versionId: string,
+    userId: string
+): Promise<VersionResult> {
+    const { data: target, error } = await supabaseAdmin
+        .from('workflow_versions')
+        .select('*')
+        .eq('id', versionId)
+        .eq('workflow_id', workflowId)
+        .eq('user_id', userId)
+        .single();
+
+    if (error || !target) {
+        return { success: false, error: 'Version not found' };
+    }
+
+    return publishSnapshot(
+        workflowId,
+        userId,
+        target.workflow_data,
+        `Rolled back to v${target.version_number}`,
+        { workflow_data: target.workflow_data }
+    );
+}
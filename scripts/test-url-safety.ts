@@ -0,0 +1,97 @@
+/**
+ * URL Safety Test Script
+ *
+ * Checks that the SSRF guard used for knowledge imports, webhooks and workflow
+ * HTTP requests rejects private, loopback and metadata addresses in every
+ * spelling, including IPv6 forms that embed an IPv4 address.
+ *
+ * Run with: npm run test:url-safety
+ */
+
+import { fetch } from 'undici';
+import { isPrivateAddress, assertPublicUrl, normalizeUrl, publicDispatcher } from '../app/lib/urlSafety';
+
+// Test results tracking
+let passed = 0;
+let failed = 0;
+
+function pass(testName: string) {
+    passed++;
+    console.log(`✅ PASS: ${testName}`);
+}
+
+function fail(testName: string, reason: string) {
+    failed++;
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Reason: ${reason}`);
+}
+
+const PRIVATE_ADDRESSES = [
+    '0.0.0.0', '10.1.2.3', '100.64.0.1', '127.0.0.1', '169.254.169.254', '172.16.0.1',
+    '192.0.0.170', '192.0.2.1', '192.168.1.1', '198.18.0.1', '198.19.255.255', '224.0.0.1', '255.255.255.255',
+    '::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1', '2001:db8::1',
+    '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '::ffff:169.254.169.254', '::a9fe:a9fe',
+    '64:ff9b::a9fe:a9fe', '64:ff9b::7f00:1', '2002:a9fe:a9fe::', '2002:7f00:1::1',
+];
+
+const PUBLIC_ADDRESSES = [
+    '8.8.8.8', '1.1.1.1', '172.32.0.1', '192.0.1.1', '198.20.0.1',
+    '2606:4700:4700::1111', '::ffff:8.8.8.8', '64:ff9b::808:808', '2002:808:808::',
+];
+
+// URLs as tenants might write them; WHATWG parsing normalizes several of these
+const PRIVATE_URLS = [
+    'http://[::ffff:169.254.169.254]/latest/meta-data/',
+    'http://[::ffff:7f00:1]/',
+    'http://[::ffff:127.0.0.1]:8080/',
+    'http://[64:ff9b::a9fe:a9fe]/',
+    'http://[2002:a9fe:a9fe::]/',
+    'http://[::]/',
+    'http://0x7f.1/',
+    'http://2130706433/',
+    'http://169.254.169.254/',
+    'http://localhost/',
+];
+
+async function runTests() {
+    console.log('\n🔒 URL Safety Tests\n');
+
+    for (const address of PRIVATE_ADDRESSES) {
+        if (isPrivateAddress(address)) pass(`${address} is private`);
+        else fail(`${address} is private`, 'treated as public');
+    }
+
+    for (const address of PUBLIC_ADDRESSES) {
+        if (!isPrivateAddress(address)) pass(`${address} is public`);
+        else fail(`${address} is public`, 'treated as private');
+    }
+
+    for (const input of PRIVATE_URLS) {
+        const url = normalizeUrl(input);
+        if (!url) {
+            fail(`${input} is refused`, 'URL did not parse');
+            continue;
+        }
+        try {
+            await assertPublicUrl(url);
+            fail(`${input} is refused`, `accepted as ${url.hostname}`);
+        } catch {
+            pass(`${input} is refused`);
+        }
+    }
+
+    // The dispatcher checks the resolved address itself, so a host passing an earlier check can't rebind
+    try {
+        await fetch('http://localhost:8081/', { dispatcher: publicDispatcher, signal: AbortSignal.timeout(5000) });
+        fail('publicDispatcher refuses hosts resolving to loopback', 'request was made');
+    } catch (error) {
+        const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : String(error);
+        if (cause.includes('Refusing')) pass('publicDispatcher refuses hosts resolving to loopback');
+        else fail('publicDispatcher refuses hosts resolving to loopback', cause);
+    }
+
+    console.log(`\n${passed} passed, ${failed} failed\n`);
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
@@ -0,0 +1,19 @@
+-- Workflow Question Nodes Migration
+-- Lets executions pause on a "question" node until the lead replies
+
+-- Allow the new waiting_reply status (execution paused until the next inbound message)
+ALTER TABLE workflow_executions DROP CONSTRAINT IF EXISTS workflow_executions_status_check;
+ALTER TABLE workflow_executions
+ADD CONSTRAINT workflow_executions_status_check
+CHECK (status IN ('pending', 'waiting_reply', 'completed', 'stopped'));
+
+-- Fast lookup of executions waiting on a lead's answer (checked on every inbound message)
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_waiting_reply ON workflow_executions(lead_id)
+  WHERE status = 'waiting_reply';
+
+-- Question timeouts reuse scheduled_for, so the cron index must cover waiting_reply too
+DROP INDEX IF EXISTS idx_workflow_executions_scheduled;
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_scheduled ON workflow_executions(scheduled_for)
+  WHERE status IN ('pending', 'waiting_reply') AND scheduled_for IS NOT NULL;
+
+COMMENT ON COLUMN workflow_executions.scheduled_for IS 'When a waiting execution resumes: wait node wake-up time, or question node reply timeout';
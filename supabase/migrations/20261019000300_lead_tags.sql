@@ -0,0 +1,8 @@
+-- Lead Tags Migration
+-- Free-form tags on leads, managed by workflow "Tag Lead" actions
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_leads_tags ON leads USING GIN(tags);
+
+COMMENT ON COLUMN leads.tags IS 'Lowercase lead tags added/removed by workflows';
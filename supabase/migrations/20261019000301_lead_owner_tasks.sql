@@ -0,0 +1,41 @@
+-- Lead Owner & Tasks Migration
+-- Owner and follow-up tasks on leads, managed by workflow "Assign Owner" and "Create Task" actions.
+-- There is no team member model yet, so the owner is a free-form name (or email).
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS owner TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_leads_user_owner ON leads(user_id, owner) WHERE owner IS NOT NULL;
+
+-- ============================================================================
+-- LEAD TASKS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS lead_tasks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID,
+    lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    notes TEXT,
+    assigned_to TEXT,                          -- Lead owner at the time the task was created
+    due_at TIMESTAMPTZ,
+    status TEXT NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'done')),
+    workflow_id UUID,                          -- Workflow that created the task, if any
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_lead ON lead_tasks(lead_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_user_open ON lead_tasks(user_id, due_at) WHERE status = 'open';
+
+ALTER TABLE lead_tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own lead_tasks" ON lead_tasks;
+CREATE POLICY "Users can view their own lead_tasks" ON lead_tasks
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all lead_tasks" ON lead_tasks;
+CREATE POLICY "Service role can access all lead_tasks" ON lead_tasks
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON COLUMN leads.owner IS 'Name of the person responsible for the lead, set by workflows';
+COMMENT ON TABLE lead_tasks IS 'Follow-up tasks on a lead, created by workflow "Create Task" actions';
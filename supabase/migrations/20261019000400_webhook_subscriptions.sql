@@ -0,0 +1,53 @@
+-- Outbound Webhook Subscriptions Migration
+-- Tenants register endpoints that receive HMAC-signed event payloads
+-- (order.confirmed, appointment.booked, lead.stage_changed, form.submitted, digital_purchase.created)
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,                   -- HMAC-SHA256 signing secret
+    events TEXT[] NOT NULL DEFAULT '{}',    -- Event types this endpoint receives
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_user ON webhook_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_events ON webhook_subscriptions USING GIN(events);
+
+-- Delivery log: one row per event sent to a subscription (retries update the same row)
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    subscription_id UUID REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL,
+    payload JSONB DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'failed')),
+    attempts INTEGER DEFAULT 0,
+    response_status INTEGER,
+    response_body TEXT,
+    error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_user_created ON webhook_deliveries(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id);
+
+-- Enable RLS
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own webhook subscriptions" ON webhook_subscriptions;
+CREATE POLICY "Users manage their own webhook subscriptions" ON webhook_subscriptions
+    FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view their own webhook deliveries" ON webhook_deliveries;
+CREATE POLICY "Users can view their own webhook deliveries" ON webhook_deliveries
+    FOR SELECT USING (user_id = auth.uid());
+
+COMMENT ON TABLE webhook_subscriptions IS 'Tenant-registered endpoints for outbound event webhooks';
+COMMENT ON COLUMN webhook_subscriptions.secret IS 'Shared secret used to sign payloads (X-Webhook-Signature: sha256=<hex>)';
+COMMENT ON TABLE webhook_deliveries IS 'Outbound webhook delivery attempts and their results';
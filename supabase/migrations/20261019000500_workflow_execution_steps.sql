@@ -0,0 +1,44 @@
+-- Workflow Execution Trace Migration
+-- Records every node an execution runs so the path taken (and any failure) can be inspected
+
+-- Executions that hit an error stop on the failing node with status 'failed' so they can be retried
+ALTER TABLE workflow_executions DROP CONSTRAINT IF EXISTS workflow_executions_status_check;
+ALTER TABLE workflow_executions
+ADD CONSTRAINT workflow_executions_status_check
+CHECK (status IN ('pending', 'waiting_reply', 'completed', 'stopped', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_user_created
+  ON workflow_executions(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS workflow_execution_steps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    execution_id UUID NOT NULL REFERENCES workflow_executions(id) ON DELETE CASCADE,
+    user_id UUID,
+    node_id TEXT NOT NULL,
+    node_type TEXT NOT NULL,
+    node_label TEXT,
+    outcome TEXT NOT NULL CHECK (outcome IN ('completed', 'waiting', 'stopped', 'failed')),
+    message_sent TEXT,      -- Text sent to the lead by this step, if any
+    branch_taken TEXT,      -- Output handle followed by branching nodes (true/false, answer, success/error)
+    error TEXT,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_execution_steps_execution
+  ON workflow_execution_steps(execution_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_workflow_execution_steps_user ON workflow_execution_steps(user_id);
+
+-- Enable RLS
+ALTER TABLE workflow_execution_steps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own workflow_execution_steps" ON workflow_execution_steps;
+CREATE POLICY "Users can manage their own workflow_execution_steps" ON workflow_execution_steps
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all workflow_execution_steps" ON workflow_execution_steps;
+CREATE POLICY "Service role can access all workflow_execution_steps" ON workflow_execution_steps
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE workflow_execution_steps IS 'Per-node trace of workflow executions';
+COMMENT ON COLUMN workflow_execution_steps.outcome IS 'completed = moved on, waiting = paused (wait/question), stopped = stop_bot, failed = error';
@@ -0,0 +1,70 @@
+-- Workflow Versions Migration
+-- Publishing snapshots the draft (workflows.workflow_data) into an immutable version.
+-- Executions are pinned to the version they started on, so editing or republishing a
+-- workflow never changes the graph an in-flight execution resumes on.
+
+CREATE TABLE IF NOT EXISTS workflow_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workflow_id UUID NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+    user_id UUID,
+    version_number INTEGER NOT NULL,
+    workflow_data JSONB NOT NULL,
+    trigger_type TEXT,
+    trigger_stage_id UUID,
+    note TEXT,                -- e.g. "Rolled back to v2"
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (workflow_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_versions_workflow ON workflow_versions(workflow_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_versions_user ON workflow_versions(user_id);
+
+-- The version live triggers run; workflow_data stays the editable draft
+ALTER TABLE workflows
+ADD COLUMN IF NOT EXISTS published_version_id UUID REFERENCES workflow_versions(id) ON DELETE SET NULL;
+
+-- The version an execution started on (NULL = draft, used by test runs)
+ALTER TABLE workflow_executions
+ADD COLUMN IF NOT EXISTS workflow_version_id UUID REFERENCES workflow_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_version ON workflow_executions(workflow_version_id);
+
+-- Backfill: currently published workflows become version 1 and their open executions are pinned to it
+INSERT INTO workflow_versions (workflow_id, user_id, version_number, workflow_data, trigger_type, trigger_stage_id, note)
+SELECT w.id, w.user_id, 1, w.workflow_data, w.trigger_type, w.trigger_stage_id, 'Initial version'
+FROM workflows w
+WHERE w.is_published = true
+  AND w.workflow_data IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM workflow_versions v WHERE v.workflow_id = w.id);
+
+UPDATE workflows w
+SET published_version_id = v.id
+FROM workflow_versions v
+WHERE v.workflow_id = w.id
+  AND v.version_number = 1
+  AND w.is_published = true
+  AND w.published_version_id IS NULL;
+
+UPDATE workflow_executions e
+SET workflow_version_id = w.published_version_id
+FROM workflows w
+WHERE e.workflow_id = w.id
+  AND e.workflow_version_id IS NULL
+  AND w.published_version_id IS NOT NULL
+  AND e.status IN ('pending', 'waiting_reply', 'failed');
+
+-- Enable RLS
+ALTER TABLE workflow_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own workflow_versions" ON workflow_versions;
+CREATE POLICY "Users can manage their own workflow_versions" ON workflow_versions
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all workflow_versions" ON workflow_versions;
+CREATE POLICY "Service role can access all workflow_versions" ON workflow_versions
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE workflow_versions IS 'Immutable published snapshots of workflow graphs';
+COMMENT ON COLUMN workflows.workflow_data IS 'Editable draft; goes live only when published as a new version';
+COMMENT ON COLUMN workflows.published_version_id IS 'Version that new executions start on';
+COMMENT ON COLUMN workflow_executions.workflow_version_id IS 'Version the execution started on and resumes against (NULL = draft test run)';
@@ -0,0 +1,45 @@
+-- Workflow Event Triggers Migration
+-- Adds message keyword/intent, m.me referral, postback, form submission, order status and
+-- abandoned cart triggers. Their settings (keywords, ref, payload, de-duplication, ...) are
+-- copied from the trigger node into trigger_config so triggers can be matched without
+-- loading the whole graph.
+
+ALTER TABLE workflows
+ADD COLUMN IF NOT EXISTS trigger_config JSONB;
+
+ALTER TABLE workflow_versions
+ADD COLUMN IF NOT EXISTS trigger_config JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_workflows_trigger_type ON workflows(user_id, trigger_type) WHERE is_published = true;
+
+-- One row per (workflow, lead, dedupe key) that has already fired.
+-- Keys: 'lead' (once per lead), 'day:YYYY-MM-DD' (once per UTC day) and event keys such as
+-- 'cart:<order id>' or 'order:<order id>:<status>' that stop the same event firing twice.
+CREATE TABLE IF NOT EXISTS workflow_trigger_claims (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workflow_id UUID NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+    lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    user_id UUID,
+    trigger_type TEXT NOT NULL,
+    dedupe_key TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (workflow_id, lead_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_trigger_claims_user ON workflow_trigger_claims(user_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_trigger_claims_created ON workflow_trigger_claims(created_at);
+
+-- Enable RLS
+ALTER TABLE workflow_trigger_claims ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own workflow_trigger_claims" ON workflow_trigger_claims;
+CREATE POLICY "Users can manage their own workflow_trigger_claims" ON workflow_trigger_claims
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all workflow_trigger_claims" ON workflow_trigger_claims;
+CREATE POLICY "Service role can access all workflow_trigger_claims" ON workflow_trigger_claims
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON COLUMN workflows.trigger_config IS 'Trigger node settings (match rules, de-duplication) for event triggers';
+COMMENT ON COLUMN workflow_versions.trigger_config IS 'Trigger node settings captured when the version was published';
+COMMENT ON TABLE workflow_trigger_claims IS 'De-duplication records for event-triggered workflows';
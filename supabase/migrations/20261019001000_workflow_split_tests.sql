@@ -0,0 +1,36 @@
+-- Workflow Split Tests Migration
+-- A split node routes each lead to one of its weighted variants. The assignment is stored so
+-- the lead keeps its variant if it reaches the split again, and so results can be reported
+-- per variant (reach, replies, stage moves, orders and appointments).
+
+CREATE TABLE IF NOT EXISTS workflow_split_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workflow_id UUID NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+    workflow_version_id UUID REFERENCES workflow_versions(id) ON DELETE SET NULL,
+    node_id TEXT NOT NULL,
+    variant_id TEXT NOT NULL,
+    lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    execution_id UUID REFERENCES workflow_executions(id) ON DELETE SET NULL,
+    user_id UUID,
+    assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    first_reply_at TIMESTAMPTZ,   -- First customer message after the assignment (set by markCustomerReplied)
+    UNIQUE (workflow_id, node_id, lead_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_split_assignments_node ON workflow_split_assignments(workflow_id, node_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_split_assignments_lead ON workflow_split_assignments(lead_id) WHERE first_reply_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_workflow_split_assignments_user ON workflow_split_assignments(user_id);
+
+-- Enable RLS
+ALTER TABLE workflow_split_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own workflow_split_assignments" ON workflow_split_assignments;
+CREATE POLICY "Users can manage their own workflow_split_assignments" ON workflow_split_assignments
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all workflow_split_assignments" ON workflow_split_assignments;
+CREATE POLICY "Service role can access all workflow_split_assignments" ON workflow_split_assignments
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE workflow_split_assignments IS 'Sticky variant assignments for workflow split (A/B test) nodes';
+COMMENT ON COLUMN workflow_split_assignments.variant_id IS 'Id of the variant on the split node (also its source handle)';
@@ -0,0 +1,69 @@
+-- Messaging Window Policy Migration
+-- Messenger only allows standard messages within 24 hours of the lead's last inbound event.
+-- Outside that window a send must carry a message tag or use a one-time notification token,
+-- otherwise the page risks being restricted. Sends the policy gate refuses are recorded so
+-- they can be reviewed.
+
+-- Last inbound event (message, postback, referral or opt-in) from the lead
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS last_inbound_at TIMESTAMPTZ;
+
+UPDATE leads SET last_inbound_at = last_customer_message_at
+WHERE last_inbound_at IS NULL AND last_customer_message_at IS NOT NULL;
+
+-- One-time notification tokens granted by leads (single use, valid for a year)
+CREATE TABLE IF NOT EXISTS messenger_otn_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID,
+    lead_id UUID REFERENCES leads(id) ON DELETE CASCADE,
+    sender_id TEXT NOT NULL,
+    token TEXT NOT NULL UNIQUE,
+    payload TEXT,
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_messenger_otn_tokens_sender ON messenger_otn_tokens(sender_id, expires_at) WHERE used_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_messenger_otn_tokens_user ON messenger_otn_tokens(user_id);
+
+-- Sends refused by the messaging window policy
+CREATE TABLE IF NOT EXISTS messenger_blocked_sends (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID,
+    lead_id UUID REFERENCES leads(id) ON DELETE CASCADE,
+    sender_id TEXT NOT NULL,
+    purpose TEXT NOT NULL,         -- response, follow_up, workflow, confirmed_event, post_purchase, account_update, human_agent
+    source TEXT NOT NULL,          -- Where the send came from: ai_reply, follow_up, workflow, agent_reply
+    source_id TEXT,                -- Id within the source (e.g. the workflow execution)
+    reason TEXT NOT NULL,
+    message_preview TEXT,
+    last_inbound_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_messenger_blocked_sends_user ON messenger_blocked_sends(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messenger_blocked_sends_lead ON messenger_blocked_sends(lead_id);
+
+-- Enable RLS
+ALTER TABLE messenger_otn_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messenger_blocked_sends ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own messenger_otn_tokens" ON messenger_otn_tokens;
+CREATE POLICY "Users can manage their own messenger_otn_tokens" ON messenger_otn_tokens
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all messenger_otn_tokens" ON messenger_otn_tokens;
+CREATE POLICY "Service role can access all messenger_otn_tokens" ON messenger_otn_tokens
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can manage their own messenger_blocked_sends" ON messenger_blocked_sends;
+CREATE POLICY "Users can manage their own messenger_blocked_sends" ON messenger_blocked_sends
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all messenger_blocked_sends" ON messenger_blocked_sends;
+CREATE POLICY "Service role can access all messenger_blocked_sends" ON messenger_blocked_sends
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON COLUMN leads.last_inbound_at IS 'Last message, postback, referral or opt-in from the lead; opens the 24-hour messaging window';
+COMMENT ON TABLE messenger_otn_tokens IS 'One-time notification tokens a lead granted; each allows one message outside the messaging window';
+COMMENT ON TABLE messenger_blocked_sends IS 'Outbound Messenger sends refused by the messaging window policy';
@@ -0,0 +1,65 @@
+-- Follow-up Sequences Migration
+-- Named, multi-step follow-up sequences attached to a pipeline stage. A lead entering the stage
+-- is enrolled and receives each step (fixed template or AI prompt, optional media) after its
+-- delay, until the sequence ends or a stop condition (replied, ordered, booked) is met.
+-- Leads in a sequence are skipped by the single-message AI follow-ups.
+
+CREATE TABLE IF NOT EXISTS follow_up_sequences (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    stage_id UUID REFERENCES pipeline_stages(id) ON DELETE SET NULL,
+    -- [{ "id": "...", "delayMinutes": 60, "mode": "template" | "ai", "text": "...", "mediaId": "..." }]
+    steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+    stop_conditions TEXT[] NOT NULL DEFAULT ARRAY['replied'],   -- replied, ordered, booked
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_sequences_user ON follow_up_sequences(user_id);
+CREATE INDEX IF NOT EXISTS idx_follow_up_sequences_stage ON follow_up_sequences(stage_id) WHERE is_active = true;
+
+-- A lead's progress through a sequence
+CREATE TABLE IF NOT EXISTS follow_up_enrollments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID,
+    sequence_id UUID NOT NULL REFERENCES follow_up_sequences(id) ON DELETE CASCADE,
+    lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'stopped')),
+    current_step INTEGER NOT NULL DEFAULT 0,     -- Index of the next step to send
+    next_step_at TIMESTAMPTZ,
+    last_step_sent_at TIMESTAMPTZ,
+    stop_reason TEXT,                            -- replied, ordered, booked, stage_changed, blocked, ...
+    enrolled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMPTZ
+);
+
+-- One running sequence per lead
+CREATE UNIQUE INDEX IF NOT EXISTS idx_follow_up_enrollments_active_lead ON follow_up_enrollments(lead_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_follow_up_enrollments_due ON follow_up_enrollments(next_step_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_follow_up_enrollments_user ON follow_up_enrollments(user_id);
+
+-- Enable RLS
+ALTER TABLE follow_up_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE follow_up_enrollments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own follow_up_sequences" ON follow_up_sequences;
+CREATE POLICY "Users can manage their own follow_up_sequences" ON follow_up_sequences
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all follow_up_sequences" ON follow_up_sequences;
+CREATE POLICY "Service role can access all follow_up_sequences" ON follow_up_sequences
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can manage their own follow_up_enrollments" ON follow_up_enrollments;
+CREATE POLICY "Users can manage their own follow_up_enrollments" ON follow_up_enrollments
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all follow_up_enrollments" ON follow_up_enrollments;
+CREATE POLICY "Service role can access all follow_up_enrollments" ON follow_up_enrollments
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE follow_up_sequences IS 'Multi-step follow-up sequences started when a lead enters the attached pipeline stage';
+COMMENT ON COLUMN follow_up_sequences.steps IS 'Ordered steps; each delay is counted from the previous step (or enrollment)';
+COMMENT ON TABLE follow_up_enrollments IS 'Leads currently or previously in a follow-up sequence';
@@ -0,0 +1,34 @@
+-- Send-time Models Migration
+-- Learned hour-of-week response model for follow-ups. Each row holds decayed send (trial) and
+-- reply (success) counts for the 168 hours of the week. The row with an empty sender_id is the
+-- tenant-wide prior; per-lead rows are smoothed toward it when picking the next send slot.
+
+CREATE TABLE IF NOT EXISTS send_time_models (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    sender_id TEXT NOT NULL DEFAULT '',          -- '' = tenant-wide model
+    trials DOUBLE PRECISION[] NOT NULL,          -- 168 slots, index = day_of_week * 24 + hour_of_day
+    successes DOUBLE PRECISION[] NOT NULL,
+    observations INTEGER NOT NULL DEFAULT 0,     -- Raw (undecayed) number of updates
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),  -- Counts are decayed relative to this
+    UNIQUE (user_id, sender_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_send_time_models_user ON send_time_models(user_id);
+
+-- Pattern rows carry the tenant so the model can be rebuilt and evaluated per user
+CREATE INDEX IF NOT EXISTS idx_response_patterns_user_sent ON follow_up_response_patterns(user_id, follow_up_sent_at);
+
+-- Enable RLS
+ALTER TABLE send_time_models ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own send_time_models" ON send_time_models;
+CREATE POLICY "Users can manage their own send_time_models" ON send_time_models
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all send_time_models" ON send_time_models;
+CREATE POLICY "Service role can access all send_time_models" ON send_time_models
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE send_time_models IS 'Decayed per-slot follow-up send and reply counts used to pick follow-up send times';
+COMMENT ON COLUMN send_time_models.sender_id IS 'Lead PSID, or empty for the tenant-wide prior';
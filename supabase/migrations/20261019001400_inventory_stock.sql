@@ -0,0 +1,174 @@
+-- Inventory & Stock Tracking Migration
+-- Optional stock counts on products and product variations (NULL = not tracked). Adding an item
+-- to a cart reserves stock for a limited time, checkout confirmation turns the reservations into
+-- a stock decrement, and cancelling an order releases or restocks them.
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS stock_quantity INTEGER;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER NOT NULL DEFAULT 5;
+ALTER TABLE product_variations ADD COLUMN IF NOT EXISTS stock_quantity INTEGER;
+
+-- Stock held by an order item. A cart item with several tracked holders (the product and/or
+-- one variation per option) gets one reservation per holder.
+CREATE TABLE IF NOT EXISTS stock_reservations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID,
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,       -- Set when the product itself is the holder
+    variation_id UUID REFERENCES product_variations(id) ON DELETE CASCADE,  -- Set when a variation is the holder
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'committed', 'released')),
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK ((product_id IS NULL) <> (variation_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_order ON stock_reservations(order_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_item ON stock_reservations(order_item_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_product ON stock_reservations(product_id) WHERE status = 'reserved';
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_variation ON stock_reservations(variation_id) WHERE status = 'reserved';
+
+-- Enable RLS
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own stock_reservations" ON stock_reservations;
+CREATE POLICY "Users can manage their own stock_reservations" ON stock_reservations
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all stock_reservations" ON stock_reservations;
+CREATE POLICY "Service role can access all stock_reservations" ON stock_reservations
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================================================
+-- RESERVE: (re)place the reservation of one order item on one stock holder.
+-- Locks the holder row so concurrent carts can't oversell. Returns whether it
+-- fit and how much is left; untracked holders always fit (available = NULL).
+-- ============================================================================
+CREATE OR REPLACE FUNCTION reserve_stock(
+    p_user_id UUID,
+    p_order_id UUID,
+    p_order_item_id UUID,
+    p_product_id UUID,
+    p_variation_id UUID,
+    p_quantity INTEGER,
+    p_expires_at TIMESTAMPTZ
+)
+RETURNS TABLE (ok BOOLEAN, available INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_stock INTEGER;
+    v_reserved INTEGER;
+BEGIN
+    IF p_variation_id IS NOT NULL THEN
+        SELECT stock_quantity INTO v_stock FROM product_variations WHERE id = p_variation_id FOR UPDATE;
+    ELSE
+        SELECT stock_quantity INTO v_stock FROM products WHERE id = p_product_id FOR UPDATE;
+    END IF;
+
+    -- Drop this item's previous hold on the holder before re-checking
+    DELETE FROM stock_reservations r
+    WHERE r.order_item_id = p_order_item_id
+      AND r.status = 'reserved'
+      AND r.product_id IS NOT DISTINCT FROM (CASE WHEN p_variation_id IS NULL THEN p_product_id END)
+      AND r.variation_id IS NOT DISTINCT FROM p_variation_id;
+
+    IF v_stock IS NULL THEN
+        RETURN QUERY SELECT true, NULL::INTEGER;
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(SUM(r.quantity), 0) INTO v_reserved
+    FROM stock_reservations r
+    WHERE r.status = 'reserved'
+      AND r.expires_at > NOW()
+      AND (CASE WHEN p_variation_id IS NOT NULL THEN r.variation_id = p_variation_id
+                ELSE r.product_id = p_product_id END);
+
+    IF v_stock - v_reserved < p_quantity THEN
+        RETURN QUERY SELECT false, GREATEST(v_stock - v_reserved, 0);
+        RETURN;
+    END IF;
+
+    INSERT INTO stock_reservations (user_id, order_id, order_item_id, product_id, variation_id, quantity, expires_at)
+    VALUES (
+        p_user_id, p_order_id, p_order_item_id,
+        CASE WHEN p_variation_id IS NULL THEN p_product_id END,
+        p_variation_id, p_quantity, p_expires_at
+    );
+
+    RETURN QUERY SELECT true, v_stock - v_reserved - p_quantity;
+END;
+$$;
+
+-- ============================================================================
+-- COMMIT: turn an order's live reservations into stock decrements (checkout)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION commit_order_stock(p_order_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    r RECORD;
+    v_count INTEGER := 0;
+BEGIN
+    FOR r IN
+        SELECT id, product_id, variation_id, quantity FROM stock_reservations
+        WHERE order_id = p_order_id AND status = 'reserved'
+        FOR UPDATE
+    LOOP
+        IF r.variation_id IS NOT NULL THEN
+            UPDATE product_variations SET stock_quantity = stock_quantity - r.quantity
+            WHERE id = r.variation_id AND stock_quantity IS NOT NULL;
+        ELSE
+            UPDATE products SET stock_quantity = stock_quantity - r.quantity
+            WHERE id = r.product_id AND stock_quantity IS NOT NULL;
+        END IF;
+
+        UPDATE stock_reservations SET status = 'committed', updated_at = NOW() WHERE id = r.id;
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+-- ============================================================================
+-- RELEASE: free an order's holds and put committed stock back (cancellation)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION release_order_stock(p_order_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    r RECORD;
+    v_count INTEGER := 0;
+BEGIN
+    FOR r IN
+        SELECT id, product_id, variation_id, quantity, status FROM stock_reservations
+        WHERE order_id = p_order_id AND status IN ('reserved', 'committed')
+        FOR UPDATE
+    LOOP
+        IF r.status = 'committed' THEN
+            IF r.variation_id IS NOT NULL THEN
+                UPDATE product_variations SET stock_quantity = stock_quantity + r.quantity
+                WHERE id = r.variation_id AND stock_quantity IS NOT NULL;
+            ELSE
+                UPDATE products SET stock_quantity = stock_quantity + r.quantity
+                WHERE id = r.product_id AND stock_quantity IS NOT NULL;
+            END IF;
+        END IF;
+
+        UPDATE stock_reservations SET status = 'released', updated_at = NOW() WHERE id = r.id;
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON COLUMN products.stock_quantity IS 'Units on hand; NULL means stock is not tracked';
+COMMENT ON COLUMN products.low_stock_threshold IS 'Dashboard alerts when available stock (product or variation) falls to this level';
+COMMENT ON COLUMN product_variations.stock_quantity IS 'Units on hand for this option; NULL means stock is not tracked';
+COMMENT ON TABLE stock_reservations IS 'Stock held by carts (reserved), sold (committed) or given back (released)';
@@ -0,0 +1,171 @@
+-- Discount Codes & Promotions Migration
+-- Codes the customer types at checkout (percentage, fixed amount or free shipping) and automatic
+-- promotions (buy X get Y, tiered spend discounts). The applied discounts are stored on the order
+-- next to the pre-discount subtotal so the breakdown survives later edits to the promo itself.
+
+CREATE TABLE IF NOT EXISTS discount_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    code TEXT NOT NULL,                          -- Stored upper-case; matched case-insensitively
+    description TEXT,
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed', 'free_shipping')),
+    value DECIMAL(10, 2) NOT NULL DEFAULT 0,     -- Percent (0-100) or fixed amount; unused for free_shipping
+    max_discount DECIMAL(10, 2),                 -- Cap for percentage codes
+    min_spend DECIMAL(10, 2) NOT NULL DEFAULT 0, -- Eligible subtotal required
+    usage_limit INTEGER,                         -- Total redemptions allowed (NULL = unlimited)
+    per_customer_limit INTEGER,                  -- Redemptions per lead (NULL = unlimited)
+    times_used INTEGER NOT NULL DEFAULT 0,
+    product_ids UUID[] NOT NULL DEFAULT '{}',    -- Empty product_ids and category_ids = whole cart
+    category_ids UUID[] NOT NULL DEFAULT '{}',
+    starts_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    is_public BOOLEAN NOT NULL DEFAULT false,    -- The bot may tell customers about it
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_codes_user ON discount_codes(user_id);
+
+CREATE TABLE IF NOT EXISTS promotions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    promo_type TEXT NOT NULL CHECK (promo_type IN ('buy_x_get_y', 'tiered')),
+    -- buy_x_get_y: { "buyQuantity": 2, "getQuantity": 1, "percentOff": 100 }
+    -- tiered:      { "tiers": [{ "minSpend": 1000, "percentOff": 5 }, { "minSpend": 2500, "percentOff": 10 }] }
+    config JSONB NOT NULL DEFAULT '{}'::jsonb,
+    product_ids UUID[] NOT NULL DEFAULT '{}',
+    category_ids UUID[] NOT NULL DEFAULT '{}',
+    starts_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_user ON promotions(user_id) WHERE is_active = true;
+
+-- One row per order that used a code; backs usage and per-customer limits
+CREATE TABLE IF NOT EXISTS discount_redemptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID,
+    discount_code_id UUID NOT NULL REFERENCES discount_codes(id) ON DELETE CASCADE,
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    lead_id UUID REFERENCES leads(id) ON DELETE SET NULL,
+    amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (discount_code_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_code_lead ON discount_redemptions(discount_code_id, lead_id);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS subtotal_amount DECIMAL(10, 2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_code TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Enable RLS
+ALTER TABLE discount_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discount_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own discount_codes" ON discount_codes;
+CREATE POLICY "Users can manage their own discount_codes" ON discount_codes
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all discount_codes" ON discount_codes;
+CREATE POLICY "Service role can access all discount_codes" ON discount_codes
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can manage their own promotions" ON promotions;
+CREATE POLICY "Users can manage their own promotions" ON promotions
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all promotions" ON promotions;
+CREATE POLICY "Service role can access all promotions" ON promotions
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can manage their own discount_redemptions" ON discount_redemptions;
+CREATE POLICY "Users can manage their own discount_redemptions" ON discount_redemptions
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all discount_redemptions" ON discount_redemptions;
+CREATE POLICY "Service role can access all discount_redemptions" ON discount_redemptions
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================================================
+-- REDEEM: record a code's use on an order, enforcing the usage limits under a
+-- row lock so two checkouts can't both take the last redemption
+-- ============================================================================
+CREATE OR REPLACE FUNCTION redeem_discount_code(
+    p_code_id UUID,
+    p_order_id UUID,
+    p_lead_id UUID,
+    p_amount DECIMAL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_code discount_codes%ROWTYPE;
+    v_customer_uses INTEGER;
+BEGIN
+    SELECT * INTO v_code FROM discount_codes WHERE id = p_code_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM discount_redemptions WHERE discount_code_id = p_code_id AND order_id = p_order_id) THEN
+        RETURN true;
+    END IF;
+
+    IF v_code.usage_limit IS NOT NULL AND v_code.times_used >= v_code.usage_limit THEN
+        RETURN false;
+    END IF;
+
+    IF v_code.per_customer_limit IS NOT NULL AND p_lead_id IS NOT NULL THEN
+        SELECT COUNT(*) INTO v_customer_uses FROM discount_redemptions
+        WHERE discount_code_id = p_code_id AND lead_id = p_lead_id;
+        IF v_customer_uses >= v_code.per_customer_limit THEN
+            RETURN false;
+        END IF;
+    END IF;
+
+    INSERT INTO discount_redemptions (user_id, discount_code_id, order_id, lead_id, amount)
+    VALUES (v_code.user_id, p_code_id, p_order_id, p_lead_id, p_amount);
+
+    UPDATE discount_codes SET times_used = times_used + 1, updated_at = NOW() WHERE id = p_code_id;
+    RETURN true;
+END;
+$$;
+
+-- ============================================================================
+-- RELEASE: give a cancelled order's code use back
+-- ============================================================================
+CREATE OR REPLACE FUNCTION release_discount_redemption(p_order_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    r RECORD;
+    v_count INTEGER := 0;
+BEGIN
+    FOR r IN DELETE FROM discount_redemptions WHERE order_id = p_order_id RETURNING discount_code_id
+    LOOP
+        UPDATE discount_codes SET times_used = GREATEST(times_used - 1, 0), updated_at = NOW()
+        WHERE id = r.discount_code_id;
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON TABLE discount_codes IS 'Checkout codes: percentage, fixed or free shipping, with limits, expiry, minimum spend and product/category scope';
+COMMENT ON TABLE promotions IS 'Automatic promotions (buy X get Y, tiered spend discounts) applied to every eligible cart';
+COMMENT ON TABLE discount_redemptions IS 'Orders that used a discount code';
+COMMENT ON COLUMN orders.subtotal_amount IS 'Cart sum before discounts; total_amount is after discounts';
+COMMENT ON COLUMN orders.discount_breakdown IS 'Applied discounts: [{ source, id, label, amount, freeShipping }]';
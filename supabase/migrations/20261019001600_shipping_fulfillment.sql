@@ -0,0 +1,75 @@
+-- Shipping Zones & Fulfillment Migration
+-- Tenants define where they ship (by province and/or city) with a flat or weight-based rate and
+-- whether cash on delivery is offered there; checkout matches the address to a zone and stores the
+-- fee on the order. Fulfillment records hold the carrier and tracking number once the order ships.
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS weight_grams INTEGER;
+
+CREATE TABLE IF NOT EXISTS shipping_zones (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    provinces TEXT[] NOT NULL DEFAULT '{}',          -- Matched case-insensitively
+    cities TEXT[] NOT NULL DEFAULT '{}',             -- A city match beats a province match; both empty = everywhere else
+    rate_type TEXT NOT NULL DEFAULT 'flat' CHECK (rate_type IN ('flat', 'weight')),
+    flat_rate DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    base_weight_grams INTEGER NOT NULL DEFAULT 1000, -- weight: covered by base_rate
+    base_rate DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    additional_rate_per_kg DECIMAL(10, 2) NOT NULL DEFAULT 0, -- weight: per started kg above the base weight
+    free_shipping_min_spend DECIMAL(10, 2),          -- Order total (after discounts) that ships free
+    cod_available BOOLEAN NOT NULL DEFAULT true,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_zones_user ON shipping_zones(user_id) WHERE is_active = true;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_province TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_city TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_zone_id UUID REFERENCES shipping_zones(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_zone_name TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_fee DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- One fulfillment per order
+CREATE TABLE IF NOT EXISTS order_fulfillments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID,
+    order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+    carrier TEXT,
+    tracking_number TEXT,
+    tracking_url TEXT,
+    notes TEXT,
+    shipped_at TIMESTAMPTZ,
+    delivered_at TIMESTAMPTZ,
+    shipped_notified_at TIMESTAMPTZ,      -- Customer told it shipped (re-sent if the tracking number changes)
+    notified_tracking_number TEXT,
+    delivered_notified_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_fulfillments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own shipping_zones" ON shipping_zones;
+CREATE POLICY "Users can manage their own shipping_zones" ON shipping_zones
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all shipping_zones" ON shipping_zones;
+CREATE POLICY "Service role can access all shipping_zones" ON shipping_zones
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can manage their own order_fulfillments" ON order_fulfillments;
+CREATE POLICY "Users can manage their own order_fulfillments" ON order_fulfillments
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all order_fulfillments" ON order_fulfillments;
+CREATE POLICY "Service role can access all order_fulfillments" ON order_fulfillments
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE shipping_zones IS 'Where a tenant ships, at what rate, and whether COD is offered there';
+COMMENT ON TABLE order_fulfillments IS 'Carrier and tracking details of a shipped order, with the customer notifications sent';
+COMMENT ON COLUMN orders.shipping_fee IS 'Fee charged at checkout; included in total_amount';
+COMMENT ON COLUMN products.weight_grams IS 'Shipping weight per unit, used by weight-based shipping zones';
@@ -0,0 +1,13 @@
+-- Order Self-Service Migration
+-- Customers can look up their orders in Messenger and cancel one themselves within a window the
+-- tenant configures (counted from when the order was placed; 0 turns self-cancellation off).
+
+ALTER TABLE store_settings ADD COLUMN IF NOT EXISTS order_cancellation_window_hours INTEGER NOT NULL DEFAULT 24;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orders_lead_created ON orders(lead_id, created_at DESC);
+
+COMMENT ON COLUMN store_settings.order_cancellation_window_hours IS 'Hours after checkout a customer may cancel a confirmed / processing order in Messenger (0 = never)';
+COMMENT ON COLUMN orders.cancellation_reason IS 'Why the order was cancelled, e.g. cancelled by the customer in Messenger';
@@ -0,0 +1,29 @@
+-- Webhook Dead Letter Migration
+-- failed_webhook_events was only ever filled by the Central Router's forwards. The Messenger
+-- webhook now records every event whose handler throws (raw event, tenant, error, attempts) so it
+-- can be retried with backoff by the retry cron, and replayed or discarded from the admin screen.
+
+ALTER TABLE failed_webhook_events ALTER COLUMN destination_url DROP NOT NULL;
+
+ALTER TABLE failed_webhook_events ADD COLUMN IF NOT EXISTS user_id UUID;
+ALTER TABLE failed_webhook_events ADD COLUMN IF NOT EXISTS sender_id TEXT;
+ALTER TABLE failed_webhook_events ADD COLUMN IF NOT EXISTS handler TEXT;            -- message | image | postback | referral; NULL = Central Router forward
+ALTER TABLE failed_webhook_events ADD COLUMN IF NOT EXISTS dedupe_key TEXT;         -- Claimed through processed_webhook_messages before each retry
+ALTER TABLE failed_webhook_events ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ;
+ALTER TABLE failed_webhook_events ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
+
+ALTER TABLE failed_webhook_events DROP CONSTRAINT IF EXISTS failed_webhook_events_status_check;
+ALTER TABLE failed_webhook_events ADD CONSTRAINT failed_webhook_events_status_check
+  CHECK (status IN ('pending', 'retrying', 'failed', 'success', 'discarded'));
+
+CREATE INDEX IF NOT EXISTS idx_failed_webhook_events_user ON failed_webhook_events(user_id, created_at DESC);
+
+-- Raw events hold customer messages: server-side access only (the admin screen goes through the API)
+DROP POLICY IF EXISTS "Allow all operations on failed_webhook_events" ON failed_webhook_events;
+DROP POLICY IF EXISTS "Service role can access all failed_webhook_events" ON failed_webhook_events;
+CREATE POLICY "Service role can access all failed_webhook_events" ON failed_webhook_events
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE failed_webhook_events IS 'Dead letter queue for webhook events whose handler failed, and for failed Central Router forwards';
+COMMENT ON COLUMN failed_webhook_events.payload IS 'The raw messaging event as received from Facebook';
+COMMENT ON COLUMN failed_webhook_events.retry_count IS 'Attempts made after the original delivery';
@@ -0,0 +1,97 @@
+-- Message Queue Migration
+-- Durable replacement for the in-memory priority queue in messageQueueService. Incoming Messenger
+-- text messages are stored here and drained by workers (the webhook right after enqueueing, and
+-- the queue cron). Claiming uses SKIP LOCKED so workers on different instances never take the
+-- same message; a claim is only held until its visibility timeout, after which the message becomes
+-- claimable again. A sender's messages are handled strictly one at a time, oldest first.
+
+CREATE TABLE IF NOT EXISTS message_queue (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID,
+    page_id TEXT,
+    sender_id TEXT NOT NULL,
+    message_text TEXT NOT NULL,
+    payload JSONB,                             -- Raw messaging event, for the dead letter queue
+    priority INTEGER NOT NULL DEFAULT 0,       -- MessagePriority: 3 critical .. 0 low
+    priority_reason TEXT,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'done', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    available_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),   -- Pushed back after a failed attempt
+    locked_by TEXT,
+    locked_until TIMESTAMPTZ,                  -- Visibility timeout of the current claim
+    last_error TEXT,
+    enqueued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_queue_claimable ON message_queue(priority DESC, enqueued_at)
+  WHERE status IN ('queued', 'processing');
+CREATE INDEX IF NOT EXISTS idx_message_queue_sender ON message_queue(sender_id, enqueued_at)
+  WHERE status IN ('queued', 'processing');
+CREATE INDEX IF NOT EXISTS idx_message_queue_user_completed ON message_queue(user_id, completed_at DESC);
+
+ALTER TABLE message_queue ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own message_queue" ON message_queue;
+CREATE POLICY "Users can view their own message_queue" ON message_queue
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all message_queue" ON message_queue;
+CREATE POLICY "Service role can access all message_queue" ON message_queue
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================================================
+-- CLAIM: take up to p_limit messages for a worker, highest priority first.
+-- A message is claimable when it is queued and due, or its previous claim timed
+-- out - and no older message of the same sender is still waiting or in flight.
+-- Timed-out claims that used up their attempts are failed instead.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION claim_queued_messages(
+    p_worker TEXT,
+    p_limit INTEGER DEFAULT 10,
+    p_visibility_seconds INTEGER DEFAULT 60
+)
+RETURNS SETOF message_queue
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE message_queue
+    SET status = 'failed', last_error = 'Visibility timeout exceeded', locked_by = NULL, updated_at = NOW()
+    WHERE status = 'processing' AND locked_until < NOW() AND attempts >= max_attempts;
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT q.id
+        FROM message_queue q
+        WHERE ((q.status = 'queued' AND q.available_at <= NOW())
+               OR (q.status = 'processing' AND q.locked_until < NOW()))
+          AND NOT EXISTS (
+              SELECT 1 FROM message_queue older
+              WHERE older.sender_id = q.sender_id
+                AND older.page_id IS NOT DISTINCT FROM q.page_id
+                AND older.status IN ('queued', 'processing')
+                AND (older.enqueued_at, older.id) < (q.enqueued_at, q.id)
+          )
+        ORDER BY q.priority DESC, q.enqueued_at ASC
+        LIMIT p_limit
+        FOR UPDATE OF q SKIP LOCKED
+    )
+    UPDATE message_queue m
+    SET status = 'processing',
+        attempts = m.attempts + 1,
+        locked_by = p_worker,
+        locked_until = NOW() + make_interval(secs => p_visibility_seconds),
+        started_at = COALESCE(m.started_at, NOW()),
+        updated_at = NOW()
+    FROM candidates c
+    WHERE m.id = c.id
+    RETURNING m.*;
+END;
+$$;
+
+COMMENT ON TABLE message_queue IS 'Durable priority queue of incoming Messenger messages, drained by the queue workers';
+COMMENT ON COLUMN message_queue.locked_until IS 'A claim expires at this time; the message is then claimable again (or failed once attempts run out)';
+COMMENT ON COLUMN message_queue.started_at IS 'First claim; started_at - enqueued_at is the queue wait';
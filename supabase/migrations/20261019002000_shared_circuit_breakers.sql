@@ -0,0 +1,180 @@
+-- Shared Circuit Breaker Migration
+-- Circuit breaker state used to live in each serverless instance's memory, so one instance kept
+-- calling a provider another had already given up on. The state now lives here and every
+-- transition happens inside one of the functions below, under a row lock. When the reset timeout
+-- of an OPEN circuit passes, exactly one request (the probe) is let through; its result closes
+-- or re-opens the circuit for every instance.
+
+CREATE TABLE IF NOT EXISTS circuit_breakers (
+    provider TEXT PRIMARY KEY,
+    state TEXT NOT NULL DEFAULT 'CLOSED' CHECK (state IN ('CLOSED', 'OPEN', 'HALF_OPEN')),
+    failures INTEGER NOT NULL DEFAULT 0,      -- Consecutive failures while CLOSED
+    opened_at TIMESTAMPTZ,
+    last_failure_at TIMESTAMPTZ,
+    last_trip_reason TEXT,
+    probe_started_at TIMESTAMPTZ,             -- HALF_OPEN: when the single probe was let through
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS circuit_breaker_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider TEXT NOT NULL,
+    from_state TEXT NOT NULL,
+    to_state TEXT NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_circuit_breaker_events_provider ON circuit_breaker_events(provider, created_at DESC);
+
+ALTER TABLE circuit_breakers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE circuit_breaker_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can access all circuit_breakers" ON circuit_breakers;
+CREATE POLICY "Service role can access all circuit_breakers" ON circuit_breakers
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can access all circuit_breaker_events" ON circuit_breaker_events;
+CREATE POLICY "Service role can access all circuit_breaker_events" ON circuit_breaker_events
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================================================
+-- ACQUIRE: may a request to this provider go out? OPEN -> HALF_OPEN once the
+-- reset timeout has passed, letting that one request through as the probe. A
+-- probe that never reported back is replaced after p_probe_timeout_ms.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION circuit_acquire(
+    p_provider TEXT,
+    p_reset_timeout_ms INTEGER,
+    p_probe_timeout_ms INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, state TEXT, is_probe BOOLEAN)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    c circuit_breakers%ROWTYPE;
+BEGIN
+    INSERT INTO circuit_breakers (provider) VALUES (p_provider) ON CONFLICT (provider) DO NOTHING;
+    SELECT * INTO c FROM circuit_breakers cb WHERE cb.provider = p_provider FOR UPDATE;
+
+    IF c.state = 'CLOSED' THEN
+        RETURN QUERY SELECT true, c.state, false;
+        RETURN;
+    END IF;
+
+    IF c.state = 'OPEN' THEN
+        IF c.opened_at + make_interval(secs => p_reset_timeout_ms / 1000.0) <= NOW() THEN
+            UPDATE circuit_breakers SET state = 'HALF_OPEN', probe_started_at = NOW(), updated_at = NOW()
+            WHERE provider = p_provider;
+            INSERT INTO circuit_breaker_events (provider, from_state, to_state, reason)
+            VALUES (p_provider, 'OPEN', 'HALF_OPEN', 'Reset timeout passed, sending a probe');
+            RETURN QUERY SELECT true, 'HALF_OPEN'::TEXT, true;
+            RETURN;
+        END IF;
+        RETURN QUERY SELECT false, c.state, false;
+        RETURN;
+    END IF;
+
+    -- HALF_OPEN: only one probe at a time
+    IF c.probe_started_at IS NULL OR c.probe_started_at + make_interval(secs => p_probe_timeout_ms / 1000.0) <= NOW() THEN
+        UPDATE circuit_breakers SET probe_started_at = NOW(), updated_at = NOW() WHERE provider = p_provider;
+        RETURN QUERY SELECT true, c.state, true;
+        RETURN;
+    END IF;
+
+    RETURN QUERY SELECT false, c.state, false;
+END;
+$$;
+
+-- ============================================================================
+-- RECORD: apply a request's outcome. CLOSED trips to OPEN after
+-- p_failure_threshold consecutive failures; the probe's result decides HALF_OPEN.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION circuit_record_result(
+    p_provider TEXT,
+    p_success BOOLEAN,
+    p_is_probe BOOLEAN,
+    p_failure_threshold INTEGER,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    c circuit_breakers%ROWTYPE;
+BEGIN
+    INSERT INTO circuit_breakers (provider) VALUES (p_provider) ON CONFLICT (provider) DO NOTHING;
+    SELECT * INTO c FROM circuit_breakers cb WHERE cb.provider = p_provider FOR UPDATE;
+
+    IF p_success THEN
+        IF c.state = 'CLOSED' AND c.failures > 0 THEN
+            UPDATE circuit_breakers SET failures = 0, updated_at = NOW() WHERE provider = p_provider;
+        ELSIF c.state = 'HALF_OPEN' AND p_is_probe THEN
+            UPDATE circuit_breakers
+            SET state = 'CLOSED', failures = 0, probe_started_at = NULL, opened_at = NULL, updated_at = NOW()
+            WHERE provider = p_provider;
+            INSERT INTO circuit_breaker_events (provider, from_state, to_state, reason)
+            VALUES (p_provider, 'HALF_OPEN', 'CLOSED', 'Probe succeeded');
+            RETURN 'CLOSED';
+        END IF;
+        RETURN c.state;
+    END IF;
+
+    IF c.state = 'CLOSED' THEN
+        IF c.failures + 1 >= p_failure_threshold THEN
+            UPDATE circuit_breakers
+            SET state = 'OPEN', failures = c.failures + 1, opened_at = NOW(), last_failure_at = NOW(),
+                last_trip_reason = p_reason, updated_at = NOW()
+            WHERE provider = p_provider;
+            INSERT INTO circuit_breaker_events (provider, from_state, to_state, reason)
+            VALUES (p_provider, 'CLOSED', 'OPEN', format('%s consecutive failures: %s', c.failures + 1, COALESCE(p_reason, 'unknown error')));
+            RETURN 'OPEN';
+        END IF;
+        UPDATE circuit_breakers SET failures = c.failures + 1, last_failure_at = NOW(), updated_at = NOW()
+        WHERE provider = p_provider;
+        RETURN 'CLOSED';
+    END IF;
+
+    IF c.state = 'HALF_OPEN' AND p_is_probe THEN
+        UPDATE circuit_breakers
+        SET state = 'OPEN', opened_at = NOW(), last_failure_at = NOW(), probe_started_at = NULL,
+            last_trip_reason = p_reason, updated_at = NOW()
+        WHERE provider = p_provider;
+        INSERT INTO circuit_breaker_events (provider, from_state, to_state, reason)
+        VALUES (p_provider, 'HALF_OPEN', 'OPEN', format('Probe failed: %s', COALESCE(p_reason, 'unknown error')));
+        RETURN 'OPEN';
+    END IF;
+
+    UPDATE circuit_breakers SET last_failure_at = NOW(), updated_at = NOW() WHERE provider = p_provider;
+    RETURN c.state;
+END;
+$$;
+
+-- ============================================================================
+-- RESET: force a circuit CLOSED (admin)
+-- ============================================================================
+CREATE OR REPLACE FUNCTION circuit_reset(p_provider TEXT, p_reason TEXT DEFAULT 'Manual reset')
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_state TEXT;
+BEGIN
+    SELECT state INTO v_state FROM circuit_breakers WHERE provider = p_provider FOR UPDATE;
+    IF v_state IS NULL THEN
+        RETURN;
+    END IF;
+
+    UPDATE circuit_breakers
+    SET state = 'CLOSED', failures = 0, opened_at = NULL, probe_started_at = NULL, updated_at = NOW()
+    WHERE provider = p_provider;
+
+    IF v_state <> 'CLOSED' THEN
+        INSERT INTO circuit_breaker_events (provider, from_state, to_state, reason)
+        VALUES (p_provider, v_state, 'CLOSED', p_reason);
+    END IF;
+END;
+$$;
+
+COMMENT ON TABLE circuit_breakers IS 'Circuit breaker state per AI provider, shared by all instances';
+COMMENT ON TABLE circuit_breaker_events IS 'State transitions of the circuit breakers, with why they happened';
@@ -0,0 +1,111 @@
+-- Hybrid Document Search Migration
+-- Tenant knowledge base search used to load a handful of a tenant's chunks and score them in JS,
+-- so most of the knowledge base was never looked at. hybrid_search_documents runs two ranked
+-- legs inside Postgres, both filtered by tenant:
+--   * semantic: nearest neighbours on the embedding (HNSW index, cosine distance)
+--   * keyword:  full-text match on a generated tsvector (GIN index), ranked with ts_rank_cd
+-- and fuses them with reciprocal rank fusion: score = sum over legs of 1 / (rrf_k + rank).
+-- The fused candidates are re-ranked by the application (reranker.ts).
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- ANN index for the semantic leg. HNSW needs no training data, so it stays accurate as
+-- tenants add documents (unlike the ivfflat lists sized for the initial data set).
+CREATE INDEX IF NOT EXISTS idx_documents_embedding_hnsw ON documents
+    USING hnsw (embedding vector_cosine_ops);
+
+-- Full-text vector for the keyword leg. 'english' drops stop words ("how", "the") that would
+-- otherwise match every chunk; Taglish words such as "magkano" pass through unchanged.
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_tsv TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_documents_content_tsv ON documents USING gin (content_tsv);
+
+-- ============================================================================
+-- HYBRID SEARCH: semantic + keyword legs fused with reciprocal rank fusion.
+-- Keyword terms are OR-ed: customer questions are conversational, and requiring
+-- every word would leave the keyword leg empty for most of them.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION hybrid_search_documents(
+    query_embedding VECTOR(1024),
+    query_text TEXT,
+    filter_user_id UUID DEFAULT NULL,
+    match_count INTEGER DEFAULT 20,
+    semantic_threshold FLOAT DEFAULT 0.35,
+    rrf_k INTEGER DEFAULT 60
+)
+RETURNS TABLE (
+    id BIGINT,
+    content TEXT,
+    metadata JSONB,
+    similarity FLOAT,
+    semantic_rank INTEGER,
+    keyword_rank INTEGER,
+    rrf_score FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_tsquery TSQUERY;
+BEGIN
+    -- A filtered HNSW scan drops neighbours that belong to other tenants after the
+    -- search, so widen the candidate list and, on pgvector 0.8+, keep scanning
+    -- until enough of this tenant's rows are found.
+    PERFORM set_config('hnsw.ef_search', GREATEST(match_count * 4, 100)::TEXT, true);
+    BEGIN
+        PERFORM set_config('hnsw.iterative_scan', 'relaxed_order', true);
+    EXCEPTION WHEN OTHERS THEN
+        NULL; -- Older pgvector without iterative scans
+    END;
+
+    v_tsquery := NULLIF(replace(plainto_tsquery('english', COALESCE(query_text, ''))::TEXT, ' & ', ' | '), '')::TSQUERY;
+
+    RETURN QUERY
+    WITH semantic AS (
+        SELECT
+            ranked.id,
+            ranked.similarity,
+            (ROW_NUMBER() OVER (ORDER BY ranked.distance))::INTEGER AS rank
+        FROM (
+            SELECT d.id, d.embedding <=> query_embedding AS distance, 1 - (d.embedding <=> query_embedding) AS similarity
+            FROM documents d
+            WHERE d.embedding IS NOT NULL
+              AND (filter_user_id IS NULL OR d.user_id = filter_user_id)
+            ORDER BY d.embedding <=> query_embedding
+            LIMIT match_count
+        ) ranked
+        WHERE ranked.similarity > semantic_threshold
+    ),
+    keyword AS (
+        SELECT
+            d.id,
+            (ROW_NUMBER() OVER (ORDER BY ts_rank_cd(d.content_tsv, v_tsquery) DESC, d.id))::INTEGER AS rank
+        FROM documents d
+        WHERE v_tsquery IS NOT NULL
+          AND d.content_tsv @@ v_tsquery
+          AND (filter_user_id IS NULL OR d.user_id = filter_user_id)
+        ORDER BY ts_rank_cd(d.content_tsv, v_tsquery) DESC, d.id
+        LIMIT match_count
+    ),
+    fused AS (
+        SELECT
+            COALESCE(s.id, k.id) AS id,
+            s.similarity,
+            s.rank AS semantic_rank,
+            k.rank AS keyword_rank,
+            COALESCE(1.0 / (rrf_k + s.rank), 0) + COALESCE(1.0 / (rrf_k + k.rank), 0) AS rrf_score
+        FROM semantic s
+        FULL OUTER JOIN keyword k ON k.id = s.id
+    )
+    SELECT d.id, d.content, d.metadata, f.similarity, f.semantic_rank, f.keyword_rank, f.rrf_score::FLOAT
+    FROM fused f
+    JOIN documents d ON d.id = f.id
+    ORDER BY f.rrf_score DESC
+    LIMIT match_count;
+END;
+$$;
+
+COMMENT ON COLUMN documents.content_tsv IS 'Full-text vector of content, used by the keyword leg of hybrid_search_documents';
+COMMENT ON FUNCTION hybrid_search_documents IS 'Tenant-filtered semantic (HNSW) + full-text search over documents, fused with reciprocal rank fusion';
@@ -0,0 +1,13 @@
+-- AI Provider Settings Migration
+-- Each tenant can choose which AI providers (aiProviderRegistry) serve each model role:
+--   { "chat": ["nvidia", "openai"], "vision": [...], "rerank": [...],
+--     "embedding": "nvidia", "models": { "openai": { "chat": "gpt-4o-mini" } } }
+-- Chat, vision and rerank lists are failover orders; embedding is a single provider because
+-- stored document vectors only match the model that produced them. An empty object means the
+-- deployment defaults (AI_PROVIDER_ORDER / AI_EMBEDDING_PROVIDER).
+-- Keys keep coming from api_keys (per provider) and the env; bot_settings.nvidia_api_key still
+-- takes precedence for NVIDIA.
+
+ALTER TABLE bot_settings ADD COLUMN IF NOT EXISTS ai_provider_settings JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN bot_settings.ai_provider_settings IS 'AI provider per model role (chat/vision/rerank failover lists, single embedding provider) and model overrides';
@@ -0,0 +1,50 @@
+-- Document Source Ingestion Migration
+-- document_sources now also tracks web pages and sitemaps, the outline of each source,
+-- and what is needed to re-ingest it when it changes:
+--   source_kind      'file' (uploaded), 'url' (a single page) or 'sitemap' (parent of its pages)
+--   structure        { "headings": [{ "level", "text" }], "tables": [{ "name", "columns", "rowCount" }] }
+--   content_hash     SHA-256 of the parsed content; chunks are only replaced when it changes
+--   http_etag / http_last_modified  validators for conditional re-fetches
+--   next_check_at    when the refresh-document-sources cron looks at a URL source again
+-- documents.source_file_id links chunks to their source so a re-ingest can replace them.
+
+ALTER TABLE document_sources ADD COLUMN IF NOT EXISTS source_kind TEXT NOT NULL DEFAULT 'file';
+ALTER TABLE document_sources ADD COLUMN IF NOT EXISTS source_url TEXT;
+ALTER TABLE document_sources ADD COLUMN IF NOT EXISTS parent_source_id UUID REFERENCES document_sources(id) ON DELETE CASCADE;
+ALTER TABLE document_sources ADD COLUMN IF NOT EXISTS structure JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE document_sources ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE document_sources ADD COLUMN IF NOT EXISTS http_etag TEXT;
+ALTER TABLE document_sources ADD COLUMN IF NOT EXISTS http_last_modified TEXT;
+ALTER TABLE document_sources ADD COLUMN IF NOT EXISTS refresh_interval_hours INT;
+ALTER TABLE document_sources ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMPTZ;
+ALTER TABLE document_sources ADD COLUMN IF NOT EXISTS last_ingested_at TIMESTAMPTZ;
+ALTER TABLE document_sources ADD COLUMN IF NOT EXISTS next_check_at TIMESTAMPTZ;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE constraint_name = 'document_sources_source_kind_check'
+  ) THEN
+    ALTER TABLE document_sources
+      ADD CONSTRAINT document_sources_source_kind_check
+      CHECK (source_kind IN ('file', 'url', 'sitemap'));
+  END IF;
+END $$;
+
+-- Cron: URL sources that are due for a check
+CREATE INDEX IF NOT EXISTS idx_document_sources_next_check
+  ON document_sources(next_check_at)
+  WHERE source_url IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_document_sources_parent ON document_sources(parent_source_id);
+
+-- Re-uploads of the same file replace the earlier source
+CREATE INDEX IF NOT EXISTS idx_document_sources_user_filename
+  ON document_sources(user_id, original_filename)
+  WHERE source_kind = 'file';
+
+COMMENT ON COLUMN document_sources.source_kind IS 'file (uploaded), url (single page) or sitemap (parent of its page sources)';
+COMMENT ON COLUMN document_sources.structure IS 'Headings and tables (name, columns, row count) found while parsing';
+COMMENT ON COLUMN document_sources.content_hash IS 'SHA-256 of the parsed content, used to skip re-ingesting unchanged sources';
+COMMENT ON COLUMN document_sources.next_check_at IS 'When the refresh-document-sources cron re-fetches this URL source';
@@ -0,0 +1,61 @@
+-- Retrieval Analytics Migration
+-- Every searchAllSources call is logged with the query (and its embedding, so similar questions
+-- can be clustered without embedding them again), the top similarity, the chunks handed to the
+-- bot, and whether detectNeedsHumanAttention fired for the message. Low-confidence queries are
+-- grouped into "knowledge gaps" on the knowledge page; resolving a gap (adding an FAQ or
+-- dismissing it) stamps its logs with resolved_at.
+-- documents.hit_count / last_hit_at count how often a chunk was chosen, so stale or never-used
+-- chunks can be found and pruned.
+
+CREATE TABLE IF NOT EXISTS retrieval_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID,
+    sender_id TEXT,
+    query TEXT NOT NULL,
+    query_embedding VECTOR(1024),
+    top_similarity FLOAT,                      -- Best vector similarity among the chosen chunks; NULL when none
+    result_count INTEGER NOT NULL DEFAULT 0,
+    chunk_ids BIGINT[] NOT NULL DEFAULT '{}',  -- documents.id of the chunks given to the bot, in rank order
+    low_confidence BOOLEAN NOT NULL DEFAULT FALSE,
+    needs_human_attention BOOLEAN NOT NULL DEFAULT FALSE,
+    human_attention_trigger TEXT,              -- escalation | frustration | repetition | low_confidence
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retrieval_logs_user_created ON retrieval_logs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_retrieval_logs_open_gaps ON retrieval_logs(user_id, created_at DESC)
+  WHERE low_confidence AND resolved_at IS NULL;
+
+ALTER TABLE retrieval_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own retrieval_logs" ON retrieval_logs;
+CREATE POLICY "Users can view their own retrieval_logs" ON retrieval_logs
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all retrieval_logs" ON retrieval_logs;
+CREATE POLICY "Service role can access all retrieval_logs" ON retrieval_logs
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS hit_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS last_hit_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_documents_user_hits ON documents(user_id, hit_count, last_hit_at);
+
+-- ============================================================================
+-- Count one retrieval for each chunk handed to the bot
+-- ============================================================================
+CREATE OR REPLACE FUNCTION record_document_hits(doc_ids BIGINT[])
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    UPDATE documents
+    SET hit_count = hit_count + 1,
+        last_hit_at = NOW()
+    WHERE id = ANY(doc_ids);
+$$;
+
+COMMENT ON TABLE retrieval_logs IS 'One row per knowledge base search, for knowledge gap detection';
+COMMENT ON COLUMN retrieval_logs.low_confidence IS 'No chunk was similar enough, or the customer needed a human';
+COMMENT ON COLUMN documents.hit_count IS 'How many searches handed this chunk to the bot';
+COMMENT ON FUNCTION record_document_hits IS 'Increment hit_count and set last_hit_at for the given documents';
@@ -0,0 +1,209 @@
+-- Knowledge Freshness Migration
+-- documents.confidence_score / verified_at / expires_at were stored but never used by retrieval.
+--   * hybrid_search_documents now skips expired chunks and returns the three columns so the
+--     application can down-rank low-confidence and long-unverified chunks (rag.ts).
+--   * knowledge_conflicts records pairs of chunks that state different facts about the same
+--     thing (two prices for one product, two sets of business hours). Chunks in an open
+--     conflict are left out of retrieval until the owner keeps one of them or dismisses it,
+--     so the bot never quotes either side of a contradiction.
+-- find_conflict_candidates pairs fact-bearing chunks with their nearest neighbours; the
+-- application extracts the facts and confirms the contradiction before recording it.
+
+-- ============================================================================
+-- CONFLICTS
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS knowledge_conflicts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    document_a BIGINT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,   -- Always the smaller id of the pair
+    document_b BIGINT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'resolved', 'dismissed', 'cleared')),     -- cleared: checked, no contradiction
+    fact_type TEXT,                            -- price | hours | contact | other
+    subject TEXT,                              -- What the facts are about, e.g. "Large pizza"
+    value_a TEXT,
+    value_b TEXT,
+    kept_document_id BIGINT,                   -- Set when resolved; the other chunk was expired
+    checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, document_a, document_b)
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_conflicts_user_status ON knowledge_conflicts(user_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_knowledge_conflicts_open_a ON knowledge_conflicts(document_a) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_knowledge_conflicts_open_b ON knowledge_conflicts(document_b) WHERE status = 'open';
+
+ALTER TABLE knowledge_conflicts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own knowledge_conflicts" ON knowledge_conflicts;
+CREATE POLICY "Users can view their own knowledge_conflicts" ON knowledge_conflicts
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can access all knowledge_conflicts" ON knowledge_conflicts;
+CREATE POLICY "Service role can access all knowledge_conflicts" ON knowledge_conflicts
+  FOR ALL USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+CREATE INDEX IF NOT EXISTS idx_documents_user_expires ON documents(user_id, expires_at) WHERE expires_at IS NOT NULL;
+
+-- ============================================================================
+-- HYBRID SEARCH: same as before, minus expired and conflicting chunks, plus the
+-- freshness columns. The return type changes, so the function is dropped first.
+-- ============================================================================
+DROP FUNCTION IF EXISTS hybrid_search_documents(VECTOR(1024), TEXT, UUID, INTEGER, FLOAT, INTEGER);
+
+CREATE OR REPLACE FUNCTION hybrid_search_documents(
+    query_embedding VECTOR(1024),
+    query_text TEXT,
+    filter_user_id UUID DEFAULT NULL,
+    match_count INTEGER DEFAULT 20,
+    semantic_threshold FLOAT DEFAULT 0.35,
+    rrf_k INTEGER DEFAULT 60
+)
+RETURNS TABLE (
+    id BIGINT,
+    content TEXT,
+    metadata JSONB,
+    similarity FLOAT,
+    semantic_rank INTEGER,
+    keyword_rank INTEGER,
+    rrf_score FLOAT,
+    confidence_score FLOAT,
+    verified_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_tsquery TSQUERY;
+BEGIN
+    PERFORM set_config('hnsw.ef_search', GREATEST(match_count * 4, 100)::TEXT, true);
+    BEGIN
+        PERFORM set_config('hnsw.iterative_scan', 'relaxed_order', true);
+    EXCEPTION WHEN OTHERS THEN
+        NULL; -- Older pgvector without iterative scans
+    END;
+
+    v_tsquery := NULLIF(replace(plainto_tsquery('english', COALESCE(query_text, ''))::TEXT, ' & ', ' | '), '')::TSQUERY;
+
+    RETURN QUERY
+    WITH usable AS (
+        -- Chunks the bot may quote: not expired, not part of an unresolved contradiction
+        SELECT d.id
+        FROM documents d
+        WHERE (filter_user_id IS NULL OR d.user_id = filter_user_id)
+          AND (d.expires_at IS NULL OR d.expires_at > NOW())
+          AND NOT EXISTS (
+              SELECT 1 FROM knowledge_conflicts c
+              WHERE c.status = 'open' AND (c.document_a = d.id OR c.document_b = d.id)
+          )
+    ),
+    semantic AS (
+        SELECT
+            ranked.id,
+            ranked.similarity,
+            (ROW_NUMBER() OVER (ORDER BY ranked.distance))::INTEGER AS rank
+        FROM (
+            SELECT d.id, d.embedding <=> query_embedding AS distance, 1 - (d.embedding <=> query_embedding) AS similarity
+            FROM documents d
+            WHERE d.embedding IS NOT NULL
+              AND (filter_user_id IS NULL OR d.user_id = filter_user_id)
+              AND (d.expires_at IS NULL OR d.expires_at > NOW())
+            ORDER BY d.embedding <=> query_embedding
+            LIMIT match_count
+        ) ranked
+        WHERE ranked.similarity > semantic_threshold
+          AND ranked.id IN (SELECT u.id FROM usable u)
+    ),
+    keyword AS (
+        SELECT
+            d.id,
+            (ROW_NUMBER() OVER (ORDER BY ts_rank_cd(d.content_tsv, v_tsquery) DESC, d.id))::INTEGER AS rank
+        FROM documents d
+        WHERE v_tsquery IS NOT NULL
+          AND d.content_tsv @@ v_tsquery
+          AND d.id IN (SELECT u.id FROM usable u)
+        ORDER BY ts_rank_cd(d.content_tsv, v_tsquery) DESC, d.id
+        LIMIT match_count
+    ),
+    fused AS (
+        SELECT
+            COALESCE(s.id, k.id) AS id,
+            s.similarity,
+            s.rank AS semantic_rank,
+            k.rank AS keyword_rank,
+            COALESCE(1.0 / (rrf_k + s.rank), 0) + COALESCE(1.0 / (rrf_k + k.rank), 0) AS rrf_score
+        FROM semantic s
+        FULL OUTER JOIN keyword k ON k.id = s.id
+    )
+    SELECT d.id, d.content, d.metadata, f.similarity, f.semantic_rank, f.keyword_rank, f.rrf_score::FLOAT,
+           d.confidence_score::FLOAT, d.verified_at, d.expires_at
+    FROM fused f
+    JOIN documents d ON d.id = f.id
+    ORDER BY f.rrf_score DESC
+    LIMIT match_count;
+END;
+$$;
+
+-- ============================================================================
+-- CONFLICT CANDIDATES: each fact-bearing chunk (mentions a price or a time) changed
+-- since changed_since, paired with its nearest fact-bearing neighbours. Pairs already
+-- recorded are skipped, except cleared pairs where either chunk changed since the check.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION find_conflict_candidates(
+    filter_user_id UUID,
+    changed_since TIMESTAMPTZ DEFAULT NULL,
+    min_similarity FLOAT DEFAULT 0.75,
+    neighbour_count INTEGER DEFAULT 5,
+    max_pairs INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    document_a BIGINT,
+    document_b BIGINT,
+    similarity FLOAT
+)
+LANGUAGE sql
+AS $$
+    WITH pairs AS (
+        SELECT DISTINCT
+            LEAST(a.id, n.id) AS document_a,
+            GREATEST(a.id, n.id) AS document_b,
+            n.similarity
+        FROM documents a
+        CROSS JOIN LATERAL (
+            SELECT b.id, 1 - (b.embedding <=> a.embedding) AS similarity
+            FROM documents b
+            WHERE b.user_id = filter_user_id
+              AND b.id <> a.id
+              AND b.embedding IS NOT NULL
+              AND (b.expires_at IS NULL OR b.expires_at > NOW())
+              AND b.content ~* '(₱|\$|php|peso|\d\s*(am|pm)\M|\d{1,2}:\d{2})'
+            ORDER BY b.embedding <=> a.embedding
+            LIMIT neighbour_count
+        ) n
+        WHERE a.user_id = filter_user_id
+          AND a.embedding IS NOT NULL
+          AND (a.expires_at IS NULL OR a.expires_at > NOW())
+          AND a.content ~* '(₱|\$|php|peso|\d\s*(am|pm)\M|\d{1,2}:\d{2})'
+          AND (changed_since IS NULL OR a.created_at >= changed_since OR a.verified_at >= changed_since)
+          AND n.similarity >= min_similarity
+    )
+    SELECT p.document_a, p.document_b, p.similarity
+    FROM pairs p
+    JOIN documents da ON da.id = p.document_a
+    JOIN documents db ON db.id = p.document_b
+    WHERE NOT EXISTS (
+        SELECT 1 FROM knowledge_conflicts c
+        WHERE c.user_id = filter_user_id
+          AND c.document_a = p.document_a
+          AND c.document_b = p.document_b
+          AND (c.status <> 'cleared' OR c.checked_at >= GREATEST(da.verified_at, db.verified_at))
+    )
+    ORDER BY p.similarity DESC
+    LIMIT max_pairs;
+$$;
+
+COMMENT ON TABLE knowledge_conflicts IS 'Pairs of knowledge chunks that state contradictory facts; open conflicts are excluded from retrieval';
+COMMENT ON COLUMN knowledge_conflicts.status IS 'open (awaiting the owner), resolved (one chunk kept), dismissed (both correct) or cleared (checked, no contradiction)';
+COMMENT ON FUNCTION hybrid_search_documents IS 'Tenant-filtered semantic (HNSW) + full-text search over unexpired, unconflicted documents, fused with reciprocal rank fusion';
+COMMENT ON FUNCTION find_conflict_candidates IS 'Similar pairs of price/hours-bearing chunks not yet checked for contradictions';